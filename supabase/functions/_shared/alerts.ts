@@ -0,0 +1,145 @@
+/**
+ * User alert rules — the pure half of evaluate-alerts. A rule watches one
+ * observation (a price, a 24h change, an asset's regression risk, the
+ * ArkLine Score, or a QPS signal) and fires when its condition turns true,
+ * not while it stays true: each evaluation stores the condition's state and
+ * the next one compares against it. A rule seen for the first time only
+ * records its state, so creating "BTC above 100k" while BTC is at 101k does
+ * not fire until it crosses again. Cooldowns suppress re-fires inside the
+ * window; the dedupe key makes a retried run idempotent.
+ */
+
+export type AlertKind = "price_cross" | "change_24h" | "risk_band" | "arkline_score" | "qps_flip"
+export type AlertDirection = "above" | "below" | "either"
+
+export interface AlertRule {
+  id: string
+  user_id: string
+  kind: AlertKind
+  asset: string | null          // upper-case ticker; null for arkline_score
+  direction: AlertDirection | null
+  threshold: number | null      // price (USD), % change, or score
+  band: string | null           // risk_band: one of RISK_BANDS[].key
+  cooldown_minutes: number
+  last_value: number | string | null
+  last_state: boolean | null
+  last_triggered_at: string | null
+}
+
+/** Everything the evaluator can observe, keyed by upper-case ticker. */
+export interface AlertMarket {
+  prices: Map<string, { price: number; change24h: number | null }>
+  risk: Map<string, number>     // 0–1 regression risk
+  score: number | null          // ArkLine Score 0–100
+  qps: Map<string, string>      // bullish | neutral | bearish
+}
+
+export interface AlertFire {
+  title: string
+  body: string
+  dedupeKey: string
+}
+
+export interface AlertEvaluation {
+  value: number | string | null // null = nothing to observe this run; state is left as-is
+  state: boolean | null
+  fire: AlertFire | null
+}
+
+/** Same bands as the web risk gauge (lib/risk/multi-factor RISK_BANDS). */
+export const RISK_BANDS = [
+  { key: "very_low", label: "Very Low Risk", min: 0, max: 0.2 },
+  { key: "low", label: "Low Risk", min: 0.2, max: 0.4 },
+  { key: "neutral", label: "Neutral", min: 0.4, max: 0.55 },
+  { key: "elevated", label: "Elevated Risk", min: 0.55, max: 0.7 },
+  { key: "high", label: "High Risk", min: 0.7, max: 0.9 },
+  { key: "extreme", label: "Extreme Risk", min: 0.9, max: Infinity },
+] as const
+
+export function riskBandOf(risk: number): (typeof RISK_BANDS)[number] {
+  return RISK_BANDS.find((b) => risk < b.max) ?? RISK_BANDS[RISK_BANDS.length - 1]
+}
+
+function observe(rule: AlertRule, market: AlertMarket): number | string | null {
+  const asset = rule.asset?.toUpperCase() ?? ""
+  switch (rule.kind) {
+    case "price_cross": return market.prices.get(asset)?.price ?? null
+    case "change_24h": return market.prices.get(asset)?.change24h ?? null
+    case "risk_band": return market.risk.get(asset) ?? null
+    case "arkline_score": return market.score
+    case "qps_flip": return market.qps.get(asset) ?? null
+  }
+}
+
+function conditionMet(rule: AlertRule, value: number | string): boolean {
+  const t = Number(rule.threshold ?? 0)
+  const v = Number(value)
+  switch (rule.kind) {
+    case "price_cross":
+    case "arkline_score":
+      return rule.direction === "below" ? v <= t : v >= t
+    case "change_24h":
+      return rule.direction === "below" ? v <= -Math.abs(t)
+        : rule.direction === "either" ? Math.abs(v) >= Math.abs(t)
+        : v >= Math.abs(t)
+    case "risk_band":
+      return riskBandOf(v).key === rule.band
+    case "qps_flip":
+      // A flip is a change from the last signal seen, so "met" means "differs".
+      return rule.last_value != null && value !== rule.last_value
+  }
+}
+
+const usd = (n: number) =>
+  n >= 1 ? `$${n.toLocaleString("en-US", { maximumFractionDigits: 2 })}` : `$${n.toPrecision(4)}`
+const pct = (n: number) => `${n > 0 ? "+" : ""}${n.toFixed(1)}%`
+
+function message(rule: AlertRule, value: number | string): { title: string; body: string } {
+  const asset = rule.asset?.toUpperCase() ?? ""
+  const t = Number(rule.threshold ?? 0)
+  switch (rule.kind) {
+    case "price_cross":
+      return {
+        title: `${asset} ${rule.direction === "below" ? "fell below" : "rose above"} ${usd(t)}`,
+        body: `${asset} is trading at ${usd(Number(value))}.`,
+      }
+    case "change_24h":
+      return {
+        title: `${asset} ${pct(Number(value))} in 24h`,
+        body: `${asset} moved more than ${Math.abs(t)}% over the last 24 hours.`,
+      }
+    case "risk_band":
+      return {
+        title: `${asset} risk entered ${riskBandOf(Number(value)).label}`,
+        body: `${asset} regression risk is ${Number(value).toFixed(2)}.`,
+      }
+    case "arkline_score":
+      return {
+        title: `ArkLine Score ${rule.direction === "below" ? "fell below" : "rose above"} ${t}`,
+        body: `The ArkLine Score is now ${Math.round(Number(value))}.`,
+      }
+    case "qps_flip":
+      return {
+        title: `${asset} QPS flipped ${String(value)}`,
+        body: `${asset} positioning signal changed from ${String(rule.last_value)} to ${String(value)}.`,
+      }
+  }
+}
+
+export function evaluateRule(rule: AlertRule, market: AlertMarket, now: Date = new Date()): AlertEvaluation {
+  const value = observe(rule, market)
+  if (value == null) return { value: null, state: rule.last_state, fire: null }
+
+  const state = conditionMet(rule, value)
+  const firstSeen = rule.last_state == null && rule.last_value == null
+  // qps_flip has no persistent "true" state — every new signal is a fresh transition.
+  const turnedTrue = rule.kind === "qps_flip" ? state : state && rule.last_state !== true
+  const cooldownMs = Math.max(0, rule.cooldown_minutes) * 60_000
+  const cooling = rule.last_triggered_at != null && now.getTime() - Date.parse(rule.last_triggered_at) < cooldownMs
+
+  if (firstSeen || !turnedTrue || cooling) return { value, state, fire: null }
+
+  const bucket = Math.floor(now.getTime() / Math.max(cooldownMs, 60_000))
+  const what = rule.kind === "qps_flip" || rule.kind === "risk_band" ? `:${rule.kind === "risk_band" ? riskBandOf(Number(value)).key : value}` : ""
+  return { value, state, fire: { ...message(rule, value), dedupeKey: `${rule.kind}${what}:${bucket}` } }
+}
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict"
+import { evaluateRule, riskBandOf } from "./alerts.ts"
+import type { AlertMarket, AlertRule } from "./alerts.ts"
+
+const NOW = new Date("2026-07-17T12:00:00Z")
+
+function rule(overrides: Partial<AlertRule>): AlertRule {
+  return {
+    id: "r1", user_id: "u1", kind: "price_cross", asset: "BTC", direction: "above", threshold: 100_000,
+    band: null, cooldown_minutes: 60, last_value: null, last_state: null, last_triggered_at: null,
+    ...overrides,
+  }
+}
+
+function market(overrides: Partial<AlertMarket> = {}): AlertMarket {
+  return {
+    prices: new Map([["BTC", { price: 101_000, change24h: 6.2 }]]),
+    risk: new Map([["BTC", 0.72]]),
+    score: 64,
+    qps: new Map([["BTC", "bullish"]]),
+    ...overrides,
+  }
+}
+
+Deno.test("first observation records state without firing", () => {
+  const r = evaluateRule(rule({}), market(), NOW)
+  assert.equal(r.state, true)
+  assert.equal(r.value, 101_000)
+  assert.equal(r.fire, null)
+})
+
+Deno.test("price cross fires on the transition, not while it stays above", () => {
+  const crossed = evaluateRule(rule({ last_value: 99_000, last_state: false }), market(), NOW)
+  assert.equal(crossed.fire?.title, "BTC rose above $100,000")
+  const still = evaluateRule(rule({ last_value: 100_500, last_state: true }), market(), NOW)
+  assert.equal(still.fire, null)
+})
+
+Deno.test("cooldown suppresses a re-cross but still tracks state", () => {
+  const r = evaluateRule(
+    rule({ last_value: 99_000, last_state: false, last_triggered_at: "2026-07-17T11:30:00Z" }),
+    market(),
+    NOW,
+  )
+  assert.equal(r.fire, null)
+  assert.equal(r.state, true)
+})
+
+Deno.test("24h change honours direction", () => {
+  const up = rule({ kind: "change_24h", threshold: 5, last_value: 1, last_state: false })
+  assert.ok(evaluateRule(up, market(), NOW).fire)
+  assert.equal(evaluateRule({ ...up, direction: "below" }, market(), NOW).fire, null)
+  assert.ok(evaluateRule({ ...up, direction: "either" }, market({ prices: new Map([["BTC", { price: 1, change24h: -7 }]]) }), NOW).fire)
+})
+
+Deno.test("risk band fires on entering the band", () => {
+  assert.equal(riskBandOf(0.72).key, "high")
+  const r = evaluateRule(rule({ kind: "risk_band", band: "high", threshold: null, last_value: 0.66, last_state: false }), market(), NOW)
+  assert.equal(r.fire?.title, "BTC risk entered High Risk")
+  assert.match(r.fire!.dedupeKey, /^risk_band:high:/)
+})
+
+Deno.test("ArkLine Score crossing below", () => {
+  const r = evaluateRule(
+    rule({ kind: "arkline_score", asset: null, direction: "below", threshold: 30, last_value: 35, last_state: false }),
+    market({ score: 28 }),
+    NOW,
+  )
+  assert.equal(r.fire?.title, "ArkLine Score fell below 30")
+})
+
+Deno.test("QPS flip fires on every change of signal", () => {
+  const base = rule({ kind: "qps_flip", direction: null, threshold: null })
+  assert.equal(evaluateRule({ ...base, last_value: "bullish", last_state: false }, market(), NOW).fire, null)
+  const flip = evaluateRule({ ...base, last_value: "neutral", last_state: false }, market(), NOW)
+  assert.equal(flip.fire?.body, "BTC positioning signal changed from neutral to bullish.")
+})
+
+Deno.test("missing observation leaves the rule untouched", () => {
+  const r = evaluateRule(rule({ asset: "NOPE", last_state: false, last_value: 1 }), market(), NOW)
+  assert.deepEqual(r, { value: null, state: false, fire: null })
+})
+
+Deno.test("dedupe key is stable within a cooldown window", () => {
+  const r = rule({ last_value: 99_000, last_state: false })
+  const a = evaluateRule(r, market(), NOW).fire!.dedupeKey
+  const b = evaluateRule(r, market(), new Date(NOW.getTime() + 5 * 60_000)).fire!.dedupeKey
+  assert.equal(a, b)
+})
@@ -0,0 +1,237 @@
+/**
+ * Asset registry — the one place the tracked asset universe is defined.
+ *
+ * Every edge function that needs a coin list or a symbol mapping derives it
+ * from ASSET_REGISTRY instead of keeping its own copy, so listing or
+ * delisting a coin is a one-row change here. validateAssetRegistry() flags
+ * rows missing a mapping their pipelines need; it runs in the registry test
+ * and in health-check.
+ */
+
+export type AssetClass = "crypto" | "stablecoin" | "index" | "macro" | "commodity" | "stock"
+
+export type AssetPipeline =
+  | "fibonacci"        // fibonacci-pipeline scans it for new setups
+  | "signal_monitor"   // signal-monitor resolves open signals on it
+  | "positioning"      // compute-positioning-signals publishes a QPS signal
+  | "model_portfolio"  // compute-model-portfolios may allocate to it
+
+export interface AssetDefinition {
+  ticker: string          // Display ticker, also the DB key e.g. "BTC"
+  name: string
+  assetClass: AssetClass
+  pipelines: AssetPipeline[]
+
+  // Symbol mappings (omit when the venue doesn't list it)
+  coinbase?: string       // Coinbase product e.g. "BTC-USD"
+  binance?: string        // Binance USDT pair e.g. "BTCUSDT"
+  kraken?: string         // Kraken pair e.g. "XBTUSD". Default: derived from the Coinbase USD product.
+  coingeckoId?: string    // e.g. "bitcoin"
+  fmp?: string            // FMP symbol e.g. "BTCUSD", "SPY"
+
+  // Pipeline options
+  fibTiers?: string[]                     // fibonacci: tiers to run ["4h", "1h"]. Default: both.
+  qpsSource?: "coinbase" | "fmp"          // positioning: daily candle source. Default: coinbase for crypto, fmp otherwise.
+  qpsBtcPair?: "coinbase" | "synthetic"   // positioning: also publish ALT/BTC (native product, or ALT-USD ÷ BTC-USD)
+  displaySymbol?: string                  // positioning: Yahoo symbol for the display price (overrides ETF proxy price)
+  maxExposure?: number                    // model_portfolio: allocation cap. Default: DEFAULT_MAX_EXPOSURE.
+  riskModel?: {                           // model_portfolio: log-regression risk level
+    originDate: string
+    deviationBounds: [number, number]
+  }
+}
+
+const FIB = "fibonacci"
+const MON = "signal_monitor"
+const QPS = "positioning"
+const MP = "model_portfolio"
+
+export const ASSET_REGISTRY: AssetDefinition[] = [
+  // ── Crypto — fibonacci pool first (order = pipeline batch order) ──
+  // Core 5 (backtest-validated)
+  { ticker: "BTC",    name: "Bitcoin",        assetClass: "crypto", pipelines: [FIB, MON, QPS, MP], coinbase: "BTC-USD",    binance: "BTCUSDT",    coingeckoId: "bitcoin",            fmp: "BTCUSD", maxExposure: 1.00, riskModel: { originDate: "2009-01-03", deviationBounds: [-0.8, 0.8] } },
+  { ticker: "ETH",    name: "Ethereum",       assetClass: "crypto", pipelines: [FIB, MON, QPS, MP], coinbase: "ETH-USD",    binance: "ETHUSDT",    coingeckoId: "ethereum",           fmp: "ETHUSD", qpsBtcPair: "coinbase", maxExposure: 0.20, riskModel: { originDate: "2015-07-30", deviationBounds: [-0.8, 0.8] } },
+  { ticker: "SOL",    name: "Solana",         assetClass: "crypto", pipelines: [FIB, MON, QPS, MP], coinbase: "SOL-USD",    binance: "SOLUSDT",    coingeckoId: "solana",             fmp: "SOLUSD", qpsBtcPair: "coinbase", maxExposure: 0.20, riskModel: { originDate: "2020-04-10", deviationBounds: [-1.0, 1.0] } },
+  { ticker: "SUI",    name: "Sui",            assetClass: "crypto", pipelines: [FIB, MON, QPS, MP], coinbase: "SUI-USD",    binance: "SUIUSDT",    coingeckoId: "sui",                qpsBtcPair: "synthetic" },
+  { ticker: "ADA",    name: "Cardano",        assetClass: "crypto", pipelines: [FIB, MON],          coinbase: "ADA-USD",    binance: "ADAUSDT",    coingeckoId: "cardano" },
+  // Re-enabled — insufficient sample size, let adaptive feedback handle pausing
+  { ticker: "LINK",   name: "Chainlink",      assetClass: "crypto", pipelines: [FIB, MON, QPS, MP], coinbase: "LINK-USD",   binance: "LINKUSDT",   coingeckoId: "chainlink",          qpsBtcPair: "coinbase", maxExposure: 0.15 },
+  { ticker: "AVAX",   name: "Avalanche",      assetClass: "crypto", pipelines: [FIB, MON, QPS, MP], coinbase: "AVAX-USD",   binance: "AVAXUSDT",   coingeckoId: "avalanche-2",        qpsBtcPair: "coinbase", maxExposure: 0.15 },
+  { ticker: "APT",    name: "Aptos",          assetClass: "crypto", pipelines: [FIB, MON],          coinbase: "APT-USD",    binance: "APTUSDT",    coingeckoId: "aptos" },
+  { ticker: "ATOM",   name: "Cosmos",         assetClass: "crypto", pipelines: [FIB, MON],          coinbase: "ATOM-USD",   binance: "ATOMUSDT",   coingeckoId: "cosmos" },
+  { ticker: "BNB",    name: "BNB",            assetClass: "crypto", pipelines: [FIB, MON, QPS, MP], coinbase: "BNB-USD",    binance: "BNBUSDT",    coingeckoId: "binancecoin",        qpsBtcPair: "synthetic", maxExposure: 0.15 },
+
+  // Fibonacci bench — poor live stats or too thin volume. Still monitored so
+  // signals opened before benching resolve.
+  { ticker: "XRP",    name: "XRP",            assetClass: "crypto", pipelines: [MON, QPS, MP],      coinbase: "XRP-USD",    binance: "XRPUSDT",    coingeckoId: "ripple",             qpsBtcPair: "synthetic", maxExposure: 0.15 },  // 2/5 (40%), PF -0.08
+  { ticker: "ONDO",   name: "Ondo",           assetClass: "crypto", pipelines: [MON, QPS, MP],      coinbase: "ONDO-USD",   binance: "ONDOUSDT",   coingeckoId: "ondo-finance",       qpsBtcPair: "synthetic" },  // 1/1 (100%), PF 0.00
+  { ticker: "ALGO",   name: "Algorand",       assetClass: "crypto", pipelines: [MON],               coinbase: "ALGO-USD",   binance: "ALGOUSDT",   coingeckoId: "algorand" },  // 2/2 (100%), PF 0.00
+  { ticker: "TIA",    name: "Celestia",       assetClass: "crypto", pipelines: [MON],               coinbase: "TIA-USD",    binance: "TIAUSDT",    coingeckoId: "celestia" },
+  { ticker: "FIL",    name: "Filecoin",       assetClass: "crypto", pipelines: [MON],               coinbase: "FIL-USD",    binance: "FILUSDT",    coingeckoId: "filecoin" },  // 1/1 (100%), PF 99.0
+  { ticker: "AAVE",   name: "Aave",           assetClass: "crypto", pipelines: [MON, QPS, MP],      coinbase: "AAVE-USD",   binance: "AAVEUSDT",   coingeckoId: "aave",               qpsBtcPair: "coinbase", maxExposure: 0.15 },  // 0/2 (0%), PF 0.00
+  { ticker: "INJ",    name: "Injective",      assetClass: "crypto", pipelines: [MON],               coinbase: "INJ-USD",    binance: "INJUSDT",    coingeckoId: "injective-protocol" },  // 1/1 (100%), PF 0.00
+  { ticker: "POL",    name: "Polygon",        assetClass: "crypto", pipelines: [MON],               coinbase: "POL-USD",    binance: "POLUSDT",    coingeckoId: "polygon-ecosystem-token" },  // 0/1 (0%), PF 0.00
+  { ticker: "ZEC",    name: "Zcash",          assetClass: "crypto", pipelines: [MON, QPS, MP],      coinbase: "ZEC-USD",    binance: "ZECUSDT",    coingeckoId: "zcash",              qpsBtcPair: "synthetic" },  // 0/1 (0%), PF 0.00
+  { ticker: "VET",    name: "VeChain",        assetClass: "crypto", pipelines: [MON],               coinbase: "VET-USD",    binance: "VETUSDT",    coingeckoId: "vechain" },
+
+  // ── Crypto — monitored and/or QPS only ──
+  { ticker: "RENDER", name: "Render",         assetClass: "crypto", pipelines: [MON, QPS, MP],      coinbase: "RENDER-USD", binance: "RENDERUSDT", coingeckoId: "render-token",       qpsBtcPair: "synthetic" },
+  { ticker: "HYPE",   name: "Hyperliquid",    assetClass: "crypto", pipelines: [MON, QPS, MP],      coinbase: "HYPE-USD",   binance: "HYPEUSDT",   coingeckoId: "hyperliquid",        qpsBtcPair: "synthetic" },
+  { ticker: "DOGE",   name: "Dogecoin",       assetClass: "crypto", pipelines: [MON, QPS, MP],      coinbase: "DOGE-USD",   binance: "DOGEUSDT",   coingeckoId: "dogecoin",           qpsBtcPair: "coinbase" },
+  { ticker: "UNI",    name: "Uniswap",        assetClass: "crypto", pipelines: [MON, QPS, MP],      coinbase: "UNI-USD",    binance: "UNIUSDT",    coingeckoId: "uniswap",            qpsBtcPair: "coinbase" },
+  { ticker: "NEAR",   name: "NEAR Protocol",  assetClass: "crypto", pipelines: [MON, QPS],          coinbase: "NEAR-USD",   binance: "NEARUSDT",   coingeckoId: "near",               qpsBtcPair: "synthetic" },
+  { ticker: "PEPE",   name: "Pepe",           assetClass: "crypto", pipelines: [MON],               coinbase: "PEPE-USD",   binance: "PEPEUSDT",   coingeckoId: "pepe" },
+  { ticker: "ENA",    name: "Ethena",         assetClass: "crypto", pipelines: [MON],               coinbase: "ENA-USD",    binance: "ENAUSDT",    coingeckoId: "ethena" },
+  { ticker: "FET",    name: "Fetch.ai",       assetClass: "crypto", pipelines: [MON],               coinbase: "FET-USD",    binance: "FETUSDT",    coingeckoId: "fetch-ai" },
+  { ticker: "ARB",    name: "Arbitrum",       assetClass: "crypto", pipelines: [MON],               coinbase: "ARB-USD",    binance: "ARBUSDT",    coingeckoId: "arbitrum" },
+  { ticker: "DOT",    name: "Polkadot",       assetClass: "crypto", pipelines: [MON],               coinbase: "DOT-USD",    binance: "DOTUSDT",    coingeckoId: "polkadot" },
+  { ticker: "TAO",    name: "Bittensor",      assetClass: "crypto", pipelines: [QPS, MP],           coinbase: "TAO-USD",    binance: "TAOUSDT",    coingeckoId: "bittensor",          qpsBtcPair: "synthetic" },
+  { ticker: "BCH",    name: "Bitcoin Cash",   assetClass: "crypto", pipelines: [QPS, MP],           coinbase: "BCH-USD",    binance: "BCHUSDT",    coingeckoId: "bitcoin-cash",       qpsBtcPair: "coinbase", maxExposure: 0.15 },
+  { ticker: "TRX",    name: "Tron",           assetClass: "crypto", pipelines: [QPS, MP],           coinbase: "TRX-USD",    binance: "TRXUSDT",    coingeckoId: "tron",               fmp: "TRXUSD", qpsSource: "fmp", qpsBtcPair: "synthetic", maxExposure: 0.15 },
+  { ticker: "AERO",   name: "Aerodrome",      assetClass: "crypto", pipelines: [QPS, MP],           coinbase: "AERO-USD",   coingeckoId: "aerodrome-finance",  qpsBtcPair: "synthetic" },
+  { ticker: "ASTER",  name: "Aster",          assetClass: "crypto", pipelines: [QPS],               coinbase: "ASTER-USD",  binance: "ASTERUSDT",  coingeckoId: "aster-2",            qpsBtcPair: "synthetic" },
+
+  // ── Defensive (model portfolios, uncapped) ──
+  { ticker: "PAXG",   name: "PAX Gold",       assetClass: "crypto",     pipelines: [MP], coinbase: "PAXG-USD", binance: "PAXGUSDT", coingeckoId: "pax-gold", maxExposure: 1.00 },
+  { ticker: "USDC",   name: "USD Coin",       assetClass: "stablecoin", pipelines: [MP], coingeckoId: "usd-coin", maxExposure: 1.00 },
+
+  // ── Indices (FMP — ETF proxies) ──
+  { ticker: "SPY",    name: "S&P 500",            assetClass: "index",     pipelines: [QPS], fmp: "SPY" },
+  { ticker: "QQQ",    name: "Nasdaq 100",         assetClass: "index",     pipelines: [QPS], fmp: "QQQ" },
+  { ticker: "DIA",    name: "Dow Jones",          assetClass: "index",     pipelines: [QPS], fmp: "DIA" },
+  { ticker: "IWM",    name: "Russell 2000",       assetClass: "index",     pipelines: [QPS], fmp: "IWM" },
+
+  // ── Macro ──
+  { ticker: "VIX",    name: "Volatility Index",   assetClass: "macro",     pipelines: [QPS], fmp: "^VIX" },
+  { ticker: "DXY",    name: "US Dollar Index",    assetClass: "macro",     pipelines: [QPS], fmp: "UUP",   displaySymbol: "DX-Y.NYB" },
+  { ticker: "TLT",    name: "20Y Treasuries",     assetClass: "macro",     pipelines: [QPS], fmp: "TLT" },
+
+  // ── Commodities ──
+  { ticker: "GOLD",   name: "Gold",               assetClass: "commodity", pipelines: [QPS], fmp: "GCUSD" },
+  { ticker: "SILVER", name: "Silver",             assetClass: "commodity", pipelines: [QPS], fmp: "SIUSD" },
+  { ticker: "OIL",    name: "Oil",                assetClass: "commodity", pipelines: [QPS], fmp: "USO",   displaySymbol: "CL=F" },
+  { ticker: "COPPER", name: "Copper",             assetClass: "commodity", pipelines: [QPS], fmp: "CPER",  displaySymbol: "HG=F" },
+  { ticker: "URA",    name: "Uranium",            assetClass: "commodity", pipelines: [QPS], fmp: "URA" },
+  { ticker: "DBA",    name: "Agriculture",        assetClass: "commodity", pipelines: [QPS], fmp: "DBA" },
+  { ticker: "DBB",    name: "Industrial Metals",  assetClass: "commodity", pipelines: [QPS], fmp: "DBB" },
+  { ticker: "REMX",   name: "Rare Earth Metals",  assetClass: "commodity", pipelines: [QPS], fmp: "REMX" },
+
+  // ── Stocks ──
+  { ticker: "AAPL",   name: "Apple",              assetClass: "stock",     pipelines: [QPS], fmp: "AAPL" },
+  { ticker: "NVDA",   name: "NVIDIA",             assetClass: "stock",     pipelines: [QPS], fmp: "NVDA" },
+  { ticker: "GOOGL",  name: "Google",             assetClass: "stock",     pipelines: [QPS], fmp: "GOOGL" },
+  { ticker: "AMZN",   name: "Amazon",             assetClass: "stock",     pipelines: [QPS], fmp: "AMZN" },
+  { ticker: "META",   name: "Meta",               assetClass: "stock",     pipelines: [QPS], fmp: "META" },
+  { ticker: "MSFT",   name: "Microsoft",          assetClass: "stock",     pipelines: [QPS], fmp: "MSFT" },
+  { ticker: "TSLA",   name: "Tesla",              assetClass: "stock",     pipelines: [QPS], fmp: "TSLA" },
+  { ticker: "NFLX",   name: "Netflix",            assetClass: "stock",     pipelines: [QPS], fmp: "NFLX" },
+  { ticker: "ORCL",   name: "Oracle",             assetClass: "stock",     pipelines: [QPS], fmp: "ORCL" },
+  { ticker: "RKLB",   name: "Rocket Lab",         assetClass: "stock",     pipelines: [QPS], fmp: "RKLB" },
+  { ticker: "COHR",   name: "Coherent",           assetClass: "stock",     pipelines: [QPS], fmp: "COHR" },
+  { ticker: "CRCL",   name: "Circle",             assetClass: "stock",     pipelines: [QPS], fmp: "CRCL" },
+  { ticker: "LUNR",   name: "Intuitive Machines", assetClass: "stock",     pipelines: [QPS], fmp: "LUNR" },
+  { ticker: "CIFR",   name: "Cipher Mining",      assetClass: "stock",     pipelines: [QPS], fmp: "CIFR" },
+
+  // ── Crypto Stocks ──
+  { ticker: "COIN",   name: "Coinbase",           assetClass: "stock",     pipelines: [QPS], fmp: "COIN" },
+  { ticker: "MSTR",   name: "MicroStrategy",      assetClass: "stock",     pipelines: [QPS], fmp: "MSTR" },
+  { ticker: "MARA",   name: "Marathon Digital",   assetClass: "stock",     pipelines: [QPS], fmp: "MARA" },
+  { ticker: "RIOT",   name: "Riot Platforms",     assetClass: "stock",     pipelines: [QPS], fmp: "RIOT" },
+  { ticker: "GLXY",   name: "Galaxy Digital",     assetClass: "stock",     pipelines: [QPS], fmp: "GLXY" },
+]
+
+// ─── Lookups ─────────────────────────────────────────────────────────────────
+
+/** Registry rows participating in a pipeline, in registry order. */
+export function assetsIn(pipeline: AssetPipeline): AssetDefinition[] {
+  return ASSET_REGISTRY.filter((a) => a.pipelines.includes(pipeline))
+}
+
+export function getAsset(ticker: string): AssetDefinition | undefined {
+  return ASSET_REGISTRY.find((a) => a.ticker === ticker)
+}
+
+export interface AssetConfig {
+  cbPair: string   // Coinbase product ID e.g. "BTC-USD"
+  ticker: string   // Display ticker e.g. "BTC"
+  tiers?: string[] // Which tiers to run: ["4h", "1h"] or subset. Default: both.
+}
+
+/** What fibonacci-pipeline scans for new setups. */
+export const PIPELINE_ASSETS: AssetConfig[] = assetsIn("fibonacci").map((a) => ({
+  cbPair: a.coinbase!,
+  ticker: a.ticker,
+  tiers: a.fibTiers,
+}))
+
+// Binance symbol mapping (ticker → USDT pair) for dual-source verification
+// during signal resolution. Some tickers differ between Coinbase and Binance.
+export const BINANCE_MAP: Record<string, string> = Object.fromEntries(
+  ASSET_REGISTRY.filter((a) => a.binance).map((a) => [a.ticker, a.binance!]),
+)
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+type MappingField = "coinbase" | "binance" | "coingeckoId" | "fmp"
+
+function requiredMappings(asset: AssetDefinition): Map<MappingField, string> {
+  const required = new Map<MappingField, string>()
+  const need = (field: MappingField, why: string) => {
+    if (!required.has(field)) required.set(field, why)
+  }
+
+  if (asset.assetClass === "crypto" || asset.assetClass === "stablecoin") need("coingeckoId", "crypto asset")
+  for (const pipeline of asset.pipelines) {
+    switch (pipeline) {
+      case "fibonacci":
+      case "signal_monitor":
+        need("coinbase", `${pipeline} candles`)
+        need("binance", `${pipeline} dual-source check`)
+        break
+      case "positioning": {
+        const source = asset.qpsSource ?? (asset.assetClass === "crypto" ? "coinbase" : "fmp")
+        need(source === "fmp" ? "fmp" : "coinbase", "positioning candles")
+        if (asset.qpsBtcPair === "synthetic") need("coinbase", "positioning BTC pair (BTC-USD divisor)")
+        break
+      }
+      case "model_portfolio":
+        if (asset.assetClass !== "stablecoin") need("coinbase", "model_portfolio pricing")
+        if (asset.riskModel) need("fmp", "model_portfolio risk model")
+        break
+    }
+  }
+  return required
+}
+
+/**
+ * Returns one message per problem: duplicate tickers, missing mappings a
+ * pipeline needs, and pipeline options set on rows outside that pipeline.
+ * Empty when the registry is consistent.
+ */
+export function validateAssetRegistry(registry: AssetDefinition[] = ASSET_REGISTRY): string[] {
+  const problems: string[] = []
+  const seen = new Set<string>()
+
+  for (const asset of registry) {
+    if (seen.has(asset.ticker)) problems.push(`${asset.ticker}: duplicate ticker`)
+    seen.add(asset.ticker)
+
+    if (asset.pipelines.length === 0) problems.push(`${asset.ticker}: not in any pipeline`)
+
+    for (const [field, why] of requiredMappings(asset)) {
+      if (!asset[field]) problems.push(`${asset.ticker}: missing ${field} (needed for ${why})`)
+    }
+
+    const inPipeline = (p: AssetPipeline) => asset.pipelines.includes(p)
+    if (asset.fibTiers && !inPipeline("fibonacci")) problems.push(`${asset.ticker}: fibTiers set but not in fibonacci`)
+    if (asset.fibTiers?.some((t) => t !== "4h" && t !== "1h")) problems.push(`${asset.ticker}: unknown fib tier in ${asset.fibTiers.join(",")}`)
+    if ((asset.qpsSource || asset.qpsBtcPair || asset.displaySymbol) && !inPipeline("positioning")) {
+      problems.push(`${asset.ticker}: positioning options set but not in positioning`)
+    }
+    if ((asset.maxExposure !== undefined || asset.riskModel) && !inPipeline("model_portfolio")) {
+      problems.push(`${asset.ticker}: model_portfolio options set but not in model_portfolio`)
+    }
+  }
+
+  return problems
+}
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict"
+import { ASSET_REGISTRY, assetsIn, BINANCE_MAP, PIPELINE_ASSETS, validateAssetRegistry } from "./assets.ts"
+import type { AssetDefinition } from "./assets.ts"
+
+Deno.test("registry has every mapping its pipelines need", () => {
+  assert.deepEqual(validateAssetRegistry(), [])
+})
+
+Deno.test("validateAssetRegistry flags missing mappings and stray options", () => {
+  const rows: AssetDefinition[] = [
+    { ticker: "AAA", name: "A", assetClass: "crypto", pipelines: ["fibonacci"], coinbase: "AAA-USD", coingeckoId: "a" },
+    { ticker: "BBB", name: "B", assetClass: "stock", pipelines: ["positioning"], maxExposure: 0.1 },
+    { ticker: "AAA", name: "A2", assetClass: "index", pipelines: ["positioning"], fmp: "AAA" },
+    { ticker: "CCC", name: "C", assetClass: "crypto", pipelines: ["model_portfolio"], coinbase: "CCC-USD", coingeckoId: "c", riskModel: { originDate: "2020-01-01", deviationBounds: [-1, 1] } },
+  ]
+  assert.deepEqual(validateAssetRegistry(rows), [
+    "AAA: missing binance (needed for fibonacci dual-source check)",
+    "BBB: missing fmp (needed for positioning candles)",
+    "BBB: model_portfolio options set but not in model_portfolio",
+    "AAA: duplicate ticker",
+    "CCC: missing fmp (needed for model_portfolio risk model)",
+  ])
+})
+
+Deno.test("derived lists follow registry membership", () => {
+  assert.deepEqual(
+    PIPELINE_ASSETS.map((a) => a.ticker),
+    ["BTC", "ETH", "SOL", "SUI", "ADA", "LINK", "AVAX", "APT", "ATOM", "BNB"],
+  )
+  assert.ok(PIPELINE_ASSETS.every((a) => a.cbPair === `${a.ticker}-USD`))
+  for (const asset of assetsIn("signal_monitor")) {
+    assert.equal(BINANCE_MAP[asset.ticker], asset.binance)
+  }
+  assert.equal(new Set(ASSET_REGISTRY.map((a) => a.ticker)).size, ASSET_REGISTRY.length)
+})
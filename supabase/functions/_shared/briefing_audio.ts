@@ -0,0 +1,283 @@
+/**
+ * Chaptered briefing audio — the pure half of briefing-tts. A briefing's
+ * "##" sections are grouped into four chapters (macro, crypto, signals,
+ * calendar), each chapter is voiced separately by a TTS provider, and the MP3
+ * parts are joined behind an ID3v2.3 tag carrying CHAP/CTOC chapter markers,
+ * which podcast apps and the in-app player read for chapter navigation.
+ *
+ * Providers only turn text into MP3 bytes. openAiTts() is the production
+ * voice; localTts() is a stand-in that returns silent MP3 frames sized to the
+ * text, so chaptering, durations and the podcast feed can be exercised in
+ * tests and local runs without an API key.
+ */
+
+export type ChapterId = "macro" | "crypto" | "signals" | "calendar"
+export type ChapterVoice = "anchor" | "analyst"
+
+export const CHAPTERS: { id: ChapterId; title: string; voice: ChapterVoice }[] = [
+  { id: "macro", title: "Macro", voice: "anchor" },
+  { id: "crypto", title: "Crypto", voice: "analyst" },
+  { id: "signals", title: "Signals", voice: "analyst" },
+  { id: "calendar", title: "Calendar", voice: "anchor" },
+]
+
+// Section header (lower-cased) → chapter. null drops the section from the
+// audio (Posture is shown as a pill, not read out). Headers not listed here
+// join the chapter of the section before them.
+const SECTION_CHAPTERS: Record<string, ChapterId | null> = {
+  "tldr": "macro",
+  "what's happening": "macro",
+  "macro": "macro",
+  "week in review": "macro",
+  "posture": null,
+  "weekend pulse": "crypto",
+  "technical": "crypto",
+  "signals": "signals",
+  "bottom line": "calendar",
+  "week ahead": "calendar",
+  "mindset": "calendar",
+}
+
+const SPOKEN_LABELS: Record<string, string> = {
+  "tldr": "In brief",
+}
+
+export interface CalendarEvent {
+  title: string
+  time?: string | null      // ISO
+  impact?: string | null
+}
+
+export interface Chapter {
+  id: ChapterId
+  title: string
+  voice: ChapterVoice
+  text: string              // plain spoken text
+}
+
+export interface ChapterMark {
+  id: ChapterId
+  title: string
+  start: number             // seconds
+  end: number
+}
+
+/** "2026-07-24_morning" → its date and slot. */
+export function parseBriefingKey(key: string): { summaryDate: string; slot: string } | null {
+  const m = key.match(/^(\d{4}-\d{2}-\d{2})_([a-z]+)$/)
+  return m ? { summaryDate: m[1], slot: m[2] } : null
+}
+
+function spokenText(md: string): string {
+  return md
+    .replace(/\*\*/g, "")
+    .replace(/\*/g, "")
+    .replace(/^\s*[-•]\s+/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+function spokenEvent(e: CalendarEvent): string {
+  let when = ""
+  if (e.time) {
+    const d = new Date(e.time)
+    if (!isNaN(d.getTime())) {
+      when = `, ${d.toLocaleString("en-US", { timeZone: "America/New_York", weekday: "long", hour: "numeric", minute: "2-digit" })} Eastern`
+    }
+  }
+  const impact = e.impact && String(e.impact).toLowerCase() === "high" ? ", high impact" : ""
+  return `${e.title}${when}${impact}.`
+}
+
+/**
+ * Group a briefing's sections into chapters, in CHAPTERS order. Upcoming
+ * economic releases, when the caller has them, are read at the end of the
+ * calendar chapter. Chapters with nothing to say are left out.
+ */
+export function splitChapters(summary: string, upcoming: CalendarEvent[] = []): Chapter[] {
+  const parts: Record<ChapterId, string[]> = { macro: [], crypto: [], signals: [], calendar: [] }
+  const headed = /^##\s+/m.test(summary)
+  const sections = headed
+    ? summary.split(/^##\s+/m).map((s) => s.trim()).filter(Boolean)
+    : [summary.trim()]
+
+  let current: ChapterId = "macro"
+  for (const section of sections) {
+    const nl = section.indexOf("\n")
+    const title = headed ? (nl === -1 ? section : section.slice(0, nl)).trim() : ""
+    const body = spokenText(headed ? (nl === -1 ? "" : section.slice(nl + 1)) : section)
+    const key = title.toLowerCase()
+    if (key in SECTION_CHAPTERS) {
+      const chapter = SECTION_CHAPTERS[key]
+      if (chapter === null) continue
+      current = chapter
+    }
+    if (!body) continue
+    parts[current].push(title ? `${SPOKEN_LABELS[key] ?? title}. ${body}` : body)
+  }
+
+  if (upcoming.length) {
+    parts.calendar.push(`Coming up: ${upcoming.map(spokenEvent).join(" ")}`)
+  }
+
+  return CHAPTERS
+    .filter((c) => parts[c.id].length > 0)
+    .map((c) => ({ ...c, text: `${c.title}. ${parts[c.id].join("\n\n")}` }))
+}
+
+// ── MP3 ──
+
+const BITRATES_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+const BITRATES_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+const SAMPLE_RATES = [44100, 48000, 32000]
+
+/** Bytes taken by a leading ID3v2 tag (0 when there is none). */
+function id3Length(bytes: Uint8Array): number {
+  if (bytes.length < 10 || bytes[0] !== 0x49 || bytes[1] !== 0x44 || bytes[2] !== 0x33) return 0
+  const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9]
+  return 10 + size + (bytes[5] & 0x10 ? 10 : 0)
+}
+
+export function stripId3(bytes: Uint8Array): Uint8Array {
+  return bytes.subarray(id3Length(bytes))
+}
+
+/** Playing time of an MPEG Layer III stream in seconds, from its frame headers. */
+export function mp3Duration(bytes: Uint8Array): number {
+  let i = id3Length(bytes)
+  let seconds = 0
+  while (i + 4 <= bytes.length) {
+    if (bytes[i] !== 0xff || (bytes[i + 1] & 0xe0) !== 0xe0) { i++; continue }
+    const version = (bytes[i + 1] >> 3) & 3          // 3 = MPEG1, 2 = MPEG2, 0 = MPEG2.5
+    const layer = (bytes[i + 1] >> 1) & 3            // 1 = Layer III
+    const bitrateIdx = bytes[i + 2] >> 4
+    const rateIdx = (bytes[i + 2] >> 2) & 3
+    if (version === 1 || layer !== 1 || bitrateIdx === 0 || bitrateIdx === 15 || rateIdx === 3) { i++; continue }
+    const v1 = version === 3
+    const bitrate = (v1 ? BITRATES_V1 : BITRATES_V2)[bitrateIdx] * 1000
+    const sampleRate = SAMPLE_RATES[rateIdx] / (v1 ? 1 : version === 2 ? 2 : 4)
+    const length = Math.floor(((v1 ? 144 : 72) * bitrate) / sampleRate) + ((bytes[i + 2] >> 1) & 1)
+    if (i + length > bytes.length) break
+    seconds += (v1 ? 1152 : 576) / sampleRate
+    i += length
+  }
+  return seconds
+}
+
+// ── ID3v2.3 chapter tag ──
+
+const latin1 = (s: string) => Uint8Array.from(s, (c) => c.charCodeAt(0) & 0xff)
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let at = 0
+  for (const p of parts) {
+    out.set(p, at)
+    at += p.length
+  }
+  return out
+}
+
+function u32(n: number): Uint8Array {
+  return Uint8Array.of((n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff)
+}
+
+function id3Frame(id: string, body: Uint8Array): Uint8Array {
+  return concat([latin1(id), u32(body.length), Uint8Array.of(0, 0), body])
+}
+
+/** Text frame in UTF-16 with BOM, the one ID3v2.3 encoding that covers any title. */
+function id3Text(id: string, text: string): Uint8Array {
+  const utf16 = new Uint8Array(text.length * 2)
+  for (let i = 0; i < text.length; i++) {
+    utf16[i * 2] = text.charCodeAt(i) & 0xff
+    utf16[i * 2 + 1] = text.charCodeAt(i) >> 8
+  }
+  return id3Frame(id, concat([Uint8Array.of(0x01, 0xff, 0xfe), utf16]))
+}
+
+export function id3ChapterTag(title: string, marks: ChapterMark[]): Uint8Array {
+  const elementId = (i: number) => latin1(`chp${i}\0`)
+  const toc = id3Frame("CTOC", concat([
+    latin1("toc\0"),
+    Uint8Array.of(0x03, marks.length),               // top-level, ordered
+    ...marks.map((_, i) => elementId(i)),
+  ]))
+  const chapters = marks.map((m, i) => id3Frame("CHAP", concat([
+    elementId(i),
+    u32(Math.round(m.start * 1000)),
+    u32(Math.round(m.end * 1000)),
+    u32(0xffffffff),                                  // byte offsets unused
+    u32(0xffffffff),
+    id3Text("TIT2", m.title),
+  ])))
+  const frames = concat([id3Text("TIT2", title), toc, ...chapters])
+  const n = frames.length
+  const size = Uint8Array.of((n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f)
+  return concat([latin1("ID3"), Uint8Array.of(3, 0, 0), size, frames])
+}
+
+// ── Providers ──
+
+export interface TtsProvider {
+  name: "openai" | "local"
+  synthesize(text: string, voice: ChapterVoice): Promise<Uint8Array>   // MP3
+}
+
+export function openAiTts(
+  apiKey: string,
+  voices: Record<ChapterVoice, string> = { anchor: "onyx", analyst: "nova" },
+): TtsProvider {
+  return {
+    name: "openai",
+    async synthesize(text, voice) {
+      const res = await fetch("https://api.openai.com/v1/audio/speech", {
+        method: "POST",
+        headers: { "Authorization": `Bearer ${apiKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ model: "tts-1", voice: voices[voice], input: text, response_format: "mp3" }),
+      })
+      if (!res.ok) throw new Error(`OpenAI TTS ${res.status}: ${await res.text()}`)
+      return new Uint8Array(await res.arrayBuffer())
+    },
+  }
+}
+
+// One MPEG1 Layer III frame: 128 kbps, 44.1 kHz, mono, no padding — 417
+// bytes and 1152 samples. A zeroed body decodes as silence.
+const SILENT_FRAME_BYTES = 417
+const SILENT_FRAME_SECONDS = 1152 / 44100
+
+/** Stand-in voice: silent MP3 as long as the text would take to read aloud. */
+export function localTts(wordsPerSecond = 2.5): TtsProvider {
+  return {
+    name: "local",
+    synthesize(text) {
+      const words = text.split(/\s+/).filter(Boolean).length
+      const frames = Math.max(1, Math.round(words / wordsPerSecond / SILENT_FRAME_SECONDS))
+      const out = new Uint8Array(frames * SILENT_FRAME_BYTES)
+      for (let f = 0; f < frames; f++) out.set([0xff, 0xfb, 0x90, 0xc4], f * SILENT_FRAME_BYTES)
+      return Promise.resolve(out)
+    },
+  }
+}
+
+export interface ChapteredAudio {
+  audio: Uint8Array         // ID3 chapter tag + joined MP3 parts
+  chapters: ChapterMark[]
+  duration: number          // seconds
+}
+
+/** Voice each chapter in order and join the parts behind one chapter tag. */
+export async function buildChapteredAudio(chapters: Chapter[], provider: TtsProvider, title: string): Promise<ChapteredAudio> {
+  const parts: Uint8Array[] = []
+  const marks: ChapterMark[] = []
+  let at = 0
+  for (const c of chapters) {
+    const part = stripId3(await provider.synthesize(c.text, c.voice))
+    const seconds = mp3Duration(part)
+    parts.push(part)
+    marks.push({ id: c.id, title: c.title, start: at, end: at + seconds })
+    at += seconds
+  }
+  return { audio: concat([id3ChapterTag(title, marks), ...parts]), chapters: marks, duration: at }
+}
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict"
+import {
+  buildChapteredAudio,
+  localTts,
+  mp3Duration,
+  parseBriefingKey,
+  splitChapters,
+  stripId3,
+} from "./briefing_audio.ts"
+
+const WEEKDAY = `## TLDR
+Risk-On: **BTC** holds $97,450 while the S&P grinds higher.
+
+## What's Happening
+Equities led again.
+
+## Macro
+Core PPI came in soft.
+
+## Technical
+BTC is testing the 0.618 retracement.
+
+## Bottom Line
+Watch the CPI print.
+
+## Signals
+- ETH flipped bullish on QPS.`
+
+const WEEKEND = `## TLDR
+Quiet Saturday.
+
+## Posture
+Risk-On, leaning crypto.
+
+## Weekend Pulse
+SOL outperformed.
+
+## Mindset
+Patience pays.`
+
+Deno.test("groups briefing sections into chapters in a fixed order", () => {
+  const chapters = splitChapters(WEEKDAY)
+  assert.deepEqual(chapters.map((c) => c.id), ["macro", "crypto", "signals", "calendar"])
+  assert.equal(chapters[0].voice, "anchor")
+  assert.equal(chapters[1].voice, "analyst")
+  assert.match(chapters[0].text, /^Macro\. In brief\. Risk-On: BTC holds/)
+  assert.match(chapters[0].text, /Macro\. Core PPI came in soft\./)
+  assert.equal(chapters[2].text, "Signals. Signals. ETH flipped bullish on QPS.")
+  assert.doesNotMatch(chapters.map((c) => c.text).join(" "), /[*#]/)
+})
+
+Deno.test("drops posture, skips empty chapters and reads upcoming releases", () => {
+  const chapters = splitChapters(WEEKEND, [
+    { title: "CPI", time: "2026-07-28T12:30:00Z", impact: "High" },
+    { title: "Jobless Claims", time: null },
+  ])
+  assert.deepEqual(chapters.map((c) => c.id), ["macro", "crypto", "calendar"])
+  assert.doesNotMatch(chapters[0].text, /leaning crypto/)
+  assert.match(chapters[2].text, /Mindset\. Patience pays\./)
+  assert.match(chapters[2].text, /Coming up: CPI, Tuesday 8:30 AM Eastern, high impact\. Jobless Claims\.$/)
+  assert.deepEqual(splitChapters("Plain text briefing.").map((c) => c.id), ["macro"])
+})
+
+Deno.test("local voice produces MP3 frames sized to the text", async () => {
+  const audio = await localTts(2.5).synthesize(Array(25).fill("word").join(" "), "anchor")
+  assert.ok(Math.abs(mp3Duration(audio) - 10) < 0.05)
+  assert.equal(stripId3(audio).length, audio.length)
+})
+
+Deno.test("joins chapters behind an ID3 chapter tag with contiguous markers", async () => {
+  const chapters = splitChapters(WEEKDAY)
+  const built = await buildChapteredAudio(chapters, localTts(), "Morning Intel — Fri, Jul 24")
+  assert.equal(built.chapters.length, 4)
+  assert.equal(built.chapters[0].start, 0)
+  for (let i = 1; i < built.chapters.length; i++) {
+    assert.equal(built.chapters[i].start, built.chapters[i - 1].end)
+  }
+  assert.ok(Math.abs(built.chapters[3].end - built.duration) < 1e-9)
+  assert.ok(Math.abs(mp3Duration(built.audio) - built.duration) < 1e-6)
+
+  const head = new TextDecoder("latin1").decode(built.audio.subarray(0, built.audio.length - stripId3(built.audio).length))
+  assert.ok(head.startsWith("ID3\u0003"))
+  assert.equal(head.match(/CHAP/g)?.length, 4)
+  assert.equal(head.match(/CTOC/g)?.length, 1)
+})
+
+Deno.test("parses briefing keys", () => {
+  assert.deepEqual(parseBriefingKey("2026-07-24_evening"), { summaryDate: "2026-07-24", slot: "evening" })
+  assert.equal(parseBriefingKey("latest"), null)
+})
@@ -0,0 +1,237 @@
+/**
+ * Briefing fact-check — the pure half of market-summary's post-generation
+ * validation. Every price, percentage and index reading the model cites is
+ * attributed to the metric named just before it ("BTC at $97,400, down 2.1%")
+ * and compared with the payload the briefing was written from. Figures that
+ * don't sit right after a known metric (Fib levels, funding, weekly moves)
+ * can't be attributed and are left unchecked rather than guessed at.
+ *
+ * A cited figure that misses today's value but matches the previous
+ * briefing's payload is reported as stale; one cited for a metric the
+ * payload doesn't have at all is reported as having no source.
+ */
+
+export type FigureKind = "level" | "change"
+export type FlagIssue = "mismatch" | "stale" | "wrong_direction" | "no_source"
+
+export interface FactFlag {
+  metric: string
+  kind: FigureKind
+  cited: number
+  expected: number | null
+  issue: FlagIssue
+  snippet: string
+}
+
+export interface FactCheckResult {
+  figures: number               // numbers found in the text
+  checked: number               // attributed to a metric and compared
+  verified: number
+  accuracy: number | null       // verified / checked
+  flags: FactFlag[]
+}
+
+interface MetricDef {
+  name: string
+  pattern: RegExp
+  level: (p: Record<string, unknown>) => number | null
+  change: (p: Record<string, unknown>) => number | null
+}
+
+const num = (v: unknown): number | null => {
+  const n = typeof v === "string" ? parseFloat(v.replace(/[$,]/g, "")) : Number(v)
+  return v == null || v === "" || !Number.isFinite(n) ? null : n
+}
+
+// goldSignal is pre-formatted by enrichPayloadFromServer: "$2,345.6 (+0.4%)"
+const goldPart = (p: Record<string, unknown>, i: 1 | 2) => {
+  const m = String(p.goldSignal ?? "").match(/^\$([\d,.]+)(?:\s*\(([+-]?[\d.]+)%\))?/)
+  return m?.[i] != null ? num(m[i]) : null
+}
+
+const field = (key: string) => (p: Record<string, unknown>) => num(p[key])
+const none = () => null
+
+export const METRICS: MetricDef[] = [
+  { name: "BTC", pattern: /\b(?:BTC|Bitcoin)\b/gi, level: field("btcPrice"), change: field("btcChange24h") },
+  { name: "ETH", pattern: /\b(?:ETH|Ether(?:eum)?)\b/gi, level: field("ethPrice"), change: field("ethChange24h") },
+  { name: "SOL", pattern: /\b(?:SOL|Solana)\b/gi, level: field("solPrice"), change: field("solChange24h") },
+  { name: "S&P 500", pattern: /S&P(?:\s*500)?|\bSPX\b/gi, level: field("sp500Price"), change: field("sp500Change") },
+  { name: "Nasdaq", pattern: /\bNasdaq(?:\s+Composite)?\b/gi, level: field("nasdaqPrice"), change: field("nasdaqChange") },
+  { name: "VIX", pattern: /\bVIX\b/g, level: field("vixValue"), change: field("vixDailyChange") },
+  { name: "DXY", pattern: /\bDXY\b|\bdollar index\b/gi, level: field("dxyValue"), change: none },
+  { name: "Gold", pattern: /\bgold\b/gi, level: (p) => goldPart(p, 1), change: (p) => goldPart(p, 2) },
+  { name: "Fear & Greed", pattern: /\bfear\s*(?:&|and)\s*greed(?:\s+index)?\b/gi, level: field("fearGreedValue"), change: none },
+]
+
+const LEVEL_TOLERANCE = 0.01          // relative, for prices and index levels
+const CHANGE_TOLERANCE = 0.15         // percentage points
+const MAX_GAP = 32                    // chars between a metric (or its last figure) and the next figure
+
+// Words that mean the number isn't the metric's current reading or 24h move —
+// between the metric and the figure, or right after the figure.
+const CONTEXT_WORDS =
+  /\b(?:support|resistance|levels?|targets?|zones?|bands?|fib\w*|[sme]ma|moving average|floor|ceiling|towards?|reclaim\w*|break\w*|above|below|under|over|liquidat\w*|open interest|funding|dominance|(?:in|out)?flows?|etfs?|week\w*|month\w*|year\w*|ytd|since|from|highs?|lows?|range|between|rsi|z-score|volume|ratio|risk|supply|rank\w*|yields?|futures|sessions?|overnight|pre-market|cap\w*|fees?|hash\w*)\b/i
+const TRAILING_CONTEXT =
+  /^\s*(?:(?:this|on the|for the|over the|in the|past)\s+)?(?:week|month|year|quarter|ytd|since|from|support|resistance|level|zone|area|mark|handle|trillion|billion|million)\b/i
+const DOWN_WORDS = /\b(?:down|fell|fall(?:s|ing)?|drop(?:ped|s)?|slid|slip(?:ped|s)?|lower|lost|los(?:es|ing)|declin\w*|shed|sank|off)\b/i
+const UP_WORDS = /\b(?:up|rose|ris(?:es|ing)|gain\w*|climb\w*|higher|add(?:ed|s)?|rall\w*|jump\w*|pop(?:ped|s)?)\b/i
+
+const FIGURE = /([+\-−]?)(\$?)(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)(?:\s*([kKmMbB])\b)?(%?)/g
+const NOT_A_READING = /^(?:[:\-/]|\s*(?:am|pm|et|day|days|week|weeks|month|months|hours?|h|d|x|bps?|σ|sigma|th|st|nd|rd)\b)/i
+
+interface Figure {
+  start: number
+  end: number
+  value: number
+  precision: number             // half a unit of the last digit shown
+  kind: FigureKind
+  sign: 1 | -1 | 0              // explicit +/- only
+}
+
+function figuresIn(text: string, skip: [number, number][]): Figure[] {
+  const out: Figure[] = []
+  for (const m of text.matchAll(FIGURE)) {
+    const start = m.index!
+    const end = start + m[0].length
+    if (skip.some(([s, e]) => start < e && end > s)) continue
+    const [, signStr, dollar, digits, suffix, percent] = m
+    const prev = text[start - 1] ?? ""
+    if (/[\d.#]/.test(prev) || (/[A-Za-z_]/.test(prev) && !signStr)) continue // inside a word, range or "#3"
+    if (NOT_A_READING.test(text.slice(end))) continue
+    if (!dollar && !percent && !suffix && !digits.includes(",") && /^(?:19|20)\d\d$/.test(digits)) continue // a year
+
+    const mult = suffix ? { k: 1e3, m: 1e6, b: 1e9 }[suffix.toLowerCase() as "k" | "m" | "b"] : 1
+    const decimals = digits.split(".")[1]?.length ?? 0
+    out.push({
+      start,
+      end,
+      value: parseFloat(digits.replace(/,/g, "")) * mult,
+      precision: 0.5 * 10 ** -decimals * mult,
+      kind: percent ? "change" : "level",
+      sign: signStr === "+" ? 1 : signStr ? -1 : 0,
+    })
+  }
+  return out
+}
+
+/** Sentence-ish spans, so attribution never crosses a full stop or a line break. */
+function sentences(text: string): [number, number][] {
+  const spans: [number, number][] = []
+  let start = 0
+  for (const m of text.matchAll(/[.!?;](?=\s)|\n/g)) {
+    spans.push([start, m.index! + 1])
+    start = m.index! + 1
+  }
+  spans.push([start, text.length])
+  return spans
+}
+
+const snippetAround = (text: string, start: number, end: number) =>
+  text.slice(Math.max(0, start - 40), Math.min(text.length, end + 20)).replace(/\s+/g, " ").trim()
+
+/** The cited value with the sign the text gives it, from a +/- or a verb; positive if neither. */
+const signed = (fig: Figure, direction: 1 | -1 | 0) => (fig.sign || direction || 1) * fig.value
+
+function compare(fig: Figure, direction: 1 | -1 | 0, expected: number): { ok: boolean; issue?: FlagIssue } {
+  if (fig.kind === "level") {
+    const ok = Math.abs(fig.value - expected) <= Math.max(Math.abs(expected) * LEVEL_TOLERANCE, fig.precision)
+    return ok ? { ok } : { ok, issue: "mismatch" }
+  }
+  const sign = fig.sign || direction
+  if (sign !== 0 && Math.abs(expected) >= CHANGE_TOLERANCE && Math.sign(expected) !== sign) {
+    return { ok: false, issue: "wrong_direction" }
+  }
+  const diff = sign === 0 ? Math.abs(fig.value - Math.abs(expected)) : Math.abs(sign * fig.value - expected)
+  const ok = diff <= Math.max(CHANGE_TOLERANCE, fig.precision)
+  return ok ? { ok } : { ok, issue: "mismatch" }
+}
+
+export function checkBriefing(
+  text: string,
+  payload: Record<string, unknown>,
+  prior: Record<string, unknown> | null = null,
+): FactCheckResult {
+  // Metric mentions, earliest first; their spans are excluded from figures so "S&P 500" isn't a reading of 500.
+  const mentions: { metric: MetricDef; start: number; end: number }[] = []
+  for (const metric of METRICS) {
+    for (const m of text.matchAll(metric.pattern)) mentions.push({ metric, start: m.index!, end: m.index! + m[0].length })
+  }
+  mentions.sort((a, b) => a.start - b.start)
+  const figures = figuresIn(text, mentions.map((m) => [m.start, m.end]))
+
+  const flags: FactFlag[] = []
+  let checked = 0
+  let verified = 0
+
+  for (const [sStart, sEnd] of sentences(text)) {
+    const events = [
+      ...mentions.filter((m) => m.start >= sStart && m.end <= sEnd).map((m) => ({ at: m.start, mention: m })),
+      ...figures.filter((f) => f.start >= sStart && f.end <= sEnd).map((f) => ({ at: f.start, figure: f })),
+    ].sort((a, b) => a.at - b.at)
+
+    let current: { metric: MetricDef; lastEnd: number } | null = null
+    for (const e of events) {
+      if ("mention" in e && e.mention) {
+        current = { metric: e.mention.metric, lastEnd: e.mention.end }
+        continue
+      }
+      const fig = (e as { figure: Figure }).figure
+      const gap = current ? text.slice(current.lastEnd, fig.start) : ""
+      const trailing = text.slice(fig.end, Math.min(sEnd, fig.end + 24))
+      if (!current || gap.length > MAX_GAP || CONTEXT_WORDS.test(gap) || TRAILING_CONTEXT.test(trailing)) {
+        current = null
+        continue
+      }
+      const metric = current.metric
+      current.lastEnd = fig.end
+      const direction: 1 | -1 | 0 = DOWN_WORDS.test(gap) ? -1 : UP_WORDS.test(gap) ? 1 : 0
+
+      checked++
+      const snippet = snippetAround(text, fig.start, fig.end)
+      const expected = fig.kind === "level" ? metric.level(payload) : metric.change(payload)
+      if (expected == null) {
+        flags.push({ metric: metric.name, kind: fig.kind, cited: fig.value, expected: null, issue: "no_source", snippet })
+        continue
+      }
+      const result = compare(fig, direction, expected)
+      if (result.ok) {
+        verified++
+        continue
+      }
+      const priorValue = prior ? (fig.kind === "level" ? metric.level(prior) : metric.change(prior)) : null
+      const stale = priorValue != null && priorValue !== expected && compare(fig, direction, priorValue).ok
+      flags.push({
+        metric: metric.name,
+        kind: fig.kind,
+        cited: signed(fig, direction),
+        expected,
+        issue: stale ? "stale" : result.issue!,
+        snippet,
+      })
+    }
+  }
+
+  return { figures: figures.length, checked, verified, accuracy: checked ? verified / checked : null, flags }
+}
+
+const show = (f: FactFlag, v: number) =>
+  f.kind === "change" ? `${v > 0 ? "+" : ""}${v.toFixed(2)}%` : v >= 1000 ? v.toLocaleString("en-US", { maximumFractionDigits: 2 }) : String(v)
+
+/** Correction lines for a regeneration prompt, one per flagged figure. */
+export function correctionNotes(flags: FactFlag[]): string[] {
+  return flags.map((f) => {
+    const what = f.kind === "change" ? `${f.metric} 24h change` : `${f.metric} level`
+    const quoted = `"${f.snippet}"`
+    switch (f.issue) {
+      case "no_source":
+        return `- ${quoted}: there is no ${what} in the data — remove the figure.`
+      case "stale":
+        return `- ${quoted}: that ${what} is from the previous briefing; the current value is ${show(f, f.expected!)}.`
+      case "wrong_direction":
+        return `- ${quoted}: ${f.metric} moved the other way; the 24h change is ${show(f, f.expected!)}.`
+      case "mismatch":
+        return `- ${quoted}: the ${what} is ${show(f, f.expected!)}.`
+    }
+  })
+}
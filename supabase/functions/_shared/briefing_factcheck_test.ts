@@ -0,0 +1,61 @@
+import assert from "node:assert/strict"
+import { checkBriefing, correctionNotes } from "./briefing_factcheck.ts"
+
+const payload = {
+  btcPrice: 97_450,
+  btcChange24h: -2.14,
+  ethPrice: 3_612.5,
+  ethChange24h: 1.3,
+  sp500Price: 5_432.1,
+  sp500Change: 0.42,
+  vixValue: 18.4,
+  fearGreedValue: 72,
+  goldSignal: "$2,345.6 (+0.4%)",
+}
+
+Deno.test("verifies prices and moves cited right after their metric", () => {
+  const text = "## TLDR\nRisk-On: BTC at $97,450, down 2.1%, while ETH gained 1.3% to $3,610. The S&P 500 closed at 5,432 (+0.4%) with the VIX at 18.4."
+  const r = checkBriefing(text, payload)
+  assert.equal(r.checked, 7)
+  assert.equal(r.verified, 7)
+  assert.deepEqual(r.flags, [])
+  assert.equal(r.accuracy, 1)
+})
+
+Deno.test("accepts rounded shorthand within the precision shown", () => {
+  const r = checkBriefing("Bitcoin holds near $97k. Gold at $2,350. Fear & Greed sits at 72.", payload)
+  assert.equal(r.checked, 3)
+  assert.deepEqual(r.flags, [])
+})
+
+Deno.test("flags wrong levels, wrong direction and metrics with no source", () => {
+  const r = checkBriefing("BTC trades at $101,200, up 2.1%. SOL slipped 4% on the day.", payload)
+  assert.deepEqual(r.flags.map((f) => [f.metric, f.kind, f.issue]), [
+    ["BTC", "level", "mismatch"],
+    ["BTC", "change", "wrong_direction"],
+    ["SOL", "change", "no_source"],
+  ])
+  assert.equal(r.flags[1].cited, 2.1)
+  assert.equal(r.accuracy, 0)
+})
+
+Deno.test("a figure matching the previous briefing's data is stale", () => {
+  const r = checkBriefing("ETH at $3,420 this morning.", payload, { ethPrice: 3_421 })
+  assert.equal(r.flags[0].issue, "stale")
+  assert.match(correctionNotes(r.flags)[0], /from the previous briefing; the current value is 3,612.5/)
+})
+
+Deno.test("leaves levels, weekly moves and other context unchecked", () => {
+  const text = [
+    "BTC faces resistance at $100,000 with support near $94,500.",
+    "ETH is up 6.2% this week.",
+    "BTC dominance 58.3% and funding 0.01%.",
+    "The S&P 500's 200-day average sits far below.",
+    "Bitcoin market cap $1.9 trillion.",
+    "CPI lands at 8:30am ET; BTC is #1 in 2026.",
+  ].join(" ")
+  const r = checkBriefing(text, payload)
+  assert.equal(r.checked, 0)
+  assert.equal(r.accuracy, null)
+  assert.ok(r.figures > 0)
+})
@@ -0,0 +1,421 @@
+/**
+ * Candle providers — one interface over every OHLCV source the edge
+ * functions read (Coinbase, Binance, Kraken, FMP, plus a fixture provider
+ * for tests and backtests), with failover and gap repair on top.
+ *
+ * createCandleFeed() tries an asset's providers in order, skipping any that
+ * failed repeatedly in the last few minutes, and falls over to the next on an
+ * error or an empty response. On 24/7 markets it then checks the series
+ * against the expected bar timestamps and fills missing bars from the other
+ * providers. Health counters live on the feed; callers that want them to
+ * outlast one invocation persist feed.health() and pass it back in.
+ *
+ * Every provider returns oldest-first candles (the shared Candle convention)
+ * and throws on transport or HTTP errors.
+ */
+
+import type { AssetDefinition } from "./assets.ts"
+import type { Candle } from "./candles.ts"
+
+export type Timeframe = "1h" | "4h" | "1d"
+export type ProviderName = "coinbase" | "binance" | "kraken" | "fmp" | "fixture"
+
+export const TIMEFRAME_MS: Record<Timeframe, number> = {
+  "1h": 3_600_000,
+  "4h": 4 * 3_600_000,
+  "1d": 86_400_000,
+}
+
+export interface CandleRequest {
+  timeframe: Timeframe
+  limit: number   // most recent bars wanted
+  end?: Date      // only bars opening before this; default now
+}
+
+export interface CandleProvider {
+  name: ProviderName
+  timeframes: readonly Timeframe[]
+  continuous: boolean   // trades 24/7, so every expected bar should exist
+  symbolFor(asset: AssetDefinition): string | undefined
+  fetch(symbol: string, req: CandleRequest): Promise<Candle[]>
+}
+
+const endMs = (req: CandleRequest) => (req.end ?? new Date()).getTime()
+
+/** Trims to bars opening before req.end, then to the last req.limit. */
+function trimToWindow(candles: Candle[], req: CandleRequest): Candle[] {
+  const end = endMs(req)
+  return candles.filter((c) => new Date(c.open_time).getTime() < end).slice(-req.limit)
+}
+
+async function getJson(url: string, label: string): Promise<any> {
+  const resp = await fetch(url, { headers: { Accept: "application/json" } })
+  if (!resp.ok) throw new Error(`${label} ${resp.status}: ${(await resp.text()).slice(0, 200)}`)
+  return await resp.json()
+}
+
+// ─── Coinbase ────────────────────────────────────────────────────────────────
+
+const COINBASE_GRANULARITY: Record<Timeframe, string> = { "1h": "ONE_HOUR", "4h": "FOUR_HOUR", "1d": "ONE_DAY" }
+const COINBASE_PAGE = 300   // Coinbase caps a request at 350 candles
+
+export const coinbaseProvider: CandleProvider = {
+  name: "coinbase",
+  timeframes: ["1h", "4h", "1d"],
+  continuous: true,
+  symbolFor: (asset) => asset.coinbase,
+  async fetch(symbol, req) {
+    const step = TIMEFRAME_MS[req.timeframe] / 1000
+    const candles: Candle[] = []
+    // Page backwards for long ranges; an empty page means we're before the listing
+    let end = Math.floor(endMs(req) / 1000)
+    for (let left = req.limit; left > 0; left -= COINBASE_PAGE) {
+      const start = end - step * Math.min(left, COINBASE_PAGE)
+      const json = await getJson(
+        `https://api.coinbase.com/api/v3/brokerage/market/products/${symbol}/candles?start=${start}&end=${end}&granularity=${COINBASE_GRANULARITY[req.timeframe]}`,
+        `Coinbase ${symbol}`,
+      )
+      const raw: { start: string; open: string; high: string; low: string; close: string; volume: string }[] = json.candles ?? []
+      if (raw.length === 0) break
+      const page = raw.map((c) => ({
+        open_time: new Date(Number(c.start) * 1000).toISOString(),
+        open: parseFloat(c.open),
+        high: parseFloat(c.high),
+        low: parseFloat(c.low),
+        close: parseFloat(c.close),
+        volume: parseFloat(c.volume),
+      })).reverse() // Coinbase returns newest-first
+      candles.unshift(...page)
+      end = start - 1
+    }
+    return trimToWindow(dedupe(candles), req)
+  },
+}
+
+// ─── Binance ─────────────────────────────────────────────────────────────────
+// data-api.binance.vision — public market data, no geo-block, no auth.
+
+const BINANCE_PAGE = 1000
+
+export const binanceProvider: CandleProvider = {
+  name: "binance",
+  timeframes: ["1h", "4h", "1d"],
+  continuous: true,
+  symbolFor: (asset) => asset.binance,
+  async fetch(symbol, req) {
+    const candles: Candle[] = []
+    let end = endMs(req) - 1
+    for (let left = req.limit; left > 0; left -= BINANCE_PAGE) {
+      const klines: unknown[][] = await getJson(
+        `https://data-api.binance.vision/api/v3/klines?symbol=${symbol}&interval=${req.timeframe}&endTime=${end}&limit=${Math.min(left, BINANCE_PAGE)}`,
+        `Binance ${symbol}`,
+      )
+      if (klines.length === 0) break
+      // Oldest-first arrays: [openTime, open, high, low, close, volume, ...]
+      const page = klines.map((k) => ({
+        open_time: new Date(Number(k[0])).toISOString(),
+        open: parseFloat(String(k[1])),
+        high: parseFloat(String(k[2])),
+        low: parseFloat(String(k[3])),
+        close: parseFloat(String(k[4])),
+        volume: parseFloat(String(k[5])),
+      }))
+      candles.unshift(...page)
+      end = Number(klines[0][0]) - 1
+    }
+    return trimToWindow(dedupe(candles), req)
+  },
+}
+
+// ─── Kraken ──────────────────────────────────────────────────────────────────
+// The OHLC endpoint returns at most the last 720 bars, so Kraken can repair
+// recent gaps and stand in for the live windows but not serve long backfills.
+
+const KRAKEN_INTERVAL: Record<Timeframe, number> = { "1h": 60, "4h": 240, "1d": 1440 }
+const KRAKEN_BASE: Record<string, string> = { BTC: "XBT", DOGE: "XDG" }
+
+export const krakenProvider: CandleProvider = {
+  name: "kraken",
+  timeframes: ["1h", "4h", "1d"],
+  continuous: true,
+  symbolFor(asset) {
+    if (asset.kraken) return asset.kraken
+    if (asset.assetClass !== "crypto" || !asset.coinbase?.endsWith("-USD")) return undefined
+    return `${KRAKEN_BASE[asset.ticker] ?? asset.ticker}USD`
+  },
+  async fetch(symbol, req) {
+    const since = Math.floor((endMs(req) - TIMEFRAME_MS[req.timeframe] * (req.limit + 1)) / 1000)
+    const json = await getJson(
+      `https://api.kraken.com/0/public/OHLC?pair=${symbol}&interval=${KRAKEN_INTERVAL[req.timeframe]}&since=${since}`,
+      `Kraken ${symbol}`,
+    )
+    if (json.error?.length) throw new Error(`Kraken ${symbol}: ${json.error.join(", ")}`)
+    // result is keyed by Kraken's own pair name (e.g. XXBTZUSD) plus "last"
+    const key = Object.keys(json.result ?? {}).find((k) => k !== "last")
+    const rows: unknown[][] = key ? json.result[key] : []
+    // Oldest-first arrays: [time, open, high, low, close, vwap, volume, count]
+    return trimToWindow(rows.map((r) => ({
+      open_time: new Date(Number(r[0]) * 1000).toISOString(),
+      open: parseFloat(String(r[1])),
+      high: parseFloat(String(r[2])),
+      low: parseFloat(String(r[3])),
+      close: parseFloat(String(r[4])),
+      volume: parseFloat(String(r[6])),
+    })), req)
+  },
+}
+
+// ─── FMP ─────────────────────────────────────────────────────────────────────
+// End-of-day bars only. Equity markets close on weekends and holidays, so the
+// series is not continuous and is never gap-checked.
+
+export function fmpProvider(apiKey: string): CandleProvider {
+  return {
+    name: "fmp",
+    timeframes: ["1d"],
+    continuous: false,
+    symbolFor: (asset) => asset.fmp,
+    async fetch(symbol, req) {
+      const json = await getJson(
+        `https://financialmodelingprep.com/stable/historical-price-eod/full?symbol=${encodeURIComponent(symbol)}&apikey=${apiKey}`,
+        `FMP ${symbol}`,
+      )
+      // { date, open, high, low, close, volume, ... } newest first
+      const raw: { date: string; open: number; high: number; low: number; close: number; volume: number }[] =
+        Array.isArray(json) ? json : (json.historical ?? [])
+      return trimToWindow(raw.map((c) => ({
+        open_time: new Date(c.date).toISOString(),
+        open: c.open,
+        high: c.high,
+        low: c.low,
+        close: c.close,
+        volume: c.volume ?? 0,
+      })).reverse(), req)
+    },
+  }
+}
+
+// ─── Fixture ─────────────────────────────────────────────────────────────────
+
+/**
+ * Serves stored series (symbol → timeframe → oldest-first candles), keyed by
+ * ticker. For tests, backtests and replaying an ohlc_candles export.
+ */
+export function fixtureProvider(
+  series: Record<string, Partial<Record<Timeframe, Candle[]>>>,
+  name: ProviderName = "fixture",
+): CandleProvider {
+  return {
+    name,
+    timeframes: ["1h", "4h", "1d"],
+    continuous: true,
+    symbolFor: (asset) => (series[asset.ticker] ? asset.ticker : undefined),
+    fetch: (symbol, req) => Promise.resolve(trimToWindow(series[symbol]?.[req.timeframe] ?? [], req)),
+  }
+}
+
+// ─── Gap Detection ───────────────────────────────────────────────────────────
+
+export interface CandleGap {
+  from: string     // first missing open_time
+  to: string       // last missing open_time
+  missing: number
+}
+
+function dedupe(candles: Candle[]): Candle[] {
+  const byTime = new Map(candles.map((c) => [new Date(c.open_time).getTime(), c]))
+  return [...byTime.entries()].sort((a, b) => a[0] - b[0]).map(([, c]) => c)
+}
+
+/**
+ * Bar open times a continuous market should have in [startMs, endMs), on the
+ * UTC boundaries every provider uses (4h bars open at 00/04/08… UTC).
+ */
+export function expectedOpenTimes(timeframe: Timeframe, startMs: number, endMs: number): number[] {
+  const step = TIMEFRAME_MS[timeframe]
+  const times: number[] = []
+  for (let t = Math.ceil(startMs / step) * step; t < endMs; t += step) times.push(t)
+  return times
+}
+
+/**
+ * Missing bars between the first and last candle — or across `range`, which
+ * also catches a missing head or tail. Runs of consecutive missing bars are
+ * reported as one gap.
+ */
+export function findGaps(
+  candles: Candle[],
+  timeframe: Timeframe,
+  range?: { start: number; end: number },
+): CandleGap[] {
+  if (candles.length === 0 && !range) return []
+  const have = new Set(candles.map((c) => new Date(c.open_time).getTime()))
+  const start = range?.start ?? new Date(candles[0].open_time).getTime()
+  const end = range?.end ?? new Date(candles[candles.length - 1].open_time).getTime() + 1
+  const step = TIMEFRAME_MS[timeframe]
+
+  const runs: { from: number; to: number }[] = []
+  for (const t of expectedOpenTimes(timeframe, start, end)) {
+    if (have.has(t)) continue
+    const last = runs[runs.length - 1]
+    if (last && last.to === t - step) last.to = t
+    else runs.push({ from: t, to: t })
+  }
+  return runs.map((g) => ({
+    from: new Date(g.from).toISOString(),
+    to: new Date(g.to).toISOString(),
+    missing: (g.to - g.from) / step + 1,
+  }))
+}
+
+/** Adds `donor` bars at the missing open times of `candles`. */
+export function fillGaps(
+  candles: Candle[],
+  donor: Candle[],
+  gaps: CandleGap[],
+  timeframe: Timeframe,
+): { candles: Candle[]; filled: number } {
+  const missing = new Set<number>()
+  for (const g of gaps) {
+    for (const t of expectedOpenTimes(timeframe, new Date(g.from).getTime(), new Date(g.to).getTime() + 1)) missing.add(t)
+  }
+  const patch = donor.filter((c) => missing.has(new Date(c.open_time).getTime()))
+  return { candles: patch.length ? dedupe([...candles, ...patch]) : candles, filled: patch.length }
+}
+
+// ─── Health ──────────────────────────────────────────────────────────────────
+
+export interface ProviderHealth {
+  successes: number
+  failures: number
+  consecutiveFailures: number
+  lastError: string | null
+  lastSuccessAt: string | null
+  lastFailureAt: string | null
+}
+
+/**
+ * market_data_cache key a function persists its feed's health under. One key
+ * per function, so one run never overwrites the other's counters.
+ */
+export const providerHealthKey = (fn: string) => `candle_provider_health:${fn}`
+
+// A provider that failed this many times in a row is tried last until the
+// cooldown since its last failure has passed.
+const UNHEALTHY_AFTER = 3
+const UNHEALTHY_COOLDOWN_MS = 15 * 60_000
+
+const freshHealth = (): ProviderHealth => ({
+  successes: 0, failures: 0, consecutiveFailures: 0, lastError: null, lastSuccessAt: null, lastFailureAt: null,
+})
+
+export function isHealthy(h: ProviderHealth | undefined, now: Date): boolean {
+  if (!h || h.consecutiveFailures < UNHEALTHY_AFTER || !h.lastFailureAt) return true
+  return now.getTime() - new Date(h.lastFailureAt).getTime() >= UNHEALTHY_COOLDOWN_MS
+}
+
+// ─── Feed ────────────────────────────────────────────────────────────────────
+
+export interface CandleFetch {
+  candles: Candle[]
+  provider: ProviderName | null   // null when every provider failed
+  failedOver: ProviderName[]      // providers tried before the one that answered
+  gaps: CandleGap[]               // still missing after repair
+  repaired: number                // bars filled from other providers
+  errors: string[]
+}
+
+export interface CandleFeed {
+  /**
+   * The asset's series from the first working provider, gap-repaired.
+   * `chain` limits and orders the providers tried (default: all, in order).
+   */
+  fetchAsset(asset: AssetDefinition, req: CandleRequest, chain?: ProviderName[]): Promise<CandleFetch>
+  /** One named provider and symbol, no failover — health is still recorded. */
+  fetchFrom(provider: ProviderName, symbol: string, req: CandleRequest): Promise<Candle[]>
+  health(): Record<string, ProviderHealth>
+}
+
+export function createCandleFeed(
+  providers: CandleProvider[],
+  opts: { health?: Record<string, ProviderHealth>; now?: () => Date } = {},
+): CandleFeed {
+  const now = opts.now ?? (() => new Date())
+  const health: Record<string, ProviderHealth> = {}
+  for (const p of providers) health[p.name] = { ...freshHealth(), ...opts.health?.[p.name] }
+
+  async function attempt(provider: CandleProvider, symbol: string, req: CandleRequest): Promise<Candle[]> {
+    const h = health[provider.name]
+    try {
+      const candles = await provider.fetch(symbol, req)
+      if (candles.length === 0) throw new Error(`${provider.name} ${symbol}: no ${req.timeframe} candles`)
+      h.successes++
+      h.consecutiveFailures = 0
+      h.lastSuccessAt = now().toISOString()
+      return candles
+    } catch (err) {
+      h.failures++
+      h.consecutiveFailures++
+      h.lastError = err instanceof Error ? err.message : String(err)
+      h.lastFailureAt = now().toISOString()
+      throw err
+    }
+  }
+
+  return {
+    async fetchAsset(asset, req, chain) {
+      const at = now()
+      const candidates = (chain ? chain.flatMap((n) => providers.filter((p) => p.name === n)) : providers)
+        .filter((p) => p.timeframes.includes(req.timeframe) && p.symbolFor(asset))
+        // Stable sort: healthy providers keep their order, unhealthy go last
+        .sort((a, b) => Number(!isHealthy(health[a.name], at)) - Number(!isHealthy(health[b.name], at)))
+
+      const result: CandleFetch = { candles: [], provider: null, failedOver: [], gaps: [], repaired: 0, errors: [] }
+      let primary = -1
+      for (let i = 0; i < candidates.length; i++) {
+        try {
+          result.candles = await attempt(candidates[i], candidates[i].symbolFor(asset)!, req)
+          result.provider = candidates[i].name
+          primary = i
+          break
+        } catch (err) {
+          result.failedOver.push(candidates[i].name)
+          result.errors.push(err instanceof Error ? err.message : String(err))
+        }
+      }
+      if (primary < 0 || !candidates[primary].continuous) return result
+
+      // The window the request asked for, ending at the last bar that has opened
+      const step = TIMEFRAME_MS[req.timeframe]
+      const end = Math.min(endMs(req), at.getTime())
+      const lastOpen = Math.floor((end - 1) / step) * step
+      const range = { start: lastOpen - step * (req.limit - 1), end: lastOpen + 1 }
+      // A new listing has no bars before its first one — only check from there
+      range.start = Math.max(range.start, new Date(result.candles[0].open_time).getTime())
+      result.gaps = findGaps(result.candles, req.timeframe, range)
+
+      for (const donor of candidates.slice(primary + 1)) {
+        if (result.gaps.length === 0) break
+        if (!donor.continuous || !isHealthy(health[donor.name], at)) continue
+        try {
+          const donorCandles = await attempt(donor, donor.symbolFor(asset)!, req)
+          const { candles, filled } = fillGaps(result.candles, donorCandles, result.gaps, req.timeframe)
+          result.candles = candles
+          result.repaired += filled
+          result.gaps = findGaps(result.candles, req.timeframe, range)
+        } catch (err) {
+          result.errors.push(err instanceof Error ? err.message : String(err))
+        }
+      }
+      return result
+    },
+
+    async fetchFrom(name, symbol, req) {
+      const provider = providers.find((p) => p.name === name)
+      if (!provider) throw new Error(`Unknown candle provider ${name}`)
+      return await attempt(provider, symbol, req)
+    },
+
+    health: () => structuredClone(health),
+  }
+}
@@ -0,0 +1,102 @@
+import assert from "node:assert/strict"
+import type { AssetDefinition } from "./assets.ts"
+import { createCandleFeed, expectedOpenTimes, fillGaps, findGaps, fixtureProvider, krakenProvider } from "./candle_providers.ts"
+import type { CandleProvider } from "./candle_providers.ts"
+import type { Candle } from "./candles.ts"
+
+const HOUR = 3_600_000
+const T0 = Date.UTC(2026, 5, 1)
+const NOW = new Date(T0 + 10 * HOUR)   // bars 0..9 have opened
+
+const bar = (i: number, close = 100 + i): Candle => ({
+  open_time: new Date(T0 + i * HOUR).toISOString(), open: close, high: close + 1, low: close - 1, close, volume: 1,
+})
+const bars = (idx: number[], close?: number) => idx.map((i) => bar(i, close))
+const range = (n: number) => [...Array(n).keys()]
+
+const BTC: AssetDefinition = { ticker: "BTC", name: "Bitcoin", assetClass: "crypto", pipelines: [], coinbase: "BTC-USD" }
+
+const failing = (name: CandleProvider["name"]): CandleProvider => ({
+  ...fixtureProvider({}, name),
+  symbolFor: () => "BTC",
+  fetch: () => Promise.reject(new Error(`${name} down`)),
+})
+
+Deno.test("expectedOpenTimes snaps to UTC bar boundaries", () => {
+  assert.deepEqual(expectedOpenTimes("4h", T0 + HOUR, T0 + 12 * HOUR), [T0 + 4 * HOUR, T0 + 8 * HOUR])
+})
+
+Deno.test("findGaps groups consecutive missing bars", () => {
+  const series = bars([0, 1, 4, 5, 7])
+  assert.deepEqual(findGaps(series, "1h"), [
+    { from: bar(2).open_time, to: bar(3).open_time, missing: 2 },
+    { from: bar(6).open_time, to: bar(6).open_time, missing: 1 },
+  ])
+  // An explicit range also catches a missing tail
+  assert.equal(findGaps(series, "1h", { start: T0, end: T0 + 10 * HOUR }).at(-1)?.missing, 2)
+})
+
+Deno.test("fillGaps only takes donor bars at missing times", () => {
+  const own = bars([0, 1, 3])
+  const donor = bars(range(4), 500)
+  const { candles, filled } = fillGaps(own, donor, findGaps(own, "1h"), "1h")
+  assert.equal(filled, 1)
+  assert.deepEqual(candles.map((c) => c.close), [100, 101, 500, 103])
+})
+
+Deno.test("feed fails over to the next provider and records health", async () => {
+  const feed = createCandleFeed([failing("coinbase"), fixtureProvider({ BTC: { "1h": bars(range(10)) } })], { now: () => NOW })
+  const result = await feed.fetchAsset(BTC, { timeframe: "1h", limit: 10, end: NOW })
+  assert.equal(result.provider, "fixture")
+  assert.deepEqual(result.failedOver, ["coinbase"])
+  assert.equal(result.candles.length, 10)
+  assert.equal(feed.health().coinbase.consecutiveFailures, 1)
+  assert.equal(feed.health().fixture.successes, 1)
+})
+
+Deno.test("feed repairs gaps from the other providers", async () => {
+  const feed = createCandleFeed([
+    fixtureProvider({ BTC: { "1h": bars([0, 1, 2, 5, 6, 7, 8]) } }, "coinbase"),
+    fixtureProvider({ BTC: { "1h": bars(range(10), 500) } }, "binance"),
+  ], { now: () => NOW })
+  const result = await feed.fetchAsset(BTC, { timeframe: "1h", limit: 10, end: NOW })
+  assert.equal(result.provider, "coinbase")
+  assert.equal(result.repaired, 3)   // bars 3, 4 and the missing current bar 9
+  assert.deepEqual(result.gaps, [])
+  assert.deepEqual(result.candles.map((c) => c.close), [100, 101, 102, 500, 500, 105, 106, 107, 108, 500])
+})
+
+Deno.test("an unhealthy provider is tried last until its cooldown passes", async () => {
+  let now = NOW
+  const calls: string[] = []
+  const track = (p: CandleProvider): CandleProvider => ({ ...p, fetch: (s, r) => (calls.push(p.name), p.fetch(s, r)) })
+  const feed = createCandleFeed([
+    track(failing("coinbase")),
+    track(fixtureProvider({ BTC: { "1h": bars(range(10)) } }, "kraken")),
+  ], { now: () => now })
+  const req = { timeframe: "1h" as const, limit: 10, end: NOW }
+
+  for (let i = 0; i < 3; i++) await feed.fetchAsset(BTC, req)
+  calls.length = 0
+  await feed.fetchAsset(BTC, req)
+  assert.deepEqual(calls, ["kraken"])
+
+  now = new Date(NOW.getTime() + 16 * 60_000)
+  calls.length = 0
+  await feed.fetchAsset(BTC, req)
+  assert.deepEqual(calls, ["coinbase", "kraken"])
+})
+
+Deno.test("provider chain limits which providers are tried", async () => {
+  const feed = createCandleFeed([failing("coinbase"), fixtureProvider({ BTC: { "1h": bars(range(10)) } }, "binance")])
+  const result = await feed.fetchAsset(BTC, { timeframe: "1h", limit: 10, end: NOW }, ["coinbase", "kraken"])
+  assert.equal(result.provider, null)
+  assert.deepEqual(result.errors, ["coinbase down"])
+})
+
+Deno.test("kraken symbols derive from the Coinbase USD product", () => {
+  assert.equal(krakenProvider.symbolFor(BTC), "XBTUSD")
+  assert.equal(krakenProvider.symbolFor({ ...BTC, ticker: "SOL", coinbase: "SOL-USD" }), "SOLUSD")
+  assert.equal(krakenProvider.symbolFor({ ...BTC, kraken: "XXBTZUSD" }), "XXBTZUSD")
+  assert.equal(krakenProvider.symbolFor({ ...BTC, assetClass: "index", coinbase: undefined }), undefined)
+})
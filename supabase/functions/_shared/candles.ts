@@ -0,0 +1,43 @@
+/**
+ * Shared OHLCV candle type and helpers.
+ *
+ * Every series in the shared modules is oldest-first. Fetchers that receive
+ * newest-first data (Coinbase, FMP) reverse it before handing it over.
+ */
+
+export interface Candle {
+  open_time: string   // ISO timestamp of the candle open
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+export interface PriceRange {
+  high: number
+  low: number
+  close: number
+}
+
+export function closesOf(candles: Candle[]): number[] {
+  return candles.map((c) => c.close)
+}
+
+/**
+ * Aggregates candles that opened at or after `afterIso` into one range —
+ * null when none did yet (e.g. a signal triggered mid-candle), so callers
+ * never judge a position against pre-trigger highs/lows.
+ */
+export function aggregateAfter(candles: Candle[], afterIso: string): PriceRange | null {
+  const afterMs = new Date(afterIso).getTime()
+  const valid = candles.filter(c => new Date(c.open_time).getTime() >= afterMs)
+  if (valid.length === 0) return null
+  let aggHigh = -Infinity
+  let aggLow = Infinity
+  for (const c of valid) {
+    aggHigh = Math.max(aggHigh, c.high)
+    aggLow = Math.min(aggLow, c.low)
+  }
+  return { high: aggHigh, low: aggLow, close: valid[valid.length - 1].close }
+}
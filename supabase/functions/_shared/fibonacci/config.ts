@@ -0,0 +1,86 @@
+/**
+ * Strategy constants and tier configuration for the fibonacci signal pipeline.
+ */
+
+// ─── Candle Windows ─────────────────────────────────────────────────────────
+
+// Coinbase granularities: ONE_HOUR, TWO_HOUR, FOUR_HOUR, SIX_HOUR, ONE_DAY
+export const TIMEFRAME_CONFIGS = [
+  { timeframe: "1h", granularity: "ONE_HOUR", limit: 100 },    // ~4 days, for faster bounce detection
+  { timeframe: "4h", granularity: "FOUR_HOUR", limit: 250 },  // ~42 days, enough for EMA 50 + swing detection
+  { timeframe: "1d", granularity: "ONE_DAY", limit: 200 },     // ~200 days (need 147+ for 21W EMA)
+] as const
+
+export const SWING_PARAMS: Record<string, { lookback: number; minReversal: number }> = {
+  "1h": { lookback: 10, minReversal: 2.5 },
+  "4h": { lookback: 8, minReversal: 5.0 },
+  "1d": { lookback: 5, minReversal: 8.0 },
+}
+
+// Only the golden pocket
+export const FIB_RATIOS = [0.618, 0.786]
+
+export const CONFLUENCE_TOLERANCE_PCT = 1.5
+export const SIGNAL_PROXIMITY_PCT = 3.0   // price must be within 3% of zone to evaluate
+export const MIN_RR_RATIO = 0.8
+export const STRONG_MIN_RR_RATIO = 2.0
+
+// ─── Partial TP / Tightened SL ─────────────────────────────────────────────
+// Take profit at 30% of T1 distance, stop loss at 80% of original SL distance
+export const TP_FRACTION = 0.3    // 0.3R take profit
+export const SL_FRACTION = 0.8    // 0.8R stop loss
+
+// ─── EMA Slope Regime Filter (soft — badges, not blocks) ──────────────────
+export const REGIME_SLOPE_LOOKBACK = 12  // 12 x 4H = 2 days
+export const REGIME_SLOPE_MIN_PCT = 0.5  // slope below this → "Low Conviction" badge
+export const STRONG_MIN_CONFLUENCE = 2
+export const SIGNAL_EXPIRY_HOURS = 72       // 3 days
+
+// ─── Volatility Regime (BTC ATR-based) ────────────────────────────────────
+export const VOL_REGIME_ELEVATED_THRESHOLD = 1.3  // current ATR / avg ATR > 1.3x
+export const VOL_REGIME_EXTREME_THRESHOLD  = 1.8  // current ATR / avg ATR > 1.8x
+
+// ─── Concurrent Signal Cap ────────────────────────────────────────────────
+export const MAX_SIGNALS_PER_ASSET = 3
+export const MAX_SIGNALS_TOTAL = 12
+
+// ─── Tier Configuration ─────────────────────────────────────────────────────
+
+export interface TierConfig {
+  tierName: string               // "4h" (swing) or "1h" (scalp)
+  swingTimeframes: string[]      // which TFs to detect swings on
+  trendTimeframe: string         // which TF for EMA trend check
+  bounceTimeframes: string[]     // ordered preference for bounce check
+  signalProximityPct: number
+  confluenceTolerancePct: number
+  expiryHours: number
+}
+
+export const TIER_SWING: TierConfig = {
+  tierName: "4h",
+  swingTimeframes: ["4h", "1d"],
+  trendTimeframe: "4h",
+  bounceTimeframes: ["1h", "4h"],
+  signalProximityPct: 3.5,
+  confluenceTolerancePct: 1.5,
+  expiryHours: 72,
+}
+
+export const TIER_SCALP: TierConfig = {
+  tierName: "1h",
+  swingTimeframes: ["1h", "4h"],
+  trendTimeframe: "4h",
+  bounceTimeframes: ["1h"],
+  signalProximityPct: 2.5,
+  confluenceTolerancePct: 1.0,
+  expiryHours: 48,
+}
+export const WICK_REJECTION_RATIO = 1.0
+export const VOLUME_SPIKE_RATIO = 1.15
+
+// EMA periods for trend filter
+export const EMA_FAST_PERIOD = 20
+export const EMA_SLOW_PERIOD = 50
+export const EMA_SLOPE_LOOKBACK = 6  // 6 x 4h = 24h for slope check
+export const EMA_PULLBACK_TOLERANCE = 0.015
+export const EMA_PULLBACK_PERIOD = 21  // Standard Fibonacci EMA for trend pullbacks
@@ -0,0 +1,212 @@
+/**
+ * Volume profile and fair value gap confluence for entry zones.
+ */
+
+import type { Candle } from "../candles.ts"
+import type { ConfluenceZone, FairValueGap, FVGConfluenceResult } from "./types.ts"
+
+// ─── Volume Profile ─────────────────────────────────────────────────────────
+
+export interface VolumeNode {
+  priceLow: number
+  priceHigh: number
+  priceMid: number
+  volume: number
+  relativeVolume: number
+}
+
+export interface VolumeConfluenceResult {
+  has_volume_confluence: boolean
+  volume_node_count: number
+  max_relative_volume: number
+}
+
+export function computeVolumeProfile(candles: Candle[], numBins = 50): VolumeNode[] {
+  if (candles.length < 20) return []
+
+  const highs = candles.map(c => c.high)
+  const lows = candles.map(c => c.low)
+  const priceMax = Math.max(...highs)
+  const priceMin = Math.min(...lows)
+  const range = priceMax - priceMin
+  if (range <= 0) return []
+
+  const binSize = range / numBins
+  const bins = new Array(numBins).fill(0)
+
+  // Distribute volume across bins using typical price
+  for (const c of candles) {
+    const typical = (c.high + c.low + c.close) / 3
+    const binIdx = Math.min(Math.floor((typical - priceMin) / binSize), numBins - 1)
+    bins[binIdx] += c.volume
+  }
+
+  const avgVol = bins.reduce((a, b) => a + b, 0) / numBins
+  if (avgVol <= 0) return []
+
+  // Return high-volume nodes (>1.5x average)
+  const nodes: VolumeNode[] = []
+  for (let i = 0; i < numBins; i++) {
+    const relVol = bins[i] / avgVol
+    if (relVol >= 1.5) {
+      nodes.push({
+        priceLow: priceMin + i * binSize,
+        priceHigh: priceMin + (i + 1) * binSize,
+        priceMid: priceMin + (i + 0.5) * binSize,
+        volume: bins[i],
+        relativeVolume: Math.round(relVol * 100) / 100,
+      })
+    }
+  }
+
+  return nodes
+}
+
+export function checkVolumeConfluence(zone: ConfluenceZone, volumeNodes: VolumeNode[]): VolumeConfluenceResult {
+  const result: VolumeConfluenceResult = { has_volume_confluence: false, volume_node_count: 0, max_relative_volume: 0 }
+
+  for (const node of volumeNodes) {
+    // Check overlap: node range intersects zone range, or node mid is within 1% of zone mid
+    const overlaps = node.priceHigh >= zone.low && node.priceLow <= zone.high
+    const nearby = Math.abs(node.priceMid - zone.mid) / zone.mid < 0.01
+    if (overlaps || nearby) {
+      result.has_volume_confluence = true
+      result.volume_node_count++
+      result.max_relative_volume = Math.max(result.max_relative_volume, node.relativeVolume)
+    }
+  }
+
+  result.max_relative_volume = Math.round(result.max_relative_volume * 100) / 100
+  return result
+}
+
+// ─── Fair Value Gap Detection ────────────────────────────────────────────────
+
+/**
+ * Detects unfilled Fair Value Gaps across multiple timeframes.
+ * A bullish FVG: candle[i].low > candle[i-2].high (gap up — price moved up so fast it left a void)
+ * A bearish FVG: candle[i].high < candle[i-2].low (gap down — price moved down so fast it left a void)
+ * An FVG is "filled" once a subsequent candle closes through it.
+ */
+export function detectFairValueGaps(candles: Record<string, Candle[]>): FairValueGap[] {
+  const fvgs: FairValueGap[] = []
+  const tfConfigs: { tf: string; lookback: number }[] = [
+    { tf: "1h", lookback: 50 },
+    { tf: "4h", lookback: 50 },
+    { tf: "1d", lookback: 30 },
+  ]
+
+  for (const { tf, lookback } of tfConfigs) {
+    const tfCandles = candles[tf]
+    if (!tfCandles || tfCandles.length < 5) continue
+
+    const startIdx = Math.max(2, tfCandles.length - lookback)
+
+    for (let i = startIdx; i < tfCandles.length; i++) {
+      const prev2 = tfCandles[i - 2]
+      const mid = tfCandles[i - 1]
+      const curr = tfCandles[i]
+
+      // Bullish FVG: current candle's low is above the candle-two-ago's high
+      if (curr.low > prev2.high) {
+        const gapLow = prev2.high
+        const gapHigh = curr.low
+        const sizePct = (gapHigh - gapLow) / mid.close * 100
+
+        // Check if any subsequent candle filled the gap (closed below gapHigh into the gap)
+        let filled = false
+        for (let j = i + 1; j < tfCandles.length; j++) {
+          if (tfCandles[j].close <= gapLow) {
+            filled = true
+            break
+          }
+        }
+
+        if (!filled && sizePct >= 0.1) {
+          fvgs.push({
+            type: "bullish",
+            timeframe: tf,
+            high: gapHigh,
+            low: gapLow,
+            sizePct: Math.round(sizePct * 100) / 100,
+            candle_time: mid.open_time,
+          })
+        }
+      }
+
+      // Bearish FVG: current candle's high is below the candle-two-ago's low
+      if (curr.high < prev2.low) {
+        const gapHigh = prev2.low
+        const gapLow = curr.high
+        const sizePct = (gapHigh - gapLow) / mid.close * 100
+
+        // Check if any subsequent candle filled the gap (closed above gapLow into the gap)
+        let filled = false
+        for (let j = i + 1; j < tfCandles.length; j++) {
+          if (tfCandles[j].close >= gapHigh) {
+            filled = true
+            break
+          }
+        }
+
+        if (!filled && sizePct >= 0.1) {
+          fvgs.push({
+            type: "bearish",
+            timeframe: tf,
+            high: gapHigh,
+            low: gapLow,
+            sizePct: Math.round(sizePct * 100) / 100,
+            candle_time: mid.open_time,
+          })
+        }
+      }
+    }
+  }
+
+  return fvgs
+}
+
+/**
+ * Checks if any unfilled FVG overlaps with a confluence zone and matches the trade direction.
+ * Bullish FVG + support zone = confluence for longs.
+ * Bearish FVG + resistance zone = confluence for shorts.
+ * Returns the best match (highest timeframe wins).
+ */
+export function checkFVGConfluence(zone: ConfluenceZone, fvgs: FairValueGap[], isBuy: boolean): FVGConfluenceResult {
+  const result: FVGConfluenceResult = {
+    has_fvg_confluence: false,
+    best_timeframe: null,
+    fvg_type: null,
+    score_bonus: 0,
+    gap_size_pct: 0,
+  }
+
+  // Timeframe priority: 4h strongest edge (62% WR, 2.33 PF in backtest), 1d weaker, 1h marginal
+  const tfPriority: Record<string, number> = { "4h": 8, "1d": 4, "1h": 3 }
+  const margin = (zone.high - zone.low) * 0.5  // Allow half-zone-width overlap margin
+
+  for (const fvg of fvgs) {
+    // Direction must match: bullish FVG for longs (support), bearish FVG for shorts (resistance)
+    if (isBuy && fvg.type !== "bullish") continue
+    if (!isBuy && fvg.type !== "bearish") continue
+
+    // Check overlap: FVG range intersects zone range (with margin)
+    const overlaps = fvg.high >= (zone.low - margin) && fvg.low <= (zone.high + margin)
+    if (!overlaps) continue
+
+    const bonus = tfPriority[fvg.timeframe] ?? 4
+    // Wide gap bonus: +2 if gap is >= 1.5% of price
+    const wideBonus = fvg.sizePct >= 1.5 ? 2 : 0
+    const totalBonus = bonus + wideBonus
+
+    if (totalBonus > result.score_bonus) {
+      result.has_fvg_confluence = true
+      result.best_timeframe = fvg.timeframe
+      result.fvg_type = fvg.type
+      result.score_bonus = totalBonus
+      result.gap_size_pct = fvg.sizePct
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,187 @@
+/**
+ * Swing detection, golden-pocket fib levels and multi-timeframe confluence
+ * clustering.
+ */
+
+import type { Candle } from "../candles.ts"
+import { CONFLUENCE_TOLERANCE_PCT, FIB_RATIOS, SWING_PARAMS } from "./config.ts"
+import type { ConfluenceZone, FibLevel, SwingPoint } from "./types.ts"
+
+// ─── Swing Detection ─────────────────────────────────────────────────────────
+
+export function detectAllSwings(
+  candles: Record<string, Candle[]>,
+  timeframes?: string[],
+  swingParams: Record<string, { lookback: number; minReversal: number }> = SWING_PARAMS,
+): Record<string, SwingPoint[]> {
+  const result: Record<string, SwingPoint[]> = {}
+  const tfs = timeframes ?? Object.keys(candles)
+
+  for (const tf of tfs) {
+    const tfCandles = candles[tf]
+    const params = swingParams[tf]
+    if (!params || !tfCandles || tfCandles.length < params.lookback * 2 + 1) {
+      result[tf] = []
+      continue
+    }
+    result[tf] = detectSwings(tfCandles, params.lookback, params.minReversal)
+  }
+
+  return result
+}
+
+export function detectSwings(candles: Candle[], lookback: number, minReversal: number): SwingPoint[] {
+  const swings: SwingPoint[] = []
+
+  for (let i = lookback; i < candles.length - lookback; i++) {
+    const c = candles[i]
+
+    // Swing high
+    let isHigh = true
+    for (let j = i - lookback; j <= i + lookback; j++) {
+      if (j !== i && candles[j].high >= c.high) { isHigh = false; break }
+    }
+    if (isHigh) {
+      const surroundingLows = []
+      for (let j = Math.max(0, i - lookback); j <= Math.min(candles.length - 1, i + lookback); j++) {
+        if (j !== i) surroundingLows.push(candles[j].low)
+      }
+      if (surroundingLows.length > 0) {
+        const minLow = Math.min(...surroundingLows)
+        const reversalPct = ((c.high - minLow) / minLow) * 100
+        if (reversalPct >= minReversal) {
+          swings.push({ type: "high", price: c.high, candle_time: c.open_time, reversal_pct: reversalPct })
+        }
+      }
+    }
+
+    // Swing low
+    let isLow = true
+    for (let j = i - lookback; j <= i + lookback; j++) {
+      if (j !== i && candles[j].low <= c.low) { isLow = false; break }
+    }
+    if (isLow) {
+      const surroundingHighs = []
+      for (let j = Math.max(0, i - lookback); j <= Math.min(candles.length - 1, i + lookback); j++) {
+        if (j !== i) surroundingHighs.push(candles[j].high)
+      }
+      if (surroundingHighs.length > 0) {
+        const maxHigh = Math.max(...surroundingHighs)
+        const reversalPct = ((maxHigh - c.low) / c.low) * 100
+        if (reversalPct >= minReversal) {
+          swings.push({ type: "low", price: c.low, candle_time: c.open_time, reversal_pct: reversalPct })
+        }
+      }
+    }
+  }
+
+  return swings
+}
+
+// ─── Fibonacci Levels ────────────────────────────────────────────────────────
+
+export function computeAllFibs(swings: Record<string, SwingPoint[]>, ratios: number[] = FIB_RATIOS): FibLevel[] {
+  const allLevels: FibLevel[] = []
+
+  for (const [tf, tfSwings] of Object.entries(swings)) {
+    const highs = tfSwings
+      .filter((s) => s.type === "high")
+      .sort((a, b) => new Date(b.candle_time).getTime() - new Date(a.candle_time).getTime())
+      .slice(0, 3)
+
+    const lows = tfSwings
+      .filter((s) => s.type === "low")
+      .sort((a, b) => new Date(b.candle_time).getTime() - new Date(a.candle_time).getTime())
+      .slice(0, 3)
+
+    for (const sh of highs) {
+      for (const sl of lows) {
+        if (sh.price <= sl.price) continue
+        const diff = sh.price - sl.price
+
+        for (const ratio of ratios) {
+          // Retracement from high (support for longs)
+          allLevels.push({
+            timeframe: tf,
+            ratio,
+            price: sh.price - diff * ratio,
+            direction: "from_high",
+          })
+          // Retracement from low (resistance for shorts)
+          allLevels.push({
+            timeframe: tf,
+            ratio,
+            price: sl.price + diff * ratio,
+            direction: "from_low",
+          })
+        }
+      }
+    }
+  }
+
+  return allLevels
+}
+
+// ─── Confluence Clustering ───────────────────────────────────────────────────
+
+export function clusterLevels(fibs: FibLevel[], currentPrice: number, tolerancePct?: number): ConfluenceZone[] {
+  const tolerance = tolerancePct ?? CONFLUENCE_TOLERANCE_PCT
+  if (fibs.length === 0) return []
+
+  // Filter to levels within 15% of current price
+  const nearby = fibs
+    .filter((l) => Math.abs((l.price - currentPrice) / currentPrice) * 100 <= 15)
+    .sort((a, b) => a.price - b.price)
+
+  if (nearby.length === 0) return []
+
+  const clusters: ConfluenceZone[] = []
+  let currentCluster: FibLevel[] = [nearby[0]]
+  let clusterLow = nearby[0].price
+  let clusterHigh = nearby[0].price
+
+  for (let i = 1; i < nearby.length; i++) {
+    const level = nearby[i]
+    const clusterMid = (clusterLow + clusterHigh) / 2
+    const distancePct = Math.abs((level.price - clusterMid) / clusterMid) * 100
+
+    if (distancePct <= tolerance) {
+      currentCluster.push(level)
+      clusterHigh = Math.max(clusterHigh, level.price)
+      clusterLow = Math.min(clusterLow, level.price)
+    } else {
+      if (currentCluster.length >= 2) {
+        const mid = (clusterLow + clusterHigh) / 2
+        const tfs = new Set(currentCluster.map((l) => l.timeframe))
+        clusters.push({
+          low: clusterLow,
+          high: clusterHigh,
+          mid,
+          strength: currentCluster.length,
+          zone_type: mid < currentPrice ? "support" : "resistance",
+          tf_count: tfs.size,
+          levels: [...currentCluster],
+        })
+      }
+      currentCluster = [level]
+      clusterLow = level.price
+      clusterHigh = level.price
+    }
+  }
+
+  if (currentCluster.length >= 2) {
+    const mid = (clusterLow + clusterHigh) / 2
+    const tfs = new Set(currentCluster.map((l) => l.timeframe))
+    clusters.push({
+      low: clusterLow,
+      high: clusterHigh,
+      mid,
+      strength: currentCluster.length,
+      zone_type: mid < currentPrice ? "support" : "resistance",
+      tf_count: tfs.size,
+      levels: [...currentCluster],
+    })
+  }
+
+  return clusters
+}
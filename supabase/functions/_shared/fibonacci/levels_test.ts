@@ -0,0 +1,93 @@
+import assert from "node:assert/strict"
+import type { Candle } from "../candles.ts"
+import { fixturePrice, loadFixture } from "../testdata/fixture.ts"
+import { clusterLevels, computeAllFibs, detectAllSwings, detectSwings } from "./levels.ts"
+import type { FibLevel, SwingPoint } from "./types.ts"
+
+function bars(highs: number[], lows: number[]): Candle[] {
+  return highs.map((high, i) => ({
+    open_time: new Date(Date.UTC(2026, 4, 1, i)).toISOString(),
+    open: lows[i],
+    high,
+    low: lows[i],
+    close: high,
+    volume: 1,
+  }))
+}
+
+Deno.test("detectSwings finds a pivot high that clears minReversal", () => {
+  const candles = bars([5, 6, 7, 10, 7, 6, 5], [4, 5, 6, 8, 6, 5, 4])
+  const swings = detectSwings(candles, 2, 50)
+  assert.equal(swings.length, 1)
+  assert.equal(swings[0].type, "high")
+  assert.equal(swings[0].price, 10)
+  assert.equal(swings[0].candle_time, candles[3].open_time)
+  assert.equal(swings[0].reversal_pct, 100)   // 10 vs the lowest surrounding low (5)
+
+  assert.deepEqual(detectSwings(candles, 2, 150), [])
+})
+
+Deno.test("detectAllSwings skips timeframes without enough candles", () => {
+  const candles = bars([5, 6, 7, 10, 7, 6, 5], [4, 5, 6, 8, 6, 5, 4])
+  const swings = detectAllSwings({ "4h": candles })
+  assert.deepEqual(swings, { "4h": [] })   // 4h lookback 8 needs 17 candles
+})
+
+Deno.test("computeAllFibs projects golden-pocket levels both ways", () => {
+  const swings: Record<string, SwingPoint[]> = {
+    "4h": [
+      { type: "low", price: 100, candle_time: "2026-05-01T00:00:00Z", reversal_pct: 10 },
+      { type: "high", price: 200, candle_time: "2026-05-02T00:00:00Z", reversal_pct: 10 },
+      { type: "low", price: 250, candle_time: "2026-05-03T00:00:00Z", reversal_pct: 10 },
+    ],
+  }
+  const fibs = computeAllFibs(swings)
+  // The 250 low sits above the only high and is skipped
+  assert.deepEqual(fibs.map((f) => f.direction), ["from_high", "from_low", "from_high", "from_low"])
+  const prices = fibs.map((f) => Math.round(f.price * 1000) / 1000)
+  assert.deepEqual(prices, [138.2, 161.8, 121.4, 178.6])
+  assert.ok(fibs.every((f) => f.timeframe === "4h"))
+})
+
+Deno.test("clusterLevels groups nearby levels into zones", () => {
+  const level = (price: number, timeframe: string): FibLevel =>
+    ({ price, timeframe, ratio: 0.618, direction: "from_high" })
+  const zones = clusterLevels([
+    level(120.8, "4h"), level(100, "4h"), level(110, "1d"), level(120, "1d"),
+    level(100.5, "1d"), level(120.4, "1h"), level(140, "1d"),
+  ], 115)
+
+  assert.equal(zones.length, 2)   // 110 stands alone, 140 is >15% away
+  assert.deepEqual(
+    zones.map((z) => [z.low, z.high, z.zone_type, z.strength, z.tf_count]),
+    [[100, 100.5, "support", 2, 2], [120, 120.8, "resistance", 3, 3]],
+  )
+})
+
+Deno.test("fixture: swings, fibs and zones are stable", () => {
+  const candles = loadFixture()
+  const price = fixturePrice(candles)
+  const swings = detectAllSwings(candles)
+  assert.deepEqual(
+    Object.fromEntries(Object.entries(swings).map(([tf, s]) => [tf, s.length])),
+    { "1d": 17, "4h": 16, "1h": 5 },
+  )
+  for (const [tf, tfSwings] of Object.entries(swings)) {
+    const times = new Set(candles[tf].map((c) => c.open_time))
+    assert.ok(tfSwings.every((s) => times.has(s.candle_time)), `${tf} swing off-series`)
+  }
+
+  const fibs = computeAllFibs(swings)
+  assert.equal(fibs.length, 92)
+
+  const zones = clusterLevels(fibs, price)
+  assert.equal(zones.length, 6)
+  for (const z of zones) {
+    assert.ok(z.low <= z.mid && z.mid <= z.high)
+    assert.equal(z.zone_type, z.mid < price ? "support" : "resistance")
+  }
+  const strongest = zones.reduce((a, b) => (b.strength > a.strength ? b : a))
+  assert.equal(strongest.mid.toFixed(2), "81506.61")
+  assert.equal(strongest.zone_type, "resistance")
+  assert.equal(strongest.tf_count, 3)
+})
@@ -0,0 +1,14 @@
+/**
+ * Fibonacci pipeline analytics — pure, deterministic, no network or database
+ * access. Shared by fibonacci-pipeline, its backtest harness and
+ * signal-monitor. Tests: `deno test supabase/functions/_shared`.
+ */
+
+export * from "./config.ts"
+export * from "./types.ts"
+export * from "./levels.ts"
+export * from "./trend.ts"
+export * from "./confluence.ts"
+export * from "./scoring.ts"
+export * from "./patterns.ts"
+export * from "./signals.ts"
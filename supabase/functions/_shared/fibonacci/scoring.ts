@@ -0,0 +1,276 @@
+/**
+ * Bounce confirmation, composite scoring and zone-based targets/stops.
+ */
+
+import { closesOf } from "../candles.ts"
+import type { Candle } from "../candles.ts"
+import { ema } from "../indicators.ts"
+import { EMA_FAST_PERIOD, EMA_PULLBACK_TOLERANCE, EMA_SLOPE_LOOKBACK, EMA_SLOW_PERIOD, VOLUME_SPIKE_RATIO, WICK_REJECTION_RATIO } from "./config.ts"
+import type { ConfluenceZone, FVGConfluenceResult } from "./types.ts"
+import type { VolumeConfluenceResult } from "./confluence.ts"
+
+// ─── Composite Signal Scoring ───────────────────────────────────────────────
+
+export function computeCompositeScore(params: {
+  zone: ConfluenceZone
+  candles4h: Candle[]
+  bounce: { confirmed: boolean; details: Record<string, boolean> }
+  volumeConfluence: VolumeConfluenceResult
+  fvgConfluence: FVGConfluenceResult
+  isBuy: boolean
+  rrRatio: number
+  counterTrend: boolean
+  fearGreedIndex?: number
+  btcRiskScore?: number
+}): number {
+  let score = 0
+
+  // 1. Confluence Depth (0-30 pts)
+  const strength = params.zone.strength
+  if (strength >= 4) score += 30
+  else if (strength >= 3) score += 20
+  else score += 10
+  // Multi-timeframe bonus
+  if (params.zone.tf_count >= 2) score += 5
+  score = Math.min(score, 35) // Cap this bucket
+
+  // 2. EMA Alignment Strength (0-20 pts)
+  if (params.candles4h.length >= EMA_SLOW_PERIOD + EMA_SLOPE_LOOKBACK) {
+    const emaFast = ema(closesOf(params.candles4h), EMA_FAST_PERIOD)
+    const emaSlow = ema(closesOf(params.candles4h), EMA_SLOW_PERIOD)
+    const emaSlowPrev = ema(closesOf(params.candles4h.slice(0, -EMA_SLOPE_LOOKBACK)), EMA_SLOW_PERIOD)
+
+    if (emaFast !== null && emaSlow !== null && emaSlowPrev !== null) {
+      const price = params.candles4h[params.candles4h.length - 1].close
+      const spread = Math.abs(emaFast - emaSlow) / emaSlow * 100
+      const slopeStrength = Math.abs(emaSlow - emaSlowPrev) / emaSlowPrev * 100
+
+      // Directional alignment
+      const aligned = params.isBuy ? emaFast > emaSlow : emaFast < emaSlow
+      if (aligned) {
+        score += 10
+        if (spread > 1.0) score += 5
+        if (slopeStrength > 0.3) score += 5
+      } else {
+        // Pullback to EMA scenario — partial credit
+        if (Math.abs(price - emaSlow) / emaSlow < EMA_PULLBACK_TOLERANCE) score += 8
+      }
+    }
+  }
+
+  // 3. Volume Confirmation Quality (0-20 pts)
+  let volScore = 0
+  if (params.bounce.details.wick_rejection) volScore += 8
+  if (params.bounce.details.volume_spike) volScore += 8
+  if (params.bounce.details.consecutive_closes) volScore += 8
+  if (params.volumeConfluence.has_volume_confluence) volScore += 4
+  score += Math.min(volScore, 20)
+
+  // 4. Risk/Reward (0-15 pts)
+  if (params.rrRatio >= 3.0) score += 15
+  else if (params.rrRatio >= 2.0) score += 10
+  else score += 5
+
+  // 5. Macro/Context (0-15 pts)
+  let macroScore = 10 // Base
+  if (params.counterTrend) macroScore -= 10
+  // F&G bonus: extreme fear is bullish for longs, extreme greed for shorts
+  if (params.fearGreedIndex !== undefined) {
+    if (params.isBuy && params.fearGreedIndex < 25) macroScore += 3
+    else if (!params.isBuy && params.fearGreedIndex > 75) macroScore += 3
+  }
+  score += Math.max(0, Math.min(macroScore, 15))
+
+  // 6. Fair Value Gap Confluence (0-10 pts)
+  // FVG overlapping the zone = institutional imbalance confirmation
+  // 1D: +8, 4H: +6, 1H: +4, wide gap (>=1.5%): +2 extra
+  if (params.fvgConfluence.has_fvg_confluence) {
+    score += params.fvgConfluence.score_bonus
+  }
+
+  return Math.min(Math.max(score, 0), 105)  // Max now 105 → clamped to 100 at caller
+}
+
+// ─── Composite Score v2 (SHADOW — drives nothing) ────────────────────────────
+//
+// v1 above proved anti-predictive across 229 closed trades: its 80+ bucket won
+// 40.5% (-0.50 expectancy) while its sub-65 bucket won 60.6%. Component-level
+// analysis showed why — v1's biggest rewards go to inputs that don't work:
+//
+//   counter_trend      v1: -10 penalty | reality: the only +EV group (+0.235)
+//   wick_rejection     v1: +8          | reality: 41% win, -0.361
+//   consecutive_closes v1: +8          | reality: 35% win, -0.507
+//   risk_reward >= 3   v1: +15 (max)   | reality: 12.5% win, -1.453
+//   volume_spike       v1: +8          | reality: 58.8% win, +0.161  ✓
+//   volume_confluence  v1: +4 (min)    | reality: 58.0% vs 44.8% win ✓ strongest
+//
+// v2 keeps only what separated outcomes. Its value is mostly at the BOTTOM: the
+// sub-35 band covered 64 trades averaging -0.71%, so it's better at telling you
+// what to avoid than what to chase.
+//
+// IMPORTANT: these weights were fitted on the same history used to judge them,
+// so this is a hypothesis, not a validated model. It is stored for comparison
+// only and must beat v1 out-of-sample on fresh signals before it influences
+// ranking, filtering, or anything shown to members.
+export function computeCompositeScoreV2(params: {
+  volumeConfluence: VolumeConfluenceResult
+  bounce: { confirmed: boolean; details: Record<string, boolean> }
+  rrRatio: number
+  counterTrend: boolean
+}): number {
+  let score = 0
+
+  // Cleanest discriminator in the data — weighted far above v1's 4 points.
+  if (params.volumeConfluence.has_volume_confluence) score += 25
+
+  // The one bounce-confirmation input that actually predicted anything.
+  if (params.bounce.details.volume_spike) score += 20
+
+  // Mid-range R:R was the sweet spot (62.1% win, +0.300). Very high R:R means
+  // the target is too far or the stop too tight — it rarely fills, so it earns
+  // nothing rather than v1's maximum award.
+  if (params.rrRatio >= 3) score += 0
+  else if (params.rrRatio >= 2) score += 20
+  else score += 10
+
+  // v1 penalised this by 10; historically it was the only positive-expectancy
+  // group. Given the thin sample (n=36) it gets a modest credit, not a big one.
+  if (params.counterTrend) score += 10
+
+  return Math.min(Math.max(score, 0), 100)
+}
+
+// ─── Bounce Confirmation ─────────────────────────────────────────────────────
+
+export function checkBounce(
+  candles: Candle[],
+  zoneLow: number,
+  zoneHigh: number,
+  isBuy: boolean,
+): { confirmed: boolean; details: Record<string, boolean> } {
+  const details: Record<string, boolean> = { wick_rejection: false, volume_spike: false, consecutive_closes: false, momentum_breakout: false }
+
+  if (candles.length < 3) return { confirmed: false, details }
+
+  // First verify a recent candle actually touched/penetrated the zone (last 6 candles)
+  const recentCandles = candles.slice(-6)
+  const zoneMargin = (zoneHigh - zoneLow) * 0.5  // allow half-zone-width margin
+  let zoneTouched = false
+  if (isBuy) {
+    zoneTouched = recentCandles.some(c => c.low <= zoneHigh + zoneMargin)
+  } else {
+    zoneTouched = recentCandles.some(c => c.high >= zoneLow - zoneMargin)
+  }
+  if (!zoneTouched) return { confirmed: false, details }
+
+  // Check last 3 candles for bounce confirmation (not just the latest).
+  // A bounce that happened 1-2 candles ago is still a valid setup —
+  // the old code only checked the single most recent candle, which missed
+  // bounces that occurred between pipeline runs.
+  const checkWindow = candles.slice(-3)
+
+  for (const candle of checkWindow) {
+    if (isBuy) {
+      const body = Math.abs(candle.close - candle.open)
+      const lowerWick = Math.min(candle.open, candle.close) - candle.low
+      if (lowerWick >= WICK_REJECTION_RATIO * Math.max(body, 0.001)
+          && candle.low <= zoneHigh + zoneMargin
+          && candle.close > zoneLow) {
+        details.wick_rejection = true
+      }
+    } else {
+      const body = Math.abs(candle.close - candle.open)
+      const upperWick = candle.high - Math.max(candle.open, candle.close)
+      if (upperWick >= WICK_REJECTION_RATIO * Math.max(body, 0.001)
+          && candle.high >= zoneLow - zoneMargin
+          && candle.close < zoneHigh) {
+        details.wick_rejection = true
+      }
+    }
+  }
+
+  // Consecutive closes: check latest + prev
+  const latest = candles[candles.length - 1]
+  const prev = candles[candles.length - 2]
+  if (isBuy) {
+    if (latest.close > zoneHigh && prev.close > zoneHigh && prev.low <= zoneHigh) {
+      details.consecutive_closes = true
+    }
+  } else {
+    if (latest.close < zoneLow && prev.close < zoneLow && prev.high >= zoneLow) {
+      details.consecutive_closes = true
+    }
+  }
+
+  // Volume spike — check last 3 candles against 20-candle average
+  const volBaseline = candles.slice(-23, -3)
+  if (volBaseline.length >= 10) {
+    const avgVol = volBaseline.reduce((sum, c) => sum + c.volume, 0) / volBaseline.length
+    if (avgVol > 0) {
+      for (const candle of checkWindow) {
+        if (candle.volume >= VOLUME_SPIKE_RATIO * avgVol) {
+          details.volume_spike = true
+          break
+        }
+      }
+    }
+  }
+
+  // Momentum breakout: in trending markets, price pushes through zones with strong closes
+  // rather than wicking off them. Accept a strong directional close through the zone.
+  let momentum_breakout = false
+  const latestCandle = candles[candles.length - 1]
+  const body = Math.abs(latestCandle.close - latestCandle.open)
+  const range = latestCandle.high - latestCandle.low
+  const bodyRatio = range > 0 ? body / range : 0
+  if (bodyRatio >= 0.6) { // Strong directional candle (body ≥ 60% of range)
+    if (isBuy && latestCandle.close > latestCandle.open && latestCandle.close > zoneHigh) {
+      momentum_breakout = true
+    } else if (!isBuy && latestCandle.close < latestCandle.open && latestCandle.close < zoneLow) {
+      momentum_breakout = true
+    }
+  }
+  details.momentum_breakout = momentum_breakout
+
+  return { confirmed: details.wick_rejection || details.volume_spike || details.consecutive_closes || details.momentum_breakout, details }
+}
+
+// ─── Targets & Stop Loss ─────────────────────────────────────────────────────
+
+export function computeTargetsAndStop(
+  zone: ConfluenceZone,
+  allFibPrices: number[],
+  isBuy: boolean,
+): { target1: number; target2: number; stopLoss: number } | null {
+  const sorted = [...allFibPrices].sort((a, b) => a - b)
+  const zoneMid = zone.mid
+
+  // Minimum distance between T1 and T2 (1.5% of zone mid)
+  const minTargetGap = zoneMid * 0.015
+
+  if (isBuy) {
+    const levelsBelow = sorted.filter((p) => p < zone.low)
+    const nextDown = levelsBelow.length > 0 ? levelsBelow[levelsBelow.length - 1] : null
+    const stopLoss = nextDown ? nextDown * 0.995 : zoneMid * 0.985
+
+    const levelsAbove = sorted.filter((p) => p > zone.high)
+    const target1 = levelsAbove.length > 0 ? levelsAbove[0] : zoneMid * 1.03
+    // T2 must be meaningfully above T1
+    const t2Candidate = levelsAbove.find((p) => p > target1 + minTargetGap)
+    const target2 = t2Candidate ?? target1 * 1.03
+
+    return { target1, target2, stopLoss }
+  } else {
+    const levelsAbove = sorted.filter((p) => p > zone.high)
+    const nextUp = levelsAbove.length > 0 ? levelsAbove[0] : null
+    const stopLoss = nextUp ? nextUp * 1.005 : zoneMid * 1.015
+
+    const levelsBelow = sorted.filter((p) => p < zone.low).reverse()
+    const target1 = levelsBelow.length > 0 ? levelsBelow[0] : zoneMid * 0.97
+    // T2 must be meaningfully below T1
+    const t2Candidate = levelsBelow.find((p) => p < target1 - minTargetGap)
+    const target2 = t2Candidate ?? target1 * 0.97
+
+    return { target1, target2, stopLoss }
+  }
+}
@@ -0,0 +1,1016 @@
+/**
+ * Signal evaluation and resolution. Both take a snapshot of state and return
+ * rows/patches — persistence and notifications belong to the caller.
+ */
+
+import type { Candle, PriceRange } from "../candles.ts"
+import { EMA_SLOPE_LOOKBACK, EMA_SLOW_PERIOD, FIB_RATIOS, MAX_SIGNALS_PER_ASSET, MAX_SIGNALS_TOTAL, MIN_RR_RATIO, SL_FRACTION, STRONG_MIN_CONFLUENCE, STRONG_MIN_RR_RATIO, SWING_PARAMS, TIER_SCALP, TIER_SWING, TP_FRACTION } from "./config.ts"
+import type { TierConfig } from "./config.ts"
+import type { ChartPattern, ConfluenceZone, FibLevel, SwingPoint } from "./types.ts"
+import { checkBMSB, checkDailyTrendGuard, checkEMASlopeRegime, checkMomentumFilter, checkTrendAlignment, computeEMAPullbackScore, computeEMAPullbackTargets, detectEMAPullback, detectMarketRegime, detectRangeCompression } from "./trend.ts"
+import type { VolatilityRegime } from "./trend.ts"
+import { checkFVGConfluence, checkVolumeConfluence, detectFairValueGaps } from "./confluence.ts"
+import type { VolumeConfluenceResult, VolumeNode } from "./confluence.ts"
+import { checkBounce, computeCompositeScore, computeCompositeScoreV2, computeTargetsAndStop } from "./scoring.ts"
+import { detectChartPattern } from "./patterns.ts"
+
+// ─── Strategy Parameters ────────────────────────────────────────────────────
+// Everything a backtest may want to vary. DEFAULT_PARAMS mirrors the constants
+// above, so the live pipeline and a default backtest run trade identically.
+
+export interface StrategyParams {
+  swingParams: Record<string, { lookback: number; minReversal: number }>
+  fibRatios: number[]
+  minRR: number
+  strongMinRR: number
+  strongMinConfluence: number
+  tpFraction: number
+  slFraction: number
+  minScore: number
+  cooldownHours: number
+  maxSignalsPerAsset: number
+  maxSignalsTotal: number
+  tierSwing: TierConfig
+  tierScalp: TierConfig
+  emaPullback: boolean
+}
+
+export const DEFAULT_PARAMS: StrategyParams = {
+  swingParams: SWING_PARAMS,
+  fibRatios: FIB_RATIOS,
+  minRR: MIN_RR_RATIO,
+  strongMinRR: STRONG_MIN_RR_RATIO,
+  strongMinConfluence: STRONG_MIN_CONFLUENCE,
+  tpFraction: TP_FRACTION,
+  slFraction: SL_FRACTION,
+  minScore: 55,
+  cooldownHours: 12,
+  maxSignalsPerAsset: MAX_SIGNALS_PER_ASSET,
+  maxSignalsTotal: MAX_SIGNALS_TOTAL,
+  tierSwing: TIER_SWING,
+  tierScalp: TIER_SCALP,
+  emaPullback: true,
+}
+
+export interface AdaptiveParams {
+  paused_assets: string[]
+  direction_bonus: Record<string, { long: number; short: number }>
+  min_rr: number
+  min_score: number
+  state: string
+  state_label: string
+}
+
+export const DEFAULT_VOL_REGIME: VolatilityRegime = { regime: "normal", suggestedRiskPct: 2.0, atrRatio: 1.0 }
+
+// ─── Signal Book ────────────────────────────────────────────────────────────
+// Snapshot of the trade_signals rows the evaluation gates look at (cooldown,
+// per-asset cap, direction dedup, cross-tier dedup, global cap). The live
+// pipeline loads it from the database; the backtest keeps it in memory.
+
+export type SignalType = "buy" | "strong_buy" | "sell" | "strong_sell"
+
+export interface BookSignal {
+  signal_type: string
+  status: string
+  timeframe: string
+  entry_zone_low: number
+  entry_zone_high: number
+  generated_at: string
+}
+
+export interface SignalBook {
+  open: BookSignal[]     // this asset's active + triggered signals
+  recent: BookSignal[]   // this asset's signals generated inside the cooldown window
+  openTotal: number      // active + triggered across all assets
+}
+
+export function isBuySignal(signalType: string): boolean {
+  return signalType === "buy" || signalType === "strong_buy"
+}
+
+export function recordInBook(book: SignalBook, row: SignalRow, generatedAt: string): void {
+  const entry: BookSignal = {
+    signal_type: row.signal_type,
+    status: row.status,
+    timeframe: row.timeframe,
+    entry_zone_low: row.entry_zone_low,
+    entry_zone_high: row.entry_zone_high,
+    generated_at: generatedAt,
+  }
+  book.open.push(entry)
+  book.recent.push(entry)
+  book.openTotal++
+}
+
+// ─── Signal Drafts ──────────────────────────────────────────────────────────
+
+export interface SignalRow {
+  asset: string
+  signal_type: SignalType
+  status: string
+  timeframe: string
+  entry_zone_low: number
+  entry_zone_high: number
+  entry_price_mid: number
+  confluence_zone_id: string | null
+  target_1: number
+  target_2: number | null
+  stop_loss: number
+  risk_reward_ratio: number
+  risk_1r: number
+  best_price: number
+  runner_stop: number
+  ema_trend_aligned: boolean
+  bounce_confirmed: boolean
+  confirmation_details: Record<string, unknown>
+  counter_trend: boolean
+  composite_score: number
+  composite_score_v2: number
+  volume_confluence: VolumeConfluenceResult
+  fear_greed_index: number | null
+  btc_risk_score: number | null
+  macro_regime: string | null
+  chart_pattern: ChartPattern | null
+  range_compressed: boolean
+  compression_score: number | null
+  low_conviction: boolean
+  volatility_regime: string
+  suggested_risk_pct: number
+  expires_at: string
+}
+
+export interface SignalDraft {
+  row: SignalRow
+  zone: ConfluenceZone
+  isBuy: boolean
+  isStrong: boolean
+  rrRatio: number
+  target1: number    // raw fib target before the partial-TP fraction
+  stopLoss: number   // raw structural stop before tightening
+}
+
+export interface EvaluationResult {
+  drafts: SignalDraft[]
+  skipped: number
+  skipReasons: string[]
+}
+
+type Logger = (message: string) => void
+
+function withinCooldown(book: SignalBook, timeframe: string, now: Date, hours: number): boolean {
+  const cutoff = now.getTime() - hours * 3600000
+  return book.recent.some((s) => s.timeframe === timeframe && new Date(s.generated_at).getTime() >= cutoff)
+}
+
+function hasOpenDirection(book: SignalBook, drafts: SignalDraft[], isBuy: boolean): boolean {
+  return book.open.some((s) => isBuySignal(s.signal_type) === isBuy)
+    || drafts.some((d) => d.isBuy === isBuy)
+}
+
+// ─── Fib Confluence Evaluation ──────────────────────────────────────────────
+
+export interface FibEvaluationInput {
+  ticker: string
+  candles: Record<string, Candle[]>
+  zones: ConfluenceZone[]
+  fibs: FibLevel[]
+  currentPrice: number
+  volumeNodes?: VolumeNode[]
+  fearGreedIndex?: number
+  btcRiskScore?: number
+  swings?: Record<string, SwingPoint[]>
+  tier?: TierConfig
+  adaptiveParams?: AdaptiveParams | null
+  btcVolRegime?: VolatilityRegime
+  book: SignalBook
+  now: Date
+  params?: StrategyParams
+  log?: Logger
+}
+
+export function evaluateFibSignals(input: FibEvaluationInput): EvaluationResult {
+  const {
+    ticker, candles, zones, fibs, currentPrice, fearGreedIndex, btcRiskScore, swings,
+    adaptiveParams, book, now,
+  } = input
+  const volumeNodes = input.volumeNodes ?? []
+  const params = input.params ?? DEFAULT_PARAMS
+  const tier = input.tier ?? params.tierSwing
+  const btcVolRegime = input.btcVolRegime ?? DEFAULT_VOL_REGIME
+  const log = input.log ?? console.log
+
+  const result: EvaluationResult = { drafts: [], skipped: 0, skipReasons: [] }
+  const trendCandles = candles[tier.trendTimeframe]
+  const candles4h = candles["4h"] ?? []
+
+  if (!trendCandles || trendCandles.length < EMA_SLOW_PERIOD + EMA_SLOPE_LOOKBACK) {
+    return result
+  }
+
+  // Detect chart pattern for this asset (once per evaluation, shared across zones)
+  const chartPattern = swings ? detectChartPattern(candles, swings) : null
+
+  // Detect unfilled fair value gaps across all timeframes (once per asset, shared across zones)
+  const fvgs = detectFairValueGaps(candles)
+
+  const allFibPrices = fibs.map((f) => f.price)
+
+  // Detect market regime (choppy vs trending) — used to raise quality thresholds
+  const regime = detectMarketRegime(candles4h)
+  if (regime.isChoppy) {
+    log(`[${ticker}] Choppy market detected (spread=${regime.emaSpreadPct.toFixed(2)}%, crossovers=${regime.crossoverCount}, whipsaws=${regime.priceWhipsaws})`)
+  }
+  const choppyMinRR = params.minRR              // Same R:R in all markets — score filter handles quality
+  const choppyBounceThreshold = 1                 // Single bounce confirmation always sufficient
+
+  // Detect range compression (tight range + low volume = low conviction)
+  const compression = detectRangeCompression(candles4h)
+  if (compression.isCompressed) {
+    log(`[${ticker}] Range compressed (rangeRatio=${compression.rangeRatio.toFixed(2)}, volRatio=${compression.volumeRatio.toFixed(2)}, 24hRange=${compression.range24h.toFixed(4)}, ATR=${compression.atr14d.toFixed(4)})`)
+  }
+
+  // 12-hour cooldown per asset: allow two setups per day per asset
+  if (withinCooldown(book, tier.tierName, now, params.cooldownHours)) {
+    result.skipReasons.push(`24h cooldown: signal already generated for ${ticker}`)
+    result.skipped++
+    return result
+  }
+
+  // Per-asset concurrent signal cap
+  if (book.open.length >= params.maxSignalsPerAsset) {
+    log(`[${ticker}] Max ${params.maxSignalsPerAsset} open signals — skipping [${tier.tierName}]`)
+    result.skipReasons.push(`Max ${params.maxSignalsPerAsset} open signals for ${ticker}`)
+    result.skipped++
+    return result
+  }
+
+  for (const zone of zones) {
+    const distancePct = Math.abs((currentPrice - zone.mid) / currentPrice) * 100
+    if (distancePct > tier.signalProximityPct) continue
+
+    // Only one signal per asset per direction at a time — prevents overlapping trades
+    const isBuyZone = zone.zone_type === "support"
+    if (hasOpenDirection(book, result.drafts, isBuyZone)) {
+      result.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: active ${isBuyZone ? "long" : "short"} signal exists`)
+      result.skipped++
+      continue
+    }
+
+    // Cross-tier dedup: if a swing (4h) signal already covers this zone, skip the scalp (1h) signal
+    if (tier.tierName === "1h") {
+      const covered = book.open.some((s) =>
+        s.timeframe === "4h"
+        && s.entry_zone_low >= zone.low * 0.985
+        && s.entry_zone_high <= zone.high * 1.015
+      )
+      if (covered) {
+        result.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: swing signal covers zone`)
+        result.skipped++
+        continue
+      }
+    }
+
+    const isBuy = zone.zone_type === "support"
+
+    // Price position check: skip if price broke through the zone decisively
+    // For buy: skip if price dropped far below support (broken support)
+    // For sell: skip if price rose far above resistance (broken resistance)
+    const zonePastPct = 5.0
+    if (isBuy && currentPrice < zone.low * (1 - zonePastPct / 100)) {
+      log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): price broke below support`)
+      result.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: price broke below support (price=${currentPrice.toFixed(2)})`)
+      result.skipped++
+      continue
+    }
+    if (!isBuy && currentPrice > zone.high * (1 + zonePastPct / 100)) {
+      log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): price broke above resistance`)
+      result.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: price broke above resistance (price=${currentPrice.toFixed(2)})`)
+      result.skipped++
+      continue
+    }
+
+    // EMA trend filter — soft badge, not a hard block.
+    // Counter-trend signals still generate but are tagged for reduced sizing (0.5R).
+    const emaTrendAligned = checkTrendAlignment(trendCandles, isBuy)
+    if (!emaTrendAligned) {
+      log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): EMA misalign → counter-trend [${tier.tierName}]`)
+    }
+
+    // Bounce confirmation — check preferred timeframes in order
+    let bounce = { confirmed: false, details: { wick_rejection: false, volume_spike: false, consecutive_closes: false, momentum_breakout: false } as Record<string, boolean> }
+    for (const btf of tier.bounceTimeframes) {
+      const btfCandles = candles[btf] ?? []
+      if (btfCandles.length >= 3) {
+        const check = checkBounce(btfCandles.slice(-25), zone.low, zone.high, isBuy)
+        if (check.confirmed) {
+          bounce = check
+          break
+        }
+      }
+    }
+    // Trend override: when EMA trend is clearly aligned, the trend IS the confirmation.
+    // In trending markets, price doesn't wick off levels — it holds and continues.
+    if (!bounce.confirmed && emaTrendAligned) {
+      bounce = { confirmed: true, details: { wick_rejection: false, volume_spike: false, consecutive_closes: false, momentum_breakout: false, trend_override: true } }
+      log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): trend override — EMA aligned [${tier.tierName}]`)
+    }
+    if (!bounce.confirmed) {
+      log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): no bounce [${tier.tierName}]`)
+      result.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: no bounce confirmation [${tier.tierName}]`)
+      result.skipped++
+      continue
+    }
+
+    // In choppy markets, require stronger bounce confirmation (2 of 3 signals)
+    // Trend override and momentum breakout count as confirmation
+    if (regime.isChoppy) {
+      const bounceCount = (bounce.details.wick_rejection ? 1 : 0)
+        + (bounce.details.volume_spike ? 1 : 0)
+        + (bounce.details.consecutive_closes ? 1 : 0)
+        + (bounce.details.momentum_breakout ? 1 : 0)
+        + (bounce.details.trend_override ? 1 : 0)
+        + (bounce.details.proximity_only ? 1 : 0)
+      if (bounceCount < choppyBounceThreshold) {
+        log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): choppy market — weak bounce (${bounceCount}/3) [${tier.tierName}]`)
+        result.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: choppy market, weak bounce (${bounceCount}/${choppyBounceThreshold} needed)`)
+        result.skipped++
+        continue
+      }
+    }
+
+    // EMA Slope Regime Filter — soft badge (Low Conviction), not a hard block
+    const slopeRegime = checkEMASlopeRegime(candles4h, isBuy)
+    const lowConviction = !slopeRegime.allowed
+    if (lowConviction) {
+      log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): LOW CONVICTION — flat 50 EMA slope (${slopeRegime.slopePct.toFixed(2)}%) [${tier.tierName}]`)
+    }
+
+    // Targets and stop
+    const targets = computeTargetsAndStop(zone, allFibPrices, isBuy)
+    if (!targets) continue
+
+    // Entry is the confluence zone we PUBLISH, not spot at detection. Using
+    // spot meant the app displayed one entry (the zone) and traded another,
+    // and once price ran past the zone the stop could land on the wrong side
+    // of the stated entry. Anchoring here keeps entry, stop, targets and R:R
+    // consistent with what the member actually sees.
+    if (isBuy ? currentPrice > zone.high : currentPrice < zone.low) {
+      const reason = `price ${currentPrice} already past entry zone ${zone.low.toFixed(4)}–${zone.high.toFixed(4)}`
+      log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): ${reason}`)
+      result.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: ${reason}`)
+      result.skipped++
+      continue
+    }
+
+    const entryMid = zone.mid
+    const riskDist = Math.abs(entryMid - targets.stopLoss)
+    const rewardDist = Math.abs(targets.target1 - entryMid)
+    const rrRatio = riskDist > 0 ? rewardDist / riskDist : 0
+
+    // R:R quality gate — don't surface bad risk/reward to users
+    const adaptiveMinRR = Math.min(adaptiveParams?.min_rr ?? params.minRR, params.minRR)
+    const effectiveMinRR = Math.max(regime.isChoppy ? choppyMinRR : adaptiveMinRR, adaptiveMinRR)
+    if (rrRatio < effectiveMinRR) {
+      const reason = `R:R ${rrRatio.toFixed(2)} < ${effectiveMinRR}`
+      log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): ${reason}`)
+      result.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: ${reason}`)
+      result.skipped++
+      continue
+    }
+
+    const isStrong = rrRatio >= params.strongMinRR && zone.strength >= params.strongMinConfluence
+    const signalType: SignalType = isBuy
+      ? (isStrong ? "strong_buy" : "buy")
+      : (isStrong ? "strong_sell" : "sell")
+
+    // Counter-trend flag: EMA misalignment OR Bull Market Support Band regime
+    const counterTrend = !emaTrendAligned || checkBMSB(candles["1d"] ?? [], currentPrice, isBuy)
+
+    // Volume confluence check
+    const volConfluence = checkVolumeConfluence(zone, volumeNodes)
+
+    // Fair value gap confluence check
+    const fvgConfluence = checkFVGConfluence(zone, fvgs, isBuy)
+    if (fvgConfluence.has_fvg_confluence) {
+      log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): FVG confluence — ${fvgConfluence.fvg_type} ${fvgConfluence.best_timeframe} gap (${fvgConfluence.gap_size_pct}%), +${fvgConfluence.score_bonus} pts`)
+    }
+
+    // Composite signal score
+    let compositeScore = computeCompositeScore({
+      zone,
+      candles4h,
+      bounce,
+      volumeConfluence: volConfluence,
+      fvgConfluence,
+      isBuy,
+      rrRatio: rrRatio,
+      counterTrend,
+      fearGreedIndex,
+      btcRiskScore,
+    })
+
+    // Shadow score — recorded for out-of-sample comparison, drives nothing.
+    const compositeScoreV2 = computeCompositeScoreV2({
+      volumeConfluence: volConfluence,
+      bounce,
+      rrRatio,
+      counterTrend,
+    })
+
+    // Apply adaptive direction bonus
+    const dirBonus = adaptiveParams?.direction_bonus?.[ticker]
+    if (dirBonus) {
+      const bonus = isBuy ? dirBonus.long : dirBonus.short
+      compositeScore = Math.max(0, Math.min(100, compositeScore + bonus))
+    }
+
+    // Counter-trend penalty: mild score reduction when fighting the trend
+    if (!emaTrendAligned) {
+      compositeScore = Math.max(0, compositeScore - 3)
+    }
+
+    // Range compression penalty: reduce score in low-conviction environments
+    if (compression.isCompressed) {
+      compositeScore = Math.max(0, compositeScore - 5)
+    }
+
+    // Only publish signals meeting score threshold (default 55, adaptive can lower but not raise above it)
+    const adaptiveScore = Math.min(adaptiveParams?.min_score ?? params.minScore, params.minScore)
+    const effectiveMinScore = adaptiveScore
+    if (compositeScore < effectiveMinScore) {
+      log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): score ${compositeScore} < ${effectiveMinScore}`)
+      result.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: score ${compositeScore} < ${effectiveMinScore}`)
+      result.skipped++
+      continue
+    }
+
+    const expiresAt = new Date(now.getTime() + tier.expiryHours * 3600000).toISOString()
+
+    // Derive macro regime label from Fear & Greed + BTC risk
+    let macroRegime: string | null = null
+    if (fearGreedIndex !== undefined) {
+      if (fearGreedIndex >= 70) macroRegime = "Risk-On"
+      else if (fearGreedIndex <= 30) macroRegime = "Risk-Off"
+      else macroRegime = "Neutral"
+    }
+
+    // Apply partial TP (0.3R) and tightened SL (0.8R)
+    const partialTP = isBuy
+      ? entryMid + params.tpFraction * rewardDist
+      : entryMid - params.tpFraction * rewardDist
+    const tightenedSL = isBuy
+      ? entryMid - params.slFraction * riskDist
+      : entryMid + params.slFraction * riskDist
+
+    const row: SignalRow = {
+      asset: ticker,
+      signal_type: signalType,
+      // Published as "Watching" — becomes "In Play" only on a real entry fill.
+      status: "active",
+      timeframe: tier.tierName,
+      entry_zone_low: zone.low,
+      entry_zone_high: zone.high,
+      entry_price_mid: entryMid,
+      // Resolved against fib_confluence_zones by the caller before insert.
+      confluence_zone_id: null,
+      target_1: partialTP,
+      target_2: targets.target2,
+      stop_loss: tightenedSL,
+      risk_reward_ratio: Math.round(params.tpFraction / params.slFraction * 100) / 100,
+      risk_1r: params.slFraction * riskDist,
+      best_price: entryMid,
+      runner_stop: tightenedSL,
+      ema_trend_aligned: true,
+      bounce_confirmed: true,
+      confirmation_details: {
+        ...bounce.details,
+        fvg_confluence: fvgConfluence.has_fvg_confluence,
+        fvg_timeframe: fvgConfluence.best_timeframe,
+        fvg_type: fvgConfluence.fvg_type,
+        fvg_gap_size_pct: fvgConfluence.gap_size_pct,
+      },
+      counter_trend: counterTrend,
+      composite_score: compositeScore,
+      composite_score_v2: compositeScoreV2,
+      volume_confluence: volConfluence,
+      fear_greed_index: fearGreedIndex ?? null,
+      btc_risk_score: btcRiskScore ?? null,
+      macro_regime: macroRegime,
+      chart_pattern: chartPattern ?? null,
+      range_compressed: compression.isCompressed,
+      compression_score: compression.isCompressed ? Math.round(compression.rangeRatio * 100) : null,
+      low_conviction: lowConviction,
+      volatility_regime: btcVolRegime.regime,
+      suggested_risk_pct: lowConviction
+        ? Math.min(1.0, btcVolRegime.suggestedRiskPct)
+        : btcVolRegime.suggestedRiskPct,
+      // triggered_at is intentionally left null. signal-monitor stamps it the
+      // moment price fills the entry zone, so T1/stop/duration/P&L all measure
+      // from the real entry instead of from signal creation.
+      expires_at: expiresAt,
+    }
+
+    // Global concurrent signal cap
+    if (book.openTotal + result.drafts.length >= params.maxSignalsTotal) {
+      log(`[${ticker}] Global cap reached (${params.maxSignalsTotal} open) — skipping signal at ${zone.mid.toFixed(2)} [${tier.tierName}]`)
+      result.skipReasons.push(`Global cap ${params.maxSignalsTotal} open signals`)
+      result.skipped++
+      continue
+    }
+
+    result.drafts.push({
+      row, zone, isBuy, isStrong, rrRatio,
+      target1: targets.target1,
+      stopLoss: targets.stopLoss,
+    })
+  }
+
+  return result
+}
+
+// ─── EMA Pullback Evaluation ────────────────────────────────────────────────
+
+export interface EMAPullbackInput {
+  ticker: string
+  candles: Record<string, Candle[]>
+  currentPrice: number
+  volumeNodes?: VolumeNode[]
+  fearGreedIndex?: number
+  btcRiskScore?: number
+  swings: Record<string, SwingPoint[]>
+  btcVolRegime?: VolatilityRegime
+  book: SignalBook
+  now: Date
+  params?: StrategyParams
+}
+
+export function evaluateEMAPullback(input: EMAPullbackInput): EvaluationResult {
+  const { ticker, candles, currentPrice, fearGreedIndex, btcRiskScore, swings, book, now } = input
+  const volumeNodes = input.volumeNodes ?? []
+  const params = input.params ?? DEFAULT_PARAMS
+  const btcVolRegime = input.btcVolRegime ?? DEFAULT_VOL_REGIME
+
+  const result: EvaluationResult = { drafts: [], skipped: 0, skipReasons: [] }
+  const candles4h = candles["4h"] ?? []
+
+  // Hard gate: only in trending markets (not choppy, EMA spread > 1%)
+  const regime = detectMarketRegime(candles4h)
+  if (regime.isChoppy) {
+    result.skipReasons.push("choppy market — EMA pullback disabled")
+    result.skipped++
+    return result
+  }
+
+  // 12-hour cooldown (shared with swing tier)
+  if (withinCooldown(book, "4h", now, params.cooldownHours)) {
+    result.skipReasons.push("12h cooldown (shared with swing)")
+    result.skipped++
+    return result
+  }
+
+  // Per-asset concurrent cap
+  if (book.open.length >= params.maxSignalsPerAsset) {
+    result.skipReasons.push(`Max ${params.maxSignalsPerAsset} open signals`)
+    result.skipped++
+    return result
+  }
+
+  // Check both directions
+  for (const isBuy of [true, false]) {
+    const setup = detectEMAPullback(candles4h, isBuy)
+    if (!setup) continue
+
+    // Direction dedup
+    if (hasOpenDirection(book, result.drafts, isBuy)) {
+      result.skipReasons.push(`active ${isBuy ? "long" : "short"} signal exists`)
+      result.skipped++
+      continue
+    }
+
+    // Daily trend guard
+    const dailyCandles = candles["1d"] ?? []
+    if (!checkDailyTrendGuard(dailyCandles, isBuy)) {
+      result.skipReasons.push(`daily trend guard blocked ${isBuy ? "long" : "short"}`)
+      result.skipped++
+      continue
+    }
+
+    // Momentum filter
+    if (!checkMomentumFilter(dailyCandles, isBuy)) {
+      result.skipReasons.push(`momentum filter blocked ${isBuy ? "long" : "short"}`)
+      result.skipped++
+      continue
+    }
+
+    // The entry is the EMA21 pullback zone we PUBLISH — not spot at detection.
+    // Previously entry/stop/targets were computed from currentPrice while the
+    // zone shown to members came from the EMA, so the app displayed one entry
+    // and traded another (and a short's stop could land below its entry zone).
+    const entryZoneLow = setup.ema21 * 0.995
+    const entryZoneHigh = setup.ema21 * 1.005
+    const entryMid = setup.ema21
+
+    // Staleness gate: if price already ran past the zone in the trade's
+    // direction, a member can't take the stated entry — don't publish at all.
+    if (isBuy ? currentPrice > entryZoneHigh : currentPrice < entryZoneLow) {
+      result.skipReasons.push(
+        `price ${currentPrice} already past entry zone ${entryZoneLow.toFixed(4)}–${entryZoneHigh.toFixed(4)}`
+      )
+      result.skipped++
+      continue
+    }
+
+    // Compute targets
+    const targets = computeEMAPullbackTargets(setup, currentPrice, candles4h, swings)
+    if (!targets) {
+      result.skipReasons.push(`no valid targets for ${isBuy ? "long" : "short"}`)
+      result.skipped++
+      continue
+    }
+
+    // Risk/reward measured from the published entry, so R:R is what a member
+    // would actually get filling in the zone.
+    const riskDist = Math.abs(entryMid - targets.stopLoss)
+    const rewardDist = Math.abs(targets.target1 - entryMid)
+    const rrRatio = riskDist > 0 ? rewardDist / riskDist : 0
+
+    if (rrRatio < 0.8) {
+      result.skipReasons.push(`R:R ${rrRatio.toFixed(2)} < 0.8`)
+      result.skipped++
+      continue
+    }
+
+    // Synthetic zone around EMA21 for confluence checks
+    const syntheticZone = {
+      low: setup.ema21 * 0.995,
+      high: setup.ema21 * 1.005,
+      mid: setup.ema21,
+      strength: 1,
+      zone_type: isBuy ? "support" : "resistance",
+      tf_count: 1,
+      levels: [],
+    } as ConfluenceZone
+
+    const fvgs = detectFairValueGaps(candles)
+    const fvgConfluence = checkFVGConfluence(syntheticZone, fvgs, isBuy)
+    const volConfluence = checkVolumeConfluence(syntheticZone, volumeNodes)
+
+    const compositeScore = computeEMAPullbackScore({
+      setup, candles4h, volumeConfluence: volConfluence, fvgConfluence,
+      rrRatio, fearGreedIndex, btcRiskScore,
+    })
+
+    // Shadow score — recorded for out-of-sample comparison, drives nothing.
+    const compositeScoreV2 = computeCompositeScoreV2({
+      volumeConfluence: volConfluence,
+      bounce: { confirmed: true, details: { volume_spike: setup.volumeOnBounce } },
+      rrRatio,
+      counterTrend: false,
+    })
+
+    if (compositeScore < 50) {
+      result.skipReasons.push(`score ${compositeScore} < 50`)
+      result.skipped++
+      continue
+    }
+
+    const isStrong = rrRatio >= 2.0 && setup.emaSpreadPct > 2.0
+    const signalType: SignalType = isBuy
+      ? (isStrong ? "strong_buy" : "buy")
+      : (isStrong ? "strong_sell" : "sell")
+
+    // Partial TP and tightened SL (same fractions as fib signals), anchored to
+    // the published entry so the stop always sits on the correct side of it.
+    const partialTP = isBuy
+      ? entryMid + params.tpFraction * rewardDist
+      : entryMid - params.tpFraction * rewardDist
+    const tightenedSL = isBuy
+      ? entryMid - params.slFraction * riskDist
+      : entryMid + params.slFraction * riskDist
+
+    const macroRegime = fearGreedIndex !== undefined
+      ? (fearGreedIndex >= 70 ? "Risk-On" : fearGreedIndex <= 30 ? "Risk-Off" : "Neutral")
+      : "Unknown"
+
+    const expiresAt = new Date(now.getTime() + 72 * 60 * 60 * 1000).toISOString()
+
+    const slopeRegime = checkEMASlopeRegime(candles4h, isBuy)
+    const lowConviction = !slopeRegime.allowed
+    const compression = detectRangeCompression(candles4h)
+
+    const row: SignalRow = {
+      asset: ticker,
+      signal_type: signalType,
+      // Published as "Watching" — signal-monitor flips it to "In Play" only once
+      // price actually trades into the entry zone. Creating it already triggered
+      // meant the app claimed a live position before entry was ever reached.
+      status: "active",
+      timeframe: "4h",
+      entry_zone_low: entryZoneLow,
+      entry_zone_high: entryZoneHigh,
+      entry_price_mid: entryMid,
+      confluence_zone_id: null,
+      target_1: partialTP,
+      target_2: targets.target2,
+      stop_loss: tightenedSL,
+      risk_reward_ratio: Math.round(rrRatio * 100) / 100,
+      risk_1r: params.slFraction * riskDist,
+      best_price: entryMid,
+      runner_stop: tightenedSL,
+      ema_trend_aligned: true,
+      bounce_confirmed: true,
+      confirmation_details: {
+        strategy: "ema_pullback",
+        ema21_touch: true,
+        bounce_candle: true,
+        volume_spike: setup.volumeOnBounce,
+        ema_spread_pct: Math.round(setup.emaSpreadPct * 100) / 100,
+        pullback_depth_pct: Math.round(setup.pullbackDepthPct * 100) / 100,
+        fvg_confluence: fvgConfluence.has_fvg_confluence,
+        fvg_timeframe: fvgConfluence.best_timeframe,
+        fvg_type: fvgConfluence.fvg_type,
+        fvg_gap_size_pct: fvgConfluence.gap_size_pct,
+      },
+      counter_trend: false,
+      composite_score: compositeScore,
+      composite_score_v2: compositeScoreV2,
+      volume_confluence: volConfluence,
+      fear_greed_index: fearGreedIndex ?? null,
+      btc_risk_score: btcRiskScore ?? null,
+      macro_regime: macroRegime,
+      chart_pattern: null,
+      range_compressed: compression.isCompressed,
+      compression_score: compression.isCompressed ? Math.round(compression.rangeRatio * 100) : null,
+      low_conviction: lowConviction,
+      volatility_regime: btcVolRegime.regime,
+      suggested_risk_pct: lowConviction
+        ? Math.min(1.0, btcVolRegime.suggestedRiskPct)
+        : btcVolRegime.suggestedRiskPct,
+      // triggered_at is intentionally left null. signal-monitor stamps it the
+      // moment price fills the entry zone, so T1/stop/duration/P&L all measure
+      // from the real entry instead of from signal creation.
+      expires_at: expiresAt,
+    }
+
+    // Global cap
+    if (book.openTotal + result.drafts.length >= params.maxSignalsTotal) {
+      result.skipReasons.push(`Global cap ${params.maxSignalsTotal} open signals`)
+      result.skipped++
+      continue
+    }
+
+    result.drafts.push({
+      row, zone: syntheticZone, isBuy, isStrong, rrRatio,
+      target1: targets.target1,
+      stopLoss: targets.stopLoss,
+    })
+  }
+
+  return result
+}
+
+// ─── Signal Resolution (50% at T1, trail runner with 1R stop) ────────────────
+
+export type ResolutionEvent =
+  | "stop_loss" | "stop_loss_partial" | "t1_hit" | "runner_win" | "runner_loss"
+  | "expired_win" | "expired_partial" | "expired_loss"
+
+export interface OpenSignal {
+  signal_type: string
+  entry_price_mid: number | string
+  target_1: number | string | null
+  stop_loss: number | string
+  risk_1r: number | string | null
+  t1_hit_at: string | null
+  t1_pnl_pct: number | string | null
+  best_price: number | string | null
+  runner_stop: number | string | null
+  expires_at: string | null
+  triggered_at: string
+}
+
+export interface ResolutionMarket {
+  candle: PriceRange | null     // primary-exchange candles since trigger, aggregated
+  latest: PriceRange            // most recent candle only (runner trailing)
+  latestClose: number
+  confirm?: PriceRange | null   // secondary-exchange candles since trigger, aggregated
+  now: Date
+}
+
+export interface SignalResolution {
+  patch: Record<string, unknown>
+  guard: "closed_at" | "t1_hit_at" | null   // column that must still be null for the update to apply
+  event: ResolutionEvent | null
+  eventPrice: number
+  kind: "expired" | "stop_loss" | "t1_hit" | "runner_stop" | "tracking"
+}
+
+const SL_BUFFER_PCT = 0.003
+
+// Dual-source T1 check: requires BOTH Coinbase and Binance to confirm target hit.
+// If Binance data is unavailable, falls back to Coinbase-only.
+export function isT1Hit(
+  t1: number, isBuy: boolean,
+  cbCandle: { high: number; low: number },
+  bnCandle: { high: number; low: number } | null | undefined,
+  log: Logger = console.log,
+): boolean {
+  if (isBuy) {
+    const cbHit = cbCandle.high >= t1
+    if (!bnCandle) return cbHit
+    const bnHit = bnCandle.high >= t1
+    if (cbHit && bnHit) log(`T1 CONFIRMED by both CB(H:${cbCandle.high}) & BN(H:${bnCandle.high}) >= ${t1}`)
+    if (cbHit && !bnHit) log(`T1 REJECTED — CB(H:${cbCandle.high}) hit but BN(H:${bnCandle.high}) did not reach ${t1}`)
+    return cbHit && bnHit
+  } else {
+    const cbHit = cbCandle.low <= t1
+    if (!bnCandle) return cbHit
+    const bnHit = bnCandle.low <= t1
+    if (cbHit && bnHit) log(`T1 CONFIRMED by both CB(L:${cbCandle.low}) & BN(L:${bnCandle.low}) <= ${t1}`)
+    if (cbHit && !bnHit) log(`T1 REJECTED — CB(L:${cbCandle.low}) hit but BN(L:${bnCandle.low}) did not reach ${t1}`)
+    return cbHit && bnHit
+  }
+}
+
+// Dual-source SL check with buffer
+export function isSlBreached(
+  sl: number, isBuy: boolean,
+  cbCandle: { high: number; low: number },
+  bnCandle: { high: number; low: number } | null | undefined,
+): boolean {
+  if (isBuy) {
+    const cbBreached = cbCandle.low <= sl * (1 - SL_BUFFER_PCT)
+    if (!bnCandle) return cbBreached
+    const bnBreached = bnCandle.low <= sl
+    return cbBreached && bnBreached
+  } else {
+    const cbBreached = cbCandle.high >= sl * (1 + SL_BUFFER_PCT)
+    if (!bnCandle) return cbBreached
+    const bnBreached = bnCandle.high >= sl
+    return cbBreached && bnBreached
+  }
+}
+
+/**
+ * Decides what happens to one triggered signal given the latest market data.
+ * Returns the trade_signals patch to apply (or null when nothing changes);
+ * callers own persistence and notifications.
+ */
+export function resolveSignal(
+  signal: OpenSignal,
+  market: ResolutionMarket,
+  log: Logger = console.log,
+): SignalResolution | null {
+  const { candle, latest, latestClose, confirm, now } = market
+  const isBuy = isBuySignal(signal.signal_type)
+  const entryMid = Number(signal.entry_price_mid)
+  const t1 = signal.target_1 ? Number(signal.target_1) : null
+  const sl = Number(signal.stop_loss)
+  const risk1r = signal.risk_1r ? Number(signal.risk_1r) : Math.abs(entryMid - sl)
+  const t1AlreadyHit = !!signal.t1_hit_at
+  let bestPrice = signal.best_price ? Number(signal.best_price) : entryMid
+  let runnerStop = signal.runner_stop ? Number(signal.runner_stop) : sl
+  const durationHours = Math.round((now.getTime() - new Date(signal.triggered_at).getTime()) / 3600000)
+  const pnlAt = (price: number) => isBuy
+    ? ((price - entryMid) / entryMid) * 100
+    : ((entryMid - price) / entryMid) * 100
+  // Best price reached the consider-profit zone (30% of entry→T1)
+  const reachedConsiderProfit = () => !!t1 && (isBuy
+    ? bestPrice >= entryMid + (t1 - entryMid) * 0.3
+    : bestPrice <= entryMid - (entryMid - t1) * 0.3)
+
+  // --- Expiry check (time-based) ---
+  // Runs before the candle guard so an expired signal always resolves even
+  // when fresh candle data is briefly unavailable (matches signal-monitor).
+  if (signal.expires_at && new Date(signal.expires_at) <= now) {
+    const exitPrice = latestClose
+
+    if (t1AlreadyHit) {
+      // Runner was still open — close at current price
+      const runnerPnl = pnlAt(exitPrice)
+      const t1Pnl = signal.t1_pnl_pct ? Number(signal.t1_pnl_pct) : 0
+      const totalPnl = (t1Pnl + runnerPnl) / 2
+      return {
+        patch: {
+          status: totalPnl > 0 ? "target_hit" : "expired",
+          outcome: totalPnl > 0 ? "win" : "loss",
+          outcome_pct: Math.round(totalPnl * 100) / 100,
+          runner_exit_price: exitPrice,
+          runner_pnl_pct: Math.round(runnerPnl * 100) / 100,
+          closed_at: now.toISOString(),
+          duration_hours: durationHours,
+        },
+        guard: "closed_at",
+        event: totalPnl > 0 ? "expired_win" : "expired_loss",
+        eventPrice: exitPrice,
+        kind: "expired",
+      }
+    }
+
+    const partial = reachedConsiderProfit()
+    return {
+      patch: {
+        status: "expired",
+        outcome: partial ? "partial" : "loss",
+        outcome_pct: Math.round(pnlAt(exitPrice) * 100) / 100,
+        closed_at: now.toISOString(),
+        duration_hours: durationHours,
+      },
+      guard: "closed_at",
+      event: partial ? "expired_partial" : "expired_loss",
+      eventPrice: exitPrice,
+      kind: "expired",
+    }
+  }
+
+  // Only candles after this signal triggered count (avoids pre-trigger highs/lows).
+  if (!candle) return null
+
+  if (!t1AlreadyHit) {
+    // Track best price (MFE) on every check, even before T1
+    bestPrice = isBuy ? Math.max(bestPrice, candle.high) : Math.min(bestPrice, candle.low)
+
+    // Phase 1: Full position — check SL then T1 (dual-source verification)
+    if (isSlBreached(sl, isBuy, candle, confirm)) {
+      const partial = reachedConsiderProfit()
+      return {
+        patch: {
+          status: "invalidated",
+          outcome: partial ? "partial" : "loss",
+          outcome_pct: Math.round(pnlAt(sl) * 100) / 100,
+          best_price: bestPrice,
+          closed_at: now.toISOString(),
+          duration_hours: durationHours,
+        },
+        guard: "closed_at",
+        event: partial ? "stop_loss_partial" : "stop_loss",
+        eventPrice: sl,
+        kind: "stop_loss",
+      }
+    }
+
+    if (t1 && isT1Hit(t1, isBuy, candle, confirm, log)) {
+      return {
+        patch: {
+          t1_hit_at: now.toISOString(),
+          t1_pnl_pct: Math.round(pnlAt(t1) * 100) / 100,
+          best_price: bestPrice,
+          runner_stop: entryMid,  // Move to breakeven
+        },
+        guard: "t1_hit_at",
+        event: "t1_hit",
+        eventPrice: t1,
+        kind: "t1_hit",
+      }
+    }
+
+    // No resolution — persist best price for MFE tracking
+    const storedBest = signal.best_price ? Number(signal.best_price) : (isBuy ? 0 : Infinity)
+    if (isBuy ? bestPrice > storedBest : bestPrice < storedBest) {
+      return { patch: { best_price: bestPrice }, guard: null, event: null, eventPrice: bestPrice, kind: "tracking" }
+    }
+    return null
+  }
+
+  // Phase 2: Runner — use latest candle only (not aggregated) to avoid stale data
+  if (isBuy) {
+    bestPrice = Math.max(bestPrice, latest.high)
+    runnerStop = Math.max(runnerStop, bestPrice - risk1r)
+  } else {
+    bestPrice = Math.min(bestPrice, latest.low)
+    runnerStop = Math.min(runnerStop, bestPrice + risk1r)
+  }
+
+  if (isBuy ? latest.low <= runnerStop : latest.high >= runnerStop) {
+    const runnerPnl = pnlAt(runnerStop)
+    const t1Pnl = signal.t1_pnl_pct ? Number(signal.t1_pnl_pct) : 0
+    const totalPnl = (t1Pnl + runnerPnl) / 2
+    return {
+      patch: {
+        status: totalPnl > 0 ? "target_hit" : "invalidated",
+        outcome: totalPnl > 0 ? "win" : "loss",
+        outcome_pct: Math.round(totalPnl * 100) / 100,
+        runner_exit_price: runnerStop,
+        runner_pnl_pct: Math.round(runnerPnl * 100) / 100,
+        best_price: bestPrice,
+        runner_stop: runnerStop,
+        closed_at: now.toISOString(),
+        duration_hours: durationHours,
+      },
+      guard: "closed_at",
+      event: totalPnl > 0 ? "runner_win" : "runner_loss",
+      eventPrice: runnerStop,
+      kind: "runner_stop",
+    }
+  }
+
+  // Update trailing values
+  return {
+    patch: { best_price: bestPrice, runner_stop: runnerStop },
+    guard: null,
+    event: null,
+    eventPrice: runnerStop,
+    kind: "tracking",
+  }
+}
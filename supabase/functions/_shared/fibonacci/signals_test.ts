@@ -0,0 +1,146 @@
+import assert from "node:assert/strict"
+import { FIXTURE_END, fixturePrice, loadFixture } from "../testdata/fixture.ts"
+import { MAX_SIGNALS_TOTAL, TIER_SCALP, TIER_SWING } from "./config.ts"
+import { clusterLevels, computeAllFibs, detectAllSwings } from "./levels.ts"
+import { evaluateEMAPullback, evaluateFibSignals, isSlBreached, isT1Hit, recordInBook, resolveSignal } from "./signals.ts"
+import type { OpenSignal, SignalBook } from "./signals.ts"
+
+const silent = () => {}
+const emptyBook = (): SignalBook => ({ open: [], recent: [], openTotal: 0 })
+
+// ─── Resolution ──────────────────────────────────────────────────────────────
+
+Deno.test("isT1Hit needs Binance to confirm when it has data", () => {
+  assert.equal(isT1Hit(110, true, { high: 111, low: 100 }, null, silent), true)
+  assert.equal(isT1Hit(110, true, { high: 111, low: 100 }, { high: 109, low: 100 }, silent), false)
+  assert.equal(isT1Hit(110, true, { high: 111, low: 100 }, { high: 110, low: 100 }, silent), true)
+  assert.equal(isT1Hit(90, false, { high: 100, low: 89 }, { high: 100, low: 91 }, silent), false)
+})
+
+Deno.test("isSlBreached buffers the Coinbase-only check", () => {
+  // Long stop at 100: Coinbase alone must trade 0.3% through it
+  assert.equal(isSlBreached(100, true, { high: 105, low: 99.8 }, null), false)
+  assert.equal(isSlBreached(100, true, { high: 105, low: 99.6 }, null), true)
+  assert.equal(isSlBreached(100, true, { high: 105, low: 99.6 }, { high: 105, low: 100.1 }), false)
+  assert.equal(isSlBreached(100, false, { high: 100.4, low: 95 }, { high: 100, low: 95 }), true)
+})
+
+const now = new Date("2026-05-02T00:00:00Z")
+const long: OpenSignal = {
+  signal_type: "buy",
+  entry_price_mid: 100,
+  target_1: 110,
+  stop_loss: 95,
+  risk_1r: 5,
+  t1_hit_at: null,
+  t1_pnl_pct: null,
+  best_price: null,
+  runner_stop: null,
+  expires_at: "2026-05-03T00:00:00Z",
+  triggered_at: "2026-05-01T00:00:00Z",
+}
+const bar = (low: number, high: number, close = (low + high) / 2) => ({ high, low, close })
+
+Deno.test("resolveSignal stops out a long, partial when it ran 30% toward T1", () => {
+  const loss = resolveSignal(long, { candle: bar(94, 101), latest: bar(94, 96), latestClose: 95, now }, silent)
+  assert.equal(loss?.kind, "stop_loss")
+  assert.equal(loss?.event, "stop_loss")
+  assert.equal(loss?.guard, "closed_at")
+  assert.deepEqual(loss?.patch, {
+    status: "invalidated", outcome: "loss", outcome_pct: -5, best_price: 101,
+    closed_at: now.toISOString(), duration_hours: 24,
+  })
+
+  const partial = resolveSignal(long, { candle: bar(94, 104), latest: bar(94, 96), latestClose: 95, now }, silent)
+  assert.equal(partial?.event, "stop_loss_partial")
+  assert.equal(partial?.patch.outcome, "partial")
+})
+
+Deno.test("resolveSignal books T1 and moves the runner to breakeven", () => {
+  const res = resolveSignal(long, { candle: bar(99, 111), latest: bar(108, 111), latestClose: 110, now }, silent)
+  assert.equal(res?.kind, "t1_hit")
+  assert.equal(res?.guard, "t1_hit_at")
+  assert.equal(res?.eventPrice, 110)
+  assert.deepEqual(res?.patch, { t1_hit_at: now.toISOString(), t1_pnl_pct: 10, best_price: 111, runner_stop: 100 })
+})
+
+Deno.test("resolveSignal trails the runner 1R behind the best price", () => {
+  const runner: OpenSignal = { ...long, t1_hit_at: "2026-05-01T12:00:00Z", t1_pnl_pct: 10, best_price: 112, runner_stop: 100 }
+  const trailing = resolveSignal(runner, { candle: bar(108, 115), latest: bar(111, 115), latestClose: 114, now }, silent)
+  assert.equal(trailing?.kind, "tracking")
+  assert.deepEqual(trailing?.patch, { best_price: 115, runner_stop: 110 })
+
+  const stopped = resolveSignal(runner, { candle: bar(105, 113), latest: bar(106, 113), latestClose: 107, now }, silent)
+  assert.equal(stopped?.kind, "runner_stop")
+  assert.equal(stopped?.event, "runner_win")
+  assert.equal(stopped?.patch.runner_exit_price, 108)
+  assert.equal(stopped?.patch.outcome_pct, 9)   // (10% + 8%) / 2
+})
+
+Deno.test("resolveSignal expires on time even without candles", () => {
+  const expired = { ...long, expires_at: "2026-05-01T12:00:00Z" }
+  const res = resolveSignal(expired, { candle: null, latest: bar(99, 101), latestClose: 98, now }, silent)
+  assert.equal(res?.kind, "expired")
+  assert.equal(res?.event, "expired_loss")
+  assert.equal(res?.patch.outcome_pct, -2)
+
+  assert.equal(resolveSignal(long, { candle: null, latest: bar(99, 101), latestClose: 100, now }, silent), null)
+})
+
+// ─── Evaluation (fixture) ────────────────────────────────────────────────────
+
+function fixtureInput() {
+  const candles = loadFixture()
+  const currentPrice = fixturePrice(candles)
+  const swings = detectAllSwings(candles)
+  const fibs = computeAllFibs(swings)
+  const zones = clusterLevels(fibs, currentPrice)
+  return { ticker: "BTC", candles, currentPrice, swings, fibs, zones, now: FIXTURE_END, log: silent }
+}
+
+Deno.test("fixture: swing tier drafts a short at the 81.5k resistance", () => {
+  const input = fixtureInput()
+  const { drafts, skipped, skipReasons } = evaluateFibSignals({ ...input, tier: TIER_SWING, book: emptyBook() })
+  assert.equal(skipped, 1)
+  assert.match(skipReasons[0], /already past entry zone/)
+  assert.equal(drafts.length, 1)
+
+  const [draft] = drafts
+  const { row } = draft
+  assert.equal(draft.isBuy, false)
+  assert.equal(draft.isStrong, false)
+  assert.equal(row.signal_type, "sell")
+  assert.equal(row.timeframe, "4h")
+  assert.equal(row.entry_price_mid.toFixed(2), "81506.61")
+  assert.equal(row.composite_score, 76)
+  assert.equal(row.counter_trend, true)
+  assert.equal(row.expires_at, "2026-05-04T00:00:00.000Z")
+  // Short geometry: stop above the zone, targets below entry
+  assert.ok(row.stop_loss > row.entry_zone_high)
+  assert.ok(row.target_1 !== null && row.target_1 < row.entry_price_mid)
+  assert.ok(row.target_2 !== null && row.target_2 < row.target_1)
+})
+
+Deno.test("fixture: the signal book blocks duplicates and the global cap", () => {
+  const input = fixtureInput()
+  const book = emptyBook()
+  const first = evaluateFibSignals({ ...input, tier: TIER_SCALP, book })
+  assert.equal(first.drafts.length, 1)
+  assert.equal(first.drafts[0].row.timeframe, "1h")
+
+  recordInBook(book, first.drafts[0].row, FIXTURE_END.toISOString())
+  assert.equal(book.openTotal, 1)
+  const again = evaluateFibSignals({ ...input, tier: TIER_SCALP, book })
+  assert.equal(again.drafts.length, 0)
+
+  const capped = evaluateFibSignals({
+    ...input, tier: TIER_SWING, book: { open: [], recent: [], openTotal: MAX_SIGNALS_TOTAL },
+  })
+  assert.equal(capped.drafts.length, 0)
+})
+
+Deno.test("fixture: no EMA pullback setup at the end of the series", () => {
+  const { ticker, candles, currentPrice, swings } = fixtureInput()
+  const result = evaluateEMAPullback({ ticker, candles, currentPrice, swings, book: emptyBook(), now: FIXTURE_END })
+  assert.equal(result.drafts.length, 0)
+})
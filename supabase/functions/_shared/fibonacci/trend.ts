@@ -0,0 +1,513 @@
+/**
+ * Trend, regime and volatility filters, plus EMA21 pullback setups.
+ */
+
+import { closesOf } from "../candles.ts"
+import type { Candle } from "../candles.ts"
+import { ema, emaSeries, sma } from "../indicators.ts"
+import { EMA_FAST_PERIOD, EMA_PULLBACK_PERIOD, EMA_PULLBACK_TOLERANCE, EMA_SLOPE_LOOKBACK, EMA_SLOW_PERIOD, REGIME_SLOPE_LOOKBACK, REGIME_SLOPE_MIN_PCT, VOL_REGIME_ELEVATED_THRESHOLD, VOL_REGIME_EXTREME_THRESHOLD } from "./config.ts"
+import type { FVGConfluenceResult, SwingPoint } from "./types.ts"
+import type { VolumeConfluenceResult } from "./confluence.ts"
+
+// ─── EMA Pullback Detection ─────────────────────────────────────────────────
+
+export interface EMAPullbackSetup {
+  ema21: number
+  ema50: number
+  emaSpreadPct: number
+  pullbackCandleIdx: number
+  bounceCandle: Candle
+  pullbackDepthPct: number
+  volumeOnBounce: boolean
+  isBuy: boolean
+}
+
+export function detectEMAPullback(candles4h: Candle[], isBuy: boolean): EMAPullbackSetup | null {
+  if (candles4h.length < EMA_SLOW_PERIOD + 10) return null
+
+  const ema21Arr = emaSeries(closesOf(candles4h), EMA_PULLBACK_PERIOD)
+  const ema50Arr = emaSeries(closesOf(candles4h), EMA_SLOW_PERIOD)
+  const lastIdx = candles4h.length - 1
+  const ema21 = ema21Arr[lastIdx]
+  const ema50 = ema50Arr[lastIdx]
+  if (isNaN(ema21) || isNaN(ema50)) return null
+
+  // Trend check: EMAs must be stacked with > 1% spread
+  const spread = Math.abs(ema21 - ema50) / ema50 * 100
+  if (spread < 1.0) return null
+  if (isBuy && ema21 <= ema50) return null
+  if (!isBuy && ema21 >= ema50) return null
+
+  // Look at last 6 candles for a touch of EMA21
+  const searchStart = Math.max(0, lastIdx - 5)
+  let touchIdx = -1
+  for (let i = searchStart; i <= lastIdx; i++) {
+    const e21 = ema21Arr[i]
+    if (isNaN(e21)) continue
+    if (isBuy) {
+      // Price dipped to within 0.5% of EMA21 (or below it)
+      if (candles4h[i].low <= e21 * 1.005) { touchIdx = i; break }
+    } else {
+      if (candles4h[i].high >= e21 * 0.995) { touchIdx = i; break }
+    }
+  }
+  if (touchIdx < 0) return null
+
+  // After the touch, find a confirming candle (bullish close above EMA21 for longs)
+  // Must be one of the last 2 candles (fresh setup)
+  let confirmCandle: Candle | null = null
+  let confirmIdx = -1
+  for (let i = Math.max(touchIdx, lastIdx - 1); i <= lastIdx; i++) {
+    const e21 = ema21Arr[i]
+    if (isNaN(e21)) continue
+    if (isBuy && candles4h[i].close > candles4h[i].open && candles4h[i].close > e21) {
+      confirmCandle = candles4h[i]
+      confirmIdx = i
+      break
+    }
+    if (!isBuy && candles4h[i].close < candles4h[i].open && candles4h[i].close < e21) {
+      confirmCandle = candles4h[i]
+      confirmIdx = i
+      break
+    }
+  }
+  if (!confirmCandle || confirmIdx < lastIdx - 1) return null
+
+  // Pullback depth: how close price got to EMA21
+  const touchE21 = ema21Arr[touchIdx]
+  const depthPct = isBuy
+    ? (touchE21 - candles4h[touchIdx].low) / touchE21 * 100
+    : (candles4h[touchIdx].high - touchE21) / touchE21 * 100
+
+  // Volume on bounce: check if confirm candle has above-average volume
+  const volWindow = candles4h.slice(Math.max(0, confirmIdx - 20), confirmIdx)
+  const avgVol = volWindow.length > 0 ? volWindow.reduce((s, c) => s + c.volume, 0) / volWindow.length : 0
+  const volumeOnBounce = avgVol > 0 && confirmCandle.volume >= 1.15 * avgVol
+
+  return { ema21, ema50, emaSpreadPct: spread, pullbackCandleIdx: touchIdx, bounceCandle: confirmCandle, pullbackDepthPct: depthPct, volumeOnBounce, isBuy }
+}
+
+export function computeEMAPullbackTargets(
+  setup: EMAPullbackSetup,
+  currentPrice: number,
+  candles4h: Candle[],
+  swings: Record<string, SwingPoint[]>,
+): { target1: number; target2: number; stopLoss: number } | null {
+  const { ema50, isBuy } = setup
+
+  // Stop loss: below EMA50 with 0.5% buffer (longs) or above (shorts)
+  const emaStop = isBuy ? ema50 * 0.995 : ema50 * 1.005
+
+  // ATR-based stop: 1.5x ATR from current price
+  let atrStop = emaStop
+  if (candles4h.length >= 14) {
+    let atrSum = 0
+    for (let i = candles4h.length - 14; i < candles4h.length; i++) {
+      const prevClose = i > 0 ? candles4h[i - 1].close : candles4h[i].open
+      const tr = Math.max(
+        candles4h[i].high - candles4h[i].low,
+        Math.abs(candles4h[i].high - prevClose),
+        Math.abs(candles4h[i].low - prevClose)
+      )
+      atrSum += tr
+    }
+    const atr = atrSum / 14
+    atrStop = isBuy ? currentPrice - 1.5 * atr : currentPrice + 1.5 * atr
+  }
+
+  // Use whichever stop is tighter (closer to entry)
+  const stopLoss = isBuy ? Math.max(emaStop, atrStop) : Math.min(emaStop, atrStop)
+  const riskDist = Math.abs(currentPrice - stopLoss)
+  if (riskDist <= 0) return null
+
+  // Target 1: recent swing high/low or 1.5R
+  let target1 = isBuy ? currentPrice + 1.5 * riskDist : currentPrice - 1.5 * riskDist
+  const swingPoints = [...(swings["4h"] ?? []), ...(swings["1d"] ?? [])]
+  if (isBuy) {
+    const highs = swingPoints.filter(s => s.type === "high" && s.price > currentPrice).sort((a, b) => a.price - b.price)
+    if (highs.length > 0 && Math.abs(highs[0].price - currentPrice) > 1.5 * riskDist) {
+      target1 = highs[0].price
+    }
+  } else {
+    const lows = swingPoints.filter(s => s.type === "low" && s.price < currentPrice).sort((a, b) => b.price - a.price)
+    if (lows.length > 0 && Math.abs(lows[0].price - currentPrice) > 1.5 * riskDist) {
+      target1 = lows[0].price
+    }
+  }
+
+  // Target 2: 2R extension
+  const target2 = isBuy ? currentPrice + 2.0 * riskDist : currentPrice - 2.0 * riskDist
+
+  return { target1, target2, stopLoss }
+}
+
+export function computeEMAPullbackScore(params: {
+  setup: EMAPullbackSetup
+  candles4h: Candle[]
+  volumeConfluence: VolumeConfluenceResult
+  fvgConfluence: FVGConfluenceResult
+  rrRatio: number
+  fearGreedIndex?: number
+  btcRiskScore?: number
+}): number {
+  const { setup, rrRatio, fearGreedIndex } = params
+  let score = 0
+
+  // EMA Alignment Strength (0-30)
+  if (setup.emaSpreadPct > 3.0) score += 30
+  else if (setup.emaSpreadPct > 2.0) score += 20
+  else score += 12
+  // Slope bonus
+  const candles = params.candles4h
+  if (candles.length >= EMA_SLOW_PERIOD + 6) {
+    const emaNow = ema(closesOf(candles), EMA_SLOW_PERIOD)
+    const emaPrev = ema(closesOf(candles.slice(0, -6)), EMA_SLOW_PERIOD)
+    if (emaNow && emaPrev) {
+      const slopePct = Math.abs(emaNow - emaPrev) / emaPrev * 100
+      if (slopePct > 1.0) score += 10
+      else if (slopePct > 0.5) score += 5
+    }
+  }
+  score = Math.min(score, 30)
+
+  // Pullback Quality (0-20)
+  if (setup.pullbackDepthPct <= 0.3) score += 10  // Clean EMA21 touch
+  else if (setup.pullbackDepthPct <= 1.0) score += 6
+  const bounceBody = Math.abs(setup.bounceCandle.close - setup.bounceCandle.open)
+  const bounceRange = setup.bounceCandle.high - setup.bounceCandle.low
+  if (bounceRange > 0 && bounceBody / bounceRange >= 0.6) score += 5  // Strong bounce candle
+  if (setup.volumeOnBounce) score += 5
+
+  // R:R (0-15) — same as fib
+  if (rrRatio >= 3.0) score += 15
+  else if (rrRatio >= 2.0) score += 10
+  else score += 5
+
+  // FVG Confluence (0-10)
+  if (params.fvgConfluence.has_fvg_confluence) {
+    score += params.fvgConfluence.score_bonus
+  }
+
+  // Macro/Context (0-15) — same as fib but always with-trend
+  let macroScore = 10
+  if (fearGreedIndex !== undefined) {
+    if (setup.isBuy && fearGreedIndex < 25) macroScore += 3  // Extreme fear, bullish
+    if (!setup.isBuy && fearGreedIndex > 75) macroScore += 3  // Extreme greed, bearish
+  }
+  score += Math.min(macroScore, 15)
+
+  // Volume Confluence (0-10)
+  if (params.volumeConfluence.has_volume_confluence) {
+    score += Math.min(params.volumeConfluence.volume_node_count * 3, 10)
+  }
+
+  return Math.max(0, Math.min(100, score))
+}
+
+export function checkTrendAlignment(candles4h: Candle[], isBuy: boolean): boolean {
+  if (candles4h.length < EMA_SLOW_PERIOD + EMA_SLOPE_LOOKBACK) return true
+
+  const emaFast = ema(closesOf(candles4h), EMA_FAST_PERIOD)
+  const emaSlow = ema(closesOf(candles4h), EMA_SLOW_PERIOD)
+  const emaSlowPrev = ema(closesOf(candles4h.slice(0, -EMA_SLOPE_LOOKBACK)), EMA_SLOW_PERIOD)
+
+  if (emaFast === null || emaSlow === null || emaSlowPrev === null) return true
+
+  const price = candles4h[candles4h.length - 1].close
+  const emaSlopeUp = emaSlow > emaSlowPrev
+  const emaSlopeDown = emaSlow < emaSlowPrev
+
+  if (isBuy) {
+    const trendOk = emaFast > emaSlow
+    const pullbackOk = emaSlopeUp && Math.abs(price - emaSlow) / emaSlow < EMA_PULLBACK_TOLERANCE
+    return trendOk || pullbackOk
+  } else {
+    const trendOk = emaFast < emaSlow
+    const pullbackOk = emaSlopeDown && Math.abs(price - emaSlow) / emaSlow < EMA_PULLBACK_TOLERANCE
+    return trendOk || pullbackOk
+  }
+}
+
+/**
+ * Daily-timeframe trend guard — blocks shorts in clear daily uptrends.
+ * Asymmetric by design: longs are NEVER blocked because this strategy's
+ * best edge is buying support during pullbacks (even in "downtrends").
+ * Returns true if the signal direction is allowed.
+ */
+export function checkDailyTrendGuard(dailyCandles: Candle[], isBuy: boolean): boolean {
+  // Never block longs — buying pullbacks is the strategy's core edge
+  if (isBuy) return true
+
+  if (dailyCandles.length < EMA_SLOW_PERIOD + 5) return true  // Not enough data, allow
+
+  const emaFast = ema(closesOf(dailyCandles), EMA_FAST_PERIOD)
+  const emaSlow = ema(closesOf(dailyCandles), EMA_SLOW_PERIOD)
+  const emaSlowPrev = ema(closesOf(dailyCandles.slice(0, -5)), EMA_SLOW_PERIOD)  // 5-day slope
+
+  if (emaFast === null || emaSlow === null || emaSlowPrev === null) return true
+
+  const spread = Math.abs(emaFast - emaSlow) / emaSlow * 100
+  const slopeUp = emaSlow > emaSlowPrev
+
+  // Block shorts when daily trend is clearly bullish: EMA20 > EMA50, slope rising, spread > 1%
+  if (emaFast > emaSlow && slopeUp && spread > 1.0) {
+    return false
+  }
+
+  return true
+}
+
+// ─── Choppiness Detector ─────────────────────────────────────────────────────
+
+export interface MarketRegime {
+  isChoppy: boolean
+  emaSpreadPct: number
+  crossoverCount: number
+  priceWhipsaws: number
+}
+
+/**
+ * Detects choppy/ranging market conditions on 4H timeframe.
+ * Choppy = EMAs close together, frequent crossovers, price whipsawing around EMA20.
+ * Returns regime info used to raise signal quality thresholds.
+ */
+export function detectMarketRegime(candles4h: Candle[]): MarketRegime {
+  const regime: MarketRegime = { isChoppy: false, emaSpreadPct: 0, crossoverCount: 0, priceWhipsaws: 0 }
+
+  if (candles4h.length < EMA_SLOW_PERIOD + 20) return regime
+
+  // Compute EMA series for crossover detection
+  const closes = closesOf(candles4h)
+  const ema20Series = emaSeries(closes, EMA_FAST_PERIOD)
+  const ema50Series = emaSeries(closes, EMA_SLOW_PERIOD)
+
+  // Walk forward from EMA_SLOW_PERIOD, tracking last 20 candles (~3.3 days)
+  const lookback = 20
+  const recentEma20Above: boolean[] = []
+  const recentPriceAboveEma20: boolean[] = []
+
+  for (let i = EMA_SLOW_PERIOD; i < closes.length; i++) {
+    recentEma20Above.push(ema20Series[i] > ema50Series[i])
+    recentPriceAboveEma20.push(closes[i] > ema20Series[i])
+
+    // Keep only last N
+    if (recentEma20Above.length > lookback) recentEma20Above.shift()
+    if (recentPriceAboveEma20.length > lookback) recentPriceAboveEma20.shift()
+  }
+  const ema20 = ema20Series[closes.length - 1]
+  const ema50 = ema50Series[closes.length - 1]
+
+  // Current EMA spread
+  regime.emaSpreadPct = Math.abs(ema20 - ema50) / ema50 * 100
+
+  // Count EMA20/EMA50 crossovers in lookback
+  for (let i = 1; i < recentEma20Above.length; i++) {
+    if (recentEma20Above[i] !== recentEma20Above[i - 1]) regime.crossoverCount++
+  }
+
+  // Count price/EMA20 whipsaws in lookback
+  for (let i = 1; i < recentPriceAboveEma20.length; i++) {
+    if (recentPriceAboveEma20[i] !== recentPriceAboveEma20[i - 1]) regime.priceWhipsaws++
+  }
+
+  // Choppy if: EMAs tight AND (crossovers or whipsaws are frequent)
+  const tightSpread = regime.emaSpreadPct < 1.5
+  const frequentCrossovers = regime.crossoverCount >= 2
+  const frequentWhipsaws = regime.priceWhipsaws >= 6
+  regime.isChoppy = tightSpread && (frequentCrossovers || frequentWhipsaws)
+
+  return regime
+}
+
+/**
+ * EMA Slope Regime Filter — blocks signals when the 50 EMA has no clear directional slope.
+ * Returns { allowed: boolean, slope: number } where slope is the % change over lookback.
+ * For longs: slope must be positive. For shorts: slope must be negative.
+ */
+export function checkEMASlopeRegime(candles4h: Candle[], isBuy: boolean): { allowed: boolean; slopePct: number } {
+  if (candles4h.length < EMA_SLOW_PERIOD + REGIME_SLOPE_LOOKBACK) {
+    return { allowed: true, slopePct: 0 }  // Not enough data — allow
+  }
+
+  // EMA50 now vs REGIME_SLOPE_LOOKBACK candles ago
+  const closes = closesOf(candles4h)
+  const emaNow = ema(closes, EMA_SLOW_PERIOD)!
+  const emaPast = ema(closes.slice(0, -REGIME_SLOPE_LOOKBACK), EMA_SLOW_PERIOD)!
+
+  const slopePct = ((emaNow - emaPast) / emaPast) * 100
+
+  // Slope must have minimum magnitude
+  if (Math.abs(slopePct) < REGIME_SLOPE_MIN_PCT) {
+    return { allowed: false, slopePct }
+  }
+
+  // Slope direction must match trade direction
+  if (isBuy && slopePct < 0) return { allowed: false, slopePct }
+  if (!isBuy && slopePct > 0) return { allowed: false, slopePct }
+
+  return { allowed: true, slopePct }
+}
+
+// ─── Range Compression Detection ────────────────────────────────────────────
+
+export interface RangeCompression {
+  isCompressed: boolean
+  rangeRatio: number      // 24h range / 14d ATR (< 0.4 = compressed)
+  volumeRatio: number     // 24h avg vol / 14d avg vol (< 0.5 = volume dried up)
+  range24h: number
+  atr14d: number
+}
+
+/**
+ * Detects when an asset is trading in an unusually tight range with low volume.
+ * Compressed markets = low conviction — signals are more likely to be false breakouts.
+ * Uses 4H candles: last 6 = 24h window, last 84 = 14-day window.
+ */
+export function detectRangeCompression(candles4h: Candle[]): RangeCompression {
+  const result: RangeCompression = { isCompressed: false, rangeRatio: 1, volumeRatio: 1, range24h: 0, atr14d: 0 }
+
+  // Need at least 84 candles (14 days of 4H data)
+  if (candles4h.length < 84) return result
+
+  // Last 6 candles = 24h window
+  const recent6 = candles4h.slice(-6)
+  const range24h = Math.max(...recent6.map(c => c.high)) - Math.min(...recent6.map(c => c.low))
+  result.range24h = range24h
+
+  // 14-day ATR from last 84 candles (true range per bar, averaged, × 6 for daily equivalent)
+  const last84 = candles4h.slice(-84)
+  let trSum = 0
+  for (let i = 1; i < last84.length; i++) {
+    const tr = Math.max(
+      last84[i].high - last84[i].low,
+      Math.abs(last84[i].high - last84[i - 1].close),
+      Math.abs(last84[i].low - last84[i - 1].close)
+    )
+    trSum += tr
+  }
+  const atrPer4h = trSum / (last84.length - 1)
+  const atr14d = atrPer4h * 6 // Daily ATR equivalent
+  result.atr14d = atr14d
+
+  // Range ratio: how much of the normal daily range the last 24h covers
+  result.rangeRatio = atr14d > 0 ? range24h / atr14d : 1
+
+  // Volume comparison (only if volume data exists)
+  const hasVolume = recent6.some(c => (c.volume ?? 0) > 0)
+  if (hasVolume) {
+    const vol24h = recent6.reduce((s, c) => s + (c.volume ?? 0), 0) / recent6.length
+    const vol14d = last84.reduce((s, c) => s + (c.volume ?? 0), 0) / last84.length
+    result.volumeRatio = vol14d > 0 ? vol24h / vol14d : 1
+  }
+
+  // Compressed = tight range. Volume is secondary confirmation.
+  result.isCompressed = result.rangeRatio < 0.4 || (result.rangeRatio < 0.55 && result.volumeRatio < 0.5)
+
+  return result
+}
+
+// ─── Volatility Regime Detection ────────────────────────────────────────────
+
+export interface VolatilityRegime {
+  regime: "normal" | "elevated" | "extreme"
+  suggestedRiskPct: number
+  atrRatio: number
+}
+
+export function computeVolatilityRegime(candles4h: Candle[]): VolatilityRegime {
+  if (candles4h.length < 84) return { regime: "normal", suggestedRiskPct: 2.0, atrRatio: 1.0 }
+
+  // Current ATR: last 6 candles (24h)
+  const recent = candles4h.slice(-6)
+  let currentTR = 0
+  for (let i = 1; i < recent.length; i++) {
+    currentTR += Math.max(
+      recent[i].high - recent[i].low,
+      Math.abs(recent[i].high - recent[i - 1].close),
+      Math.abs(recent[i].low - recent[i - 1].close)
+    )
+  }
+  const currentATR = currentTR / (recent.length - 1)
+
+  // Average ATR: last 84 candles (14 days)
+  const last84 = candles4h.slice(-84)
+  let avgTR = 0
+  for (let i = 1; i < last84.length; i++) {
+    avgTR += Math.max(
+      last84[i].high - last84[i].low,
+      Math.abs(last84[i].high - last84[i - 1].close),
+      Math.abs(last84[i].low - last84[i - 1].close)
+    )
+  }
+  const avgATR = avgTR / (last84.length - 1)
+  const atrRatio = avgATR > 0 ? currentATR / avgATR : 1.0
+
+  if (atrRatio >= VOL_REGIME_EXTREME_THRESHOLD) {
+    return { regime: "extreme", suggestedRiskPct: 0.5, atrRatio }
+  }
+  if (atrRatio >= VOL_REGIME_ELEVATED_THRESHOLD) {
+    return { regime: "elevated", suggestedRiskPct: 1.0, atrRatio }
+  }
+  return { regime: "normal", suggestedRiskPct: 2.0, atrRatio }
+}
+
+// ─── Momentum Filter ─────────────────────────────────────────────────────────
+
+/**
+ * Blocks shorts when price has rallied strongly in the last N daily candles (bounce in progress).
+ * Blocks longs when price has dropped sharply in the last N daily candles (selloff in progress).
+ * Prevents entering against active short-term momentum even when the larger trend "agrees".
+ */
+export function checkMomentumFilter(dailyCandles: Candle[], isBuy: boolean): boolean {
+  const lookback = 5   // 5 daily candles
+  const threshold = 5  // 5% move
+
+  if (dailyCandles.length < lookback + 1) return true  // Not enough data, allow
+
+  const current = dailyCandles[dailyCandles.length - 1].close
+  const past = dailyCandles[dailyCandles.length - 1 - lookback].close
+  const changePct = ((current - past) / past) * 100
+
+  // Block shorts during strong bounce (price up 5%+ in 5 days)
+  if (!isBuy && changePct >= threshold) return false
+
+  // Block longs during sharp selloff (price down 5%+ in 5 days)
+  if (isBuy && changePct <= -threshold) return false
+
+  return true
+}
+
+// ─── Bull Market Support Band ────────────────────────────────────────────────
+
+export const BMSB_SMA_PERIOD = 140  // 20 weeks × 7 days
+export const BMSB_EMA_PERIOD = 147  // 21 weeks × 7 days
+
+export function checkBMSB(dailyCandles: Candle[], currentPrice: number, isBuy: boolean): boolean {
+  /**
+   * Bull Market Support Band: 20W SMA + 21W EMA
+   * Returns true if signal direction CONFLICTS with the macro regime (= counter-trend).
+   *
+   * Price ABOVE both → bullish → shorts are counter-trend
+   * Price BELOW both → bearish → longs are counter-trend
+   * Price BETWEEN → neutral → nothing is counter-trend
+   */
+  if (dailyCandles.length < BMSB_EMA_PERIOD) return false  // Not enough data, assume not counter-trend
+
+  const sma20w = sma(closesOf(dailyCandles), BMSB_SMA_PERIOD)
+  const ema21w = ema(closesOf(dailyCandles), BMSB_EMA_PERIOD)
+
+  if (sma20w === null || ema21w === null) return false
+
+  const bandTop = Math.max(sma20w, ema21w)
+  const bandBottom = Math.min(sma20w, ema21w)
+
+  if (currentPrice > bandTop) {
+    // Bullish regime — shorts are counter-trend
+    return !isBuy
+  } else if (currentPrice < bandBottom) {
+    // Bearish regime — longs are counter-trend
+    return isBuy
+  }
+  // In the band — neutral
+  return false
+}
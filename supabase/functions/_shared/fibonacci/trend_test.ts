@@ -0,0 +1,63 @@
+import assert from "node:assert/strict"
+import type { Candle } from "../candles.ts"
+import { loadFixture } from "../testdata/fixture.ts"
+import { detectFairValueGaps } from "./confluence.ts"
+import { detectAllSwings } from "./levels.ts"
+import { detectChartPattern } from "./patterns.ts"
+import { checkTrendAlignment, computeVolatilityRegime, detectMarketRegime } from "./trend.ts"
+
+function trending(n: number, step: number): Candle[] {
+  return Array.from({ length: n }, (_, i) => {
+    const close = 100 + i * step
+    return {
+      open_time: new Date(Date.UTC(2026, 0, 1, i * 4)).toISOString(),
+      open: close - step / 2,
+      high: close + 1,
+      low: close - 1 - step / 2,
+      close,
+      volume: 10,
+    }
+  })
+}
+
+Deno.test("checkTrendAlignment follows the EMA 20/50 stack", () => {
+  const up = trending(80, 1)
+  assert.equal(checkTrendAlignment(up, true), true)
+  assert.equal(checkTrendAlignment(up, false), false)
+  const down = trending(80, -1)
+  assert.equal(checkTrendAlignment(down, false), true)
+  assert.equal(checkTrendAlignment(down, true), false)
+})
+
+Deno.test("fixture: regime and volatility readings are stable", () => {
+  const candles = loadFixture()
+  const regime = detectMarketRegime(candles["4h"])
+  assert.equal(regime.isChoppy, false)
+  assert.equal(regime.crossoverCount, 0)
+  assert.equal(regime.priceWhipsaws, 4)
+  assert.equal(regime.emaSpreadPct.toFixed(4), "1.0995")
+
+  const vol = computeVolatilityRegime(candles["4h"])
+  assert.equal(vol.regime, "normal")
+  assert.equal(vol.suggestedRiskPct, 2)
+  assert.equal(vol.atrRatio.toFixed(4), "1.0712")
+
+  assert.equal(checkTrendAlignment(candles["4h"], true), false)
+  assert.equal(checkTrendAlignment(candles["4h"], false), true)
+})
+
+Deno.test("fixture: chart pattern and fair value gaps", () => {
+  const candles = loadFixture()
+  const pattern = detectChartPattern(candles, detectAllSwings(candles))
+  assert.ok(pattern)
+  assert.equal(pattern.name, "Bearish Head and Shoulders")
+  assert.equal(pattern.timeframe, "1d")
+  assert.equal(pattern.confidence, 75)
+
+  const fvgs = detectFairValueGaps(candles)
+  assert.equal(fvgs.length, 13)
+  for (const gap of fvgs) {
+    assert.ok(gap.high > gap.low)
+    assert.ok(gap.sizePct > 0)
+  }
+})
@@ -0,0 +1,57 @@
+/**
+ * Shapes produced by level detection and consumed by scoring/evaluation.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface SwingPoint {
+  type: "high" | "low"
+  price: number
+  candle_time: string
+  reversal_pct: number
+}
+
+export interface FibLevel {
+  timeframe: string
+  ratio: number
+  price: number
+  direction: "from_high" | "from_low"
+}
+
+export interface ConfluenceZone {
+  low: number
+  high: number
+  mid: number
+  strength: number
+  zone_type: "support" | "resistance"
+  tf_count: number
+  levels: FibLevel[]
+}
+
+export interface ChartPattern {
+  name: string           // e.g., "Bullish Double Bottom", "Bearish Head and Shoulders"
+  type: "reversal" | "continuation"
+  bias: "bullish" | "bearish"
+  timeframe: "4h" | "1d"
+  confidence: number     // 0-100
+  description: string    // 1-2 sentence description
+  neckline?: number      // Key breakout level if applicable
+  target?: number        // Measured move target
+}
+
+export interface FairValueGap {
+  type: "bullish" | "bearish"
+  timeframe: string
+  high: number           // Top of the gap
+  low: number            // Bottom of the gap
+  sizePct: number        // Gap size as % of price
+  candle_time: string    // When the gap was created (middle candle)
+}
+
+export interface FVGConfluenceResult {
+  has_fvg_confluence: boolean
+  best_timeframe: string | null
+  fvg_type: "bullish" | "bearish" | null
+  score_bonus: number    // 0, 4, 6, or 8
+  gap_size_pct: number
+}
@@ -0,0 +1,115 @@
+/**
+ * Moving averages and oscillators shared by every edge function that computes
+ * indicators, so the math can't drift between them. All inputs are
+ * oldest-first value series (use closesOf() for candles).
+ */
+
+/** Simple moving average series — NaN until `period` values are available. */
+export function smaSeries(values: number[], period: number): number[] {
+  const result: number[] = []
+  for (let i = 0; i < values.length; i++) {
+    if (i < period - 1) {
+      result.push(NaN)
+      continue
+    }
+    let sum = 0
+    for (let j = i - period + 1; j <= i; j++) sum += values[j]
+    result.push(sum / period)
+  }
+  return result
+}
+
+/** Latest simple moving average, or null with fewer than `period` values. */
+export function sma(values: number[], period: number): number | null {
+  if (values.length < period) return null
+  let sum = 0
+  for (let i = values.length - period; i < values.length; i++) sum += values[i]
+  return sum / period
+}
+
+/**
+ * How an EMA series starts:
+ *   "sma"   — first value is the SMA of the first `period` values; earlier
+ *             entries are NaN (the fibonacci pipeline's convention).
+ *   "first" — starts at values[0] and is defined from the first bar
+ *             (positioning's convention, usable on short histories).
+ */
+export type EmaSeed = "sma" | "first"
+
+export function emaSeries(values: number[], period: number, seed: EmaSeed = "sma"): number[] {
+  const result: number[] = new Array(values.length).fill(NaN)
+  const multiplier = 2 / (period + 1)
+
+  if (seed === "first") {
+    if (values.length === 0) return result
+    let ema = values[0]
+    result[0] = ema
+    for (let i = 1; i < values.length; i++) {
+      ema = (values[i] - ema) * multiplier + ema
+      result[i] = ema
+    }
+    return result
+  }
+
+  if (values.length < period) return result
+  let ema = 0
+  for (let i = 0; i < period; i++) ema += values[i]
+  ema /= period
+  result[period - 1] = ema
+  for (let i = period; i < values.length; i++) {
+    ema = (values[i] - ema) * multiplier + ema
+    result[i] = ema
+  }
+  return result
+}
+
+/** Latest EMA value, or null when the series is too short for the seed. */
+export function ema(values: number[], period: number, seed: EmaSeed = "sma"): number | null {
+  const series = emaSeries(values, period, seed)
+  const last = series[series.length - 1]
+  return last === undefined || isNaN(last) ? null : last
+}
+
+/** Wilder-smoothed RSI over the whole series, or null without period + 1 values. */
+export function rsi(values: number[], period = 14): number | null {
+  if (values.length < period + 1) return null
+
+  let avgGain = 0
+  let avgLoss = 0
+
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1]
+    if (change > 0) avgGain += change
+    else avgLoss += Math.abs(change)
+  }
+  avgGain /= period
+  avgLoss /= period
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1]
+    const gain = change > 0 ? change : 0
+    const loss = change < 0 ? Math.abs(change) : 0
+    avgGain = (avgGain * (period - 1) + gain) / period
+    avgLoss = (avgLoss * (period - 1) + loss) / period
+  }
+
+  if (avgLoss === 0) return 100
+  const rs = avgGain / avgLoss
+  return 100 - 100 / (1 + rs)
+}
+
+/** % change over the last `bars` values — 0 when history is too short. */
+export function percentReturn(values: number[], bars: number): number {
+  if (values.length < bars + 1) return 0
+  const recent = values[values.length - 1]
+  const past = values[values.length - 1 - bars]
+  return past > 0 ? ((recent - past) / past) * 100 : 0
+}
+
+export function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value))
+}
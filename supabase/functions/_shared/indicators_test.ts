@@ -0,0 +1,66 @@
+import assert from "node:assert/strict"
+import { aggregateAfter, closesOf } from "./candles.ts"
+import type { Candle } from "./candles.ts"
+import { clamp, ema, emaSeries, percentReturn, round2, rsi, sma, smaSeries } from "./indicators.ts"
+
+const near = (actual: number | null, expected: number, eps = 1e-9) =>
+  assert.ok(actual !== null && Math.abs(actual - expected) < eps, `${actual} ≠ ${expected}`)
+
+Deno.test("smaSeries pads with NaN until the window fills", () => {
+  const series = smaSeries([1, 2, 3, 4, 5], 3)
+  assert.ok(isNaN(series[0]) && isNaN(series[1]))
+  assert.deepEqual(series.slice(2), [2, 3, 4])
+})
+
+Deno.test("sma returns the latest window or null", () => {
+  assert.equal(sma([1, 2, 3, 4, 5], 2), 4.5)
+  assert.equal(sma([1, 2], 3), null)
+})
+
+Deno.test("emaSeries seeds from the SMA by default", () => {
+  // seed = avg(1,2,3) = 2, multiplier 0.5 → 3, 4
+  const series = emaSeries([1, 2, 3, 4, 5], 3)
+  assert.ok(isNaN(series[0]) && isNaN(series[1]))
+  assert.deepEqual(series.slice(2), [2, 3, 4])
+  assert.equal(ema([1, 2, 3, 4, 5], 3), 4)
+  assert.equal(ema([1, 2], 3), null)
+})
+
+Deno.test("emaSeries 'first' seed is defined from the first bar", () => {
+  assert.deepEqual(emaSeries([2, 4, 6], 3, "first"), [2, 3, 4.5])
+  assert.equal(ema([2], 3, "first"), 2)
+  assert.deepEqual(emaSeries([], 3, "first"), [])
+})
+
+Deno.test("rsi uses Wilder smoothing", () => {
+  // changes +1, -1, +2 → avgGain 1.25, avgLoss 0.25 → RS 5
+  near(rsi([1, 2, 1, 3], 2), 100 - 100 / 6)
+  assert.equal(rsi([1, 2, 3, 4], 2), 100)
+  assert.equal(rsi([1, 2], 2), null)
+})
+
+Deno.test("percentReturn measures change over N bars", () => {
+  near(percentReturn([100, 110, 121], 1), 10)
+  near(percentReturn([100, 110, 121], 2), 21)
+  assert.equal(percentReturn([100, 110], 2), 0)
+  assert.equal(percentReturn([0, 110], 1), 0)
+})
+
+Deno.test("round2 and clamp", () => {
+  assert.equal(round2(2.346), 2.35)
+  assert.equal(clamp(150, -100, 100), 100)
+  assert.equal(clamp(-150, -100, 100), -100)
+  assert.equal(clamp(5, -100, 100), 5)
+})
+
+Deno.test("aggregateAfter only folds candles opened at or after the cutoff", () => {
+  const candles: Candle[] = [
+    { open_time: "2026-05-01T00:00:00.000Z", open: 10, high: 20, low: 5, close: 12, volume: 1 },
+    { open_time: "2026-05-01T01:00:00.000Z", open: 12, high: 14, low: 11, close: 13, volume: 1 },
+    { open_time: "2026-05-01T02:00:00.000Z", open: 13, high: 15, low: 9, close: 14, volume: 1 },
+  ]
+  assert.deepEqual(aggregateAfter(candles, "2026-05-01T00:30:00Z"), { high: 15, low: 9, close: 14 })
+  assert.deepEqual(aggregateAfter(candles, "2026-05-01T00:00:00Z"), { high: 20, low: 5, close: 14 })
+  assert.equal(aggregateAfter(candles, "2026-05-01T02:30:00Z"), null)
+  assert.deepEqual(closesOf(candles), [12, 13, 14])
+})
@@ -0,0 +1,911 @@
+import { assetsIn } from "./assets.ts"
+
+/**
+ * Model portfolio engine — the Core / Edge / Alpha allocation rules as pure
+ * functions of one day's market state and a set of strategy parameters.
+ *
+ * compute-model-portfolios runs it once a day on live signals with
+ * DEFAULT_PARAMS; simulate-model-portfolio replays it over
+ * positioning_signal_history and model_portfolio_risk_history with
+ * alternate parameters, so a floor, cap or blend rate can be tried on past
+ * data before it is deployed.
+ *
+ * Per day and strategy: target from the strategy rules → durable floors →
+ * exposure caps → gradual blending toward the target (Edge, Alpha) →
+ * normalise. A rebalance happens when the result differs from yesterday's
+ * recorded allocation (0.1% steps); otherwise positions drift with prices.
+ */
+
+export type Strategy = "core" | "edge" | "alpha"
+export const STRATEGIES: Strategy[] = ["core", "edge", "alpha"]
+
+export const STARTING_NAV = 50000
+
+export interface StrategyParams {
+  /** Yield on the USDC sleeve, e.g. 0.045 = 4.5% a year. */
+  stablecoinApy: number
+  /** Per-asset allocation caps; assets not listed use defaultMaxExposure. */
+  maxExposure: Record<string, number>
+  defaultMaxExposure: number
+  /** Minimum allocation per durable asset, by strategy. */
+  durableFloors: Record<Strategy, Record<string, number>>
+  /** Share of the gap to target closed each day; 1 = immediate. Core always moves immediately. */
+  blendRates: { edge: number; alpha: number }
+}
+
+// Durable asset floors: minimum allocation that never goes to zero regardless of signal.
+// Rationale: BTC and gold are "durable" assets (per BMB risk framework) — cyclical signals
+// should reduce exposure but never fully exit. Alts and ETH have no floor (cyclical).
+//
+// Gradual position sizing: blend rate controls how fast allocations move to target.
+// 0.5 = move halfway to target each day (e.g., 20% → 0% becomes 20% → 10% → 5% → 2.5%)
+// 1.0 = immediate (no blending). Defensive assets (USDC, PAXG) always move immediately.
+export const DEFAULT_PARAMS: StrategyParams = {
+  stablecoinApy: 0.045,
+  // Per-asset caps come from the asset registry (_shared/assets.ts, pipeline "model_portfolio")
+  maxExposure: Object.fromEntries(
+    assetsIn("model_portfolio").filter((a) => a.maxExposure !== undefined).map((a) => [a.ticker, a.maxExposure!]),
+  ),
+  defaultMaxExposure: 0.10, // Small-cap alts
+  durableFloors: {
+    core:  { BTC: 0.15, PAXG: 0.10 },
+    edge:  { BTC: 0.12, PAXG: 0.08 },
+    alpha: { BTC: 0.10, PAXG: 0.05 },
+  },
+  blendRates: { edge: 0.5, alpha: 0.6 },
+}
+
+export interface ParamOverrides {
+  stablecoinApy?: number
+  maxExposure?: Record<string, number>
+  defaultMaxExposure?: number
+  durableFloors?: Partial<Record<Strategy, Record<string, number>>>
+  blendRates?: Partial<StrategyParams["blendRates"]>
+}
+
+const clamp = (v: unknown, lo: number, hi: number, fallback: number): number => {
+  const n = Number(v)
+  return v != null && Number.isFinite(n) ? Math.min(Math.max(n, lo), hi) : fallback
+}
+
+/**
+ * Overrides over DEFAULT_PARAMS, clamped to sane ranges: APY 0-50%, caps and
+ * floors 0-1, blend rates 0.05-1. A strategy's floors are scaled down to sum
+ * to at most 90% so there is always room left for the signal to allocate.
+ */
+export function resolveParams(overrides: ParamOverrides = {}): StrategyParams {
+  const d = DEFAULT_PARAMS
+  const maxExposure = { ...d.maxExposure }
+  for (const [asset, cap] of Object.entries(overrides.maxExposure ?? {})) {
+    maxExposure[asset] = clamp(cap, 0, 1, maxExposure[asset] ?? d.defaultMaxExposure)
+  }
+
+  const durableFloors = {} as StrategyParams["durableFloors"]
+  for (const s of STRATEGIES) {
+    const floors = { ...d.durableFloors[s] }
+    for (const [asset, floor] of Object.entries(overrides.durableFloors?.[s] ?? {})) {
+      floors[asset] = clamp(floor, 0, 1, floors[asset] ?? 0)
+    }
+    const total = Object.values(floors).reduce((a, b) => a + b, 0)
+    if (total > 0.9) for (const k of Object.keys(floors)) floors[k] *= 0.9 / total
+    durableFloors[s] = floors
+  }
+
+  return {
+    stablecoinApy: clamp(overrides.stablecoinApy, 0, 0.5, d.stablecoinApy),
+    maxExposure,
+    defaultMaxExposure: clamp(overrides.defaultMaxExposure, 0, 1, d.defaultMaxExposure),
+    durableFloors,
+    blendRates: {
+      edge: clamp(overrides.blendRates?.edge, 0.05, 1, d.blendRates.edge),
+      alpha: clamp(overrides.blendRates?.alpha, 0.05, 1, d.blendRates.alpha),
+    },
+  }
+}
+
+export function dailyStableRate(params: StrategyParams): number {
+  return Math.pow(1 + params.stablecoinApy, 1 / 365) - 1
+}
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface Signal {
+  asset: string
+  signal: string
+  trend_score: number
+  category: string
+}
+
+export interface Position {
+  qty: number
+  value: number
+  price: number
+}
+
+/** Everything the strategy rules read for one day. */
+export interface MarketState {
+  btcSignal: string          // bullish / neutral / mild_bearish / bearish
+  btcRiskLevel: number
+  btcRiskCategory: string
+  goldSignal: string
+  macroRegime: string
+  cryptoSignals: Record<string, Signal>
+  altBtcSignals: Record<string, Signal>
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+export function roundAlloc(alloc: Record<string, number>): Record<string, number> {
+  const r: Record<string, number> = {}
+  for (const [k, v] of Object.entries(alloc)) {
+    r[k] = Math.round(v * 10000) / 10000
+  }
+  return r
+}
+
+export function allocsEqual(a: Record<string, number>, b: Record<string, number>): boolean {
+  const ra = roundAlloc(a)
+  const rb = roundAlloc(b)
+  const keysA = Object.keys(ra).filter(k => ra[k] > 0)
+  const keysB = Object.keys(rb).filter(k => rb[k] > 0)
+  if (keysA.length !== keysB.length) return false
+  for (const k of keysA) {
+    if (ra[k] !== rb[k]) return false
+  }
+  return true
+}
+
+export function enforceExposureCaps(alloc: Record<string, number>, params: StrategyParams): Record<string, number> {
+  const result = { ...alloc }
+  // Iterate until no position exceeds its cap (handles cascading)
+  for (let iter = 0; iter < 5; iter++) {
+    let excess = 0
+    let uncappedTotal = 0
+    const uncapped: string[] = []
+
+    for (const [asset, pct] of Object.entries(result)) {
+      if (pct <= 0) continue
+      const cap = params.maxExposure[asset] ?? params.defaultMaxExposure
+      if (pct > cap) {
+        excess += pct - cap
+        result[asset] = cap
+      } else {
+        uncapped.push(asset)
+        uncappedTotal += pct
+      }
+    }
+
+    if (excess < 0.0001) break // No excess to redistribute
+
+    if (uncappedTotal > 0) {
+      // Redistribute proportionally to uncapped positions
+      for (const asset of uncapped) {
+        result[asset] += excess * (result[asset] / uncappedTotal)
+      }
+    } else {
+      // All at cap — overflow to USDC
+      result.USDC = (result.USDC || 0) + excess
+    }
+  }
+
+  return result
+}
+
+export function enforceDurableFloors(
+  alloc: Record<string, number>,
+  strategy: Strategy,
+  params: StrategyParams,
+): Record<string, number> {
+  const floors = params.durableFloors[strategy]
+  if (!floors) return alloc
+
+  const result = { ...alloc }
+  let deficit = 0
+
+  // Raise any durable asset below its floor
+  for (const [asset, floor] of Object.entries(floors)) {
+    const current = result[asset] ?? 0
+    if (current < floor) {
+      deficit += floor - current
+      result[asset] = floor
+    }
+  }
+
+  if (deficit <= 0) return result
+
+  // Absorb deficit from USDC first, then proportionally from non-durable positions
+  const usdcAvailable = (result.USDC ?? 0) - 0.01 // keep 1% minimum USDC
+  if (usdcAvailable >= deficit) {
+    result.USDC = (result.USDC ?? 0) - deficit
+    return result
+  }
+
+  // USDC can't cover it all — take what we can from USDC, then trim others
+  if (usdcAvailable > 0) {
+    result.USDC = (result.USDC ?? 0) - usdcAvailable
+    deficit -= usdcAvailable
+  }
+
+  // Proportionally reduce non-durable, non-USDC positions
+  const durableAssets = new Set([...Object.keys(floors), "USDC"])
+  const trimmable: string[] = []
+  let trimmableTotal = 0
+  for (const [asset, pct] of Object.entries(result)) {
+    if (!durableAssets.has(asset) && pct > 0) {
+      trimmable.push(asset)
+      trimmableTotal += pct
+    }
+  }
+
+  if (trimmableTotal > 0) {
+    for (const asset of trimmable) {
+      const reduction = deficit * (result[asset] / trimmableTotal)
+      result[asset] = Math.max(0, result[asset] - reduction)
+    }
+  }
+
+  return result
+}
+
+// ─── Market State ───────────────────────────────────────────────────────────
+
+export function riskCategory(riskLevel: number): string {
+  if (riskLevel < 0.20) return "Very Low Risk"
+  if (riskLevel < 0.40) return "Low Risk"
+  if (riskLevel < 0.55) return "Neutral"
+  if (riskLevel < 0.70) return "Elevated Risk"
+  if (riskLevel < 0.90) return "High Risk"
+  return "Extreme Risk"
+}
+
+export function determineMacroRegime(signals: Signal[]): string {
+  let bearishCount = 0, total = 0
+  for (const sig of signals) {
+    if (sig.category === "index" || sig.asset === "VIX") {
+      total++
+      // VIX bearish (high VIX) = risk-off
+      if (sig.signal === "bearish") bearishCount++
+    }
+  }
+  if (total === 0) return "Mixed"
+  return bearishCount / total >= 0.5 ? "Risk-Off" : "Risk-On"
+}
+
+/**
+ * The day's state from its QPS signals and BTC risk level. Without a risk
+ * reading BTC is treated as Neutral (0.5).
+ */
+export function marketState(signals: Signal[], btcRiskLevel: number | null): MarketState {
+  const cryptoSignals: Record<string, Signal> = {}
+  const altBtcSignals: Record<string, Signal> = {}
+  let goldSignal = "neutral"
+
+  for (const sig of signals) {
+    if (sig.category === "crypto") cryptoSignals[sig.asset] = sig
+    if (sig.category === "alt_btc") altBtcSignals[sig.asset] = sig
+    if (sig.asset === "GOLD") {
+      // Map bearish for gold defensive mix (no mild_bearish distinction needed)
+      goldSignal = sig.signal === "bearish" ? "bearish" : sig.signal
+    }
+  }
+
+  // Derive btcSignal with mild_bearish tier for model portfolios
+  // QPS stores bearish for scores <45, but we differentiate 36-44 as mild_bearish
+  let btcSignal = cryptoSignals.BTC?.signal ?? "neutral"
+  if (btcSignal === "bearish" && cryptoSignals.BTC?.trend_score >= 36) {
+    btcSignal = "mild_bearish"
+  }
+
+  const level = btcRiskLevel ?? 0.5
+  return {
+    btcSignal,
+    btcRiskLevel: level,
+    btcRiskCategory: btcRiskLevel == null ? "Neutral" : riskCategory(level),
+    goldSignal,
+    macroRegime: determineMacroRegime(signals),
+    cryptoSignals,
+    altBtcSignals,
+  }
+}
+
+// ─── Strategy Rules ─────────────────────────────────────────────────────────
+
+function getDefensiveMix(goldSignal: string): Record<string, number> {
+  if (goldSignal === "bullish") return { PAXG: 0.70, USDC: 0.30 }
+  if (goldSignal === "neutral") return { PAXG: 0.40, USDC: 0.60 }
+  return { PAXG: 0.0, USDC: 1.0 }
+}
+
+function applyDefensive(base: Record<string, number>, defensivePct: number, goldSignal: string): Record<string, number> {
+  const mix = getDefensiveMix(goldSignal)
+  const alloc = { ...base }
+  for (const [asset, pct] of Object.entries(mix)) {
+    if (pct > 0) {
+      alloc[asset] = (alloc[asset] || 0) + defensivePct * pct
+    }
+  }
+  return alloc
+}
+
+/**
+ * Returns top N bullish alts using dual confirmation:
+ * Asset must be bullish on BOTH its BTC pair AND USD pair to qualify.
+ * Softened threshold: if one pair is strongly bullish (≥75), the other
+ * only needs to be near-bullish (≥65) — prevents missing alts that are
+ * 1 point below the 70 cutoff on one side.
+ */
+function getTopBullishAlts(
+  altBtcSignals: Record<string, Signal>,
+  cryptoSignals: Record<string, Signal>,
+  n = 3,
+): Array<[string, number]> {
+  const candidates: Array<[string, number]> = []
+  const STRONG_THRESHOLD = 75
+  const NEAR_BULLISH_THRESHOLD = 65
+
+  for (const [pair, sig] of Object.entries(altBtcSignals)) {
+    const alt = pair.split("/")[0]
+    if (["BTC", "ETH", "SOL"].includes(alt)) continue
+
+    const usdSignal = cryptoSignals[alt]
+    if (!usdSignal) continue
+
+    const btcScore = sig.trend_score ?? 0
+    const usdScore = usdSignal.trend_score ?? 0
+
+    // Strict dual confirmation: both bullish
+    const bothBullish = sig.signal === "bullish" && usdSignal.signal === "bullish"
+
+    // Softened: one strongly bullish (≥75), other near-bullish (≥65)
+    const softened = (btcScore >= STRONG_THRESHOLD && usdScore >= NEAR_BULLISH_THRESHOLD)
+      || (usdScore >= STRONG_THRESHOLD && btcScore >= NEAR_BULLISH_THRESHOLD)
+
+    if (bothBullish || softened) {
+      const avgScore = (btcScore + usdScore) / 2
+      candidates.push([alt, avgScore])
+    }
+  }
+  candidates.sort((a, b) => b[1] - a[1])
+  return candidates.slice(0, n)
+}
+
+function distributeAltPct(topAlts: Array<[string, number]>, totalPct: number): Record<string, number> {
+  if (topAlts.length === 0) return {}
+  const totalScore = topAlts.reduce((sum, [, score]) => sum + score, 0)
+  if (totalScore <= 0) {
+    const weight = totalPct / topAlts.length
+    const result: Record<string, number> = {}
+    for (const [alt] of topAlts) result[alt] = weight
+    return result
+  }
+  const result: Record<string, number> = {}
+  for (const [alt, score] of topAlts) result[alt] = totalPct * (score / totalScore)
+  return result
+}
+
+/**
+ * Gradually blends new target allocation with previous allocation.
+ * Defensive assets (USDC, PAXG) move immediately — you don't want to
+ * slowly enter cash when the signal says de-risk.
+ * Crypto positions step toward target by blendRate per day.
+ */
+export function blendAllocations(
+  newAlloc: Record<string, number>,
+  prevAlloc: Record<string, number>,
+  blendRate: number,
+): Record<string, number> {
+  const defensiveAssets = new Set(["USDC", "PAXG"])
+  const allAssets = new Set([...Object.keys(newAlloc), ...Object.keys(prevAlloc)])
+  const blended: Record<string, number> = {}
+
+  for (const asset of allAssets) {
+    const target = newAlloc[asset] ?? 0
+    const prev = prevAlloc[asset] ?? 0
+
+    if (defensiveAssets.has(asset)) {
+      // Defensive assets move immediately
+      if (target > 0) blended[asset] = target
+    } else {
+      // Blend: prev + (target - prev) * blendRate
+      const value = prev + (target - prev) * blendRate
+      // Clean up dust positions below 1%
+      if (value >= 0.01) blended[asset] = value
+    }
+  }
+
+  // Normalize to 100%
+  const total = Object.values(blended).reduce((a, b) => a + b, 0)
+  if (total > 0) {
+    for (const k of Object.keys(blended)) blended[k] /= total
+  }
+
+  return blended
+}
+
+export function computeCoreAllocation(btcSignal: string, btcRiskCategory: string, goldSignal: string, macroRegime: string): Record<string, number> {
+  const isRiskOff = macroRegime.includes("Risk-Off")
+  const isHighRisk = ["High Risk", "Extreme Risk", "Elevated Risk"].includes(btcRiskCategory)
+
+  if (isRiskOff && isHighRisk) return applyDefensive({}, 1.0, goldSignal)
+
+  if (btcSignal === "bullish") return { BTC: 0.60, ETH: 0.40 }
+
+  if (btcSignal === "neutral") {
+    if (["Very Low Risk", "Low Risk"].includes(btcRiskCategory)) {
+      return applyDefensive({ BTC: 0.50, ETH: 0.30 }, 0.20, goldSignal)
+    }
+    return applyDefensive({ BTC: 0.30, ETH: 0.20 }, 0.50, goldSignal)
+  }
+
+  // Mild bearish (trend score 36-44): reduced crypto but not full exit
+  if (btcSignal === "mild_bearish") {
+    if (["Very Low Risk", "Low Risk"].includes(btcRiskCategory)) {
+      return applyDefensive({ BTC: 0.30, ETH: 0.15 }, 0.55, goldSignal)
+    }
+    return applyDefensive({ BTC: 0.20, ETH: 0.10 }, 0.70, goldSignal)
+  }
+
+  // Full bearish
+  if (btcRiskCategory === "Very Low Risk") return applyDefensive({ BTC: 0.40, ETH: 0.20 }, 0.40, goldSignal)
+  if (btcRiskCategory === "Low Risk") return applyDefensive({ BTC: 0.25, ETH: 0.15 }, 0.60, goldSignal)
+  // Bearish + Neutral/Elevated risk: keep small crypto position
+  return applyDefensive({ BTC: 0.15, ETH: 0.05 }, 0.80, goldSignal)
+}
+
+export function computeEdgeAllocation(
+  btcSignal: string, btcRiskCategory: string, goldSignal: string, macroRegime: string,
+  cryptoSignals: Record<string, Signal>, altBtcSignals: Record<string, Signal>,
+): { alloc: Record<string, number>; dominantAlt: string | null } {
+  const isRiskOff = macroRegime.includes("Risk-Off")
+  const isHighRisk = ["High Risk", "Extreme Risk", "Elevated Risk"].includes(btcRiskCategory)
+  const topAlts = getTopBullishAlts(altBtcSignals, cryptoSignals, 3)
+  const dominantAlt = topAlts.length > 0 ? topAlts[0][0] : null
+
+  // Dual-confirmed alts survive regime flips — trim to half but don't remove.
+  // Only fully remove when the alt's own signals flip (dual confirmation lost).
+  const confirmedAltAlloc = distributeAltPct(topAlts, topAlts.length > 0 ? 0.15 : 0)
+
+  // Check USD signals for majors
+  const bullishAssets: string[] = []
+  for (const asset of ["BTC", "ETH", "SOL"]) {
+    if (cryptoSignals[asset]?.signal === "bullish") bullishAssets.push(asset)
+  }
+
+  // Dual confirmation for ETH and SOL
+  const ethBtcSignal = altBtcSignals["ETH/BTC"]?.signal ?? "neutral"
+  const solBtcSignal = altBtcSignals["SOL/BTC"]?.signal ?? "neutral"
+  const ethConfirmed = bullishAssets.includes("ETH") && ethBtcSignal !== "bearish"
+  const solConfirmed = bullishAssets.includes("SOL") && solBtcSignal !== "bearish"
+
+  // ── Extreme risk: 100% defensive, no exceptions ──
+  if (isRiskOff && isHighRisk) return { alloc: applyDefensive({}, 1.0, goldSignal), dominantAlt: null }
+
+  // ── Risk-Off: reduce crypto but keep confirmed alts at half size ──
+  if (isRiskOff) {
+    const alloc: Record<string, number> = {}
+
+    if (btcRiskCategory === "Very Low Risk") {
+      alloc.BTC = 0.30; if (ethConfirmed) alloc.ETH = 0.15
+    } else if (btcRiskCategory === "Low Risk") {
+      alloc.BTC = 0.20; if (ethConfirmed) alloc.ETH = 0.10
+    } else {
+      alloc.BTC = 0.10; if (ethConfirmed) alloc.ETH = 0.05
+    }
+
+    // Keep confirmed alts at half their normal allocation
+    for (const [alt, pct] of Object.entries(confirmedAltAlloc)) {
+      alloc[alt] = pct * 0.5
+    }
+
+    const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
+    return { alloc: applyDefensive(alloc, Math.max(0, 1.0 - deployed), goldSignal), dominantAlt }
+  }
+
+  // ── Risk-On: 2+ bullish majors or BTC bullish ──
+  if (bullishAssets.length >= 2 || btcSignal === "bullish") {
+    const alloc: Record<string, number> = {}
+    if (bullishAssets.includes("BTC") || btcSignal === "bullish") alloc.BTC = 0.30
+    if (ethConfirmed) {
+      alloc.ETH = 0.25
+    } else if (bullishAssets.includes("ETH")) {
+      alloc.ETH = 0.12
+      alloc.BTC = (alloc.BTC ?? 0) + 0.13
+    }
+    if (solConfirmed) {
+      alloc.SOL = 0.20
+    } else if (bullishAssets.includes("SOL")) {
+      alloc.SOL = 0.10
+      alloc.BTC = (alloc.BTC ?? 0) + 0.10
+    }
+    // Full alt allocation
+    Object.assign(alloc, confirmedAltAlloc)
+    const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
+    const remaining = 1.0 - deployed
+    if (remaining > 0.01) {
+      return { alloc: applyDefensive(alloc, remaining, goldSignal), dominantAlt }
+    }
+    return { alloc, dominantAlt }
+  }
+
+  // ── Mild bearish: reduced crypto, keep confirmed alts at reduced size ──
+  if (btcSignal === "mild_bearish") {
+    const alloc: Record<string, number> = { BTC: 0.15 }
+    if (ethConfirmed) alloc.ETH = 0.10
+    // Alts at ~1/3 normal size
+    for (const [alt, pct] of Object.entries(confirmedAltAlloc)) {
+      alloc[alt] = pct * 0.33
+    }
+    const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
+    return { alloc: applyDefensive(alloc, 1.0 - deployed, goldSignal), dominantAlt }
+  }
+
+  // ── Full bearish: minimal crypto, keep confirmed alts at tiny size ──
+  if (btcSignal === "bearish") {
+    const alloc: Record<string, number> = {}
+    if (["Very Low Risk", "Low Risk"].includes(btcRiskCategory)) {
+      alloc.BTC = 0.20; alloc.ETH = 0.10
+    } else {
+      alloc.BTC = 0.10; alloc.ETH = 0.05
+    }
+    // Alts at 1/4 normal size — still riding confirmed trends
+    for (const [alt, pct] of Object.entries(confirmedAltAlloc)) {
+      alloc[alt] = pct * 0.25
+    }
+    const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
+    return { alloc: applyDefensive(alloc, 1.0 - deployed, goldSignal), dominantAlt }
+  }
+
+  // ── Mixed: deploy into bullish only ──
+  const alloc: Record<string, number> = {}
+  if (bullishAssets.length > 0) {
+    const weight = 0.60 / bullishAssets.length
+    for (const a of bullishAssets) alloc[a] = weight
+  }
+  Object.assign(alloc, confirmedAltAlloc)
+  const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
+  const remaining = 1.0 - deployed
+  return { alloc: applyDefensive(alloc, Math.max(0, remaining), goldSignal), dominantAlt }
+}
+
+export function computeAlphaAllocation(
+  btcSignal: string, btcRiskCategory: string, goldSignal: string, macroRegime: string,
+  cryptoSignals: Record<string, Signal>, altBtcSignals: Record<string, Signal>,
+): { alloc: Record<string, number>; dominantAlt: string | null } {
+  const isRiskOff = macroRegime.includes("Risk-Off")
+  const isHighRisk = ["High Risk", "Extreme Risk", "Elevated Risk"].includes(btcRiskCategory)
+  const topAlts = getTopBullishAlts(altBtcSignals, cryptoSignals, 3)
+  const dominantAlt = topAlts.length > 0 ? topAlts[0][0] : null
+
+  // Dual-confirmed alts survive regime flips (same as Edge)
+  const confirmedAltAlloc = distributeAltPct(topAlts, topAlts.length > 0 ? 0.40 : 0)
+
+  const bullishAssets: string[] = []
+  for (const asset of ["BTC", "ETH", "SOL"]) {
+    if (cryptoSignals[asset]?.signal === "bullish") bullishAssets.push(asset)
+  }
+
+  const ethBtcSig = altBtcSignals["ETH/BTC"]?.signal ?? "neutral"
+  const solBtcSig = altBtcSignals["SOL/BTC"]?.signal ?? "neutral"
+  const ethOk = bullishAssets.includes("ETH") && ethBtcSig !== "bearish"
+  const solOk = bullishAssets.includes("SOL") && solBtcSig !== "bearish"
+
+  // ── Extreme risk: 100% defensive ──
+  if (isRiskOff && isHighRisk) return { alloc: applyDefensive({}, 1.0, goldSignal), dominantAlt: null }
+
+  // ── Risk-Off: reduce but keep confirmed alts at half ──
+  if (isRiskOff) {
+    const alloc: Record<string, number> = {}
+    if (btcRiskCategory === "Very Low Risk") {
+      alloc.BTC = 0.25; if (ethOk) alloc.ETH = 0.15
+    } else if (btcRiskCategory === "Low Risk") {
+      alloc.BTC = 0.15; if (ethOk) alloc.ETH = 0.10
+    } else {
+      alloc.BTC = 0.10; if (ethOk) alloc.ETH = 0.05
+    }
+    for (const [alt, pct] of Object.entries(confirmedAltAlloc)) {
+      alloc[alt] = pct * 0.5
+    }
+    const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
+    return { alloc: applyDefensive(alloc, Math.max(0, 1.0 - deployed), goldSignal), dominantAlt }
+  }
+
+  // ── Risk-On: 2+ bullish majors or BTC bullish ──
+  if (bullishAssets.length >= 2 || btcSignal === "bullish") {
+    const alloc: Record<string, number> = {}
+    if (bullishAssets.includes("BTC") || btcSignal === "bullish") alloc.BTC = 0.20
+    if (ethOk) {
+      alloc.ETH = 0.15
+    } else if (bullishAssets.includes("ETH")) {
+      alloc.ETH = 0.07
+      alloc.BTC = (alloc.BTC ?? 0) + 0.08
+    }
+    if (solOk) {
+      alloc.SOL = 0.15
+    } else if (bullishAssets.includes("SOL")) {
+      alloc.SOL = 0.07
+      alloc.BTC = (alloc.BTC ?? 0) + 0.08
+    }
+    Object.assign(alloc, confirmedAltAlloc)
+    const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
+    const remaining = 1.0 - deployed
+    if (remaining > 0.01) {
+      return { alloc: applyDefensive(alloc, remaining, goldSignal), dominantAlt }
+    }
+    return { alloc, dominantAlt }
+  }
+
+  // ── Mild bearish: keep confirmed alts at 1/3 ──
+  if (btcSignal === "mild_bearish") {
+    const alloc: Record<string, number> = { BTC: 0.10 }
+    if (ethOk) alloc.ETH = 0.08
+    for (const [alt, pct] of Object.entries(confirmedAltAlloc)) {
+      alloc[alt] = pct * 0.33
+    }
+    const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
+    return { alloc: applyDefensive(alloc, 1.0 - deployed, goldSignal), dominantAlt }
+  }
+
+  // ── Full bearish: keep confirmed alts at 1/4 ──
+  if (btcSignal === "bearish") {
+    const alloc: Record<string, number> = {}
+    if (["Very Low Risk", "Low Risk"].includes(btcRiskCategory)) {
+      alloc.BTC = 0.15; alloc.ETH = 0.10
+    } else {
+      alloc.BTC = 0.08; alloc.ETH = 0.04
+    }
+    for (const [alt, pct] of Object.entries(confirmedAltAlloc)) {
+      alloc[alt] = pct * 0.25
+    }
+    const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
+    return { alloc: applyDefensive(alloc, 1.0 - deployed, goldSignal), dominantAlt }
+  }
+
+  // ── Mixed ──
+  const alloc: Record<string, number> = {}
+  if (bullishAssets.length > 0) {
+    const weight = 0.45 / bullishAssets.length
+    for (const a of bullishAssets) alloc[a] = weight
+  }
+  Object.assign(alloc, confirmedAltAlloc)
+  const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
+  const remaining = 1.0 - deployed
+  return { alloc: applyDefensive(alloc, Math.max(0, remaining), goldSignal), dominantAlt }
+}
+
+/**
+ * The day's allocation for `strategy`: rules → floors → caps → blending
+ * from `prevAlloc` (fractions; empty on the first day) → normalised.
+ */
+export function targetAllocation(
+  strategy: Strategy,
+  state: MarketState,
+  prevAlloc: Record<string, number>,
+  params: StrategyParams,
+): { alloc: Record<string, number>; dominantAlt: string | null } {
+  const { btcSignal, btcRiskCategory, goldSignal, macroRegime, cryptoSignals, altBtcSignals } = state
+  let alloc: Record<string, number>
+  let dominantAlt: string | null = null
+
+  if (strategy === "core") {
+    alloc = computeCoreAllocation(btcSignal, btcRiskCategory, goldSignal, macroRegime)
+  } else {
+    const compute = strategy === "edge" ? computeEdgeAllocation : computeAlphaAllocation
+    const result = compute(btcSignal, btcRiskCategory, goldSignal, macroRegime, cryptoSignals, altBtcSignals)
+    alloc = result.alloc
+    dominantAlt = result.dominantAlt
+  }
+
+  // Enforce durable asset floors, then per-asset exposure caps
+  alloc = enforceDurableFloors(alloc, strategy, params)
+  alloc = enforceExposureCaps(alloc, params)
+
+  // Gradual position sizing for Edge and Alpha (Core moves immediately)
+  if (strategy !== "core" && Object.keys(prevAlloc).length > 0) {
+    alloc = blendAllocations(alloc, prevAlloc, params.blendRates[strategy])
+  }
+
+  // Normalize
+  const total = Object.values(alloc).reduce((a, b) => a + b, 0)
+  if (total > 0) {
+    for (const k of Object.keys(alloc)) alloc[k] /= total
+  }
+
+  return { alloc, dominantAlt }
+}
+
+// ─── NAV Computation ────────────────────────────────────────────────────────
+
+export function computeNav(
+  prevPositions: Record<string, Position>, prevNav: number,
+  prices: Record<string, number>, newAllocation: Record<string, number>,
+  rebalance: boolean, stableRate: number,
+): { nav: number; positions: Record<string, Position> } {
+  if (Object.keys(prevPositions).length === 0 || rebalance) {
+    // Compute current NAV from existing positions
+    let currentNav = prevNav
+    if (Object.keys(prevPositions).length > 0) {
+      currentNav = 0
+      for (const [asset, pos] of Object.entries(prevPositions)) {
+        if (asset === "USDC") {
+          currentNav += pos.value * (1 + stableRate)
+        } else {
+          const p = prices[asset] ?? pos.price
+          currentNav += p > 0 && pos.qty > 0 ? pos.qty * p : pos.value
+        }
+      }
+    }
+
+    // Allocate at new weights
+    const newPositions: Record<string, Position> = {}
+    for (const [asset, weight] of Object.entries(newAllocation)) {
+      if (weight <= 0) continue
+      const value = currentNav * weight
+      if (asset === "USDC") {
+        newPositions[asset] = { qty: value, value, price: 1.0 }
+      } else {
+        const p = prices[asset] ?? 0
+        newPositions[asset] = { qty: p > 0 ? value / p : 0, value, price: p }
+      }
+    }
+    return { nav: currentNav, positions: newPositions }
+  }
+
+  // Mark to market
+  let currentNav = 0
+  const updated: Record<string, Position> = {}
+  for (const [asset, pos] of Object.entries(prevPositions)) {
+    if (asset === "USDC") {
+      const newVal = pos.value * (1 + stableRate)
+      updated[asset] = { qty: newVal, value: newVal, price: 1.0 }
+      currentNav += newVal
+    } else {
+      const p = prices[asset] ?? pos.price
+      const newVal = pos.qty * p
+      updated[asset] = { qty: pos.qty, value: newVal, price: p }
+      currentNav += newVal
+    }
+  }
+  return { nav: currentNav, positions: updated }
+}
+
+// ─── Historical Replay ──────────────────────────────────────────────────────
+
+/** One replayed day: that day's QPS signals, BTC risk and closing prices. */
+export interface SimDay {
+  date: string                    // YYYY-MM-DD
+  signals: Signal[]
+  btcRiskLevel: number | null
+  prices: Record<string, number>  // USD close per ticker; USDC is always 1
+}
+
+export interface SimPoint {
+  date: string
+  nav: number
+  drawdown: number                // fraction below the running peak, ≤ 0
+  allocation: Record<string, number>  // the day's allocation as recorded, fractions
+  rebalance: boolean
+  turnover: number                // one-way: ½ Σ |new − drifted weight|; 0 on the first day's buy-in
+  btcSignal: string
+  macroRegime: string
+}
+
+export interface SimSummary {
+  from: string
+  to: string
+  days: number
+  startNav: number
+  endNav: number
+  totalReturn: number             // fraction
+  cagr: number | null             // null under 30 days
+  maxDrawdown: number             // fraction, ≤ 0
+  rebalances: number
+  turnover: number                // total one-way turnover, 1 = the whole book once
+  annualTurnover: number | null
+  avgExposure: Record<string, number>  // mean weight per asset over the run
+}
+
+export interface SimResult {
+  strategy: Strategy
+  points: SimPoint[]
+  summary: SimSummary
+}
+
+/**
+ * Replays `strategy` over `days` (oldest first) the way the daily run would
+ * have: each day's allocation is blended from the previous day's recorded
+ * allocation (rounded to 0.1% like the NAV row), positions trade at the
+ * day's close on a rebalance and drift with prices otherwise, and USDC
+ * accrues the stablecoin APY daily. A missing price carries the last one
+ * forward. No fees or slippage.
+ */
+export function simulateStrategy(
+  strategy: Strategy,
+  days: SimDay[],
+  params: StrategyParams,
+  startNav = STARTING_NAV,
+): SimResult | null {
+  if (days.length === 0) return null
+  const stableRate = dailyStableRate(params)
+
+  let positions: Record<string, Position> = {}
+  let nav = startNav
+  let recorded: Record<string, number> = {}
+  let peak = startNav
+  const lastPrices: Record<string, number> = { USDC: 1 }
+  const points: SimPoint[] = []
+
+  for (const day of days) {
+    for (const [asset, price] of Object.entries(day.prices)) {
+      if (price > 0) lastPrices[asset] = price
+    }
+    const prices = { ...lastPrices }
+
+    const state = marketState(day.signals, day.btcRiskLevel)
+    const { alloc } = targetAllocation(strategy, state, recorded, params)
+    const first = Object.keys(positions).length === 0
+    const rebalance = first || !allocsEqual(alloc, recorded)
+
+    // Weights the book has drifted to by today's close, before trading
+    const marked = first ? null : computeNav(positions, nav, prices, {}, false, stableRate)
+    let turnover = 0
+    if (rebalance && marked && marked.nav > 0) {
+      const drifted: Record<string, number> = {}
+      for (const [asset, pos] of Object.entries(marked.positions)) drifted[asset] = pos.value / marked.nav
+      const assets = new Set([...Object.keys(alloc), ...Object.keys(drifted)])
+      for (const a of assets) turnover += Math.abs((alloc[a] ?? 0) - (drifted[a] ?? 0)) / 2
+    }
+
+    const next = computeNav(positions, nav, prices, alloc, rebalance, stableRate)
+    nav = next.nav
+    positions = next.positions
+
+    // Live compares and blends against the NAV row's 0.1%-rounded percentages
+    recorded = {}
+    for (const [asset, w] of Object.entries(alloc)) {
+      if (w > 0) recorded[asset] = Math.round(w * 1000) / 1000
+    }
+
+    peak = Math.max(peak, nav)
+    points.push({
+      date: day.date,
+      nav,
+      drawdown: peak > 0 ? nav / peak - 1 : 0,
+      allocation: recorded,
+      rebalance,
+      turnover,
+      btcSignal: state.btcSignal,
+      macroRegime: state.macroRegime,
+    })
+  }
+
+  return { strategy, points, summary: summarize(points, startNav) }
+}
+
+function summarize(points: SimPoint[], startNav: number): SimSummary {
+  const first = points[0]
+  const last = points[points.length - 1]
+  const days = Math.round((Date.parse(last.date) - Date.parse(first.date)) / 86_400_000)
+  const years = days / 365
+  const totalReturn = last.nav / startNav - 1
+  const turnover = points.reduce((s, p) => s + p.turnover, 0)
+
+  const avgExposure: Record<string, number> = {}
+  for (const p of points) {
+    for (const [asset, w] of Object.entries(p.allocation)) avgExposure[asset] = (avgExposure[asset] ?? 0) + w / points.length
+  }
+
+  return {
+    from: first.date,
+    to: last.date,
+    days,
+    startNav,
+    endNav: last.nav,
+    totalReturn,
+    cagr: days >= 30 && last.nav > 0 ? Math.pow(last.nav / startNav, 1 / years) - 1 : null,
+    maxDrawdown: Math.min(0, ...points.map((p) => p.drawdown)),
+    rebalances: points.slice(1).filter((p) => p.rebalance).length,  // the first day always buys in
+    turnover,
+    annualTurnover: days >= 30 ? turnover / years : null,
+    avgExposure,
+  }
+}
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict"
+import {
+  DEFAULT_PARAMS,
+  marketState,
+  resolveParams,
+  simulateStrategy,
+  targetAllocation,
+} from "./model_portfolio_engine.ts"
+import type { Signal, SimDay } from "./model_portfolio_engine.ts"
+
+const sig = (asset: string, signal: string, category: string, trend_score = 50): Signal =>
+  ({ asset, signal, category, trend_score })
+
+const bullish = [sig("BTC", "bullish", "crypto", 80), sig("ETH", "neutral", "crypto")]
+const riskOff = [...bullish, sig("SPY", "bearish", "index"), sig("GOLD", "bearish", "commodity")]
+const day = (i: number, signals: Signal[], btcRiskLevel: number | null, prices: Record<string, number>): SimDay =>
+  ({ date: new Date(Date.UTC(2025, 0, 1) + i * 86_400_000).toISOString().slice(0, 10), signals, btcRiskLevel, prices })
+
+const sum = (alloc: Record<string, number>) => Object.values(alloc).reduce((a, b) => a + b, 0)
+
+Deno.test("targetAllocation applies floors then caps with the live defaults", () => {
+  const { alloc } = targetAllocation("core", marketState(bullish, 0.3), {}, DEFAULT_PARAMS)
+  assert.ok(Math.abs(sum(alloc) - 1) < 1e-9)
+  assert.equal(alloc.ETH, 0.2) // registry cap
+  assert.ok(alloc.PAXG >= 0.1) // core floor
+
+  const noFloors = resolveParams({ durableFloors: { core: { PAXG: 0 } }, maxExposure: { ETH: 1 } })
+  assert.deepEqual(targetAllocation("core", marketState(bullish, 0.3), {}, noFloors).alloc, { BTC: 0.6, ETH: 0.4 })
+})
+
+Deno.test("targetAllocation blends Edge toward target at the blend rate", () => {
+  const state = marketState(bullish, 0.3)
+  const prev = { USDC: 1 }
+  const immediate = targetAllocation("edge", state, prev, resolveParams({ blendRates: { edge: 1 } })).alloc
+  const halfway = targetAllocation("edge", state, prev, DEFAULT_PARAMS).alloc
+  assert.deepEqual(immediate, targetAllocation("edge", state, {}, DEFAULT_PARAMS).alloc)
+  assert.ok(halfway.BTC < immediate.BTC)
+  assert.ok(Math.abs(sum(halfway) - 1) < 1e-9)
+})
+
+Deno.test("resolveParams clamps overrides and keeps floors under 90%", () => {
+  const p = resolveParams({ stablecoinApy: 3, blendRates: { alpha: 0 }, durableFloors: { edge: { BTC: 0.8, PAXG: 0.4 } } })
+  assert.equal(p.stablecoinApy, 0.5)
+  assert.equal(p.blendRates.alpha, 0.05)
+  assert.equal(p.blendRates.edge, DEFAULT_PARAMS.blendRates.edge)
+  assert.ok(Math.abs(p.durableFloors.edge.BTC + p.durableFloors.edge.PAXG - 0.9) < 1e-9)
+  assert.deepEqual(p.durableFloors.core, DEFAULT_PARAMS.durableFloors.core)
+})
+
+Deno.test("simulateStrategy accrues the stablecoin APY on a fully defensive book", () => {
+  const params = resolveParams({ stablecoinApy: 0.1, durableFloors: { core: { BTC: 0, PAXG: 0 } } })
+  const days = Array.from({ length: 366 }, (_, i) => day(i, riskOff, 0.8, { BTC: 100 }))
+  const { summary, points } = simulateStrategy("core", days, params)!
+  assert.deepEqual(points[0].allocation, { USDC: 1 })
+  assert.ok(Math.abs(summary.totalReturn - 0.1) < 1e-9)
+  assert.equal(summary.maxDrawdown, 0)
+  assert.equal(summary.rebalances, 0)
+  assert.equal(summary.turnover, 0)
+})
+
+Deno.test("simulateStrategy lets positions drift, then measures drawdown and turnover", () => {
+  const params = resolveParams({ durableFloors: { core: { BTC: 0, PAXG: 0 } }, maxExposure: { ETH: 1 } })
+  const { summary, points } = simulateStrategy("core", [
+    day(0, bullish, 0.3, { BTC: 100, ETH: 10 }),
+    day(1, bullish, 0.3, { BTC: 50 }),          // ETH price carries forward
+    day(2, riskOff, 0.8, { BTC: 50, ETH: 10 }), // Risk-Off + High Risk → all defensive
+  ], params)!
+
+  assert.equal(points[1].rebalance, false)
+  assert.equal(points[1].nav, 35_000)
+  assert.ok(Math.abs(points[1].drawdown + 0.3) < 1e-9)
+  assert.deepEqual(points[2].allocation, { USDC: 1 })
+  assert.ok(Math.abs(points[2].turnover - 1) < 1e-9)
+  assert.equal(summary.rebalances, 1)
+  assert.ok(Math.abs(summary.maxDrawdown + 0.3) < 1e-9)
+})
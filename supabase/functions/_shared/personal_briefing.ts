@@ -0,0 +1,184 @@
+/**
+ * Personalized briefing section — the pure half of market-summary's
+ * `personal` mode. A member's holdings and risk_coins watchlist are matched
+ * against data the shared briefing already gathered (24h moves stored in its
+ * context, regression risk history, QPS signals, open trade signals), so the
+ * per-user section costs no extra upstream API calls. Members whose facts come
+ * out identical share one cohort key and one generated section.
+ */
+
+import { riskBandOf } from "./alerts.ts"
+
+export interface AssetMove {
+  price: number
+  change24h: number | null
+}
+
+export interface PersonalHolding {
+  symbol: string
+  quantity: number
+}
+
+export interface RiskReading {
+  asset: string
+  risk_level: number
+  risk_date: string
+}
+
+export interface QpsReading {
+  asset: string
+  signal: string
+  prev_signal: string | null
+}
+
+export interface TradeSignalRow {
+  asset: string
+  signal_type: string
+  status: string
+}
+
+export interface PersonalInputs {
+  holdings: PersonalHolding[]
+  watchlist: string[]
+  moves: Record<string, AssetMove>
+  risk: RiskReading[]            // newest first, any number of days per asset
+  qps: QpsReading[]              // latest signal date
+  tradeSignals: TradeSignalRow[] // active or triggered
+}
+
+export interface PersonalMover {
+  asset: string
+  change24h: number              // %
+  held: boolean
+  valueChange: number | null     // USD, held assets only
+}
+
+export interface PersonalBandChange {
+  asset: string
+  from: string                   // RISK_BANDS label
+  to: string
+  risk: number
+}
+
+export interface PersonalFacts {
+  held: string[]
+  watched: string[]              // watchlist assets not held
+  movers: PersonalMover[]
+  bandChanges: PersonalBandChange[]
+  tradeSignals: { asset: string; signalType: string; status: string }[]
+  qpsFlips: { asset: string; from: string; to: string }[]
+}
+
+const MAX_MOVERS = 3
+
+const upper = (s: string) => s.trim().toUpperCase()
+
+/**
+ * Compact per-symbol 24h moves from the crypto market cache, stored on the
+ * shared briefing's context so personal sections can reuse them.
+ */
+export function assetMovesFromCoins(coins: unknown[]): Record<string, AssetMove> {
+  const out: Record<string, AssetMove> = {}
+  for (const c of coins as { symbol?: string; current_price?: number; price_change_percentage_24h?: number | null }[]) {
+    const sym = upper(String(c?.symbol ?? ""))
+    if (!sym || out[sym] || c.current_price == null) continue
+    out[sym] = { price: Number(c.current_price), change24h: c.price_change_percentage_24h ?? null }
+  }
+  return out
+}
+
+export function personalFacts(inputs: PersonalInputs): PersonalFacts {
+  const quantity = new Map<string, number>()
+  for (const h of inputs.holdings) {
+    const sym = upper(h.symbol)
+    if (sym && h.quantity > 0) quantity.set(sym, (quantity.get(sym) ?? 0) + Number(h.quantity))
+  }
+  const held = [...quantity.keys()].sort()
+  const watched = [...new Set(inputs.watchlist.map(upper))].filter((s) => s && !quantity.has(s)).sort()
+  const assets = new Set([...held, ...watched])
+
+  const movers: PersonalMover[] = []
+  for (const asset of assets) {
+    const move = inputs.moves[asset]
+    if (move?.change24h == null) continue
+    const qty = quantity.get(asset)
+    // Value change over the day: today's value minus the value at yesterday's price.
+    const valueChange = qty != null ? qty * move.price * (1 - 1 / (1 + move.change24h / 100)) : null
+    movers.push({ asset, change24h: move.change24h, held: qty != null, valueChange })
+  }
+  movers.sort((a, b) => Math.abs(b.change24h) - Math.abs(a.change24h) || a.asset.localeCompare(b.asset))
+
+  // Latest two readings per asset; a band change is the newer one landing in a different band.
+  const readings = new Map<string, RiskReading[]>()
+  for (const r of inputs.risk) {
+    const asset = upper(r.asset)
+    if (!assets.has(asset) || r.risk_level == null) continue
+    const list = readings.get(asset) ?? []
+    if (list.length < 2) readings.set(asset, [...list, r])
+  }
+  const bandChanges: PersonalBandChange[] = []
+  for (const [asset, [latest, prev]] of readings) {
+    if (!prev) continue
+    const to = riskBandOf(Number(latest.risk_level))
+    const from = riskBandOf(Number(prev.risk_level))
+    if (to.key !== from.key) bandChanges.push({ asset, from: from.label, to: to.label, risk: Number(latest.risk_level) })
+  }
+
+  const tradeSignals = inputs.tradeSignals
+    .filter((s) => assets.has(upper(s.asset)))
+    .map((s) => ({ asset: upper(s.asset), signalType: s.signal_type, status: s.status }))
+  const qpsFlips = inputs.qps
+    .filter((q) => assets.has(upper(q.asset)) && q.prev_signal && q.prev_signal !== q.signal)
+    .map((q) => ({ asset: upper(q.asset), from: q.prev_signal!, to: q.signal }))
+
+  const byAsset = <T extends { asset: string }>(a: T, b: T) => a.asset.localeCompare(b.asset)
+  return {
+    held,
+    watched,
+    movers: movers.slice(0, MAX_MOVERS),
+    bandChanges: bandChanges.sort(byAsset),
+    tradeSignals: tradeSignals.sort(byAsset),
+    qpsFlips: qpsFlips.sort(byAsset),
+  }
+}
+
+export function hasPersonalFacts(facts: PersonalFacts): boolean {
+  return facts.movers.length + facts.bandChanges.length + facts.tradeSignals.length + facts.qpsFlips.length > 0
+}
+
+/**
+ * Members with the same facts get the same section. Dollar amounts are left
+ * out so two holders of different size share a cohort; moves are rounded to
+ * the precision the prompt shows.
+ */
+export async function cohortKey(facts: PersonalFacts): Promise<string> {
+  const canonical = JSON.stringify({
+    movers: facts.movers.map((m) => [m.asset, m.change24h.toFixed(1), m.held]),
+    bands: facts.bandChanges.map((b) => [b.asset, b.from, b.to]),
+    trades: facts.tradeSignals.map((t) => [t.asset, t.signalType, t.status]),
+    qps: facts.qpsFlips.map((q) => [q.asset, q.from, q.to]),
+  })
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonical))
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+const pct = (n: number) => `${n > 0 ? "+" : ""}${n.toFixed(1)}%`
+
+/** Prompt lines for the personal section. No dollar amounts — those stay with the member. */
+export function personalPromptLines(facts: PersonalFacts): string[] {
+  const lines: string[] = []
+  if (facts.movers.length) {
+    lines.push(`Biggest 24h moves among their assets: ${facts.movers
+      .map((m) => `${m.asset} ${pct(m.change24h)} (${m.held ? "held" : "watchlist"})`).join(", ")}`)
+  }
+  for (const b of facts.bandChanges) {
+    lines.push(`${b.asset} regression risk moved from ${b.from} into ${b.to} (${b.risk.toFixed(2)})`)
+  }
+  for (const t of facts.tradeSignals) {
+    lines.push(`${t.asset} trade signal: ${t.signalType.replace("_", " ")} (${t.status})`)
+  }
+  for (const q of facts.qpsFlips) {
+    lines.push(`${q.asset} daily positioning flipped ${q.from} → ${q.to}`)
+  }
+  return lines
+}
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict"
+import { assetMovesFromCoins, cohortKey, hasPersonalFacts, personalFacts, personalPromptLines } from "./personal_briefing.ts"
+import type { PersonalInputs } from "./personal_briefing.ts"
+
+function inputs(overrides: Partial<PersonalInputs> = {}): PersonalInputs {
+  return {
+    holdings: [{ symbol: "btc", quantity: 0.5 }, { symbol: "ETH", quantity: 2 }, { symbol: "DOGE", quantity: 0 }],
+    watchlist: ["sol", "BTC", "LINK"],
+    moves: {
+      BTC: { price: 100_000, change24h: 2 },
+      ETH: { price: 4_000, change24h: -6.5 },
+      SOL: { price: 200, change24h: 4 },
+      LINK: { price: 20, change24h: null },
+      XRP: { price: 3, change24h: 12 },
+    },
+    risk: [
+      { asset: "BTC", risk_level: 0.72, risk_date: "2026-07-24" },
+      { asset: "ETH", risk_level: 0.5, risk_date: "2026-07-24" },
+      { asset: "BTC", risk_level: 0.68, risk_date: "2026-07-23" },
+      { asset: "ETH", risk_level: 0.45, risk_date: "2026-07-23" },
+      { asset: "BTC", risk_level: 0.3, risk_date: "2026-07-22" },
+    ],
+    qps: [
+      { asset: "SOL", signal: "bullish", prev_signal: "neutral" },
+      { asset: "ETH", signal: "bearish", prev_signal: "bearish" },
+      { asset: "XRP", signal: "bullish", prev_signal: "bearish" },
+    ],
+    tradeSignals: [{ asset: "ETH", signal_type: "strong_buy", status: "active" }, { asset: "ADA", signal_type: "buy", status: "active" }],
+    ...overrides,
+  }
+}
+
+Deno.test("splits held and watched assets, ignoring empty positions", () => {
+  const f = personalFacts(inputs())
+  assert.deepEqual(f.held, ["BTC", "ETH"])
+  assert.deepEqual(f.watched, ["LINK", "SOL"])
+})
+
+Deno.test("ranks the member's own assets by absolute move and values held ones", () => {
+  const f = personalFacts(inputs())
+  assert.deepEqual(f.movers.map((m) => m.asset), ["ETH", "SOL", "BTC"])
+  assert.equal(f.movers[1].held, false)
+  assert.equal(f.movers[1].valueChange, null)
+  // 0.5 BTC at 100k after +2%: yesterday's value was 50k / 1.02
+  assert.ok(Math.abs(f.movers[2].valueChange! - (50_000 - 50_000 / 1.02)) < 1e-6)
+})
+
+Deno.test("reports band changes between the latest two readings only", () => {
+  const f = personalFacts(inputs())
+  assert.deepEqual(f.bandChanges, [{ asset: "BTC", from: "Elevated Risk", to: "High Risk", risk: 0.72 }])
+})
+
+Deno.test("keeps signals and QPS flips for the member's assets", () => {
+  const f = personalFacts(inputs())
+  assert.deepEqual(f.tradeSignals, [{ asset: "ETH", signalType: "strong_buy", status: "active" }])
+  assert.deepEqual(f.qpsFlips, [{ asset: "SOL", from: "neutral", to: "bullish" }])
+  assert.ok(hasPersonalFacts(f))
+  assert.deepEqual(personalPromptLines(f).slice(2), [
+    "ETH trade signal: strong buy (active)",
+    "SOL daily positioning flipped neutral → bullish",
+  ])
+})
+
+Deno.test("members with the same facts share a cohort regardless of position size", async () => {
+  const small = personalFacts(inputs())
+  const large = personalFacts(inputs({ holdings: [{ symbol: "BTC", quantity: 9 }, { symbol: "ETH", quantity: 40 }] }))
+  const other = personalFacts(inputs({ watchlist: [] }))
+  assert.equal(await cohortKey(small), await cohortKey(large))
+  assert.notEqual(await cohortKey(small), await cohortKey(other))
+})
+
+Deno.test("nothing to say without holdings or a watchlist", () => {
+  const f = personalFacts(inputs({ holdings: [], watchlist: [] }))
+  assert.equal(hasPersonalFacts(f), false)
+  assert.deepEqual(assetMovesFromCoins([{ symbol: "btc", current_price: 1, price_change_percentage_24h: 3 }, { symbol: "eth" }]),
+    { BTC: { price: 1, change24h: 3 } })
+})
@@ -0,0 +1,111 @@
+/**
+ * Podcast RSS for the briefing audio. briefing-podcast serves one feed per
+ * member at a tokenized URL; this module only renders it. Episodes carry
+ * iTunes tags and Podlove Simple Chapters (psc:chapters) alongside the
+ * chapter markers already embedded in each MP3.
+ */
+
+import type { ChapterMark } from "./briefing_audio.ts"
+
+export interface FeedChannel {
+  title: string
+  link: string
+  description: string
+  author: string
+  imageUrl?: string
+}
+
+export interface FeedEpisode {
+  guid: string
+  title: string
+  description: string
+  published: string         // ISO
+  audioUrl: string
+  bytes: number
+  duration: number          // seconds
+  chapters: ChapterMark[]
+}
+
+const SLOT_LABELS: Record<string, string> = {
+  morning: "Morning Intel",
+  evening: "Close & Context",
+  weekend: "Weekend Pulse",
+}
+
+/** "Morning Intel — Fri, Jul 24" */
+export function episodeTitle(summaryDate: string, slot: string): string {
+  const day = new Date(`${summaryDate}T12:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "short", month: "short", day: "numeric", timeZone: "UTC",
+  })
+  return `${SLOT_LABELS[slot] ?? slot} — ${day}`
+}
+
+/** Episode show notes: the briefing's opening section as plain text. */
+export function episodeSummary(md: string): string {
+  const first = md.split(/^##\s+/m).map((s) => s.trim()).find(Boolean) ?? ""
+  const body = /^##\s+/m.test(md) && first.includes("\n") ? first.slice(first.indexOf("\n") + 1) : first
+  return body.replace(/\*\*?/g, "").replace(/\s+/g, " ").trim()
+}
+
+export function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+/** 3725.5 → "01:02:05.500" (psc) or "01:02:05" (itunes:duration). */
+export function clockTime(seconds: number, millis = false): string {
+  const ms = Math.round(seconds * 1000)
+  const pad = (n: number, w = 2) => String(n).padStart(w, "0")
+  const hms = `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}`
+  return millis ? `${hms}.${pad(ms % 1000, 3)}` : hms
+}
+
+function episodeXml(e: FeedEpisode): string {
+  const chapters = e.chapters.length
+    ? [
+      `      <psc:chapters version="1.2">`,
+      ...e.chapters.map((c) => `        <psc:chapter start="${clockTime(c.start, true)}" title="${escapeXml(c.title)}" />`),
+      `      </psc:chapters>`,
+    ]
+    : []
+  return [
+    `    <item>`,
+    `      <title>${escapeXml(e.title)}</title>`,
+    `      <guid isPermaLink="false">${escapeXml(e.guid)}</guid>`,
+    `      <pubDate>${new Date(e.published).toUTCString()}</pubDate>`,
+    `      <description>${escapeXml(e.description)}</description>`,
+    `      <enclosure url="${escapeXml(e.audioUrl)}" length="${e.bytes}" type="audio/mpeg" />`,
+    `      <itunes:duration>${clockTime(e.duration)}</itunes:duration>`,
+    `      <itunes:explicit>false</itunes:explicit>`,
+    ...chapters,
+    `    </item>`,
+  ].join("\n")
+}
+
+/** RSS 2.0 feed, newest episode first as given. */
+export function podcastFeed(channel: FeedChannel, episodes: FeedEpisode[]): string {
+  const image = channel.imageUrl
+    ? [`    <itunes:image href="${escapeXml(channel.imageUrl)}" />`]
+    : []
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:psc="http://podlove.org/simple-chapters">`,
+    `  <channel>`,
+    `    <title>${escapeXml(channel.title)}</title>`,
+    `    <link>${escapeXml(channel.link)}</link>`,
+    `    <description>${escapeXml(channel.description)}</description>`,
+    `    <language>en-us</language>`,
+    `    <itunes:author>${escapeXml(channel.author)}</itunes:author>`,
+    `    <itunes:block>yes</itunes:block>`,
+    `    <itunes:explicit>false</itunes:explicit>`,
+    ...image,
+    ...episodes.map(episodeXml),
+    `  </channel>`,
+    `</rss>`,
+    ``,
+  ].join("\n")
+}
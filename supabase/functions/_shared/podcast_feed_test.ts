@@ -0,0 +1,55 @@
+import assert from "node:assert/strict"
+import { buildChapteredAudio, localTts, splitChapters } from "./briefing_audio.ts"
+import { clockTime, episodeSummary, episodeTitle, escapeXml, podcastFeed } from "./podcast_feed.ts"
+
+const channel = {
+  title: "ArkLine Briefings",
+  link: "https://arkline.app",
+  description: "Your daily market briefings.",
+  author: "ArkLine",
+}
+
+Deno.test("formats episode titles and clock times", () => {
+  assert.equal(episodeTitle("2026-07-24", "morning"), "Morning Intel — Fri, Jul 24")
+  assert.equal(episodeTitle("2026-07-25", "weekend"), "Weekend Pulse — Sat, Jul 25")
+  assert.equal(clockTime(3725.5), "01:02:05")
+  assert.equal(clockTime(3725.5, true), "01:02:05.500")
+  assert.equal(escapeXml(`S&P <"up">`), "S&amp;P &lt;&quot;up&quot;&gt;")
+  assert.equal(episodeSummary("## TLDR\nRisk-On: **BTC** at $97k.\nS&P firm.\n\n## Macro\nCPI soft."), "Risk-On: BTC at $97k. S&P firm.")
+  assert.equal(episodeSummary("Plain briefing."), "Plain briefing.")
+})
+
+Deno.test("renders a feed with enclosures and chapters from stand-in audio", async () => {
+  const built = await buildChapteredAudio(
+    splitChapters("## TLDR\nBTC & ETH firm.\n\n## Technical\nHolding support.\n\n## Week Ahead\nFOMC Wednesday."),
+    localTts(),
+    "Morning Intel — Fri, Jul 24",
+  )
+  const xml = podcastFeed(channel, [{
+    guid: "2026-07-24_morning",
+    title: episodeTitle("2026-07-24", "morning"),
+    description: "BTC & ETH firm.",
+    published: "2026-07-24T13:05:00Z",
+    audioUrl: "https://example.supabase.co/functions/v1/briefing-podcast?token=abc&episode=2026-07-24_morning",
+    bytes: built.audio.length,
+    duration: built.duration,
+    chapters: built.chapters,
+  }])
+
+  assert.ok(xml.startsWith(`<?xml version="1.0" encoding="UTF-8"?>`))
+  assert.match(xml, /<title>Morning Intel — Fri, Jul 24<\/title>/)
+  assert.match(xml, /<pubDate>Fri, 24 Jul 2026 13:05:00 GMT<\/pubDate>/)
+  assert.match(xml, /<description>BTC &amp; ETH firm\.<\/description>/)
+  assert.match(xml, new RegExp(`<enclosure url="[^"]+token=abc&amp;episode=2026-07-24_morning" length="${built.audio.length}" type="audio/mpeg" />`))
+  assert.match(xml, new RegExp(`<itunes:duration>${clockTime(built.duration)}</itunes:duration>`))
+  const starts = [...xml.matchAll(/<psc:chapter start="([^"]+)" title="([^"]+)"/g)].map((m) => [m[1], m[2]])
+  assert.deepEqual(starts.map(([, t]) => t), ["Macro", "Crypto", "Calendar"])
+  assert.equal(starts[0][0], "00:00:00.000")
+  assert.equal(starts[1][0], clockTime(built.chapters[1].start, true))
+})
+
+Deno.test("renders an empty feed without items", () => {
+  const xml = podcastFeed({ ...channel, imageUrl: "https://arkline.app/cover.png" }, [])
+  assert.doesNotMatch(xml, /<item>/)
+  assert.match(xml, /<itunes:image href="https:\/\/arkline\.app\/cover\.png" \/>/)
+})
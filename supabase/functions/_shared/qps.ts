@@ -0,0 +1,239 @@
+import type { Candle } from "./candles.ts"
+import { closesOf } from "./candles.ts"
+import { emaSeries, rsi as computeRSI, smaSeries } from "./indicators.ts"
+
+/**
+ * QPS (positioning signal) scoring shared by compute-positioning-signals and
+ * its backfill/evaluation modes.
+ *
+ * computeTrendScore and deriveSignal are the live scoring — the daily run
+ * calls them on the last LIVE_WINDOW candles. replaySignals walks a full
+ * history day by day, giving each day exactly the trailing window the live
+ * run would have seen on that day, so a backfilled signal is the signal the
+ * function would have published (minus the VIX contrarian boost, which
+ * depends on another asset's history).
+ */
+
+export type QpsSignal = "bullish" | "neutral" | "bearish"
+
+export interface TrendScore {
+  trendScore: number
+  rsi: number | null
+  above200SMA: boolean
+  price: number
+  aboveSma21: boolean
+  aboveSma50: boolean
+  bmsbStatus: string
+  channelPosition: number | null
+}
+
+export interface SignalThresholds {
+  bullish: number       // trend score for bullish when a 200 SMA exists
+  bullishNo200: number  // ... and when the history is too short for one
+  neutral: number       // below this is bearish
+}
+
+export const DEFAULT_THRESHOLDS: SignalThresholds = { bullish: 70, bullishNo200: 62, neutral: 45 }
+
+/** Candles the live run scores per source (Coinbase request size, FMP trim). */
+export const LIVE_WINDOW = { coinbase: 210, fmp: 300 } as const
+
+/** Fewest candles that produce a signal (SMA 21 + the current bar). */
+export const MIN_CANDLES = 22
+
+// ─── Trend Score Computation ────────────────────────────────────────────────
+//
+// Scoring weights (v4 — 200 SMA penalty 2026-03-29):
+//
+// PRIMARY: Daily close relative to key SMAs (user's framework)
+//   Above 200 SMA:   +18  (strongest bullish signal — long-term trend intact)
+//   Below 200 SMA:   -8   (bearish pressure — below institutional trend line)
+//   Above 50 SMA:    +8   (intermediate support holding)
+//   Above 21 SMA:    +8   (short-term trend positive)
+//   Below 21 SMA:    -10  (short-term trend broken — bearish)
+//
+// SECONDARY: SMA crossover direction
+//   21 SMA > 50 SMA: +6   (trend confirmation)
+//   21 SMA < 50 SMA: -6   (trend deterioration)
+//
+// TERTIARY: RSI & BMSB fine-tuning
+//   RSI ≤30: +5, RSI ≤40: +3, RSI ≥75: -3
+//   BMSB above: +4, in band: +1, below: -2
+//
+// Signal thresholds: ≥70 bullish, ≥45 neutral, <45 bearish (DEFAULT_THRESHOLDS)
+
+export function computeTrendScore(candles: Candle[]): TrendScore {
+  const closes = closesOf(candles)
+  const price = closes[closes.length - 1]
+
+  const sma21 = smaSeries(closes, 21)
+  const sma50 = smaSeries(closes, 50)
+  const rsi = computeRSI(closes)
+
+  const latestSma21 = sma21[sma21.length - 1]
+  const latestSma50 = sma50[sma50.length - 1]
+
+  // SMA 200 — only if enough data
+  const sma200 = closes.length >= 200 ? smaSeries(closes, 200) : []
+  const latestSma200 = sma200.length > 0 ? sma200[sma200.length - 1] : NaN
+  const above200SMA = !isNaN(latestSma200) && price > latestSma200
+
+  // Bull Market Support Band: 20W SMA (~140D) and 21W EMA (~147D)
+  const hasBMSB = closes.length >= 148
+  const sma140 = hasBMSB ? smaSeries(closes, 140) : []
+  const ema147 = hasBMSB ? emaSeries(closes, 147, "first") : []
+  const bmsbSma = sma140.length > 0 ? sma140[sma140.length - 1] : NaN
+  const bmsbEma = ema147.length > 0 ? ema147[ema147.length - 1] : NaN
+
+  const aboveSma21 = !isNaN(latestSma21) && price > latestSma21
+  const aboveSma50 = !isNaN(latestSma50) && price > latestSma50
+
+  // ── Base: 50 ──
+  let score = 50
+
+  // ── PRIMARY: SMA position (key framework) ──
+  // 200 SMA = bull/bear dividing line (symmetric weighting)
+  if (above200SMA) {
+    score += 18
+  } else if (!isNaN(latestSma200)) {
+    score -= 8   // Below 200 SMA = bearish pressure
+  }
+
+  // Above 50 SMA = intermediate support holding
+  if (aboveSma50) score += 8
+
+  // Above 21 SMA = short-term trend positive
+  if (aboveSma21) {
+    score += 8
+  } else if (!isNaN(latestSma21)) {
+    // Below 21 SMA = short-term trend broken
+    score -= 10
+  }
+
+  // ── SECONDARY: SMA crossover direction ──
+  if (!isNaN(latestSma21) && !isNaN(latestSma50)) {
+    if (latestSma21 > latestSma50) {
+      score += 6   // Trend confirmation
+    } else {
+      score -= 6   // Trend deterioration
+    }
+  }
+
+  // ── TERTIARY: RSI mean-reversion ──
+  if (rsi !== null) {
+    if (rsi <= 30) {
+      score += 5        // Deeply oversold — contrarian boost
+    } else if (rsi <= 40) {
+      score += 3        // Approaching oversold — mild boost
+    } else if (rsi >= 75) {
+      score -= 3        // Overbought — exhaustion drag
+    }
+  }
+
+  // ── TERTIARY: BMSB position ──
+  if (!isNaN(bmsbSma) && !isNaN(bmsbEma)) {
+    const bmsbTop = Math.max(bmsbSma, bmsbEma)
+    const bmsbBot = Math.min(bmsbSma, bmsbEma)
+    if (price > bmsbTop) {
+      score += 4
+    } else if (price >= bmsbBot) {
+      score += 1
+    } else {
+      score -= 2
+    }
+  }
+
+  // Clamp to 0-100
+  score = Math.max(0, Math.min(100, score))
+
+  // BMSB status for storage
+  let bmsbStatus = "unknown"
+  if (!isNaN(bmsbSma) && !isNaN(bmsbEma)) {
+    const bmsbTop = Math.max(bmsbSma, bmsbEma)
+    const bmsbBot = Math.min(bmsbSma, bmsbEma)
+    if (price > bmsbTop) bmsbStatus = "above"
+    else if (price >= bmsbBot) bmsbStatus = "within"
+    else bmsbStatus = "below"
+  }
+
+  // Channel position: where price sits between 21 SMA (bottom) and recent high (top), 0-1
+  const channelPosition = (!isNaN(latestSma21) && closes.length >= 21)
+    ? Math.max(0, Math.min(1, (price - latestSma21) / (Math.max(...closes.slice(-21)) - latestSma21 || 1)))
+    : null
+
+  return { trendScore: score, rsi, above200SMA, price, aboveSma21, aboveSma50, bmsbStatus, channelPosition }
+}
+
+// ─── Signal Derivation ──────────────────────────────────────────────────────
+
+export function deriveSignal(
+  trendScore: number,
+  above200SMA: boolean,
+  has200SMA: boolean,
+  aboveSma21: boolean,
+  aboveSma50: boolean,
+  thresholds: SignalThresholds = DEFAULT_THRESHOLDS,
+): QpsSignal {
+  // Assets without enough history for a 200 SMA can't earn the +18 bonus,
+  // so lower the bullish threshold proportionally (70 → 62)
+  const bullishThreshold = has200SMA ? thresholds.bullish : thresholds.bullishNo200
+  if (trendScore >= bullishThreshold) {
+    // Below both 21 AND 50 SMA caps bullish → neutral
+    // (short-term trend is broken — no bullish signal regardless of score)
+    if (!aboveSma21 && !aboveSma50) return "neutral"
+    // Note: being below the 200 SMA still penalizes the score (-8 points)
+    // but no longer hard-caps to neutral. The score must overcome the penalty
+    // on its own merit (21/50 SMA, RSI, channel, BMSB all need to align).
+    return "bullish"
+  }
+  if (trendScore >= thresholds.neutral) {
+    return "neutral"
+  }
+  return "bearish"
+}
+
+// ─── Historical Replay ──────────────────────────────────────────────────────
+
+/** One replayed day — the fields positioning_signal_history stores. */
+export interface SignalPoint {
+  date: string          // YYYY-MM-DD of the daily candle
+  close: number
+  signal: QpsSignal
+  trendScore: number
+  rsi: number | null
+  above200SMA: boolean
+  has200SMA: boolean
+  aboveSma21: boolean
+  aboveSma50: boolean
+}
+
+/**
+ * Signals for every day of an oldest-first daily series. Day i is scored on
+ * candles (i - window, i] — the same trailing window the live run uses — so
+ * days before MIN_CANDLES are skipped and has200SMA turns on once 200 bars
+ * are in the window, exactly as it did live.
+ */
+export function replaySignals(
+  candles: Candle[],
+  window: number,
+  thresholds: SignalThresholds = DEFAULT_THRESHOLDS,
+): SignalPoint[] {
+  const points: SignalPoint[] = []
+  for (let i = MIN_CANDLES - 1; i < candles.length; i++) {
+    const slice = candles.slice(Math.max(0, i + 1 - window), i + 1)
+    const s = computeTrendScore(slice)
+    const has200SMA = slice.length >= 200
+    points.push({
+      date: candles[i].open_time.slice(0, 10),
+      close: s.price,
+      signal: deriveSignal(s.trendScore, s.above200SMA, has200SMA, s.aboveSma21, s.aboveSma50, thresholds),
+      trendScore: Math.round(s.trendScore * 10) / 10,
+      rsi: s.rsi !== null ? Math.round(s.rsi * 10) / 10 : null,
+      above200SMA: s.above200SMA,
+      has200SMA,
+      aboveSma21: s.aboveSma21,
+      aboveSma50: s.aboveSma50,
+    })
+  }
+  return points
+}
@@ -0,0 +1,253 @@
+import { deriveSignal } from "./qps.ts"
+import type { QpsSignal, SignalThresholds } from "./qps.ts"
+
+/**
+ * Walk-forward evaluation of QPS signal history (positioning_signal_history).
+ *
+ * Every stored day is one observation: the signal published (or replayed) at
+ * that day's close and the asset's return from that close to the last close
+ * on or before close + h calendar days, for h in HORIZONS. Nothing after the
+ * signal day feeds its own score — the replay only ever sees trailing
+ * candles — so the forward returns are out-of-sample by construction.
+ *
+ * Daily observations overlap (a 90d window shares 89 days with the next
+ * one), so counts overstate independence; read hit rates and spreads
+ * alongside the per-year folds rather than as significance tests.
+ *
+ * Passing thresholds re-derives each day's signal from the stored score and
+ * SMA flags, which is how alternative cut-offs are compared against the
+ * live 70/62/45 on identical data.
+ */
+
+export const HORIZONS = [7, 30, 90] as const
+const SIGNALS: QpsSignal[] = ["bullish", "neutral", "bearish"]
+const DAY_MS = 86_400_000
+
+/** One positioning_signal_history row (the columns the evaluation reads). */
+export interface HistoryRow {
+  asset: string
+  category: string | null
+  signal_date: string   // YYYY-MM-DD
+  signal: QpsSignal
+  price: number
+  trend_score: number
+  above_200_sma: boolean
+  has_200_sma: boolean
+  above_21_sma: boolean | null
+  above_50_sma: boolean | null
+}
+
+export interface StateStats {
+  count: number
+  meanReturn: number | null     // % forward return
+  medianReturn: number | null
+  /** Share of calls that went the called way: bullish > 0, bearish < 0. Null for neutral. */
+  hitRate: number | null
+}
+
+export interface HorizonStats {
+  horizon: number
+  states: Record<QpsSignal, StateStats>
+  /** Mean bullish return minus mean bearish return — the signal's edge. */
+  spread: number | null
+  /** Hit rate over bullish and bearish calls together. */
+  directionalHitRate: number | null
+}
+
+export interface FlipStats {
+  days: number           // signal days observed
+  flips: number          // day-over-day signal changes
+  flipsPerYear: number | null
+  avgRunDays: number | null
+}
+
+export interface FoldStats {
+  year: number
+  spreads: Record<number, number | null>  // horizon → spread
+}
+
+export interface GroupReport {
+  key: string            // asset ticker, category, or "all"
+  assets: number
+  from: string | null
+  to: string | null
+  horizons: HorizonStats[]
+  flips: FlipStats
+  folds: FoldStats[]
+}
+
+export interface QpsEvaluation {
+  thresholds: SignalThresholds | null
+  overall: GroupReport
+  byCategory: GroupReport[]
+  byAsset: GroupReport[]
+}
+
+interface Observation {
+  date: string
+  signal: QpsSignal
+  forward: Record<number, number | null>
+}
+
+interface AssetSeries {
+  asset: string
+  category: string
+  observations: Observation[]
+  flips: number
+  spanDays: number
+}
+
+function round(n: number | null, dp = 2): number | null {
+  return n === null ? null : Math.round(n * 10 ** dp) / 10 ** dp
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const s = [...values].sort((a, b) => a - b)
+  const mid = s.length >> 1
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2
+}
+
+/** Index of the last date ≤ target in an ascending array of epoch ms, or -1. */
+function lastAtOrBefore(times: number[], target: number): number {
+  let lo = 0
+  let hi = times.length - 1
+  let found = -1
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1
+    if (times[mid] <= target) {
+      found = mid
+      lo = mid + 1
+    } else {
+      hi = mid - 1
+    }
+  }
+  return found
+}
+
+function buildSeries(rows: HistoryRow[], thresholds: SignalThresholds | null): AssetSeries[] {
+  const byAsset = new Map<string, HistoryRow[]>()
+  for (const r of rows) {
+    const list = byAsset.get(r.asset) ?? []
+    list.push(r)
+    byAsset.set(r.asset, list)
+  }
+
+  const series: AssetSeries[] = []
+  for (const [asset, list] of byAsset) {
+    list.sort((a, b) => (a.signal_date < b.signal_date ? -1 : 1))
+    const times = list.map((r) => Date.parse(`${r.signal_date}T00:00:00Z`))
+    const last = times[times.length - 1]
+
+    let flips = 0
+    const observations: Observation[] = list.map((r, i) => {
+      const signal = thresholds
+        ? deriveSignal(Number(r.trend_score), r.above_200_sma, r.has_200_sma, r.above_21_sma ?? false, r.above_50_sma ?? false, thresholds)
+        : r.signal
+      const forward: Record<number, number | null> = {}
+      for (const h of HORIZONS) {
+        const target = times[i] + h * DAY_MS
+        // A horizon that runs past the end of the history has no outcome yet.
+        const j = target <= last ? lastAtOrBefore(times, target) : -1
+        forward[h] = j > i && r.price > 0 ? (Number(list[j].price) / Number(r.price) - 1) * 100 : null
+      }
+      return { date: r.signal_date, signal, forward }
+    })
+    for (let i = 1; i < observations.length; i++) {
+      if (observations[i].signal !== observations[i - 1].signal) flips++
+    }
+
+    series.push({
+      asset,
+      category: list[0].category ?? "other",
+      observations,
+      flips,
+      spanDays: (last - times[0]) / DAY_MS,
+    })
+  }
+  return series
+}
+
+function summarize(key: string, group: AssetSeries[]): GroupReport {
+  const all = group.flatMap((s) => s.observations)
+  const dates = all.map((o) => o.date).sort()
+
+  const horizons: HorizonStats[] = HORIZONS.map((h) => {
+    const states = {} as Record<QpsSignal, StateStats>
+    let hits = 0
+    let calls = 0
+    for (const signal of SIGNALS) {
+      const returns = all.filter((o) => o.signal === signal && o.forward[h] !== null).map((o) => o.forward[h]!)
+      const mean = returns.length ? returns.reduce((a, b) => a + b, 0) / returns.length : null
+      let hitRate: number | null = null
+      if (signal !== "neutral" && returns.length) {
+        const wins = returns.filter((r) => (signal === "bullish" ? r > 0 : r < 0)).length
+        hits += wins
+        calls += returns.length
+        hitRate = wins / returns.length
+      }
+      states[signal] = {
+        count: returns.length,
+        meanReturn: round(mean),
+        medianReturn: round(median(returns)),
+        hitRate: round(hitRate, 4),
+      }
+    }
+    const bull = states.bullish.meanReturn
+    const bear = states.bearish.meanReturn
+    return {
+      horizon: h,
+      states,
+      spread: bull !== null && bear !== null ? round(bull - bear) : null,
+      directionalHitRate: calls ? round(hits / calls, 4) : null,
+    }
+  })
+
+  const days = all.length
+  const flips = group.reduce((s, g) => s + g.flips, 0)
+  const years = group.reduce((s, g) => s + g.spanDays, 0) / 365
+  const flipStats: FlipStats = {
+    days,
+    flips,
+    flipsPerYear: years > 0 ? round(flips / years) : null,
+    avgRunDays: days ? round(days / (flips + group.length)) : null,
+  }
+
+  // Per-year folds: the edge should hold up in each year, not just on average.
+  const yearsSeen = [...new Set(all.map((o) => Number(o.date.slice(0, 4))))].sort()
+  const folds: FoldStats[] = yearsSeen.map((year) => {
+    const inYear = all.filter((o) => Number(o.date.slice(0, 4)) === year)
+    const spreads: Record<number, number | null> = {}
+    for (const h of HORIZONS) {
+      const mean = (signal: QpsSignal) => {
+        const r = inYear.filter((o) => o.signal === signal && o.forward[h] !== null).map((o) => o.forward[h]!)
+        return r.length ? r.reduce((a, b) => a + b, 0) / r.length : null
+      }
+      const bull = mean("bullish")
+      const bear = mean("bearish")
+      spreads[h] = bull !== null && bear !== null ? round(bull - bear) : null
+    }
+    return { year, spreads }
+  })
+
+  return {
+    key,
+    assets: group.length,
+    from: dates[0] ?? null,
+    to: dates[dates.length - 1] ?? null,
+    horizons,
+    flips: flipStats,
+    folds,
+  }
+}
+
+export function evaluateSignals(rows: HistoryRow[], thresholds: SignalThresholds | null = null): QpsEvaluation {
+  const series = buildSeries(rows, thresholds)
+  const categories = [...new Set(series.map((s) => s.category))].sort()
+  return {
+    thresholds,
+    overall: summarize("all", series),
+    byCategory: categories.map((c) => summarize(c, series.filter((s) => s.category === c))),
+    byAsset: series.map((s) => summarize(s.asset, [s])).sort((a, b) => a.key.localeCompare(b.key)),
+  }
+}
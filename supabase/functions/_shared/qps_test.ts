@@ -0,0 +1,97 @@
+import assert from "node:assert/strict"
+import { computeTrendScore, DEFAULT_THRESHOLDS, deriveSignal, MIN_CANDLES, replaySignals } from "./qps.ts"
+import { evaluateSignals } from "./qps_evaluation.ts"
+import type { HistoryRow } from "./qps_evaluation.ts"
+import { loadFixture } from "./testdata/fixture.ts"
+
+const daily = loadFixture()["1d"]
+
+Deno.test("deriveSignal uses the lower bullish bar without a 200 SMA", () => {
+  assert.equal(deriveSignal(66, false, true, true, true), "neutral")
+  assert.equal(deriveSignal(66, false, false, true, true), "bullish")
+  assert.equal(deriveSignal(80, true, true, false, false), "neutral")
+  assert.equal(deriveSignal(44.9, false, true, false, false), "bearish")
+})
+
+Deno.test("deriveSignal honours threshold overrides", () => {
+  const strict = { ...DEFAULT_THRESHOLDS, bullish: 75, neutral: 50 }
+  assert.equal(deriveSignal(72, true, true, true, true), "bullish")
+  assert.equal(deriveSignal(72, true, true, true, true, strict), "neutral")
+  assert.equal(deriveSignal(48, false, true, true, true, strict), "bearish")
+})
+
+Deno.test("replaySignals scores each day on its trailing live window", () => {
+  const window = 120
+  const points = replaySignals(daily, window)
+  assert.equal(points.length, daily.length - (MIN_CANDLES - 1))
+  assert.equal(points[0].date, daily[MIN_CANDLES - 1].open_time.slice(0, 10))
+
+  // The last replayed day is what a live run on that day would have scored
+  const live = computeTrendScore(daily.slice(-window))
+  const last = points[points.length - 1]
+  assert.equal(last.trendScore, Math.round(live.trendScore * 10) / 10)
+  assert.equal(last.close, daily[daily.length - 1].close)
+  assert.equal(last.has200SMA, false)
+})
+
+Deno.test("replaySignals only sees the past", () => {
+  const full = replaySignals(daily, 210)
+  const truncated = replaySignals(daily.slice(0, 150), 210)
+  assert.deepEqual(full.slice(0, truncated.length), truncated)
+})
+
+function row(asset: string, day: number, signal: HistoryRow["signal"], price: number, category = "crypto"): HistoryRow {
+  const date = new Date(Date.UTC(2025, 0, 1 + day)).toISOString().slice(0, 10)
+  return {
+    asset, category, signal_date: date, signal, price, trend_score: signal === "bullish" ? 75 : signal === "bearish" ? 40 : 55,
+    above_200_sma: true, has_200_sma: true, above_21_sma: true, above_50_sma: true,
+  }
+}
+
+Deno.test("evaluateSignals reports forward returns and hit rates per state", () => {
+  // 40 bullish days rising 1%/day, then 60 bearish days falling 1%/day
+  const rows: HistoryRow[] = []
+  let price = 100
+  for (let d = 0; d < 100; d++) {
+    rows.push(row("AAA", d, d < 40 ? "bullish" : "bearish", price))
+    price *= d < 40 ? 1.01 : 0.99
+  }
+  const { overall } = evaluateSignals(rows)
+  const week = overall.horizons.find((h) => h.horizon === 7)!
+
+  // Every bullish day has a close 7 days out; the top is at day 40
+  assert.equal(week.states.bullish.count, 40)
+  assert.ok(week.states.bullish.meanReturn! > 0)
+  assert.equal(week.states.bearish.hitRate, 1)
+  assert.equal(week.states.bearish.count, 53) // the last 7 days have no outcome yet
+  assert.equal(week.states.neutral.count, 0)
+  assert.ok(week.spread! > 0)
+
+  const quarter = overall.horizons.find((h) => h.horizon === 90)!
+  assert.equal(quarter.states.bullish.count + quarter.states.bearish.count, 10)
+})
+
+Deno.test("evaluateSignals counts flips and groups by category", () => {
+  const signals: HistoryRow["signal"][] = ["bullish", "bullish", "neutral", "neutral", "bearish", "bullish"]
+  const rows = [
+    ...signals.map((s, d) => row("AAA", d, s, 100)),
+    ...signals.map((_, d) => row("SPY", d, "neutral", 100, "index")),
+  ]
+  const report = evaluateSignals(rows)
+  const aaa = report.byAsset.find((r) => r.key === "AAA")!
+  assert.equal(aaa.flips.flips, 3)
+  assert.equal(aaa.flips.avgRunDays, 1.5)
+  assert.equal(report.byAsset.find((r) => r.key === "SPY")!.flips.flips, 0)
+  assert.deepEqual(report.byCategory.map((c) => c.key), ["crypto", "index"])
+  assert.equal(report.overall.flips.flips, 3)
+})
+
+Deno.test("evaluateSignals re-derives signals under alternative thresholds", () => {
+  const rows = Array.from({ length: 10 }, (_, d) => row("AAA", d, "bullish", 100 + d))
+  const week = (t?: typeof DEFAULT_THRESHOLDS) => evaluateSignals(rows, t).overall.horizons[0].states
+  assert.equal(week().bullish.count, 3)
+  // Trend score 75 no longer clears a bullish bar of 80
+  const strict = week({ ...DEFAULT_THRESHOLDS, bullish: 80 })
+  assert.equal(strict.bullish.count, 0)
+  assert.equal(strict.neutral.count, 3)
+})
@@ -0,0 +1,37 @@
+/**
+ * Candle fixture for the shared-module tests.
+ *
+ * btc_candles.json is in the ohlc_candles export format that
+ * fibonacci-pipeline/backtest.ts reads and writes (200 × 1d, 250 × 4h,
+ * 100 × 1h, ending 2026-05-01T00:00Z). The series is synthetic — a seeded
+ * random walk with trending and ranging stretches — so the tests are
+ * deterministic and don't depend on exchange data. Replacing it with a real
+ * export changes the golden values in the *_test.ts files, nothing else.
+ */
+
+import type { Candle } from "../candles.ts"
+import rows from "./btc_candles.json" with { type: "json" }
+
+export const FIXTURE_END = new Date("2026-05-01T00:00:00Z")
+
+/** Oldest-first candles per timeframe, shaped like the pipeline's fetch. */
+export function loadFixture(): Record<string, Candle[]> {
+  const candles: Record<string, Candle[]> = {}
+  for (const row of rows) {
+    ;(candles[row.timeframe] ??= []).push({
+      open_time: new Date(row.open_time).toISOString(),
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+      volume: row.volume,
+    })
+  }
+  return candles
+}
+
+/** Last 1h close — what the pipeline uses as the current price. */
+export function fixturePrice(candles: Record<string, Candle[]>): number {
+  const hourly = candles["1h"]
+  return hourly[hourly.length - 1].close
+}
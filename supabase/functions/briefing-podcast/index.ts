@@ -0,0 +1,128 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import type { ChapterMark } from "../_shared/briefing_audio.ts"
+import { episodeSummary, episodeTitle, podcastFeed, type FeedEpisode } from "../_shared/podcast_feed.ts"
+
+/**
+ * briefing-podcast — a member's private podcast feed of recent briefings.
+ *
+ *   GET ?token=<feed token>                      RSS of the latest episodes
+ *   GET ?token=<feed token>&episode=<briefingKey> 302 to a fresh signed MP3 URL
+ *
+ * Podcast apps cannot sign in, so the token in the URL is the credential; it
+ * comes from rotate_podcast_feed_token() and stops working once rotated.
+ * Enclosures point back here rather than at storage so a feed an app cached
+ * days ago still downloads.
+ */
+
+const EPISODES = 30
+
+Deno.serve(async (req) => {
+  const text = (body: string, status: number) =>
+    new Response(body, { status, headers: { "Content-Type": "text/plain; charset=utf-8" } })
+
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return text("Method not allowed", 405)
+  }
+
+  const url = new URL(req.url)
+  const token = url.searchParams.get("token") ?? ""
+  if (!/^[0-9a-f]{64}$/.test(token)) {
+    return text("Feed not found", 404)
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!
+  const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!)
+
+  const { data: owner } = await supabase
+    .from("podcast_feed_tokens")
+    .select("user_id")
+    .eq("token", token)
+    .maybeSingle()
+  if (!owner) {
+    return text("Feed not found", 404)
+  }
+
+  const episodeKey = url.searchParams.get("episode")
+  if (episodeKey) {
+    const { data: audio } = await supabase
+      .from("briefing_audio")
+      .select("audio_path, summary_date, slot")
+      .eq("briefing_key", episodeKey)
+      .maybeSingle()
+    if (!audio) return text("Episode not found", 404)
+    // A briefing rejected after the feed was fetched must not stay playable.
+    const { data: live } = await supabase
+      .from("market_summaries")
+      .select("id")
+      .eq("summary_date", audio.summary_date)
+      .eq("slot", audio.slot)
+      .neq("review_status", "rejected")
+      .limit(1)
+      .maybeSingle()
+    if (!live) return text("Episode not found", 404)
+    const { data: signed, error } = await supabase.storage
+      .from("briefing-audio")
+      .createSignedUrl(audio.audio_path, 6 * 3600)
+    if (error || !signed?.signedUrl) {
+      console.error(`Failed to sign ${episodeKey}:`, error?.message)
+      return text("Episode unavailable", 503)
+    }
+    return new Response(null, { status: 302, headers: { Location: signed.signedUrl } })
+  }
+
+  const { data: audioRows, error: audioError } = await supabase
+    .from("briefing_audio")
+    .select("briefing_key, summary_date, slot, bytes, duration, chapters, generated_at")
+    .order("summary_date", { ascending: false })
+    .order("generated_at", { ascending: false })
+    .limit(EPISODES)
+  if (audioError) {
+    console.error("Failed to load briefing audio:", audioError.message)
+    return text("Feed unavailable", 503)
+  }
+
+  // Rejected briefings stay out of the feed, as they do everywhere else.
+  const dates = [...new Set((audioRows ?? []).map((r) => r.summary_date as string))]
+  const { data: briefings } = dates.length
+    ? await supabase
+      .from("market_summaries")
+      .select("summary_date, slot, summary, generated_at")
+      .in("summary_date", dates)
+      .neq("review_status", "rejected")
+    : { data: [] }
+  const byKey = new Map((briefings ?? []).map((b) => [`${b.summary_date}_${b.slot}`, b]))
+
+  const episodes: FeedEpisode[] = []
+  for (const row of audioRows ?? []) {
+    const briefing = byKey.get(row.briefing_key)
+    if (!briefing) continue
+    episodes.push({
+      guid: `${row.briefing_key}@${briefing.generated_at}`,
+      title: episodeTitle(row.summary_date, row.slot),
+      description: episodeSummary(briefing.summary as string),
+      published: briefing.generated_at,
+      audioUrl: `${supabaseUrl}/functions/v1/briefing-podcast?token=${token}&episode=${encodeURIComponent(row.briefing_key)}`,
+      bytes: row.bytes,
+      duration: Number(row.duration),
+      chapters: (row.chapters ?? []) as ChapterMark[],
+    })
+  }
+
+  supabase
+    .from("podcast_feed_tokens")
+    .update({ last_fetched_at: new Date().toISOString() })
+    .eq("user_id", owner.user_id)
+    .then(({ error }) => { if (error) console.error("Failed to stamp feed fetch:", error.message) })
+
+  const xml = podcastFeed({
+    title: "ArkLine Briefings",
+    link: "https://arkline.app",
+    description: "Your morning and evening ArkLine market briefings, read aloud in chapters: macro, crypto, signals and the calendar ahead.",
+    author: "ArkLine",
+  }, episodes)
+
+  return new Response(req.method === "HEAD" ? null : xml, {
+    status: 200,
+    headers: { "Content-Type": "application/rss+xml; charset=utf-8", "Cache-Control": "private, max-age=300" },
+  })
+})
@@ -1,4 +1,14 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import {
+  buildChapteredAudio,
+  localTts,
+  openAiTts,
+  parseBriefingKey,
+  splitChapters,
+  type CalendarEvent,
+  type TtsProvider,
+} from "../_shared/briefing_audio.ts"
+import { episodeTitle } from "../_shared/podcast_feed.ts"
 
 Deno.serve(async (req) => {
   const ok = (body: Record<string, unknown>, status = 200) =>
@@ -25,9 +35,12 @@ Deno.serve(async (req) => {
     return ok({ error: "Invalid request body" })
   }
 
-  const { briefingKey, summaryText } = payload
-  if (!briefingKey || !summaryText) {
-    return ok({ error: "briefingKey and summaryText are required" })
+  // summaryText is still sent by older app builds; the audio is always voiced
+  // from the stored briefing so a caller cannot put other text in the feed.
+  const { briefingKey } = payload
+  const parsedKey = briefingKey ? parseBriefingKey(briefingKey) : null
+  if (!briefingKey || !parsedKey) {
+    return ok({ error: "briefingKey is required" })
   }
 
   const supabaseUrl = Deno.env.get("SUPABASE_URL")!
@@ -47,65 +60,61 @@ Deno.serve(async (req) => {
     }
   }
 
+  const { data: briefing } = await supabase
+    .from("market_summaries")
+    .select("summary, context, generated_at")
+    .eq("summary_date", parsedKey.summaryDate)
+    .eq("slot", parsedKey.slot)
+    .neq("review_status", "rejected")
+    .maybeSingle()
+  if (!briefing?.summary) {
+    return ok({ error: "Unknown briefing" })
+  }
+
   const bucket = "briefing-audio"
-  const voiceVersion = "v2" // bump to invalidate cache on voice change
+  const voiceVersion = "v3" // bump to invalidate cache on voice or chapter changes
   const filePath = `${voiceVersion}/${briefingKey}.mp3`
 
-  // Check for cached audio
-  try {
-    const { data: existing } = await supabase.storage
-      .from(bucket)
-      .createSignedUrl(filePath, 3600)
-
-    if (existing?.signedUrl) {
+  // Cached audio counts only if it was voiced from the briefing as it stands —
+  // a briefing rewritten after review gets new audio.
+  const { data: existing } = await supabase
+    .from("briefing_audio")
+    .select("audio_path, chapters, duration, generated_at")
+    .eq("briefing_key", briefingKey)
+    .maybeSingle()
+  if (existing?.audio_path === filePath && Date.parse(existing.generated_at) >= Date.parse(briefing.generated_at)) {
+    const { data: signed } = await supabase.storage.from(bucket).createSignedUrl(filePath, 3600)
+    if (signed?.signedUrl) {
       console.log(`Returning cached audio for ${briefingKey}`)
-      return ok({ audioUrl: existing.signedUrl })
+      return ok({ audioUrl: signed.signedUrl, chapters: existing.chapters, duration: Number(existing.duration) })
     }
-  } catch (err) {
-    console.log(`No cached audio for ${briefingKey}:`, err instanceof Error ? err.message : String(err))
   }
 
-  // Strip markdown for TTS
-  const spokenText = stripMarkdown(summaryText)
-  console.log(`Generating TTS for ${briefingKey} (${spokenText.length} chars)`)
-
-  const openaiKey = Deno.env.get("OPENAI_API_KEY")
-  if (!openaiKey) {
-    console.error("OPENAI_API_KEY not set")
-    return ok({ error: "TTS service unavailable — no API key" })
+  // TTS_PROVIDER=local swaps in the silent stand-in voice for local runs.
+  let provider: TtsProvider
+  if (Deno.env.get("TTS_PROVIDER") === "local") {
+    provider = localTts()
+  } else {
+    const openaiKey = Deno.env.get("OPENAI_API_KEY")
+    if (!openaiKey) {
+      console.error("OPENAI_API_KEY not set")
+      return ok({ error: "TTS service unavailable — no API key" })
+    }
+    provider = openAiTts(openaiKey)
   }
-  console.log(`OPENAI_API_KEY present: true`)
 
-  // Call OpenAI TTS
-  try {
-    const ttsResponse = await fetch("https://api.openai.com/v1/audio/speech", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${openaiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "tts-1",
-        voice: "onyx",
-        input: spokenText,
-        response_format: "mp3",
-      }),
-    })
-
-    if (!ttsResponse.ok) {
-      const errorText = await ttsResponse.text()
-      console.error(`OpenAI TTS error: ${ttsResponse.status} ${errorText}`)
-      return ok({ error: `TTS failed (${ttsResponse.status}): ${errorText}` })
-    }
+  const upcoming = (parseContext(briefing.context)?.economicEventsUpcoming ?? []) as CalendarEvent[]
+  const chapters = splitChapters(briefing.summary as string, Array.isArray(upcoming) ? upcoming : [])
+  console.log(`Generating TTS for ${briefingKey}: ${chapters.map((c) => `${c.id} (${c.text.length} chars)`).join(", ")}`)
 
-    const audioBuffer = await ttsResponse.arrayBuffer()
-    const audioBytes = new Uint8Array(audioBuffer)
-    console.log(`TTS generated: ${audioBytes.length} bytes`)
+  try {
+    const built = await buildChapteredAudio(chapters, provider, episodeTitle(parsedKey.summaryDate, parsedKey.slot))
+    console.log(`TTS generated: ${built.audio.length} bytes, ${built.duration.toFixed(1)}s`)
 
     // Upload to Supabase Storage
     const { error: uploadError } = await supabase.storage
       .from(bucket)
-      .upload(filePath, audioBytes, {
+      .upload(filePath, built.audio, {
         contentType: "audio/mpeg",
         upsert: true,
       })
@@ -115,6 +124,19 @@ Deno.serve(async (req) => {
       return ok({ error: "Failed to store audio" })
     }
 
+    const { error: recordError } = await supabase.from("briefing_audio").upsert({
+      briefing_key: briefingKey,
+      summary_date: parsedKey.summaryDate,
+      slot: parsedKey.slot,
+      audio_path: filePath,
+      bytes: built.audio.length,
+      duration: built.duration,
+      chapters: built.chapters,
+      provider: provider.name,
+      generated_at: new Date().toISOString(),
+    }, { onConflict: "briefing_key" })
+    if (recordError) console.error("Failed to record briefing audio:", recordError.message)
+
     // Generate signed URL
     const { data: signedData, error: signError } = await supabase.storage
       .from(bucket)
@@ -126,7 +148,7 @@ Deno.serve(async (req) => {
     }
 
     console.log(`Audio cached and signed URL generated for ${briefingKey}`)
-    return ok({ audioUrl: signedData.signedUrl })
+    return ok({ audioUrl: signedData.signedUrl, chapters: built.chapters, duration: built.duration })
   } catch (err) {
     const errMsg = err instanceof Error ? err.message : String(err)
     console.error("TTS generation failed:", errMsg)
@@ -134,26 +156,11 @@ Deno.serve(async (req) => {
   }
 })
 
-function stripMarkdown(text: string): string {
-  let result = text
-
-  // Remove ## Posture section entirely (shown as pill in UI)
-  result = result.replace(/## Posture\n[^\n]*\n?/g, "")
-
-  // Replace section headers with spoken labels
-  result = result.replace(/## The Rundown/g, "The Rundown. ")
-  result = result.replace(/## Technical/g, "Technical. ")
-  result = result.replace(/## Flow/g, "Capital Flow. ")
-  result = result.replace(/## Signals/g, "Signals. ")
-
-  // Strip remaining markdown formatting
-  result = result.replace(/##\s*/g, "")
-  result = result.replace(/\*\*/g, "")
-  result = result.replace(/\*/g, "")
-
-  // Clean up extra whitespace
-  result = result.replace(/\n{3,}/g, "\n\n")
-  result = result.trim()
-
-  return result
+function parseContext(raw: unknown): Record<string, unknown> | null {
+  if (!raw) return null
+  try {
+    return typeof raw === "string" ? JSON.parse(raw) : raw as Record<string, unknown>
+  } catch {
+    return null
+  }
 }
@@ -1,16 +1,34 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { assetsIn } from "../_shared/assets.ts"
+import {
+  allocsEqual,
+  computeNav,
+  dailyStableRate,
+  DEFAULT_PARAMS,
+  marketState,
+  riskCategory,
+  STARTING_NAV,
+  targetAllocation,
+} from "../_shared/model_portfolio_engine.ts"
+import type { Position, Signal, Strategy } from "../_shared/model_portfolio_engine.ts"
 
 /**
  * compute-model-portfolios Edge Function
  *
  * Runs daily at 00:30 UTC (after compute-positioning-signals at 00:15).
- * Reads today's QPS signals + BTC risk level, applies Core/Edge strategy rules,
+ * Reads today's QPS signals + BTC risk level, applies the Core/Edge/Alpha
+ * strategy rules (_shared/model_portfolio_engine.ts, DEFAULT_PARAMS),
  * computes new NAV, and logs trades on allocation changes.
+ * simulate-model-portfolio replays the same engine over stored history.
  */
 
 const CRON_SECRET = Deno.env.get("CRON_SECRET") ?? ""
-const STABLECOIN_APY = 0.045
-const DAILY_STABLE_RATE = Math.pow(1 + STABLECOIN_APY, 1 / 365) - 1
+const PARAMS = DEFAULT_PARAMS
+const DAILY_STABLE_RATE = dailyStableRate(PARAMS)
+
+// Tradeable universe and risk models come from the asset registry
+// (_shared/assets.ts, pipeline "model_portfolio").
+const PORTFOLIO_ASSETS = assetsIn("model_portfolio")
 
 // Per-asset log regression configs
 interface AssetRiskConfig {
@@ -20,37 +38,14 @@ interface AssetRiskConfig {
   deviationBounds: [number, number]
 }
 
-const ASSET_RISK_CONFIGS: AssetRiskConfig[] = [
-  { asset: "BTC", fmpSymbol: "BTCUSD", originDate: new Date("2009-01-03"), deviationBounds: [-0.8, 0.8] },
-  { asset: "ETH", fmpSymbol: "ETHUSD", originDate: new Date("2015-07-30"), deviationBounds: [-0.8, 0.8] },
-  { asset: "SOL", fmpSymbol: "SOLUSD", originDate: new Date("2020-04-10"), deviationBounds: [-1.0, 1.0] },
-]
-
-// Per-asset max exposure caps (enforced after strategy allocation)
-const MAX_EXPOSURE: Record<string, number> = {
-  BTC: 1.00,
-  ETH: 0.20, SOL: 0.20,
-  // Mid-caps
-  LINK: 0.15, AVAX: 0.15, XRP: 0.15, BNB: 0.15, AAVE: 0.15, BCH: 0.15, TRX: 0.15,
-  // Defensive (uncapped)
-  PAXG: 1.00, USDC: 1.00,
-}
-const DEFAULT_MAX_EXPOSURE = 0.10 // Small-cap alts
-
-// Durable asset floors: minimum allocation that never goes to zero regardless of signal.
-// Rationale: BTC and gold are "durable" assets (per BMB risk framework) — cyclical signals
-// should reduce exposure but never fully exit. Alts and ETH have no floor (cyclical).
-const DURABLE_FLOORS: Record<string, Record<string, number>> = {
-  core:  { BTC: 0.15, PAXG: 0.10 },
-  edge:  { BTC: 0.12, PAXG: 0.08 },
-  alpha: { BTC: 0.10, PAXG: 0.05 },
-}
-
-// Gradual position sizing: blend rate controls how fast allocations move to target.
-// 0.5 = move halfway to target each day (e.g., 20% → 0% becomes 20% → 10% → 5% → 2.5%)
-// 1.0 = immediate (no blending). Defensive assets (USDC, PAXG) always move immediately.
-const EDGE_BLEND_RATE = 0.5
-const ALPHA_BLEND_RATE = 0.6
+const ASSET_RISK_CONFIGS: AssetRiskConfig[] = PORTFOLIO_ASSETS
+  .filter((a) => a.riskModel)
+  .map((a) => ({
+    asset: a.ticker,
+    fmpSymbol: a.fmp!,
+    originDate: new Date(a.riskModel!.originDate),
+    deviationBounds: a.riskModel!.deviationBounds,
+  }))
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -59,13 +54,6 @@ interface Portfolio {
   strategy: string
 }
 
-interface Signal {
-  asset: string
-  signal: string
-  trend_score: number
-  category: string
-}
-
 interface NavRow {
   nav: number
   allocations: Record<string, { pct: number; value: number; qty: number }>
@@ -77,126 +65,12 @@ interface NavRow {
   dominant_alt: string | null
 }
 
-interface Position {
-  qty: number
-  value: number
-  price: number
-}
-
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
 function todayUTC(): string {
   return new Date().toISOString().split("T")[0]
 }
 
-function roundAlloc(alloc: Record<string, number>): Record<string, number> {
-  const r: Record<string, number> = {}
-  for (const [k, v] of Object.entries(alloc)) {
-    r[k] = Math.round(v * 10000) / 10000
-  }
-  return r
-}
-
-function enforceExposureCaps(alloc: Record<string, number>): Record<string, number> {
-  const result = { ...alloc }
-  // Iterate until no position exceeds its cap (handles cascading)
-  for (let iter = 0; iter < 5; iter++) {
-    let excess = 0
-    let uncappedTotal = 0
-    const uncapped: string[] = []
-
-    for (const [asset, pct] of Object.entries(result)) {
-      if (pct <= 0) continue
-      const cap = MAX_EXPOSURE[asset] ?? DEFAULT_MAX_EXPOSURE
-      if (pct > cap) {
-        excess += pct - cap
-        result[asset] = cap
-      } else {
-        uncapped.push(asset)
-        uncappedTotal += pct
-      }
-    }
-
-    if (excess < 0.0001) break // No excess to redistribute
-
-    if (uncappedTotal > 0) {
-      // Redistribute proportionally to uncapped positions
-      for (const asset of uncapped) {
-        result[asset] += excess * (result[asset] / uncappedTotal)
-      }
-    } else {
-      // All at cap — overflow to USDC
-      result.USDC = (result.USDC || 0) + excess
-    }
-  }
-
-  return result
-}
-
-function enforceDurableFloors(alloc: Record<string, number>, strategy: string): Record<string, number> {
-  const floors = DURABLE_FLOORS[strategy]
-  if (!floors) return alloc
-
-  const result = { ...alloc }
-  let deficit = 0
-
-  // Raise any durable asset below its floor
-  for (const [asset, floor] of Object.entries(floors)) {
-    const current = result[asset] ?? 0
-    if (current < floor) {
-      deficit += floor - current
-      result[asset] = floor
-    }
-  }
-
-  if (deficit <= 0) return result
-
-  // Absorb deficit from USDC first, then proportionally from non-durable positions
-  const usdcAvailable = (result.USDC ?? 0) - 0.01 // keep 1% minimum USDC
-  if (usdcAvailable >= deficit) {
-    result.USDC = (result.USDC ?? 0) - deficit
-    return result
-  }
-
-  // USDC can't cover it all — take what we can from USDC, then trim others
-  if (usdcAvailable > 0) {
-    result.USDC = (result.USDC ?? 0) - usdcAvailable
-    deficit -= usdcAvailable
-  }
-
-  // Proportionally reduce non-durable, non-USDC positions
-  const durableAssets = new Set([...Object.keys(floors), "USDC"])
-  const trimmable: string[] = []
-  let trimmableTotal = 0
-  for (const [asset, pct] of Object.entries(result)) {
-    if (!durableAssets.has(asset) && pct > 0) {
-      trimmable.push(asset)
-      trimmableTotal += pct
-    }
-  }
-
-  if (trimmableTotal > 0) {
-    for (const asset of trimmable) {
-      const reduction = deficit * (result[asset] / trimmableTotal)
-      result[asset] = Math.max(0, result[asset] - reduction)
-    }
-  }
-
-  return result
-}
-
-function allocsEqual(a: Record<string, number>, b: Record<string, number>): boolean {
-  const ra = roundAlloc(a)
-  const rb = roundAlloc(b)
-  const keysA = Object.keys(ra).filter(k => ra[k] > 0)
-  const keysB = Object.keys(rb).filter(k => rb[k] > 0)
-  if (keysA.length !== keysB.length) return false
-  for (const k of keysA) {
-    if (ra[k] !== rb[k]) return false
-  }
-  return true
-}
-
 // ─── Per-Asset Risk via Log Regression ──────────────────────────────────────
 
 interface AssetRiskResult {
@@ -262,413 +136,24 @@ async function computeAssetRisk(
   const clamped = Math.max(low, Math.min(high, deviation))
   const riskLevel = (clamped - low) / (high - low)
 
-  let category: string
-  if (riskLevel < 0.20) category = "Very Low Risk"
-  else if (riskLevel < 0.40) category = "Low Risk"
-  else if (riskLevel < 0.55) category = "Neutral"
-  else if (riskLevel < 0.70) category = "Elevated Risk"
-  else if (riskLevel < 0.90) category = "High Risk"
-  else category = "Extreme Risk"
-
   return {
     risk_level: Math.round(riskLevel * 10000) / 10000,
     price: lastPrice,
     fair_value: Math.round(fairValue * 100) / 100,
     deviation: Math.round(deviation * 10000) / 10000,
-    category,
-  }
-}
-
-
-// ─── Strategy Rules ─────────────────────────────────────────────────────────
-
-function getDefensiveMix(goldSignal: string): Record<string, number> {
-  if (goldSignal === "bullish") return { PAXG: 0.70, USDC: 0.30 }
-  if (goldSignal === "neutral") return { PAXG: 0.40, USDC: 0.60 }
-  return { PAXG: 0.0, USDC: 1.0 }
-}
-
-function applyDefensive(base: Record<string, number>, defensivePct: number, goldSignal: string): Record<string, number> {
-  const mix = getDefensiveMix(goldSignal)
-  const alloc = { ...base }
-  for (const [asset, pct] of Object.entries(mix)) {
-    if (pct > 0) {
-      alloc[asset] = (alloc[asset] || 0) + defensivePct * pct
-    }
-  }
-  return alloc
-}
-
-/**
- * Returns top N bullish alts using dual confirmation:
- * Asset must be bullish on BOTH its BTC pair AND USD pair to qualify.
- * Softened threshold: if one pair is strongly bullish (≥75), the other
- * only needs to be near-bullish (≥65) — prevents missing alts that are
- * 1 point below the 70 cutoff on one side.
- */
-function getTopBullishAlts(
-  altBtcSignals: Record<string, Signal>,
-  cryptoSignals: Record<string, Signal>,
-  n = 3,
-): Array<[string, number]> {
-  const candidates: Array<[string, number]> = []
-  const STRONG_THRESHOLD = 75
-  const NEAR_BULLISH_THRESHOLD = 65
-
-  for (const [pair, sig] of Object.entries(altBtcSignals)) {
-    const alt = pair.split("/")[0]
-    if (["BTC", "ETH", "SOL"].includes(alt)) continue
-
-    const usdSignal = cryptoSignals[alt]
-    if (!usdSignal) continue
-
-    const btcScore = sig.trend_score ?? 0
-    const usdScore = usdSignal.trend_score ?? 0
-
-    // Strict dual confirmation: both bullish
-    const bothBullish = sig.signal === "bullish" && usdSignal.signal === "bullish"
-
-    // Softened: one strongly bullish (≥75), other near-bullish (≥65)
-    const softened = (btcScore >= STRONG_THRESHOLD && usdScore >= NEAR_BULLISH_THRESHOLD)
-      || (usdScore >= STRONG_THRESHOLD && btcScore >= NEAR_BULLISH_THRESHOLD)
-
-    if (bothBullish || softened) {
-      const avgScore = (btcScore + usdScore) / 2
-      candidates.push([alt, avgScore])
-    }
-  }
-  candidates.sort((a, b) => b[1] - a[1])
-  return candidates.slice(0, n)
-}
-
-function distributeAltPct(topAlts: Array<[string, number]>, totalPct: number): Record<string, number> {
-  if (topAlts.length === 0) return {}
-  const totalScore = topAlts.reduce((sum, [, score]) => sum + score, 0)
-  if (totalScore <= 0) {
-    const weight = totalPct / topAlts.length
-    const result: Record<string, number> = {}
-    for (const [alt] of topAlts) result[alt] = weight
-    return result
-  }
-  const result: Record<string, number> = {}
-  for (const [alt, score] of topAlts) result[alt] = totalPct * (score / totalScore)
-  return result
-}
-
-/**
- * Gradually blends new target allocation with previous allocation.
- * Defensive assets (USDC, PAXG) move immediately — you don't want to
- * slowly enter cash when the signal says de-risk.
- * Crypto positions step toward target by blendRate per day.
- */
-function blendAllocations(
-  newAlloc: Record<string, number>,
-  prevAlloc: Record<string, number>,
-  blendRate: number,
-): Record<string, number> {
-  const defensiveAssets = new Set(["USDC", "PAXG"])
-  const allAssets = new Set([...Object.keys(newAlloc), ...Object.keys(prevAlloc)])
-  const blended: Record<string, number> = {}
-
-  for (const asset of allAssets) {
-    const target = newAlloc[asset] ?? 0
-    const prev = prevAlloc[asset] ?? 0
-
-    if (defensiveAssets.has(asset)) {
-      // Defensive assets move immediately
-      if (target > 0) blended[asset] = target
-    } else {
-      // Blend: prev + (target - prev) * blendRate
-      const value = prev + (target - prev) * blendRate
-      // Clean up dust positions below 1%
-      if (value >= 0.01) blended[asset] = value
-    }
-  }
-
-  // Normalize to 100%
-  const total = Object.values(blended).reduce((a, b) => a + b, 0)
-  if (total > 0) {
-    for (const k of Object.keys(blended)) blended[k] /= total
-  }
-
-  return blended
-}
-
-function computeCoreAllocation(btcSignal: string, btcRiskCategory: string, goldSignal: string, macroRegime: string): Record<string, number> {
-  const isRiskOff = macroRegime.includes("Risk-Off")
-  const isHighRisk = ["High Risk", "Extreme Risk", "Elevated Risk"].includes(btcRiskCategory)
-
-  if (isRiskOff && isHighRisk) return applyDefensive({}, 1.0, goldSignal)
-
-  if (btcSignal === "bullish") return { BTC: 0.60, ETH: 0.40 }
-
-  if (btcSignal === "neutral") {
-    if (["Very Low Risk", "Low Risk"].includes(btcRiskCategory)) {
-      return applyDefensive({ BTC: 0.50, ETH: 0.30 }, 0.20, goldSignal)
-    }
-    return applyDefensive({ BTC: 0.30, ETH: 0.20 }, 0.50, goldSignal)
-  }
-
-  // Mild bearish (trend score 36-44): reduced crypto but not full exit
-  if (btcSignal === "mild_bearish") {
-    if (["Very Low Risk", "Low Risk"].includes(btcRiskCategory)) {
-      return applyDefensive({ BTC: 0.30, ETH: 0.15 }, 0.55, goldSignal)
-    }
-    return applyDefensive({ BTC: 0.20, ETH: 0.10 }, 0.70, goldSignal)
-  }
-
-  // Full bearish
-  if (btcRiskCategory === "Very Low Risk") return applyDefensive({ BTC: 0.40, ETH: 0.20 }, 0.40, goldSignal)
-  if (btcRiskCategory === "Low Risk") return applyDefensive({ BTC: 0.25, ETH: 0.15 }, 0.60, goldSignal)
-  // Bearish + Neutral/Elevated risk: keep small crypto position
-  return applyDefensive({ BTC: 0.15, ETH: 0.05 }, 0.80, goldSignal)
-}
-
-function computeEdgeAllocation(
-  btcSignal: string, btcRiskCategory: string, goldSignal: string, macroRegime: string,
-  cryptoSignals: Record<string, Signal>, altBtcSignals: Record<string, Signal>,
-): { alloc: Record<string, number>; dominantAlt: string | null } {
-  const isRiskOff = macroRegime.includes("Risk-Off")
-  const isHighRisk = ["High Risk", "Extreme Risk", "Elevated Risk"].includes(btcRiskCategory)
-  const topAlts = getTopBullishAlts(altBtcSignals, cryptoSignals, 3)
-  const dominantAlt = topAlts.length > 0 ? topAlts[0][0] : null
-
-  // Dual-confirmed alts survive regime flips — trim to half but don't remove.
-  // Only fully remove when the alt's own signals flip (dual confirmation lost).
-  const confirmedAltAlloc = distributeAltPct(topAlts, topAlts.length > 0 ? 0.15 : 0)
-
-  // Check USD signals for majors
-  const bullishAssets: string[] = []
-  for (const asset of ["BTC", "ETH", "SOL"]) {
-    if (cryptoSignals[asset]?.signal === "bullish") bullishAssets.push(asset)
-  }
-
-  // Dual confirmation for ETH and SOL
-  const ethBtcSignal = altBtcSignals["ETH/BTC"]?.signal ?? "neutral"
-  const solBtcSignal = altBtcSignals["SOL/BTC"]?.signal ?? "neutral"
-  const ethConfirmed = bullishAssets.includes("ETH") && ethBtcSignal !== "bearish"
-  const solConfirmed = bullishAssets.includes("SOL") && solBtcSignal !== "bearish"
-
-  // ── Extreme risk: 100% defensive, no exceptions ──
-  if (isRiskOff && isHighRisk) return { alloc: applyDefensive({}, 1.0, goldSignal), dominantAlt: null }
-
-  // ── Risk-Off: reduce crypto but keep confirmed alts at half size ──
-  if (isRiskOff) {
-    const alloc: Record<string, number> = {}
-
-    if (btcRiskCategory === "Very Low Risk") {
-      alloc.BTC = 0.30; if (ethConfirmed) alloc.ETH = 0.15
-    } else if (btcRiskCategory === "Low Risk") {
-      alloc.BTC = 0.20; if (ethConfirmed) alloc.ETH = 0.10
-    } else {
-      alloc.BTC = 0.10; if (ethConfirmed) alloc.ETH = 0.05
-    }
-
-    // Keep confirmed alts at half their normal allocation
-    for (const [alt, pct] of Object.entries(confirmedAltAlloc)) {
-      alloc[alt] = pct * 0.5
-    }
-
-    const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
-    return { alloc: applyDefensive(alloc, Math.max(0, 1.0 - deployed), goldSignal), dominantAlt }
-  }
-
-  // ── Risk-On: 2+ bullish majors or BTC bullish ──
-  if (bullishAssets.length >= 2 || btcSignal === "bullish") {
-    const alloc: Record<string, number> = {}
-    if (bullishAssets.includes("BTC") || btcSignal === "bullish") alloc.BTC = 0.30
-    if (ethConfirmed) {
-      alloc.ETH = 0.25
-    } else if (bullishAssets.includes("ETH")) {
-      alloc.ETH = 0.12
-      alloc.BTC = (alloc.BTC ?? 0) + 0.13
-    }
-    if (solConfirmed) {
-      alloc.SOL = 0.20
-    } else if (bullishAssets.includes("SOL")) {
-      alloc.SOL = 0.10
-      alloc.BTC = (alloc.BTC ?? 0) + 0.10
-    }
-    // Full alt allocation
-    Object.assign(alloc, confirmedAltAlloc)
-    const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
-    const remaining = 1.0 - deployed
-    if (remaining > 0.01) {
-      return { alloc: applyDefensive(alloc, remaining, goldSignal), dominantAlt }
-    }
-    return { alloc, dominantAlt }
-  }
-
-  // ── Mild bearish: reduced crypto, keep confirmed alts at reduced size ──
-  if (btcSignal === "mild_bearish") {
-    const alloc: Record<string, number> = { BTC: 0.15 }
-    if (ethConfirmed) alloc.ETH = 0.10
-    // Alts at ~1/3 normal size
-    for (const [alt, pct] of Object.entries(confirmedAltAlloc)) {
-      alloc[alt] = pct * 0.33
-    }
-    const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
-    return { alloc: applyDefensive(alloc, 1.0 - deployed, goldSignal), dominantAlt }
-  }
-
-  // ── Full bearish: minimal crypto, keep confirmed alts at tiny size ──
-  if (btcSignal === "bearish") {
-    const alloc: Record<string, number> = {}
-    if (["Very Low Risk", "Low Risk"].includes(btcRiskCategory)) {
-      alloc.BTC = 0.20; alloc.ETH = 0.10
-    } else {
-      alloc.BTC = 0.10; alloc.ETH = 0.05
-    }
-    // Alts at 1/4 normal size — still riding confirmed trends
-    for (const [alt, pct] of Object.entries(confirmedAltAlloc)) {
-      alloc[alt] = pct * 0.25
-    }
-    const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
-    return { alloc: applyDefensive(alloc, 1.0 - deployed, goldSignal), dominantAlt }
-  }
-
-  // ── Mixed: deploy into bullish only ──
-  const alloc: Record<string, number> = {}
-  if (bullishAssets.length > 0) {
-    const weight = 0.60 / bullishAssets.length
-    for (const a of bullishAssets) alloc[a] = weight
+    category: riskCategory(riskLevel),
   }
-  Object.assign(alloc, confirmedAltAlloc)
-  const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
-  const remaining = 1.0 - deployed
-  return { alloc: applyDefensive(alloc, Math.max(0, remaining), goldSignal), dominantAlt }
 }
 
-function computeAlphaAllocation(
-  btcSignal: string, btcRiskCategory: string, goldSignal: string, macroRegime: string,
-  cryptoSignals: Record<string, Signal>, altBtcSignals: Record<string, Signal>,
-): { alloc: Record<string, number>; dominantAlt: string | null } {
-  const isRiskOff = macroRegime.includes("Risk-Off")
-  const isHighRisk = ["High Risk", "Extreme Risk", "Elevated Risk"].includes(btcRiskCategory)
-  const topAlts = getTopBullishAlts(altBtcSignals, cryptoSignals, 3)
-  const dominantAlt = topAlts.length > 0 ? topAlts[0][0] : null
-
-  // Dual-confirmed alts survive regime flips (same as Edge)
-  const confirmedAltAlloc = distributeAltPct(topAlts, topAlts.length > 0 ? 0.40 : 0)
-
-  const bullishAssets: string[] = []
-  for (const asset of ["BTC", "ETH", "SOL"]) {
-    if (cryptoSignals[asset]?.signal === "bullish") bullishAssets.push(asset)
-  }
-
-  const ethBtcSig = altBtcSignals["ETH/BTC"]?.signal ?? "neutral"
-  const solBtcSig = altBtcSignals["SOL/BTC"]?.signal ?? "neutral"
-  const ethOk = bullishAssets.includes("ETH") && ethBtcSig !== "bearish"
-  const solOk = bullishAssets.includes("SOL") && solBtcSig !== "bearish"
-
-  // ── Extreme risk: 100% defensive ──
-  if (isRiskOff && isHighRisk) return { alloc: applyDefensive({}, 1.0, goldSignal), dominantAlt: null }
-
-  // ── Risk-Off: reduce but keep confirmed alts at half ──
-  if (isRiskOff) {
-    const alloc: Record<string, number> = {}
-    if (btcRiskCategory === "Very Low Risk") {
-      alloc.BTC = 0.25; if (ethOk) alloc.ETH = 0.15
-    } else if (btcRiskCategory === "Low Risk") {
-      alloc.BTC = 0.15; if (ethOk) alloc.ETH = 0.10
-    } else {
-      alloc.BTC = 0.10; if (ethOk) alloc.ETH = 0.05
-    }
-    for (const [alt, pct] of Object.entries(confirmedAltAlloc)) {
-      alloc[alt] = pct * 0.5
-    }
-    const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
-    return { alloc: applyDefensive(alloc, Math.max(0, 1.0 - deployed), goldSignal), dominantAlt }
-  }
-
-  // ── Risk-On: 2+ bullish majors or BTC bullish ──
-  if (bullishAssets.length >= 2 || btcSignal === "bullish") {
-    const alloc: Record<string, number> = {}
-    if (bullishAssets.includes("BTC") || btcSignal === "bullish") alloc.BTC = 0.20
-    if (ethOk) {
-      alloc.ETH = 0.15
-    } else if (bullishAssets.includes("ETH")) {
-      alloc.ETH = 0.07
-      alloc.BTC = (alloc.BTC ?? 0) + 0.08
-    }
-    if (solOk) {
-      alloc.SOL = 0.15
-    } else if (bullishAssets.includes("SOL")) {
-      alloc.SOL = 0.07
-      alloc.BTC = (alloc.BTC ?? 0) + 0.08
-    }
-    Object.assign(alloc, confirmedAltAlloc)
-    const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
-    const remaining = 1.0 - deployed
-    if (remaining > 0.01) {
-      return { alloc: applyDefensive(alloc, remaining, goldSignal), dominantAlt }
-    }
-    return { alloc, dominantAlt }
-  }
 
-  // ── Mild bearish: keep confirmed alts at 1/3 ──
-  if (btcSignal === "mild_bearish") {
-    const alloc: Record<string, number> = { BTC: 0.10 }
-    if (ethOk) alloc.ETH = 0.08
-    for (const [alt, pct] of Object.entries(confirmedAltAlloc)) {
-      alloc[alt] = pct * 0.33
-    }
-    const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
-    return { alloc: applyDefensive(alloc, 1.0 - deployed, goldSignal), dominantAlt }
-  }
-
-  // ── Full bearish: keep confirmed alts at 1/4 ──
-  if (btcSignal === "bearish") {
-    const alloc: Record<string, number> = {}
-    if (["Very Low Risk", "Low Risk"].includes(btcRiskCategory)) {
-      alloc.BTC = 0.15; alloc.ETH = 0.10
-    } else {
-      alloc.BTC = 0.08; alloc.ETH = 0.04
-    }
-    for (const [alt, pct] of Object.entries(confirmedAltAlloc)) {
-      alloc[alt] = pct * 0.25
-    }
-    const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
-    return { alloc: applyDefensive(alloc, 1.0 - deployed, goldSignal), dominantAlt }
-  }
-
-  // ── Mixed ──
-  const alloc: Record<string, number> = {}
-  if (bullishAssets.length > 0) {
-    const weight = 0.45 / bullishAssets.length
-    for (const a of bullishAssets) alloc[a] = weight
-  }
-  Object.assign(alloc, confirmedAltAlloc)
-  const deployed = Object.values(alloc).reduce((a, b) => a + b, 0)
-  const remaining = 1.0 - deployed
-  return { alloc: applyDefensive(alloc, Math.max(0, remaining), goldSignal), dominantAlt }
-}
-
-function determineMacroRegime(signals: Signal[]): string {
-  let bearishCount = 0, total = 0
-  for (const sig of signals) {
-    if (sig.category === "index" || sig.asset === "VIX") {
-      total++
-      // VIX bearish (high VIX) = risk-off
-      if (sig.signal === "bearish") bearishCount++
-    }
-  }
-  if (total === 0) return "Mixed"
-  return bearishCount / total >= 0.5 ? "Risk-Off" : "Risk-On"
-}
-
-// ─── NAV Computation ────────────────────────────────────────────────────────
+// ─── Prices ─────────────────────────────────────────────────────────────────
 
 async function fetchCurrentPrices(assets: string[]): Promise<Record<string, number>> {
   const prices: Record<string, number> = {}
   // Fetch from Coinbase for crypto assets
-  const coinbasePairs: Record<string, string> = {
-    BTC: "BTC-USD", ETH: "ETH-USD", SOL: "SOL-USD", BNB: "BNB-USD",
-    XRP: "XRP-USD", SUI: "SUI-USD", LINK: "LINK-USD", UNI: "UNI-USD",
-    ONDO: "ONDO-USD", RENDER: "RENDER-USD", TAO: "TAO-USD",
-    ZEC: "ZEC-USD", AVAX: "AVAX-USD", DOGE: "DOGE-USD", BCH: "BCH-USD",
-    PAXG: "PAXG-USD", HYPE: "HYPE-USD", AAVE: "AAVE-USD", TRX: "TRX-USD", AERO: "AERO-USD",
-  }
+  const coinbasePairs: Record<string, string> = Object.fromEntries(
+    PORTFOLIO_ASSETS.filter((a) => a.coinbase).map((a) => [a.ticker, a.coinbase!]),
+  )
 
   for (const asset of assets) {
     if (asset === "USDC") { prices[asset] = 1.0; continue }
@@ -685,59 +170,6 @@ async function fetchCurrentPrices(assets: string[]): Promise<Record<string, numb
   return prices
 }
 
-function computeNav(
-  prevPositions: Record<string, Position>, prevNav: number,
-  prices: Record<string, number>, newAllocation: Record<string, number>,
-  rebalance: boolean,
-): { nav: number; positions: Record<string, Position> } {
-  if (Object.keys(prevPositions).length === 0 || rebalance) {
-    // Compute current NAV from existing positions
-    let currentNav = prevNav
-    if (Object.keys(prevPositions).length > 0) {
-      currentNav = 0
-      for (const [asset, pos] of Object.entries(prevPositions)) {
-        if (asset === "USDC") {
-          currentNav += pos.value * (1 + DAILY_STABLE_RATE)
-        } else {
-          const p = prices[asset] ?? pos.price
-          currentNav += p > 0 && pos.qty > 0 ? pos.qty * p : pos.value
-        }
-      }
-    }
-
-    // Allocate at new weights
-    const newPositions: Record<string, Position> = {}
-    for (const [asset, weight] of Object.entries(newAllocation)) {
-      if (weight <= 0) continue
-      const value = currentNav * weight
-      if (asset === "USDC") {
-        newPositions[asset] = { qty: value, value, price: 1.0 }
-      } else {
-        const p = prices[asset] ?? 0
-        newPositions[asset] = { qty: p > 0 ? value / p : 0, value, price: p }
-      }
-    }
-    return { nav: currentNav, positions: newPositions }
-  }
-
-  // Mark to market
-  let currentNav = 0
-  const updated: Record<string, Position> = {}
-  for (const [asset, pos] of Object.entries(prevPositions)) {
-    if (asset === "USDC") {
-      const newVal = pos.value * (1 + DAILY_STABLE_RATE)
-      updated[asset] = { qty: newVal, value: newVal, price: 1.0 }
-      currentNav += newVal
-    } else {
-      const p = prices[asset] ?? pos.price
-      const newVal = pos.qty * p
-      updated[asset] = { qty: pos.qty, value: newVal, price: p }
-      currentNav += newVal
-    }
-  }
-  return { nav: currentNav, positions: updated }
-}
-
 // ─── Market Context ─────────────────────────────────────────────────────────
 
 async function fetchMarketContext(
@@ -836,28 +268,6 @@ Deno.serve(async (req) => {
     }
     console.log(`  ${signals.length} QPS signals loaded`)
 
-    const cryptoSignals: Record<string, Signal> = {}
-    const altBtcSignals: Record<string, Signal> = {}
-    let goldSignal = "neutral"
-    const allSignals: Signal[] = signals
-
-    for (const sig of signals) {
-      if (sig.category === "crypto") cryptoSignals[sig.asset] = sig
-      if (sig.category === "alt_btc") altBtcSignals[sig.asset] = sig
-      if (sig.asset === "GOLD") {
-        // Map bearish for gold defensive mix (no mild_bearish distinction needed)
-        goldSignal = sig.signal === "bearish" ? "bearish" : sig.signal
-      }
-    }
-
-    // Derive btcSignal with mild_bearish tier for model portfolios
-    // QPS stores bearish for scores <45, but we differentiate 36-44 as mild_bearish
-    let btcSignal = cryptoSignals.BTC?.signal ?? "neutral"
-    if (btcSignal === "bearish" && cryptoSignals.BTC?.trend_score >= 36) {
-      btcSignal = "mild_bearish"
-    }
-    const macroRegime = determineMacroRegime(allSignals)
-
     // 3. Compute per-asset risk (BTC, ETH, SOL)
     const assetRisks: Record<string, AssetRiskResult> = {}
     for (const config of ASSET_RISK_CONFIGS) {
@@ -869,9 +279,8 @@ Deno.serve(async (req) => {
         console.warn(`  ${config.asset} risk: computation failed`)
       }
     }
-    const btcRisk = assetRisks["BTC"] ?? null
-    const btcRiskLevel = btcRisk?.risk_level ?? 0.5
-    const btcRiskCategory = btcRisk?.category ?? "Neutral"
+    const state = marketState(signals as Signal[], assetRisks["BTC"]?.risk_level ?? null)
+    const { btcSignal, btcRiskLevel, btcRiskCategory, goldSignal, macroRegime } = state
     console.log(`  BTC signal: ${btcSignal}, Gold: ${goldSignal}, Regime: ${macroRegime}`)
 
     // 4. Save risk history for all assets
@@ -892,7 +301,7 @@ Deno.serve(async (req) => {
     // 6. Get yesterday's NAV + positions for each portfolio
     const rebalancedStrategies: { strategy: string; triggers: string[] }[] = []
 
-    for (const strategy of ["core", "edge", "alpha"]) {
+    for (const strategy of ["core", "edge", "alpha"] as Strategy[]) {
       const portfolioId = portfolioMap[strategy]
       if (!portfolioId) continue
 
@@ -904,7 +313,7 @@ Deno.serve(async (req) => {
         .limit(1)
 
       const prevNav = prevNavRows?.[0]
-      const prevNavValue = prevNav?.nav ?? 50000
+      const prevNavValue = prevNav?.nav ?? STARTING_NAV
       const prevAllocations: Record<string, { pct: number; value: number; qty: number }> =
         prevNav?.allocations ? (typeof prevNav.allocations === "string" ? JSON.parse(prevNav.allocations) : prevNav.allocations) : {}
 
@@ -916,26 +325,6 @@ Deno.serve(async (req) => {
         }
       }
 
-      // 6. Compute new allocation
-      let newAlloc: Record<string, number>
-      let dominantAlt: string | null = null
-
-      if (strategy === "core") {
-        newAlloc = computeCoreAllocation(btcSignal, btcRiskCategory, goldSignal, macroRegime)
-      } else if (strategy === "edge") {
-        const result = computeEdgeAllocation(btcSignal, btcRiskCategory, goldSignal, macroRegime, cryptoSignals, altBtcSignals)
-        newAlloc = result.alloc
-        dominantAlt = result.dominantAlt
-      } else {
-        const result = computeAlphaAllocation(btcSignal, btcRiskCategory, goldSignal, macroRegime, cryptoSignals, altBtcSignals)
-        newAlloc = result.alloc
-        dominantAlt = result.dominantAlt
-      }
-
-      // Enforce durable asset floors, then per-asset exposure caps
-      newAlloc = enforceDurableFloors(newAlloc, strategy)
-      newAlloc = enforceExposureCaps(newAlloc)
-
       // Reconstruct previous allocation percentages (for blending + rebalance detection)
       const prevAllocPcts: Record<string, number> = {}
       for (const [asset, data] of Object.entries(prevAllocations)) {
@@ -946,17 +335,10 @@ Deno.serve(async (req) => {
         }
       }
 
-      // Gradual position sizing for Edge and Alpha (Core moves immediately)
-      if ((strategy === "edge" || strategy === "alpha") && Object.keys(prevAllocPcts).length > 0) {
-        const rate = strategy === "edge" ? EDGE_BLEND_RATE : ALPHA_BLEND_RATE
-        newAlloc = blendAllocations(newAlloc, prevAllocPcts, rate)
-        console.log(`  ${strategy}: blended allocation (rate=${rate})`)
-      }
-
-      // Normalize
-      const total = Object.values(newAlloc).reduce((a, b) => a + b, 0)
-      if (total > 0) {
-        for (const k of Object.keys(newAlloc)) newAlloc[k] /= total
+      // 6. Compute new allocation (rules → floors → caps → blending → normalise)
+      const { alloc: newAlloc, dominantAlt } = targetAllocation(strategy, state, prevAllocPcts, PARAMS)
+      if (strategy !== "core" && Object.keys(prevAllocPcts).length > 0) {
+        console.log(`  ${strategy}: blended allocation (rate=${PARAMS.blendRates[strategy]})`)
       }
 
       // 7. Determine if rebalance needed
@@ -972,7 +354,7 @@ Deno.serve(async (req) => {
 
       // 9. Compute NAV
       const { nav, positions } = computeNav(
-        prevPositions, prevNavValue, prices, newAlloc, rebalance || Object.keys(prevPositions).length === 0,
+        prevPositions, prevNavValue, prices, newAlloc, rebalance || Object.keys(prevPositions).length === 0, DAILY_STABLE_RATE,
       )
       console.log(`  ${strategy}: NAV $${nav.toFixed(2)}, rebalance=${rebalance}`)
 
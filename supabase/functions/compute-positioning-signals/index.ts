@@ -1,4 +1,13 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { ASSET_REGISTRY, assetsIn } from "../_shared/assets.ts"
+import type { AssetDefinition } from "../_shared/assets.ts"
+import { binanceProvider, coinbaseProvider, createCandleFeed, fmpProvider, krakenProvider } from "../_shared/candle_providers.ts"
+import type { CandleFeed } from "../_shared/candle_providers.ts"
+import type { Candle } from "../_shared/candles.ts"
+import { computeTrendScore, DEFAULT_THRESHOLDS, deriveSignal, LIVE_WINDOW, MIN_CANDLES, replaySignals } from "../_shared/qps.ts"
+import type { QpsSignal, SignalThresholds } from "../_shared/qps.ts"
+import { evaluateSignals } from "../_shared/qps_evaluation.ts"
+import type { HistoryRow } from "../_shared/qps_evaluation.ts"
 
 /**
  * compute-positioning-signals Edge Function
@@ -10,18 +19,25 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
  * Pass { "panel": "equities" } or { "panel": "crypto" } in the POST body.
  * Omitting panel runs all assets (backward-compatible).
  *
+ * { "mode": "backfill" } replays historical days into
+ * positioning_signal_history and { "mode": "evaluate" } scores that history
+ * (see the Backfill and Evaluation sections below). Both are run by hand.
+ *
  * For each asset:
- *   1. Fetches daily candles from Coinbase (crypto) or FMP (traditional)
+ *   1. Fetches daily candles from Coinbase (crypto, failing over to Binance
+ *      and Kraken — _shared/candle_providers.ts) or FMP (traditional)
  *   2. Computes SMA 21/50/200, RSI(14), Bull Market Support Bands
  *   3. Computes trendScore (0-100)
  *   4. Derives positioning signal (bullish/neutral/bearish)
  *   5. Fetches yesterday's signal for change detection
- *   6. Upserts into positioning_signals
+ *   6. Upserts into positioning_signals (and the day into positioning_signal_history)
  */
 
 // ─── Asset Configuration ────────────────────────────────────────────────────
+// Derived from the asset registry (_shared/assets.ts): every "positioning"
+// asset, plus an ALT/BTC entry for each crypto asset with qpsBtcPair set.
 
-type AssetSource = "coinbase" | "fmp" | "synthetic_btc"
+type AssetSource = "coinbase" | "fmp" | "synthetic_btc" | "synthetic_btc_fmp"
 type AssetCategory = "crypto" | "index" | "macro" | "commodity" | "stock" | "alt_btc"
 
 interface AssetConfig {
@@ -33,118 +49,62 @@ interface AssetConfig {
   displaySymbol?: string // If set, fetch real price from this symbol for display (overrides ETF proxy price)
 }
 
-const ASSETS: AssetConfig[] = [
-  // ── Crypto (Coinbase) ──
-  { ticker: "BTC",    displayName: "Bitcoin",       source: "coinbase", symbol: "BTC-USD",    category: "crypto" },
-  { ticker: "ETH",    displayName: "Ethereum",      source: "coinbase", symbol: "ETH-USD",    category: "crypto" },
-  { ticker: "SOL",    displayName: "Solana",        source: "coinbase", symbol: "SOL-USD",    category: "crypto" },
-  { ticker: "BNB",    displayName: "BNB",           source: "coinbase", symbol: "BNB-USD",    category: "crypto" },
-  { ticker: "XRP",    displayName: "XRP",           source: "coinbase", symbol: "XRP-USD",    category: "crypto" },
-  { ticker: "SUI",    displayName: "Sui",           source: "coinbase", symbol: "SUI-USD",    category: "crypto" },
-  { ticker: "LINK",   displayName: "Chainlink",     source: "coinbase", symbol: "LINK-USD",   category: "crypto" },
-  { ticker: "UNI",    displayName: "Uniswap",       source: "coinbase", symbol: "UNI-USD",    category: "crypto" },
-  { ticker: "ONDO",   displayName: "Ondo",          source: "coinbase", symbol: "ONDO-USD",   category: "crypto" },
-  { ticker: "RENDER", displayName: "Render",        source: "coinbase", symbol: "RENDER-USD", category: "crypto" },
-  { ticker: "HYPE",   displayName: "Hyperliquid",   source: "coinbase", symbol: "HYPE-USD",   category: "crypto" },
-  { ticker: "TAO",    displayName: "Bittensor",     source: "coinbase", symbol: "TAO-USD",    category: "crypto" },
-  { ticker: "ZEC",    displayName: "Zcash",         source: "coinbase", symbol: "ZEC-USD",    category: "crypto" },
-  { ticker: "AVAX",   displayName: "Avalanche",     source: "coinbase", symbol: "AVAX-USD",   category: "crypto" },
-  { ticker: "DOGE",   displayName: "Dogecoin",      source: "coinbase", symbol: "DOGE-USD",   category: "crypto" },
-  { ticker: "BCH",    displayName: "Bitcoin Cash",   source: "coinbase", symbol: "BCH-USD",    category: "crypto" },
-  { ticker: "AAVE",   displayName: "Aave",           source: "coinbase", symbol: "AAVE-USD",   category: "crypto" },
-  { ticker: "TRX",    displayName: "Tron",           source: "fmp",      symbol: "TRXUSD",     category: "crypto" },
-  { ticker: "AERO",   displayName: "Aerodrome",      source: "coinbase", symbol: "AERO-USD",   category: "crypto" },
-  { ticker: "NEAR",   displayName: "NEAR Protocol",  source: "coinbase", symbol: "NEAR-USD",   category: "crypto" },
-  { ticker: "ASTER",  displayName: "Aster",          source: "coinbase", symbol: "ASTER-USD",  category: "crypto" },
-
-  // ── Alt/BTC Pairs (relative strength vs Bitcoin) ──
-  { ticker: "ETH/BTC",    displayName: "ETH/BTC",    source: "coinbase",      symbol: "ETH-BTC",    category: "alt_btc" },
-  { ticker: "SOL/BTC",    displayName: "SOL/BTC",    source: "coinbase",      symbol: "SOL-BTC",    category: "alt_btc" },
-  { ticker: "LINK/BTC",   displayName: "LINK/BTC",   source: "coinbase",      symbol: "LINK-BTC",   category: "alt_btc" },
-  { ticker: "AVAX/BTC",   displayName: "AVAX/BTC",   source: "coinbase",      symbol: "AVAX-BTC",   category: "alt_btc" },
-  { ticker: "DOGE/BTC",   displayName: "DOGE/BTC",   source: "coinbase",      symbol: "DOGE-BTC",   category: "alt_btc" },
-  { ticker: "BCH/BTC",    displayName: "BCH/BTC",    source: "coinbase",      symbol: "BCH-BTC",    category: "alt_btc" },
-  { ticker: "UNI/BTC",    displayName: "UNI/BTC",    source: "coinbase",      symbol: "UNI-BTC",    category: "alt_btc" },
-  { ticker: "XRP/BTC",    displayName: "XRP/BTC",    source: "synthetic_btc", symbol: "XRP-USD",    category: "alt_btc" },
-  { ticker: "BNB/BTC",    displayName: "BNB/BTC",    source: "synthetic_btc", symbol: "BNB-USD",    category: "alt_btc" },
-  { ticker: "HYPE/BTC",   displayName: "HYPE/BTC",   source: "synthetic_btc", symbol: "HYPE-USD",   category: "alt_btc" },
-  { ticker: "ZEC/BTC",    displayName: "ZEC/BTC",    source: "synthetic_btc", symbol: "ZEC-USD",    category: "alt_btc" },
-  { ticker: "TAO/BTC",    displayName: "TAO/BTC",    source: "synthetic_btc", symbol: "TAO-USD",    category: "alt_btc" },
-  { ticker: "SUI/BTC",    displayName: "SUI/BTC",    source: "synthetic_btc", symbol: "SUI-USD",    category: "alt_btc" },
-  { ticker: "ONDO/BTC",   displayName: "ONDO/BTC",   source: "synthetic_btc", symbol: "ONDO-USD",   category: "alt_btc" },
-  { ticker: "RENDER/BTC", displayName: "RENDER/BTC", source: "synthetic_btc", symbol: "RENDER-USD", category: "alt_btc" },
-  { ticker: "AAVE/BTC",   displayName: "AAVE/BTC",   source: "coinbase",      symbol: "AAVE-BTC",   category: "alt_btc" },
-  { ticker: "TRX/BTC",    displayName: "TRX/BTC",    source: "synthetic_btc_fmp", symbol: "TRXUSD",    category: "alt_btc" },
-  { ticker: "AERO/BTC",   displayName: "AERO/BTC",   source: "synthetic_btc", symbol: "AERO-USD",   category: "alt_btc" },
-  { ticker: "NEAR/BTC",   displayName: "NEAR/BTC",   source: "synthetic_btc", symbol: "NEAR-USD",   category: "alt_btc" },
-  { ticker: "ASTER/BTC",  displayName: "ASTER/BTC",  source: "synthetic_btc", symbol: "ASTER-USD",  category: "alt_btc" },
-
-  // ── Indices (FMP — ETF proxies) ──
-  { ticker: "SPY",    displayName: "S&P 500",       source: "fmp", symbol: "SPY",   category: "index" },
-  { ticker: "QQQ",    displayName: "Nasdaq 100",    source: "fmp", symbol: "QQQ",   category: "index" },
-  { ticker: "DIA",    displayName: "Dow Jones",     source: "fmp", symbol: "DIA",   category: "index" },
-  { ticker: "IWM",    displayName: "Russell 2000",  source: "fmp", symbol: "IWM",   category: "index" },
-
-  // ── Macro ──
-  { ticker: "VIX",    displayName: "Volatility Index", source: "fmp", symbol: "^VIX", category: "macro" },
-  { ticker: "DXY",    displayName: "US Dollar Index",  source: "fmp", symbol: "UUP",  category: "macro", displaySymbol: "DX-Y.NYB" },
-  { ticker: "TLT",    displayName: "20Y Treasuries",   source: "fmp", symbol: "TLT",  category: "macro" },
-
-  // ── Commodities ──
-  { ticker: "GOLD",   displayName: "Gold",            source: "fmp", symbol: "GCUSD", category: "commodity" },
-  { ticker: "SILVER", displayName: "Silver",          source: "fmp", symbol: "SIUSD", category: "commodity" },
-  { ticker: "OIL",    displayName: "Oil",             source: "fmp", symbol: "USO",   category: "commodity", displaySymbol: "CL=F" },
-  { ticker: "COPPER", displayName: "Copper",          source: "fmp", symbol: "CPER",  category: "commodity", displaySymbol: "HG=F" },
-  { ticker: "URA",    displayName: "Uranium",         source: "fmp", symbol: "URA",   category: "commodity" },
-  { ticker: "DBA",    displayName: "Agriculture",     source: "fmp", symbol: "DBA",   category: "commodity" },
-  { ticker: "DBB",    displayName: "Industrial Metals", source: "fmp", symbol: "DBB", category: "commodity" },
-  { ticker: "REMX",   displayName: "Rare Earth Metals", source: "fmp", symbol: "REMX", category: "commodity" },
-
-  // ── Stocks ──
-  { ticker: "AAPL",   displayName: "Apple",           source: "fmp", symbol: "AAPL",  category: "stock" },
-  { ticker: "NVDA",   displayName: "NVIDIA",          source: "fmp", symbol: "NVDA",  category: "stock" },
-  { ticker: "GOOGL",  displayName: "Google",          source: "fmp", symbol: "GOOGL", category: "stock" },
-  { ticker: "AMZN",   displayName: "Amazon",          source: "fmp", symbol: "AMZN",  category: "stock" },
-  { ticker: "META",   displayName: "Meta",            source: "fmp", symbol: "META",  category: "stock" },
-  { ticker: "MSFT",   displayName: "Microsoft",       source: "fmp", symbol: "MSFT",  category: "stock" },
-  { ticker: "TSLA",   displayName: "Tesla",           source: "fmp", symbol: "TSLA",  category: "stock" },
-  { ticker: "NFLX",   displayName: "Netflix",         source: "fmp", symbol: "NFLX",  category: "stock" },
-  { ticker: "ORCL",   displayName: "Oracle",          source: "fmp", symbol: "ORCL",  category: "stock" },
-  { ticker: "RKLB",   displayName: "Rocket Lab",      source: "fmp", symbol: "RKLB",  category: "stock" },
-  { ticker: "COHR",   displayName: "Coherent",        source: "fmp", symbol: "COHR",  category: "stock" },
-  { ticker: "CRCL",   displayName: "Circle",          source: "fmp", symbol: "CRCL",  category: "stock" },
-  { ticker: "LUNR",   displayName: "Intuitive Machines", source: "fmp", symbol: "LUNR", category: "stock" },
-  { ticker: "CIFR",   displayName: "Cipher Mining",   source: "fmp", symbol: "CIFR",  category: "stock" },
-
-  // ── Crypto Stocks (FMP) ──
-  { ticker: "COIN",   displayName: "Coinbase",        source: "fmp", symbol: "COIN",  category: "stock" },
-  { ticker: "MSTR",   displayName: "MicroStrategy",   source: "fmp", symbol: "MSTR",  category: "stock" },
-  { ticker: "MARA",   displayName: "Marathon Digital", source: "fmp", symbol: "MARA",  category: "stock" },
-  { ticker: "RIOT",   displayName: "Riot Platforms",   source: "fmp", symbol: "RIOT",  category: "stock" },
-  { ticker: "GLXY",   displayName: "Galaxy Digital",   source: "fmp", symbol: "GLXY",  category: "stock" },
-]
+function buildAssets(): AssetConfig[] {
+  const registry = assetsIn("positioning")
+  const crypto = registry.filter((a) => a.assetClass === "crypto")
+  const sourceOf = (a: AssetDefinition) => a.qpsSource ?? (a.assetClass === "crypto" ? "coinbase" : "fmp")
+  const direct = (a: AssetDefinition): AssetConfig => ({
+    ticker: a.ticker,
+    displayName: a.name,
+    source: sourceOf(a),
+    symbol: sourceOf(a) === "fmp" ? a.fmp! : a.coinbase!,
+    category: a.assetClass as AssetCategory,
+    displaySymbol: a.displaySymbol,
+  })
+
+  // Alt/BTC pairs (relative strength vs Bitcoin): native Coinbase product when
+  // listed, otherwise ALT-USD ÷ BTC-USD
+  const altBtc: AssetConfig[] = crypto
+    .filter((a) => a.qpsBtcPair)
+    .map((a) => {
+      const fmpAlt = sourceOf(a) === "fmp"
+      return {
+        ticker: `${a.ticker}/BTC`,
+        displayName: `${a.ticker}/BTC`,
+        source: a.qpsBtcPair === "coinbase" ? "coinbase" : fmpAlt ? "synthetic_btc_fmp" : "synthetic_btc",
+        symbol: a.qpsBtcPair === "coinbase" ? `${a.ticker}-BTC` : fmpAlt ? a.fmp! : a.coinbase!,
+        category: "alt_btc",
+      }
+    })
+
+  return [
+    ...crypto.map(direct),
+    ...altBtc,
+    ...registry.filter((a) => a.assetClass !== "crypto").map(direct),
+  ]
+}
+
+const ASSETS: AssetConfig[] = buildAssets()
 
 const INTER_ASSET_DELAY_MS = 150
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
-interface Candle {
-  open: number
-  high: number
-  low: number
-  close: number
-  volume: number
-}
-
 interface PositioningResult {
   asset: string
   category: AssetCategory
-  signal: "bullish" | "neutral" | "bearish"
+  signal: QpsSignal
   prev_signal: string | null
   trend_score: number
   rsi: number | null
   price: number
   above_200_sma: boolean
+  _has200SMA: boolean
+  _close: number           // candle close (price may be a display override)
+  _aboveSma21: boolean
+  _aboveSma50: boolean
+  _bmsbStatus: string
+  _channelPosition: number | null
 }
 
 // ─── Helpers ────────────────────────────────────────────────────────────────
@@ -160,268 +120,213 @@ function sleep(ms: number) {
   return new Promise((r) => setTimeout(r, ms))
 }
 
-// ─── Coinbase Candle Fetcher ────────────────────────────────────────────────
-
-async function fetchCoinbaseCandles(productId: string, limit: number): Promise<Candle[]> {
-  const now = Math.floor(Date.now() / 1000)
-  const start = now - 86400 * limit
-
-  const url = `https://api.coinbase.com/api/v3/brokerage/market/products/${productId}/candles?start=${start}&end=${now}&granularity=ONE_DAY`
-  const resp = await fetch(url)
-  if (!resp.ok) {
-    throw new Error(`Coinbase ${productId} ${resp.status}: ${await resp.text()}`)
-  }
-
-  const json = await resp.json()
-  const raw: Array<{ start: string; open: string; high: string; low: string; close: string; volume: string }> =
-    json.candles ?? []
-
-  return raw
-    .map((c) => ({
-      open: parseFloat(c.open),
-      high: parseFloat(c.high),
-      low: parseFloat(c.low),
-      close: parseFloat(c.close),
-      volume: parseFloat(c.volume),
-    }))
-    .reverse() // Coinbase returns newest first; we want chronological
-}
-
-// ─── FMP Candle Fetcher ─────────────────────────────────────────────────────
-
-async function fetchFMPCandles(symbol: string, fmpKey: string): Promise<Candle[]> {
-  const url = `https://financialmodelingprep.com/stable/historical-price-eod/full?symbol=${encodeURIComponent(symbol)}&apikey=${fmpKey}`
-  const resp = await fetch(url)
-  if (!resp.ok) {
-    throw new Error(`FMP ${symbol} ${resp.status}: ${await resp.text()}`)
-  }
-
-  const json = await resp.json()
-
-  // FMP returns an array of { date, open, high, low, close, volume, ... } newest first
-  const raw: Array<{ date: string; open: number; high: number; low: number; close: number; volume: number }> =
-    Array.isArray(json) ? json : (json.historical ?? [])
+// ─── Per-Asset Candles ──────────────────────────────────────────────────────
 
-  return raw
-    .map((c) => ({
-      open: c.open,
-      high: c.high,
-      low: c.low,
-      close: c.close,
-      volume: c.volume ?? 0,
-    }))
-    .reverse() // Chronological order (oldest first)
-}
-
-// ─── Technical Indicators ───────────────────────────────────────────────────
-
-function computeSMA(closes: number[], period: number): number[] {
-  const result: number[] = []
-  for (let i = 0; i < closes.length; i++) {
-    if (i < period - 1) {
-      result.push(NaN)
-      continue
-    }
-    let sum = 0
-    for (let j = i - period + 1; j <= i; j++) sum += closes[j]
-    result.push(sum / period)
-  }
-  return result
-}
-
-function computeEMA(closes: number[], period: number): number[] {
-  const result: number[] = []
-  const k = 2 / (period + 1)
-  for (let i = 0; i < closes.length; i++) {
-    if (i === 0) {
-      result.push(closes[0])
-    } else {
-      result.push(closes[i] * k + result[i - 1] * (1 - k))
-    }
-  }
-  return result
+/**
+ * The last `days` daily candles for one symbol, oldest first. Registry
+ * Coinbase products go through the feed's failover and gap repair; other
+ * symbols (ALT-BTC products, FMP tickers) are read from their source alone.
+ * Throws when nothing could be fetched.
+ */
+async function fetchDailyCandles(feed: CandleFeed, source: "coinbase" | "fmp", symbol: string, days: number): Promise<Candle[]> {
+  const req = { timeframe: "1d" as const, limit: days }
+  const registered = source === "coinbase" ? ASSET_REGISTRY.find((a) => a.coinbase === symbol) : undefined
+  if (!registered) return await feed.fetchFrom(source, symbol, req)
+
+  const result = await feed.fetchAsset(registered, req)
+  if (!result.provider) throw new Error(result.errors.join("; "))
+  if (result.failedOver.length > 0) console.warn(`  ${symbol}: served by ${result.provider} (${result.errors.join("; ")})`)
+  if (result.repaired > 0) console.log(`  ${symbol}: filled ${result.repaired} missing daily bars`)
+  return result.candles
 }
 
-function computeRSI(closes: number[], period = 14): number | null {
-  if (closes.length < period + 1) return null
-
-  let avgGain = 0
-  let avgLoss = 0
-
-  for (let i = 1; i <= period; i++) {
-    const change = closes[i] - closes[i - 1]
-    if (change > 0) avgGain += change
-    else avgLoss += Math.abs(change)
-  }
-  avgGain /= period
-  avgLoss /= period
-
-  for (let i = period + 1; i < closes.length; i++) {
-    const change = closes[i] - closes[i - 1]
-    const gain = change > 0 ? change : 0
-    const loss = change < 0 ? Math.abs(change) : 0
-    avgGain = (avgGain * (period - 1) + gain) / period
-    avgLoss = (avgLoss * (period - 1) + loss) / period
+/**
+ * Daily candles for one configured asset, oldest first. ALT/BTC synthetics
+ * divide ALT-USD by BTC-USD on matching days.
+ */
+async function fetchAssetCandles(feed: CandleFeed, asset: AssetConfig, days: number): Promise<Candle[]> {
+  if (asset.source === "synthetic_btc" || asset.source === "synthetic_btc_fmp") {
+    // Compute ALT/BTC ratio from ALT-USD / BTC-USD candles
+    const altCandles = await fetchDailyCandles(feed, asset.source === "synthetic_btc_fmp" ? "fmp" : "coinbase", asset.symbol, days)
+    const btcCandles = await fetchDailyCandles(feed, "coinbase", "BTC-USD", days)
+    // Align by day rather than by index so a gap on either side can't shift
+    // the whole series
+    const btcByDay = new Map(btcCandles.map((c) => [c.open_time.slice(0, 10), c]))
+    return altCandles.flatMap((a) => {
+      const b = btcByDay.get(a.open_time.slice(0, 10))
+      if (!b) return []
+      return [{
+        open_time: a.open_time,
+        open:   a.open   / b.open,
+        high:   a.high   / b.low,    // ALT high / BTC low = max ratio
+        low:    a.low    / b.high,   // ALT low / BTC high = min ratio
+        close:  a.close  / b.close,
+        volume: a.volume,
+      }]
+    })
   }
-
-  if (avgLoss === 0) return 100
-  const rs = avgGain / avgLoss
-  return 100 - 100 / (1 + rs)
+  return await fetchDailyCandles(feed, asset.source, asset.symbol, days)
 }
 
-// ─── Trend Score Computation ────────────────────────────────────────────────
-//
-// Scoring weights (v4 — 200 SMA penalty 2026-03-29):
+// ─── Backfill ───────────────────────────────────────────────────────────────
 //
-// PRIMARY: Daily close relative to key SMAs (user's framework)
-//   Above 200 SMA:   +18  (strongest bullish signal — long-term trend intact)
-//   Below 200 SMA:   -8   (bearish pressure — below institutional trend line)
-//   Above 50 SMA:    +8   (intermediate support holding)
-//   Above 21 SMA:    +8   (short-term trend positive)
-//   Below 21 SMA:    -10  (short-term trend broken — bearish)
+// { "mode": "backfill", "days"?: 1825, "panel"?: ..., "assets"?: ["BTC", "ETH/BTC"] }
 //
-// SECONDARY: SMA crossover direction
-//   21 SMA > 50 SMA: +6   (trend confirmation)
-//   21 SMA < 50 SMA: -6   (trend deterioration)
-//
-// TERTIARY: RSI & BMSB fine-tuning
-//   RSI ≤30: +5, RSI ≤40: +3, RSI ≥75: -3
-//   BMSB above: +4, in band: +1, below: -2
-//
-// Signal thresholds: ≥70 bullish, ≥45 neutral, <45 bearish
+// Replays every day of the last `days` through the live scoring
+// (_shared/qps.ts replaySignals) and stores the result in
+// positioning_signal_history with source "backfill". Candles come from the
+// asset's source; if that fails, the 1d series stored in ohlc_candles is used
+// instead. Days already recorded by a live run are left alone — those are
+// the signals users actually saw. Long-history FMP assets take a while, so
+// run a panel or an asset list per call.
+
+const DEFAULT_BACKFILL_DAYS = 1825
+const HISTORY_COLUMNS =
+  "asset, category, signal_date, signal, price, trend_score, above_200_sma, has_200_sma, above_21_sma, above_50_sma"
+
+type Supabase = ReturnType<typeof createClient>
+
+async function storedDailyCandles(supabase: Supabase, ticker: string): Promise<Candle[]> {
+  const { data } = await supabase
+    .from("ohlc_candles")
+    .select("open_time, open, high, low, close, volume")
+    .eq("asset", ticker)
+    .eq("timeframe", "1d")
+    .order("open_time", { ascending: true })
+  return (data ?? []).map((c) => ({
+    open_time: new Date(c.open_time).toISOString(),
+    open: Number(c.open),
+    high: Number(c.high),
+    low: Number(c.low),
+    close: Number(c.close),
+    volume: Number(c.volume ?? 0),
+  }))
+}
 
-function computeTrendScore(candles: Candle[]): {
-  trendScore: number
-  rsi: number | null
-  above200SMA: boolean
-  price: number
-} {
-  const closes = candles.map((c) => c.close)
-  const price = closes[closes.length - 1]
-
-  const sma21 = computeSMA(closes, 21)
-  const sma50 = computeSMA(closes, 50)
-  const rsi = computeRSI(closes)
-
-  const latestSma21 = sma21[sma21.length - 1]
-  const latestSma50 = sma50[sma50.length - 1]
-
-  // SMA 200 — only if enough data
-  const sma200 = closes.length >= 200 ? computeSMA(closes, 200) : []
-  const latestSma200 = sma200.length > 0 ? sma200[sma200.length - 1] : NaN
-  const above200SMA = !isNaN(latestSma200) && price > latestSma200
-
-  // Bull Market Support Band: 20W SMA (~140D) and 21W EMA (~147D)
-  const hasBMSB = closes.length >= 148
-  const sma140 = hasBMSB ? computeSMA(closes, 140) : []
-  const ema147 = hasBMSB ? computeEMA(closes, 147) : []
-  const bmsbSma = sma140.length > 0 ? sma140[sma140.length - 1] : NaN
-  const bmsbEma = ema147.length > 0 ? ema147[ema147.length - 1] : NaN
-
-  const aboveSma21 = !isNaN(latestSma21) && price > latestSma21
-  const aboveSma50 = !isNaN(latestSma50) && price > latestSma50
-
-  // ── Base: 50 ──
-  let score = 50
-
-  // ── PRIMARY: SMA position (key framework) ──
-  // 200 SMA = bull/bear dividing line (symmetric weighting)
-  if (above200SMA) {
-    score += 18
-  } else if (!isNaN(latestSma200)) {
-    score -= 8   // Below 200 SMA = bearish pressure
+async function backfillAsset(supabase: Supabase, feed: CandleFeed, asset: AssetConfig, days: number): Promise<number> {
+  const window = asset.source === "fmp" ? LIVE_WINDOW.fmp : LIVE_WINDOW.coinbase
+  let candles: Candle[]
+  try {
+    // Enough extra bars that the first backfilled day has a full live window
+    candles = await fetchAssetCandles(feed, asset, days + window)
+  } catch (err) {
+    console.error(`  ${asset.ticker}: fetch failed (${(err as Error).message}), using stored candles`)
+    candles = await storedDailyCandles(supabase, asset.ticker)
   }
-
-  // Above 50 SMA = intermediate support holding
-  if (aboveSma50) score += 8
-
-  // Above 21 SMA = short-term trend positive
-  if (aboveSma21) {
-    score += 8
-  } else if (!isNaN(latestSma21)) {
-    // Below 21 SMA = short-term trend broken
-    score -= 10
+  if (candles.length < MIN_CANDLES) {
+    throw new Error(`only ${candles.length} candles (need ${MIN_CANDLES})`)
   }
 
-  // ── SECONDARY: SMA crossover direction ──
-  if (!isNaN(latestSma21) && !isNaN(latestSma50)) {
-    if (latestSma21 > latestSma50) {
-      score += 6   // Trend confirmation
-    } else {
-      score -= 6   // Trend deterioration
-    }
+  const from = new Date(Date.now() - days * 86400000).toISOString().split("T")[0]
+  const today = new Date().toISOString().split("T")[0]
+  // Today's candle is still forming — the live run owns today.
+  const points = replaySignals(candles.slice(-(days + window)), window)
+    .filter((p) => p.date >= from && p.date < today)
+  if (points.length === 0) return 0
+
+  // Replace earlier backfill rows so a rerun reflects the current scoring;
+  // ignoreDuplicates below then skips any day a live run already recorded.
+  await supabase
+    .from("positioning_signal_history")
+    .delete()
+    .eq("asset", asset.ticker)
+    .eq("source", "backfill")
+    .gte("signal_date", from)
+
+  const rows = points.map((p) => ({
+    asset: asset.ticker,
+    category: asset.category,
+    signal_date: p.date,
+    signal: p.signal,
+    trend_score: p.trendScore,
+    rsi: p.rsi,
+    price: p.close,
+    above_200_sma: p.above200SMA,
+    has_200_sma: p.has200SMA,
+    above_21_sma: p.aboveSma21,
+    above_50_sma: p.aboveSma50,
+    source: "backfill",
+  }))
+  for (let i = 0; i < rows.length; i += 500) {
+    const { error } = await supabase
+      .from("positioning_signal_history")
+      .upsert(rows.slice(i, i + 500), { onConflict: "asset,signal_date", ignoreDuplicates: true })
+    if (error) throw new Error(`history upsert: ${error.message}`)
   }
+  return rows.length
+}
 
-  // ── TERTIARY: RSI mean-reversion ──
-  if (rsi !== null) {
-    if (rsi <= 30) {
-      score += 5        // Deeply oversold — contrarian boost
-    } else if (rsi <= 40) {
-      score += 3        // Approaching oversold — mild boost
-    } else if (rsi >= 75) {
-      score -= 3        // Overbought — exhaustion drag
+async function runBackfill(supabase: Supabase, feed: CandleFeed, assets: AssetConfig[], days: number) {
+  const stored: Record<string, number> = {}
+  const errors: string[] = []
+  for (const asset of assets) {
+    try {
+      stored[asset.ticker] = await backfillAsset(supabase, feed, asset, days)
+      console.log(`  ${asset.ticker}: ${stored[asset.ticker]} days`)
+    } catch (err) {
+      errors.push(`${asset.ticker}: ${(err as Error).message}`)
     }
+    await sleep(INTER_ASSET_DELAY_MS)
   }
+  return jsonResponse({
+    success: true,
+    mode: "backfill",
+    days,
+    assets: Object.keys(stored).length,
+    rows: Object.values(stored).reduce((a, b) => a + b, 0),
+    stored,
+    errors: errors.length > 0 ? errors : undefined,
+  })
+}
 
-  // ── TERTIARY: BMSB position ──
-  if (!isNaN(bmsbSma) && !isNaN(bmsbEma)) {
-    const bmsbTop = Math.max(bmsbSma, bmsbEma)
-    const bmsbBot = Math.min(bmsbSma, bmsbEma)
-    if (price > bmsbTop) {
-      score += 4
-    } else if (price >= bmsbBot) {
-      score += 1
-    } else {
-      score -= 2
-    }
+// ─── Evaluation ─────────────────────────────────────────────────────────────
+//
+// { "mode": "evaluate", "thresholds"?: { "bullish": 72 }, "assets"?: [...], "from"?: "2022-01-01" }
+//
+// Scores the stored history (_shared/qps_evaluation.ts): forward 7/30/90-day
+// returns per signal state, hit rate, flip frequency and per-year folds, per
+// asset, per category and overall. Each run is kept in qps_evaluations so
+// threshold variants can be compared side by side.
+
+async function runEvaluation(supabase: Supabase, body: Record<string, unknown>) {
+  const override = body.thresholds as Partial<SignalThresholds> | undefined
+  const thresholds = override ? { ...DEFAULT_THRESHOLDS, ...override } : null
+  const assets = Array.isArray(body.assets) ? (body.assets as string[]) : null
+  const from = typeof body.from === "string" ? body.from : null
+
+  // PostgREST caps a response at 1000 rows — page through the history
+  const rows: HistoryRow[] = []
+  for (let offset = 0; ; offset += 1000) {
+    let query = supabase
+      .from("positioning_signal_history")
+      .select(HISTORY_COLUMNS)
+      .order("asset", { ascending: true })
+      .order("signal_date", { ascending: true })
+      .range(offset, offset + 999)
+    if (assets) query = query.in("asset", assets)
+    if (from) query = query.gte("signal_date", from)
+    const { data, error } = await query
+    if (error) return jsonResponse({ error: error.message }, 500)
+    rows.push(...((data ?? []) as HistoryRow[]))
+    if (!data || data.length < 1000) break
   }
-
-  // Clamp to 0-100
-  score = Math.max(0, Math.min(100, score))
-
-  // BMSB status for storage
-  let bmsbStatus = "unknown"
-  if (!isNaN(bmsbSma) && !isNaN(bmsbEma)) {
-    const bmsbTop = Math.max(bmsbSma, bmsbEma)
-    const bmsbBot = Math.min(bmsbSma, bmsbEma)
-    if (price > bmsbTop) bmsbStatus = "above"
-    else if (price >= bmsbBot) bmsbStatus = "within"
-    else bmsbStatus = "below"
+  if (rows.length === 0) {
+    return jsonResponse({ error: "No signal history — run a backfill first" }, 404)
   }
 
-  // Channel position: where price sits between 21 SMA (bottom) and recent high (top), 0-1
-  const channelPosition = (!isNaN(latestSma21) && closes.length >= 21)
-    ? Math.max(0, Math.min(1, (price - latestSma21) / (Math.max(...closes.slice(-21)) - latestSma21 || 1)))
-    : null
+  const report = evaluateSignals(rows, thresholds)
+  const { error: saveError } = await supabase.from("qps_evaluations").insert({
+    thresholds: thresholds ?? DEFAULT_THRESHOLDS,
+    is_default: thresholds === null,
+    assets,
+    date_from: report.overall.from,
+    date_to: report.overall.to,
+    observations: rows.length,
+    report,
+  })
+  if (saveError) console.error(`qps_evaluations insert failed: ${saveError.message}`)
 
-  return { trendScore: score, rsi, above200SMA, price, aboveSma21, aboveSma50, bmsbStatus, channelPosition }
-}
-
-// ─── Signal Derivation ──────────────────────────────────────────────────────
-
-function deriveSignal(
-  trendScore: number,
-  above200SMA: boolean,
-  has200SMA: boolean,
-  aboveSma21: boolean,
-  aboveSma50: boolean
-): "bullish" | "neutral" | "bearish" {
-  // Assets without enough history for a 200 SMA can't earn the +18 bonus,
-  // so lower the bullish threshold proportionally (70 → 62)
-  const bullishThreshold = has200SMA ? 70 : 62
-  if (trendScore >= bullishThreshold) {
-    // Below both 21 AND 50 SMA caps bullish → neutral
-    // (short-term trend is broken — no bullish signal regardless of score)
-    if (!aboveSma21 && !aboveSma50) return "neutral"
-    // Note: being below the 200 SMA still penalizes the score (-8 points)
-    // but no longer hard-caps to neutral. The score must overcome the penalty
-    // on its own merit (21/50 SMA, RSI, channel, BMSB all need to align).
-    return "bullish"
-  }
-  if (trendScore >= 45) {
-    return "neutral"
-  }
-  return "bearish"
+  return jsonResponse({ success: true, mode: "evaluate", observations: rows.length, report })
 }
 
 // ─── Main Handler ───────────────────────────────────────────────────────────
@@ -442,14 +347,20 @@ Deno.serve(async (req) => {
   const supabaseUrl = Deno.env.get("SUPABASE_URL")!
   const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
   const supabase = createClient(supabaseUrl, supabaseKey)
+  const feed = createCandleFeed([coinbaseProvider, binanceProvider, krakenProvider, fmpProvider(fmpKey)])
 
   // Parse optional panel filter from request body
   let panel: string | null = null
+  let body: Record<string, unknown> = {}
   try {
-    const body = await req.json()
-    panel = body?.panel ?? null
+    body = (await req.json()) ?? {}
+    panel = (body.panel as string | undefined) ?? null
   } catch { /* empty body = run all */ }
 
+  if (body.mode === "evaluate") {
+    return await runEvaluation(supabase, body)
+  }
+
   // Filter assets by panel
   const EQUITY_CATEGORIES: Set<AssetCategory> = new Set(["stock", "index"])
   const assetsToProcess = panel === "equities"
@@ -458,6 +369,14 @@ Deno.serve(async (req) => {
     ? ASSETS.filter((a) => !EQUITY_CATEGORIES.has(a.category))
     : ASSETS
 
+  if (body.mode === "backfill") {
+    const only = Array.isArray(body.assets) ? new Set(body.assets as string[]) : null
+    const days = Math.max(1, Number(body.days) || DEFAULT_BACKFILL_DAYS)
+    const targets = only ? assetsToProcess.filter((a) => only.has(a.ticker)) : assetsToProcess
+    console.log(`Backfill: ${targets.length} assets, ${days} days`)
+    return await runBackfill(supabase, feed, targets, days)
+  }
+
   console.log(`Panel: ${panel ?? "all"} — processing ${assetsToProcess.length} assets`)
 
   const today = new Date().toISOString().split("T")[0]
@@ -468,38 +387,11 @@ Deno.serve(async (req) => {
 
   for (const asset of assetsToProcess) {
     try {
-      // Fetch candles from appropriate source
-      let candles: Candle[]
-      if (asset.source === "synthetic_btc" || asset.source === "synthetic_btc_fmp") {
-        // Compute ALT/BTC ratio from ALT-USD / BTC-USD candles
-        const altCandles = asset.source === "synthetic_btc_fmp"
-          ? await fetchFMPCandles(asset.symbol, fmpKey)
-          : await fetchCoinbaseCandles(asset.symbol, 210)
-        const btcCandles = await fetchCoinbaseCandles("BTC-USD", 210)
-        const minLen = Math.min(altCandles.length, btcCandles.length)
-        // Align from the end (most recent) and divide
-        const altSlice = altCandles.slice(-minLen)
-        const btcSlice = btcCandles.slice(-minLen)
-        candles = altSlice.map((a, i) => ({
-          open:   a.open   / btcSlice[i].open,
-          high:   a.high   / btcSlice[i].low,    // ALT high / BTC low = max ratio
-          low:    a.low    / btcSlice[i].high,    // ALT low / BTC high = min ratio
-          close:  a.close  / btcSlice[i].close,
-          volume: a.volume,
-        }))
-      } else if (asset.source === "coinbase") {
-        candles = await fetchCoinbaseCandles(asset.symbol, 210)
-      } else {
-        candles = await fetchFMPCandles(asset.symbol, fmpKey)
-        // FMP returns full history; take last 300 for consistency
-        if (candles.length > 300) {
-          candles = candles.slice(-300)
-        }
-      }
+      const candles = await fetchAssetCandles(feed, asset, asset.source === "fmp" ? LIVE_WINDOW.fmp : LIVE_WINDOW.coinbase)
 
       // Need at least 22 candles for SMA 21 (minimum useful analysis)
-      if (candles.length < 22) {
-        errors.push(`${asset.ticker}: only ${candles.length} candles (need 22)`)
+      if (candles.length < MIN_CANDLES) {
+        errors.push(`${asset.ticker}: only ${candles.length} candles (need ${MIN_CANDLES})`)
         continue
       }
 
@@ -550,6 +442,8 @@ Deno.serve(async (req) => {
         rsi: rsi !== null ? Math.round(rsi * 10) / 10 : null,
         price: Math.round(displayPrice * 100) / 100,
         above_200_sma: above200SMA,
+        _has200SMA: has200SMA,
+        _close: price,
         _aboveSma21: aboveSma21,
         _aboveSma50: aboveSma50,
         _bmsbStatus: bmsbStatus,
@@ -570,7 +464,7 @@ Deno.serve(async (req) => {
   if (vixResult) {
     try {
       // Fetch VIX 90-day history to compute z-score
-      const vixCandles = await fetchFMPCandles("^VIX", fmpKey)
+      const vixCandles = await feed.fetchFrom("fmp", "^VIX", { timeframe: "1d", limit: 90 })
       const vixCloses = vixCandles.slice(-90).map((c) => c.close)
       if (vixCloses.length >= 20) {
         const mean = vixCloses.reduce((a, b) => a + b, 0) / vixCloses.length
@@ -630,6 +524,29 @@ Deno.serve(async (req) => {
     if (upsertError) {
       errors.push(`Upsert failed: ${upsertError.message}`)
     }
+
+    // Same day into the evaluation history — the published signal, priced at
+    // the candle close so forward returns line up with backfilled days
+    const { error: historyError } = await supabase
+      .from("positioning_signal_history")
+      .upsert(results.map((r) => ({
+        asset: r.asset,
+        category: r.category,
+        signal_date: today,
+        signal: r.signal,
+        trend_score: r.trend_score,
+        rsi: r.rsi,
+        price: r._close,
+        above_200_sma: r.above_200_sma,
+        has_200_sma: r._has200SMA,
+        above_21_sma: r._aboveSma21,
+        above_50_sma: r._aboveSma50,
+        source: "live",
+      })), { onConflict: "asset,signal_date" })
+
+    if (historyError) {
+      errors.push(`History upsert failed: ${historyError.message}`)
+    }
   }
 
   const changes = results.filter((r) => r.prev_signal && r.signal !== r.prev_signal)
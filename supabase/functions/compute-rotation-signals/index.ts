@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { clamp, percentReturn, round2 } from "../_shared/indicators.ts"
 
 /**
  * compute-rotation-signals Edge Function
@@ -164,12 +165,12 @@ Deno.serve(async (req) => {
     return json({ error: "Insufficient price data", errors })
   }
 
-  const btc7d = computeReturn(btcCandles, 7)
-  const spy7d = computeReturn(spyCandles, 7)
-  const btc30d = computeReturn(btcCandles, 30)
-  const spy30d = computeReturn(spyCandles, 30)
-  const btc90d = computeReturn(btcCandles, 90)
-  const spy90d = computeReturn(spyCandles, 90)
+  const btc7d = percentReturn(btcCandles, 7)
+  const spy7d = percentReturn(spyCandles, 7)
+  const btc30d = percentReturn(btcCandles, 30)
+  const spy30d = percentReturn(spyCandles, 30)
+  const btc90d = percentReturn(btcCandles, 90)
+  const spy90d = percentReturn(spyCandles, 90)
   const btcYtd = computeYTDReturn(btcCandles)
   const spyYtd = computeYTDReturn(spyCandles)
 
@@ -488,8 +489,8 @@ async function computeSectorPerformance(
       const closes = await fetchFMPCloses(ticker, fmpKey, 35)
       if (closes.length >= 30) {
         stockReturns[ticker] = {
-          r7d: computeReturn(closes, 7),
-          r30d: computeReturn(closes, 30),
+          r7d: percentReturn(closes, 7),
+          r30d: percentReturn(closes, 30),
         }
       }
     } catch {
@@ -585,13 +586,6 @@ async function callHaiku(apiKey: string, userMessage: string): Promise<string> {
 
 // ─── Helpers ───────────────────────────────────────────────────────────────
 
-function computeReturn(closes: number[], days: number): number {
-  if (closes.length < days + 1) return 0
-  const recent = closes[closes.length - 1]
-  const past = closes[closes.length - 1 - days]
-  return past > 0 ? ((recent - past) / past) * 100 : 0
-}
-
 function computeYTDReturn(closes: number[]): number {
   if (closes.length < 2) return 0
   const now = new Date()
@@ -603,14 +597,6 @@ function computeYTDReturn(closes: number[]): number {
   return start > 0 ? ((recent - start) / start) * 100 : 0
 }
 
-function clamp(value: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, value))
-}
-
-function round2(n: number): number {
-  return Math.round(n * 100) / 100
-}
-
 function sleep(ms: number): Promise<void> {
   return new Promise((r) => setTimeout(r, ms))
 }
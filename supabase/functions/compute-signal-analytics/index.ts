@@ -7,7 +7,10 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
  * adaptive parameters that feed back into the fibonacci-pipeline.
  *
  * Runs daily at 01:00 UTC via cron.
- * Stores results in market_data_cache key "signal_analytics".
+ * Every run appends a row to adaptive_param_versions (params + the analytics
+ * that produced them). Results are cached in market_data_cache key
+ * "signal_analytics", whose `adaptive` is the version in effect — the pinned
+ * one if an admin pinned a version, else this run's.
  */
 
 interface ClosedSignal {
@@ -110,11 +113,38 @@ Deno.serve(async (req) => {
   // Derive adaptive parameters
   const adaptive = deriveAdaptiveParams(system.rolling_30d, assets)
 
+  // Record the new version with its inputs
+  const { data: versionRow, error: versionError } = await supabase
+    .from("adaptive_param_versions")
+    .insert({
+      params: adaptive,
+      inputs: { signal_count: allSignals.length, system, assets },
+      source: "computed",
+    })
+    .select("version")
+    .single()
+
+  if (versionError || !versionRow) {
+    console.error(`Adaptive params version insert failed: ${versionError?.message}`)
+    return json({ error: "Adaptive params version insert failed", detail: versionError?.message }, 500)
+  }
+
+  // A pinned version stays in effect; this run is recorded but not applied
+  const { data: pinnedRow } = await supabase
+    .from("adaptive_param_versions")
+    .select("version, params")
+    .eq("is_pinned", true)
+    .maybeSingle()
+
+  const activeVersion: number = pinnedRow?.version ?? versionRow.version
+  const activeParams: AdaptiveParams = pinnedRow?.params ?? adaptive
+
   const result = {
     computed_at: now.toISOString(),
     system,
     assets,
-    adaptive,
+    adaptive: activeParams,
+    adaptive_version: activeVersion,
   }
 
   // Store in market_data_cache
@@ -132,7 +162,10 @@ Deno.serve(async (req) => {
   }
 
   console.log(`Signal analytics computed: ${allSignals.length} signals, ${Object.keys(assets).length} assets`)
-  console.log(`Adaptive state: ${adaptive.state} — ${adaptive.state_label}`)
+  console.log(`Adaptive params v${versionRow.version}: ${adaptive.state} — ${adaptive.state_label}`)
+  if (pinnedRow) {
+    console.log(`v${pinnedRow.version} is pinned — v${versionRow.version} recorded but not applied`)
+  }
   if (adaptive.paused_assets.length > 0) {
     console.log(`Paused assets: ${adaptive.paused_assets.join(", ")}`)
   }
@@ -140,7 +173,13 @@ Deno.serve(async (req) => {
     console.log(`Reasons: ${adaptive.reasons.join("; ")}`)
   }
 
-  return json({ success: true, signal_count: allSignals.length, adaptive })
+  return json({
+    success: true,
+    signal_count: allSignals.length,
+    adaptive,
+    version: versionRow.version,
+    active_version: activeVersion,
+  })
 })
 
 // ─── Stats Computation ────────────────────────────────────────────────────────
@@ -0,0 +1,182 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { evaluateRule } from "../_shared/alerts.ts"
+import type { AlertMarket, AlertRule } from "../_shared/alerts.ts"
+
+// Evaluates every active user alert rule (alert_rules) against the latest
+// market data and pushes the ones that fired. Invoked every 5 minutes by
+// pg_cron with the shared x-cron-secret (verify_jwt pinned false in
+// supabase/config.toml), right after sync-crypto-prices refreshes the cache.
+//
+// Sources: crypto prices + 24h change from market_data_cache
+// ("crypto_assets_1_100"), FMP quotes for any other ticker, regression risk
+// from model_portfolio_risk_history, the ArkLine Score from risk_snapshots and
+// QPS signals from positioning_signals. Delivery goes through
+// send-broadcast-notification (web push + APNs) with event_type "price_alert".
+//
+// De-duplication: an alert_events row is inserted per fire with a unique
+// (rule_id, dedupe_key); a retried or overlapping run hits the constraint and
+// skips the push.
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!
+const SERVICE_ROLE = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+const CRON_SECRET = Deno.env.get("CRON_SECRET")!
+const FMP_KEY = Deno.env.get("FMP_API_KEY") ?? ""
+
+function json(obj: unknown, status = 200): Response {
+  return new Response(JSON.stringify(obj), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  })
+}
+
+type Supabase = ReturnType<typeof createClient>
+
+async function loadPrices(supabase: Supabase, assets: string[]): Promise<AlertMarket["prices"]> {
+  const prices: AlertMarket["prices"] = new Map()
+  const { data: cache } = await supabase
+    .from("market_data_cache")
+    .select("data")
+    .eq("key", "crypto_assets_1_100")
+    .maybeSingle()
+  const coins = cache?.data ? (typeof cache.data === "string" ? JSON.parse(cache.data) : cache.data) : []
+  for (const c of Array.isArray(coins) ? coins : []) {
+    const sym = String(c.symbol ?? "").toUpperCase()
+    if (sym && !prices.has(sym) && c.current_price != null) {
+      prices.set(sym, { price: Number(c.current_price), change24h: c.price_change_percentage_24h ?? null })
+    }
+  }
+
+  // Anything not in the crypto cache (stocks, ETFs, smaller coins FMP lists as XXXUSD).
+  const missing = assets.filter((a) => !prices.has(a))
+  if (missing.length && FMP_KEY) {
+    try {
+      const symbols = missing.join(",")
+      const resp = await fetch(`https://financialmodelingprep.com/stable/batch-quote?symbols=${encodeURIComponent(symbols)}&apikey=${FMP_KEY}`)
+      if (resp.ok) {
+        const quotes = await resp.json()
+        for (const q of Array.isArray(quotes) ? quotes : []) {
+          if (q?.symbol && q.price != null) {
+            prices.set(String(q.symbol).toUpperCase(), { price: Number(q.price), change24h: q.changePercentage ?? null })
+          }
+        }
+      }
+    } catch (e) {
+      console.error("[evaluate-alerts] FMP quote failed:", e)
+    }
+  }
+  return prices
+}
+
+async function loadMarket(supabase: Supabase, rules: AlertRule[]): Promise<AlertMarket> {
+  const assetsFor = (...kinds: string[]) =>
+    [...new Set(rules.filter((r) => kinds.includes(r.kind) && r.asset).map((r) => r.asset!.toUpperCase()))]
+
+  const priceAssets = assetsFor("price_cross", "change_24h")
+  const riskAssets = assetsFor("risk_band")
+  const qpsAssets = assetsFor("qps_flip")
+  const since = new Date(Date.now() - 7 * 86_400_000).toISOString().slice(0, 10)
+
+  const [prices, riskRows, scoreRows, qpsRows] = await Promise.all([
+    priceAssets.length ? loadPrices(supabase, priceAssets) : Promise.resolve(new Map()),
+    riskAssets.length
+      ? supabase.from("model_portfolio_risk_history").select("asset, risk_level, risk_date")
+        .in("asset", riskAssets).gte("risk_date", since).order("risk_date", { ascending: false })
+      : Promise.resolve({ data: [] }),
+    rules.some((r) => r.kind === "arkline_score")
+      ? supabase.from("risk_snapshots").select("composite_score").order("recorded_date", { ascending: false }).limit(1)
+      : Promise.resolve({ data: [] }),
+    qpsAssets.length
+      ? supabase.from("positioning_signals").select("asset, signal, signal_date")
+        .in("asset", qpsAssets).gte("signal_date", since).order("signal_date", { ascending: false })
+      : Promise.resolve({ data: [] }),
+  ])
+
+  // Rows are newest first — keep the first per asset.
+  const risk = new Map<string, number>()
+  for (const r of (riskRows.data ?? []) as { asset: string; risk_level: number }[]) {
+    if (!risk.has(r.asset) && r.risk_level != null) risk.set(r.asset, Number(r.risk_level))
+  }
+  const qps = new Map<string, string>()
+  for (const r of (qpsRows.data ?? []) as { asset: string; signal: string }[]) {
+    if (!qps.has(r.asset) && r.signal) qps.set(r.asset, r.signal)
+  }
+  const scoreRow = (scoreRows.data ?? [])[0] as { composite_score: number } | undefined
+
+  return { prices, risk, qps, score: scoreRow ? Number(scoreRow.composite_score) : null }
+}
+
+Deno.serve(async (req) => {
+  const provided = req.headers.get("x-cron-secret")
+  if (!CRON_SECRET || provided !== CRON_SECRET) {
+    return json({ error: "Unauthorized" }, 401)
+  }
+
+  const supabase = createClient(SUPABASE_URL, SERVICE_ROLE)
+  const now = new Date()
+
+  const { data: rules, error } = await supabase
+    .from("alert_rules")
+    .select("id, user_id, kind, asset, direction, threshold, band, cooldown_minutes, last_value, last_state, last_triggered_at")
+    .eq("is_active", true)
+  if (error) return json({ error: error.message }, 500)
+  if (!rules || rules.length === 0) return json({ evaluated: 0, fired: 0 })
+
+  const market = await loadMarket(supabase, rules as AlertRule[])
+  let fired = 0
+  let skipped = 0
+  const failures: string[] = []
+
+  for (const rule of rules as AlertRule[]) {
+    const result = evaluateRule(rule, market, now)
+    if (result.value == null) {
+      skipped++
+      continue
+    }
+
+    const update: Record<string, unknown> = {
+      last_value: result.value,
+      last_state: result.state,
+      last_evaluated_at: now.toISOString(),
+    }
+
+    if (result.fire) {
+      // Claim the event first; a duplicate key means another run already sent it.
+      const { error: claimErr } = await supabase.from("alert_events").insert({
+        rule_id: rule.id,
+        user_id: rule.user_id,
+        title: result.fire.title,
+        body: result.fire.body,
+        observed: result.value,
+        dedupe_key: result.fire.dedupeKey,
+      })
+      if (!claimErr) {
+        update.last_triggered_at = now.toISOString()
+        fired++
+        try {
+          const resp = await fetch(`${SUPABASE_URL}/functions/v1/send-broadcast-notification`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", "x-cron-secret": CRON_SECRET },
+            body: JSON.stringify({
+              broadcast_id: rule.id,
+              title: result.fire.title,
+              body: result.fire.body,
+              event_type: "price_alert",
+              target_audience: { type: "specific", user_ids: [rule.user_id] },
+            }),
+          })
+          if (!resp.ok) failures.push(`${rule.id}: notify ${resp.status}`)
+        } catch (e) {
+          failures.push(`${rule.id}: ${String(e)}`)
+        }
+      } else if (claimErr.code !== "23505") {
+        failures.push(`${rule.id}: ${claimErr.message}`)
+      }
+    }
+
+    const { error: upErr } = await supabase.from("alert_rules").update(update).eq("id", rule.id)
+    if (upErr) failures.push(`${rule.id}: ${upErr.message}`)
+  }
+
+  console.log(`[evaluate-alerts] ${rules.length} rules, ${fired} fired, ${skipped} without data, ${failures.length} failures`)
+  return json({ evaluated: rules.length, fired, skipped, failures })
+})
@@ -0,0 +1,580 @@
+/**
+ * fibonacci-pipeline backtest harness
+ *
+ * Replays stored candles bar by bar through the exact strategy code the edge
+ * function runs (_shared/fibonacci): detectAllSwings → computeAllFibs →
+ * clusterLevels → evaluateFibSignals / evaluateEMAPullback → resolveSignal.
+ * Unlike the scripts/backtest_*.py ports, nothing here is re-implemented, so
+ * a parameter change measured offline is the change that ships.
+ *
+ * Replay model (one step per closed bar, finest timeframe available):
+ *   - Each step sees what the live pipeline would: the last N closed candles
+ *     per timeframe (TIMEFRAME_CONFIGS limits) plus the still-forming 4h/1d
+ *     candle built from the bars so far.
+ *   - Triggered signals resolve first (Coinbase-only — no Binance
+ *     confirmation), then untriggered ones fill or expire the way
+ *     signal-monitor does, then new signals are evaluated.
+ *   - No Fear & Greed, BTC risk score or adaptive parameters — only what can
+ *     be derived from candles. The BTC volatility regime comes from the BTC
+ *     4h candles in the fixture when present.
+ *
+ * Usage:
+ *   # Export ohlc_candles into a local fixture (needs the service-role key)
+ *   deno run --allow-net --allow-env --allow-write backtest.ts export --out candles.json [--assets BTC,ETH]
+ *
+ *   # Replay with default parameters, or compare parameter sets side by side.
+ *   # A parameter file is { "name": "...", "params": { ...Partial<StrategyParams> } }.
+ *   deno run --allow-read backtest.ts run --candles candles.json [--params a.json --params b.json] [--json]
+ */
+
+import { aggregateAfter } from "../_shared/candles.ts"
+import type { Candle } from "../_shared/candles.ts"
+import {
+  clusterLevels,
+  computeAllFibs,
+  computeVolatilityRegime,
+  computeVolumeProfile,
+  DEFAULT_PARAMS,
+  DEFAULT_VOL_REGIME,
+  detectAllSwings,
+  evaluateEMAPullback,
+  evaluateFibSignals,
+  isBuySignal,
+  recordInBook,
+  resolveSignal,
+  TIMEFRAME_CONFIGS,
+} from "../_shared/fibonacci/mod.ts"
+import type {
+  BookSignal,
+  SignalBook,
+  SignalDraft,
+  SignalRow,
+  StrategyParams,
+  TierConfig,
+  VolatilityRegime,
+} from "../_shared/fibonacci/mod.ts"
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** One ohlc_candles row — the fixture format is an array of these. */
+export interface CandleRow extends Candle {
+  asset: string
+  timeframe: string
+}
+
+export interface ParamSet {
+  name: string
+  params?: Partial<StrategyParams>
+}
+
+export interface BacktestSignal extends SignalRow {
+  id: string
+  generated_at: string
+  triggered_at: string | null
+  t1_hit_at: string | null
+  t1_pnl_pct: number | null
+  runner_exit_price: number | null
+  runner_pnl_pct: number | null
+  outcome: "win" | "partial" | "loss" | null
+  outcome_pct: number | null
+  closed_at: string | null
+  duration_hours: number | null
+}
+
+export interface BacktestOptions {
+  assets?: string[]
+  from?: string   // ISO — first step to evaluate (earlier candles still warm up indicators)
+  to?: string     // ISO — last step to evaluate
+}
+
+export interface BacktestResult {
+  name: string
+  params: StrategyParams
+  signals: BacktestSignal[]
+  generated: number
+  filled: number
+  expiredUnfilled: number
+  steps: number
+  summary: PerformanceSummary
+  byTimeframe: Record<string, PerformanceSummary>
+}
+
+// ─── Fixture Loading ─────────────────────────────────────────────────────────
+
+const TIMEFRAME_MS: Record<string, number> = {
+  "1h": 3600000,
+  "4h": 4 * 3600000,
+  "1d": 24 * 3600000,
+}
+
+const CANDLE_LIMITS: Record<string, number> = Object.fromEntries(
+  TIMEFRAME_CONFIGS.map((c) => [c.timeframe, c.limit]),
+)
+
+/** Groups fixture rows into oldest-first candle series per asset and timeframe. */
+export function groupCandles(rows: CandleRow[]): Record<string, Record<string, Candle[]>> {
+  const grouped: Record<string, Record<string, Candle[]>> = {}
+  for (const row of rows) {
+    if (!TIMEFRAME_MS[row.timeframe]) continue
+    const byTf = grouped[row.asset] ??= {}
+    ;(byTf[row.timeframe] ??= []).push({
+      open_time: new Date(row.open_time).toISOString(),
+      open: Number(row.open),
+      high: Number(row.high),
+      low: Number(row.low),
+      close: Number(row.close),
+      volume: Number(row.volume),
+    })
+  }
+  for (const byTf of Object.values(grouped)) {
+    for (const tf of Object.keys(byTf)) {
+      byTf[tf].sort((a, b) => a.open_time.localeCompare(b.open_time))
+      // Drop duplicate open_times (overlapping exports)
+      byTf[tf] = byTf[tf].filter((c, i, arr) => i === 0 || c.open_time !== arr[i - 1].open_time)
+    }
+  }
+  return grouped
+}
+
+/**
+ * Overrides over DEFAULT_PARAMS. Unknown keys (a typo like "minRr", or a tier
+ * field that doesn't exist) throw rather than silently running the defaults.
+ */
+export function resolveParams(overrides: Partial<StrategyParams> = {}): StrategyParams {
+  const unknown = (given: object | undefined, known: object, prefix = "") =>
+    Object.keys(given ?? {}).filter((k) => !(k in known)).map((k) => prefix + k)
+  const bad = [
+    ...unknown(overrides, DEFAULT_PARAMS),
+    ...unknown(overrides.swingParams, DEFAULT_PARAMS.swingParams, "swingParams."),
+    ...Object.entries(overrides.swingParams ?? {}).flatMap(([tf, p]) =>
+      unknown(p, DEFAULT_PARAMS.swingParams["1h"], `swingParams.${tf}.`)),
+    ...unknown(overrides.tierSwing, DEFAULT_PARAMS.tierSwing, "tierSwing."),
+    ...unknown(overrides.tierScalp, DEFAULT_PARAMS.tierScalp, "tierScalp."),
+  ]
+  if (bad.length) throw new Error(`Unknown parameter${bad.length > 1 ? "s" : ""}: ${bad.join(", ")}`)
+
+  return {
+    ...DEFAULT_PARAMS,
+    ...overrides,
+    swingParams: { ...DEFAULT_PARAMS.swingParams, ...overrides.swingParams },
+    tierSwing: { ...DEFAULT_PARAMS.tierSwing, ...overrides.tierSwing },
+    tierScalp: { ...DEFAULT_PARAMS.tierScalp, ...overrides.tierScalp },
+  }
+}
+
+// ─── Replay ──────────────────────────────────────────────────────────────────
+
+interface TapeBar extends Candle {
+  asset: string
+  openMs: number
+  closeMs: number
+}
+
+interface AssetSeries {
+  candles: Record<string, Candle[]>
+  closeMs: Record<string, number[]>
+  closedCount: Record<string, number>
+  forming: Record<string, Candle | null>
+}
+
+// Finest-resolution bars for one asset: 1h where the fixture has them, 4h for
+// stretches without 1h coverage (ohlc_candles keeps 1h for a week only).
+function buildTape(asset: string, byTf: Record<string, Candle[]>): TapeBar[] {
+  const toBar = (c: Candle, tf: string): TapeBar => {
+    const openMs = new Date(c.open_time).getTime()
+    return { ...c, asset, openMs, closeMs: openMs + TIMEFRAME_MS[tf] }
+  }
+  const hourly = (byTf["1h"] ?? []).map((c) => toBar(c, "1h"))
+  const covered = new Set(hourly.map((b) => Math.floor(b.openMs / TIMEFRAME_MS["4h"])))
+  const fourHourly = (byTf["4h"] ?? [])
+    .map((c) => toBar(c, "4h"))
+    .filter((b) => !covered.has(Math.floor(b.openMs / TIMEFRAME_MS["4h"])))
+  return [...fourHourly, ...hourly].sort((a, b) => a.openMs - b.openMs)
+}
+
+// Advances one asset to time `t` and returns the candle windows the live
+// pipeline would have fetched at that moment (closed candles + forming one).
+function windowsAt(series: AssetSeries, bar: TapeBar): Record<string, Candle[]> {
+  const windows: Record<string, Candle[]> = {}
+  for (const tf of Object.keys(series.candles)) {
+    const closes = series.closeMs[tf]
+    let n = series.closedCount[tf]
+    while (n < closes.length && closes[n] <= bar.closeMs) n++
+    series.closedCount[tf] = n
+
+    // Fold the tape bar into the forming higher-timeframe candle
+    const tfMs = TIMEFRAME_MS[tf]
+    const bucketOpen = Math.floor(bar.openMs / tfMs) * tfMs
+    let forming: Candle | null = null
+    if (bar.closeMs - bar.openMs < tfMs && bar.closeMs < bucketOpen + tfMs) {
+      const prev = series.forming[tf]
+      forming = prev && new Date(prev.open_time).getTime() === bucketOpen
+        ? {
+          ...prev,
+          high: Math.max(prev.high, bar.high),
+          low: Math.min(prev.low, bar.low),
+          close: bar.close,
+          volume: prev.volume + bar.volume,
+        }
+        : {
+          open_time: new Date(bucketOpen).toISOString(),
+          open: bar.open, high: bar.high, low: bar.low, close: bar.close, volume: bar.volume,
+        }
+    }
+    series.forming[tf] = forming
+
+    const limit = CANDLE_LIMITS[tf] ?? 250
+    const closed = series.candles[tf].slice(Math.max(0, n - (forming ? limit - 1 : limit)), n)
+    windows[tf] = forming ? [...closed, forming] : closed
+  }
+  return windows
+}
+
+function isOpen(signal: BacktestSignal): boolean {
+  return signal.status === "active" || signal.status === "triggered"
+}
+
+function toBookSignal(signal: BacktestSignal): BookSignal {
+  return {
+    signal_type: signal.signal_type,
+    status: signal.status,
+    timeframe: signal.timeframe,
+    entry_zone_low: signal.entry_zone_low,
+    entry_zone_high: signal.entry_zone_high,
+    generated_at: signal.generated_at,
+  }
+}
+
+/** Replays every bar in `candlesByAsset` under one parameter set. */
+export function runBacktest(
+  candlesByAsset: Record<string, Record<string, Candle[]>>,
+  paramSet: ParamSet = { name: "default" },
+  options: BacktestOptions = {},
+): BacktestResult {
+  const params = resolveParams(paramSet.params)
+  const assets = (options.assets ?? Object.keys(candlesByAsset)).filter((a) => candlesByAsset[a])
+  const fromMs = options.from ? new Date(options.from).getTime() : -Infinity
+  const toMs = options.to ? new Date(options.to).getTime() : Infinity
+  const silent = () => {}
+
+  const series: Record<string, AssetSeries> = {}
+  const tape: TapeBar[] = []
+  for (const asset of assets) {
+    const byTf = candlesByAsset[asset]
+    series[asset] = {
+      candles: byTf,
+      closeMs: Object.fromEntries(Object.entries(byTf).map(([tf, cs]) =>
+        [tf, cs.map((c) => new Date(c.open_time).getTime() + TIMEFRAME_MS[tf])])),
+      closedCount: Object.fromEntries(Object.keys(byTf).map((tf) => [tf, 0])),
+      forming: {},
+    }
+    tape.push(...buildTape(asset, byTf))
+  }
+  tape.sort((a, b) => a.closeMs - b.closeMs || assets.indexOf(a.asset) - assets.indexOf(b.asset))
+
+  const signals: BacktestSignal[] = []
+  const byAsset: Record<string, BacktestSignal[]> = Object.fromEntries(assets.map((a) => [a, []]))
+  let generated = 0
+  let filled = 0
+  let expiredUnfilled = 0
+  let steps = 0
+  let btcVolRegime: VolatilityRegime = DEFAULT_VOL_REGIME
+
+  for (const bar of tape) {
+    const asset = bar.asset
+    const candles = windowsAt(series[asset], bar)
+    if (bar.closeMs < fromMs || bar.closeMs > toMs) continue
+    steps++
+
+    const now = new Date(bar.closeMs)
+    const nowIso = now.toISOString()
+
+    // Pipeline computes the BTC regime from the last 100 4h candles
+    if (asset === "BTC" && candles["4h"]) {
+      btcVolRegime = computeVolatilityRegime(candles["4h"].slice(-100))
+    }
+
+    // 1. Resolve triggered signals against this bar
+    for (const signal of byAsset[asset]) {
+      if (signal.status !== "triggered" || !signal.triggered_at) continue
+      const resolution = resolveSignal({ ...signal, triggered_at: signal.triggered_at }, {
+        candle: aggregateAfter([bar], signal.triggered_at),
+        latest: bar,
+        latestClose: bar.close,
+        now,
+      }, silent)
+      if (resolution) Object.assign(signal, resolution.patch)
+    }
+
+    // 2. Fill or expire untriggered signals (signal-monitor)
+    for (const signal of byAsset[asset]) {
+      if (signal.status !== "active") continue
+      if (new Date(signal.expires_at) <= now) {
+        signal.status = "expired"
+        signal.closed_at = nowIso
+        expiredUnfilled++
+      } else if (bar.low <= signal.entry_zone_high && bar.high >= signal.entry_zone_low) {
+        signal.status = "triggered"
+        signal.triggered_at = nowIso
+        filled++
+      }
+    }
+
+    // 3. Evaluate new signals (fibonacci-pipeline)
+    const candles4h = candles["4h"] ?? []
+    if (candles4h.length === 0) continue
+    const currentPrice = candles4h[candles4h.length - 1].close
+    const volumeNodes = computeVolumeProfile(candles4h)
+
+    const cooldownCutoff = now.getTime() - params.cooldownHours * 3600000
+    const book: SignalBook = {
+      open: byAsset[asset].filter(isOpen).map(toBookSignal),
+      recent: byAsset[asset]
+        .filter((s) => new Date(s.generated_at).getTime() >= cooldownCutoff)
+        .map(toBookSignal),
+      openTotal: signals.filter(isOpen).length,
+    }
+    const accept = (drafts: SignalDraft[]) => {
+      for (const draft of drafts) {
+        const signal: BacktestSignal = {
+          ...draft.row,
+          id: `${asset}-${draft.row.timeframe}-${signals.length + 1}`,
+          generated_at: nowIso,
+          triggered_at: null,
+          t1_hit_at: null,
+          t1_pnl_pct: null,
+          runner_exit_price: null,
+          runner_pnl_pct: null,
+          outcome: null,
+          outcome_pct: null,
+          closed_at: null,
+          duration_hours: null,
+        }
+        signals.push(signal)
+        byAsset[asset].push(signal)
+        recordInBook(book, draft.row, nowIso)
+        generated++
+      }
+    }
+
+    const swingsSwing = detectAllSwings(candles, params.tierSwing.swingTimeframes, params.swingParams)
+    const tiers: [TierConfig, boolean][] = [[params.tierSwing, true], [params.tierScalp, false]]
+    for (const [tier, sharesSwings] of tiers) {
+      const swings = sharesSwings
+        ? swingsSwing
+        : detectAllSwings(candles, tier.swingTimeframes, params.swingParams)
+      const fibs = computeAllFibs(swings, params.fibRatios)
+      const zones = clusterLevels(fibs, currentPrice, tier.confluenceTolerancePct)
+      accept(evaluateFibSignals({
+        ticker: asset, candles, zones, fibs, currentPrice, volumeNodes, swings, tier,
+        btcVolRegime, book, now, params, log: silent,
+      }).drafts)
+    }
+
+    if (params.emaPullback) {
+      accept(evaluateEMAPullback({
+        ticker: asset, candles, currentPrice, volumeNodes, swings: swingsSwing,
+        btcVolRegime, book, now, params,
+      }).drafts)
+    }
+  }
+
+  // Newest-first by close, the order fetchSignalHistory hands computeSummary
+  const closed = signals
+    .filter((s) => s.outcome != null)
+    .sort((a, b) => (b.closed_at ?? "").localeCompare(a.closed_at ?? ""))
+  const timeframes = [...new Set(closed.map((s) => s.timeframe))].sort()
+
+  return {
+    name: paramSet.name,
+    params,
+    signals,
+    generated,
+    filled,
+    expiredUnfilled,
+    steps,
+    summary: computeSummary(closed),
+    byTimeframe: Object.fromEntries(timeframes.map((tf) =>
+      [tf, computeSummary(closed.filter((s) => s.timeframe === tf))])),
+  }
+}
+
+// ─── Performance Summary ─────────────────────────────────────────────────────
+// Same math as computeSummary in web/src/lib/signals/performance.ts so backtest
+// numbers line up with the Performance tab. Expects newest-first signals.
+
+export interface PerformanceSummary {
+  total: number
+  wins: number
+  partials: number
+  losses: number
+  winRate: number            // wins / total, 0-100
+  avgWin: number             // avg outcome_pct of wins
+  avgLoss: number            // avg outcome_pct of losses (negative)
+  profitFactor: number       // gross gains / gross losses
+  streak: number             // current run: +N consecutive wins, -N consecutive losses
+  avgDurationHours: number | null
+  compoundedReturn: number   // % compounded following every signal at equal size
+  cumulativeCurve: { date: string; value: number }[] // compounded equity curve, oldest→newest
+}
+
+export function computeSummary(signals: BacktestSignal[]): PerformanceSummary {
+  const closed = signals.filter((s) => s.outcome != null)
+  const wins = closed.filter((s) => s.outcome === "win")
+  const partials = closed.filter((s) => s.outcome === "partial")
+  const losses = closed.filter((s) => s.outcome === "loss")
+
+  const pct = (s: BacktestSignal) => s.outcome_pct ?? 0
+  const avg = (arr: BacktestSignal[]) => (arr.length ? arr.reduce((a, s) => a + pct(s), 0) / arr.length : 0)
+
+  const gains = closed.filter((s) => pct(s) > 0).reduce((a, s) => a + pct(s), 0)
+  const lossSum = Math.abs(closed.filter((s) => pct(s) < 0).reduce((a, s) => a + pct(s), 0))
+
+  // Current streak — walk newest→oldest while the win/loss sign holds.
+  let streak = 0
+  for (const s of closed) {
+    const won = s.outcome === "win"
+    if (streak === 0) streak = won ? 1 : -1
+    else if (won && streak > 0) streak++
+    else if (!won && streak < 0) streak--
+    else break
+  }
+
+  const durations = closed.map((s) => s.duration_hours).filter((d): d is number => d != null)
+
+  // Compounded equity curve, oldest → newest.
+  const chrono = [...closed].reverse()
+  let equity = 1
+  const cumulativeCurve = chrono.map((s) => {
+    equity *= 1 + pct(s) / 100
+    return { date: s.closed_at ?? s.generated_at, value: (equity - 1) * 100 }
+  })
+
+  return {
+    total: closed.length,
+    wins: wins.length,
+    partials: partials.length,
+    losses: losses.length,
+    winRate: closed.length ? (wins.length / closed.length) * 100 : 0,
+    avgWin: avg(wins),
+    avgLoss: avg(losses),
+    profitFactor: lossSum > 0 ? gains / lossSum : gains > 0 ? Infinity : 0,
+    streak,
+    avgDurationHours: durations.length ? durations.reduce((a, b) => a + b, 0) / durations.length : null,
+    compoundedReturn: (equity - 1) * 100,
+    cumulativeCurve,
+  }
+}
+
+// ─── Comparison Report ───────────────────────────────────────────────────────
+
+export function formatComparison(results: BacktestResult[]): string {
+  const fmt = (n: number | null, digits = 2) =>
+    n == null ? "—" : Number.isFinite(n) ? n.toFixed(digits) : "∞"
+  const rows: [string, (r: BacktestResult) => string][] = [
+    ["Signals generated", (r) => String(r.generated)],
+    ["Entries filled", (r) => String(r.filled)],
+    ["Expired unfilled", (r) => String(r.expiredUnfilled)],
+    ["Closed trades", (r) => String(r.summary.total)],
+    ["Wins / partials / losses", (r) => `${r.summary.wins} / ${r.summary.partials} / ${r.summary.losses}`],
+    ["Win rate %", (r) => fmt(r.summary.winRate, 1)],
+    ["Avg win %", (r) => fmt(r.summary.avgWin)],
+    ["Avg loss %", (r) => fmt(r.summary.avgLoss)],
+    ["Profit factor", (r) => fmt(r.summary.profitFactor)],
+    ["Compounded return %", (r) => fmt(r.summary.compoundedReturn)],
+    ["Avg duration (h)", (r) => fmt(r.summary.avgDurationHours, 1)],
+    ["Current streak", (r) => String(r.summary.streak)],
+  ]
+  const timeframes = [...new Set(results.flatMap((r) => Object.keys(r.byTimeframe)))].sort()
+  for (const tf of timeframes) {
+    rows.push([`  ${tf} trades / win %`, (r) => {
+      const s = r.byTimeframe[tf]
+      return s ? `${s.total} / ${fmt(s.winRate, 1)}` : "—"
+    }])
+  }
+
+  const table = [["", ...results.map((r) => r.name)], ...rows.map(([label, cell]) => [label, ...results.map(cell)])]
+  const widths = table[0].map((_, col) => Math.max(...table.map((row) => row[col].length)))
+  return table
+    .map((row) => row.map((cell, col) => col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col])).join("   "))
+    .join("\n")
+}
+
+// ─── CLI ─────────────────────────────────────────────────────────────────────
+
+function parseArgs(args: string[]): { command: string; flags: Record<string, string[]> } {
+  const [command = "run", ...rest] = args
+  const flags: Record<string, string[]> = {}
+  for (let i = 0; i < rest.length; i++) {
+    if (!rest[i].startsWith("--")) continue
+    const key = rest[i].slice(2)
+    const value = rest[i + 1] && !rest[i + 1].startsWith("--") ? rest[++i] : "true"
+    ;(flags[key] ??= []).push(value)
+  }
+  return { command, flags }
+}
+
+async function exportCandles(out: string, assets?: string[]): Promise<void> {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? ""
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  if (!supabaseUrl || !serviceKey) throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required")
+
+  const rows: CandleRow[] = []
+  const pageSize = 1000
+  for (let offset = 0; ; offset += pageSize) {
+    const query = new URLSearchParams({
+      select: "asset,timeframe,open_time,open,high,low,close,volume",
+      order: "asset,timeframe,open_time",
+      offset: String(offset),
+      limit: String(pageSize),
+    })
+    if (assets?.length) query.set("asset", `in.(${assets.join(",")})`)
+    const res = await fetch(`${supabaseUrl}/rest/v1/ohlc_candles?${query}`, {
+      headers: { apikey: serviceKey, Authorization: `Bearer ${serviceKey}` },
+    })
+    if (!res.ok) throw new Error(`ohlc_candles export failed: ${res.status} ${await res.text()}`)
+    const page: CandleRow[] = await res.json()
+    rows.push(...page)
+    if (page.length < pageSize) break
+  }
+
+  await Deno.writeTextFile(out, JSON.stringify(rows))
+  console.log(`Exported ${rows.length} candles to ${out}`)
+}
+
+async function main(): Promise<void> {
+  const { command, flags } = parseArgs(Deno.args)
+  const assets = flags.assets?.[0]?.split(",").map((a) => a.trim().toUpperCase())
+
+  if (command === "export") {
+    await exportCandles(flags.out?.[0] ?? "candles.json", assets)
+    return
+  }
+  if (command !== "run") throw new Error(`Unknown command "${command}" (expected run or export)`)
+
+  const candlePath = flags.candles?.[0]
+  if (!candlePath) throw new Error("--candles <fixture.json> is required")
+  const candles = groupCandles(JSON.parse(await Deno.readTextFile(candlePath)))
+
+  const paramSets: ParamSet[] = [{ name: "default" }]
+  for (const path of flags.params ?? []) {
+    const { name, params, ...bare } = JSON.parse(await Deno.readTextFile(path))
+    paramSets.push({
+      name: name ?? path.replace(/^.*\//, "").replace(/\.json$/, ""),
+      params: params ?? bare,
+    })
+  }
+
+  const options: BacktestOptions = { assets, from: flags.from?.[0], to: flags.to?.[0] }
+  const results = paramSets.map((set) => runBacktest(candles, set, options))
+
+  if (flags.json) {
+    console.log(JSON.stringify(results.map(({ signals: _signals, ...rest }) => rest), null, 2))
+  } else {
+    console.log(formatComparison(results))
+  }
+}
+
+if (import.meta.main) {
+  await main()
+}
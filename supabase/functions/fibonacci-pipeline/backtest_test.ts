@@ -0,0 +1,45 @@
+import assert from "node:assert/strict"
+import rows from "../_shared/testdata/btc_candles.json" with { type: "json" }
+import { DEFAULT_PARAMS } from "../_shared/fibonacci/mod.ts"
+import type { StrategyParams } from "../_shared/fibonacci/mod.ts"
+import { groupCandles, resolveParams, runBacktest } from "./backtest.ts"
+
+const candles = groupCandles(rows.map((r) => ({ ...r, asset: "BTC" })))
+
+Deno.test("resolveParams merges overrides over the defaults", () => {
+  const params = resolveParams({ minRR: 2, tierScalp: { ...DEFAULT_PARAMS.tierScalp, expiryHours: 6 } })
+  assert.equal(params.minRR, 2)
+  assert.equal(params.tierScalp.expiryHours, 6)
+  assert.deepEqual(params.tierSwing, DEFAULT_PARAMS.tierSwing)
+})
+
+Deno.test("resolveParams rejects unknown keys", () => {
+  assert.throws(() => resolveParams({ minRr: 2 } as Partial<StrategyParams>), /Unknown parameter: minRr/)
+  assert.throws(
+    () => resolveParams({ tierSwing: { expiry: 6 }, swingParams: { "2h": { lookback: 5, minReversal: 3 } } } as unknown as Partial<StrategyParams>),
+    /Unknown parameters: swingParams\.2h, tierSwing\.expiry/,
+  )
+})
+
+Deno.test("runBacktest replays the fixture into resolved signals", () => {
+  const result = runBacktest(candles)
+  assert.equal(result.name, "default")
+  assert.equal(result.generated, 23)
+  assert.equal(result.filled, 23)
+  assert.equal(result.signals.length, result.generated)
+  // The last signal is still open at the end of the fixture
+  assert.equal(result.summary.total, 22)
+  assert.equal(result.summary.wins + result.summary.partials + result.summary.losses, result.summary.total)
+  assert.deepEqual(Object.keys(result.byTimeframe).sort(), ["1h", "4h"])
+  for (const s of result.signals.filter((x) => x.outcome)) {
+    assert.ok(s.triggered_at && s.closed_at && s.closed_at >= s.triggered_at)
+  }
+})
+
+Deno.test("runBacktest applies the parameter set", () => {
+  const result = runBacktest(candles, { name: "strict", params: { minScore: 101, emaPullback: false } })
+  assert.equal(result.name, "strict")
+  assert.equal(result.params.minScore, 101)
+  assert.equal(result.generated, 0)
+  assert.throws(() => runBacktest(candles, { name: "typo", params: { minScroe: 70 } as Partial<StrategyParams> }), /minScroe/)
+})
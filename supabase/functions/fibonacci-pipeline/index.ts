@@ -1,4 +1,37 @@
 import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { BINANCE_MAP, getAsset, PIPELINE_ASSETS as ASSETS } from "../_shared/assets.ts"
+import { binanceProvider, coinbaseProvider, createCandleFeed, findGaps, krakenProvider, providerHealthKey, TIMEFRAME_MS } from "../_shared/candle_providers.ts"
+import type { CandleFeed, CandleFetch, ProviderHealth, ProviderName, Timeframe } from "../_shared/candle_providers.ts"
+import { aggregateAfter } from "../_shared/candles.ts"
+import type { Candle } from "../_shared/candles.ts"
+import {
+  clusterLevels,
+  computeAllFibs,
+  computeVolatilityRegime,
+  computeVolumeProfile,
+  DEFAULT_PARAMS,
+  detectAllSwings,
+  evaluateEMAPullback,
+  evaluateFibSignals,
+  MAX_SIGNALS_TOTAL,
+  recordInBook,
+  resolveSignal,
+  TIER_SCALP,
+  TIER_SWING,
+  TIMEFRAME_CONFIGS,
+} from "../_shared/fibonacci/mod.ts"
+import type {
+  AdaptiveParams,
+  BookSignal,
+  ConfluenceZone,
+  FibLevel,
+  ResolutionEvent,
+  SignalBook,
+  SwingPoint,
+  TierConfig,
+  VolatilityRegime,
+  VolumeNode,
+} from "../_shared/fibonacci/mod.ts"
 
 /**
  * fibonacci-pipeline Edge Function
@@ -7,7 +40,11 @@ import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-
  *
  * Runs every 30 minutes to catch bounces quickly.
  * Uses 1H candles for early bounce detection, 4H for trend/structure:
- *   1. Fetches 1h + 4h + 1D OHLC candles from Coinbase for each asset
+ *   1. Fetches 1h + 4h + 1D OHLC candles for each asset — Coinbase, failing
+ *      over to Kraken, with missing bars filled from it
+ *      (_shared/candle_providers.ts) — and repairs gaps in the stored series.
+ *      Binance stays out of that chain: it is the independent source the
+ *      SL/T1 checks confirm against
  *   2. Detects swing highs/lows
  *   3. Computes 0.618/0.786 Fibonacci retracement levels
  *   4. Finds confluence zones across timeframes
@@ -15,203 +52,17 @@ import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-
  *   6. Evaluates bounce confirmation
  *   7. Generates signals with targets/stops
  *   8. Resolves open signals (T1, runner trail, SL, expiry)
+ *
+ * The strategy itself lives in _shared/fibonacci (pure, shared with backtest.ts);
+ * this file owns fetching, persistence and notifications.
  */
 
 // ─── Multi-Asset Configuration ──────────────────────────────────────────────
-
-interface AssetConfig {
-  cbPair: string   // Coinbase product ID e.g. "BTC-USD"
-  ticker: string   // Display ticker e.g. "BTC"
-  tiers?: string[] // Which tiers to run: ["4h", "1h"] or subset. Default: both.
-}
-
-const ASSETS: AssetConfig[] = [
-  // Expanded pool — 10 assets for 1-2 signals/day target (2026-05-01)
-  // Core 5 (backtest-validated)
-  { cbPair: "BTC-USD",    ticker: "BTC" },
-  { cbPair: "ETH-USD",    ticker: "ETH" },
-  { cbPair: "SOL-USD",    ticker: "SOL" },
-  { cbPair: "SUI-USD",    ticker: "SUI" },
-  { cbPair: "ADA-USD",    ticker: "ADA" },
-  // Re-enabled — insufficient sample size, let adaptive feedback handle pausing
-  { cbPair: "LINK-USD",   ticker: "LINK" },
-  { cbPair: "AVAX-USD",   ticker: "AVAX" },
-  { cbPair: "APT-USD",    ticker: "APT" },
-  { cbPair: "ATOM-USD",   ticker: "ATOM" },
-  { cbPair: "BNB-USD",    ticker: "BNB" },
-
-  // Bench — poor live stats or too thin volume
-  // { cbPair: "XRP-USD",    ticker: "XRP" },    // 2/5 (40%), PF -0.08
-  // { cbPair: "ONDO-USD",   ticker: "ONDO" },   // 1/1 (100%), PF 0.00
-  // { cbPair: "ALGO-USD",   ticker: "ALGO" },   // 2/2 (100%), PF 0.00
-  // { cbPair: "TIA-USD",    ticker: "TIA" },
-  // { cbPair: "FIL-USD",    ticker: "FIL" },    // 1/1 (100%), PF 99.0
-  // { cbPair: "AAVE-USD",   ticker: "AAVE" },   // 0/2 (0%), PF 0.00
-  // { cbPair: "INJ-USD",    ticker: "INJ" },    // 1/1 (100%), PF 0.00
-  // { cbPair: "POL-USD",    ticker: "POL" },    // 0/1 (0%), PF 0.00
-  // { cbPair: "ZEC-USD",    ticker: "ZEC" },    // 0/1 (0%), PF 0.00
-  // { cbPair: "VET-USD",    ticker: "VET" },
-]
-
-// Binance symbol mapping for dual-source verification during signal resolution
-const BINANCE_MAP: Record<string, string> = {
-  BTC: "BTCUSDT", ETH: "ETHUSDT", SOL: "SOLUSDT", SUI: "SUIUSDT",
-  LINK: "LINKUSDT", ADA: "ADAUSDT", AVAX: "AVAXUSDT", RENDER: "RENDERUSDT",
-  APT: "APTUSDT", HYPE: "HYPEUSDT", ONDO: "ONDOUSDT", POL: "POLUSDT",
-  BNB: "BNBUSDT", ATOM: "ATOMUSDT", TIA: "TIAUSDT", XRP: "XRPUSDT",
-  INJ: "INJUSDT", DOGE: "DOGEUSDT", AAVE: "AAVEUSDT", PEPE: "PEPEUSDT",
-  ENA: "ENAUSDT", FET: "FETUSDT", ARB: "ARBUSDT", DOT: "DOTUSDT",
-  UNI: "UNIUSDT", NEAR: "NEARUSDT", ALGO: "ALGOUSDT", FIL: "FILUSDT",
-  ZEC: "ZECUSDT", VET: "VETUSDT",
-}
-
-// Coinbase granularities: ONE_HOUR, TWO_HOUR, FOUR_HOUR, SIX_HOUR, ONE_DAY
-const TIMEFRAME_CONFIGS = [
-  { timeframe: "1h", granularity: "ONE_HOUR", limit: 100 },    // ~4 days, for faster bounce detection
-  { timeframe: "4h", granularity: "FOUR_HOUR", limit: 250 },  // ~42 days, enough for EMA 50 + swing detection
-  { timeframe: "1d", granularity: "ONE_DAY", limit: 200 },     // ~200 days (need 147+ for 21W EMA)
-] as const
-
-const SWING_PARAMS: Record<string, { lookback: number; minReversal: number }> = {
-  "1h": { lookback: 10, minReversal: 2.5 },
-  "4h": { lookback: 8, minReversal: 5.0 },
-  "1d": { lookback: 5, minReversal: 8.0 },
-}
-
-// Only the golden pocket
-const FIB_RATIOS = [0.618, 0.786]
-
-const CONFLUENCE_TOLERANCE_PCT = 1.5
-const SIGNAL_PROXIMITY_PCT = 3.0   // price must be within 3% of zone to evaluate
-const MIN_RR_RATIO = 0.8
-const STRONG_MIN_RR_RATIO = 2.0
-
-// ─── Partial TP / Tightened SL ─────────────────────────────────────────────
-// Take profit at 30% of T1 distance, stop loss at 80% of original SL distance
-const TP_FRACTION = 0.3    // 0.3R take profit
-const SL_FRACTION = 0.8    // 0.8R stop loss
-
-// ─── EMA Slope Regime Filter (soft — badges, not blocks) ──────────────────
-const REGIME_SLOPE_LOOKBACK = 12  // 12 x 4H = 2 days
-const REGIME_SLOPE_MIN_PCT = 0.5  // slope below this → "Low Conviction" badge
-const STRONG_MIN_CONFLUENCE = 2
-const SIGNAL_EXPIRY_HOURS = 72       // 3 days
-
-// ─── Volatility Regime (BTC ATR-based) ────────────────────────────────────
-const VOL_REGIME_ELEVATED_THRESHOLD = 1.3  // current ATR / avg ATR > 1.3x
-const VOL_REGIME_EXTREME_THRESHOLD  = 1.8  // current ATR / avg ATR > 1.8x
-
-// ─── Concurrent Signal Cap ────────────────────────────────────────────────
-const MAX_SIGNALS_PER_ASSET = 3
-const MAX_SIGNALS_TOTAL = 12
-
-// ─── Tier Configuration ─────────────────────────────────────────────────────
-
-interface TierConfig {
-  tierName: string               // "4h" (swing) or "1h" (scalp)
-  swingTimeframes: string[]      // which TFs to detect swings on
-  trendTimeframe: string         // which TF for EMA trend check
-  bounceTimeframes: string[]     // ordered preference for bounce check
-  signalProximityPct: number
-  confluenceTolerancePct: number
-  expiryHours: number
-}
-
-const TIER_SWING: TierConfig = {
-  tierName: "4h",
-  swingTimeframes: ["4h", "1d"],
-  trendTimeframe: "4h",
-  bounceTimeframes: ["1h", "4h"],
-  signalProximityPct: 3.5,
-  confluenceTolerancePct: 1.5,
-  expiryHours: 72,
-}
-
-const TIER_SCALP: TierConfig = {
-  tierName: "1h",
-  swingTimeframes: ["1h", "4h"],
-  trendTimeframe: "4h",
-  bounceTimeframes: ["1h"],
-  signalProximityPct: 2.5,
-  confluenceTolerancePct: 1.0,
-  expiryHours: 48,
-}
-const WICK_REJECTION_RATIO = 1.0
-const VOLUME_SPIKE_RATIO = 1.15
-
-// EMA periods for trend filter
-const EMA_FAST_PERIOD = 20
-const EMA_SLOW_PERIOD = 50
-const EMA_SLOPE_LOOKBACK = 6  // 6 x 4h = 24h for slope check
-const EMA_PULLBACK_TOLERANCE = 0.015
-const EMA_PULLBACK_PERIOD = 21  // Standard Fibonacci EMA for trend pullbacks
+// The asset pool and Binance mapping come from the asset registry (_shared/assets.ts).
 
 // Delay between assets to stay safe on Binance rate limits
 const INTER_ASSET_DELAY_MS = 100
 
-// ─── Types ───────────────────────────────────────────────────────────────────
-
-interface Candle {
-  open_time: string
-  open: number
-  high: number
-  low: number
-  close: number
-  volume: number
-}
-
-interface SwingPoint {
-  type: "high" | "low"
-  price: number
-  candle_time: string
-  reversal_pct: number
-}
-
-interface FibLevel {
-  timeframe: string
-  ratio: number
-  price: number
-  direction: "from_high" | "from_low"
-}
-
-interface ConfluenceZone {
-  low: number
-  high: number
-  mid: number
-  strength: number
-  zone_type: "support" | "resistance"
-  tf_count: number
-  levels: FibLevel[]
-}
-
-interface ChartPattern {
-  name: string           // e.g., "Bullish Double Bottom", "Bearish Head and Shoulders"
-  type: "reversal" | "continuation"
-  bias: "bullish" | "bearish"
-  timeframe: "4h" | "1d"
-  confidence: number     // 0-100
-  description: string    // 1-2 sentence description
-  neckline?: number      // Key breakout level if applicable
-  target?: number        // Measured move target
-}
-
-interface FairValueGap {
-  type: "bullish" | "bearish"
-  timeframe: string
-  high: number           // Top of the gap
-  low: number            // Bottom of the gap
-  sizePct: number        // Gap size as % of price
-  candle_time: string    // When the gap was created (middle candle)
-}
-
-interface FVGConfluenceResult {
-  has_fvg_confluence: boolean
-  best_timeframe: string | null
-  fvg_type: "bullish" | "bearish" | null
-  score_bonus: number    // 0, 4, 6, or 8
-  gap_size_pct: number
-}
-
 // ─── Main Handler ────────────────────────────────────────────────────────────
 
 Deno.serve(async (req) => {
@@ -246,6 +97,12 @@ Deno.serve(async (req) => {
 
   const allResults: Record<string, unknown> = {}
 
+  // Provider health carries over between runs so a failing exchange is
+  // skipped straight away instead of being retried first for every asset
+  const feed = createCandleFeed([coinbaseProvider, krakenProvider, binanceProvider], {
+    health: await loadProviderHealth(supabase),
+  })
+
   // Fetch macro context once for all assets
   let fearGreedIndex: number | undefined
   let btcRiskScore: number | undefined
@@ -271,24 +128,22 @@ Deno.serve(async (req) => {
     console.error(`BTC risk score fetch failed: ${err}`)
   }
 
-  // Fetch adaptive parameters from signal analytics (computed daily)
-  let adaptiveParams: {
-    paused_assets: string[]
-    direction_bonus: Record<string, { long: number; short: number }>
-    min_rr: number
-    min_score: number
-    state: string
-    state_label: string
-  } | null = null
+  // Fetch the adaptive parameter version in effect: pinned if an admin pinned
+  // one, else the newest (compute-signal-analytics appends one daily)
+  let adaptiveParams: AdaptiveParams | null = null
+  let adaptiveVersion: number | null = null
   try {
-    const { data: analyticsRow } = await supabase
-      .from("market_data_cache")
-      .select("data")
-      .eq("key", "signal_analytics")
-      .single()
-    adaptiveParams = analyticsRow?.data?.adaptive ?? null
+    const { data: versionRow } = await supabase
+      .from("adaptive_param_versions")
+      .select("version, params, is_pinned")
+      .order("is_pinned", { ascending: false })
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    adaptiveParams = versionRow?.params ?? null
+    adaptiveVersion = versionRow?.version ?? null
     if (adaptiveParams) {
-      console.log(`Adaptive params loaded: state=${adaptiveParams.state}, min_rr=${adaptiveParams.min_rr}, min_score=${adaptiveParams.min_score}, paused=[${adaptiveParams.paused_assets.join(",")}]`)
+      console.log(`Adaptive params v${adaptiveVersion}${versionRow?.is_pinned ? " (pinned)" : ""} loaded: state=${adaptiveParams.state}, min_rr=${adaptiveParams.min_rr}, min_score=${adaptiveParams.min_score}, paused=[${adaptiveParams.paused_assets.join(",")}]`)
     }
   } catch {
     console.log("No adaptive params available — using defaults")
@@ -297,16 +152,8 @@ Deno.serve(async (req) => {
   // ─── Pre-loop: BTC volatility regime (computed once, shared across all assets) ───
   let btcVolRegime: VolatilityRegime = { regime: "normal", suggestedRiskPct: 2.0, atrRatio: 1.0 }
   try {
-    const btcUrl = "https://api.coinbase.com/api/v3/brokerage/market/products/BTC-USD/candles?granularity=FOUR_HOUR&limit=100"
-    const btcResp = await fetch(btcUrl, { headers: { Accept: "application/json" } })
-    if (btcResp.ok) {
-      const btcData = await btcResp.json()
-      const btcCandles4h: Candle[] = (btcData.candles ?? [])
-        .map((c: Record<string, string>) => ({
-          start: Number(c.start), open: Number(c.open), high: Number(c.high),
-          low: Number(c.low), close: Number(c.close), volume: Number(c.volume),
-        }))
-        .sort((a: Candle, b: Candle) => a.start - b.start)
+    const { candles: btcCandles4h } = await feed.fetchAsset(getAsset("BTC")!, { timeframe: "4h", limit: 100 })
+    if (btcCandles4h.length > 0) {
       btcVolRegime = computeVolatilityRegime(btcCandles4h)
       console.log(`BTC Volatility Regime: ${btcVolRegime.regime} (ATR ratio=${btcVolRegime.atrRatio.toFixed(2)}, suggested risk=${btcVolRegime.suggestedRiskPct}%)`)
     }
@@ -335,14 +182,17 @@ Deno.serve(async (req) => {
         const assetResults: Record<string, unknown> = {}
 
         // Fetch latest candles
-        const candles = await fetchCandles(asset.cbPair)
+        const { candles, feedReport } = await fetchCandles(feed, asset.ticker)
         assetResults.candles = { "1h": candles["1h"]?.length ?? 0, "4h": candles["4h"].length, "1d": candles["1d"].length }
+        if (Object.keys(feedReport).length > 0) assetResults.candleFeed = feedReport
 
-        // Store candles in DB
+        // Store candles in DB, then fill any holes older runs left behind
         await storeCandles(supabase, asset.ticker, candles)
+        const storedRepairs = await repairStoredGaps(supabase, feed, asset.ticker)
+        if (Object.keys(storedRepairs).length > 0) assetResults.storedGapsRepaired = storedRepairs
 
         // Fetch Binance 4H candles for dual-source T1/SL verification
-        const binance4h = await fetchBinance4hCandles(asset.ticker)
+        const binance4h = await fetchBinance4hCandles(feed, asset.ticker)
 
         // Resolve open signals against latest candle (dual-source)
         const resolveResult = await resolveOpenSignals(supabase, asset.ticker, candles, binance4h)
@@ -355,6 +205,9 @@ Deno.serve(async (req) => {
 
         const currentPrice = candles["4h"][candles["4h"].length - 1].close
 
+        // Open/recent signals for this asset, kept current as new signals are inserted
+        const book = await loadSignalBook(supabase, asset.ticker, openSignalCounter)
+
         // Compute volume profile from 4h candles (shared across tiers)
         const volumeNodes = computeVolumeProfile(candles["4h"])
         const enabledTiers = asset.tiers ?? ["4h", "1h"]  // Both swing + scalp tiers
@@ -375,7 +228,7 @@ Deno.serve(async (req) => {
           await storeZones(supabase, asset.ticker, zonesSwing, currentPrice)
           assetResults.zones = zonesSwing.length
 
-          const swingSignals = await evaluateSignals(supabase, asset.ticker, candles, zonesSwing, fibsSwing, currentPrice, volumeNodes, fearGreedIndex, btcRiskScore, swingsSwing, TIER_SWING, adaptiveParams, btcVolRegime, openSignalCounter)
+          const swingSignals = await evaluateSignals(supabase, asset.ticker, candles, zonesSwing, fibsSwing, currentPrice, volumeNodes, fearGreedIndex, btcRiskScore, swingsSwing, TIER_SWING, adaptiveParams, adaptiveVersion, btcVolRegime, book, openSignalCounter)
           assetResults.newSignals = swingSignals
         }
 
@@ -385,7 +238,7 @@ Deno.serve(async (req) => {
           const fibsScalp = computeAllFibs(swingsScalp)
           const zonesScalp = clusterLevels(fibsScalp, currentPrice, TIER_SCALP.confluenceTolerancePct)
 
-          const scalpSignals = await evaluateSignals(supabase, asset.ticker, candles, zonesScalp, fibsScalp, currentPrice, volumeNodes, fearGreedIndex, btcRiskScore, swingsScalp, TIER_SCALP, adaptiveParams, btcVolRegime, openSignalCounter)
+          const scalpSignals = await evaluateSignals(supabase, asset.ticker, candles, zonesScalp, fibsScalp, currentPrice, volumeNodes, fearGreedIndex, btcRiskScore, swingsScalp, TIER_SCALP, adaptiveParams, adaptiveVersion, btcVolRegime, book, openSignalCounter)
           assetResults.scalpSignals = scalpSignals
         }
 
@@ -393,7 +246,7 @@ Deno.serve(async (req) => {
         const emaPullbackSignals = await evaluateEMAPullbackSignals(
           supabase, asset.ticker, candles, currentPrice,
           volumeNodes, fearGreedIndex, btcRiskScore,
-          swingsSwing, adaptiveParams, btcVolRegime, openSignalCounter,
+          swingsSwing, adaptiveVersion, btcVolRegime, book, openSignalCounter,
         )
         assetResults.emaPullbackSignals = emaPullbackSignals
 
@@ -407,6 +260,8 @@ Deno.serve(async (req) => {
       }
     }
 
+    await saveProviderHealth(supabase, feed)
+
     // ── Compute & store market conditions summary ──
     const conditionsSummary = computeMarketConditions(allResults)
     await supabase.from("market_data_cache").upsert({
@@ -510,58 +365,67 @@ function computeMarketConditions(allResults: Record<string, any>): {
   }
 }
 
-// ─── Fetch Candles from Binance ──────────────────────────────────────────────
+// ─── Fetch Candles ───────────────────────────────────────────────────────────
+
+const HEALTH_CACHE_KEY = providerHealthKey("fibonacci-pipeline")
+
+async function loadProviderHealth(supabase: SupabaseClient): Promise<Record<string, ProviderHealth> | undefined> {
+  const { data } = await supabase.from("market_data_cache").select("data").eq("key", HEALTH_CACHE_KEY).maybeSingle()
+  return data?.data?.providers
+}
+
+async function saveProviderHealth(supabase: SupabaseClient, feed: CandleFeed) {
+  await supabase.from("market_data_cache").upsert({
+    key: HEALTH_CACHE_KEY,
+    data: { providers: feed.health() },
+    updated_at: new Date().toISOString(),
+  }, { onConflict: "key" })
+}
+
+// Binance is the independent second source resolveOpenSignals checks SL/T1
+// against, so it never serves or fills the primary series (as in signal-monitor)
+const PRIMARY_CHAIN: ProviderName[] = ["coinbase", "kraken"]
 
-async function fetchCandles(cbPair: string): Promise<Record<string, Candle[]>> {
-  const result: Record<string, Candle[]> = {}
+/**
+ * Latest candles per timeframe from the first working provider, gap-repaired.
+ * feedReport lists the timeframes that failed over, were repaired or still
+ * have holes, so the run summary shows when the series isn't clean Coinbase.
+ */
+async function fetchCandles(feed: CandleFeed, ticker: string): Promise<{
+  candles: Record<string, Candle[]>
+  feedReport: Record<string, Partial<CandleFetch>>
+}> {
+  const candles: Record<string, Candle[]> = {}
+  const feedReport: Record<string, Partial<CandleFetch>> = {}
+  const asset = getAsset(ticker)!
 
   for (const config of TIMEFRAME_CONFIGS) {
-    const url = `https://api.coinbase.com/api/v3/brokerage/market/products/${cbPair}/candles?granularity=${config.granularity}&limit=${config.limit}`
-    const res = await fetch(url, { headers: { Accept: "application/json" } })
+    const result = await feed.fetchAsset(asset, { timeframe: config.timeframe, limit: config.limit }, PRIMARY_CHAIN)
+    candles[config.timeframe] = result.candles
 
-    if (!res.ok) {
-      console.error(`Coinbase candles failed for ${cbPair} ${config.timeframe}: ${res.status}`)
-      result[config.timeframe] = []
-      continue
+    if (!result.provider) {
+      console.error(`[${ticker}] ${config.timeframe} candles failed on every provider: ${result.errors.join("; ")}`)
+    }
+    if (result.failedOver.length > 0 || result.repaired > 0 || result.gaps.length > 0) {
+      const { provider, failedOver, repaired, gaps } = result
+      feedReport[config.timeframe] = { provider, failedOver, repaired, gaps }
+      if (gaps.length > 0) {
+        console.warn(`[${ticker}] ${config.timeframe}: ${gaps.reduce((a, g) => a + g.missing, 0)} bars still missing after repair`)
+      }
     }
-
-    const data: { candles: { start: string; low: string; high: string; open: string; close: string; volume: string }[] } = await res.json()
-    // Coinbase returns newest-first, reverse to oldest-first for indicator calculations
-    result[config.timeframe] = data.candles.reverse().map((k) => ({
-      open_time: new Date(Number(k.start) * 1000).toISOString(),
-      open: parseFloat(k.open),
-      high: parseFloat(k.high),
-      low: parseFloat(k.low),
-      close: parseFloat(k.close),
-      volume: parseFloat(k.volume),
-    }))
 
     await sleep(100)
   }
 
-  return result
+  return { candles, feedReport }
 }
 
 // Fetch Binance 4H candles for dual-source signal verification
-async function fetchBinance4hCandles(ticker: string): Promise<Candle[]> {
+async function fetchBinance4hCandles(feed: CandleFeed, ticker: string): Promise<Candle[]> {
   const binanceSym = BINANCE_MAP[ticker]
   if (!binanceSym) return []
   try {
-    const twentyFourHoursAgo = Date.now() - 24 * 3600000
-    const resp = await fetch(
-      `https://data-api.binance.vision/api/v3/klines?symbol=${binanceSym}&interval=4h&startTime=${twentyFourHoursAgo}&limit=6`
-    )
-    if (!resp.ok) return []
-    const klines = await resp.json()
-    // Binance returns oldest-first as arrays: [openTime, open, high, low, close, volume, ...]
-    return klines.map((k: any) => ({
-      open_time: new Date(Number(k[0])).toISOString(),
-      open: parseFloat(k[1]),
-      high: parseFloat(k[2]),
-      low: parseFloat(k[3]),
-      close: parseFloat(k[4]),
-      volume: parseFloat(k[5]),
-    }))
+    return await feed.fetchFrom("binance", binanceSym, { timeframe: "4h", limit: 6 })
   } catch (err) {
     console.error(`Failed to fetch Binance 4H ${binanceSym}: ${err}`)
     return []
@@ -592,11 +456,80 @@ async function storeCandles(supabase: SupabaseClient, ticker: string, candles: R
   }
 }
 
+const RETENTION_DAYS: Record<Timeframe, number> = { "1h": 7, "4h": 60, "1d": 180 }
+
+// Stored gaps repaired per timeframe per run; older holes wait for the next run
+const MAX_STORED_GAP_REPAIRS = 5
+// A gap no provider could fill is skipped for this long, so it doesn't hold
+// the repair slots every run while older gaps never get a turn
+const GAP_RETRY_MS = 24 * 3600000
+
+/**
+ * Finds missing bars in the stored series (within retention) and fetches them
+ * from the feed. The fresh fetch only covers the latest window, so a bar lost
+ * to an outage stays missing in ohlc_candles — and in everything that reads it
+ * back — until it is refetched here. Gaps that came back empty are recorded
+ * per asset in market_data_cache with a retry time and skipped until then.
+ * Returns bars filled per timeframe.
+ */
+async function repairStoredGaps(supabase: SupabaseClient, feed: CandleFeed, ticker: string): Promise<Record<string, number>> {
+  const repaired: Record<string, number> = {}
+  const asset = getAsset(ticker)!
+  const retryKey = `candle_gap_retry:${ticker}`
+  const now = Date.now()
+
+  // "<timeframe>|<first missing open_time>" → retry-after ISO
+  const { data: retryRow } = await supabase.from("market_data_cache").select("data").eq("key", retryKey).maybeSingle()
+  const retryAfter: Record<string, string> = Object.fromEntries(
+    Object.entries((retryRow?.data ?? {}) as Record<string, string>).filter(([, at]) => Date.parse(at) > now),
+  )
+  const before = JSON.stringify(retryRow?.data ?? {})
+
+  for (const [tf, days] of Object.entries(RETENTION_DAYS) as [Timeframe, number][]) {
+    const cutoff = now - days * 86400000
+    const { data: stored } = await supabase
+      .from("ohlc_candles")
+      .select("open_time")
+      .eq("asset", ticker)
+      .eq("timeframe", tf)
+      .gte("open_time", new Date(cutoff).toISOString())
+      .order("open_time", { ascending: true })
+    if (!stored || stored.length < 2) continue
+
+    const gaps = findGaps(stored as Candle[], tf)
+      .filter((g) => !retryAfter[`${tf}|${g.from}`])
+      .slice(-MAX_STORED_GAP_REPAIRS)
+    for (const gap of gaps) {
+      const { candles } = await feed.fetchAsset(asset, {
+        timeframe: tf,
+        limit: gap.missing,
+        end: new Date(new Date(gap.to).getTime() + TIMEFRAME_MS[tf]),
+      }, PRIMARY_CHAIN)
+      const fill = candles.filter((c) => c.open_time >= gap.from && c.open_time <= gap.to)
+      if (fill.length === 0) {
+        console.warn(`[${ticker}] ${tf} gap ${gap.from} → ${gap.to} (${gap.missing} bars): no provider has it, retrying in ${GAP_RETRY_MS / 3600000}h`)
+        retryAfter[`${tf}|${gap.from}`] = new Date(now + GAP_RETRY_MS).toISOString()
+        continue
+      }
+      await storeCandles(supabase, ticker, { [tf]: fill })
+      repaired[tf] = (repaired[tf] ?? 0) + fill.length
+    }
+  }
+
+  if (JSON.stringify(retryAfter) !== before) {
+    await supabase.from("market_data_cache").upsert({
+      key: retryKey,
+      data: retryAfter,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: "key" })
+  }
+  return repaired
+}
+
 async function pruneOldCandles(supabase: SupabaseClient, ticker: string) {
   const now = new Date()
-  const retentionDays: Record<string, number> = { "1h": 7, "4h": 60, "1d": 180 }
 
-  for (const [tf, days] of Object.entries(retentionDays)) {
+  for (const [tf, days] of Object.entries(RETENTION_DAYS)) {
     const cutoff = new Date(now.getTime() - days * 86400000).toISOString()
     await supabase
       .from("ohlc_candles")
@@ -607,72 +540,7 @@ async function pruneOldCandles(supabase: SupabaseClient, ticker: string) {
   }
 }
 
-// ─── Swing Detection ─────────────────────────────────────────────────────────
-
-function detectAllSwings(candles: Record<string, Candle[]>, timeframes?: string[]): Record<string, SwingPoint[]> {
-  const result: Record<string, SwingPoint[]> = {}
-  const tfs = timeframes ?? Object.keys(candles)
-
-  for (const tf of tfs) {
-    const tfCandles = candles[tf]
-    const params = SWING_PARAMS[tf]
-    if (!params || !tfCandles || tfCandles.length < params.lookback * 2 + 1) {
-      result[tf] = []
-      continue
-    }
-    result[tf] = detectSwings(tfCandles, params.lookback, params.minReversal)
-  }
-
-  return result
-}
-
-function detectSwings(candles: Candle[], lookback: number, minReversal: number): SwingPoint[] {
-  const swings: SwingPoint[] = []
-
-  for (let i = lookback; i < candles.length - lookback; i++) {
-    const c = candles[i]
-
-    // Swing high
-    let isHigh = true
-    for (let j = i - lookback; j <= i + lookback; j++) {
-      if (j !== i && candles[j].high >= c.high) { isHigh = false; break }
-    }
-    if (isHigh) {
-      const surroundingLows = []
-      for (let j = Math.max(0, i - lookback); j <= Math.min(candles.length - 1, i + lookback); j++) {
-        if (j !== i) surroundingLows.push(candles[j].low)
-      }
-      if (surroundingLows.length > 0) {
-        const minLow = Math.min(...surroundingLows)
-        const reversalPct = ((c.high - minLow) / minLow) * 100
-        if (reversalPct >= minReversal) {
-          swings.push({ type: "high", price: c.high, candle_time: c.open_time, reversal_pct: reversalPct })
-        }
-      }
-    }
-
-    // Swing low
-    let isLow = true
-    for (let j = i - lookback; j <= i + lookback; j++) {
-      if (j !== i && candles[j].low <= c.low) { isLow = false; break }
-    }
-    if (isLow) {
-      const surroundingHighs = []
-      for (let j = Math.max(0, i - lookback); j <= Math.min(candles.length - 1, i + lookback); j++) {
-        if (j !== i) surroundingHighs.push(candles[j].high)
-      }
-      if (surroundingHighs.length > 0) {
-        const maxHigh = Math.max(...surroundingHighs)
-        const reversalPct = ((maxHigh - c.low) / c.low) * 100
-        if (reversalPct >= minReversal) {
-          swings.push({ type: "low", price: c.low, candle_time: c.open_time, reversal_pct: reversalPct })
-        }
-      }
-    }
-  }
-
-  return swings
-}
+// ─── Persistence ─────────────────────────────────────────────────────────────
 
 async function storeSwings(supabase: SupabaseClient, ticker: string, swings: Record<string, SwingPoint[]>) {
   for (const [tf, tfSwings] of Object.entries(swings)) {
@@ -703,50 +571,6 @@ async function storeSwings(supabase: SupabaseClient, ticker: string, swings: Rec
   }
 }
 
-// ─── Fibonacci Levels ────────────────────────────────────────────────────────
-
-function computeAllFibs(swings: Record<string, SwingPoint[]>): FibLevel[] {
-  const allLevels: FibLevel[] = []
-
-  for (const [tf, tfSwings] of Object.entries(swings)) {
-    const highs = tfSwings
-      .filter((s) => s.type === "high")
-      .sort((a, b) => new Date(b.candle_time).getTime() - new Date(a.candle_time).getTime())
-      .slice(0, 3)
-
-    const lows = tfSwings
-      .filter((s) => s.type === "low")
-      .sort((a, b) => new Date(b.candle_time).getTime() - new Date(a.candle_time).getTime())
-      .slice(0, 3)
-
-    for (const sh of highs) {
-      for (const sl of lows) {
-        if (sh.price <= sl.price) continue
-        const diff = sh.price - sl.price
-
-        for (const ratio of FIB_RATIOS) {
-          // Retracement from high (support for longs)
-          allLevels.push({
-            timeframe: tf,
-            ratio,
-            price: sh.price - diff * ratio,
-            direction: "from_high",
-          })
-          // Retracement from low (resistance for shorts)
-          allLevels.push({
-            timeframe: tf,
-            ratio,
-            price: sl.price + diff * ratio,
-            direction: "from_low",
-          })
-        }
-      }
-    }
-  }
-
-  return allLevels
-}
-
 async function storeFibs(supabase: SupabaseClient, ticker: string, _fibs: FibLevel[]) {
   // Mark old fibs as not current
   await supabase.from("fib_levels").update({ is_current: false })
@@ -757,70 +581,6 @@ async function storeFibs(supabase: SupabaseClient, ticker: string, _fibs: FibLev
   // Fibs are stored for debugging/visualization
 }
 
-// ─── Confluence Clustering ───────────────────────────────────────────────────
-
-function clusterLevels(fibs: FibLevel[], currentPrice: number, tolerancePct?: number): ConfluenceZone[] {
-  const tolerance = tolerancePct ?? CONFLUENCE_TOLERANCE_PCT
-  if (fibs.length === 0) return []
-
-  // Filter to levels within 15% of current price
-  const nearby = fibs
-    .filter((l) => Math.abs((l.price - currentPrice) / currentPrice) * 100 <= 15)
-    .sort((a, b) => a.price - b.price)
-
-  if (nearby.length === 0) return []
-
-  const clusters: ConfluenceZone[] = []
-  let currentCluster: FibLevel[] = [nearby[0]]
-  let clusterLow = nearby[0].price
-  let clusterHigh = nearby[0].price
-
-  for (let i = 1; i < nearby.length; i++) {
-    const level = nearby[i]
-    const clusterMid = (clusterLow + clusterHigh) / 2
-    const distancePct = Math.abs((level.price - clusterMid) / clusterMid) * 100
-
-    if (distancePct <= tolerance) {
-      currentCluster.push(level)
-      clusterHigh = Math.max(clusterHigh, level.price)
-      clusterLow = Math.min(clusterLow, level.price)
-    } else {
-      if (currentCluster.length >= 2) {
-        const mid = (clusterLow + clusterHigh) / 2
-        const tfs = new Set(currentCluster.map((l) => l.timeframe))
-        clusters.push({
-          low: clusterLow,
-          high: clusterHigh,
-          mid,
-          strength: currentCluster.length,
-          zone_type: mid < currentPrice ? "support" : "resistance",
-          tf_count: tfs.size,
-          levels: [...currentCluster],
-        })
-      }
-      currentCluster = [level]
-      clusterLow = level.price
-      clusterHigh = level.price
-    }
-  }
-
-  if (currentCluster.length >= 2) {
-    const mid = (clusterLow + clusterHigh) / 2
-    const tfs = new Set(currentCluster.map((l) => l.timeframe))
-    clusters.push({
-      low: clusterLow,
-      high: clusterHigh,
-      mid,
-      strength: currentCluster.length,
-      zone_type: mid < currentPrice ? "support" : "resistance",
-      tf_count: tfs.size,
-      levels: [...currentCluster],
-    })
-  }
-
-  return clusters
-}
-
 async function storeZones(supabase: SupabaseClient, ticker: string, zones: ConfluenceZone[], currentPrice: number) {
   // Deactivate old zones
   await supabase.from("fib_confluence_zones")
@@ -848,467 +608,150 @@ async function storeZones(supabase: SupabaseClient, ticker: string, zones: Confl
   }
 }
 
-// ─── EMA Trend Filter ────────────────────────────────────────────────────────
-
-function calcEma(candles: Candle[], period: number): number | null {
-  if (candles.length < period) return null
-  const multiplier = 2 / (period + 1)
-  let ema = 0
-  for (let i = 0; i < period; i++) ema += candles[i].close
-  ema /= period
-  for (let i = period; i < candles.length; i++) {
-    ema = (candles[i].close - ema) * multiplier + ema
-  }
-  return ema
-}
-
-function calcEmaArray(candles: Candle[], period: number): number[] {
-  const result: number[] = new Array(candles.length).fill(NaN)
-  if (candles.length < period) return result
-  const multiplier = 2 / (period + 1)
-  let ema = 0
-  for (let i = 0; i < period; i++) ema += candles[i].close
-  ema /= period
-  result[period - 1] = ema
-  for (let i = period; i < candles.length; i++) {
-    ema = (candles[i].close - ema) * multiplier + ema
-    result[i] = ema
-  }
-  return result
-}
+// ─── Signal Book ─────────────────────────────────────────────────────────────
 
-// ─── EMA Pullback Detection ─────────────────────────────────────────────────
-
-interface EMAPullbackSetup {
-  ema21: number
-  ema50: number
-  emaSpreadPct: number
-  pullbackCandleIdx: number
-  bounceCandle: Candle
-  pullbackDepthPct: number
-  volumeOnBounce: boolean
-  isBuy: boolean
-}
+const BOOK_COLUMNS = "signal_type, status, timeframe, entry_zone_low, entry_zone_high, generated_at"
 
-function detectEMAPullback(candles4h: Candle[], isBuy: boolean): EMAPullbackSetup | null {
-  if (candles4h.length < EMA_SLOW_PERIOD + 10) return null
-
-  const ema21Arr = calcEmaArray(candles4h, EMA_PULLBACK_PERIOD)
-  const ema50Arr = calcEmaArray(candles4h, EMA_SLOW_PERIOD)
-  const lastIdx = candles4h.length - 1
-  const ema21 = ema21Arr[lastIdx]
-  const ema50 = ema50Arr[lastIdx]
-  if (isNaN(ema21) || isNaN(ema50)) return null
-
-  // Trend check: EMAs must be stacked with > 1% spread
-  const spread = Math.abs(ema21 - ema50) / ema50 * 100
-  if (spread < 1.0) return null
-  if (isBuy && ema21 <= ema50) return null
-  if (!isBuy && ema21 >= ema50) return null
-
-  // Look at last 6 candles for a touch of EMA21
-  const searchStart = Math.max(0, lastIdx - 5)
-  let touchIdx = -1
-  for (let i = searchStart; i <= lastIdx; i++) {
-    const e21 = ema21Arr[i]
-    if (isNaN(e21)) continue
-    if (isBuy) {
-      // Price dipped to within 0.5% of EMA21 (or below it)
-      if (candles4h[i].low <= e21 * 1.005) { touchIdx = i; break }
-    } else {
-      if (candles4h[i].high >= e21 * 0.995) { touchIdx = i; break }
-    }
-  }
-  if (touchIdx < 0) return null
-
-  // After the touch, find a confirming candle (bullish close above EMA21 for longs)
-  // Must be one of the last 2 candles (fresh setup)
-  let confirmCandle: Candle | null = null
-  let confirmIdx = -1
-  for (let i = Math.max(touchIdx, lastIdx - 1); i <= lastIdx; i++) {
-    const e21 = ema21Arr[i]
-    if (isNaN(e21)) continue
-    if (isBuy && candles4h[i].close > candles4h[i].open && candles4h[i].close > e21) {
-      confirmCandle = candles4h[i]
-      confirmIdx = i
-      break
-    }
-    if (!isBuy && candles4h[i].close < candles4h[i].open && candles4h[i].close < e21) {
-      confirmCandle = candles4h[i]
-      confirmIdx = i
-      break
-    }
+function toBookSignal(row: Record<string, unknown>): BookSignal {
+  return {
+    signal_type: String(row.signal_type),
+    status: String(row.status),
+    timeframe: String(row.timeframe),
+    entry_zone_low: Number(row.entry_zone_low),
+    entry_zone_high: Number(row.entry_zone_high),
+    generated_at: String(row.generated_at),
   }
-  if (!confirmCandle || confirmIdx < lastIdx - 1) return null
-
-  // Pullback depth: how close price got to EMA21
-  const touchE21 = ema21Arr[touchIdx]
-  const depthPct = isBuy
-    ? (touchE21 - candles4h[touchIdx].low) / touchE21 * 100
-    : (candles4h[touchIdx].high - touchE21) / touchE21 * 100
-
-  // Volume on bounce: check if confirm candle has above-average volume
-  const volWindow = candles4h.slice(Math.max(0, confirmIdx - 20), confirmIdx)
-  const avgVol = volWindow.length > 0 ? volWindow.reduce((s, c) => s + c.volume, 0) / volWindow.length : 0
-  const volumeOnBounce = avgVol > 0 && confirmCandle.volume >= 1.15 * avgVol
-
-  return { ema21, ema50, emaSpreadPct: spread, pullbackCandleIdx: touchIdx, bounceCandle: confirmCandle, pullbackDepthPct: depthPct, volumeOnBounce, isBuy }
 }
 
-function computeEMAPullbackTargets(
-  setup: EMAPullbackSetup,
-  currentPrice: number,
-  candles4h: Candle[],
-  swings: Record<string, SwingPoint[]>,
-): { target1: number; target2: number; stopLoss: number } | null {
-  const { ema50, isBuy } = setup
-
-  // Stop loss: below EMA50 with 0.5% buffer (longs) or above (shorts)
-  const emaStop = isBuy ? ema50 * 0.995 : ema50 * 1.005
-
-  // ATR-based stop: 1.5x ATR from current price
-  let atrStop = emaStop
-  if (candles4h.length >= 14) {
-    let atrSum = 0
-    for (let i = candles4h.length - 14; i < candles4h.length; i++) {
-      const prevClose = i > 0 ? candles4h[i - 1].close : candles4h[i].open
-      const tr = Math.max(
-        candles4h[i].high - candles4h[i].low,
-        Math.abs(candles4h[i].high - prevClose),
-        Math.abs(candles4h[i].low - prevClose)
-      )
-      atrSum += tr
-    }
-    const atr = atrSum / 14
-    atrStop = isBuy ? currentPrice - 1.5 * atr : currentPrice + 1.5 * atr
-  }
-
-  // Use whichever stop is tighter (closer to entry)
-  const stopLoss = isBuy ? Math.max(emaStop, atrStop) : Math.min(emaStop, atrStop)
-  const riskDist = Math.abs(currentPrice - stopLoss)
-  if (riskDist <= 0) return null
-
-  // Target 1: recent swing high/low or 1.5R
-  let target1 = isBuy ? currentPrice + 1.5 * riskDist : currentPrice - 1.5 * riskDist
-  const swingPoints = [...(swings["4h"] ?? []), ...(swings["1d"] ?? [])]
-  if (isBuy) {
-    const highs = swingPoints.filter(s => s.type === "high" && s.price > currentPrice).sort((a, b) => a.price - b.price)
-    if (highs.length > 0 && Math.abs(highs[0].price - currentPrice) > 1.5 * riskDist) {
-      target1 = highs[0].price
-    }
-  } else {
-    const lows = swingPoints.filter(s => s.type === "low" && s.price < currentPrice).sort((a, b) => b.price - a.price)
-    if (lows.length > 0 && Math.abs(lows[0].price - currentPrice) > 1.5 * riskDist) {
-      target1 = lows[0].price
-    }
+// Snapshot of this asset's open + recently generated signals for the
+// evaluation gates. Loaded once per asset, after resolution has run.
+async function loadSignalBook(
+  supabase: SupabaseClient,
+  ticker: string,
+  openSignalCounter: { total: number },
+): Promise<SignalBook> {
+  const cooldownCutoff = new Date(Date.now() - DEFAULT_PARAMS.cooldownHours * 3600000).toISOString()
+  const [{ data: open }, { data: recent }] = await Promise.all([
+    supabase
+      .from("trade_signals")
+      .select(BOOK_COLUMNS)
+      .eq("asset", ticker)
+      .in("status", ["active", "triggered"]),
+    supabase
+      .from("trade_signals")
+      .select(BOOK_COLUMNS)
+      .eq("asset", ticker)
+      .gte("generated_at", cooldownCutoff),
+  ])
+  return {
+    open: (open ?? []).map(toBookSignal),
+    recent: (recent ?? []).map(toBookSignal),
+    openTotal: openSignalCounter.total,
   }
-
-  // Target 2: 2R extension
-  const target2 = isBuy ? currentPrice + 2.0 * riskDist : currentPrice - 2.0 * riskDist
-
-  return { target1, target2, stopLoss }
 }
 
-function computeEMAPullbackScore(params: {
-  setup: EMAPullbackSetup
-  candles4h: Candle[]
-  volumeConfluence: VolumeConfluenceResult
-  fvgConfluence: FVGConfluenceResult
-  rrRatio: number
-  fearGreedIndex?: number
-  btcRiskScore?: number
-}): number {
-  const { setup, rrRatio, fearGreedIndex } = params
-  let score = 0
-
-  // EMA Alignment Strength (0-30)
-  if (setup.emaSpreadPct > 3.0) score += 30
-  else if (setup.emaSpreadPct > 2.0) score += 20
-  else score += 12
-  // Slope bonus
-  const candles = params.candles4h
-  if (candles.length >= EMA_SLOW_PERIOD + 6) {
-    const emaNow = calcEma(candles, EMA_SLOW_PERIOD)
-    const emaPrev = calcEma(candles.slice(0, -6), EMA_SLOW_PERIOD)
-    if (emaNow && emaPrev) {
-      const slopePct = Math.abs(emaNow - emaPrev) / emaPrev * 100
-      if (slopePct > 1.0) score += 10
-      else if (slopePct > 0.5) score += 5
-    }
-  }
-  score = Math.min(score, 30)
-
-  // Pullback Quality (0-20)
-  if (setup.pullbackDepthPct <= 0.3) score += 10  // Clean EMA21 touch
-  else if (setup.pullbackDepthPct <= 1.0) score += 6
-  const bounceBody = Math.abs(setup.bounceCandle.close - setup.bounceCandle.open)
-  const bounceRange = setup.bounceCandle.high - setup.bounceCandle.low
-  if (bounceRange > 0 && bounceBody / bounceRange >= 0.6) score += 5  // Strong bounce candle
-  if (setup.volumeOnBounce) score += 5
-
-  // R:R (0-15) — same as fib
-  if (rrRatio >= 3.0) score += 15
-  else if (rrRatio >= 2.0) score += 10
-  else score += 5
-
-  // FVG Confluence (0-10)
-  if (params.fvgConfluence.has_fvg_confluence) {
-    score += params.fvgConfluence.score_bonus
-  }
-
-  // Macro/Context (0-15) — same as fib but always with-trend
-  let macroScore = 10
-  if (fearGreedIndex !== undefined) {
-    if (setup.isBuy && fearGreedIndex < 25) macroScore += 3  // Extreme fear, bullish
-    if (!setup.isBuy && fearGreedIndex > 75) macroScore += 3  // Extreme greed, bearish
-  }
-  score += Math.min(macroScore, 15)
-
-  // Volume Confluence (0-10)
-  if (params.volumeConfluence.has_volume_confluence) {
-    score += Math.min(params.volumeConfluence.volume_node_count * 3, 10)
-  }
-
-  return Math.max(0, Math.min(100, score))
-}
+// ─── Signal Evaluation ───────────────────────────────────────────────────────
 
-async function evaluateEMAPullbackSignals(
+async function evaluateSignals(
   supabase: SupabaseClient,
   ticker: string,
   candles: Record<string, Candle[]>,
+  zones: ConfluenceZone[],
+  fibs: FibLevel[],
   currentPrice: number,
   volumeNodes: VolumeNode[],
   fearGreedIndex: number | undefined,
   btcRiskScore: number | undefined,
   swings: Record<string, SwingPoint[]>,
-  adaptiveParams: any,
+  tier: TierConfig,
+  adaptiveParams: AdaptiveParams | null,
+  adaptiveVersion: number | null,
   btcVolRegime: VolatilityRegime,
+  book: SignalBook,
   openSignalCounter: { total: number },
 ): Promise<{ generated: number; skipped: number; skipReasons: string[] }> {
-  const stats = { generated: 0, skipped: 0, skipReasons: [] as string[] }
-  const candles4h = candles["4h"] ?? []
-
-  // Hard gate: only in trending markets (not choppy, EMA spread > 1%)
-  const regime = detectMarketRegime(candles4h)
-  if (regime.isChoppy) {
-    stats.skipReasons.push("choppy market — EMA pullback disabled")
-    stats.skipped++
-    return stats
-  }
-
-  // 12-hour cooldown (shared with swing tier)
-  const cooldownCutoff = new Date(Date.now() - 12 * 60 * 60 * 1000).toISOString()
-  const { data: recentSignals } = await supabase
-    .from("trade_signals")
-    .select("id")
-    .eq("asset", ticker)
-    .eq("timeframe", "4h")
-    .gte("generated_at", cooldownCutoff)
-    .limit(1)
-  if (recentSignals && recentSignals.length > 0) {
-    stats.skipReasons.push("12h cooldown (shared with swing)")
-    stats.skipped++
-    return stats
-  }
-
-  // Per-asset concurrent cap
-  const { count: assetOpenCount } = await supabase
-    .from("trade_signals")
-    .select("*", { count: "exact", head: true })
-    .eq("asset", ticker)
-    .in("status", ["active", "triggered"])
-  if ((assetOpenCount ?? 0) >= MAX_SIGNALS_PER_ASSET) {
-    stats.skipReasons.push(`Max ${MAX_SIGNALS_PER_ASSET} open signals`)
-    stats.skipped++
-    return stats
-  }
+  // Other assets in the batch may have opened signals since the book was loaded
+  book.openTotal = openSignalCounter.total
+  const { drafts, skipped, skipReasons } = evaluateFibSignals({
+    ticker, candles, zones, fibs, currentPrice, volumeNodes, fearGreedIndex, btcRiskScore,
+    swings, tier, adaptiveParams, btcVolRegime, book, now: new Date(),
+  })
+  const stats = { generated: 0, skipped, skipReasons }
 
-  // Check both directions
-  for (const isBuy of [true, false]) {
-    const setup = detectEMAPullback(candles4h, isBuy)
-    if (!setup) continue
+  for (const draft of drafts) {
+    const { row, zone } = draft
 
-    // Direction dedup
-    const signalDirection = isBuy ? ["buy", "strong_buy"] : ["sell", "strong_sell"]
-    const { data: existing } = await supabase
-      .from("trade_signals")
+    // Link the signal to the confluence zone stored earlier this run
+    const { data: zoneRow } = await supabase
+      .from("fib_confluence_zones")
       .select("id")
       .eq("asset", ticker)
-      .in("status", ["active", "triggered"])
-      .in("signal_type", signalDirection)
+      .eq("is_active", true)
+      .gte("zone_mid", zone.mid * 0.999)
+      .lte("zone_mid", zone.mid * 1.001)
       .limit(1)
-    if (existing && existing.length > 0) {
-      stats.skipReasons.push(`active ${isBuy ? "long" : "short"} signal exists`)
-      stats.skipped++
-      continue
-    }
-
-    // Daily trend guard
-    const dailyCandles = candles["1d"] ?? []
-    if (!checkDailyTrendGuard(dailyCandles, isBuy)) {
-      stats.skipReasons.push(`daily trend guard blocked ${isBuy ? "long" : "short"}`)
-      stats.skipped++
-      continue
-    }
-
-    // Momentum filter
-    if (!checkMomentumFilter(dailyCandles, isBuy)) {
-      stats.skipReasons.push(`momentum filter blocked ${isBuy ? "long" : "short"}`)
-      stats.skipped++
-      continue
-    }
-
-    // The entry is the EMA21 pullback zone we PUBLISH — not spot at detection.
-    // Previously entry/stop/targets were computed from currentPrice while the
-    // zone shown to members came from the EMA, so the app displayed one entry
-    // and traded another (and a short's stop could land below its entry zone).
-    const entryZoneLow = setup.ema21 * 0.995
-    const entryZoneHigh = setup.ema21 * 1.005
-    const entryMid = setup.ema21
-
-    // Staleness gate: if price already ran past the zone in the trade's
-    // direction, a member can't take the stated entry — don't publish at all.
-    if (isBuy ? currentPrice > entryZoneHigh : currentPrice < entryZoneLow) {
-      stats.skipReasons.push(
-        `price ${currentPrice} already past entry zone ${entryZoneLow.toFixed(4)}–${entryZoneHigh.toFixed(4)}`
-      )
-      stats.skipped++
-      continue
-    }
-
-    // Compute targets
-    const targets = computeEMAPullbackTargets(setup, currentPrice, candles4h, swings)
-    if (!targets) {
-      stats.skipReasons.push(`no valid targets for ${isBuy ? "long" : "short"}`)
-      stats.skipped++
-      continue
-    }
-
-    // Risk/reward measured from the published entry, so R:R is what a member
-    // would actually get filling in the zone.
-    const riskDist = Math.abs(entryMid - targets.stopLoss)
-    const rewardDist = Math.abs(targets.target1 - entryMid)
-    const rrRatio = riskDist > 0 ? rewardDist / riskDist : 0
+    row.confluence_zone_id = zoneRow?.[0]?.id ?? null
 
-    if (rrRatio < 0.8) {
-      stats.skipReasons.push(`R:R ${rrRatio.toFixed(2)} < 0.8`)
+    // Global concurrent signal cap (re-checked against the live counter)
+    if (openSignalCounter.total >= MAX_SIGNALS_TOTAL) {
+      console.log(`[${ticker}] Global cap reached (${MAX_SIGNALS_TOTAL} open) — skipping signal at ${zone.mid.toFixed(2)} [${tier.tierName}]`)
+      stats.skipReasons.push(`Global cap ${MAX_SIGNALS_TOTAL} open signals`)
       stats.skipped++
       continue
     }
 
-    // Synthetic zone around EMA21 for confluence checks
-    const syntheticZone = {
-      low: setup.ema21 * 0.995,
-      high: setup.ema21 * 1.005,
-      mid: setup.ema21,
-      strength: 1,
-      zone_type: isBuy ? "support" : "resistance",
-      tf_count: 1,
-      levels: [],
-    } as ConfluenceZone
-
-    const fvgs = detectFairValueGaps(candles)
-    const fvgConfluence = checkFVGConfluence(syntheticZone, fvgs, isBuy)
-    const volConfluence = checkVolumeConfluence(syntheticZone, volumeNodes)
-
-    const compositeScore = computeEMAPullbackScore({
-      setup, candles4h, volumeConfluence: volConfluence, fvgConfluence,
-      rrRatio, fearGreedIndex, btcRiskScore,
-    })
-
-    // Shadow score — recorded for out-of-sample comparison, drives nothing.
-    const compositeScoreV2 = computeCompositeScoreV2({
-      volumeConfluence: volConfluence,
-      bounce: { confirmed: true, details: { volume_spike: setup.volumeOnBounce } },
-      rrRatio,
-      counterTrend: false,
-    })
+    const { data: inserted, error } = await supabase
+      .from("trade_signals")
+      .insert({ ...row, adaptive_params_version: adaptiveVersion })
+      .select("id")
+      .single()
 
-    if (compositeScore < 50) {
-      stats.skipReasons.push(`score ${compositeScore} < 50`)
-      stats.skipped++
+    if (error) {
+      console.error(`[${ticker}] Zone ${zone.mid.toFixed(2)}: DB insert error: ${error.message}`)
       continue
     }
+    if (!inserted) continue
 
-    const isStrong = rrRatio >= 2.0 && setup.emaSpreadPct > 2.0
-    const signalType = isBuy
-      ? (isStrong ? "strong_buy" : "buy")
-      : (isStrong ? "strong_sell" : "sell")
-
-    // Partial TP and tightened SL (same fractions as fib signals), anchored to
-    // the published entry so the stop always sits on the correct side of it.
-    const partialTP = isBuy
-      ? entryMid + TP_FRACTION * rewardDist
-      : entryMid - TP_FRACTION * rewardDist
-    const tightenedSL = isBuy
-      ? entryMid - SL_FRACTION * riskDist
-      : entryMid + SL_FRACTION * riskDist
+    openSignalCounter.total++
+    recordInBook(book, row, new Date().toISOString())
+    stats.generated++
 
-    const macroRegime = fearGreedIndex !== undefined
-      ? (fearGreedIndex >= 70 ? "Risk-On" : fearGreedIndex <= 30 ? "Risk-Off" : "Neutral")
-      : "Unknown"
+    const direction = draft.isBuy ? "Long" : "Short"
+    sendSignalNotification(
+      inserted.id,
+      `${draft.isBuy ? "📈" : "📉"} ${tier.tierName === "1h" ? "Scalp" : "Swing"}: ${ticker} ${direction} Signal`,
+      `${draft.isStrong ? "Strong " : ""}${direction} at ${formatPrice(row.entry_price_mid)} | R:R ${draft.rrRatio.toFixed(1)} | T1: ${formatPrice(draft.target1)} | SL: ${formatPrice(draft.stopLoss)}`,
+    )
 
-    const expiresAt = new Date(Date.now() + 72 * 60 * 60 * 1000).toISOString()
+    // Generate briefing (await to ensure it completes before pipeline moves on)
+    await requestSignalBriefing(ticker, inserted.id)
+  }
 
-    const slopeRegime = checkEMASlopeRegime(candles4h, isBuy)
-    const lowConviction = !slopeRegime.allowed
-    const compression = detectRangeCompression(candles4h)
+  return stats
+}
 
-    const signalRow = {
-      asset: ticker,
-      signal_type: signalType,
-      // Published as "Watching" — signal-monitor flips it to "In Play" only once
-      // price actually trades into the entry zone. Creating it already triggered
-      // meant the app claimed a live position before entry was ever reached.
-      status: "active",
-      timeframe: "4h",
-      entry_zone_low: entryZoneLow,
-      entry_zone_high: entryZoneHigh,
-      entry_price_mid: entryMid,
-      confluence_zone_id: null,
-      target_1: partialTP,
-      target_2: targets.target2,
-      stop_loss: tightenedSL,
-      risk_reward_ratio: Math.round(rrRatio * 100) / 100,
-      risk_1r: SL_FRACTION * riskDist,
-      best_price: entryMid,
-      runner_stop: tightenedSL,
-      ema_trend_aligned: true,
-      bounce_confirmed: true,
-      confirmation_details: {
-        strategy: "ema_pullback",
-        ema21_touch: true,
-        bounce_candle: true,
-        volume_spike: setup.volumeOnBounce,
-        ema_spread_pct: Math.round(setup.emaSpreadPct * 100) / 100,
-        pullback_depth_pct: Math.round(setup.pullbackDepthPct * 100) / 100,
-        fvg_confluence: fvgConfluence.has_fvg_confluence,
-        fvg_timeframe: fvgConfluence.best_timeframe,
-        fvg_type: fvgConfluence.fvg_type,
-        fvg_gap_size_pct: fvgConfluence.gap_size_pct,
-      },
-      counter_trend: false,
-      composite_score: compositeScore,
-      composite_score_v2: compositeScoreV2,
-      volume_confluence: volConfluence,
-      fear_greed_index: fearGreedIndex ?? null,
-      btc_risk_score: btcRiskScore ?? null,
-      macro_regime: macroRegime,
-      chart_pattern: null,
-      range_compressed: compression.isCompressed,
-      compression_score: compression.isCompressed ? Math.round(compression.rangeRatio * 100) : null,
-      low_conviction: lowConviction,
-      volatility_regime: btcVolRegime.regime,
-      suggested_risk_pct: lowConviction
-        ? Math.min(1.0, btcVolRegime.suggestedRiskPct)
-        : btcVolRegime.suggestedRiskPct,
-      // triggered_at is intentionally left null. signal-monitor stamps it the
-      // moment price fills the entry zone, so T1/stop/duration/P&L all measure
-      // from the real entry instead of from signal creation.
-      expires_at: expiresAt,
-    }
+async function evaluateEMAPullbackSignals(
+  supabase: SupabaseClient,
+  ticker: string,
+  candles: Record<string, Candle[]>,
+  currentPrice: number,
+  volumeNodes: VolumeNode[],
+  fearGreedIndex: number | undefined,
+  btcRiskScore: number | undefined,
+  swings: Record<string, SwingPoint[]>,
+  adaptiveVersion: number | null,
+  btcVolRegime: VolatilityRegime,
+  book: SignalBook,
+  openSignalCounter: { total: number },
+): Promise<{ generated: number; skipped: number; skipReasons: string[] }> {
+  book.openTotal = openSignalCounter.total
+  const { drafts, skipped, skipReasons } = evaluateEMAPullback({
+    ticker, candles, currentPrice, volumeNodes, fearGreedIndex, btcRiskScore,
+    swings, btcVolRegime, book, now: new Date(),
+  })
+  const stats = { generated: 0, skipped, skipReasons }
 
-    // Global cap
+  for (const draft of drafts) {
     if (openSignalCounter.total >= MAX_SIGNALS_TOTAL) {
       stats.skipReasons.push(`Global cap ${MAX_SIGNALS_TOTAL} open signals`)
       stats.skipped++
@@ -1317,7 +760,7 @@ async function evaluateEMAPullbackSignals(
 
     const { data: inserted, error } = await supabase
       .from("trade_signals")
-      .insert(signalRow)
+      .insert({ ...draft.row, adaptive_params_version: adaptiveVersion })
       .select("id")
       .single()
 
@@ -1327,1841 +770,75 @@ async function evaluateEMAPullbackSignals(
       stats.skipped++
       continue
     }
-    if (inserted) {
-      openSignalCounter.total++
-      stats.generated++
-      console.log(`[${ticker}] ✅ EMA Pullback ${isBuy ? "LONG" : "SHORT"} | score=${compositeScore} | R:R=${rrRatio.toFixed(2)} | spread=${setup.emaSpreadPct.toFixed(1)}%`)
-
-      // Push notification
-      const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? ""
-      const cronSecret = Deno.env.get("CRON_SECRET") ?? ""
-      try {
-        const emoji = isBuy ? "📈" : "📉"
-        const direction = isBuy ? "Long" : "Short"
-        const priceStr = currentPrice > 1000 ? `$${Math.round(currentPrice).toLocaleString()}` : currentPrice > 1 ? `$${currentPrice.toFixed(2)}` : `$${currentPrice.toFixed(4)}`
-        const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? ""
-        fetch(`${supabaseUrl}/functions/v1/send-broadcast-notification`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json", "Authorization": `Bearer ${anonKey}`, "x-cron-secret": cronSecret },
-          body: JSON.stringify({
-            broadcast_id: inserted.id,
-            title: `${emoji} Pullback: ${ticker} ${direction} Signal`,
-            body: `${isStrong ? "Strong " : ""}${direction} at ${priceStr} | R:R ${rrRatio.toFixed(1)} | EMA21 pullback`,
-            event_type: "signal_new",
-            target_audience: { type: "all" },
-          }),
-        }).catch(() => {})
-      } catch {}
-
-      // Generate briefing
-      try {
-        const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? ""
-        const cronSecret = Deno.env.get("CRON_SECRET") ?? ""
-        await fetch(`${supabaseUrl}/functions/v1/generate-signal-briefing`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json", "x-cron-secret": cronSecret },
-          body: JSON.stringify({ signal_id: inserted.id }),
-        })
-      } catch (err) {
-        console.error(`[briefing] Error for ${ticker} EMA pullback: ${err}`)
-      }
-    }
-  }
-
-  return stats
-}
-
-function checkTrendAlignment(candles4h: Candle[], isBuy: boolean): boolean {
-  if (candles4h.length < EMA_SLOW_PERIOD + EMA_SLOPE_LOOKBACK) return true
-
-  const emaFast = calcEma(candles4h, EMA_FAST_PERIOD)
-  const emaSlow = calcEma(candles4h, EMA_SLOW_PERIOD)
-  const emaSlowPrev = calcEma(candles4h.slice(0, -EMA_SLOPE_LOOKBACK), EMA_SLOW_PERIOD)
-
-  if (emaFast === null || emaSlow === null || emaSlowPrev === null) return true
-
-  const price = candles4h[candles4h.length - 1].close
-  const emaSlopeUp = emaSlow > emaSlowPrev
-  const emaSlopeDown = emaSlow < emaSlowPrev
-
-  if (isBuy) {
-    const trendOk = emaFast > emaSlow
-    const pullbackOk = emaSlopeUp && Math.abs(price - emaSlow) / emaSlow < EMA_PULLBACK_TOLERANCE
-    return trendOk || pullbackOk
-  } else {
-    const trendOk = emaFast < emaSlow
-    const pullbackOk = emaSlopeDown && Math.abs(price - emaSlow) / emaSlow < EMA_PULLBACK_TOLERANCE
-    return trendOk || pullbackOk
-  }
-}
+    if (!inserted) continue
 
-/**
- * Daily-timeframe trend guard — blocks shorts in clear daily uptrends.
- * Asymmetric by design: longs are NEVER blocked because this strategy's
- * best edge is buying support during pullbacks (even in "downtrends").
- * Returns true if the signal direction is allowed.
- */
-function checkDailyTrendGuard(dailyCandles: Candle[], isBuy: boolean): boolean {
-  // Never block longs — buying pullbacks is the strategy's core edge
-  if (isBuy) return true
-
-  if (dailyCandles.length < EMA_SLOW_PERIOD + 5) return true  // Not enough data, allow
-
-  const emaFast = calcEma(dailyCandles, EMA_FAST_PERIOD)
-  const emaSlow = calcEma(dailyCandles, EMA_SLOW_PERIOD)
-  const emaSlowPrev = calcEma(dailyCandles.slice(0, -5), EMA_SLOW_PERIOD)  // 5-day slope
+    openSignalCounter.total++
+    recordInBook(book, draft.row, new Date().toISOString())
+    stats.generated++
+    const spreadPct = Number(draft.row.confirmation_details.ema_spread_pct)
+    console.log(`[${ticker}] ✅ EMA Pullback ${draft.isBuy ? "LONG" : "SHORT"} | score=${draft.row.composite_score} | R:R=${draft.rrRatio.toFixed(2)} | spread=${spreadPct.toFixed(1)}%`)
 
-  if (emaFast === null || emaSlow === null || emaSlowPrev === null) return true
-
-  const spread = Math.abs(emaFast - emaSlow) / emaSlow * 100
-  const slopeUp = emaSlow > emaSlowPrev
+    const direction = draft.isBuy ? "Long" : "Short"
+    sendSignalNotification(
+      inserted.id,
+      `${draft.isBuy ? "📈" : "📉"} Pullback: ${ticker} ${direction} Signal`,
+      `${draft.isStrong ? "Strong " : ""}${direction} at ${formatPrice(currentPrice)} | R:R ${draft.rrRatio.toFixed(1)} | EMA21 pullback`,
+    )
 
-  // Block shorts when daily trend is clearly bullish: EMA20 > EMA50, slope rising, spread > 1%
-  if (emaFast > emaSlow && slopeUp && spread > 1.0) {
-    return false
+    await requestSignalBriefing(ticker, inserted.id)
   }
 
-  return true
+  return stats
 }
 
-// ─── Choppiness Detector ─────────────────────────────────────────────────────
-
-interface MarketRegime {
-  isChoppy: boolean
-  emaSpreadPct: number
-  crossoverCount: number
-  priceWhipsaws: number
+function formatPrice(price: number): string {
+  return price > 1000
+    ? `$${Math.round(price).toLocaleString()}`
+    : price > 1
+      ? `$${price.toFixed(2)}`
+      : `$${price.toFixed(4)}`
 }
 
-/**
- * Detects choppy/ranging market conditions on 4H timeframe.
- * Choppy = EMAs close together, frequent crossovers, price whipsawing around EMA20.
- * Returns regime info used to raise signal quality thresholds.
- */
-function detectMarketRegime(candles4h: Candle[]): MarketRegime {
-  const regime: MarketRegime = { isChoppy: false, emaSpreadPct: 0, crossoverCount: 0, priceWhipsaws: 0 }
-
-  if (candles4h.length < EMA_SLOW_PERIOD + 20) return regime
-
-  // Compute EMA series for crossover detection
-  const closes = candles4h.map(c => c.close)
-  const mult20 = 2 / (EMA_FAST_PERIOD + 1)
-  const mult50 = 2 / (EMA_SLOW_PERIOD + 1)
-
-  // Bootstrap EMA20
-  let ema20 = 0
-  for (let i = 0; i < EMA_FAST_PERIOD; i++) ema20 += closes[i]
-  ema20 /= EMA_FAST_PERIOD
-  for (let i = EMA_FAST_PERIOD; i < EMA_SLOW_PERIOD; i++) {
-    ema20 = (closes[i] - ema20) * mult20 + ema20
-  }
-
-  // Bootstrap EMA50
-  let ema50 = 0
-  for (let i = 0; i < EMA_SLOW_PERIOD; i++) ema50 += closes[i]
-  ema50 /= EMA_SLOW_PERIOD
-
-  // Walk forward from EMA_SLOW_PERIOD, tracking last 20 candles (~3.3 days)
-  const lookback = 20
-  let prevAbove = ema20 > ema50
-  const recentEma20Above: boolean[] = []
-  const recentPriceAboveEma20: boolean[] = []
-
-  for (let i = EMA_SLOW_PERIOD; i < closes.length; i++) {
-    ema20 = (closes[i] - ema20) * mult20 + ema20
-    ema50 = (closes[i] - ema50) * mult50 + ema50
-
-    const above = ema20 > ema50
-    recentEma20Above.push(above)
-    recentPriceAboveEma20.push(closes[i] > ema20)
-
-    // Keep only last N
-    if (recentEma20Above.length > lookback) recentEma20Above.shift()
-    if (recentPriceAboveEma20.length > lookback) recentPriceAboveEma20.shift()
-
-    prevAbove = above
-  }
-
-  // Current EMA spread
-  regime.emaSpreadPct = Math.abs(ema20 - ema50) / ema50 * 100
-
-  // Count EMA20/EMA50 crossovers in lookback
-  for (let i = 1; i < recentEma20Above.length; i++) {
-    if (recentEma20Above[i] !== recentEma20Above[i - 1]) regime.crossoverCount++
-  }
-
-  // Count price/EMA20 whipsaws in lookback
-  for (let i = 1; i < recentPriceAboveEma20.length; i++) {
-    if (recentPriceAboveEma20[i] !== recentPriceAboveEma20[i - 1]) regime.priceWhipsaws++
-  }
-
-  // Choppy if: EMAs tight AND (crossovers or whipsaws are frequent)
-  const tightSpread = regime.emaSpreadPct < 1.5
-  const frequentCrossovers = regime.crossoverCount >= 2
-  const frequentWhipsaws = regime.priceWhipsaws >= 6
-  regime.isChoppy = tightSpread && (frequentCrossovers || frequentWhipsaws)
-
-  return regime
-}
-
-/**
- * EMA Slope Regime Filter — blocks signals when the 50 EMA has no clear directional slope.
- * Returns { allowed: boolean, slope: number } where slope is the % change over lookback.
- * For longs: slope must be positive. For shorts: slope must be negative.
- */
-function checkEMASlopeRegime(candles4h: Candle[], isBuy: boolean): { allowed: boolean; slopePct: number } {
-  if (candles4h.length < EMA_SLOW_PERIOD + REGIME_SLOPE_LOOKBACK) {
-    return { allowed: true, slopePct: 0 }  // Not enough data — allow
-  }
-
-  const closes = candles4h.map(c => c.close)
-
-  // Compute current EMA50
-  const mult = 2 / (EMA_SLOW_PERIOD + 1)
-  let ema = 0
-  for (let i = 0; i < EMA_SLOW_PERIOD; i++) ema += closes[i]
-  ema /= EMA_SLOW_PERIOD
-  for (let i = EMA_SLOW_PERIOD; i < closes.length; i++) {
-    ema = (closes[i] - ema) * mult + ema
-  }
-  const emaNow = ema
-
-  // Compute EMA50 at lookback candles ago
-  let emaPast = 0
-  for (let i = 0; i < EMA_SLOW_PERIOD; i++) emaPast += closes[i]
-  emaPast /= EMA_SLOW_PERIOD
-  const pastEnd = closes.length - REGIME_SLOPE_LOOKBACK
-  for (let i = EMA_SLOW_PERIOD; i < pastEnd; i++) {
-    emaPast = (closes[i] - emaPast) * mult + emaPast
-  }
-
-  const slopePct = ((emaNow - emaPast) / emaPast) * 100
-
-  // Slope must have minimum magnitude
-  if (Math.abs(slopePct) < REGIME_SLOPE_MIN_PCT) {
-    return { allowed: false, slopePct }
-  }
-
-  // Slope direction must match trade direction
-  if (isBuy && slopePct < 0) return { allowed: false, slopePct }
-  if (!isBuy && slopePct > 0) return { allowed: false, slopePct }
-
-  return { allowed: true, slopePct }
-}
-
-// ─── Range Compression Detection ────────────────────────────────────────────
-
-interface RangeCompression {
-  isCompressed: boolean
-  rangeRatio: number      // 24h range / 14d ATR (< 0.4 = compressed)
-  volumeRatio: number     // 24h avg vol / 14d avg vol (< 0.5 = volume dried up)
-  range24h: number
-  atr14d: number
-}
-
-/**
- * Detects when an asset is trading in an unusually tight range with low volume.
- * Compressed markets = low conviction — signals are more likely to be false breakouts.
- * Uses 4H candles: last 6 = 24h window, last 84 = 14-day window.
- */
-function detectRangeCompression(candles4h: Candle[]): RangeCompression {
-  const result: RangeCompression = { isCompressed: false, rangeRatio: 1, volumeRatio: 1, range24h: 0, atr14d: 0 }
-
-  // Need at least 84 candles (14 days of 4H data)
-  if (candles4h.length < 84) return result
-
-  // Last 6 candles = 24h window
-  const recent6 = candles4h.slice(-6)
-  const range24h = Math.max(...recent6.map(c => c.high)) - Math.min(...recent6.map(c => c.low))
-  result.range24h = range24h
-
-  // 14-day ATR from last 84 candles (true range per bar, averaged, × 6 for daily equivalent)
-  const last84 = candles4h.slice(-84)
-  let trSum = 0
-  for (let i = 1; i < last84.length; i++) {
-    const tr = Math.max(
-      last84[i].high - last84[i].low,
-      Math.abs(last84[i].high - last84[i - 1].close),
-      Math.abs(last84[i].low - last84[i - 1].close)
-    )
-    trSum += tr
-  }
-  const atrPer4h = trSum / (last84.length - 1)
-  const atr14d = atrPer4h * 6 // Daily ATR equivalent
-  result.atr14d = atr14d
-
-  // Range ratio: how much of the normal daily range the last 24h covers
-  result.rangeRatio = atr14d > 0 ? range24h / atr14d : 1
-
-  // Volume comparison (only if volume data exists)
-  const hasVolume = recent6.some(c => (c.volume ?? 0) > 0)
-  if (hasVolume) {
-    const vol24h = recent6.reduce((s, c) => s + (c.volume ?? 0), 0) / recent6.length
-    const vol14d = last84.reduce((s, c) => s + (c.volume ?? 0), 0) / last84.length
-    result.volumeRatio = vol14d > 0 ? vol24h / vol14d : 1
-  }
-
-  // Compressed = tight range. Volume is secondary confirmation.
-  result.isCompressed = result.rangeRatio < 0.4 || (result.rangeRatio < 0.55 && result.volumeRatio < 0.5)
-
-  return result
-}
-
-// ─── Volatility Regime Detection ────────────────────────────────────────────
-
-interface VolatilityRegime {
-  regime: "normal" | "elevated" | "extreme"
-  suggestedRiskPct: number
-  atrRatio: number
-}
-
-function computeVolatilityRegime(candles4h: Candle[]): VolatilityRegime {
-  if (candles4h.length < 84) return { regime: "normal", suggestedRiskPct: 2.0, atrRatio: 1.0 }
-
-  // Current ATR: last 6 candles (24h)
-  const recent = candles4h.slice(-6)
-  let currentTR = 0
-  for (let i = 1; i < recent.length; i++) {
-    currentTR += Math.max(
-      recent[i].high - recent[i].low,
-      Math.abs(recent[i].high - recent[i - 1].close),
-      Math.abs(recent[i].low - recent[i - 1].close)
-    )
-  }
-  const currentATR = currentTR / (recent.length - 1)
-
-  // Average ATR: last 84 candles (14 days)
-  const last84 = candles4h.slice(-84)
-  let avgTR = 0
-  for (let i = 1; i < last84.length; i++) {
-    avgTR += Math.max(
-      last84[i].high - last84[i].low,
-      Math.abs(last84[i].high - last84[i - 1].close),
-      Math.abs(last84[i].low - last84[i - 1].close)
-    )
-  }
-  const avgATR = avgTR / (last84.length - 1)
-  const atrRatio = avgATR > 0 ? currentATR / avgATR : 1.0
-
-  if (atrRatio >= VOL_REGIME_EXTREME_THRESHOLD) {
-    return { regime: "extreme", suggestedRiskPct: 0.5, atrRatio }
-  }
-  if (atrRatio >= VOL_REGIME_ELEVATED_THRESHOLD) {
-    return { regime: "elevated", suggestedRiskPct: 1.0, atrRatio }
-  }
-  return { regime: "normal", suggestedRiskPct: 2.0, atrRatio }
-}
-
-// ─── Momentum Filter ─────────────────────────────────────────────────────────
-
-/**
- * Blocks shorts when price has rallied strongly in the last N daily candles (bounce in progress).
- * Blocks longs when price has dropped sharply in the last N daily candles (selloff in progress).
- * Prevents entering against active short-term momentum even when the larger trend "agrees".
- */
-function checkMomentumFilter(dailyCandles: Candle[], isBuy: boolean): boolean {
-  const lookback = 5   // 5 daily candles
-  const threshold = 5  // 5% move
-
-  if (dailyCandles.length < lookback + 1) return true  // Not enough data, allow
-
-  const current = dailyCandles[dailyCandles.length - 1].close
-  const past = dailyCandles[dailyCandles.length - 1 - lookback].close
-  const changePct = ((current - past) / past) * 100
-
-  // Block shorts during strong bounce (price up 5%+ in 5 days)
-  if (!isBuy && changePct >= threshold) return false
-
-  // Block longs during sharp selloff (price down 5%+ in 5 days)
-  if (isBuy && changePct <= -threshold) return false
-
-  return true
-}
-
-// ─── Bull Market Support Band ────────────────────────────────────────────────
-
-const BMSB_SMA_PERIOD = 140  // 20 weeks × 7 days
-const BMSB_EMA_PERIOD = 147  // 21 weeks × 7 days
-
-function calcSma(candles: Candle[], period: number): number | null {
-  if (candles.length < period) return null
-  let sum = 0
-  for (let i = candles.length - period; i < candles.length; i++) {
-    sum += candles[i].close
-  }
-  return sum / period
-}
-
-function checkBMSB(dailyCandles: Candle[], currentPrice: number, isBuy: boolean): boolean {
-  /**
-   * Bull Market Support Band: 20W SMA + 21W EMA
-   * Returns true if signal direction CONFLICTS with the macro regime (= counter-trend).
-   *
-   * Price ABOVE both → bullish → shorts are counter-trend
-   * Price BELOW both → bearish → longs are counter-trend
-   * Price BETWEEN → neutral → nothing is counter-trend
-   */
-  if (dailyCandles.length < BMSB_EMA_PERIOD) return false  // Not enough data, assume not counter-trend
-
-  const sma20w = calcSma(dailyCandles, BMSB_SMA_PERIOD)
-  const ema21w = calcEma(dailyCandles, BMSB_EMA_PERIOD)
-
-  if (sma20w === null || ema21w === null) return false
-
-  const bandTop = Math.max(sma20w, ema21w)
-  const bandBottom = Math.min(sma20w, ema21w)
-
-  if (currentPrice > bandTop) {
-    // Bullish regime — shorts are counter-trend
-    return !isBuy
-  } else if (currentPrice < bandBottom) {
-    // Bearish regime — longs are counter-trend
-    return isBuy
-  }
-  // In the band — neutral
-  return false
-}
-
-// ─── Volume Profile ─────────────────────────────────────────────────────────
-
-interface VolumeNode {
-  priceLow: number
-  priceHigh: number
-  priceMid: number
-  volume: number
-  relativeVolume: number
-}
-
-interface VolumeConfluenceResult {
-  has_volume_confluence: boolean
-  volume_node_count: number
-  max_relative_volume: number
-}
-
-function computeVolumeProfile(candles: Candle[], numBins = 50): VolumeNode[] {
-  if (candles.length < 20) return []
-
-  const highs = candles.map(c => c.high)
-  const lows = candles.map(c => c.low)
-  const priceMax = Math.max(...highs)
-  const priceMin = Math.min(...lows)
-  const range = priceMax - priceMin
-  if (range <= 0) return []
-
-  const binSize = range / numBins
-  const bins = new Array(numBins).fill(0)
-
-  // Distribute volume across bins using typical price
-  for (const c of candles) {
-    const typical = (c.high + c.low + c.close) / 3
-    const binIdx = Math.min(Math.floor((typical - priceMin) / binSize), numBins - 1)
-    bins[binIdx] += c.volume
-  }
-
-  const avgVol = bins.reduce((a, b) => a + b, 0) / numBins
-  if (avgVol <= 0) return []
-
-  // Return high-volume nodes (>1.5x average)
-  const nodes: VolumeNode[] = []
-  for (let i = 0; i < numBins; i++) {
-    const relVol = bins[i] / avgVol
-    if (relVol >= 1.5) {
-      nodes.push({
-        priceLow: priceMin + i * binSize,
-        priceHigh: priceMin + (i + 1) * binSize,
-        priceMid: priceMin + (i + 0.5) * binSize,
-        volume: bins[i],
-        relativeVolume: Math.round(relVol * 100) / 100,
-      })
-    }
-  }
-
-  return nodes
-}
-
-function checkVolumeConfluence(zone: ConfluenceZone, volumeNodes: VolumeNode[]): VolumeConfluenceResult {
-  const result: VolumeConfluenceResult = { has_volume_confluence: false, volume_node_count: 0, max_relative_volume: 0 }
-
-  for (const node of volumeNodes) {
-    // Check overlap: node range intersects zone range, or node mid is within 1% of zone mid
-    const overlaps = node.priceHigh >= zone.low && node.priceLow <= zone.high
-    const nearby = Math.abs(node.priceMid - zone.mid) / zone.mid < 0.01
-    if (overlaps || nearby) {
-      result.has_volume_confluence = true
-      result.volume_node_count++
-      result.max_relative_volume = Math.max(result.max_relative_volume, node.relativeVolume)
-    }
-  }
-
-  result.max_relative_volume = Math.round(result.max_relative_volume * 100) / 100
-  return result
-}
-
-// ─── Fair Value Gap Detection ────────────────────────────────────────────────
-
-/**
- * Detects unfilled Fair Value Gaps across multiple timeframes.
- * A bullish FVG: candle[i].low > candle[i-2].high (gap up — price moved up so fast it left a void)
- * A bearish FVG: candle[i].high < candle[i-2].low (gap down — price moved down so fast it left a void)
- * An FVG is "filled" once a subsequent candle closes through it.
- */
-function detectFairValueGaps(candles: Record<string, Candle[]>): FairValueGap[] {
-  const fvgs: FairValueGap[] = []
-  const tfConfigs: { tf: string; lookback: number }[] = [
-    { tf: "1h", lookback: 50 },
-    { tf: "4h", lookback: 50 },
-    { tf: "1d", lookback: 30 },
-  ]
-
-  for (const { tf, lookback } of tfConfigs) {
-    const tfCandles = candles[tf]
-    if (!tfCandles || tfCandles.length < 5) continue
-
-    const startIdx = Math.max(2, tfCandles.length - lookback)
-
-    for (let i = startIdx; i < tfCandles.length; i++) {
-      const prev2 = tfCandles[i - 2]
-      const mid = tfCandles[i - 1]
-      const curr = tfCandles[i]
-
-      // Bullish FVG: current candle's low is above the candle-two-ago's high
-      if (curr.low > prev2.high) {
-        const gapLow = prev2.high
-        const gapHigh = curr.low
-        const sizePct = (gapHigh - gapLow) / mid.close * 100
-
-        // Check if any subsequent candle filled the gap (closed below gapHigh into the gap)
-        let filled = false
-        for (let j = i + 1; j < tfCandles.length; j++) {
-          if (tfCandles[j].close <= gapLow) {
-            filled = true
-            break
-          }
-        }
-
-        if (!filled && sizePct >= 0.1) {
-          fvgs.push({
-            type: "bullish",
-            timeframe: tf,
-            high: gapHigh,
-            low: gapLow,
-            sizePct: Math.round(sizePct * 100) / 100,
-            candle_time: mid.open_time,
-          })
-        }
-      }
-
-      // Bearish FVG: current candle's high is below the candle-two-ago's low
-      if (curr.high < prev2.low) {
-        const gapHigh = prev2.low
-        const gapLow = curr.high
-        const sizePct = (gapHigh - gapLow) / mid.close * 100
-
-        // Check if any subsequent candle filled the gap (closed above gapLow into the gap)
-        let filled = false
-        for (let j = i + 1; j < tfCandles.length; j++) {
-          if (tfCandles[j].close >= gapHigh) {
-            filled = true
-            break
-          }
-        }
-
-        if (!filled && sizePct >= 0.1) {
-          fvgs.push({
-            type: "bearish",
-            timeframe: tf,
-            high: gapHigh,
-            low: gapLow,
-            sizePct: Math.round(sizePct * 100) / 100,
-            candle_time: mid.open_time,
-          })
-        }
-      }
-    }
-  }
-
-  return fvgs
-}
-
-/**
- * Checks if any unfilled FVG overlaps with a confluence zone and matches the trade direction.
- * Bullish FVG + support zone = confluence for longs.
- * Bearish FVG + resistance zone = confluence for shorts.
- * Returns the best match (highest timeframe wins).
- */
-function checkFVGConfluence(zone: ConfluenceZone, fvgs: FairValueGap[], isBuy: boolean): FVGConfluenceResult {
-  const result: FVGConfluenceResult = {
-    has_fvg_confluence: false,
-    best_timeframe: null,
-    fvg_type: null,
-    score_bonus: 0,
-    gap_size_pct: 0,
-  }
-
-  // Timeframe priority: 4h strongest edge (62% WR, 2.33 PF in backtest), 1d weaker, 1h marginal
-  const tfPriority: Record<string, number> = { "4h": 8, "1d": 4, "1h": 3 }
-  const margin = (zone.high - zone.low) * 0.5  // Allow half-zone-width overlap margin
-
-  for (const fvg of fvgs) {
-    // Direction must match: bullish FVG for longs (support), bearish FVG for shorts (resistance)
-    if (isBuy && fvg.type !== "bullish") continue
-    if (!isBuy && fvg.type !== "bearish") continue
-
-    // Check overlap: FVG range intersects zone range (with margin)
-    const overlaps = fvg.high >= (zone.low - margin) && fvg.low <= (zone.high + margin)
-    if (!overlaps) continue
-
-    const bonus = tfPriority[fvg.timeframe] ?? 4
-    // Wide gap bonus: +2 if gap is >= 1.5% of price
-    const wideBonus = fvg.sizePct >= 1.5 ? 2 : 0
-    const totalBonus = bonus + wideBonus
-
-    if (totalBonus > result.score_bonus) {
-      result.has_fvg_confluence = true
-      result.best_timeframe = fvg.timeframe
-      result.fvg_type = fvg.type
-      result.score_bonus = totalBonus
-      result.gap_size_pct = fvg.sizePct
-    }
-  }
-
-  return result
-}
-
-// ─── Composite Signal Scoring ───────────────────────────────────────────────
-
-function computeCompositeScore(params: {
-  zone: ConfluenceZone
-  candles4h: Candle[]
-  bounce: { confirmed: boolean; details: Record<string, boolean> }
-  volumeConfluence: VolumeConfluenceResult
-  fvgConfluence: FVGConfluenceResult
-  isBuy: boolean
-  rrRatio: number
-  counterTrend: boolean
-  fearGreedIndex?: number
-  btcRiskScore?: number
-}): number {
-  let score = 0
-
-  // 1. Confluence Depth (0-30 pts)
-  const strength = params.zone.strength
-  if (strength >= 4) score += 30
-  else if (strength >= 3) score += 20
-  else score += 10
-  // Multi-timeframe bonus
-  if (params.zone.tf_count >= 2) score += 5
-  score = Math.min(score, 35) // Cap this bucket
-
-  // 2. EMA Alignment Strength (0-20 pts)
-  if (params.candles4h.length >= EMA_SLOW_PERIOD + EMA_SLOPE_LOOKBACK) {
-    const emaFast = calcEma(params.candles4h, EMA_FAST_PERIOD)
-    const emaSlow = calcEma(params.candles4h, EMA_SLOW_PERIOD)
-    const emaSlowPrev = calcEma(params.candles4h.slice(0, -EMA_SLOPE_LOOKBACK), EMA_SLOW_PERIOD)
-
-    if (emaFast !== null && emaSlow !== null && emaSlowPrev !== null) {
-      const price = params.candles4h[params.candles4h.length - 1].close
-      const spread = Math.abs(emaFast - emaSlow) / emaSlow * 100
-      const slopeStrength = Math.abs(emaSlow - emaSlowPrev) / emaSlowPrev * 100
-
-      // Directional alignment
-      const aligned = params.isBuy ? emaFast > emaSlow : emaFast < emaSlow
-      if (aligned) {
-        score += 10
-        if (spread > 1.0) score += 5
-        if (slopeStrength > 0.3) score += 5
-      } else {
-        // Pullback to EMA scenario — partial credit
-        if (Math.abs(price - emaSlow) / emaSlow < EMA_PULLBACK_TOLERANCE) score += 8
-      }
-    }
-  }
-
-  // 3. Volume Confirmation Quality (0-20 pts)
-  let volScore = 0
-  if (params.bounce.details.wick_rejection) volScore += 8
-  if (params.bounce.details.volume_spike) volScore += 8
-  if (params.bounce.details.consecutive_closes) volScore += 8
-  if (params.volumeConfluence.has_volume_confluence) volScore += 4
-  score += Math.min(volScore, 20)
-
-  // 4. Risk/Reward (0-15 pts)
-  if (params.rrRatio >= 3.0) score += 15
-  else if (params.rrRatio >= 2.0) score += 10
-  else score += 5
-
-  // 5. Macro/Context (0-15 pts)
-  let macroScore = 10 // Base
-  if (params.counterTrend) macroScore -= 10
-  // F&G bonus: extreme fear is bullish for longs, extreme greed for shorts
-  if (params.fearGreedIndex !== undefined) {
-    if (params.isBuy && params.fearGreedIndex < 25) macroScore += 3
-    else if (!params.isBuy && params.fearGreedIndex > 75) macroScore += 3
-  }
-  score += Math.max(0, Math.min(macroScore, 15))
-
-  // 6. Fair Value Gap Confluence (0-10 pts)
-  // FVG overlapping the zone = institutional imbalance confirmation
-  // 1D: +8, 4H: +6, 1H: +4, wide gap (>=1.5%): +2 extra
-  if (params.fvgConfluence.has_fvg_confluence) {
-    score += params.fvgConfluence.score_bonus
-  }
-
-  return Math.min(Math.max(score, 0), 105)  // Max now 105 → clamped to 100 at caller
-}
-
-// ─── Composite Score v2 (SHADOW — drives nothing) ────────────────────────────
-//
-// v1 above proved anti-predictive across 229 closed trades: its 80+ bucket won
-// 40.5% (-0.50 expectancy) while its sub-65 bucket won 60.6%. Component-level
-// analysis showed why — v1's biggest rewards go to inputs that don't work:
-//
-//   counter_trend      v1: -10 penalty | reality: the only +EV group (+0.235)
-//   wick_rejection     v1: +8          | reality: 41% win, -0.361
-//   consecutive_closes v1: +8          | reality: 35% win, -0.507
-//   risk_reward >= 3   v1: +15 (max)   | reality: 12.5% win, -1.453
-//   volume_spike       v1: +8          | reality: 58.8% win, +0.161  ✓
-//   volume_confluence  v1: +4 (min)    | reality: 58.0% vs 44.8% win ✓ strongest
-//
-// v2 keeps only what separated outcomes. Its value is mostly at the BOTTOM: the
-// sub-35 band covered 64 trades averaging -0.71%, so it's better at telling you
-// what to avoid than what to chase.
-//
-// IMPORTANT: these weights were fitted on the same history used to judge them,
-// so this is a hypothesis, not a validated model. It is stored for comparison
-// only and must beat v1 out-of-sample on fresh signals before it influences
-// ranking, filtering, or anything shown to members.
-function computeCompositeScoreV2(params: {
-  volumeConfluence: VolumeConfluenceResult
-  bounce: { confirmed: boolean; details: Record<string, boolean> }
-  rrRatio: number
-  counterTrend: boolean
-}): number {
-  let score = 0
-
-  // Cleanest discriminator in the data — weighted far above v1's 4 points.
-  if (params.volumeConfluence.has_volume_confluence) score += 25
-
-  // The one bounce-confirmation input that actually predicted anything.
-  if (params.bounce.details.volume_spike) score += 20
-
-  // Mid-range R:R was the sweet spot (62.1% win, +0.300). Very high R:R means
-  // the target is too far or the stop too tight — it rarely fills, so it earns
-  // nothing rather than v1's maximum award.
-  if (params.rrRatio >= 3) score += 0
-  else if (params.rrRatio >= 2) score += 20
-  else score += 10
-
-  // v1 penalised this by 10; historically it was the only positive-expectancy
-  // group. Given the thin sample (n=36) it gets a modest credit, not a big one.
-  if (params.counterTrend) score += 10
-
-  return Math.min(Math.max(score, 0), 100)
-}
-
-// ─── Bounce Confirmation ─────────────────────────────────────────────────────
-
-function checkBounce(
-  candles: Candle[],
-  zoneLow: number,
-  zoneHigh: number,
-  isBuy: boolean,
-): { confirmed: boolean; details: Record<string, boolean> } {
-  const details: Record<string, boolean> = { wick_rejection: false, volume_spike: false, consecutive_closes: false, momentum_breakout: false }
-
-  if (candles.length < 3) return { confirmed: false, details }
-
-  // First verify a recent candle actually touched/penetrated the zone (last 6 candles)
-  const recentCandles = candles.slice(-6)
-  const zoneMargin = (zoneHigh - zoneLow) * 0.5  // allow half-zone-width margin
-  let zoneTouched = false
-  if (isBuy) {
-    zoneTouched = recentCandles.some(c => c.low <= zoneHigh + zoneMargin)
-  } else {
-    zoneTouched = recentCandles.some(c => c.high >= zoneLow - zoneMargin)
-  }
-  if (!zoneTouched) return { confirmed: false, details }
-
-  // Check last 3 candles for bounce confirmation (not just the latest).
-  // A bounce that happened 1-2 candles ago is still a valid setup —
-  // the old code only checked the single most recent candle, which missed
-  // bounces that occurred between pipeline runs.
-  const checkWindow = candles.slice(-3)
-
-  for (const candle of checkWindow) {
-    if (isBuy) {
-      const body = Math.abs(candle.close - candle.open)
-      const lowerWick = Math.min(candle.open, candle.close) - candle.low
-      if (lowerWick >= WICK_REJECTION_RATIO * Math.max(body, 0.001)
-          && candle.low <= zoneHigh + zoneMargin
-          && candle.close > zoneLow) {
-        details.wick_rejection = true
-      }
-    } else {
-      const body = Math.abs(candle.close - candle.open)
-      const upperWick = candle.high - Math.max(candle.open, candle.close)
-      if (upperWick >= WICK_REJECTION_RATIO * Math.max(body, 0.001)
-          && candle.high >= zoneLow - zoneMargin
-          && candle.close < zoneHigh) {
-        details.wick_rejection = true
-      }
-    }
-  }
-
-  // Consecutive closes: check latest + prev
-  const latest = candles[candles.length - 1]
-  const prev = candles[candles.length - 2]
-  if (isBuy) {
-    if (latest.close > zoneHigh && prev.close > zoneHigh && prev.low <= zoneHigh) {
-      details.consecutive_closes = true
-    }
-  } else {
-    if (latest.close < zoneLow && prev.close < zoneLow && prev.high >= zoneLow) {
-      details.consecutive_closes = true
-    }
-  }
-
-  // Volume spike — check last 3 candles against 20-candle average
-  const volBaseline = candles.slice(-23, -3)
-  if (volBaseline.length >= 10) {
-    const avgVol = volBaseline.reduce((sum, c) => sum + c.volume, 0) / volBaseline.length
-    if (avgVol > 0) {
-      for (const candle of checkWindow) {
-        if (candle.volume >= VOLUME_SPIKE_RATIO * avgVol) {
-          details.volume_spike = true
-          break
-        }
-      }
-    }
-  }
-
-  // Momentum breakout: in trending markets, price pushes through zones with strong closes
-  // rather than wicking off them. Accept a strong directional close through the zone.
-  let momentum_breakout = false
-  const latestCandle = candles[candles.length - 1]
-  const body = Math.abs(latestCandle.close - latestCandle.open)
-  const range = latestCandle.high - latestCandle.low
-  const bodyRatio = range > 0 ? body / range : 0
-  if (bodyRatio >= 0.6) { // Strong directional candle (body ≥ 60% of range)
-    if (isBuy && latestCandle.close > latestCandle.open && latestCandle.close > zoneHigh) {
-      momentum_breakout = true
-    } else if (!isBuy && latestCandle.close < latestCandle.open && latestCandle.close < zoneLow) {
-      momentum_breakout = true
-    }
-  }
-  details.momentum_breakout = momentum_breakout
-
-  return { confirmed: details.wick_rejection || details.volume_spike || details.consecutive_closes || details.momentum_breakout, details }
-}
-
-// ─── Targets & Stop Loss ─────────────────────────────────────────────────────
-
-function computeTargetsAndStop(
-  zone: ConfluenceZone,
-  allFibPrices: number[],
-  isBuy: boolean,
-): { target1: number; target2: number; stopLoss: number } | null {
-  const sorted = [...allFibPrices].sort((a, b) => a - b)
-  const zoneMid = zone.mid
-
-  // Minimum distance between T1 and T2 (1.5% of zone mid)
-  const minTargetGap = zoneMid * 0.015
-
-  if (isBuy) {
-    const levelsBelow = sorted.filter((p) => p < zone.low)
-    const nextDown = levelsBelow.length > 0 ? levelsBelow[levelsBelow.length - 1] : null
-    const stopLoss = nextDown ? nextDown * 0.995 : zoneMid * 0.985
-
-    const levelsAbove = sorted.filter((p) => p > zone.high)
-    const target1 = levelsAbove.length > 0 ? levelsAbove[0] : zoneMid * 1.03
-    // T2 must be meaningfully above T1
-    const t2Candidate = levelsAbove.find((p) => p > target1 + minTargetGap)
-    const target2 = t2Candidate ?? target1 * 1.03
-
-    return { target1, target2, stopLoss }
-  } else {
-    const levelsAbove = sorted.filter((p) => p > zone.high)
-    const nextUp = levelsAbove.length > 0 ? levelsAbove[0] : null
-    const stopLoss = nextUp ? nextUp * 1.005 : zoneMid * 1.015
-
-    const levelsBelow = sorted.filter((p) => p < zone.low).reverse()
-    const target1 = levelsBelow.length > 0 ? levelsBelow[0] : zoneMid * 0.97
-    // T2 must be meaningfully below T1
-    const t2Candidate = levelsBelow.find((p) => p < target1 - minTargetGap)
-    const target2 = t2Candidate ?? target1 * 0.97
-
-    return { target1, target2, stopLoss }
-  }
-}
-
-// ─── Chart Pattern Detection ────────────────────────────────────────────────
-
-const PATTERN_MIN_CONFIDENCE = 40
-
-function detectChartPattern(
-  candles: Record<string, Candle[]>,
-  swings: Record<string, SwingPoint[]>,
-): ChartPattern | null {
-  const allPatterns: ChartPattern[] = []
-
-  for (const tf of ["4h", "1d"] as const) {
-    const tfSwings = swings[tf] ?? []
-    const tfCandles = candles[tf] ?? []
-    if (tfSwings.length < 3) continue
-
-    // Separate and sort by time (most recent first)
-    const highs = tfSwings
-      .filter(s => s.type === "high")
-      .sort((a, b) => new Date(b.candle_time).getTime() - new Date(a.candle_time).getTime())
-    const lows = tfSwings
-      .filter(s => s.type === "low")
-      .sort((a, b) => new Date(b.candle_time).getTime() - new Date(a.candle_time).getTime())
-
-    // ── Reversal Patterns ──
-
-    // Double Top: 2 recent highs within 2% with a valley between
-    if (highs.length >= 2) {
-      const [h1, h2] = highs
-      const pctDiff = Math.abs(h1.price - h2.price) / Math.max(h1.price, h2.price) * 100
-      if (pctDiff <= 2.0) {
-        // Find a low between the two highs
-        const h1Time = new Date(h1.candle_time).getTime()
-        const h2Time = new Date(h2.candle_time).getTime()
-        const minTime = Math.min(h1Time, h2Time)
-        const maxTime = Math.max(h1Time, h2Time)
-        const valleyBetween = lows.find(l => {
-          const lt = new Date(l.candle_time).getTime()
-          return lt > minTime && lt < maxTime
-        })
-        if (valleyBetween) {
-          const neckline = valleyBetween.price
-          const peakAvg = (h1.price + h2.price) / 2
-          const measuredMove = peakAvg - neckline
-          let conf = 55
-          if (pctDiff <= 1.0) conf += 10
-          if (valleyBetween.reversal_pct >= 3) conf += 10
-          // Volume confirmation: check if volume decreasing on second peak
-          if (tfCandles.length > 10) {
-            const h1Idx = tfCandles.findIndex(c => c.open_time === h1.candle_time)
-            const h2Idx = tfCandles.findIndex(c => c.open_time === h2.candle_time)
-            if (h1Idx >= 0 && h2Idx >= 0) {
-              const h1Vol = tfCandles[h1Idx].volume
-              const h2Vol = tfCandles[h2Idx].volume
-              if (h2Vol < h1Vol * 0.85) conf += 10 // Lower volume on second peak = stronger
-            }
-          }
-          allPatterns.push({
-            name: "Bearish Double Top",
-            type: "reversal",
-            bias: "bearish",
-            timeframe: tf,
-            confidence: Math.min(conf, 95),
-            description: `Two swing highs within ${pctDiff.toFixed(1)}% of each other with a valley at ${neckline.toFixed(2)}. Breakdown below neckline targets ${(neckline - measuredMove).toFixed(2)}.`,
-            neckline,
-            target: neckline - measuredMove,
-          })
-        }
-      }
-    }
-
-    // Double Bottom: 2 recent lows within 2% with a peak between
-    if (lows.length >= 2) {
-      const [l1, l2] = lows
-      const pctDiff = Math.abs(l1.price - l2.price) / Math.min(l1.price, l2.price) * 100
-      if (pctDiff <= 2.0) {
-        const l1Time = new Date(l1.candle_time).getTime()
-        const l2Time = new Date(l2.candle_time).getTime()
-        const minTime = Math.min(l1Time, l2Time)
-        const maxTime = Math.max(l1Time, l2Time)
-        const peakBetween = highs.find(h => {
-          const ht = new Date(h.candle_time).getTime()
-          return ht > minTime && ht < maxTime
-        })
-        if (peakBetween) {
-          const neckline = peakBetween.price
-          const troughAvg = (l1.price + l2.price) / 2
-          const measuredMove = neckline - troughAvg
-          let conf = 55
-          if (pctDiff <= 1.0) conf += 10
-          if (peakBetween.reversal_pct >= 3) conf += 10
-          if (tfCandles.length > 10) {
-            const l1Idx = tfCandles.findIndex(c => c.open_time === l1.candle_time)
-            const l2Idx = tfCandles.findIndex(c => c.open_time === l2.candle_time)
-            if (l1Idx >= 0 && l2Idx >= 0) {
-              const l1Vol = tfCandles[l1Idx].volume
-              const l2Vol = tfCandles[l2Idx].volume
-              if (l2Vol < l1Vol * 0.85) conf += 10
-            }
-          }
-          allPatterns.push({
-            name: "Bullish Double Bottom",
-            type: "reversal",
-            bias: "bullish",
-            timeframe: tf,
-            confidence: Math.min(conf, 95),
-            description: `Two swing lows within ${pctDiff.toFixed(1)}% of each other with a peak at ${neckline.toFixed(2)}. Breakout above neckline targets ${(neckline + measuredMove).toFixed(2)}.`,
-            neckline,
-            target: neckline + measuredMove,
-          })
-        }
-      }
-    }
-
-    // Triple Top: 3 highs within 2%
-    if (highs.length >= 3) {
-      const [h1, h2, h3] = highs
-      const avgPrice = (h1.price + h2.price + h3.price) / 3
-      const maxDev = Math.max(
-        Math.abs(h1.price - avgPrice),
-        Math.abs(h2.price - avgPrice),
-        Math.abs(h3.price - avgPrice),
-      ) / avgPrice * 100
-      if (maxDev <= 2.0) {
-        const lowestValley = Math.min(
-          ...lows.filter(l => {
-            const lt = new Date(l.candle_time).getTime()
-            const oldest = Math.min(
-              new Date(h1.candle_time).getTime(),
-              new Date(h2.candle_time).getTime(),
-              new Date(h3.candle_time).getTime(),
-            )
-            const newest = Math.max(
-              new Date(h1.candle_time).getTime(),
-              new Date(h2.candle_time).getTime(),
-              new Date(h3.candle_time).getTime(),
-            )
-            return lt >= oldest && lt <= newest
-          }).map(l => l.price)
-        )
-        const neckline = isFinite(lowestValley) ? lowestValley : avgPrice * 0.97
-        const measuredMove = avgPrice - neckline
-        allPatterns.push({
-          name: "Bearish Triple Top",
-          type: "reversal",
-          bias: "bearish",
-          timeframe: tf,
-          confidence: Math.min(70 + (maxDev <= 1.0 ? 10 : 0), 95),
-          description: `Three swing highs clustered near ${avgPrice.toFixed(2)} forming strong resistance. Breakdown below ${neckline.toFixed(2)} targets ${(neckline - measuredMove).toFixed(2)}.`,
-          neckline,
-          target: neckline - measuredMove,
-        })
-      }
-    }
-
-    // Triple Bottom: 3 lows within 2%
-    if (lows.length >= 3) {
-      const [l1, l2, l3] = lows
-      const avgPrice = (l1.price + l2.price + l3.price) / 3
-      const maxDev = Math.max(
-        Math.abs(l1.price - avgPrice),
-        Math.abs(l2.price - avgPrice),
-        Math.abs(l3.price - avgPrice),
-      ) / avgPrice * 100
-      if (maxDev <= 2.0) {
-        const highestPeak = Math.max(
-          ...highs.filter(h => {
-            const ht = new Date(h.candle_time).getTime()
-            const oldest = Math.min(
-              new Date(l1.candle_time).getTime(),
-              new Date(l2.candle_time).getTime(),
-              new Date(l3.candle_time).getTime(),
-            )
-            const newest = Math.max(
-              new Date(l1.candle_time).getTime(),
-              new Date(l2.candle_time).getTime(),
-              new Date(l3.candle_time).getTime(),
-            )
-            return ht >= oldest && ht <= newest
-          }).map(h => h.price)
-        )
-        const neckline = isFinite(highestPeak) ? highestPeak : avgPrice * 1.03
-        const measuredMove = neckline - avgPrice
-        allPatterns.push({
-          name: "Bullish Triple Bottom",
-          type: "reversal",
-          bias: "bullish",
-          timeframe: tf,
-          confidence: Math.min(70 + (maxDev <= 1.0 ? 10 : 0), 95),
-          description: `Three swing lows clustered near ${avgPrice.toFixed(2)} forming strong support. Breakout above ${neckline.toFixed(2)} targets ${(neckline + measuredMove).toFixed(2)}.`,
-          neckline,
-          target: neckline + measuredMove,
-        })
-      }
-    }
-
-    // Head and Shoulders (bearish reversal): 3 highs, middle highest, outer 2 within 5%
-    if (highs.length >= 3) {
-      // Sort by time ascending for left-head-right order
-      const chronoHighs = [...highs].sort((a, b) => new Date(a.candle_time).getTime() - new Date(b.candle_time).getTime())
-      for (let i = 0; i <= chronoHighs.length - 3; i++) {
-        const left = chronoHighs[i]
-        const head = chronoHighs[i + 1]
-        const right = chronoHighs[i + 2]
-        if (head.price > left.price && head.price > right.price) {
-          const shoulderDiff = Math.abs(left.price - right.price) / Math.max(left.price, right.price) * 100
-          if (shoulderDiff <= 5.0) {
-            // Find lows between left-head and head-right for neckline
-            const leftTime = new Date(left.candle_time).getTime()
-            const headTime = new Date(head.candle_time).getTime()
-            const rightTime = new Date(right.candle_time).getTime()
-            const trough1 = lows.find(l => {
-              const lt = new Date(l.candle_time).getTime()
-              return lt > leftTime && lt < headTime
-            })
-            const trough2 = lows.find(l => {
-              const lt = new Date(l.candle_time).getTime()
-              return lt > headTime && lt < rightTime
-            })
-            if (trough1 && trough2) {
-              const neckline = (trough1.price + trough2.price) / 2
-              const measuredMove = head.price - neckline
-              let conf = 60
-              if (shoulderDiff <= 2.5) conf += 10
-              if (measuredMove / head.price * 100 >= 5) conf += 5
-              allPatterns.push({
-                name: "Bearish Head and Shoulders",
-                type: "reversal",
-                bias: "bearish",
-                timeframe: tf,
-                confidence: Math.min(conf, 95),
-                description: `Head at ${head.price.toFixed(2)} with shoulders at ${left.price.toFixed(2)} and ${right.price.toFixed(2)}. Neckline at ${neckline.toFixed(2)}, measured move targets ${(neckline - measuredMove).toFixed(2)}.`,
-                neckline,
-                target: neckline - measuredMove,
-              })
-            }
-            break // Only detect the most recent H&S
-          }
-        }
-      }
-    }
-
-    // Inverse Head and Shoulders (bullish reversal): 3 lows, middle lowest, outer 2 within 5%
-    if (lows.length >= 3) {
-      const chronoLows = [...lows].sort((a, b) => new Date(a.candle_time).getTime() - new Date(b.candle_time).getTime())
-      for (let i = 0; i <= chronoLows.length - 3; i++) {
-        const left = chronoLows[i]
-        const head = chronoLows[i + 1]
-        const right = chronoLows[i + 2]
-        if (head.price < left.price && head.price < right.price) {
-          const shoulderDiff = Math.abs(left.price - right.price) / Math.min(left.price, right.price) * 100
-          if (shoulderDiff <= 5.0) {
-            const leftTime = new Date(left.candle_time).getTime()
-            const headTime = new Date(head.candle_time).getTime()
-            const rightTime = new Date(right.candle_time).getTime()
-            const peak1 = highs.find(h => {
-              const ht = new Date(h.candle_time).getTime()
-              return ht > leftTime && ht < headTime
-            })
-            const peak2 = highs.find(h => {
-              const ht = new Date(h.candle_time).getTime()
-              return ht > headTime && ht < rightTime
-            })
-            if (peak1 && peak2) {
-              const neckline = (peak1.price + peak2.price) / 2
-              const measuredMove = neckline - head.price
-              let conf = 60
-              if (shoulderDiff <= 2.5) conf += 10
-              if (measuredMove / head.price * 100 >= 5) conf += 5
-              allPatterns.push({
-                name: "Bullish Inverse Head and Shoulders",
-                type: "reversal",
-                bias: "bullish",
-                timeframe: tf,
-                confidence: Math.min(conf, 95),
-                description: `Head at ${head.price.toFixed(2)} with shoulders at ${left.price.toFixed(2)} and ${right.price.toFixed(2)}. Neckline at ${neckline.toFixed(2)}, measured move targets ${(neckline + measuredMove).toFixed(2)}.`,
-                neckline,
-                target: neckline + measuredMove,
-              })
-            }
-            break
-          }
-        }
-      }
-    }
-
-    // Rising Wedge (bearish): higher highs AND higher lows, converging
-    if (highs.length >= 3 && lows.length >= 3) {
-      const chronoHighs = [...highs].sort((a, b) => new Date(a.candle_time).getTime() - new Date(b.candle_time).getTime()).slice(-4)
-      const chronoLows = [...lows].sort((a, b) => new Date(a.candle_time).getTime() - new Date(b.candle_time).getTime()).slice(-4)
-
-      if (chronoHighs.length >= 3 && chronoLows.length >= 3) {
-        const highsRising = chronoHighs.every((h, i) => i === 0 || h.price > chronoHighs[i - 1].price)
-        const lowsRising = chronoLows.every((l, i) => i === 0 || l.price > chronoLows[i - 1].price)
-
-        if (highsRising && lowsRising) {
-          // Check convergence: rate of rise for lows > rate of rise for highs
-          const highSlope = (chronoHighs[chronoHighs.length - 1].price - chronoHighs[0].price) / chronoHighs[0].price
-          const lowSlope = (chronoLows[chronoLows.length - 1].price - chronoLows[0].price) / chronoLows[0].price
-          if (lowSlope > highSlope && highSlope > 0) {
-            const convergenceRatio = lowSlope / Math.max(highSlope, 0.001)
-            let conf = 50
-            if (convergenceRatio >= 1.5) conf += 10
-            if (chronoHighs.length >= 4) conf += 5
-            if (chronoLows.length >= 4) conf += 5
-            allPatterns.push({
-              name: "Bearish Rising Wedge",
-              type: "reversal",
-              bias: "bearish",
-              timeframe: tf,
-              confidence: Math.min(conf, 95),
-              description: `Higher highs and higher lows converging, with support rising faster than resistance. Typically resolves with a breakdown below the lower trendline.`,
-            })
-          }
-        }
-      }
-    }
-
-    // Falling Wedge (bullish): lower lows AND lower highs, converging
-    if (highs.length >= 3 && lows.length >= 3) {
-      const chronoHighs = [...highs].sort((a, b) => new Date(a.candle_time).getTime() - new Date(b.candle_time).getTime()).slice(-4)
-      const chronoLows = [...lows].sort((a, b) => new Date(a.candle_time).getTime() - new Date(b.candle_time).getTime()).slice(-4)
-
-      if (chronoHighs.length >= 3 && chronoLows.length >= 3) {
-        const highsFalling = chronoHighs.every((h, i) => i === 0 || h.price < chronoHighs[i - 1].price)
-        const lowsFalling = chronoLows.every((l, i) => i === 0 || l.price < chronoLows[i - 1].price)
-
-        if (highsFalling && lowsFalling) {
-          const highSlope = (chronoHighs[0].price - chronoHighs[chronoHighs.length - 1].price) / chronoHighs[0].price
-          const lowSlope = (chronoLows[0].price - chronoLows[chronoLows.length - 1].price) / chronoLows[0].price
-          if (highSlope > lowSlope && lowSlope > 0) {
-            const convergenceRatio = highSlope / Math.max(lowSlope, 0.001)
-            let conf = 50
-            if (convergenceRatio >= 1.5) conf += 10
-            if (chronoHighs.length >= 4) conf += 5
-            if (chronoLows.length >= 4) conf += 5
-            allPatterns.push({
-              name: "Bullish Falling Wedge",
-              type: "reversal",
-              bias: "bullish",
-              timeframe: tf,
-              confidence: Math.min(conf, 95),
-              description: `Lower highs and lower lows converging, with resistance falling faster than support. Typically resolves with a breakout above the upper trendline.`,
-            })
-          }
-        }
-      }
-    }
-
-    // ── Continuation Patterns ──
-
-    // Bull/Bear Flag: strong impulse followed by narrow counter-trend consolidation
-    if (tfCandles.length >= 15) {
-      const recent = tfCandles.slice(-15)
-      // Check for impulse in first 5 candles
-      const impulseCandles = recent.slice(0, 5)
-      const impulseStart = impulseCandles[0].open
-      const impulseEnd = impulseCandles[impulseCandles.length - 1].close
-      const impulsePct = ((impulseEnd - impulseStart) / impulseStart) * 100
-
-      const consolidationCandles = recent.slice(5)
-      const consolHigh = Math.max(...consolidationCandles.map(c => c.high))
-      const consolLow = Math.min(...consolidationCandles.map(c => c.low))
-      const consolRange = ((consolHigh - consolLow) / consolLow) * 100
-
-      if (Math.abs(impulsePct) > 5) {
-        const isBullImpulse = impulsePct > 0
-        // Retracement: how much of the impulse did the consolidation give back?
-        const retracement = isBullImpulse
-          ? ((impulseEnd - consolLow) / (impulseEnd - impulseStart)) * 100
-          : ((consolHigh - impulseEnd) / (impulseStart - impulseEnd)) * 100
-
-        if (retracement >= 3 && retracement <= 50 && consolRange < Math.abs(impulsePct) * 0.6) {
-          let conf = 50
-          if (retracement >= 10 && retracement <= 38.2) conf += 15 // Ideal flag retracement
-          if (consolRange < Math.abs(impulsePct) * 0.4) conf += 10 // Tight consolidation
-          // Volume declining during consolidation
-          const impulseAvgVol = impulseCandles.reduce((s, c) => s + c.volume, 0) / impulseCandles.length
-          const consolAvgVol = consolidationCandles.reduce((s, c) => s + c.volume, 0) / consolidationCandles.length
-          if (consolAvgVol < impulseAvgVol * 0.7) conf += 10
-
-          const flagTarget = isBullImpulse
-            ? consolLow + (impulseEnd - impulseStart)
-            : consolHigh - (impulseStart - impulseEnd)
-
-          allPatterns.push({
-            name: isBullImpulse ? "Bullish Bull Flag" : "Bearish Bear Flag",
-            type: "continuation",
-            bias: isBullImpulse ? "bullish" : "bearish",
-            timeframe: tf,
-            confidence: Math.min(conf, 95),
-            description: `${Math.abs(impulsePct).toFixed(1)}% impulse move followed by ${consolRange.toFixed(1)}% consolidation range with ${retracement.toFixed(1)}% retracement. Flag target at ${flagTarget.toFixed(2)}.`,
-            target: flagTarget,
-          })
-        }
-      }
-    }
-
-    // Ascending Triangle: flat resistance + rising support
-    if (highs.length >= 2 && lows.length >= 3) {
-      const recentHighs = highs.slice(0, 3)
-      const recentLows = [...lows.slice(0, 4)].sort((a, b) => new Date(a.candle_time).getTime() - new Date(b.candle_time).getTime())
-
-      const highAvg = recentHighs.reduce((s, h) => s + h.price, 0) / recentHighs.length
-      const highMaxDev = Math.max(...recentHighs.map(h => Math.abs(h.price - highAvg) / highAvg * 100))
-
-      // Flat resistance: highs within 1.5% of each other
-      if (highMaxDev <= 1.5 && recentLows.length >= 3) {
-        // Rising support: each successive low is higher
-        const risingLows = recentLows.every((l, i) => i === 0 || l.price >= recentLows[i - 1].price * 0.995)
-        if (risingLows) {
-          const resistance = highAvg
-          const height = resistance - recentLows[0].price
-          let conf = 55
-          if (recentHighs.length >= 3) conf += 10
-          if (recentLows.length >= 4) conf += 5
-          if (highMaxDev <= 0.75) conf += 5
-          allPatterns.push({
-            name: "Bullish Ascending Triangle",
-            type: "continuation",
-            bias: "bullish",
-            timeframe: tf,
-            confidence: Math.min(conf, 95),
-            description: `Flat resistance near ${resistance.toFixed(2)} with rising support. Breakout above resistance targets ${(resistance + height).toFixed(2)}.`,
-            neckline: resistance,
-            target: resistance + height,
-          })
-        }
-      }
-    }
-
-    // Descending Triangle: flat support + declining resistance
-    if (lows.length >= 2 && highs.length >= 3) {
-      const recentLows = lows.slice(0, 3)
-      const recentHighs = [...highs.slice(0, 4)].sort((a, b) => new Date(a.candle_time).getTime() - new Date(b.candle_time).getTime())
-
-      const lowAvg = recentLows.reduce((s, l) => s + l.price, 0) / recentLows.length
-      const lowMaxDev = Math.max(...recentLows.map(l => Math.abs(l.price - lowAvg) / lowAvg * 100))
-
-      if (lowMaxDev <= 1.5 && recentHighs.length >= 3) {
-        const fallingHighs = recentHighs.every((h, i) => i === 0 || h.price <= recentHighs[i - 1].price * 1.005)
-        if (fallingHighs) {
-          const support = lowAvg
-          const height = recentHighs[0].price - support
-          let conf = 55
-          if (recentLows.length >= 3) conf += 10
-          if (recentHighs.length >= 4) conf += 5
-          if (lowMaxDev <= 0.75) conf += 5
-          allPatterns.push({
-            name: "Bearish Descending Triangle",
-            type: "continuation",
-            bias: "bearish",
-            timeframe: tf,
-            confidence: Math.min(conf, 95),
-            description: `Flat support near ${support.toFixed(2)} with declining resistance. Breakdown below support targets ${(support - height).toFixed(2)}.`,
-            neckline: support,
-            target: support - height,
-          })
-        }
-      }
-    }
-
-    // Symmetrical Triangle: converging highs (lower) and lows (higher)
-    if (highs.length >= 3 && lows.length >= 3) {
-      const chronoHighs = [...highs.slice(0, 4)].sort((a, b) => new Date(a.candle_time).getTime() - new Date(b.candle_time).getTime())
-      const chronoLows = [...lows.slice(0, 4)].sort((a, b) => new Date(a.candle_time).getTime() - new Date(b.candle_time).getTime())
-
-      if (chronoHighs.length >= 3 && chronoLows.length >= 3) {
-        const lowerHighs = chronoHighs.every((h, i) => i === 0 || h.price <= chronoHighs[i - 1].price * 1.005)
-        const higherLows = chronoLows.every((l, i) => i === 0 || l.price >= chronoLows[i - 1].price * 0.995)
-
-        if (lowerHighs && higherLows) {
-          const latestHigh = chronoHighs[chronoHighs.length - 1].price
-          const latestLow = chronoLows[chronoLows.length - 1].price
-          const height = chronoHighs[0].price - chronoLows[0].price
-
-          // Determine bias from prior trend using the oldest swing points
-          const priorTrendBullish = chronoLows[0].price < chronoHighs[0].price * 0.95
-          const bias = priorTrendBullish ? "bullish" : "bearish"
-
-          let conf = 50
-          if (chronoHighs.length >= 4) conf += 5
-          if (chronoLows.length >= 4) conf += 5
-          if (latestHigh - latestLow < height * 0.6) conf += 10 // Good convergence
-
-          allPatterns.push({
-            name: `${bias === "bullish" ? "Bullish" : "Bearish"} Symmetrical Triangle`,
-            type: "continuation",
-            bias,
-            timeframe: tf,
-            confidence: Math.min(conf, 95),
-            description: `Converging lower highs and higher lows forming a symmetrical triangle. Height of ${height.toFixed(2)} suggests a measured move of similar magnitude on breakout.`,
-            target: bias === "bullish" ? latestHigh + height : latestLow - height,
-          })
-        }
-      }
-    }
-  }
-
-  // Filter by minimum confidence and return the highest confidence pattern
-  const validPatterns = allPatterns.filter(p => p.confidence >= PATTERN_MIN_CONFIDENCE)
-  if (validPatterns.length === 0) return null
-
-  validPatterns.sort((a, b) => b.confidence - a.confidence)
-  return validPatterns[0]
+function sendSignalNotification(signalId: string, title: string, body: string): void {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? ""
+  const cronSecret = Deno.env.get("CRON_SECRET") ?? ""
+  const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+  fetch(`${supabaseUrl}/functions/v1/send-broadcast-notification`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${anonKey}`,
+      "x-cron-secret": cronSecret,
+    },
+    body: JSON.stringify({
+      broadcast_id: signalId,
+      title,
+      body,
+      event_type: "signal_new",
+      target_audience: { type: "all" },
+    }),
+  }).catch(() => {})
 }
 
-// ─── Signal Evaluation ───────────────────────────────────────────────────────
-
-async function evaluateSignals(
-  supabase: SupabaseClient,
-  ticker: string,
-  candles: Record<string, Candle[]>,
-  zones: ConfluenceZone[],
-  fibs: FibLevel[],
-  currentPrice: number,
-  volumeNodes: VolumeNode[] = [],
-  fearGreedIndex?: number,
-  btcRiskScore?: number,
-  swings?: Record<string, SwingPoint[]>,
-  tier: TierConfig = TIER_SWING,
-  adaptiveParams?: {
-    paused_assets: string[]
-    direction_bonus: Record<string, { long: number; short: number }>
-    min_rr: number
-    min_score: number
-    state: string
-    state_label: string
-  } | null,
-  btcVolRegime: VolatilityRegime = { regime: "normal", suggestedRiskPct: 2.0, atrRatio: 1.0 },
-  openSignalCounter: { total: number } = { total: 0 },
-): Promise<{ generated: number; skipped: number; skipReasons: string[] }> {
-  const stats = { generated: 0, skipped: 0, skipReasons: [] as string[] }
-  const trendCandles = candles[tier.trendTimeframe]
-  const candles4h = candles["4h"] ?? []
-
-  if (!trendCandles || trendCandles.length < EMA_SLOW_PERIOD + EMA_SLOPE_LOOKBACK) {
-    return stats
-  }
-
-  // Detect chart pattern for this asset (once per evaluation, shared across zones)
-  const chartPattern = swings ? detectChartPattern(candles, swings) : null
-
-  // Detect unfilled fair value gaps across all timeframes (once per asset, shared across zones)
-  const fvgs = detectFairValueGaps(candles)
-
-  const allFibPrices = fibs.map((f) => f.price)
-
-  // Detect market regime (choppy vs trending) — used to raise quality thresholds
-  const regime = detectMarketRegime(candles4h)
-  if (regime.isChoppy) {
-    console.log(`[${ticker}] Choppy market detected (spread=${regime.emaSpreadPct.toFixed(2)}%, crossovers=${regime.crossoverCount}, whipsaws=${regime.priceWhipsaws})`)
-  }
-  const choppyMinRR = MIN_RR_RATIO              // Same R:R in all markets — score filter handles quality
-  const choppyBounceThreshold = 1                 // Single bounce confirmation always sufficient
-
-  // Detect range compression (tight range + low volume = low conviction)
-  const compression = detectRangeCompression(candles4h)
-  if (compression.isCompressed) {
-    console.log(`[${ticker}] Range compressed (rangeRatio=${compression.rangeRatio.toFixed(2)}, volRatio=${compression.volumeRatio.toFixed(2)}, 24hRange=${compression.range24h.toFixed(4)}, ATR=${compression.atr14d.toFixed(4)})`)
-  }
-
-  // 12-hour cooldown per asset: allow two setups per day per asset
-  const cooldownCutoff = new Date(Date.now() - 12 * 60 * 60 * 1000).toISOString()
-  const { data: recentSignals } = await supabase
-    .from("trade_signals")
-    .select("id")
-    .eq("asset", ticker)
-    .eq("timeframe", tier.tierName)
-    .gte("generated_at", cooldownCutoff)
-    .limit(1)
-
-  if (recentSignals && recentSignals.length > 0) {
-    stats.skipReasons.push(`24h cooldown: signal already generated for ${ticker}`)
-    stats.skipped++
-    return stats
-  }
-
-  // Per-asset concurrent signal cap
-  const { count: assetOpenCount } = await supabase
-    .from("trade_signals")
-    .select("*", { count: "exact", head: true })
-    .eq("asset", ticker)
-    .in("status", ["active", "triggered"])
-  if ((assetOpenCount ?? 0) >= MAX_SIGNALS_PER_ASSET) {
-    console.log(`[${ticker}] Max ${MAX_SIGNALS_PER_ASSET} open signals — skipping [${tier.tierName}]`)
-    stats.skipReasons.push(`Max ${MAX_SIGNALS_PER_ASSET} open signals for ${ticker}`)
-    stats.skipped++
-    return stats
-  }
-
-  for (const zone of zones) {
-    const distancePct = Math.abs((currentPrice - zone.mid) / currentPrice) * 100
-    if (distancePct > tier.signalProximityPct) continue
-
-    // Check for existing active/triggered signal for this asset + direction
-    // Only one signal per asset per direction at a time — prevents overlapping trades
-    const isBuyZone = zone.zone_type === "support" || zone.zone_type === "demand"
-    const signalDirection = isBuyZone ? ["buy", "strong_buy"] : ["sell", "strong_sell"]
-    const { data: existing } = await supabase
-      .from("trade_signals")
-      .select("id")
-      .eq("asset", ticker)
-      .in("status", ["active", "triggered"])
-      .in("signal_type", signalDirection)
-      .limit(1)
-
-    if (existing && existing.length > 0) {
-      stats.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: active ${isBuyZone ? "long" : "short"} signal exists`)
-      stats.skipped++
-      continue
-    }
-
-    // Cross-tier dedup: if a swing (4h) signal already covers this zone, skip the scalp (1h) signal
-    if (tier.tierName === "1h") {
-      const { data: higherTf } = await supabase
-        .from("trade_signals")
-        .select("id")
-        .eq("asset", ticker)
-        .eq("timeframe", "4h")
-        .in("status", ["active", "triggered"])
-        .gte("entry_zone_low", zone.low * 0.985)
-        .lte("entry_zone_high", zone.high * 1.015)
-        .limit(1)
-      if (higherTf && higherTf.length > 0) {
-        stats.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: swing signal covers zone`)
-        stats.skipped++
-        continue
-      }
-    }
-
-    const isBuy = zone.zone_type === "support"
-
-    // Price position check: skip if price broke through the zone decisively
-    // For buy: skip if price dropped far below support (broken support)
-    // For sell: skip if price rose far above resistance (broken resistance)
-    const zonePastPct = 5.0
-    if (isBuy && currentPrice < zone.low * (1 - zonePastPct / 100)) {
-      console.log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): price broke below support`)
-      stats.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: price broke below support (price=${currentPrice.toFixed(2)})`)
-      stats.skipped++
-      continue
-    }
-    if (!isBuy && currentPrice > zone.high * (1 + zonePastPct / 100)) {
-      console.log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): price broke above resistance`)
-      stats.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: price broke above resistance (price=${currentPrice.toFixed(2)})`)
-      stats.skipped++
-      continue
-    }
-
-    // EMA trend filter — soft badge, not a hard block.
-    // Counter-trend signals still generate but are tagged for reduced sizing (0.5R).
-    const emaTrendAligned = checkTrendAlignment(trendCandles, isBuy)
-    if (!emaTrendAligned) {
-      console.log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): EMA misalign → counter-trend [${tier.tierName}]`)
-    }
-
-    // Bounce confirmation — check preferred timeframes in order
-    let bounce = { confirmed: false, details: { wick_rejection: false, volume_spike: false, consecutive_closes: false, momentum_breakout: false } as Record<string, boolean> }
-    for (const btf of tier.bounceTimeframes) {
-      const btfCandles = candles[btf] ?? []
-      if (btfCandles.length >= 3) {
-        const check = checkBounce(btfCandles.slice(-25), zone.low, zone.high, isBuy)
-        if (check.confirmed) {
-          bounce = check
-          break
-        }
-      }
-    }
-    // Trend override: when EMA trend is clearly aligned, the trend IS the confirmation.
-    // In trending markets, price doesn't wick off levels — it holds and continues.
-    if (!bounce.confirmed && emaTrendAligned) {
-      bounce = { confirmed: true, details: { wick_rejection: false, volume_spike: false, consecutive_closes: false, momentum_breakout: false, trend_override: true } }
-      console.log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): trend override — EMA aligned [${tier.tierName}]`)
-    }
-    if (!bounce.confirmed) {
-      console.log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): no bounce [${tier.tierName}]`)
-      stats.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: no bounce confirmation [${tier.tierName}]`)
-      stats.skipped++
-      continue
-    }
-
-    // In choppy markets, require stronger bounce confirmation (2 of 3 signals)
-    // Trend override and momentum breakout count as confirmation
-    if (regime.isChoppy) {
-      const bounceCount = (bounce.details.wick_rejection ? 1 : 0)
-        + (bounce.details.volume_spike ? 1 : 0)
-        + (bounce.details.consecutive_closes ? 1 : 0)
-        + (bounce.details.momentum_breakout ? 1 : 0)
-        + (bounce.details.trend_override ? 1 : 0)
-        + (bounce.details.proximity_only ? 1 : 0)
-      if (bounceCount < choppyBounceThreshold) {
-        console.log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): choppy market — weak bounce (${bounceCount}/3) [${tier.tierName}]`)
-        stats.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: choppy market, weak bounce (${bounceCount}/${choppyBounceThreshold} needed)`)
-        stats.skipped++
-        continue
-      }
-    }
-
-    // EMA Slope Regime Filter — soft badge (Low Conviction), not a hard block
-    const slopeRegime = checkEMASlopeRegime(candles4h, isBuy)
-    const lowConviction = !slopeRegime.allowed
-    if (lowConviction) {
-      console.log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): LOW CONVICTION — flat 50 EMA slope (${slopeRegime.slopePct.toFixed(2)}%) [${tier.tierName}]`)
-    }
-
-    // Targets and stop
-    const targets = computeTargetsAndStop(zone, allFibPrices, isBuy)
-    if (!targets) continue
-
-    // Entry is the confluence zone we PUBLISH, not spot at detection. Using
-    // spot meant the app displayed one entry (the zone) and traded another,
-    // and once price ran past the zone the stop could land on the wrong side
-    // of the stated entry. Anchoring here keeps entry, stop, targets and R:R
-    // consistent with what the member actually sees.
-    if (isBuy ? currentPrice > zone.high : currentPrice < zone.low) {
-      const reason = `price ${currentPrice} already past entry zone ${zone.low.toFixed(4)}–${zone.high.toFixed(4)}`
-      console.log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): ${reason}`)
-      stats.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: ${reason}`)
-      stats.skipped++
-      continue
-    }
-
-    const entryMid = zone.mid
-    const riskDist = Math.abs(entryMid - targets.stopLoss)
-    const rewardDist = Math.abs(targets.target1 - entryMid)
-    const rrRatio = riskDist > 0 ? rewardDist / riskDist : 0
-
-    // R:R quality gate — don't surface bad risk/reward to users
-    const adaptiveMinRR = Math.min(adaptiveParams?.min_rr ?? MIN_RR_RATIO, MIN_RR_RATIO)
-    const effectiveMinRR = Math.max(regime.isChoppy ? choppyMinRR : adaptiveMinRR, adaptiveMinRR)
-    if (rrRatio < effectiveMinRR) {
-      const reason = `R:R ${rrRatio.toFixed(2)} < ${effectiveMinRR}`
-      console.log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): ${reason}`)
-      stats.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: ${reason}`)
-      stats.skipped++
-      continue
-    }
-
-    const isStrong = rrRatio >= STRONG_MIN_RR_RATIO && zone.strength >= STRONG_MIN_CONFLUENCE
-    const signalType = isBuy
-      ? (isStrong ? "strong_buy" : "buy")
-      : (isStrong ? "strong_sell" : "sell")
-
-    // Counter-trend flag: EMA misalignment OR Bull Market Support Band regime
-    const counterTrend = !emaTrendAligned || checkBMSB(candles["1d"] ?? [], currentPrice, isBuy)
-
-    // Volume confluence check
-    const volConfluence = checkVolumeConfluence(zone, volumeNodes)
-
-    // Fair value gap confluence check
-    const fvgConfluence = checkFVGConfluence(zone, fvgs, isBuy)
-    if (fvgConfluence.has_fvg_confluence) {
-      console.log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): FVG confluence — ${fvgConfluence.fvg_type} ${fvgConfluence.best_timeframe} gap (${fvgConfluence.gap_size_pct}%), +${fvgConfluence.score_bonus} pts`)
-    }
-
-    // Composite signal score
-    let compositeScore = computeCompositeScore({
-      zone,
-      candles4h,
-      bounce,
-      volumeConfluence: volConfluence,
-      fvgConfluence,
-      isBuy,
-      rrRatio: rrRatio,
-      counterTrend,
-      fearGreedIndex,
-      btcRiskScore,
-    })
-
-    // Shadow score — recorded for out-of-sample comparison, drives nothing.
-    const compositeScoreV2 = computeCompositeScoreV2({
-      volumeConfluence: volConfluence,
-      bounce,
-      rrRatio,
-      counterTrend,
-    })
-
-    // Apply adaptive direction bonus
-    const dirBonus = adaptiveParams?.direction_bonus?.[ticker]
-    if (dirBonus) {
-      const bonus = isBuy ? dirBonus.long : dirBonus.short
-      compositeScore = Math.max(0, Math.min(100, compositeScore + bonus))
-    }
-
-    // Counter-trend penalty: mild score reduction when fighting the trend
-    if (!emaTrendAligned) {
-      compositeScore = Math.max(0, compositeScore - 3)
-    }
-
-    // Range compression penalty: reduce score in low-conviction environments
-    if (compression.isCompressed) {
-      compositeScore = Math.max(0, compositeScore - 5)
-    }
-
-    // Only publish signals meeting score threshold (default 55, adaptive can lower but not raise above 55)
-    const adaptiveScore = Math.min(adaptiveParams?.min_score ?? 55, 55)
-    const effectiveMinScore = adaptiveScore
-    if (compositeScore < effectiveMinScore) {
-      console.log(`[${ticker}] Zone ${zone.mid.toFixed(2)} (${zone.zone_type}): score ${compositeScore} < ${effectiveMinScore}`)
-      stats.skipReasons.push(`${zone.zone_type} @${zone.mid.toFixed(2)}: score ${compositeScore} < ${effectiveMinScore}`)
-      stats.skipped++
-      continue
-    }
-
-    const expiresAt = new Date(Date.now() + tier.expiryHours * 3600000).toISOString()
-
-    // Store the confluence zone first to get its ID
-    const { data: zoneRow } = await supabase
-      .from("fib_confluence_zones")
-      .select("id")
-      .eq("asset", ticker)
-      .eq("is_active", true)
-      .gte("zone_mid", zone.mid * 0.999)
-      .lte("zone_mid", zone.mid * 1.001)
-      .limit(1)
-
-    const confluenceZoneId = zoneRow?.[0]?.id ?? null
-
-    // Derive macro regime label from Fear & Greed + BTC risk
-    let macroRegime: string | null = null
-    if (fearGreedIndex !== undefined) {
-      if (fearGreedIndex >= 70) macroRegime = "Risk-On"
-      else if (fearGreedIndex <= 30) macroRegime = "Risk-Off"
-      else macroRegime = "Neutral"
-    }
-
-    // Apply partial TP (0.3R) and tightened SL (0.8R)
-    const partialTP = isBuy
-      ? entryMid + TP_FRACTION * rewardDist
-      : entryMid - TP_FRACTION * rewardDist
-    const tightenedSL = isBuy
-      ? entryMid - SL_FRACTION * riskDist
-      : entryMid + SL_FRACTION * riskDist
-
-    const signalRow = {
-      asset: ticker,
-      signal_type: signalType,
-      // Published as "Watching" — becomes "In Play" only on a real entry fill.
-      status: "active",
-      timeframe: tier.tierName,
-      entry_zone_low: zone.low,
-      entry_zone_high: zone.high,
-      entry_price_mid: entryMid,
-      confluence_zone_id: confluenceZoneId,
-      target_1: partialTP,
-      target_2: targets.target2,
-      stop_loss: tightenedSL,
-      risk_reward_ratio: Math.round(TP_FRACTION / SL_FRACTION * 100) / 100,
-      risk_1r: SL_FRACTION * riskDist,
-      best_price: entryMid,
-      runner_stop: tightenedSL,
-      ema_trend_aligned: true,
-      bounce_confirmed: true,
-      confirmation_details: {
-        ...bounce.details,
-        fvg_confluence: fvgConfluence.has_fvg_confluence,
-        fvg_timeframe: fvgConfluence.best_timeframe,
-        fvg_type: fvgConfluence.fvg_type,
-        fvg_gap_size_pct: fvgConfluence.gap_size_pct,
+async function requestSignalBriefing(ticker: string, signalId: string): Promise<void> {
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? ""
+    const cronSecret = Deno.env.get("CRON_SECRET") ?? ""
+    const briefingResp = await fetch(`${supabaseUrl}/functions/v1/generate-signal-briefing`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-cron-secret": cronSecret,
       },
-      counter_trend: counterTrend,
-      composite_score: compositeScore,
-      composite_score_v2: compositeScoreV2,
-      volume_confluence: volConfluence,
-      fear_greed_index: fearGreedIndex ?? null,
-      btc_risk_score: btcRiskScore ?? null,
-      macro_regime: macroRegime,
-      chart_pattern: chartPattern ?? null,
-      range_compressed: compression.isCompressed,
-      compression_score: compression.isCompressed ? Math.round(compression.rangeRatio * 100) : null,
-      low_conviction: lowConviction,
-      volatility_regime: btcVolRegime.regime,
-      suggested_risk_pct: lowConviction
-        ? Math.min(1.0, btcVolRegime.suggestedRiskPct)
-        : btcVolRegime.suggestedRiskPct,
-      // triggered_at is intentionally left null. signal-monitor stamps it the
-      // moment price fills the entry zone, so T1/stop/duration/P&L all measure
-      // from the real entry instead of from signal creation.
-      expires_at: expiresAt,
-    }
-
-    // Global concurrent signal cap
-    if (openSignalCounter.total >= MAX_SIGNALS_TOTAL) {
-      console.log(`[${ticker}] Global cap reached (${MAX_SIGNALS_TOTAL} open) — skipping signal at ${zone.mid.toFixed(2)} [${tier.tierName}]`)
-      stats.skipReasons.push(`Global cap ${MAX_SIGNALS_TOTAL} open signals`)
-      stats.skipped++
-      continue
-    }
-
-    const { data: inserted, error } = await supabase
-      .from("trade_signals")
-      .insert(signalRow)
-      .select("id")
-      .single()
-
-    if (error) {
-      console.error(`[${ticker}] Zone ${zone.mid.toFixed(2)}: DB insert error: ${error.message}`)
-    }
-    if (!error && inserted) {
-      openSignalCounter.total++
-      stats.generated++
-
-      // Send push notification
-      const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? ""
-      const cronSecret = Deno.env.get("CRON_SECRET") ?? ""
-
-      try {
-        const emoji = isBuy ? "📈" : "📉"
-        const direction = isBuy ? "Long" : "Short"
-        const entryStr = entryMid > 1000
-          ? `$${Math.round(entryMid).toLocaleString()}`
-          : entryMid > 1
-            ? `$${entryMid.toFixed(2)}`
-            : `$${entryMid.toFixed(4)}`
-
-        const t1Str = targets.target1 > 1000
-          ? `$${Math.round(targets.target1).toLocaleString()}`
-          : targets.target1 > 1
-            ? `$${targets.target1.toFixed(2)}`
-            : `$${targets.target1.toFixed(4)}`
-
-        const slStr = targets.stopLoss > 1000
-          ? `$${Math.round(targets.stopLoss).toLocaleString()}`
-          : targets.stopLoss > 1
-            ? `$${targets.stopLoss.toFixed(2)}`
-            : `$${targets.stopLoss.toFixed(4)}`
-
-        const anonKeyNotif = Deno.env.get("SUPABASE_ANON_KEY") ?? ""
-        fetch(`${supabaseUrl}/functions/v1/send-broadcast-notification`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${anonKeyNotif}`,
-            "x-cron-secret": cronSecret,
-          },
-          body: JSON.stringify({
-            broadcast_id: inserted.id,
-            title: `${emoji} ${tier.tierName === "1h" ? "Scalp" : "Swing"}: ${ticker} ${direction} Signal`,
-            body: `${isStrong ? "Strong " : ""}${direction} at ${entryStr} | R:R ${rrRatio.toFixed(1)} | T1: ${t1Str} | SL: ${slStr}`,
-            event_type: "signal_new",
-            target_audience: { type: "all" },
-          }),
-        }).catch(() => {})
-      } catch {}
-
-      // Generate briefing (await to ensure it completes before pipeline moves on)
-      try {
-        const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? ""
-        const cronSecret = Deno.env.get("CRON_SECRET") ?? ""
-        const briefingResp = await fetch(`${supabaseUrl}/functions/v1/generate-signal-briefing`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "x-cron-secret": cronSecret,
-          },
-          body: JSON.stringify({ signal_id: inserted.id }),
-        })
-        if (!briefingResp.ok) {
-          const errText = await briefingResp.text().catch(() => "")
-          console.error(`[briefing] Failed for ${ticker} signal ${inserted.id}: ${briefingResp.status} ${errText}`)
-        }
-      } catch (err) {
-        console.error(`[briefing] Error for ${ticker}: ${err}`)
-      }
+      body: JSON.stringify({ signal_id: signalId }),
+    })
+    if (!briefingResp.ok) {
+      const errText = await briefingResp.text().catch(() => "")
+      console.error(`[briefing] Failed for ${ticker} signal ${signalId}: ${briefingResp.status} ${errText}`)
     }
+  } catch (err) {
+    console.error(`[briefing] Error for ${ticker}: ${err}`)
   }
-
-  return stats
 }
 
 // ─── Signal Resolution (50% at T1, trail runner with 1R stop) ────────────────
@@ -3179,91 +856,9 @@ async function resolveOpenSignals(
 
   // Candles are oldest-first; keep last 6 for per-signal timestamp filtering
   const recent4h = candles4h.slice(-6)
-  const latestClose = recent4h[recent4h.length - 1].close
+  const latest = recent4h[recent4h.length - 1]
   const now = new Date()
 
-  // Binance aggregate helper for dual-source verification
-  function binanceAggregateAfter(afterIso: string): { high: number; low: number; close: number } | null {
-    if (binance4h.length === 0) return null
-    const afterMs = new Date(afterIso).getTime()
-    const valid = binance4h.filter(c => new Date(c.open_time).getTime() >= afterMs)
-    if (valid.length === 0) {
-      // No candle started after trigger — skip to avoid pre-trigger data
-      return null
-    }
-    let aggHigh = -Infinity
-    let aggLow = Infinity
-    for (const c of valid) {
-      aggHigh = Math.max(aggHigh, c.high)
-      aggLow = Math.min(aggLow, c.low)
-    }
-    return { high: aggHigh, low: aggLow, close: valid[valid.length - 1].close }
-  }
-
-  // Dual-source T1 check: requires BOTH Coinbase and Binance to confirm target hit.
-  // If Binance data is unavailable, falls back to Coinbase-only.
-  function isT1Hit(
-    t1: number, isBuy: boolean,
-    cbCandle: { high: number; low: number },
-    triggerIso: string,
-  ): boolean {
-    const bnCandle = binanceAggregateAfter(triggerIso)
-    if (isBuy) {
-      const cbHit = cbCandle.high >= t1
-      if (!bnCandle) return cbHit
-      const bnHit = bnCandle.high >= t1
-      if (cbHit && bnHit) console.log(`[${ticker}] T1 CONFIRMED by both CB(H:${cbCandle.high}) & BN(H:${bnCandle.high}) >= ${t1}`)
-      if (cbHit && !bnHit) console.log(`[${ticker}] T1 REJECTED — CB(H:${cbCandle.high}) hit but BN(H:${bnCandle.high}) did not reach ${t1}`)
-      return cbHit && bnHit
-    } else {
-      const cbHit = cbCandle.low <= t1
-      if (!bnCandle) return cbHit
-      const bnHit = bnCandle.low <= t1
-      if (cbHit && bnHit) console.log(`[${ticker}] T1 CONFIRMED by both CB(L:${cbCandle.low}) & BN(L:${bnCandle.low}) <= ${t1}`)
-      if (cbHit && !bnHit) console.log(`[${ticker}] T1 REJECTED — CB(L:${cbCandle.low}) hit but BN(L:${bnCandle.low}) did not reach ${t1}`)
-      return cbHit && bnHit
-    }
-  }
-
-  // Dual-source SL check with buffer
-  function isSlBreached(
-    sl: number, isBuy: boolean,
-    cbCandle: { high: number; low: number },
-    triggerIso: string,
-  ): boolean {
-    const SL_BUFFER_PCT = 0.003
-    const bnCandle = binanceAggregateAfter(triggerIso)
-    if (isBuy) {
-      const cbBreached = cbCandle.low <= sl * (1 - SL_BUFFER_PCT)
-      if (!bnCandle) return cbBreached
-      const bnBreached = bnCandle.low <= sl
-      return cbBreached && bnBreached
-    } else {
-      const cbBreached = cbCandle.high >= sl * (1 + SL_BUFFER_PCT)
-      if (!bnCandle) return cbBreached
-      const bnBreached = bnCandle.high >= sl
-      return cbBreached && bnBreached
-    }
-  }
-
-  // Aggregate candles only after a signal's trigger time (prevents false T1/SL hits)
-  function aggregateAfter(afterIso: string): { high: number; low: number; close: number } | null {
-    const afterMs = new Date(afterIso).getTime()
-    const valid = recent4h.filter(c => new Date(c.open_time).getTime() >= afterMs)
-    if (valid.length === 0) {
-      // No candle started after trigger — signal was created mid-candle.
-      // Return null to skip T1/SL checks this cycle (avoids using pre-trigger highs/lows).
-      return null
-    }
-    let aggHigh = -Infinity
-    let aggLow = Infinity
-    for (const c of valid) {
-      aggHigh = Math.max(aggHigh, c.high)
-      aggLow = Math.min(aggLow, c.low)
-    }
-    return { high: aggHigh, low: aggLow, close: valid[valid.length - 1].close }
-  }
-
   // Get all triggered signals for this asset
   const { data: signals } = await supabase
     .from("trade_signals")
@@ -3277,217 +872,43 @@ async function resolveOpenSignals(
     // Skip if already resolved by signal-monitor (race condition guard)
     if (signal.closed_at) continue
 
-    const isBuy = signal.signal_type === "buy" || signal.signal_type === "strong_buy"
-    const entryMid = Number(signal.entry_price_mid)
-    const t1 = signal.target_1 ? Number(signal.target_1) : null
-    const sl = Number(signal.stop_loss)
-    const risk1r = signal.risk_1r ? Number(signal.risk_1r) : Math.abs(entryMid - sl)
-    const t1AlreadyHit = !!signal.t1_hit_at
-    let bestPrice = signal.best_price ? Number(signal.best_price) : entryMid
-    let runnerStop = signal.runner_stop ? Number(signal.runner_stop) : sl
-
-    // --- Expiry check (time-based) ---
-    // Runs before the candle guard so an expired signal always resolves even
-    // when fresh candle data is briefly unavailable (matches signal-monitor).
-    if (signal.expires_at && new Date(signal.expires_at) <= now) {
-      const exitPrice = latestClose
-
-      if (t1AlreadyHit) {
-        // Runner was still open — close at current price
-        const runnerPnl = isBuy
-          ? ((exitPrice - entryMid) / entryMid) * 100
-          : ((entryMid - exitPrice) / entryMid) * 100
-        const t1Pnl = signal.t1_pnl_pct ? Number(signal.t1_pnl_pct) : 0
-        const totalPnl = (t1Pnl + runnerPnl) / 2
-
-        const { count: c1 } = await supabase.from("trade_signals").update({
-          status: totalPnl > 0 ? "target_hit" : "expired",
-          outcome: totalPnl > 0 ? "win" : "loss",
-          outcome_pct: Math.round(totalPnl * 100) / 100,
-          runner_exit_price: exitPrice,
-          runner_pnl_pct: Math.round(runnerPnl * 100) / 100,
-          closed_at: now.toISOString(),
-          duration_hours: Math.round((now.getTime() - new Date(signal.triggered_at).getTime()) / 3600000),
-        }, { count: "exact" }).eq("id", signal.id).is("closed_at", null)
-        if (c1 && c1 > 0) notifyResolution(signal, totalPnl > 0 ? "expired_win" : "expired_loss", exitPrice)
-      } else {
-        const pnl = isBuy
-          ? ((exitPrice - entryMid) / entryMid) * 100
-          : ((entryMid - exitPrice) / entryMid) * 100
-
-        // Check if best price reached consider-profit zone before expiry
-        const reachedConsiderProfit = t1 && (isBuy
-          ? bestPrice >= entryMid + (t1 - entryMid) * 0.3
-          : bestPrice <= entryMid - (entryMid - t1) * 0.3)
-
-        const { count: c2 } = await supabase.from("trade_signals").update({
-          status: "expired",
-          outcome: reachedConsiderProfit ? "partial" : "loss",
-          outcome_pct: Math.round(pnl * 100) / 100,
-          closed_at: now.toISOString(),
-          duration_hours: Math.round((now.getTime() - new Date(signal.triggered_at).getTime()) / 3600000),
-        }, { count: "exact" }).eq("id", signal.id).is("closed_at", null)
-        if (c2 && c2 > 0) notifyResolution(signal, reachedConsiderProfit ? "expired_partial" : "expired_loss", exitPrice)
-      }
-
-      stats.expired++
-      stats.resolved++
-      continue
-    }
-
-    // Per-signal candle aggregation — only candles after this signal triggered.
-    const candle = aggregateAfter(signal.triggered_at)
-    if (!candle) continue
-    // Latest candle only for runner trailing (avoids stale highs/lows).
-    const latestOnly = recent4h[recent4h.length - 1]
-
-    if (isBuy) {
-      if (!t1AlreadyHit) {
-        // Track best price (MFE) on every check, even before T1
-        bestPrice = Math.max(bestPrice, candle.high)
-
-        // Phase 1: Full position — check SL then T1 (dual-source verification)
-        if (isSlBreached(sl, true, candle, signal.triggered_at)) {
-          const pnl = ((sl - entryMid) / entryMid) * 100
-          // Check if best price reached consider-profit zone (30% of entry→T1)
-          const reachedConsiderProfit = t1 && bestPrice >= entryMid + (t1 - entryMid) * 0.3
-          const { count: cSL1 } = await supabase.from("trade_signals").update({
-            status: "invalidated",
-            outcome: reachedConsiderProfit ? "partial" : "loss",
-            outcome_pct: Math.round(pnl * 100) / 100,
-            best_price: bestPrice,
-            closed_at: now.toISOString(),
-            duration_hours: Math.round((now.getTime() - new Date(signal.triggered_at).getTime()) / 3600000),
-          }, { count: "exact" }).eq("id", signal.id).is("closed_at", null)
-          if (cSL1 && cSL1 > 0) notifyResolution(signal, reachedConsiderProfit ? "stop_loss_partial" : "stop_loss", sl)
-          stats.losses++
-          stats.resolved++
-          continue
-        }
-
-        if (t1 && isT1Hit(t1, true, candle, signal.triggered_at)) {
-          const t1Pnl = ((t1 - entryMid) / entryMid) * 100
-          const { count: cT1a } = await supabase.from("trade_signals").update({
-            t1_hit_at: now.toISOString(),
-            t1_pnl_pct: Math.round(t1Pnl * 100) / 100,
-            best_price: bestPrice,
-            runner_stop: entryMid,  // Move to breakeven
-          }, { count: "exact" }).eq("id", signal.id).is("t1_hit_at", null)
-          if (cT1a && cT1a > 0) notifyResolution(signal, "t1_hit", t1)
-          stats.t1Hits++
-          continue
-        }
-
-        // No resolution — persist best price for MFE tracking
-        if (bestPrice > (signal.best_price ? Number(signal.best_price) : 0)) {
-          await supabase.from("trade_signals").update({ best_price: bestPrice }).eq("id", signal.id)
-        }
-      } else {
-        // Phase 2: Runner — use latest candle only (not aggregated) to avoid stale data
-        bestPrice = Math.max(bestPrice, latestOnly.high)
-        runnerStop = Math.max(runnerStop, bestPrice - risk1r)
-
-        if (latestOnly.low <= runnerStop) {
-          const runnerPnl = ((runnerStop - entryMid) / entryMid) * 100
-          const t1Pnl = signal.t1_pnl_pct ? Number(signal.t1_pnl_pct) : 0
-          const totalPnl = (t1Pnl + runnerPnl) / 2
-
-          const { count: cR1 } = await supabase.from("trade_signals").update({
-            status: totalPnl > 0 ? "target_hit" : "invalidated",
-            outcome: totalPnl > 0 ? "win" : "loss",
-            outcome_pct: Math.round(totalPnl * 100) / 100,
-            runner_exit_price: runnerStop,
-            runner_pnl_pct: Math.round(runnerPnl * 100) / 100,
-            best_price: bestPrice,
-            runner_stop: runnerStop,
-            closed_at: now.toISOString(),
-            duration_hours: Math.round((now.getTime() - new Date(signal.triggered_at).getTime()) / 3600000),
-          }, { count: "exact" }).eq("id", signal.id).is("closed_at", null)
-          if (cR1 && cR1 > 0) notifyResolution(signal, totalPnl > 0 ? "runner_win" : "runner_loss", runnerStop)
-          stats.runnerStops++
-          stats.resolved++
-        } else {
-          // Update trailing values
-          await supabase.from("trade_signals").update({
-            best_price: bestPrice,
-            runner_stop: runnerStop,
-          }).eq("id", signal.id)
-        }
-      }
-    } else {
-      // --- SHORT ---
-      if (!t1AlreadyHit) {
-        // Track best price (MFE) on every check, even before T1
-        bestPrice = Math.min(bestPrice, candle.low)
-
-        // Dual-source SL verification
-        if (isSlBreached(sl, false, candle, signal.triggered_at)) {
-          const pnl = ((entryMid - sl) / entryMid) * 100
-          // Check if best price reached consider-profit zone (30% of entry→T1)
-          const reachedConsiderProfit = t1 && bestPrice <= entryMid - (entryMid - t1) * 0.3
-          const { count: cSL2 } = await supabase.from("trade_signals").update({
-            status: "invalidated",
-            outcome: reachedConsiderProfit ? "partial" : "loss",
-            outcome_pct: Math.round(pnl * 100) / 100,
-            best_price: bestPrice,
-            closed_at: now.toISOString(),
-            duration_hours: Math.round((now.getTime() - new Date(signal.triggered_at).getTime()) / 3600000),
-          }, { count: "exact" }).eq("id", signal.id).is("closed_at", null)
-          if (cSL2 && cSL2 > 0) notifyResolution(signal, reachedConsiderProfit ? "stop_loss_partial" : "stop_loss", sl)
-          stats.losses++
-          stats.resolved++
-          continue
-        }
-
-        if (t1 && isT1Hit(t1, false, candle, signal.triggered_at)) {
-          const t1Pnl = ((entryMid - t1) / entryMid) * 100
-          const { count: cT1b } = await supabase.from("trade_signals").update({
-            t1_hit_at: now.toISOString(),
-            t1_pnl_pct: Math.round(t1Pnl * 100) / 100,
-            best_price: bestPrice,
-            runner_stop: entryMid,  // Move to breakeven
-          }, { count: "exact" }).eq("id", signal.id).is("t1_hit_at", null)
-          if (cT1b && cT1b > 0) notifyResolution(signal, "t1_hit", t1)
-          stats.t1Hits++
-          continue // Skip runner eval this cycle
-        }
-
-        // No resolution — persist best price for MFE tracking
-        const currentBest = signal.best_price ? Number(signal.best_price) : Infinity
-        if (bestPrice < currentBest) {
-          await supabase.from("trade_signals").update({ best_price: bestPrice }).eq("id", signal.id)
-        }
-      } else {
-        // Phase 2: Runner — use latest candle only (not aggregated) to avoid stale data
-        bestPrice = Math.min(bestPrice, latestOnly.low)
-        runnerStop = Math.min(runnerStop, bestPrice + risk1r)
-
-        if (latestOnly.high >= runnerStop) {
-          const runnerPnl = ((entryMid - runnerStop) / entryMid) * 100
-          const t1Pnl = signal.t1_pnl_pct ? Number(signal.t1_pnl_pct) : 0
-          const totalPnl = (t1Pnl + runnerPnl) / 2
-
-          const { count: cR2 } = await supabase.from("trade_signals").update({
-            status: totalPnl > 0 ? "target_hit" : "invalidated",
-            outcome: totalPnl > 0 ? "win" : "loss",
-            outcome_pct: Math.round(totalPnl * 100) / 100,
-            runner_exit_price: runnerStop,
-            runner_pnl_pct: Math.round(runnerPnl * 100) / 100,
-            best_price: bestPrice,
-            runner_stop: runnerStop,
-            closed_at: now.toISOString(),
-            duration_hours: Math.round((now.getTime() - new Date(signal.triggered_at).getTime()) / 3600000),
-          }, { count: "exact" }).eq("id", signal.id).is("closed_at", null)
-          if (cR2 && cR2 > 0) notifyResolution(signal, totalPnl > 0 ? "runner_win" : "runner_loss", runnerStop)
-          stats.runnerStops++
-          stats.resolved++
-        } else {
-          await supabase.from("trade_signals").update({
-            best_price: bestPrice,
-            runner_stop: runnerStop,
-          }).eq("id", signal.id)
-        }
-      }
+    // Per-signal aggregation — only candles after this signal triggered, with
+    // Binance as the dual-source confirmation when it has data.
+    const resolution = resolveSignal(signal, {
+      candle: aggregateAfter(recent4h, signal.triggered_at),
+      latest,
+      latestClose: latest.close,
+      confirm: aggregateAfter(binance4h, signal.triggered_at),
+      now,
+    }, (message) => console.log(`[${ticker}] ${message}`))
+    if (!resolution) continue
+
+    let update = supabase
+      .from("trade_signals")
+      .update(resolution.patch, { count: "exact" })
+      .eq("id", signal.id)
+    if (resolution.guard) update = update.is(resolution.guard, null)
+    const { count } = await update
+    if (resolution.event && count && count > 0) {
+      notifyResolution(signal, resolution.event, resolution.eventPrice)
+    }
+
+    switch (resolution.kind) {
+      case "expired":
+        stats.expired++
+        stats.resolved++
+        break
+      case "stop_loss":
+        stats.losses++
+        stats.resolved++
+        break
+      case "runner_stop":
+        stats.runnerStops++
+        stats.resolved++
+        break
+      case "t1_hit":
+        stats.t1Hits++
+        break
     }
   }
 
@@ -3509,8 +930,6 @@ function sleep(ms: number): Promise<void> {
 
 // ─── Resolution Notification Helper ─────────────────────────────────────────
 
-type ResolutionEvent = "stop_loss" | "t1_hit" | "runner_win" | "runner_loss" | "expired_win" | "expired_loss"
-
 function notifyResolution(signal: any, event: ResolutionEvent, price: number): void {
   const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? ""
   const cronSecret = Deno.env.get("CRON_SECRET") ?? ""
@@ -3528,6 +947,7 @@ function notifyResolution(signal: any, event: ResolutionEvent, price: number): v
 
   switch (event) {
     case "stop_loss":
+    case "stop_loss_partial":
       emoji = "🛑"; title = `${emoji} ${ticker} ${direction} — Stop Loss Hit`
       body = `Closed at ${priceStr}. PnL: ${pnl >= 0 ? "+" : ""}${pnl.toFixed(2)}%`
       break
@@ -3547,6 +967,7 @@ function notifyResolution(signal: any, event: ResolutionEvent, price: number): v
       emoji = "⏰"; title = `${emoji} ${ticker} ${direction} — Expired (Profit)`
       body = `Signal expired at ${priceStr}. T1: +${t1Pnl.toFixed(2)}%`
       break
+    case "expired_partial":
     case "expired_loss":
       emoji = "⏰"; title = `${emoji} ${ticker} ${direction} — Expired`
       body = `Signal expired at ${priceStr}. No target reached.`
@@ -3556,10 +977,12 @@ function notifyResolution(signal: any, event: ResolutionEvent, price: number): v
   // Map event to preference key
   const eventTypeMap: Record<ResolutionEvent, string> = {
     stop_loss: "signal_stop_loss",
+    stop_loss_partial: "signal_stop_loss",
     t1_hit: "signal_t1_hit",
     runner_win: "signal_runner_close",
     runner_loss: "signal_runner_close",
     expired_win: "signal_expiry",
+    expired_partial: "signal_expiry",
     expired_loss: "signal_expiry",
   }
 
@@ -1,4 +1,7 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { validateAssetRegistry } from "../_shared/assets.ts"
+import { isHealthy, providerHealthKey } from "../_shared/candle_providers.ts"
+import type { ProviderHealth } from "../_shared/candle_providers.ts"
 
 /**
  * health-check Edge Function
@@ -15,6 +18,8 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
  * 5. Today's briefing exists in market_summaries
  * 6. Cron jobs ran recently (fibonacci-pipeline, compute-positioning-signals)
  * 7. Curated news freshness (curate-news cron, < 90 min old)
+ * 8. Asset registry consistency (every asset has the mappings its pipelines need)
+ * 9. Candle providers (none failing repeatedly — pipelines fail over, so this is early warning)
  */
 
 interface CheckResult {
@@ -67,7 +72,7 @@ Deno.serve(async (req) => {
   const checks: CheckResult[] = []
 
   // Run all checks in parallel
-  const [cgResult, claudeResult, fmpResult, cacheResult, briefingResult, signalsResult, curatedNewsResult] =
+  const [cgResult, claudeResult, fmpResult, cacheResult, briefingResult, signalsResult, curatedNewsResult, candleProvidersResult] =
     await Promise.allSettled([
       checkCoinGecko(),
       checkClaudeAPI(),
@@ -76,6 +81,7 @@ Deno.serve(async (req) => {
       checkBriefing(supabase),
       checkSignalPipeline(supabase),
       checkCuratedNews(supabase),
+      checkCandleProviders(supabase),
     ])
 
   pushResult(checks, "CoinGecko API", cgResult)
@@ -85,6 +91,8 @@ Deno.serve(async (req) => {
   pushResult(checks, "Daily Briefing", briefingResult)
   pushResult(checks, "Signal Pipeline", signalsResult)
   pushResult(checks, "Curated News", curatedNewsResult)
+  pushResult(checks, "Candle Providers", candleProvidersResult)
+  checks.push(checkAssetRegistry())
 
   const failures = checks.filter((c) => !c.ok)
   const allHealthy = failures.length === 0
@@ -343,6 +351,47 @@ async function checkCuratedNews(
   return { name: "Curated News", ok: true, detail: `Fresh — ${Math.round(ageMin)} min old` }
 }
 
+// ─── Candle Provider Check ──────────────────────────────────────────────────
+// fibonacci-pipeline and signal-monitor each persist their provider health.
+
+const CANDLE_FEED_FUNCTIONS = ["fibonacci-pipeline", "signal-monitor"]
+
+async function checkCandleProviders(
+  supabase: ReturnType<typeof createClient>
+): Promise<CheckResult> {
+  const { data, error } = await supabase
+    .from("market_data_cache")
+    .select("key, data")
+    .in("key", CANDLE_FEED_FUNCTIONS.map(providerHealthKey))
+
+  if (error) return { name: "Candle Providers", ok: false, detail: error.message }
+  if (!data?.length) return { name: "Candle Providers", ok: true, detail: "No health recorded yet" }
+
+  const failing: string[] = []
+  const names = new Set<string>()
+  for (const fn of CANDLE_FEED_FUNCTIONS) {
+    const row = data.find((r) => r.key === providerHealthKey(fn))
+    for (const [name, h] of Object.entries((row?.data?.providers ?? {}) as Record<string, ProviderHealth>)) {
+      names.add(name)
+      if (!isHealthy(h, new Date())) failing.push(`${name} (${fn}): ${h.consecutiveFailures} failures in a row (${h.lastError})`)
+    }
+  }
+  if (failing.length > 0) {
+    return { name: "Candle Providers", ok: false, detail: failing.join("; ") }
+  }
+  return { name: "Candle Providers", ok: true, detail: `${[...names].join(", ")} responding` }
+}
+
+// ─── Asset Registry Check ───────────────────────────────────────────────────
+
+function checkAssetRegistry(): CheckResult {
+  const problems = validateAssetRegistry()
+  if (problems.length > 0) {
+    return { name: "Asset Registry", ok: false, detail: problems.join("; ") }
+  }
+  return { name: "Asset Registry", ok: true, detail: "All pipeline mappings present" }
+}
+
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
 function pushResult(
@@ -1,4 +1,13 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import {
+  assetMovesFromCoins,
+  cohortKey,
+  hasPersonalFacts,
+  personalFacts,
+  personalPromptLines,
+} from "../_shared/personal_briefing.ts"
+import type { AssetMove, PersonalFacts } from "../_shared/personal_briefing.ts"
+import { checkBriefing, correctionNotes } from "../_shared/briefing_factcheck.ts"
 
 Deno.serve(async (req) => {
   const ok = (body: Record<string, unknown>) =>
@@ -62,12 +71,20 @@ Deno.serve(async (req) => {
 
   console.log(`Slot: ${slot}, EST hour: ${estHour}, date: ${todayUTC}, cron: ${isCron}`)
 
-  // Check cache (skip for cron/admin regeneration — always generate fresh)
+  // Personalized section for the calling member (requires their JWT), layered
+  // under the shared briefing for this slot and cached per member per slot.
+  if (payload.personal === true) {
+    return ok(await personalBriefing(req, supabase, slot, todayUTC))
+  }
+
+  // Check cache (skip for cron/admin regeneration — always generate fresh).
+  // A rejected briefing for this slot is never served: the request writes a
+  // fresh one over it rather than falling back to an older briefing.
   if (!isCron && !forceRegenerate) {
     // Try exact slot for today
     const { data: cached, error: cacheError } = await supabase
       .from("market_summaries")
-      .select("summary, generated_at")
+      .select("summary, generated_at, review_status")
       .eq("summary_date", todayUTC)
       .eq("slot", slot)
       .maybeSingle()
@@ -76,23 +93,26 @@ Deno.serve(async (req) => {
       console.error("Cache lookup error:", cacheError.message)
     }
 
-    if (cached) {
+    if (cached?.review_status === "rejected") {
+      console.log(`${slot} briefing for ${todayUTC} was rejected — regenerating`)
+    } else if (cached) {
       console.log(`Returning cached ${slot} summary for ${todayUTC}`)
       return ok({ summary: cached.summary, generatedAt: cached.generated_at })
-    }
-
-    // No exact match — fall back to most recent briefing (any date/slot)
-    const { data: fallback } = await supabase
-      .from("market_summaries")
-      .select("summary, generated_at")
-      .order("summary_date", { ascending: false })
-      .order("generated_at", { ascending: false })
-      .limit(1)
-      .maybeSingle()
+    } else {
+      // No exact match — fall back to most recent briefing (any date/slot)
+      const { data: fallback } = await supabase
+        .from("market_summaries")
+        .select("summary, generated_at")
+        .neq("review_status", "rejected")
+        .order("summary_date", { ascending: false })
+        .order("generated_at", { ascending: false })
+        .limit(1)
+        .maybeSingle()
 
-    if (fallback) {
-      console.log(`No ${slot} for ${todayUTC}, returning most recent briefing`)
-      return ok({ summary: fallback.summary, generatedAt: fallback.generated_at })
+      if (fallback) {
+        console.log(`No ${slot} for ${todayUTC}, returning most recent briefing`)
+        return ok({ summary: fallback.summary, generatedAt: fallback.generated_at })
+      }
     }
   }
 
@@ -639,10 +659,11 @@ Deno.serve(async (req) => {
 
   // --- Fetch recent briefings for continuity ---
   let priorBriefingContext = ""
+  let priorContext: Record<string, unknown> | null = null  // payload of the last briefing, to tell stale figures from wrong ones
   try {
     const { data: recentBriefings } = await supabase
       .from("market_summaries")
-      .select("summary, slot, summary_date")
+      .select("summary, slot, summary_date, context")
       .lt("summary_date", todayUTC)
       .order("summary_date", { ascending: false })
       .order("generated_at", { ascending: false })
@@ -652,16 +673,18 @@ Deno.serve(async (req) => {
     if (slot === "evening") {
       const { data: todayMorning } = await supabase
         .from("market_summaries")
-        .select("summary, slot")
+        .select("summary, slot, context")
         .eq("summary_date", todayUTC)
         .eq("slot", "morning")
         .maybeSingle()
 
+      priorContext = parseContext(todayMorning?.context)
       if (todayMorning?.summary) {
         priorBriefingContext += `\nTODAY'S MORNING BRIEFING (for continuity — reference what you said this morning where relevant):\n${todayMorning.summary}\n`
       }
     }
 
+    priorContext ??= parseContext(recentBriefings?.[0]?.context)
     if (recentBriefings && recentBriefings.length > 0) {
       const priorLines = recentBriefings.map((b: any) =>
         `[${b.summary_date} ${b.slot}]: ${b.summary}`
@@ -693,7 +716,7 @@ Deno.serve(async (req) => {
     const weekendInstructions = `This is the ${weekendDayName.toUpperCase()} briefing. Traditional markets are closed — focus entirely on crypto. Cover today's crypto price action, funding rates, momentum patterns, and any macro news that dropped. Keep it shorter and more casual than weekday briefings. If there are notable moves, highlight them. ${weekendDayName === "Saturday" ? "Frame the end with what to watch tomorrow and heading into Monday." : "Frame the end with a brief look ahead to Monday's open."} IMPORTANT: Say "today" when referring to the current day, not "over the weekend" — the weekend is still in progress.`
     const slotInstructions = slot === "weekend" ? weekendInstructions : slot === "morning" ? morningInstructions : eveningInstructions
 
-    const claudeResponse = await fetch("https://api.anthropic.com/v1/messages", {
+    const generate = (messages: { role: "user" | "assistant"; content: string }[]) => fetch("https://api.anthropic.com/v1/messages", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -774,14 +797,14 @@ Rules:
 - Keep total length under ${isFriday && slot === "evening" ? "350" : "200"} words
 - Never start any section with "Today" or "The market"
 ${feedbackBlock}`,
-        messages: [
-          {
-            role: "user",
-            content: `Here is the latest market data:\n\n${marketContext}${priorBriefingContext ? "\n\n" + priorBriefingContext : ""}\n\nWrite the ${timeLabel} briefing.`,
-          },
-        ],
+        messages,
       }),
     })
+    const briefingRequest = {
+      role: "user" as const,
+      content: `Here is the latest market data:\n\n${marketContext}${priorBriefingContext ? "\n\n" + priorBriefingContext : ""}\n\nWrite the ${timeLabel} briefing.`,
+    }
+    const claudeResponse = await generate([briefingRequest])
 
     if (!claudeResponse.ok) {
       const errorText = await claudeResponse.text()
@@ -799,6 +822,40 @@ ${feedbackBlock}`,
 
     console.log(`Generated ${slot} summary (${summary.length} chars)`)
 
+    // Fact-check cited figures against the payload. If anything is off, ask for
+    // one corrected rewrite and keep it only if it checks out better; whatever
+    // is still flagged after that goes to admin review.
+    let factCheck = checkBriefing(summary, payload, priorContext)
+    let regenerated = false
+    if (factCheck.flags.length > 0) {
+      console.warn(`Fact-check flagged ${factCheck.flags.length} of ${factCheck.checked} figures — regenerating once`)
+      try {
+        const retry = await generate([
+          briefingRequest,
+          { role: "assistant", content: summary },
+          {
+            role: "user",
+            content: `Some figures in that briefing don't match the data:\n${correctionNotes(factCheck.flags).join("\n")}\n\nRewrite the full briefing with these corrected. Use only figures from the data. Keep the same sections.`,
+          },
+        ])
+        if (retry.ok) {
+          const text = String((await retry.json()).content?.[0]?.text ?? "").trim()
+          const recheck = text ? checkBriefing(text, payload, priorContext) : null
+          if (recheck && recheck.flags.length < factCheck.flags.length) {
+            summary = text
+            factCheck = recheck
+            regenerated = true
+          }
+        } else {
+          console.error(`Fact-check regeneration failed: ${retry.status}`)
+        }
+      } catch (err) {
+        console.error("Fact-check regeneration failed:", err instanceof Error ? err.message : String(err))
+      }
+    }
+    const reviewStatus = factCheck.flags.length > 0 ? "needs_review" : "passed"
+    console.log(`Fact-check: ${factCheck.verified}/${factCheck.checked} figures verified, ${factCheck.flags.length} flagged${regenerated ? " after regeneration" : ""}`)
+
     // Cache in DB with full context for historical analysis
     const { error: insertError } = await supabase
       .from("market_summaries")
@@ -807,6 +864,11 @@ ${feedbackBlock}`,
         slot: slot,
         summary: summary,
         context: contextPayload,
+        fact_check: { ...factCheck, regenerated },
+        fact_accuracy: factCheck.accuracy,
+        review_status: reviewStatus,
+        reviewed_by: null,
+        reviewed_at: null,
         generated_at: new Date().toISOString(),
       }, { onConflict: "summary_date,slot" })
 
@@ -876,6 +938,196 @@ ${feedbackBlock}`,
   }
 })
 
+/** market_summaries.context is stored as a JSON string; older rows may hold an object. */
+function parseContext(raw: unknown): Record<string, unknown> | null {
+  if (!raw) return null
+  try {
+    return typeof raw === "string" ? JSON.parse(raw) : raw as Record<string, unknown>
+  } catch {
+    return null
+  }
+}
+
+// MARK: - Personalized section (per member, per slot)
+
+/**
+ * The calling member's "For You" section for the current slot. Market data is
+ * read back from the shared briefing's stored context rather than fetched
+ * again, and the section is only written once the shared briefing for the slot
+ * exists so the two stay in step. Members with identical facts (same cohort
+ * key) reuse the first generated section for the slot.
+ */
+async function personalBriefing(
+  req: Request,
+  supabase: ReturnType<typeof createClient>,
+  slot: string,
+  todayUTC: string,
+): Promise<Record<string, unknown>> {
+  const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "")
+  if (!token) return { error: "Unauthorized" }
+  const { data: { user }, error: authErr } = await supabase.auth.getUser(token)
+  if (authErr || !user) return { error: "Unauthorized" }
+
+  const { data: cached } = await supabase
+    .from("personal_briefings")
+    .select("section, facts, generated_at")
+    .eq("user_id", user.id)
+    .eq("summary_date", todayUTC)
+    .eq("slot", slot)
+    .maybeSingle()
+  if (cached) {
+    return { section: cached.section, facts: cached.facts, generatedAt: cached.generated_at }
+  }
+
+  const { data: shared } = await supabase
+    .from("market_summaries")
+    .select("summary, context")
+    .eq("summary_date", todayUTC)
+    .eq("slot", slot)
+    .neq("review_status", "rejected")
+    .maybeSingle()
+  if (!shared) {
+    console.log(`Personal briefing: no shared ${slot} briefing for ${todayUTC} yet`)
+    return { section: null, facts: null, generatedAt: null }
+  }
+  const context = parseContext(shared.context) ?? {}
+
+  const [{ data: portfolios }, { data: profile }] = await Promise.all([
+    supabase.from("portfolios").select("holdings(symbol, quantity)").eq("user_id", user.id),
+    supabase.from("profiles").select("risk_coins").eq("id", user.id).maybeSingle(),
+  ])
+  const holdings = ((portfolios ?? []) as { holdings: { symbol: string; quantity: number }[] | null }[])
+    .flatMap((p) => p.holdings ?? [])
+    .map((h) => ({ symbol: String(h.symbol), quantity: Number(h.quantity) }))
+  const watchlist = ((profile?.risk_coins as string[] | null) ?? []).map(String)
+  const assets = [...new Set([...holdings.map((h) => h.symbol), ...watchlist].map((s) => s.toUpperCase()))]
+
+  const since = new Date(Date.parse(todayUTC) - 7 * 86_400_000).toISOString().slice(0, 10)
+  const [moves, riskRes, qpsRes, signalRes] = await Promise.all([
+    context.assetMoves ? Promise.resolve(context.assetMoves as Record<string, AssetMove>) : cachedAssetMoves(supabase),
+    assets.length
+      ? supabase.from("model_portfolio_risk_history").select("asset, risk_level, risk_date")
+        .in("asset", assets).gte("risk_date", since).order("risk_date", { ascending: false })
+      : Promise.resolve({ data: [] }),
+    assets.length
+      ? supabase.from("positioning_signals").select("asset, signal, prev_signal, signal_date")
+        .in("asset", assets).gte("signal_date", since).order("signal_date", { ascending: false })
+      : Promise.resolve({ data: [] }),
+    assets.length
+      ? supabase.from("trade_signals").select("asset, signal_type, status")
+        .in("asset", assets).in("status", ["active", "triggered"])
+      : Promise.resolve({ data: [] }),
+  ])
+
+  // Only the newest signal date counts — an older row's flip is old news.
+  const qpsRows = (qpsRes.data ?? []) as { asset: string; signal: string; prev_signal: string | null; signal_date: string }[]
+  const latestQpsDate = qpsRows[0]?.signal_date
+
+  const facts = personalFacts({
+    holdings,
+    watchlist,
+    moves,
+    risk: (riskRes.data ?? []) as { asset: string; risk_level: number; risk_date: string }[],
+    qps: qpsRows.filter((q) => q.signal_date === latestQpsDate),
+    tradeSignals: (signalRes.data ?? []) as { asset: string; signal_type: string; status: string }[],
+  })
+
+  const key = await cohortKey(facts)
+  let section: string | null = null
+  if (hasPersonalFacts(facts)) {
+    const { data: cohort } = await supabase
+      .from("personal_briefings")
+      .select("section")
+      .eq("summary_date", todayUTC)
+      .eq("slot", slot)
+      .eq("cohort_key", key)
+      .not("section", "is", null)
+      .limit(1)
+      .maybeSingle()
+    section = cohort?.section ?? await generatePersonalSection(shared.summary, facts, slot)
+    if (cohort) console.log(`Personal briefing: reused cohort ${key.slice(0, 8)} for ${user.id}`)
+    // Generation failed — don't cache, so the next request tries again
+    if (!section) return { section: null, facts, generatedAt: null }
+  }
+
+  const generatedAt = new Date().toISOString()
+  const { error: upsertErr } = await supabase
+    .from("personal_briefings")
+    .upsert({
+      user_id: user.id,
+      summary_date: todayUTC,
+      slot,
+      cohort_key: key,
+      section,
+      facts,
+      generated_at: generatedAt,
+    }, { onConflict: "user_id,summary_date,slot" })
+  if (upsertErr) console.error("Failed to cache personal briefing:", upsertErr.message)
+
+  return { section, facts, generatedAt }
+}
+
+/** 24h moves straight from the crypto cache, for briefings stored before context carried them. */
+async function cachedAssetMoves(supabase: ReturnType<typeof createClient>): Promise<Record<string, AssetMove>> {
+  const { data } = await supabase
+    .from("market_data_cache")
+    .select("data")
+    .eq("key", "crypto_assets_1_100")
+    .maybeSingle()
+  try {
+    const coins = data?.data ? (typeof data.data === "string" ? JSON.parse(data.data) : data.data) : []
+    return Array.isArray(coins) ? assetMovesFromCoins(coins) : {}
+  } catch {
+    return {}
+  }
+}
+
+async function generatePersonalSection(sharedSummary: string, facts: PersonalFacts, slot: string): Promise<string | null> {
+  const apiKey = Deno.env.get("ANTHROPIC_API_KEY")
+  if (!apiKey) {
+    console.error("ANTHROPIC_API_KEY not set")
+    return null
+  }
+  try {
+    const resp = await fetch("https://api.anthropic.com/v1/messages", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": "2023-06-01",
+      },
+      body: JSON.stringify({
+        model: "claude-haiku-4-5-20251001",
+        max_tokens: 300,
+        system: `You are writing a short "For You" paragraph that sits under ArkLine's shared ${slot} briefing. It speaks to one member about the assets they hold or watch.
+
+Rules:
+- 2-3 sentences, under 80 words. Speak directly ("your").
+- Mention only the assets and facts listed — lead with the most significant (a risk band change or trade signal outranks a small move).
+- Add context from the shared briefing only where it explains one of their assets; do not repeat the briefing.
+- Never give investment advice or say "buy" / "sell". No dollar amounts.
+- Plain text, no headers or bullet points.`,
+        messages: [
+          {
+            role: "user",
+            content: `SHARED BRIEFING:\n${sharedSummary}\n\nTHEIR ASSETS:\n${personalPromptLines(facts).join("\n")}\n\nWrite the paragraph.`,
+          },
+        ],
+      }),
+    })
+    if (!resp.ok) {
+      console.error(`Personal briefing Claude error: ${resp.status} ${await resp.text()}`)
+      return null
+    }
+    const data = await resp.json()
+    const text = String(data.content?.[0]?.text ?? "").trim()
+    return text || null
+  } catch (err) {
+    console.error("Personal briefing generation failed:", err instanceof Error ? err.message : String(err))
+    return null
+  }
+}
+
 // MARK: - Server-side data fetching for cron/fallback mode
 
 async function enrichPayloadFromServer(
@@ -956,6 +1208,9 @@ async function enrichPayloadFromServer(
           payload.solChange24h = sol.price_change_percentage_24h
         }
 
+        // Compact 24h moves for personalized sections (see personalBriefing)
+        payload.assetMoves = assetMovesFromCoins(assets)
+
         const topGainer = assets
           .filter((a: any) => a.price_change_percentage_24h > 0)
           .sort((a: any, b: any) => b.price_change_percentage_24h - a.price_change_percentage_24h)[0]
@@ -11,7 +11,7 @@ interface NotificationRequest {
   broadcast_id: string
   title: string
   body: string
-  event_type?: string  // e.g. "signal_new", "signal_t1_hit", "signal_stop_loss", "signal_runner_close", "signal_expiry"
+  event_type?: string  // e.g. "signal_new", "signal_t1_hit", "signal_stop_loss", "signal_runner_close", "signal_expiry", "price_alert"
   target_audience?: {
     type: "all" | "premium" | "specific"
     user_ids?: string[]
@@ -298,6 +298,7 @@ Deno.serve(async (req) => {
       const webUrl = et.startsWith("signal_") ? "/dashboard"
         : et === "dca_reminder" ? "/dashboard/dca"
         : et === "model_portfolio_rebalance" ? "/dashboard"
+        : et === "price_alert" ? "/dashboard/alerts"
         : "/dashboard/broadcasts"
 
       const webPayload = JSON.stringify({
@@ -384,6 +385,7 @@ Deno.serve(async (req) => {
       : event_type === "qps_change" ? "qps_change"
       : event_type === "dca_reminder" ? "dca_reminder"
       : event_type === "market_deck" ? "market_deck"
+      : event_type === "price_alert" ? "price_alert"
       : "broadcast"
 
     const payload: Record<string, unknown> = {
@@ -1,4 +1,11 @@
 import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { assetsIn } from "../_shared/assets.ts"
+import { binanceProvider, coinbaseProvider, createCandleFeed, krakenProvider, providerHealthKey } from "../_shared/candle_providers.ts"
+import { aggregateAfter } from "../_shared/candles.ts"
+import type { Candle, PriceRange } from "../_shared/candles.ts"
+import { isSlBreached, isT1Hit } from "../_shared/fibonacci/mod.ts"
+import type { ResolutionEvent } from "../_shared/fibonacci/mod.ts"
+import { round2 } from "../_shared/indicators.ts"
 
 /**
  * signal-monitor Edge Function
@@ -17,31 +24,8 @@ import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-
  *   - Sends push notifications on resolution events
  */
 
-const ASSETS = [
-  "BTC-USD", "ETH-USD", "SOL-USD", "SUI-USD", "LINK-USD", "ADA-USD",
-  "AVAX-USD", "RENDER-USD", "APT-USD", "HYPE-USD",
-  "ONDO-USD", "POL-USD", "BNB-USD", "ATOM-USD", "TIA-USD", "XRP-USD",
-  "INJ-USD", "DOGE-USD", "AAVE-USD", "PEPE-USD", "ENA-USD",
-  "FET-USD", "ARB-USD", "DOT-USD", "UNI-USD", "NEAR-USD",
-  "ALGO-USD", "FIL-USD", "ZEC-USD", "VET-USD",
-]
-
-const TICKER_MAP: Record<string, string> = Object.fromEntries(
-  ASSETS.map(a => [a, a.replace("-USD", "")])
-)
-
-// Binance symbol mapping (ticker → USDT pair)
-// Some tickers differ between Coinbase and Binance
-const BINANCE_MAP: Record<string, string> = {
-  BTC: "BTCUSDT", ETH: "ETHUSDT", SOL: "SOLUSDT", SUI: "SUIUSDT",
-  LINK: "LINKUSDT", ADA: "ADAUSDT", AVAX: "AVAXUSDT", RENDER: "RENDERUSDT",
-  APT: "APTUSDT", HYPE: "HYPEUSDT", ONDO: "ONDOUSDT", POL: "POLUSDT",
-  BNB: "BNBUSDT", ATOM: "ATOMUSDT", TIA: "TIAUSDT", XRP: "XRPUSDT",
-  INJ: "INJUSDT", DOGE: "DOGEUSDT", AAVE: "AAVEUSDT", PEPE: "PEPEUSDT",
-  ENA: "ENAUSDT", FET: "FETUSDT", ARB: "ARBUSDT", DOT: "DOTUSDT",
-  UNI: "UNIUSDT", NEAR: "NEARUSDT", ALGO: "ALGOUSDT", FIL: "FILUSDT",
-  ZEC: "ZECUSDT", VET: "VETUSDT",
-}
+// Every asset that may carry an open signal (current + benched pipeline assets)
+const ASSETS = assetsIn("signal_monitor")
 
 Deno.serve(async (req) => {
   if (req.method !== "POST") {
@@ -83,157 +67,63 @@ Deno.serve(async (req) => {
     ...allSignals.map((s: any) => s.asset),
     ...proximitySignals.map((s: any) => s.asset),
   ])
-  const symbolsToCheck = ASSETS.filter(sym => allAssetsNeeded.has(TICKER_MAP[sym]))
+  const assetsToCheck = ASSETS.filter(a => allAssetsNeeded.has(a.ticker))
 
-  if (symbolsToCheck.length === 0) {
+  if (assetsToCheck.length === 0) {
     return json({ resolved: 0, message: "No assets to check" })
   }
 
   // Fetch last 6 1H candles from BOTH Coinbase and Binance for dual-source verification.
-  // Coinbase = primary source, Binance = confirmation for SL checks.
-  // This prevents false stop-outs from exchange-specific wicks.
-  type CandleEntry = { start: number; high: number; low: number; close: number }
-  const rawCandles: Record<string, CandleEntry[]> = {}
-  const binanceCandles: Record<string, CandleEntry[]> = {}
-
-  // Fetch Coinbase candles
-  for (const symbol of symbolsToCheck) {
-    try {
-      const resp = await fetch(
-        `https://api.coinbase.com/api/v3/brokerage/market/products/${symbol}/candles?granularity=ONE_HOUR&limit=6`
-      )
-      if (resp.ok) {
-        const json = await resp.json()
-        const klines = json.candles ?? []
-        // Coinbase returns newest-first
-        rawCandles[TICKER_MAP[symbol]] = klines.map((k: any) => ({
-          start: Number(k.start) * 1000,  // unix ms
-          high: parseFloat(k.high),
-          low: parseFloat(k.low),
-          close: parseFloat(k.close),
-        }))
-      }
-    } catch (err) {
-      console.error(`Failed to fetch Coinbase ${symbol}: ${err}`)
+  // Coinbase = primary source (Kraken stands in when Coinbase is down, so the
+  // confirmation always comes from a different exchange), Binance =
+  // confirmation for SL checks. This prevents false stop-outs from
+  // exchange-specific wicks. Both series are stored oldest-first (shared
+  // Candle convention).
+  const rawCandles: Record<string, Candle[]> = {}
+  const binanceCandles: Record<string, Candle[]> = {}
+  const { data: healthRow } = await supabase
+    .from("market_data_cache")
+    .select("data")
+    .eq("key", providerHealthKey("signal-monitor"))
+    .maybeSingle()
+  const feed = createCandleFeed([coinbaseProvider, krakenProvider, binanceProvider], { health: healthRow?.data?.providers })
+
+  // Fetch primary candles
+  for (const asset of assetsToCheck) {
+    const result = await feed.fetchAsset(asset, { timeframe: "1h", limit: 6 }, ["coinbase", "kraken"])
+    if (result.provider) {
+      rawCandles[asset.ticker] = result.candles
+      if (result.failedOver.length > 0) console.warn(`${asset.ticker}: 1H candles from ${result.provider} (${result.errors.join("; ")})`)
+    } else {
+      console.error(`Failed to fetch 1H candles for ${asset.ticker}: ${result.errors.join("; ")}`)
     }
     await new Promise(r => setTimeout(r, 80))
   }
 
-  // Fetch Binance candles (data-api.binance.vision — public, no geo-block, no auth)
-  const sixHoursAgo = Date.now() - 6 * 3600000
-  for (const symbol of symbolsToCheck) {
-    const ticker = TICKER_MAP[symbol]
-    const binanceSym = BINANCE_MAP[ticker]
+  // Fetch Binance candles
+  for (const asset of assetsToCheck) {
+    const binanceSym = asset.binance
     if (!binanceSym) continue
     try {
-      const resp = await fetch(
-        `https://data-api.binance.vision/api/v3/klines?symbol=${binanceSym}&interval=1h&startTime=${sixHoursAgo}&limit=6`
-      )
-      if (resp.ok) {
-        const klines = await resp.json()
-        // Binance returns oldest-first as arrays: [openTime, open, high, low, close, ...]
-        binanceCandles[ticker] = klines.map((k: any) => ({
-          start: Number(k[0]),  // already ms
-          high: parseFloat(k[2]),
-          low: parseFloat(k[3]),
-          close: parseFloat(k[4]),
-        })).reverse()  // newest-first to match Coinbase format
-      }
+      binanceCandles[asset.ticker] = await feed.fetchFrom("binance", binanceSym, { timeframe: "1h", limit: 6 })
     } catch (err) {
       console.error(`Failed to fetch Binance ${binanceSym}: ${err}`)
     }
     await new Promise(r => setTimeout(r, 80))
   }
 
-  // Helper: aggregate candles only after a given timestamp
-  function aggregateAfter(ticker: string, afterMs: number): { high: number; low: number; close: number } | null {
-    const all = rawCandles[ticker]
-    if (!all || all.length === 0) return null
-    // Filter to candles that started at or after the signal trigger time
-    const valid = all.filter(c => c.start >= afterMs)
-    if (valid.length === 0) {
-      // No candle started after trigger — signal was created mid-candle.
-      // Return null to skip T1/SL checks this cycle (avoids using pre-trigger highs/lows).
-      return null
-    }
-    let aggHigh = -Infinity
-    let aggLow = Infinity
-    for (const c of valid) {
-      aggHigh = Math.max(aggHigh, c.high)
-      aggLow = Math.min(aggLow, c.low)
-    }
-    return { high: aggHigh, low: aggLow, close: valid[0].close }
-  }
-
-  // Binance aggregate helper (same logic as Coinbase)
-  function binanceAggregateAfter(ticker: string, afterMs: number): { high: number; low: number; close: number } | null {
-    const all = binanceCandles[ticker]
-    if (!all || all.length === 0) return null
-    const valid = all.filter(c => c.start >= afterMs)
-    if (valid.length === 0) {
-      // No candle started after trigger — skip to avoid pre-trigger data
-      return null
-    }
-    let aggHigh = -Infinity
-    let aggLow = Infinity
-    for (const c of valid) {
-      aggHigh = Math.max(aggHigh, c.high)
-      aggLow = Math.min(aggLow, c.low)
-    }
-    return { high: aggHigh, low: aggLow, close: valid[0].close }
-  }
+  await supabase.from("market_data_cache").upsert({
+    key: providerHealthKey("signal-monitor"),
+    data: { providers: feed.health() },
+    updated_at: new Date().toISOString(),
+  }, { onConflict: "key" })
 
-  // Simple latest-price lookup for proximity alerts
-  function latestPrice(ticker: string): { high: number; low: number; close: number } | null {
+  // Simple latest-price lookup for proximity alerts and runner trailing
+  function latestPrice(ticker: string): PriceRange | null {
     const all = rawCandles[ticker]
     if (!all || all.length === 0) return null
-    return { high: all[0].high, low: all[0].low, close: all[0].close }
-  }
-
-  // Dual-source T1 check: requires BOTH Coinbase and Binance to confirm target hit.
-  // If Binance data is unavailable, falls back to Coinbase-only.
-  // Prevents exchange-specific wicks from triggering false T1 hits.
-  function isT1Hit(
-    ticker: string, t1: number, isBuy: boolean,
-    cbCandle: { high: number; low: number },
-    triggerMs: number,
-  ): boolean {
-    const bnCandle = binanceAggregateAfter(ticker, triggerMs)
-
-    if (isBuy) {
-      const cbHit = cbCandle.high >= t1
-      if (!bnCandle) return cbHit  // Binance unavailable, fallback
-      const bnHit = bnCandle.high >= t1
-      return cbHit && bnHit   // Both must confirm
-    } else {
-      const cbHit = cbCandle.low <= t1
-      if (!bnCandle) return cbHit
-      const bnHit = bnCandle.low <= t1
-      return cbHit && bnHit
-    }
-  }
-
-  // Dual-source SL check: requires BOTH Coinbase and Binance to confirm breach.
-  // If Binance data is unavailable, falls back to Coinbase-only with buffer.
-  function isSlBreached(
-    ticker: string, sl: number, isBuy: boolean,
-    cbCandle: { high: number; low: number },
-    triggerMs: number,
-  ): boolean {
-    const SL_BUFFER_PCT = 0.003
-    const bnCandle = binanceAggregateAfter(ticker, triggerMs)
-
-    if (isBuy) {
-      const cbBreached = cbCandle.low <= sl * (1 - SL_BUFFER_PCT)
-      if (!bnCandle) return cbBreached  // Binance unavailable, fallback with buffer
-      const bnBreached = bnCandle.low <= sl
-      return cbBreached && bnBreached   // Both must confirm
-    } else {
-      const cbBreached = cbCandle.high >= sl * (1 + SL_BUFFER_PCT)
-      if (!bnCandle) return cbBreached
-      const bnBreached = bnCandle.high >= sl
-      return cbBreached && bnBreached
-    }
+    const last = all[all.length - 1]
+    return { high: last.high, low: last.low, close: last.close }
   }
 
   const now = new Date()
@@ -311,9 +201,12 @@ Deno.serve(async (req) => {
     }
 
     // Live monitoring below needs fresh candle/price data since the trigger.
-    const triggerMs = new Date(signal.triggered_at).getTime()
-    const candle = aggregateAfter(signal.asset, triggerMs)
+    // Per-signal aggregation — only candles after the trigger. Binance is the
+    // dual-source confirmation for T1/SL; without it the checks fall back to
+    // Coinbase-only (with a buffer on the stop).
+    const candle = aggregateAfter(rawCandles[signal.asset] ?? [], signal.triggered_at)
     if (!candle) continue
+    const bnCandle = aggregateAfter(binanceCandles[signal.asset] ?? [], signal.triggered_at)
     // Latest-only price for runner trailing (avoids stale highs/lows).
     const latest = latestPrice(signal.asset)
     if (!latest) continue
@@ -327,7 +220,7 @@ Deno.serve(async (req) => {
 
         // Phase 1: check SL then T1
         // Dual-source: both Coinbase AND Binance must confirm SL breach
-        if (isSlBreached(signal.asset, sl, isBuy, candle, triggerMs)) {
+        if (isSlBreached(sl, isBuy, candle, bnCandle)) {
           const pnl = ((sl - entryMid) / entryMid) * 100
           // Check if best price reached consider-profit zone (30% of entry→T1)
           const reachedConsiderProfit = t1 && bestPrice >= entryMid + (t1 - entryMid) * 0.3
@@ -345,8 +238,7 @@ Deno.serve(async (req) => {
           continue
         }
 
-        if (t1 && isT1Hit(signal.asset, t1, true, candle, triggerMs)) {
-          const bnCandle = binanceAggregateAfter(signal.asset, triggerMs)
+        if (t1 && isT1Hit(t1, true, candle, bnCandle)) {
           console.log(`T1 HIT (buy) ${signal.asset}: T1=$${t1}, CB high=$${candle.high}, BN high=$${bnCandle?.high ?? "N/A"}, entry=$${entryMid}, trigger=${signal.triggered_at}`)
           const t1Pnl = ((t1 - entryMid) / entryMid) * 100
           const { count: cT1a } = await supabase.from("trade_signals").update({
@@ -431,7 +323,7 @@ Deno.serve(async (req) => {
         worstPrice = Math.max(worstPrice, candle.high)
 
         // Dual-source: both Coinbase AND Binance must confirm SL breach
-        if (isSlBreached(signal.asset, sl, isBuy, candle, triggerMs)) {
+        if (isSlBreached(sl, isBuy, candle, bnCandle)) {
           const pnl = ((entryMid - sl) / entryMid) * 100
           // Check if best price reached consider-profit zone (30% of entry→T1)
           const reachedConsiderProfit = t1 && bestPrice <= entryMid - (entryMid - t1) * 0.3
@@ -449,8 +341,7 @@ Deno.serve(async (req) => {
           continue
         }
 
-        if (t1 && isT1Hit(signal.asset, t1, false, candle, triggerMs)) {
-          const bnCandle = binanceAggregateAfter(signal.asset, triggerMs)
+        if (t1 && isT1Hit(t1, false, candle, bnCandle)) {
           console.log(`T1 HIT (short) ${signal.asset}: T1=$${t1}, CB low=$${candle.low}, BN low=$${bnCandle?.low ?? "N/A"}, entry=$${entryMid}, trigger=${signal.triggered_at}`)
           const t1Pnl = ((entryMid - t1) / entryMid) * 100
           const { count: cT1b } = await supabase.from("trade_signals").update({
@@ -662,7 +553,7 @@ async function sendSignalAlert(
 
 // ─── Notification Helper ────────────────────────────────────────────────────
 
-type EventType = "stop_loss" | "t1_hit" | "runner_win" | "runner_loss" | "expired_win" | "expired_loss"
+type EventType = ResolutionEvent
 
 async function notify(
   supabaseUrl: string,
@@ -682,6 +573,7 @@ async function notify(
 
   switch (event) {
     case "stop_loss":
+    case "stop_loss_partial":
       emoji = "🛑"
       title = `${emoji} ${ticker} ${direction} — Stop Loss Hit`
       body = `Closed at ${priceStr}. ${formatPnl(signal, price)}`
@@ -706,6 +598,7 @@ async function notify(
       title = `${emoji} ${ticker} ${direction} — Expired (Profit)`
       body = `Signal expired at ${priceStr}. ${formatOutcome(signal)}`
       break
+    case "expired_partial":
     case "expired_loss":
       emoji = "⏰"
       title = `${emoji} ${ticker} ${direction} — Expired`
@@ -716,10 +609,12 @@ async function notify(
   // Map event to preference key
   const eventTypeMap: Record<EventType, string> = {
     stop_loss: "signal_stop_loss",
+    stop_loss_partial: "signal_stop_loss",
     t1_hit: "signal_t1_hit",
     runner_win: "signal_runner_close",
     runner_loss: "signal_runner_close",
     expired_win: "signal_expiry",
+    expired_partial: "signal_expiry",
     expired_loss: "signal_expiry",
   }
 
@@ -766,10 +661,6 @@ function formatOutcome(signal: any): string {
 
 // ─── Utilities ──────────────────────────────────────────────────────────────
 
-function round2(n: number): number {
-  return Math.round(n * 100) / 100
-}
-
 function hoursSince(from: string, to: Date): number {
   return Math.round((to.getTime() - new Date(from).getTime()) / 3600000)
 }
@@ -0,0 +1,225 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import {
+  DEFAULT_PARAMS,
+  resolveParams,
+  simulateStrategy,
+  STRATEGIES,
+} from "../_shared/model_portfolio_engine.ts"
+import type { ParamOverrides, Signal, SimDay, Strategy } from "../_shared/model_portfolio_engine.ts"
+
+/**
+ * simulate-model-portfolio Edge Function (admin only)
+ *
+ * What-if replay of a model portfolio strategy over stored history with
+ * alternate parameters (_shared/model_portfolio_engine.ts).
+ *
+ * POST { "strategy": "edge", "params"?: { "durableFloors": { "edge": { "BTC": 0.2 } } },
+ *        "days"?: 365, "from"?: "2025-01-01", "to"?: "2025-12-31" }
+ *
+ * Each day's signals come from positioning_signal_history and the BTC risk
+ * level from model_portfolio_risk_history (latest reading on or before the
+ * day; Neutral before the first). Prices are the history's daily closes;
+ * PAXG follows the GOLD close. The same days are replayed twice — with the
+ * overrides and with DEFAULT_PARAMS — and returned alongside the NAV the
+ * live portfolio recorded over the window.
+ */
+
+const DEFAULT_DAYS = 365
+const MAX_DAYS = 1825
+const DAY_MS = 86_400_000
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") ?? "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+)
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "https://web.arkline.io",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  })
+}
+
+async function verifyAdmin(req: Request) {
+  const authHeader = req.headers.get("Authorization")
+  if (!authHeader) return null
+
+  const token = authHeader.replace("Bearer ", "")
+  const { data: { user }, error } = await supabase.auth.getUser(token)
+  if (error || !user) return null
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single()
+
+  if (profile?.role !== "admin") return null
+  return user
+}
+
+interface HistoryRow {
+  asset: string
+  category: string | null
+  signal_date: string
+  signal: string
+  trend_score: number
+  price: number
+}
+
+// PostgREST caps a response at 1000 rows — page through
+async function fetchHistory(from: string, to: string): Promise<HistoryRow[]> {
+  const rows: HistoryRow[] = []
+  for (let offset = 0; ; offset += 1000) {
+    const { data, error } = await supabase
+      .from("positioning_signal_history")
+      .select("asset, category, signal_date, signal, trend_score, price")
+      .gte("signal_date", from)
+      .lte("signal_date", to)
+      .order("signal_date", { ascending: true })
+      .order("asset", { ascending: true })
+      .range(offset, offset + 999)
+    if (error) throw error
+    rows.push(...((data ?? []) as HistoryRow[]))
+    if (!data || data.length < 1000) break
+  }
+  return rows
+}
+
+async function fetchBtcRisk(to: string): Promise<{ risk_date: string; risk_level: number }[]> {
+  const rows: { risk_date: string; risk_level: number }[] = []
+  for (let offset = 0; ; offset += 1000) {
+    const { data, error } = await supabase
+      .from("model_portfolio_risk_history")
+      .select("risk_date, risk_level")
+      .eq("asset", "BTC")
+      .lte("risk_date", to)
+      .order("risk_date", { ascending: true })
+      .range(offset, offset + 999)
+    if (error) throw error
+    rows.push(...((data ?? []) as { risk_date: string; risk_level: number }[]))
+    if (!data || data.length < 1000) break
+  }
+  return rows
+}
+
+async function fetchLiveNav(strategy: Strategy, from: string, to: string): Promise<{ date: string; nav: number }[]> {
+  const { data: portfolio } = await supabase
+    .from("model_portfolios")
+    .select("id")
+    .eq("strategy", strategy)
+    .maybeSingle()
+  if (!portfolio) return []
+
+  const { data, error } = await supabase
+    .from("model_portfolio_nav")
+    .select("nav_date, nav")
+    .eq("portfolio_id", portfolio.id)
+    .gte("nav_date", from)
+    .lte("nav_date", to)
+    .order("nav_date", { ascending: true })
+    .limit(MAX_DAYS + 1)
+  if (error) throw error
+  return (data ?? []).map((r: { nav_date: string; nav: number }) => ({ date: r.nav_date, nav: Number(r.nav) }))
+}
+
+/** Groups history rows into replay days, oldest first. */
+function buildDays(rows: HistoryRow[], risk: { risk_date: string; risk_level: number }[]): SimDay[] {
+  const byDate = new Map<string, HistoryRow[]>()
+  for (const r of rows) {
+    const list = byDate.get(r.signal_date) ?? []
+    list.push(r)
+    byDate.set(r.signal_date, list)
+  }
+
+  const days: SimDay[] = []
+  let ri = -1
+  for (const [date, list] of [...byDate.entries()].sort((a, b) => a[0].localeCompare(b[0]))) {
+    while (ri + 1 < risk.length && risk[ri + 1].risk_date <= date) ri++
+
+    const prices: Record<string, number> = {}
+    for (const r of list) {
+      if (r.category === "crypto") prices[r.asset] = Number(r.price)
+      if (r.asset === "GOLD") prices.PAXG = Number(r.price)
+    }
+    days.push({
+      date,
+      signals: list.map((r): Signal => ({
+        asset: r.asset,
+        signal: r.signal,
+        trend_score: Number(r.trend_score),
+        category: r.category ?? "",
+      })),
+      btcRiskLevel: ri >= 0 ? Number(risk[ri].risk_level) : null,
+      prices,
+    })
+  }
+  return days
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders })
+  }
+
+  const admin = await verifyAdmin(req)
+  if (!admin) {
+    return jsonResponse({ error: "Admin access required" }, 403)
+  }
+
+  let body: Record<string, unknown> = {}
+  try {
+    body = (await req.json()) ?? {}
+  } catch { /* empty body = defaults */ }
+
+  const strategy = (STRATEGIES as string[]).includes(body.strategy as string) ? (body.strategy as Strategy) : "edge"
+  const to = typeof body.to === "string" ? body.to : new Date().toISOString().slice(0, 10)
+  const earliest = new Date(Date.parse(to) - MAX_DAYS * DAY_MS).toISOString().slice(0, 10)
+  const days = Math.min(Math.max(Number(body.days) || DEFAULT_DAYS, 1), MAX_DAYS)
+  const from = typeof body.from === "string"
+    ? (body.from < earliest ? earliest : body.from)
+    : new Date(Date.parse(to) - days * DAY_MS).toISOString().slice(0, 10)
+  if (from > to) {
+    return jsonResponse({ error: "from must be on or before to" }, 400)
+  }
+  const params = resolveParams((body.params ?? {}) as ParamOverrides)
+
+  try {
+    const [rows, risk, live] = await Promise.all([
+      fetchHistory(from, to),
+      fetchBtcRisk(to),
+      fetchLiveNav(strategy, from, to),
+    ])
+    const replay = buildDays(rows, risk)
+    if (replay.length < 2) {
+      return jsonResponse({ error: "Not enough signal history in this window — run a QPS backfill first" }, 404)
+    }
+
+    const variant = simulateStrategy(strategy, replay, params)
+    const baseline = simulateStrategy(strategy, replay, DEFAULT_PARAMS)
+    console.log(`[simulate-model-portfolio] ${strategy} ${from}..${to}: ${replay.length} days, ${rows.length} signals`)
+
+    return jsonResponse({
+      strategy,
+      from: replay[0].date,
+      to: replay[replay.length - 1].date,
+      params,
+      defaults: DEFAULT_PARAMS,
+      variant,
+      baseline,
+      live,
+      coverage: {
+        days: replay.length,
+        riskDays: replay.filter((d) => d.btcRiskLevel != null).length,
+      },
+    })
+  } catch (err) {
+    console.error("simulate-model-portfolio error:", err)
+    return jsonResponse({ error: "Internal server error" }, 500)
+  }
+})
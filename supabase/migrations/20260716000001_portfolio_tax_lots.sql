@@ -0,0 +1,55 @@
+-- Tax-lot accounting for user portfolios.
+-- Every buy / transfer_in opens a lot; every sell relieves lots by the method
+-- recorded on the sell (the portfolio default at the time, or lots the user
+-- picked under Specific ID). Lots and the per-sell allocations are derived
+-- state: the web client rebuilds them from the symbol's ledger whenever a
+-- transaction is recorded or deleted.
+-- Sells recorded before this migration carry no lot_method; the first
+-- rebuild of their symbol relieves them FIFO and pins the method.
+
+ALTER TABLE portfolios ADD COLUMN IF NOT EXISTS cost_basis_method TEXT NOT NULL DEFAULT 'fifo'
+  CHECK (cost_basis_method IN ('fifo', 'lifo', 'hifo', 'specific'));
+
+COMMENT ON COLUMN portfolios.cost_basis_method IS 'Default lot relief method for new sells: fifo | lifo | hifo | specific';
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS lot_method TEXT
+  CHECK (lot_method IN ('fifo', 'lifo', 'hifo', 'specific'));
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS lot_selections JSONB;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS lot_allocations JSONB;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS short_term_gain NUMERIC;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS long_term_gain NUMERIC;
+
+COMMENT ON COLUMN transactions.lot_method IS 'Lot relief method used by this sell';
+COMMENT ON COLUMN transactions.lot_selections IS 'Specific ID picks: [{"lot_id": <buy transaction id>, "quantity": n}]';
+COMMENT ON COLUMN transactions.lot_allocations IS 'Lots relieved: [{"lot_id", "acquired_at", "quantity", "cost_basis", "proceeds", "fees", "term"}]';
+COMMENT ON COLUMN transactions.short_term_gain IS 'Realized gain on lots held one year or less';
+COMMENT ON COLUMN transactions.long_term_gain IS 'Realized gain on lots held more than one year';
+
+CREATE TABLE IF NOT EXISTS public.tax_lots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  portfolio_id UUID NOT NULL REFERENCES portfolios(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL UNIQUE REFERENCES transactions(id) ON DELETE CASCADE,
+  symbol TEXT NOT NULL,
+  acquired_at TIMESTAMPTZ NOT NULL,
+  quantity NUMERIC NOT NULL,
+  remaining_quantity NUMERIC NOT NULL,
+  cost_per_unit NUMERIC NOT NULL,            -- fee-inclusive
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tax_lots_portfolio_symbol_idx ON public.tax_lots (portfolio_id, symbol, acquired_at);
+
+ALTER TABLE public.tax_lots ENABLE ROW LEVEL SECURITY;
+
+do $$ begin
+  create policy tax_lots_owner_all on public.tax_lots
+    for all to authenticated
+    using (exists (
+      select 1 from portfolios
+      where portfolios.id = tax_lots.portfolio_id and portfolios.user_id = auth.uid()
+    ))
+    with check (exists (
+      select 1 from portfolios
+      where portfolios.id = tax_lots.portfolio_id and portfolios.user_id = auth.uid()
+    ));
+exception when duplicate_object then null; end $$;
@@ -0,0 +1,12 @@
+-- Exchange CSV import: remember where each imported fill came from so a
+-- re-import of the same file is recognized as duplicates.
+-- Format: "<exchange>:<exchange trade id>", or a natural key
+-- ("<exchange>:<iso date>|<symbol>|<side>|<qty>|<price>") when the export has no id.
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+COMMENT ON COLUMN transactions.external_id IS 'Source of an imported fill, e.g. kraken:TQ3HPQ-…; null for manual entries';
+
+CREATE INDEX IF NOT EXISTS transactions_external_id_idx
+  ON transactions (portfolio_id, external_id)
+  WHERE external_id IS NOT NULL;
@@ -0,0 +1,64 @@
+-- User-defined alert rules, evaluated server-side by the evaluate-alerts edge
+-- function and delivered through send-broadcast-notification (web push +
+-- APNs, event_type 'price_alert').
+-- A rule fires when its condition turns true, so the evaluator keeps the last
+-- observation and condition state on the rule. alert_events is the delivery
+-- log; its unique (rule_id, dedupe_key) makes a retried run a no-op.
+
+CREATE TABLE IF NOT EXISTS public.alert_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL
+    CHECK (kind IN ('price_cross', 'change_24h', 'risk_band', 'arkline_score', 'qps_flip')),
+  asset TEXT,                                 -- upper-case ticker; null for arkline_score
+  direction TEXT CHECK (direction IN ('above', 'below', 'either')),
+  threshold NUMERIC,                          -- USD price, % change, or score
+  band TEXT
+    CHECK (band IN ('very_low', 'low', 'neutral', 'elevated', 'high', 'extreme')),
+  cooldown_minutes INTEGER NOT NULL DEFAULT 60 CHECK (cooldown_minutes >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_value JSONB,
+  last_state BOOLEAN,
+  last_evaluated_at TIMESTAMPTZ,
+  last_triggered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (kind = 'arkline_score' OR asset IS NOT NULL),
+  CHECK (kind NOT IN ('price_cross', 'change_24h', 'arkline_score') OR threshold IS NOT NULL),
+  CHECK (kind <> 'risk_band' OR band IS NOT NULL)
+);
+
+COMMENT ON COLUMN public.alert_rules.last_value IS 'Last observation (number, or QPS signal string) — crossing / flip detection';
+COMMENT ON COLUMN public.alert_rules.last_state IS 'Whether the condition held at the last evaluation; null until first seen';
+
+CREATE INDEX IF NOT EXISTS alert_rules_user_idx ON public.alert_rules (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS alert_rules_active_idx ON public.alert_rules (is_active) WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS public.alert_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  rule_id UUID NOT NULL REFERENCES public.alert_rules(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT,
+  observed JSONB,
+  dedupe_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (rule_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS alert_events_user_idx ON public.alert_events (user_id, created_at DESC);
+
+ALTER TABLE public.alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_events ENABLE ROW LEVEL SECURITY;
+
+do $$ begin
+  create policy alert_rules_owner_all on public.alert_rules
+    for all to authenticated
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+exception when duplicate_object then null; end $$;
+
+do $$ begin
+  create policy alert_events_owner_read on public.alert_events
+    for select to authenticated
+    using (user_id = auth.uid());
+exception when duplicate_object then null; end $$;
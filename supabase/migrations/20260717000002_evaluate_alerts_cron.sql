@@ -0,0 +1,18 @@
+-- Evaluate user alert rules every 5 minutes, offset a minute behind
+-- sync-crypto-prices so prices in market_data_cache are fresh.
+
+SELECT cron.unschedule('evaluate-alerts') WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'evaluate-alerts'
+);
+
+SELECT cron.schedule(
+  'evaluate-alerts',
+  '1-59/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://mprbbjgrshfbupheuscn.supabase.co/functions/v1/evaluate-alerts',
+    headers := '{"Content-Type": "application/json", "x-cron-secret": "arkline-cron-2026"}'::jsonb,
+    body := '{}'::jsonb
+  ) AS request_id;
+  $$
+);
@@ -0,0 +1,63 @@
+-- QPS signal history for walk-forward validation.
+-- compute-positioning-signals writes one row per asset per day: the live run
+-- records the signal it published (source 'live'), { "mode": "backfill" }
+-- replays earlier days through the same scoring (source 'backfill').
+-- { "mode": "evaluate" } scores the history against forward returns and keeps
+-- each report in qps_evaluations so threshold variants can be compared.
+
+CREATE TABLE IF NOT EXISTS public.positioning_signal_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  asset TEXT NOT NULL,
+  category TEXT
+    CHECK (category IS NULL OR category IN ('crypto', 'index', 'macro', 'commodity', 'stock', 'alt_btc')),
+  signal_date DATE NOT NULL,
+  signal TEXT NOT NULL CHECK (signal IN ('bullish', 'neutral', 'bearish')),
+  trend_score NUMERIC NOT NULL,
+  rsi NUMERIC,
+  price NUMERIC NOT NULL,
+  above_200_sma BOOLEAN NOT NULL DEFAULT false,
+  has_200_sma BOOLEAN NOT NULL DEFAULT false,
+  above_21_sma BOOLEAN,
+  above_50_sma BOOLEAN,
+  source TEXT NOT NULL DEFAULT 'live' CHECK (source IN ('live', 'backfill')),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(asset, signal_date)
+);
+
+COMMENT ON COLUMN public.positioning_signal_history.price IS 'Daily candle close (not the display price) — forward returns are measured from it';
+COMMENT ON COLUMN public.positioning_signal_history.has_200_sma IS 'Window had 200+ candles, i.e. the 70 (not 62) bullish threshold applied';
+
+CREATE INDEX IF NOT EXISTS idx_positioning_signal_history_asset_date
+  ON public.positioning_signal_history(asset, signal_date);
+
+CREATE TABLE IF NOT EXISTS public.qps_evaluations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  thresholds JSONB NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT true,
+  assets TEXT[],
+  date_from DATE,
+  date_to DATE,
+  observations INTEGER NOT NULL,
+  report JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.qps_evaluations.assets IS 'Asset filter the run used; null = every asset in the history';
+
+CREATE INDEX IF NOT EXISTS idx_qps_evaluations_created
+  ON public.qps_evaluations(created_at DESC);
+
+-- RLS: history is readable like positioning_signals; evaluations are admin-only.
+-- Writes come from the edge function with the service role.
+ALTER TABLE public.positioning_signal_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.qps_evaluations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read positioning_signal_history" ON public.positioning_signal_history;
+CREATE POLICY "Authenticated users can read positioning_signal_history"
+  ON public.positioning_signal_history FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Admins can read qps_evaluations" ON public.qps_evaluations;
+CREATE POLICY "Admins can read qps_evaluations"
+  ON public.qps_evaluations FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
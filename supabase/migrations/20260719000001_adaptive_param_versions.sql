@@ -0,0 +1,141 @@
+-- Versioned adaptive parameters for the signal pipeline.
+-- compute-signal-analytics appends one row per nightly run with the params it
+-- derived and the analytics inputs behind them. fibonacci-pipeline applies the
+-- pinned version if there is one, else the newest, and stamps every
+-- trade_signals row it inserts with that version.
+-- Admins can pin a version (nightly runs keep recording but stop taking
+-- effect) or roll back (the old params are re-issued as a new version).
+
+CREATE TABLE IF NOT EXISTS public.adaptive_param_versions (
+  version INTEGER GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  params JSONB NOT NULL,
+  inputs JSONB,
+  source TEXT NOT NULL DEFAULT 'computed' CHECK (source IN ('computed', 'rollback')),
+  rolled_back_from INTEGER REFERENCES public.adaptive_param_versions(version),
+  is_pinned BOOLEAN NOT NULL DEFAULT false,
+  pinned_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.adaptive_param_versions.params IS 'AdaptiveParams as consumed by fibonacci-pipeline (paused_assets, direction_bonus, min_rr, min_score, state, ...)';
+COMMENT ON COLUMN public.adaptive_param_versions.inputs IS 'Analytics the params were derived from (system + per-asset rolling/all-time stats); null for rollbacks';
+COMMENT ON COLUMN public.adaptive_param_versions.rolled_back_from IS 'For source = rollback: the version whose params were re-issued';
+
+-- At most one pinned version
+CREATE UNIQUE INDEX IF NOT EXISTS idx_adaptive_param_versions_pinned
+  ON public.adaptive_param_versions(is_pinned) WHERE is_pinned;
+
+-- Seed version 1 with the params currently in effect so the pipeline and the
+-- admin history start from them rather than defaults until the next nightly run.
+INSERT INTO public.adaptive_param_versions (params, inputs, source, created_at)
+SELECT c.data->'adaptive',
+       jsonb_build_object('system', c.data->'system', 'assets', c.data->'assets'),
+       'computed',
+       COALESCE((c.data->>'computed_at')::timestamptz, c.updated_at, now())
+  FROM public.market_data_cache c
+ WHERE c.key = 'signal_analytics'
+   AND jsonb_typeof(c.data->'adaptive') = 'object'
+   AND NOT EXISTS (SELECT 1 FROM public.adaptive_param_versions);
+
+UPDATE public.market_data_cache c
+   SET data = c.data || jsonb_build_object('adaptive_version', v.version)
+  FROM public.adaptive_param_versions v
+ WHERE c.key = 'signal_analytics'
+   AND v.version = 1
+   AND NOT c.data ? 'adaptive_version';
+
+ALTER TABLE public.trade_signals
+  ADD COLUMN IF NOT EXISTS adaptive_params_version INTEGER REFERENCES public.adaptive_param_versions(version);
+
+COMMENT ON COLUMN public.trade_signals.adaptive_params_version IS 'Adaptive parameter version in effect when the pipeline generated the signal; null = defaults / pre-versioning';
+
+CREATE INDEX IF NOT EXISTS idx_trade_signals_adaptive_params_version
+  ON public.trade_signals(adaptive_params_version);
+
+-- RLS: admin read. Writes come from compute-signal-analytics (service role)
+-- and the admin functions below.
+ALTER TABLE public.adaptive_param_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read adaptive_param_versions" ON public.adaptive_param_versions;
+CREATE POLICY "Admins can read adaptive_param_versions"
+  ON public.adaptive_param_versions FOR SELECT
+  USING (public.is_admin());
+
+-- Keep the signal_analytics cache (read by the app) showing the params in effect.
+CREATE OR REPLACE FUNCTION public.sync_signal_analytics_adaptive(target INTEGER)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE market_data_cache c
+     SET data = jsonb_set(c.data, '{adaptive}', v.params) || jsonb_build_object('adaptive_version', v.version),
+         updated_at = now()
+    FROM adaptive_param_versions v
+   WHERE c.key = 'signal_analytics' AND v.version = target;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_signal_analytics_adaptive(INTEGER) FROM PUBLIC;
+
+-- Pin a version; pass NULL to unpin and return to the newest version.
+CREATE OR REPLACE FUNCTION public.pin_adaptive_params(target INTEGER)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  active INTEGER;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Admin only' USING ERRCODE = '42501';
+  END IF;
+  IF target IS NOT NULL AND NOT EXISTS (SELECT 1 FROM adaptive_param_versions WHERE version = target) THEN
+    RAISE EXCEPTION 'Unknown adaptive params version %', target;
+  END IF;
+
+  UPDATE adaptive_param_versions SET is_pinned = false, pinned_at = NULL WHERE is_pinned;
+  IF target IS NOT NULL THEN
+    UPDATE adaptive_param_versions SET is_pinned = true, pinned_at = now() WHERE version = target;
+  END IF;
+
+  SELECT COALESCE(target, max(version)) INTO active FROM adaptive_param_versions;
+  PERFORM public.sync_signal_analytics_adaptive(active);
+END;
+$$;
+
+-- Re-issue an earlier version's params as the newest version. A pin, if any,
+-- is cleared so the rollback takes effect immediately; the next nightly run
+-- supersedes it unless the new version is pinned.
+CREATE OR REPLACE FUNCTION public.rollback_adaptive_params(target INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_version INTEGER;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Admin only' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO adaptive_param_versions (params, source, rolled_back_from, created_by)
+  SELECT params, 'rollback', version, auth.uid()
+    FROM adaptive_param_versions
+   WHERE version = target
+  RETURNING version INTO new_version;
+
+  IF new_version IS NULL THEN
+    RAISE EXCEPTION 'Unknown adaptive params version %', target;
+  END IF;
+
+  UPDATE adaptive_param_versions SET is_pinned = false, pinned_at = NULL WHERE is_pinned;
+  PERFORM public.sync_signal_analytics_adaptive(new_version);
+  RETURN new_version;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.pin_adaptive_params(INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rollback_adaptive_params(INTEGER) TO authenticated;
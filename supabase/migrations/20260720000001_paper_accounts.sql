@@ -0,0 +1,43 @@
+-- Paper-trading accounts: one simulated account per user that follows the
+-- trade signals of the tiers they subscribe to (4h swing, 1h scalp).
+-- The simulation itself runs client-side over trade_signals; this row only
+-- holds the account settings. Resetting the account moves started_at.
+
+CREATE TABLE IF NOT EXISTS public.paper_accounts (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  starting_balance NUMERIC NOT NULL DEFAULT 10000 CHECK (starting_balance > 0),
+  risk_mode TEXT NOT NULL DEFAULT 'signal' CHECK (risk_mode IN ('signal', 'fixed')),
+  risk_pct NUMERIC NOT NULL DEFAULT 1 CHECK (risk_pct > 0 AND risk_pct <= 10),
+  fee_pct NUMERIC NOT NULL DEFAULT 0.1 CHECK (fee_pct >= 0 AND fee_pct <= 2),
+  slippage_pct NUMERIC NOT NULL DEFAULT 0.05 CHECK (slippage_pct >= 0 AND slippage_pct <= 2),
+  max_exposure NUMERIC NOT NULL DEFAULT 1 CHECK (max_exposure > 0 AND max_exposure <= 5),
+  tiers TEXT[] NOT NULL DEFAULT ARRAY['swing']
+    CHECK (tiers <@ ARRAY['swing', 'scalp']),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.paper_accounts.risk_mode IS 'signal = size by each signal''s suggested_risk_pct, fixed = always risk_pct';
+COMMENT ON COLUMN public.paper_accounts.max_exposure IS 'Open notional cap as a multiple of equity; entries beyond it are scaled down or skipped';
+
+ALTER TABLE public.paper_accounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own paper account" ON public.paper_accounts;
+CREATE POLICY "Users can read own paper account"
+  ON public.paper_accounts FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own paper account" ON public.paper_accounts;
+CREATE POLICY "Users can insert own paper account"
+  ON public.paper_accounts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own paper account" ON public.paper_accounts;
+CREATE POLICY "Users can update own paper account"
+  ON public.paper_accounts FOR UPDATE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own paper account" ON public.paper_accounts;
+CREATE POLICY "Users can delete own paper account"
+  ON public.paper_accounts FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,47 @@
+-- DCA execution tracking: one row per purchase logged against a DCA reminder.
+-- The iOS app already reads dca_investments (reminder_id, amount,
+-- price_at_purchase, quantity, purchase_date); create it where it is missing
+-- and add what the analytics view needs.
+--
+-- scheduled_date is the schedule slot the purchase's date falls in, so an
+-- early or late buy still counts toward the right slot. transaction_id links
+-- the portfolio transaction the purchase created; deleting that transaction
+-- deletes the purchase too, so the DCA and portfolio views cannot disagree.
+
+CREATE TABLE IF NOT EXISTS public.dca_investments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reminder_id UUID NOT NULL REFERENCES public.dca_reminders(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  price_at_purchase NUMERIC NOT NULL CHECK (price_at_purchase > 0),
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  purchase_date TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.dca_investments
+  ADD COLUMN IF NOT EXISTS scheduled_date DATE,
+  ADD COLUMN IF NOT EXISTS transaction_id UUID REFERENCES public.transactions(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN public.dca_investments.scheduled_date IS 'Schedule slot this purchase fulfils (the slot its date falls in)';
+COMMENT ON COLUMN public.dca_investments.transaction_id IS 'Portfolio buy created with the purchase; cascades so a deleted transaction removes the purchase';
+
+CREATE INDEX IF NOT EXISTS idx_dca_investments_reminder
+  ON public.dca_investments (reminder_id, purchase_date);
+
+ALTER TABLE public.dca_investments ENABLE ROW LEVEL SECURITY;
+
+-- Ownership follows the reminder
+DROP POLICY IF EXISTS "Users can read own DCA investments" ON public.dca_investments;
+CREATE POLICY "Users can read own DCA investments"
+  ON public.dca_investments FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.dca_reminders r WHERE r.id = reminder_id AND r.user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Users can insert own DCA investments" ON public.dca_investments;
+CREATE POLICY "Users can insert own DCA investments"
+  ON public.dca_investments FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM public.dca_reminders r WHERE r.id = reminder_id AND r.user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Users can delete own DCA investments" ON public.dca_investments;
+CREATE POLICY "Users can delete own DCA investments"
+  ON public.dca_investments FOR DELETE
+  USING (EXISTS (SELECT 1 FROM public.dca_reminders r WHERE r.id = reminder_id AND r.user_id = auth.uid()));
@@ -0,0 +1,13 @@
+-- Risk-adjusted DCA: scale each scheduled buy by the asset's regression risk
+-- band (model_portfolio_risk_history) instead of buying a fixed amount.
+-- amount stays the base buy; risk_multipliers holds the per-band multiple of
+-- it, keyed very_low / low / neutral / elevated / high / extreme. Missing keys
+-- fall back to the app defaults, so NULL means "use the defaults".
+
+ALTER TABLE public.dca_reminders
+  ADD COLUMN IF NOT EXISTS strategy TEXT NOT NULL DEFAULT 'fixed'
+    CHECK (strategy IN ('fixed', 'risk_adjusted')),
+  ADD COLUMN IF NOT EXISTS risk_multipliers JSONB;
+
+COMMENT ON COLUMN public.dca_reminders.strategy IS 'fixed buys amount every time; risk_adjusted scales it by the current risk band';
+COMMENT ON COLUMN public.dca_reminders.risk_multipliers IS 'Per-band multiple of amount for risk_adjusted plans (0 skips the buy)';
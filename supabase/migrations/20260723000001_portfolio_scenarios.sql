@@ -0,0 +1,45 @@
+-- Portfolio stress testing: saved scenarios and per-portfolio loss limits.
+-- A scenario is either a set of factor shocks (percent moves of btc / spy /
+-- gold) or a historical window whose factor moves the app measures. It is
+-- user-level, so the same scenario can be re-run against any portfolio;
+-- saved_result keeps the outcome at save time to compare later runs with.
+
+CREATE TABLE IF NOT EXISTS public.portfolio_scenarios (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  kind TEXT NOT NULL CHECK (kind IN ('shock', 'episode')),
+  shocks JSONB NOT NULL DEFAULT '{}'::jsonb,
+  window_start DATE,
+  window_end DATE,
+  saved_result JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (kind <> 'episode' OR (window_start IS NOT NULL AND window_end IS NOT NULL AND window_start < window_end))
+);
+
+COMMENT ON COLUMN public.portfolio_scenarios.shocks IS 'Percent move per factor for shock scenarios, e.g. {"btc": -40, "gold": 10}';
+COMMENT ON COLUMN public.portfolio_scenarios.saved_result IS 'Outcome when saved: portfolio_id, value, projected, change_pct, run_at';
+
+CREATE INDEX IF NOT EXISTS portfolio_scenarios_user_idx ON public.portfolio_scenarios (user_id, created_at DESC);
+
+ALTER TABLE public.portfolio_scenarios ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can select own portfolio_scenarios"
+  ON public.portfolio_scenarios FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own portfolio_scenarios"
+  ON public.portfolio_scenarios FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own portfolio_scenarios"
+  ON public.portfolio_scenarios FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Loss limits the stress test measures scenarios against
+ALTER TABLE public.portfolios
+  ADD COLUMN IF NOT EXISTS loss_limit_pct NUMERIC CHECK (loss_limit_pct > 0 AND loss_limit_pct <= 100),
+  ADD COLUMN IF NOT EXISTS loss_limit_value NUMERIC CHECK (loss_limit_value >= 0);
+
+COMMENT ON COLUMN public.portfolios.loss_limit_pct IS 'Largest acceptable loss in a stress scenario, percent of value';
+COMMENT ON COLUMN public.portfolios.loss_limit_value IS 'Value the portfolio should stay above in a stress scenario, USD';
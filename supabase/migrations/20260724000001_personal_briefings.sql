@@ -0,0 +1,30 @@
+-- Personalized briefing sections: one per member per briefing slot, layered
+-- under the shared market_summaries briefing. cohort_key hashes the facts the
+-- section was written from (movers, risk band changes, trade signals, QPS
+-- flips on the member's holdings and watchlist), so members with identical
+-- facts reuse one generated section instead of each costing a model call.
+
+CREATE TABLE IF NOT EXISTS public.personal_briefings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  summary_date DATE NOT NULL,
+  slot TEXT NOT NULL,
+  cohort_key TEXT NOT NULL,
+  section TEXT,
+  facts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  generated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, summary_date, slot)
+);
+
+COMMENT ON COLUMN public.personal_briefings.section IS 'Generated text; null when the member had nothing notable for the slot';
+COMMENT ON COLUMN public.personal_briefings.facts IS 'held, watched, movers, bandChanges, tradeSignals, qpsFlips at generation time';
+
+CREATE INDEX IF NOT EXISTS personal_briefings_cohort_idx
+  ON public.personal_briefings (summary_date, slot, cohort_key);
+
+ALTER TABLE public.personal_briefings ENABLE ROW LEVEL SECURITY;
+
+-- Written by market-summary with the service role; members read their own.
+CREATE POLICY "Users can select own personal_briefings"
+  ON public.personal_briefings FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,49 @@
+-- Fact-check results for generated briefings. market-summary checks every
+-- price, percentage and index reading in a new briefing against the payload it
+-- was written from, regenerates once if anything is off, and stores the
+-- outcome here. Briefings still flagged after that wait for an admin; a
+-- rejected briefing is no longer served, and if it is today's the next
+-- request for its slot regenerates it.
+
+ALTER TABLE public.market_summaries
+  ADD COLUMN IF NOT EXISTS fact_check JSONB,
+  ADD COLUMN IF NOT EXISTS fact_accuracy NUMERIC,
+  ADD COLUMN IF NOT EXISTS review_status TEXT NOT NULL DEFAULT 'unchecked'
+    CHECK (review_status IN ('unchecked', 'passed', 'needs_review', 'approved', 'rejected')),
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.market_summaries.fact_check IS 'figures, checked, verified, accuracy, flags[{metric, kind, cited, expected, issue, snippet}], regenerated';
+COMMENT ON COLUMN public.market_summaries.fact_accuracy IS 'Share of checked figures that matched the payload (0-1); null when none could be checked';
+COMMENT ON COLUMN public.market_summaries.review_status IS 'unchecked (pre-dates fact-checking), passed, needs_review, approved, rejected';
+
+CREATE INDEX IF NOT EXISTS idx_market_summaries_needs_review
+  ON public.market_summaries (summary_date DESC)
+  WHERE review_status = 'needs_review';
+
+-- Approve or reject a flagged briefing. Rejecting only hides it; for today's
+-- briefing, market-summary writes a fresh one over it on the next request for
+-- that slot.
+CREATE OR REPLACE FUNCTION public.review_market_summary(target UUID, verdict TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Admin only' USING ERRCODE = '42501';
+  END IF;
+  IF verdict NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown verdict %', verdict;
+  END IF;
+  UPDATE market_summaries
+     SET review_status = verdict, reviewed_by = auth.uid(), reviewed_at = now()
+   WHERE id = target;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown briefing %', target;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_market_summary(UUID, TEXT) TO authenticated;
@@ -0,0 +1,38 @@
+-- Full-text search over the briefing archive. The web archive
+-- (/dashboard/briefings) browses market_summaries by date and searches every
+-- briefing ever written, so members can look up what the read was before a
+-- big move. Rejected briefings stay out of the archive as they do everywhere.
+
+ALTER TABLE public.market_summaries
+  ADD COLUMN IF NOT EXISTS summary_search TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('english', coalesce(summary, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_market_summaries_search
+  ON public.market_summaries USING GIN (summary_search);
+
+-- Newest matches first, each with a short highlighted excerpt. q takes web
+-- search syntax ("quoted phrases", or, -exclusions); matches are wrapped in
+-- <mark></mark>, which the client splits on rather than rendering as HTML.
+CREATE OR REPLACE FUNCTION public.search_market_summaries(
+  q TEXT,
+  slot_filter TEXT DEFAULT NULL,
+  max_rows INTEGER DEFAULT 50
+)
+RETURNS TABLE (id UUID, summary_date DATE, slot TEXT, generated_at TIMESTAMPTZ, rank REAL, excerpt TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT m.id, m.summary_date, m.slot, m.generated_at,
+         ts_rank(m.summary_search, query),
+         ts_headline('english', m.summary, query,
+           'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=8, MaxWords=24, FragmentDelimiter=" … "')
+    FROM market_summaries m, websearch_to_tsquery('english', q) AS query
+   WHERE m.summary_search @@ query
+     AND m.review_status <> 'rejected'
+     AND (slot_filter IS NULL OR m.slot = slot_filter)
+   ORDER BY m.summary_date DESC, m.generated_at DESC
+   LIMIT least(greatest(coalesce(max_rows, 50), 1), 200);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_market_summaries(TEXT, TEXT, INTEGER) TO anon, authenticated;
@@ -0,0 +1,67 @@
+-- Chaptered briefing audio and per-member podcast feeds. briefing-tts voices
+-- each briefing as four chapters (macro, crypto, signals, calendar) into one
+-- MP3 in the briefing-audio bucket and records it here; briefing-podcast
+-- serves those episodes as RSS at a private URL holding the member's token.
+
+CREATE TABLE IF NOT EXISTS public.briefing_audio (
+  briefing_key TEXT PRIMARY KEY,                 -- "<summary_date>_<slot>"
+  summary_date DATE NOT NULL,
+  slot TEXT NOT NULL,
+  audio_path TEXT NOT NULL,                      -- object path in the briefing-audio bucket
+  bytes INTEGER NOT NULL,
+  duration NUMERIC NOT NULL,                     -- seconds
+  chapters JSONB NOT NULL DEFAULT '[]'::jsonb,   -- [{id, title, start, end}], seconds
+  provider TEXT NOT NULL,
+  generated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_briefing_audio_date
+  ON public.briefing_audio (summary_date DESC, generated_at DESC);
+
+ALTER TABLE public.briefing_audio ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read briefing audio" ON public.briefing_audio;
+CREATE POLICY "Authenticated users can read briefing audio"
+  ON public.briefing_audio FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- One feed token per member. The token is the only credential a podcast app
+-- sends, so it is long and random, and rotating it cuts off every app
+-- subscribed with the old URL.
+CREATE TABLE IF NOT EXISTS public.podcast_feed_tokens (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_fetched_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.podcast_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read their own feed token" ON public.podcast_feed_tokens;
+CREATE POLICY "Members can read their own feed token"
+  ON public.podcast_feed_tokens FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Issue the caller's feed token, replacing any previous one.
+CREATE OR REPLACE FUNCTION public.rotate_podcast_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  fresh TEXT := replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in required' USING ERRCODE = '42501';
+  END IF;
+  INSERT INTO podcast_feed_tokens (user_id, token)
+  VALUES (auth.uid(), fresh)
+  ON CONFLICT (user_id) DO UPDATE
+    SET token = EXCLUDED.token, created_at = now(), last_fetched_at = NULL;
+  RETURN fresh;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rotate_podcast_feed_token() TO authenticated;
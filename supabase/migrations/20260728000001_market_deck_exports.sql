@@ -0,0 +1,61 @@
+-- PDF and PPTX renderings of the Weekly Update deck, for presenting and
+-- sharing it outside the app. The web dashboard's /api/deck-export route
+-- renders both files from market_update_decks.slides into the deck-exports
+-- bucket (one folder per deck id) and records each rendering here.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('deck-exports', 'deck-exports', false, 20971520)  -- 20MB limit
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.market_deck_exports (
+  deck_id UUID NOT NULL REFERENCES public.market_update_decks(id) ON DELETE CASCADE,
+  format TEXT NOT NULL CHECK (format IN ('pdf', 'pptx')),
+  path TEXT NOT NULL,                            -- object path in the deck-exports bucket
+  bytes INTEGER NOT NULL,
+  slide_count INTEGER NOT NULL,
+  rendered_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  rendered_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  PRIMARY KEY (deck_id, format)
+);
+
+ALTER TABLE public.market_deck_exports ENABLE ROW LEVEL SECURITY;
+
+-- Members see exports of published decks, as they see the decks themselves.
+DROP POLICY IF EXISTS "Users can read exports of published decks" ON public.market_deck_exports;
+CREATE POLICY "Users can read exports of published decks"
+  ON public.market_deck_exports FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.market_update_decks d
+    WHERE d.id = deck_id AND d.status = 'published'
+  ));
+
+DROP POLICY IF EXISTS "Admins can manage deck exports" ON public.market_deck_exports;
+CREATE POLICY "Admins can manage deck exports"
+  ON public.market_deck_exports FOR ALL
+  USING (public.is_admin());
+
+-- Admins can upload/read/delete
+DROP POLICY IF EXISTS "Admins manage deck exports" ON storage.objects;
+CREATE POLICY "Admins manage deck exports"
+  ON storage.objects FOR ALL
+  USING (bucket_id = 'deck-exports' AND EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (bucket_id = 'deck-exports' AND EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin'));
+
+-- Members can download the files of published decks
+DROP POLICY IF EXISTS "Users read exports of published decks" ON storage.objects;
+CREATE POLICY "Users read exports of published decks"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'deck-exports' AND EXISTS (
+    SELECT 1 FROM public.market_update_decks d
+    WHERE d.id::text = (storage.foldername(name))[1] AND d.status = 'published'
+  ));
+
+-- Service role has full access (for the export route)
+DROP POLICY IF EXISTS "Service role access deck exports" ON storage.objects;
+CREATE POLICY "Service role access deck exports"
+  ON storage.objects FOR ALL
+  TO service_role
+  USING (bucket_id = 'deck-exports')
+  WITH CHECK (bucket_id = 'deck-exports');
@@ -0,0 +1,9 @@
+-- Entry order for the ledger replay. A batch insert (CSV import, rebalance)
+-- stamps every row with the same created_at, so fills sharing a
+-- transaction_date need this to keep the order they were inserted in.
+-- Rows from before this migration are numbered in storage order; the replay
+-- sorts on created_at first, so only rows that already tied on it depend on that.
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS entry_seq BIGINT GENERATED ALWAYS AS IDENTITY;
+
+COMMENT ON COLUMN transactions.entry_seq IS 'Insertion order; ledger replay tie-break for equal transaction_date and created_at';
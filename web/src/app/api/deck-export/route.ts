@@ -0,0 +1,84 @@
+// Weekly Update deck export — renders a market_update_decks row to PDF and
+// PPTX (lib/deck-export), uploads both to the deck-exports bucket under the
+// deck's id, and records them in market_deck_exports.
+//
+//   POST { "deckId": "<uuid>" }   Authorization: Bearer <admin access token>
+//
+// Admin only. Members download the stored files through signed URLs; RLS on
+// the bucket limits them to published decks.
+
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { toDeckSlides } from '@/lib/deck-export/layout';
+import { DECK_EXPORT_FORMATS, DECK_EXPORT_MIME, deckExportPath, renderDeckFiles } from '@/lib/deck-export/render';
+
+export const runtime = 'edge';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+);
+
+async function verifyAdmin(req: Request) {
+  const auth = req.headers.get('authorization') ?? '';
+  if (!auth.startsWith('Bearer ')) return null;
+  const { data: { user }, error } = await supabase.auth.getUser(auth.slice('Bearer '.length));
+  if (error || !user) return null;
+  const { data: profile } = await supabase.from('profiles').select('role').eq('id', user.id).single();
+  return profile?.role === 'admin' ? user : null;
+}
+
+export async function POST(req: Request) {
+  const admin = await verifyAdmin(req);
+  if (!admin) return NextResponse.json({ error: 'Admin only' }, { status: 403 });
+
+  const body = await req.json().catch(() => null) as { deckId?: unknown } | null;
+  const deckId = typeof body?.deckId === 'string' ? body.deckId : '';
+  if (!/^[0-9a-f-]{36}$/i.test(deckId)) {
+    return NextResponse.json({ error: 'deckId is required' }, { status: 400 });
+  }
+
+  const { data: deck, error: deckError } = await supabase
+    .from('market_update_decks')
+    .select('id, week_start, week_end, slides')
+    .eq('id', deckId)
+    .maybeSingle();
+  if (deckError) return NextResponse.json({ error: deckError.message }, { status: 500 });
+  if (!deck) return NextResponse.json({ error: 'Deck not found' }, { status: 404 });
+
+  const slides = toDeckSlides(deck.slides);
+  if (!slides.length) return NextResponse.json({ error: 'This deck has no slides' }, { status: 422 });
+
+  const renderedAt = new Date();
+  const files = renderDeckFiles({ week_start: deck.week_start, week_end: deck.week_end, slides }, renderedAt);
+
+  const rows = [];
+  for (const format of DECK_EXPORT_FORMATS) {
+    const path = deckExportPath(deck.id, deck.week_start, format);
+    const { error } = await supabase.storage.from('deck-exports').upload(path, files[format], {
+      contentType: DECK_EXPORT_MIME[format],
+      upsert: true,
+    });
+    if (error) {
+      console.error(`Failed to upload ${path}:`, error.message);
+      return NextResponse.json({ error: `Could not store the ${format.toUpperCase()} file` }, { status: 502 });
+    }
+    rows.push({
+      deck_id: deck.id,
+      format,
+      path,
+      bytes: files[format].byteLength,
+      slide_count: slides.length,
+      rendered_at: renderedAt.toISOString(),
+      rendered_by: admin.id,
+    });
+  }
+
+  const { data: exports, error: saveError } = await supabase
+    .from('market_deck_exports')
+    .upsert(rows, { onConflict: 'deck_id,format' })
+    .select('deck_id, format, path, bytes, slide_count, rendered_at');
+  if (saveError) return NextResponse.json({ error: saveError.message }, { status: 500 });
+
+  return NextResponse.json({ exports });
+}
@@ -154,6 +154,7 @@ export async function GET() {
   const { data: summary } = await supabase
     .from('market_summaries')
     .select('summary, generated_at')
+    .neq('review_status', 'rejected')
     .order('generated_at', { ascending: false })
     .limit(1)
     .single()
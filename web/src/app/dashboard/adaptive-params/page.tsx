@@ -0,0 +1,216 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowRight, GitCompare, History, Lock, Pin, PinOff, RotateCcw, SlidersHorizontal } from 'lucide-react';
+import { Badge, ConfirmDialog, GlassCard, Skeleton, useToast } from '@/components/ui';
+import { useAuth } from '@/lib/hooks/use-auth';
+import {
+  useAdaptiveParamVersions,
+  useAdaptiveVersionOutcomes,
+  usePinAdaptiveParams,
+  useRollbackAdaptiveParams,
+} from '@/lib/hooks/use-adaptive-params';
+import { activeVersion, diffAdaptiveParams, outcomesByVersion } from '@/lib/signals/adaptive-params';
+import { cn, formatDate, formatPercent, formatRelativeTime } from '@/lib/utils/format';
+import type { AdaptiveParamVersion } from '@/lib/api/adaptive-params';
+
+const STATE_TONE: Record<string, 'success' | 'warning' | 'error' | 'info' | 'default'> = {
+  hot: 'success',
+  normal: 'info',
+  cautious: 'warning',
+  cold: 'error',
+  learning: 'default',
+};
+
+const selectCls =
+  'appearance-none rounded-lg border border-ark-divider bg-ark-fill-secondary px-3 py-1.5 text-sm text-ark-text cursor-pointer';
+
+export default function AdaptiveParamsPage() {
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === 'admin';
+  const toast = useToast();
+  const { data: versions, isLoading } = useAdaptiveParamVersions(isAdmin);
+  const { data: history } = useAdaptiveVersionOutcomes(isAdmin);
+  const pin = usePinAdaptiveParams();
+  const rollback = useRollbackAdaptiveParams();
+  const [rollbackTarget, setRollbackTarget] = useState<AdaptiveParamVersion | null>(null);
+  const [compare, setCompare] = useState<{ from: number | null; to: number | null }>({ from: null, to: null });
+
+  if (!isAdmin) {
+    return (
+      <GlassCard>
+        <div className="flex flex-col items-center py-8 text-center">
+          <Lock className="h-7 w-7 text-ark-text-tertiary" />
+          <p className="mt-3 text-sm font-medium text-ark-text">Admins only</p>
+        </div>
+      </GlassCard>
+    );
+  }
+
+  const list = versions ?? [];
+  const active = activeVersion(list);
+  const outcomes = new Map(outcomesByVersion(history ?? []).map((o) => [o.version, o]));
+
+  // Default comparison: the version before the active one → the active one.
+  const toVersion = list.find((v) => v.version === (compare.to ?? active?.version));
+  const fromVersion = list.find((v) => v.version === (compare.from ?? list.find((p) => toVersion && p.version < toVersion.version)?.version));
+  const changes = fromVersion && toVersion ? diffAdaptiveParams(fromVersion.params, toVersion.params) : [];
+
+  const onPin = (version: number | null) =>
+    pin.mutate(version, {
+      onSuccess: () => toast.success(version == null ? 'Unpinned — newest version applies' : `Pinned v${version}`),
+      onError: () => toast.error('Could not update the pin. Please try again.'),
+    });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-[family-name:var(--font-urbanist)] text-2xl font-bold text-ark-text">Adaptive Parameters</h1>
+        <p className="mt-1 text-sm text-ark-text-tertiary">
+          Every nightly run of the signal analytics is stored as a version. The pipeline applies the pinned version, else the newest.
+        </p>
+      </div>
+
+      <ConfirmDialog
+        open={rollbackTarget !== null}
+        title={`Roll back to v${rollbackTarget?.version}?`}
+        message="Its parameters are re-issued as a new version and take effect on the next pipeline run. Any pin is cleared, and tonight's analytics run will supersede it unless you pin the new version."
+        confirmLabel="Roll back"
+        loading={rollback.isPending}
+        onConfirm={() => {
+          if (!rollbackTarget) return;
+          rollback.mutate(rollbackTarget.version, {
+            onSuccess: (v) => { setRollbackTarget(null); toast.success(`Rolled back as v${v}`); },
+            onError: () => toast.error('Could not roll back. Please try again.'),
+          });
+        }}
+        onCancel={() => setRollbackTarget(null)}
+      />
+
+      {isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : !active ? (
+        <GlassCard>
+          <p className="py-6 text-center text-sm text-ark-text-tertiary">
+            No versions yet — the first is recorded by the next compute-signal-analytics run.
+          </p>
+        </GlassCard>
+      ) : (
+        <GlassCard>
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <p className="flex items-center gap-2 text-sm font-semibold text-ark-text">
+                <SlidersHorizontal className="h-4 w-4 text-ark-primary" />
+                In effect: v{active.version}
+                <Badge variant={STATE_TONE[active.params.state] ?? 'default'}>{active.params.state}</Badge>
+                {active.is_pinned && <Badge variant="warning">Pinned</Badge>}
+              </p>
+              <p className="mt-1 text-xs text-ark-text-tertiary">
+                {active.params.state_label} · min R:R {active.params.min_rr} · min score {active.params.min_score}
+                {' · '}{active.params.paused_assets.length ? `paused: ${active.params.paused_assets.join(', ')}` : 'no assets paused'}
+              </p>
+            </div>
+            {active.is_pinned && (
+              <button onClick={() => onPin(null)} disabled={pin.isPending}
+                className="flex shrink-0 items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-medium text-ark-text-secondary hover:bg-ark-fill-secondary disabled:opacity-50">
+                <PinOff className="h-3.5 w-3.5" /> Unpin
+              </button>
+            )}
+          </div>
+          {!!active.params.reasons?.length && (
+            <ul className="mt-3 space-y-0.5 text-xs text-ark-text-secondary">
+              {active.params.reasons.map((r) => <li key={r}>• {r}</li>)}
+            </ul>
+          )}
+        </GlassCard>
+      )}
+
+      {list.length > 1 && (
+        <div>
+          <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold text-ark-text">
+            <GitCompare className="h-4 w-4 text-ark-text-tertiary" />
+            Compare versions
+          </h2>
+          <GlassCard>
+            <div className="flex items-center gap-2">
+              <select value={fromVersion?.version ?? ''} onChange={(e) => setCompare((c) => ({ ...c, from: Number(e.target.value) }))} className={selectCls}>
+                {list.map((v) => <option key={v.version} value={v.version}>v{v.version} · {formatDate(v.created_at)}</option>)}
+              </select>
+              <ArrowRight className="h-4 w-4 text-ark-text-tertiary" />
+              <select value={toVersion?.version ?? ''} onChange={(e) => setCompare((c) => ({ ...c, to: Number(e.target.value) }))} className={selectCls}>
+                {list.map((v) => <option key={v.version} value={v.version}>v{v.version} · {formatDate(v.created_at)}</option>)}
+              </select>
+            </div>
+            {!changes.length ? (
+              <p className="mt-3 text-xs text-ark-text-tertiary">No parameter changes between these versions.</p>
+            ) : (
+              <table className="mt-3 w-full text-xs">
+                <tbody className="divide-y divide-ark-divider/50">
+                  {changes.map((c) => (
+                    <tr key={c.field}>
+                      <td className="py-1.5 font-medium text-ark-text">{c.field}</td>
+                      <td className="py-1.5 text-ark-text-tertiary">{c.from}</td>
+                      <td className="py-1.5 text-ark-text">{c.to}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {fromVersion?.inputs && toVersion?.inputs && (
+              <p className="mt-3 text-xs text-ark-text-tertiary">
+                Inputs (30d): WR {fromVersion.inputs.system.rolling_30d.win_rate}% → {toVersion.inputs.system.rolling_30d.win_rate}%
+                {' · '}PF {fromVersion.inputs.system.rolling_30d.profit_factor} → {toVersion.inputs.system.rolling_30d.profit_factor}
+                {' · '}{fromVersion.inputs.system.rolling_30d.signal_count} → {toVersion.inputs.system.rolling_30d.signal_count} signals
+              </p>
+            )}
+          </GlassCard>
+        </div>
+      )}
+
+      {!!list.length && (
+        <div>
+          <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold text-ark-text">
+            <History className="h-4 w-4 text-ark-text-tertiary" />
+            Versions
+          </h2>
+          <GlassCard className="divide-y divide-ark-divider/50 p-0">
+            {list.map((v) => {
+              const o = outcomes.get(v.version);
+              return (
+                <div key={v.version} className={cn('flex items-center justify-between gap-3 px-4 py-3', v.version === active?.version && 'bg-ark-primary/5')}>
+                  <div className="min-w-0">
+                    <p className="flex items-center gap-2 text-sm font-medium text-ark-text">
+                      v{v.version}
+                      <Badge variant={STATE_TONE[v.params.state] ?? 'default'}>{v.params.state}</Badge>
+                      {v.is_pinned && <Badge variant="warning">Pinned</Badge>}
+                      {v.source === 'rollback' && <span className="text-xs text-ark-text-tertiary">rollback of v{v.rolled_back_from}</span>}
+                    </p>
+                    <p className="mt-0.5 text-xs text-ark-text-tertiary">
+                      {formatRelativeTime(v.created_at)} · R:R {v.params.min_rr} · score {v.params.min_score} · {v.params.paused_assets.length} paused
+                      {' · '}{o ? `${o.total} closed signals, WR ${o.winRate.toFixed(0)}%, avg ${formatPercent(o.avgPnl)}` : 'no closed signals'}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    {!v.is_pinned && (
+                      <button onClick={() => onPin(v.version)} disabled={pin.isPending} title="Pin"
+                        className="flex h-8 w-8 items-center justify-center rounded-lg text-ark-text-tertiary hover:bg-ark-fill-secondary disabled:opacity-50"><Pin className="h-3.5 w-3.5" /></button>
+                    )}
+                    {v.version !== active?.version && (
+                      <button onClick={() => setRollbackTarget(v)} title="Roll back to this version"
+                        className="flex h-8 w-8 items-center justify-center rounded-lg text-ark-text-tertiary hover:bg-ark-fill-secondary"><RotateCcw className="h-3.5 w-3.5" /></button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </GlassCard>
+          {outcomes.has(null) && (
+            <p className="mt-3 text-xs text-ark-text-disabled">
+              {outcomes.get(null)!.total} closed signals in the last 90 days predate versioning.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { BellRing, History, Pause, Pencil, Play, Plus, Trash2 } from 'lucide-react';
+import { GlassCard, Skeleton, ConfirmDialog, useToast } from '@/components/ui';
+import { AlertRuleModal } from '@/components/dashboard/alerts/alert-rule-modal';
+import { useAlertEvents, useAlertRules, useDeleteAlertRule, useUpdateAlertRule } from '@/lib/hooks/use-alerts';
+import { ALERT_COOLDOWNS, ALERT_KINDS, describeAlertRule } from '@/lib/alerts/rules';
+import { isSupabaseConfigured } from '@/lib/supabase/client';
+import { cn, formatRelativeTime } from '@/lib/utils/format';
+import type { AlertRule } from '@/types';
+
+export default function AlertsPage() {
+  const isDemo = !isSupabaseConfigured();
+  const toast = useToast();
+  const { data: rules, isLoading } = useAlertRules();
+  const { data: events } = useAlertEvents();
+  const updateRule = useUpdateAlertRule();
+  const deleteRule = useDeleteAlertRule();
+  const [modal, setModal] = useState<{ open: boolean; editing: AlertRule | null }>({ open: false, editing: null });
+  const [deleteTarget, setDeleteTarget] = useState<AlertRule | null>(null);
+
+  const ruleLabel = new Map((rules ?? []).map((r) => [r.id, describeAlertRule(r)]));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="font-[family-name:var(--font-urbanist)] text-2xl font-bold text-ark-text">Alerts</h1>
+          <p className="mt-1 text-sm text-ark-text-tertiary">
+            Get notified when prices, risk levels or signals cross your levels
+          </p>
+        </div>
+        <button
+          onClick={() => setModal({ open: true, editing: null })}
+          disabled={isDemo}
+          className="flex items-center gap-2 rounded-xl bg-ark-primary px-4 py-2.5 text-sm font-medium text-white shadow-md shadow-ark-primary/25 transition-all hover:shadow-lg hover:shadow-ark-primary/30 hover:brightness-110 disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4" />
+          New Alert
+        </button>
+      </div>
+
+      {isDemo && (
+        <p className="rounded-xl bg-ark-fill-secondary/60 px-4 py-3 text-xs text-ark-text-tertiary">
+          Alerts need an account — they are evaluated on the server every 5 minutes.
+        </p>
+      )}
+
+      <AlertRuleModal open={modal.open} onClose={() => setModal((m) => ({ ...m, open: false }))} editing={modal.editing} />
+
+      <ConfirmDialog
+        open={deleteTarget !== null}
+        title="Delete this alert?"
+        message={deleteTarget ? `"${describeAlertRule(deleteTarget)}" and its history will be removed.` : ''}
+        confirmLabel="Delete"
+        destructive
+        loading={deleteRule.isPending}
+        onConfirm={() => {
+          if (!deleteTarget) return;
+          deleteRule.mutate(deleteTarget.id, {
+            onSuccess: () => { setDeleteTarget(null); toast.success('Alert deleted'); },
+            onError: () => toast.error('Could not delete alert. Please try again.'),
+          });
+        }}
+        onCancel={() => setDeleteTarget(null)}
+      />
+
+      <div>
+        <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold text-ark-text">
+          <BellRing className="h-4 w-4 text-ark-primary" />
+          Your alerts
+        </h2>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[0, 1, 2].map((i) => <Skeleton key={i} className="h-16 w-full" />)}
+          </div>
+        ) : !rules?.length ? (
+          <GlassCard>
+            <div className="flex flex-col items-center py-8 text-center">
+              <div className="flex h-14 w-14 items-center justify-center rounded-2xl bg-ark-fill-secondary">
+                <BellRing className="h-7 w-7 text-ark-text-tertiary" />
+              </div>
+              <p className="mt-3 text-sm font-medium text-ark-text">No alerts yet</p>
+              <p className="mt-1 text-xs text-ark-text-tertiary">
+                Alert on a price level, a big daily move, a risk band, the ArkLine Score or a QPS flip
+              </p>
+            </div>
+          </GlassCard>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((r) => (
+              <GlassCard key={r.id} className={cn('group', !r.is_active && 'opacity-60')}>
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-semibold text-ark-text">{describeAlertRule(r)}</p>
+                    <p className="mt-0.5 text-xs text-ark-text-tertiary">
+                      {ALERT_KINDS.find((k) => k.key === r.kind)?.label}
+                      {' · '}at most every {ALERT_COOLDOWNS.find((c) => c.minutes === r.cooldown_minutes)?.label ?? `${r.cooldown_minutes} min`}
+                      {' · '}{r.last_triggered_at ? `last fired ${formatRelativeTime(r.last_triggered_at)}` : 'not fired yet'}
+                      {!r.is_active && ' · paused'}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <button onClick={() => setModal({ open: true, editing: r })} title="Edit"
+                      className="flex h-8 w-8 items-center justify-center rounded-lg text-ark-text-tertiary hover:bg-ark-fill-secondary"><Pencil className="h-3.5 w-3.5" /></button>
+                    <button onClick={() => updateRule.mutate({ id: r.id, patch: { is_active: !r.is_active } })} title={r.is_active ? 'Pause' : 'Resume'}
+                      className="flex h-8 w-8 items-center justify-center rounded-lg text-ark-text-tertiary hover:bg-ark-fill-secondary">
+                      {r.is_active ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+                    </button>
+                    <button onClick={() => setDeleteTarget(r)} title="Delete"
+                      className="flex h-8 w-8 items-center justify-center rounded-lg text-ark-error hover:bg-ark-error/10"><Trash2 className="h-3.5 w-3.5" /></button>
+                  </div>
+                </div>
+              </GlassCard>
+            ))}
+          </div>
+        )}
+        <p className="mt-3 text-xs text-ark-text-disabled">
+          Alerts are delivered as push notifications to this browser and the ArkLine app. Turn on push in{' '}
+          <Link href="/dashboard/settings" className="text-ark-info hover:underline">Settings</Link>.
+        </p>
+      </div>
+
+      {!!events?.length && (
+        <div>
+          <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold text-ark-text">
+            <History className="h-4 w-4 text-ark-text-tertiary" />
+            Recent alerts
+          </h2>
+          <GlassCard className="divide-y divide-ark-divider/50 p-0">
+            {events.map((e) => (
+              <div key={e.id} className="flex items-start justify-between gap-3 px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-ark-text">{e.title}</p>
+                  <p className="mt-0.5 truncate text-xs text-ark-text-tertiary">{e.body ?? ruleLabel.get(e.rule_id)}</p>
+                </div>
+                <span className="shrink-0 text-xs text-ark-text-tertiary">{formatRelativeTime(e.created_at)}</span>
+              </div>
+            ))}
+          </GlassCard>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { FileCheck, History, Lock } from 'lucide-react';
+import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Badge, ConfirmDialog, GlassCard, Skeleton, useToast } from '@/components/ui';
+import { ReviewCard } from '@/components/dashboard/briefing-quality/review-card';
+import { useAuth } from '@/lib/hooks/use-auth';
+import { useBriefingQuality, useReviewBriefing } from '@/lib/hooks/use-briefing-quality';
+import { accuracySeries, ISSUE_LABELS, qualitySummary } from '@/lib/briefing/quality';
+import type { BriefingQualityRow, FlagIssue, ReviewStatus } from '@/lib/api/briefing-quality';
+
+const STATUS_TONE: Record<ReviewStatus, 'success' | 'warning' | 'error' | 'info' | 'default'> = {
+  unchecked: 'default',
+  passed: 'success',
+  needs_review: 'warning',
+  approved: 'info',
+  rejected: 'error',
+};
+
+const tooltipStyle = { background: 'var(--ark-card)', border: '1px solid var(--ark-divider)', borderRadius: 8, fontSize: 12 };
+const pct = (v: number | null) => (v == null ? '—' : `${(v * 100).toFixed(1)}%`);
+// market-summary dates briefings in UTC and only ever rewrites today's.
+const isTodayUTC = (d: string | undefined) => d === new Date().toISOString().split('T')[0];
+
+export default function BriefingQualityPage() {
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === 'admin';
+  const toast = useToast();
+  const { data: rows, isLoading } = useBriefingQuality(isAdmin);
+  const review = useReviewBriefing();
+  const [rejectTarget, setRejectTarget] = useState<BriefingQualityRow | null>(null);
+
+  const summary = useMemo(() => qualitySummary(rows ?? []), [rows]);
+  const series = useMemo(() => accuracySeries(rows ?? []), [rows]);
+
+  if (!isAdmin) {
+    return (
+      <GlassCard>
+        <div className="flex flex-col items-center py-8 text-center">
+          <Lock className="h-7 w-7 text-ark-text-tertiary" />
+          <p className="mt-3 text-sm font-medium text-ark-text">Admins only</p>
+        </div>
+      </GlassCard>
+    );
+  }
+
+  const list = rows ?? [];
+  const queue = list.filter((r) => r.review_status === 'needs_review');
+  const onVerdict = (r: BriefingQualityRow, verdict: 'approved' | 'rejected') =>
+    review.mutate({ id: r.id, verdict }, {
+      onSuccess: () => {
+        setRejectTarget(null);
+        toast.success(
+          verdict === 'approved' ? 'Briefing approved'
+            : isTodayUTC(r.summary_date) ? 'Briefing rejected — the next request rewrites it'
+              : 'Briefing rejected and hidden',
+        );
+      },
+      onError: () => toast.error('Could not save the review. Please try again.'),
+    });
+
+  const stats: { label: string; value: string }[] = [
+    { label: 'Figure accuracy', value: pct(summary.accuracy) },
+    { label: 'Figures checked', value: summary.checked.toLocaleString() },
+    { label: 'Regenerated', value: `${summary.regenerated} of ${summary.briefings}` },
+    { label: 'Awaiting review', value: String(summary.pending) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-[family-name:var(--font-urbanist)] text-2xl font-bold text-ark-text">Briefing Quality</h1>
+        <p className="mt-1 text-sm text-ark-text-tertiary">
+          Every price, move and index reading in a new briefing is checked against the data it was written from. A briefing with
+          mismatches is regenerated once; anything still off waits here.
+        </p>
+      </div>
+
+      <ConfirmDialog
+        open={rejectTarget !== null}
+        title={`Reject the ${rejectTarget?.slot} briefing of ${rejectTarget?.summary_date}?`}
+        message={isTodayUTC(rejectTarget?.summary_date)
+          ? 'It stops being served straight away. The next request for that slot generates a fresh briefing and checks it again.'
+          : 'It stops being served straight away. Past briefings are not regenerated.'}
+        confirmLabel="Reject"
+        destructive
+        loading={review.isPending}
+        onConfirm={() => rejectTarget && onVerdict(rejectTarget, 'rejected')}
+        onCancel={() => setRejectTarget(null)}
+      />
+
+      {isLoading ? (
+        <Skeleton className="h-48 w-full" />
+      ) : summary.briefings === 0 ? (
+        <GlassCard>
+          <p className="py-6 text-center text-sm text-ark-text-tertiary">
+            No fact-checked briefings yet — the next generated briefing is the first.
+          </p>
+        </GlassCard>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3 lg:grid-cols-4">
+            {stats.map((s) => (
+              <GlassCard key={s.label}>
+                <p className="text-[10px] font-semibold uppercase tracking-wider text-ark-text-tertiary">{s.label}</p>
+                <p className="fig mt-1 text-xl font-bold text-ark-text">{s.value}</p>
+              </GlassCard>
+            ))}
+          </div>
+
+          <GlassCard>
+            <p className="mb-2 text-xs font-semibold text-ark-text-secondary">Accuracy — daily and trailing 7 days</p>
+            <div className="h-48 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={series} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+                  <XAxis dataKey="date" hide />
+                  <YAxis hide domain={[0, 100]} />
+                  <Tooltip contentStyle={tooltipStyle}
+                    formatter={(val, name) => [`${Number(val).toFixed(1)}%`, name === 'rolling' ? '7-day' : 'Day']} />
+                  <Line type="monotone" dataKey="accuracy" stroke="var(--ark-text-tertiary)" strokeWidth={1} dot={{ r: 2 }} connectNulls isAnimationActive={false} />
+                  <Line type="monotone" dataKey="rolling" stroke="var(--ark-primary)" strokeWidth={2.5} dot={false} connectNulls isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-[11px] text-ark-text-secondary">
+              {(Object.keys(ISSUE_LABELS) as FlagIssue[]).map((k) => (
+                <span key={k}>{ISSUE_LABELS[k]}: <span className="fig font-semibold text-ark-text">{summary.byIssue[k]}</span></span>
+              ))}
+              {summary.byMetric.length > 0 && (
+                <span className="text-ark-text-tertiary">
+                  Most flagged: {summary.byMetric.slice(0, 3).map((m) => `${m.metric} (${m.flags})`).join(', ')}
+                </span>
+              )}
+            </div>
+          </GlassCard>
+        </>
+      )}
+
+      {queue.length > 0 && (
+        <div>
+          <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold text-ark-text">
+            <FileCheck className="h-4 w-4 text-ark-text-tertiary" />
+            Review queue
+          </h2>
+          <div className="space-y-3">
+            {queue.map((r) => (
+              <ReviewCard key={r.id} briefing={r} busy={review.isPending}
+                onApprove={() => onVerdict(r, 'approved')} onReject={() => setRejectTarget(r)} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {list.length > 0 && (
+        <div>
+          <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold text-ark-text">
+            <History className="h-4 w-4 text-ark-text-tertiary" />
+            Recent briefings
+          </h2>
+          <GlassCard className="divide-y divide-ark-divider/50 p-0">
+            {list.slice(0, 30).map((r) => (
+              <div key={r.id} className="flex items-center justify-between gap-3 px-4 py-2.5">
+                <p className="text-sm text-ark-text">
+                  {r.summary_date} · <span className="capitalize">{r.slot}</span>
+                </p>
+                <div className="flex items-center gap-3 text-xs text-ark-text-tertiary">
+                  {r.fact_check && <span className="fig">{r.fact_check.verified}/{r.fact_check.checked}</span>}
+                  <Badge variant={STATUS_TONE[r.review_status]}>{r.review_status.replace('_', ' ')}</Badge>
+                </div>
+              </div>
+            ))}
+          </GlassCard>
+        </div>
+      )}
+    </div>
+  );
+}
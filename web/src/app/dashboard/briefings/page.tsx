@@ -0,0 +1,169 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Search, X } from 'lucide-react';
+import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { GlassCard, Skeleton } from '@/components/ui';
+import { PodcastFeedCard } from '@/components/dashboard/briefings/podcast-feed-card';
+import { SearchResults } from '@/components/dashboard/briefings/search-results';
+import { TimelineEntry } from '@/components/dashboard/briefings/timeline-entry';
+import { useBriefingArchive, useBriefingMarketData, useBriefingSearch } from '@/lib/hooks/use-briefing-archive';
+import { buildTimeline, monthBounds, shiftMonth, timelineSeries } from '@/lib/briefing/archive';
+import { cn, formatCurrency, localDateISO } from '@/lib/utils/format';
+import type { BriefingSearchHit, BriefingSlot } from '@/lib/api/briefing-archive';
+
+const SLOTS: { value: BriefingSlot | null; label: string }[] = [
+  { value: null, label: 'All' },
+  { value: 'morning', label: 'Morning' },
+  { value: 'evening', label: 'Evening' },
+  { value: 'weekend', label: 'Weekend' },
+];
+
+const tooltipStyle = { background: 'var(--ark-card)', border: '1px solid var(--ark-divider)', borderRadius: 8, fontSize: 12 };
+const monthLabel = (month: string) =>
+  new Date(`${month}-15T12:00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+export default function BriefingsPage() {
+  const [thisMonth] = useState(() => localDateISO().slice(0, 7));
+  const [month, setMonth] = useState(thisMonth);
+  const [slot, setSlot] = useState<BriefingSlot | null>(null);
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [focusId, setFocusId] = useState<string | null>(null);
+
+  const { from, to } = monthBounds(month);
+  const { data: briefings, isLoading } = useBriefingArchive(from, to, slot);
+  const { data: market } = useBriefingMarketData(from, to);
+  const search = useBriefingSearch(query, slot);
+
+  const entries = useMemo(() => buildTimeline(briefings ?? [], market ?? { scores: [], btc: [] }), [briefings, market]);
+  const series = useMemo(() => timelineSeries(market ?? { scores: [], btc: [] }, from, to), [market, from, to]);
+
+  const goTo = (next: string) => {
+    setMonth(next > thisMonth ? thisMonth : next);
+    setFocusId(null);
+  };
+  const clearSearch = () => {
+    setInput('');
+    setQuery('');
+  };
+  const openHit = (hit: BriefingSearchHit) => {
+    setMonth(hit.summary_date.slice(0, 7));
+    setFocusId(hit.id);
+    clearSearch();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-[family-name:var(--font-urbanist)] text-2xl font-bold text-ark-text">Briefing Archive</h1>
+        <p className="mt-1 text-sm text-ark-text-tertiary">
+          Every morning, evening and weekend briefing, with the ArkLine Score and BTC price of the day it was written and how BTC moved the
+          week after. Search for an asset, event or phrase to see what the read was before a move.
+        </p>
+      </div>
+
+      <PodcastFeedCard />
+
+      <div className="flex flex-col gap-3 lg:flex-row lg:items-center lg:justify-between">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setQuery(input.trim());
+          }}
+          className="flex flex-1 items-center gap-2 rounded-xl border border-ark-divider bg-ark-fill-secondary px-3 py-2 lg:max-w-md"
+        >
+          <Search className="h-4 w-4 shrink-0 text-ark-text-tertiary" />
+          <input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder='Search briefings — e.g. ETF inflows, "rate cut", halving'
+            className="w-full bg-transparent text-sm text-ark-text outline-none placeholder:text-ark-text-disabled"
+          />
+          {(input || query) && (
+            <button type="button" onClick={clearSearch} aria-label="Clear search">
+              <X className="h-4 w-4 text-ark-text-tertiary hover:text-ark-text" />
+            </button>
+          )}
+        </form>
+
+        <div className="flex items-center gap-3">
+          <div className="flex rounded-xl bg-ark-fill-secondary p-1">
+            {SLOTS.map((s) => (
+              <button key={s.label} onClick={() => setSlot(s.value)}
+                className={cn(
+                  'rounded-lg px-3 py-1 text-xs font-medium transition-colors',
+                  slot === s.value ? 'bg-ark-card text-ark-text shadow-sm' : 'text-ark-text-tertiary hover:text-ark-text',
+                )}>
+                {s.label}
+              </button>
+            ))}
+          </div>
+          {!query && (
+            <div className="flex items-center gap-1">
+              <button onClick={() => goTo(shiftMonth(month, -1))} aria-label="Previous month"
+                className="rounded-lg p-1.5 text-ark-text-tertiary hover:bg-ark-fill-secondary hover:text-ark-text">
+                <ChevronLeft className="h-4 w-4" />
+              </button>
+              <input
+                type="month"
+                value={month}
+                max={thisMonth}
+                onChange={(e) => e.target.value && goTo(e.target.value)}
+                aria-label="Jump to month"
+                className="rounded-lg bg-transparent px-1 text-sm font-medium text-ark-text outline-none"
+              />
+              <button onClick={() => goTo(shiftMonth(month, 1))} disabled={month >= thisMonth} aria-label="Next month"
+                className="rounded-lg p-1.5 text-ark-text-tertiary hover:bg-ark-fill-secondary hover:text-ark-text disabled:opacity-30">
+                <ChevronRight className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {query ? (
+        <SearchResults query={query} hits={search.data} loading={search.isLoading} onOpen={openHit} />
+      ) : (
+        <>
+          {series.length > 1 && (
+            <GlassCard>
+              <p className="mb-2 text-xs font-semibold text-ark-text-secondary">{monthLabel(month)} — BTC price and ArkLine Score</p>
+              <div className="h-40 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={series} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+                    <XAxis dataKey="date" hide />
+                    <YAxis yAxisId="btc" hide domain={['auto', 'auto']} />
+                    <YAxis yAxisId="score" hide orientation="right" domain={[0, 100]} />
+                    <Tooltip contentStyle={tooltipStyle}
+                      formatter={(val, name) => name === 'btc'
+                        ? [formatCurrency(Number(val), 'USD', { decimals: 0 }), 'BTC']
+                        : [Math.round(Number(val)), 'ArkLine Score']} />
+                    <Line yAxisId="btc" type="monotone" dataKey="btc" stroke="var(--ark-warning)" strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+                    <Line yAxisId="score" type="monotone" dataKey="score" stroke="var(--ark-primary)" strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </GlassCard>
+          )}
+
+          {isLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : entries.length === 0 ? (
+            <GlassCard>
+              <p className="py-6 text-center text-sm text-ark-text-tertiary">
+                No {slot ? `${slot} ` : ''}briefings in {monthLabel(month)}.
+              </p>
+            </GlassCard>
+          ) : (
+            <div className="space-y-5">
+              {entries.map((e) => (
+                <TimelineEntry key={`${e.id}-${e.id === focusId}`} entry={e} focused={e.id === focusId} />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -14,7 +14,8 @@ import {
   Pause,
   Play,
   Trash2,
-  Loader2,
+  BarChart3,
+  Gauge,
 } from 'lucide-react';
 import { GlassCard, Skeleton, ConfirmDialog, useToast } from '@/components/ui';
 import { useAuth } from '@/lib/hooks/use-auth';
@@ -24,8 +25,12 @@ import { isSupabaseConfigured } from '@/lib/supabase/client';
 import { formatCurrency, formatRelativeTime } from '@/lib/utils/format';
 import { ReminderModal } from '@/components/dashboard/dca/reminder-modal';
 import { PlanWizard } from '@/components/dashboard/dca/plan-wizard';
+import { LogInvestmentModal } from '@/components/dashboard/dca/log-investment-modal';
+import { DCAAnalyticsDrawer } from '@/components/dashboard/dca/dca-analytics';
 import { CoinIcon } from '@/components/dashboard/shared/coin-icon';
-import { useLogInvestment, useUpdateReminder, useDeleteReminder } from '@/lib/hooks/use-dca-mutations';
+import { useUpdateReminder, useDeleteReminder } from '@/lib/hooks/use-dca-mutations';
+import { useCurrentRiskLevels, useDCAInvestments } from '@/lib/hooks/use-dca';
+import { plannedBuy, riskBandInfo, type RiskAdjustedBuy } from '@/lib/dca/risk-adjusted';
 import type { DCAReminder } from '@/types';
 
 const frequencyLabels: Record<string, string> = {
@@ -43,9 +48,10 @@ export default function DCAPage() {
   const [modal, setModal] = useState<{ open: boolean; editing: DCAReminder | null }>({ open: false, editing: null });
   const [deleteTarget, setDeleteTarget] = useState<DCAReminder | null>(null);
   const [wizardOpen, setWizardOpen] = useState(false);
+  const [logTarget, setLogTarget] = useState<DCAReminder | null>(null);
+  const [analyticsTarget, setAnalyticsTarget] = useState<DCAReminder | null>(null);
   const toast = useToast();
 
-  const logInvestment = useLogInvestment();
   const updateReminder = useUpdateReminder();
   const deleteReminder = useDeleteReminder();
 
@@ -56,6 +62,10 @@ export default function DCAPage() {
     staleTime: 300_000,
   });
 
+  const { data: investments, isLoading: investmentsLoading } = useDCAInvestments((reminders ?? []).map((r) => r.id));
+  const { levels: riskLevels } = useCurrentRiskLevels();
+  const nextBuy = (r: DCAReminder) => plannedBuy(r, riskLevels.get(r.symbol.toUpperCase()));
+
   const active = (reminders ?? []).filter((r) => r.is_active);
   const completed = (reminders ?? []).filter((r) => !r.is_active);
 
@@ -67,7 +77,7 @@ export default function DCAPage() {
       r.frequency === 'weekly' ? 1 :
       r.frequency === 'biweekly' ? 0.5 :
       r.frequency === 'monthly' ? 7 / 30 : 1;
-    return sum + r.amount * multiplier;
+    return sum + nextBuy(r).amount * multiplier;
   }, 0);
 
   const totalInvested = active.reduce(
@@ -109,11 +119,18 @@ export default function DCAPage() {
 
       <ReminderModal open={modal.open} onClose={() => setModal((m) => ({ ...m, open: false }))} editing={modal.editing} />
       <PlanWizard open={wizardOpen} onClose={() => setWizardOpen(false)} />
+      <LogInvestmentModal reminder={logTarget} onClose={() => setLogTarget(null)} onLogged={() => toast.success('Purchase logged')} />
+      <DCAAnalyticsDrawer
+        reminder={analyticsTarget}
+        investments={(investments ?? []).filter((i) => i.reminder_id === analyticsTarget?.id)}
+        loading={investmentsLoading}
+        onClose={() => setAnalyticsTarget(null)}
+      />
 
       <ConfirmDialog
         open={deleteTarget !== null}
         title={`Delete the ${deleteTarget?.symbol.toUpperCase() ?? ''} reminder?`}
-        message="This removes the reminder and its schedule. Logged purchases are kept."
+        message="This removes the reminder, its schedule and its purchase history. Portfolio transactions it created are kept."
         confirmLabel="Delete"
         destructive
         loading={deleteReminder.isPending}
@@ -213,8 +230,9 @@ export default function DCAPage() {
                       <div className="mt-0.5 flex items-center gap-3 text-xs text-ark-text-tertiary">
                         <span className="flex items-center gap-1">
                           <DollarSign className="h-3 w-3" />
-                          {formatCurrency(r.amount)}
+                          {formatCurrency(nextBuy(r).amount)}
                         </span>
+                        {r.strategy === 'risk_adjusted' && <RiskTag reminder={r} buy={nextBuy(r)} />}
                         <span className="flex items-center gap-1">
                           <Repeat className="h-3 w-3" />
                           {frequencyLabels[r.frequency] ?? r.frequency}
@@ -245,12 +263,12 @@ export default function DCAPage() {
                       <button onClick={() => setDeleteTarget(r)} title="Delete"
                         className="flex h-8 w-8 items-center justify-center rounded-lg text-ark-error hover:bg-ark-error/10"><Trash2 className="h-3.5 w-3.5" /></button>
                     </div>
+                    <button onClick={() => setAnalyticsTarget(r)} title="Analytics"
+                      className="flex h-8 w-8 items-center justify-center rounded-lg text-ark-text-tertiary hover:bg-ark-fill-secondary hover:text-ark-primary"><BarChart3 className="h-4 w-4" /></button>
                     <button
-                      onClick={() => logInvestment.mutate(r)}
-                      disabled={logInvestment.isPending}
-                      className="flex items-center gap-1.5 rounded-lg bg-ark-success/15 px-3 py-1.5 text-xs font-medium text-ark-success transition-colors hover:bg-ark-success/25 disabled:opacity-60"
+                      onClick={() => setLogTarget(r)}
+                      className="flex items-center gap-1.5 rounded-lg bg-ark-success/15 px-3 py-1.5 text-xs font-medium text-ark-success transition-colors hover:bg-ark-success/25"
                     >
-                      {logInvestment.isPending && logInvestment.variables?.id === r.id && <Loader2 className="h-3 w-3 animate-spin" />}
                       Invest
                     </button>
                   </div>
@@ -294,6 +312,8 @@ export default function DCAPage() {
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
+                      <button onClick={() => setAnalyticsTarget(r)} title="Analytics"
+                        className="flex h-7 w-7 items-center justify-center rounded-lg text-ark-text-tertiary hover:bg-ark-fill-secondary"><BarChart3 className="h-3.5 w-3.5" /></button>
                       <button onClick={() => updateReminder.mutate({ id: r.id, patch: { is_active: true } })} title="Resume"
                         className="flex items-center gap-1 rounded-lg bg-ark-primary/10 px-2.5 py-1 text-xs font-medium text-ark-primary hover:bg-ark-primary/20"><Play className="h-3 w-3" /> Resume</button>
                       <button onClick={() => setDeleteTarget(r)} title="Delete"
@@ -309,3 +329,14 @@ export default function DCAPage() {
     </div>
   );
 }
+
+function RiskTag({ reminder, buy }: { reminder: DCAReminder; buy: RiskAdjustedBuy }) {
+  const info = buy.band ? riskBandInfo(buy.band) : null;
+  return (
+    <span className="flex items-center gap-1" style={info ? { color: info.color } : undefined}
+      title={info ? `${info.label}: ${buy.multiplier}× the ${formatCurrency(reminder.amount)} base` : 'No risk reading; buying the base amount'}>
+      <Gauge className="h-3 w-3" />
+      {info ? `${buy.multiplier}×` : 'Risk-adjusted'}
+    </span>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Area, AreaChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { FlaskConical, History, Settings2, Trash2 } from 'lucide-react';
+import { ConfirmDialog, GlassCard, Skeleton, useToast } from '@/components/ui';
+import { PaperAccountModal } from '@/components/dashboard/paper-trading/paper-account-modal';
+import { useCryptoAssets } from '@/lib/hooks/use-market';
+import { useDeletePaperAccount, usePaperAccount, usePaperSignals } from '@/lib/hooks/use-paper-trading';
+import { simulatePaperAccount, tierOf } from '@/lib/signals/paper-trading';
+import { computeSummary } from '@/lib/signals/performance';
+import { isSupabaseConfigured } from '@/lib/supabase/client';
+import { cn, formatCurrency, formatDate, formatPercent, formatRelativeTime } from '@/lib/utils/format';
+
+const pctColor = (v: number) => (v >= 0 ? 'var(--ark-success)' : 'var(--ark-error)');
+
+export default function PaperTradingPage() {
+  const isDemo = !isSupabaseConfigured();
+  const toast = useToast();
+  const { data: account, isLoading } = usePaperAccount();
+  const { data: signals } = usePaperSignals(account?.started_at);
+  const { data: assets } = useCryptoAssets(1);
+  const deleteAccount = useDeletePaperAccount();
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const result = useMemo(() => {
+    if (!account || !signals) return null;
+    const marks = Object.fromEntries((assets ?? []).map((a) => [a.symbol.toUpperCase(), a.current_price]));
+    return simulatePaperAccount(account, signals, marks);
+  }, [account, signals, assets]);
+
+  // What the equal-size compounding on the Performance tab reports for the same signals.
+  const naive = useMemo(() => {
+    if (!account || !signals) return null;
+    const followed = signals.filter((s) => account.tiers.includes(tierOf(s.timeframe)));
+    return computeSummary([...followed].reverse());
+  }, [account, signals]);
+
+  const stats = result && [
+    { label: 'Equity', value: formatCurrency(result.equity), color: undefined },
+    { label: 'Return', value: formatPercent(result.totalReturnPct), color: pctColor(result.totalReturnPct) },
+    { label: 'Max drawdown', value: `-${result.maxDrawdownPct.toFixed(1)}%`, color: result.maxDrawdownPct > 0 ? pctColor(-1) : undefined },
+    { label: 'Exposure', value: `${result.currentExposurePct.toFixed(0)}% (max ${result.maxExposurePct.toFixed(0)}%)`, color: undefined },
+    { label: 'Win rate', value: `${result.winRate.toFixed(0)}%`, color: undefined },
+    { label: 'Fees & slippage', value: formatCurrency(result.fees), color: undefined },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="font-[family-name:var(--font-urbanist)] text-2xl font-bold text-ark-text">Paper Trading</h1>
+          <p className="mt-1 text-sm text-ark-text-tertiary">
+            Follow the trade signals with a simulated account — sized, with fees and slippage
+          </p>
+        </div>
+        {account && (
+          <div className="flex items-center gap-1">
+            <button onClick={() => setSettingsOpen(true)} title="Settings"
+              className="flex h-9 w-9 items-center justify-center rounded-lg text-ark-text-tertiary hover:bg-ark-fill-secondary"><Settings2 className="h-4 w-4" /></button>
+            <button onClick={() => setConfirmDelete(true)} title="Close account"
+              className="flex h-9 w-9 items-center justify-center rounded-lg text-ark-error hover:bg-ark-error/10"><Trash2 className="h-4 w-4" /></button>
+          </div>
+        )}
+      </div>
+
+      <PaperAccountModal open={settingsOpen} onClose={() => setSettingsOpen(false)} account={account ?? null} />
+
+      <ConfirmDialog
+        open={confirmDelete}
+        title="Close your paper account?"
+        message="Its settings are removed. Signals are unaffected — you can start again at any time."
+        confirmLabel="Close account"
+        destructive
+        loading={deleteAccount.isPending}
+        onConfirm={() => deleteAccount.mutate(undefined, {
+          onSuccess: () => { setConfirmDelete(false); toast.success('Paper account closed'); },
+          onError: () => toast.error('Could not close the account. Please try again.'),
+        })}
+        onCancel={() => setConfirmDelete(false)}
+      />
+
+      {isLoading ? (
+        <Skeleton className="h-48 w-full" />
+      ) : !account ? (
+        <GlassCard>
+          <div className="flex flex-col items-center py-8 text-center">
+            <div className="flex h-14 w-14 items-center justify-center rounded-2xl bg-ark-fill-secondary">
+              <FlaskConical className="h-7 w-7 text-ark-text-tertiary" />
+            </div>
+            <p className="mt-3 text-sm font-medium text-ark-text">No paper account yet</p>
+            <p className="mt-1 max-w-md text-xs text-ark-text-tertiary">
+              Every swing or scalp signal you follow is entered at your risk per trade, with T1 partials, runners, fees and overlapping positions — see what a real account would have made.
+            </p>
+            <button onClick={() => setSettingsOpen(true)} disabled={isDemo}
+              className="mt-4 rounded-xl bg-ark-primary px-4 py-2.5 text-sm font-medium text-white shadow-md shadow-ark-primary/25 hover:brightness-110 disabled:opacity-50">
+              Start paper trading
+            </button>
+          </div>
+        </GlassCard>
+      ) : !result ? (
+        <Skeleton className="h-48 w-full" />
+      ) : (
+        <>
+          <GlassCard>
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-6">
+              {stats!.map((s) => (
+                <div key={s.label}>
+                  <p className="text-[10px] font-semibold uppercase tracking-wider text-ark-text-tertiary">{s.label}</p>
+                  <p className="fig mt-0.5 text-sm font-semibold text-ark-text" style={s.color ? { color: s.color } : undefined}>{s.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="mt-4 h-44 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={result.curve} margin={{ top: 6, right: 6, bottom: 0, left: 6 }}>
+                  <defs>
+                    <linearGradient id="paper-curve" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="0%" stopColor={pctColor(result.totalReturnPct)} stopOpacity={0.25} />
+                      <stop offset="100%" stopColor={pctColor(result.totalReturnPct)} stopOpacity={0} />
+                    </linearGradient>
+                  </defs>
+                  <XAxis dataKey="time" tickLine={false} axisLine={false}
+                    tickFormatter={(d) => new Date(String(d)).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    tick={{ fontSize: 10, fill: 'var(--ark-text-disabled)' }} interval="preserveStartEnd" />
+                  <YAxis domain={['dataMin', 'dataMax']} hide />
+                  <Tooltip contentStyle={{ background: 'var(--ark-card)', border: '1px solid var(--ark-divider)', borderRadius: 8, fontSize: 11 }}
+                    labelFormatter={(l) => new Date(String(l)).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric' })}
+                    formatter={(v, name) => (name === 'equity' ? [formatCurrency(Number(v)), 'Balance'] : [`${Number(v).toFixed(0)}%`, 'Exposure'])} />
+                  <Area type="stepAfter" dataKey="equity" stroke={pctColor(result.totalReturnPct)} strokeWidth={2} fill="url(#paper-curve)" dot={false} />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+
+            <p className="mt-2 text-xs text-ark-text-tertiary">
+              Since {formatDate(account.started_at)} · {account.tiers.join(' + ')} ·{' '}
+              {account.risk_mode === 'signal' ? 'suggested risk per signal' : `${account.risk_pct}% risk per trade`} ·
+              fees {account.fee_pct}% · slippage {account.slippage_pct}% per fill.
+              {naive && naive.total > 0 && (
+                <> Equal-size compounding of the same signals shows{' '}
+                  <span className="fig font-semibold" style={{ color: pctColor(naive.compoundedReturn) }}>{formatPercent(naive.compoundedReturn)}</span>.</>
+              )}
+            </p>
+          </GlassCard>
+
+          <div>
+            <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold text-ark-text">
+              <History className="h-4 w-4 text-ark-text-tertiary" />
+              Trades
+            </h2>
+            {!result.trades.length ? (
+              <GlassCard>
+                <p className="py-6 text-center text-sm text-ark-text-tertiary">
+                  No followed signal has triggered since the account started.
+                </p>
+              </GlassCard>
+            ) : (
+              <GlassCard className="divide-y divide-ark-divider/50 p-0">
+                {[...result.trades].reverse().map((t) => {
+                  const pnl = t.realizedPnl + t.unrealizedPnl;
+                  return (
+                    <div key={t.signalId} className="flex items-center justify-between gap-3 px-4 py-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-ark-text">
+                          {t.asset.toUpperCase()}{' '}
+                          <span className={t.long ? 'text-ark-success' : 'text-ark-error'}>{t.long ? 'Long' : 'Short'}</span>
+                          <span className="ml-2 text-xs font-normal text-ark-text-tertiary">{t.tier}</span>
+                        </p>
+                        <p className="mt-0.5 text-xs text-ark-text-tertiary">
+                          {formatCurrency(t.notional)} at {formatCurrency(t.entryPrice)} · {t.riskPct}% risk{t.scaled && ' · scaled to exposure cap'}
+                          {' · '}{t.exitAt ? `closed ${formatRelativeTime(t.exitAt)}` : t.openQuantity < t.quantity ? 'runner open' : 'open'}
+                        </p>
+                      </div>
+                      <span className={cn('fig shrink-0 text-sm font-semibold', !t.exitAt && 'opacity-70')} style={{ color: pctColor(pnl) }}>
+                        {formatCurrency(pnl, undefined, { sign: true })}
+                      </span>
+                    </div>
+                  );
+                })}
+              </GlassCard>
+            )}
+            {!!result.skipped.length && (
+              <p className="mt-3 text-xs text-ark-text-disabled">
+                {result.skipped.length} signal{result.skipped.length === 1 ? '' : 's'} skipped ({[...new Set(result.skipped.map((s) => s.reason.toLowerCase()))].join(', ')}).
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { ChevronDown, Plus, Trash2, TrendingUp, TrendingDown } from 'lucide-react';
+import { ChevronDown, FileUp, Plus, Trash2, TrendingUp, TrendingDown } from 'lucide-react';
 import {
   PieChart,
   Pie,
@@ -16,15 +16,25 @@ import {
 } from 'recharts';
 import { GlassCard, Skeleton, ConfirmDialog, PromptDialog, useToast } from '@/components/ui';
 import { usePortfolios, usePricedHoldings, useTransactions, usePortfolioHistory } from '@/lib/hooks/use-portfolio';
-import { useDeleteHolding, useUpdateHoldingTarget, useCreatePortfolio } from '@/lib/hooks/use-portfolio-mutations';
+import { useDeleteHolding, useUpdateHoldingTarget, useCreatePortfolio, useUpdateCostBasisMethod } from '@/lib/hooks/use-portfolio-mutations';
+import { COST_BASIS_METHODS } from '@/lib/portfolio/tax-lots';
 import { formatCurrency, formatPercent, cn } from '@/lib/utils/format';
 import { AddTransactionModal } from '@/components/dashboard/portfolio/add-transaction-modal';
+import { ImportTransactionsModal } from '@/components/dashboard/portfolio/import-transactions-modal';
+import { RebalancePlanner } from '@/components/dashboard/portfolio/rebalance-planner';
 import { PerformancePanel } from '@/components/dashboard/portfolio/performance-panel';
+import { RiskPanel } from '@/components/dashboard/portfolio/risk-panel';
+import { ScenarioPanel } from '@/components/dashboard/portfolio/scenario-panel';
+import { BenchmarkOverlay, BenchmarkPicker } from '@/components/dashboard/portfolio/benchmark-overlay';
+import { HISTORY_DAYS_ALL } from '@/lib/portfolio/performance';
 import { TransactionsPanel } from '@/components/dashboard/portfolio/transactions-panel';
+import { TaxReportPanel } from '@/components/dashboard/portfolio/tax-report-panel';
 import { ModelPortfolioCard } from '@/components/dashboard/portfolio/model-portfolio-card';
 import { CoinIcon } from '@/components/dashboard/shared/coin-icon';
 import type { PortfolioHolding } from '@/types';
+import type { CostBasisMethod } from '@/types/transaction';
 
+const HERO_HISTORY_DAYS = 365;
 const PIE_COLORS = ['#3B82F6', '#22C55E', '#F59E0B', '#DC2626', '#8B5CF6', '#06B6D4', '#EC4899', '#F97316'];
 
 function computeStats(holdings: PortfolioHolding[]) {
@@ -52,8 +62,11 @@ export default function PortfolioPage() {
   const [selectedIdx, setSelectedIdx] = useState(0);
   const [modal, setModal] = useState<{ open: boolean; type: 'buy' | 'sell'; symbol?: string }>({ open: false, type: 'buy' });
   const [newPortfolioOpen, setNewPortfolioOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [rebalanceOpen, setRebalanceOpen] = useState(false);
   const [removeSymbol, setRemoveSymbol] = useState<string | null>(null);
   const [scrubbedIdx, setScrubbedIdx] = useState<number | null>(null);
+  const [benchmarks, setBenchmarks] = useState<string[]>([]);
   const toast = useToast();
 
   const portfolio = portfolios?.[selectedIdx];
@@ -61,10 +74,14 @@ export default function PortfolioPage() {
   // refreshed every 60 s — matches the iOS pricing path.
   const { data: holdings, isLoading: loadingHoldings } = usePricedHoldings(portfolio?.id);
   const { data: transactions } = useTransactions(portfolio?.id);
-  const { data: history } = usePortfolioHistory(portfolio?.id, 365);
+  const { data: history } = usePortfolioHistory(portfolio?.id, HERO_HISTORY_DAYS);
+  // Performance analytics need the whole record for ALL.
+  const { data: fullHistory } = usePortfolioHistory(portfolio?.id, HISTORY_DAYS_ALL);
   const deleteHolding = useDeleteHolding(portfolio?.id);
   const updateTarget = useUpdateHoldingTarget(portfolio?.id);
   const createPortfolio = useCreatePortfolio();
+  const updateMethod = useUpdateCostBasisMethod(portfolio?.id);
+  const costBasisMethod = portfolio?.cost_basis_method ?? 'fifo';
 
   const pricedHoldings = (holdings ?? []).map((h) => ({
     ...h,
@@ -140,6 +157,13 @@ export default function PortfolioPage() {
           >
             New Portfolio
           </button>
+          <button
+            onClick={() => setImportOpen(true)}
+            disabled={!portfolio}
+            className="flex items-center gap-1.5 rounded-xl border border-ark-divider px-3 py-2 text-sm font-medium text-ark-text-secondary transition-colors hover:bg-ark-fill-secondary disabled:opacity-50"
+          >
+            <FileUp className="h-4 w-4" /> Import CSV
+          </button>
           <button
             onClick={() => setModal({ open: true, type: 'buy' })}
             disabled={!portfolio}
@@ -157,6 +181,21 @@ export default function PortfolioPage() {
         holdings={aggHoldings}
         initialType={modal.type}
         initialSymbol={modal.symbol}
+        costBasisMethod={costBasisMethod}
+      />
+
+      <ImportTransactionsModal
+        open={importOpen}
+        onClose={() => setImportOpen(false)}
+        portfolioId={portfolio?.id}
+        transactions={transactions ?? []}
+      />
+
+      <RebalancePlanner
+        open={rebalanceOpen}
+        onClose={() => setRebalanceOpen(false)}
+        portfolioId={portfolio?.id}
+        holdings={aggHoldings}
       />
 
       <PromptDialog
@@ -247,8 +286,11 @@ export default function PortfolioPage() {
               )}
             </div>
 
-            {/* History — baseline at range start, scrub to explore */}
-            {historyData.length > 1 && (
+            {/* History — baseline at range start, scrub to explore; or vs. benchmarks */}
+            {benchmarks.length > 0 && (
+              <BenchmarkOverlay history={history ?? []} transactions={transactions ?? []} selected={benchmarks} days={HERO_HISTORY_DAYS} />
+            )}
+            {benchmarks.length === 0 && historyData.length > 1 && (
               <>
                 <div className="mt-5 h-32 cursor-crosshair">
                   <ResponsiveContainer width="100%" height="100%">
@@ -291,6 +333,7 @@ export default function PortfolioPage() {
                 </div>
               </>
             )}
+            {historyData.length > 1 && <BenchmarkPicker selected={benchmarks} onChange={setBenchmarks} />}
           </GlassCard>
 
           <div className="grid gap-6 sm:grid-cols-2">
@@ -360,7 +403,13 @@ export default function PortfolioPage() {
                       </div>
                     );
                   })}
-                  <p className="pt-1 text-[10px] text-ark-text-disabled">Set a target % to track drift.</p>
+                  <div className="flex items-center justify-between pt-1">
+                    <p className="text-[10px] text-ark-text-disabled">Set a target % to track drift.</p>
+                    <button onClick={() => setRebalanceOpen(true)} disabled={!aggHoldings.some((h) => h.target_percentage != null)}
+                      className="rounded-lg border border-ark-divider px-2.5 py-1 text-[11px] font-medium text-ark-text-secondary transition-colors hover:bg-ark-fill-secondary disabled:opacity-40">
+                      Rebalance
+                    </button>
+                  </div>
                 </div>
               )}
             </GlassCard>
@@ -370,7 +419,26 @@ export default function PortfolioPage() {
 
             {/* Holdings list */}
             <GlassCard className="sm:col-span-2">
-              <h3 className="mb-3 text-sm font-semibold text-ark-text">Holdings</h3>
+              <div className="mb-3 flex items-center justify-between gap-3">
+                <h3 className="text-sm font-semibold text-ark-text">Holdings</h3>
+                {/* Lot relief for new sells — past sells keep the method they were recorded with */}
+                <label className="flex items-center gap-2 text-[11px] text-ark-text-tertiary">
+                  Cost basis
+                  <select
+                    value={costBasisMethod}
+                    disabled={!portfolio || updateMethod.isPending}
+                    onChange={(e) => updateMethod.mutate(e.target.value as CostBasisMethod, {
+                      onError: () => toast.error('Could not update cost basis method. Please try again.'),
+                    })}
+                    title={COST_BASIS_METHODS.find((m) => m.key === costBasisMethod)?.hint}
+                    className="cursor-pointer rounded-lg border border-ark-divider bg-ark-fill-secondary px-2 py-1 text-xs text-ark-text disabled:opacity-60"
+                  >
+                    {COST_BASIS_METHODS.map((m) => (
+                      <option key={m.key} value={m.key}>{m.label}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
               <div className="space-y-2">
                 {aggHoldings.length === 0 && (
                   <p className="text-sm text-ark-text-tertiary">No holdings yet.</p>
@@ -419,13 +487,22 @@ export default function PortfolioPage() {
           {/* Transaction history — filters, detail drawer, delete w/ recalc (iOS History-tab parity) */}
           <TransactionsPanel transactions={transactions ?? []} portfolioId={portfolio?.id} />
 
+          {/* Realized gains by tax year — CSV / printable PDF */}
+          <TaxReportPanel transactions={transactions ?? []} portfolioName={portfolio?.name ?? 'portfolio'} />
+
           {/* Performance */}
           <PerformancePanel
-            history={history ?? []}
+            history={fullHistory ?? []}
             holdings={aggHoldings}
             transactions={transactions ?? []}
             portfolioName={portfolio?.name ?? 'portfolio'}
           />
+
+          {/* Correlation, beta and concentration of the current mix */}
+          <RiskPanel holdings={aggHoldings} />
+
+          {/* What market moves would do to the current holdings */}
+          <ScenarioPanel portfolio={portfolio} holdings={aggHoldings} />
         </>
       )}
     </div>
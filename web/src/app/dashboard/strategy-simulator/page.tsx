@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import { Beaker, Lock } from 'lucide-react';
+import { GlassCard, Skeleton } from '@/components/ui';
+import { ParamsForm } from '@/components/dashboard/strategy-simulator/params-form';
+import { SimulationResults } from '@/components/dashboard/strategy-simulator/simulation-results';
+import { useAuth } from '@/lib/hooks/use-auth';
+import { useStrategySimulation } from '@/lib/hooks/use-strategy-simulator';
+import { paramOverrides, SIM_STRATEGIES } from '@/lib/model-portfolios/simulator';
+import { cn } from '@/lib/utils/format';
+import type { SimulationRequest } from '@/lib/api/model-portfolio-simulator';
+
+const PERIODS: { label: string; days: number }[] = [
+  { label: '6M', days: 182 },
+  { label: '1Y', days: 365 },
+  { label: '2Y', days: 730 },
+  { label: '5Y', days: 1825 },
+];
+
+const chipCls = (active: boolean) =>
+  cn('rounded-full px-3 py-1 text-xs font-semibold transition-colors', active ? 'bg-ark-primary text-white shadow-sm' : 'text-ark-text-tertiary hover:text-ark-text');
+
+export default function StrategySimulatorPage() {
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === 'admin';
+  const [request, setRequest] = useState<SimulationRequest>({ strategy: 'edge', days: 365, params: {} });
+  const { data: sim, isLoading, isFetching, error } = useStrategySimulation(request, isAdmin);
+
+  if (!isAdmin) {
+    return (
+      <GlassCard>
+        <div className="flex flex-col items-center py-8 text-center">
+          <Lock className="h-7 w-7 text-ark-text-tertiary" />
+          <p className="mt-3 text-sm font-medium text-ark-text">Admins only</p>
+        </div>
+      </GlassCard>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-[family-name:var(--font-urbanist)] text-2xl font-bold text-ark-text">Strategy Simulator</h1>
+        <p className="mt-1 text-sm text-ark-text-tertiary">
+          Replays a model portfolio over stored QPS signals and BTC risk with your floors, caps and blend rates, next to the live rules and the recorded NAV.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex gap-1 rounded-full bg-ark-fill-secondary/60 p-1">
+          {SIM_STRATEGIES.map((s) => (
+            <button key={s.key} onClick={() => setRequest((r) => ({ ...r, strategy: s.key }))} className={chipCls(request.strategy === s.key)}>
+              {s.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1 rounded-full bg-ark-fill-secondary/60 p-1">
+          {PERIODS.map((p) => (
+            <button key={p.label} onClick={() => setRequest((r) => ({ ...r, days: p.days }))} className={chipCls(request.days === p.days)}>
+              {p.label}
+            </button>
+          ))}
+        </div>
+        {isFetching && !isLoading && <span className="text-xs text-ark-text-tertiary">Running…</span>}
+      </div>
+
+      {error && (
+        <GlassCard>
+          <p className="py-4 text-center text-sm text-ark-text-tertiary">
+            The simulation failed — there may be no signal history for this window yet (run a QPS backfill).
+          </p>
+        </GlassCard>
+      )}
+
+      {isLoading ? (
+        <Skeleton className="h-96 w-full" />
+      ) : sim ? (
+        <div className="grid gap-4 lg:grid-cols-3">
+          <GlassCard className="h-fit">
+            <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold text-ark-text">
+              <Beaker className="h-4 w-4 text-ark-primary" />
+              {SIM_STRATEGIES.find((s) => s.key === request.strategy)?.label} parameters
+            </h2>
+            <ParamsForm
+              key={request.strategy}
+              strategy={request.strategy}
+              defaults={sim.defaults}
+              initial={sim.params}
+              running={isFetching}
+              onRun={(params) => setRequest((r) => ({ ...r, params: paramOverrides(sim.defaults, params) }))}
+            />
+          </GlassCard>
+          <div className="lg:col-span-2">
+            <SimulationResults sim={sim} />
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { DetailDrawer } from '@/components/ui/detail-drawer';
+import { useCreateAlertRule, useUpdateAlertRule } from '@/lib/hooks/use-alerts';
+import { ALERT_COOLDOWNS, ALERT_KINDS, ALERT_RISK_BANDS } from '@/lib/alerts/rules';
+import { cn } from '@/lib/utils/format';
+import type { AlertDirection, AlertKind, AlertRiskBand, AlertRule } from '@/types';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  editing?: AlertRule | null;
+}
+
+export function AlertRuleModal({ open, onClose, editing }: Props) {
+  return (
+    <DetailDrawer open={open} onClose={onClose} title={editing ? 'Edit Alert' : 'New Alert'}>
+      {/* Remounted per open so the form starts from the rule being edited. */}
+      {open && <AlertRuleForm key={editing?.id ?? 'new'} editing={editing ?? null} onDone={onClose} />}
+    </DetailDrawer>
+  );
+}
+
+function AlertRuleForm({ editing, onDone }: { editing: AlertRule | null; onDone: () => void }) {
+  const create = useCreateAlertRule();
+  const update = useUpdateAlertRule();
+
+  const [kind, setKind] = useState<AlertKind>(editing?.kind ?? 'price_cross');
+  const [asset, setAsset] = useState(editing?.asset ?? '');
+  const [direction, setDirection] = useState<AlertDirection>(editing?.direction ?? 'above');
+  const [threshold, setThreshold] = useState(editing?.threshold != null ? String(editing.threshold) : '');
+  const [band, setBand] = useState<AlertRiskBand>(editing?.band ?? 'high');
+  const [cooldown, setCooldown] = useState(editing?.cooldown_minutes ?? 60);
+  const [error, setError] = useState('');
+
+  const spec = ALERT_KINDS.find((k) => k.key === kind)!;
+  const directions: AlertDirection[] = kind === 'change_24h' ? ['above', 'below', 'either'] : ['above', 'below'];
+
+  const submit = async () => {
+    setError('');
+    const t = parseFloat(threshold);
+    if (spec.asset && !asset.trim()) return setError('Enter an asset ticker.');
+    if (spec.threshold && !(t > 0)) return setError('Enter a threshold above zero.');
+    if (spec.threshold === 'score' && t > 100) return setError('The ArkLine Score runs 0–100.');
+    const input = {
+      kind,
+      asset: spec.asset ? asset : null,
+      direction: spec.threshold ? (kind !== 'change_24h' && direction === 'either' ? 'above' : direction) : null,
+      threshold: spec.threshold ? t : null,
+      band: kind === 'risk_band' ? band : null,
+      cooldown_minutes: cooldown,
+    };
+    try {
+      if (editing) await update.mutateAsync({ id: editing.id, patch: input });
+      else await create.mutateAsync(input);
+      onDone();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong.');
+    }
+  };
+
+  const pending = create.isPending || update.isPending;
+  const inputClass = 'w-full rounded-lg border border-ark-divider bg-ark-fill-secondary/40 px-3 py-2 text-sm text-ark-text outline-none focus:border-ark-info';
+  const chip = (active: boolean) => cn('rounded-lg border px-3 py-1.5 text-xs font-semibold', active ? 'border-ark-info bg-ark-info/10 text-ark-info' : 'border-ark-divider text-ark-text-secondary');
+
+  return (
+    <div className="space-y-5 pb-2">
+      <div>
+        <label className="mb-1.5 block text-xs font-semibold text-ark-text-secondary">Alert when</label>
+        <div className="grid grid-cols-2 gap-2">
+          {ALERT_KINDS.map((k) => (
+            <button key={k.key} onClick={() => setKind(k.key)}
+              className={cn('rounded-xl border px-3 py-2 text-left', kind === k.key ? 'border-ark-info bg-ark-info/10' : 'border-ark-divider')}>
+              <p className={cn('text-xs font-semibold', kind === k.key ? 'text-ark-info' : 'text-ark-text')}>{k.label}</p>
+              <p className="text-[10px] text-ark-text-tertiary">{k.hint}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {spec.asset && (
+        <div>
+          <label className="mb-1.5 block text-xs font-semibold text-ark-text-secondary">Asset</label>
+          <input value={asset} onChange={(e) => setAsset(e.target.value.toUpperCase())} placeholder="BTC, ETH, NVDA…" className={inputClass} />
+        </div>
+      )}
+
+      {spec.threshold && (
+        <div className="space-y-2">
+          <label className="block text-xs font-semibold text-ark-text-secondary">
+            {spec.threshold === 'price' ? 'Price (USD)' : spec.threshold === 'percent' ? 'Move (%)' : 'Score (0–100)'}
+          </label>
+          <div className="flex gap-2">
+            {directions.map((d) => (
+              <button key={d} onClick={() => setDirection(d)} className={chip(direction === d)}>
+                {d === 'either' ? 'Either way' : kind === 'change_24h' ? (d === 'above' ? 'Up' : 'Down') : d === 'above' ? 'Above' : 'Below'}
+              </button>
+            ))}
+          </div>
+          <input type="number" min={0} value={threshold} onChange={(e) => setThreshold(e.target.value)} className={cn(inputClass, 'fig')} />
+        </div>
+      )}
+
+      {kind === 'risk_band' && (
+        <div>
+          <label className="mb-1.5 block text-xs font-semibold text-ark-text-secondary">Band</label>
+          <select value={band} onChange={(e) => setBand(e.target.value as AlertRiskBand)} className={inputClass}>
+            {ALERT_RISK_BANDS.map((b) => <option key={b.key} value={b.key}>{b.label}</option>)}
+          </select>
+        </div>
+      )}
+
+      <div>
+        <label className="mb-1.5 block text-xs font-semibold text-ark-text-secondary">Don&apos;t repeat within</label>
+        <div className="flex flex-wrap gap-2">
+          {ALERT_COOLDOWNS.map((c) => (
+            <button key={c.minutes} onClick={() => setCooldown(c.minutes)} className={chip(cooldown === c.minutes)}>{c.label}</button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="rounded-lg bg-ark-error/10 px-3 py-2 text-sm text-ark-error">{error}</p>}
+
+      <button onClick={submit} disabled={pending}
+        className="flex w-full items-center justify-center gap-2 rounded-xl bg-ark-primary py-3 text-sm font-semibold text-white transition-colors disabled:opacity-60">
+        {pending && <Loader2 className="h-4 w-4 animate-spin" />}
+        {editing ? 'Save alert' : 'Create alert'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, ChevronDown, X } from 'lucide-react';
+import { Badge, GlassCard } from '@/components/ui';
+import { describeFlag, ISSUE_LABELS } from '@/lib/briefing/quality';
+import { cn, formatRelativeTime } from '@/lib/utils/format';
+import type { BriefingQualityRow } from '@/lib/api/briefing-quality';
+
+interface Props {
+  briefing: BriefingQualityRow;
+  busy: boolean;
+  onApprove: () => void;
+  onReject: () => void;
+}
+
+/** One flagged briefing: what the checker caught, the text on demand, and the verdict buttons. */
+export function ReviewCard({ briefing, busy, onApprove, onReject }: Props) {
+  const [showText, setShowText] = useState(false);
+  const fc = briefing.fact_check;
+
+  return (
+    <GlassCard>
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="flex items-center gap-2 text-sm font-semibold text-ark-text">
+            {briefing.summary_date} · <span className="capitalize">{briefing.slot}</span>
+            {fc?.regenerated && <Badge variant="info">Regenerated</Badge>}
+          </p>
+          <p className="mt-0.5 text-xs text-ark-text-tertiary">
+            {formatRelativeTime(briefing.generated_at)} · {fc ? `${fc.verified}/${fc.checked} figures verified` : 'no check recorded'}
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-1">
+          <button onClick={onApprove} disabled={busy}
+            className="flex items-center gap-1 rounded-lg px-2.5 py-1.5 text-xs font-medium text-ark-success hover:bg-ark-success/10 disabled:opacity-50">
+            <Check className="h-3.5 w-3.5" /> Approve
+          </button>
+          <button onClick={onReject} disabled={busy}
+            className="flex items-center gap-1 rounded-lg px-2.5 py-1.5 text-xs font-medium text-ark-error hover:bg-ark-error/10 disabled:opacity-50">
+            <X className="h-3.5 w-3.5" /> Reject
+          </button>
+        </div>
+      </div>
+
+      {!!fc?.flags.length && (
+        <table className="mt-3 w-full text-xs">
+          <tbody className="divide-y divide-ark-divider/50">
+            {fc.flags.map((f, i) => (
+              <tr key={i}>
+                <td className="py-1.5 pr-2 align-top">
+                  <Badge variant={f.issue === 'stale' ? 'warning' : 'error'}>{ISSUE_LABELS[f.issue]}</Badge>
+                </td>
+                <td className="py-1.5 pr-2 align-top font-medium text-ark-text">{f.metric}</td>
+                <td className="fig py-1.5 pr-2 align-top text-ark-text">{describeFlag(f)}</td>
+                <td className="py-1.5 align-top text-ark-text-tertiary">…{f.snippet}…</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <button onClick={() => setShowText((v) => !v)}
+        className="mt-3 flex items-center gap-1 text-[11px] font-medium text-ark-primary">
+        {showText ? 'Hide briefing' : 'Show briefing'}
+        <ChevronDown className={cn('h-3 w-3 transition-transform', showText && 'rotate-180')} />
+      </button>
+      {showText && (
+        <p className="mt-2 whitespace-pre-line text-xs leading-relaxed text-ark-text-secondary">{briefing.summary}</p>
+      )}
+    </GlassCard>
+  );
+}
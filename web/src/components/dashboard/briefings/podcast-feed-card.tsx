@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { Copy, Podcast, RefreshCw } from 'lucide-react';
+import { Button, ConfirmDialog, GlassCard, Skeleton, useToast } from '@/components/ui';
+import { usePodcastFeedToken, useRotatePodcastFeedToken } from '@/lib/hooks/use-podcast-feed';
+import { podcastFeedUrl } from '@/lib/api/podcast-feed';
+import { formatRelativeTime } from '@/lib/utils/format';
+
+/** The member's private podcast feed URL: create, copy, or reset it. */
+export function PodcastFeedCard() {
+  const toast = useToast();
+  const { data: feed, isLoading } = usePodcastFeedToken();
+  const rotate = useRotatePodcastFeedToken();
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  const issue = () =>
+    rotate.mutate(undefined, {
+      onSuccess: () => {
+        setConfirmReset(false);
+        toast.success(feed ? 'Feed link reset — resubscribe with the new link' : 'Podcast feed created');
+      },
+      onError: () => toast.error('Could not create the feed link. Please try again.'),
+    });
+
+  const copy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Feed link copied');
+    } catch {
+      toast.error('Could not copy — select the link and copy it instead.');
+    }
+  };
+
+  return (
+    <GlassCard>
+      <ConfirmDialog
+        open={confirmReset}
+        title="Reset your podcast feed link?"
+        message="Podcast apps subscribed with the current link stop receiving briefings. You'll need to subscribe again with the new one."
+        confirmLabel="Reset link"
+        destructive
+        loading={rotate.isPending}
+        onConfirm={issue}
+        onCancel={() => setConfirmReset(false)}
+      />
+
+      <div className="flex items-start gap-3">
+        <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-xl bg-ark-violet/10">
+          <Podcast className="h-4 w-4 text-ark-violet" />
+        </div>
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-semibold text-ark-text">Listen in your podcast app</p>
+          <p className="mt-0.5 text-xs text-ark-text-tertiary">
+            Every briefing read aloud in chapters — macro, crypto, signals and the calendar ahead. The link is private to you;
+            don&apos;t share it.
+          </p>
+
+          {isLoading ? (
+            <Skeleton className="mt-3 h-9 w-full" />
+          ) : feed ? (
+            <>
+              <div className="mt-3 flex items-center gap-2">
+                <input
+                  readOnly
+                  value={podcastFeedUrl(feed.token)}
+                  onFocus={(e) => e.target.select()}
+                  aria-label="Podcast feed link"
+                  className="fig min-w-0 flex-1 rounded-lg border border-ark-divider bg-ark-fill-secondary px-3 py-2 text-xs text-ark-text-secondary outline-none"
+                />
+                <Button size="sm" onClick={() => copy(podcastFeedUrl(feed.token))}>
+                  <Copy className="h-3.5 w-3.5" /> Copy
+                </Button>
+              </div>
+              <div className="mt-2 flex items-center justify-between text-[11px] text-ark-text-tertiary">
+                <span>
+                  {feed.last_fetched_at
+                    ? `Last checked by a podcast app ${formatRelativeTime(feed.last_fetched_at)}`
+                    : 'Not subscribed in any app yet'}
+                </span>
+                <button onClick={() => setConfirmReset(true)}
+                  className="flex items-center gap-1 font-medium text-ark-text-secondary hover:text-ark-error">
+                  <RefreshCw className="h-3 w-3" /> Reset link
+                </button>
+              </div>
+            </>
+          ) : (
+            <Button size="sm" className="mt-3" onClick={issue} loading={rotate.isPending}>
+              Create my feed link
+            </Button>
+          )}
+        </div>
+      </div>
+    </GlassCard>
+  );
+}
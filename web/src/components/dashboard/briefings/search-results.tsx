@@ -0,0 +1,55 @@
+'use client';
+
+import { ArrowRight } from 'lucide-react';
+import { Badge, GlassCard, Skeleton } from '@/components/ui';
+import { excerptParts } from '@/lib/briefing/archive';
+import { formatBriefingDate } from './timeline-entry';
+import { BRIEFING_SEARCH_LIMIT, type BriefingSearchHit } from '@/lib/api/briefing-archive';
+
+interface Props {
+  query: string;
+  hits: BriefingSearchHit[] | undefined;
+  loading: boolean;
+  onOpen: (hit: BriefingSearchHit) => void;
+}
+
+/** Search matches across the whole archive, newest first, each opening on the timeline. */
+export function SearchResults({ query, hits, loading, onOpen }: Props) {
+  if (loading) return <Skeleton className="h-40 w-full" />;
+  if (!hits?.length) {
+    return (
+      <GlassCard>
+        <p className="py-6 text-center text-sm text-ark-text-tertiary">
+          No briefing mentions &ldquo;{query}&rdquo;. Try fewer words, or &ldquo;quotes&rdquo; for an exact phrase.
+        </p>
+      </GlassCard>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-ark-text-tertiary">
+        {hits.length === BRIEFING_SEARCH_LIMIT ? `Showing the ${BRIEFING_SEARCH_LIMIT} newest matches` : `${hits.length} matching briefing${hits.length === 1 ? '' : 's'}`}
+      </p>
+      <GlassCard className="divide-y divide-ark-divider/50 p-0">
+        {hits.map((h) => (
+          <button key={h.id} onClick={() => onOpen(h)}
+            className="group flex w-full items-start justify-between gap-3 px-4 py-3 text-left hover:bg-ark-fill-secondary/50">
+            <div className="min-w-0">
+              <p className="flex items-center gap-2 text-sm font-semibold text-ark-text">
+                {formatBriefingDate(h.summary_date)}
+                <Badge variant={h.slot === 'morning' ? 'info' : 'default'} className="capitalize">{h.slot}</Badge>
+              </p>
+              <p className="mt-1 text-xs leading-relaxed text-ark-text-secondary">
+                {excerptParts(h.excerpt).map((p, i) => p.match
+                  ? <mark key={i} className="rounded bg-ark-primary/15 px-0.5 text-ark-text">{p.text}</mark>
+                  : <span key={i}>{p.text}</span>)}
+              </p>
+            </div>
+            <ArrowRight className="mt-1 h-4 w-4 shrink-0 text-ark-text-tertiary group-hover:text-ark-primary" />
+          </button>
+        ))}
+      </GlassCard>
+    </div>
+  );
+}
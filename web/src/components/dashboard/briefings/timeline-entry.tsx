@@ -0,0 +1,82 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { Badge, GlassCard } from '@/components/ui';
+import { cn, formatCurrency, formatPercent, parseBriefingSections } from '@/lib/utils/format';
+import type { TimelineEntry as Entry } from '@/lib/briefing/archive';
+
+interface Props {
+  entry: Entry;
+  focused?: boolean;
+}
+
+export const formatBriefingDate = (date: string) =>
+  new Date(`${date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * One archived briefing on the timeline: the day's ArkLine Score and BTC price
+ * beside the text, plus how BTC moved over the following week. Shows the first
+ * section until expanded; an entry opened from search starts expanded.
+ */
+export function TimelineEntry({ entry, focused = false }: Props) {
+  const [expanded, setExpanded] = useState(focused);
+  const ref = useRef<HTMLDivElement>(null);
+  const sections = parseBriefingSections(entry.summary);
+  const shown = expanded ? sections : sections.slice(0, 1);
+
+  useEffect(() => {
+    if (focused) ref.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [focused]);
+
+  return (
+    <div ref={ref} className="grid gap-3 sm:grid-cols-[10rem_1fr]">
+      <div className="sm:pt-4">
+        <p className="text-sm font-semibold text-ark-text">{formatBriefingDate(entry.summary_date)}</p>
+        <Badge variant={entry.slot === 'morning' ? 'info' : 'default'} className="mt-1 capitalize">{entry.slot}</Badge>
+        <dl className="mt-2 space-y-1 text-xs">
+          <div className="flex justify-between gap-2 sm:block">
+            <dt className="text-ark-text-tertiary">ArkLine Score</dt>
+            <dd className="fig font-semibold text-ark-text">{entry.score != null ? Math.round(entry.score) : '—'}</dd>
+          </div>
+          <div className="flex justify-between gap-2 sm:block">
+            <dt className="text-ark-text-tertiary">BTC</dt>
+            <dd className="fig font-semibold text-ark-text">
+              {entry.btcPrice != null ? formatCurrency(entry.btcPrice, 'USD', { decimals: 0 }) : '—'}
+            </dd>
+          </div>
+          {entry.btcAfter != null && (
+            <div className="flex justify-between gap-2 sm:block">
+              <dt className="text-ark-text-tertiary">BTC next 7 days</dt>
+              <dd className={cn('fig font-semibold', entry.btcAfter >= 0 ? 'text-ark-success' : 'text-ark-error')}>
+                {formatPercent(entry.btcAfter, 1)}
+              </dd>
+            </div>
+          )}
+        </dl>
+      </div>
+
+      <GlassCard className={cn(focused && 'ring-1 ring-ark-primary/40')}>
+        <div className="space-y-4">
+          {shown.map((s, i) => (
+            <div key={i}>
+              {s.title && (
+                <p className="mb-1 text-[11px] font-bold uppercase tracking-wider text-ark-primary">{s.title}</p>
+              )}
+              <div className="space-y-2 text-sm leading-[1.7] text-ark-text-secondary">
+                {s.body.split('\n').filter(Boolean).map((line, j) => <p key={j}>{line}</p>)}
+              </div>
+            </div>
+          ))}
+        </div>
+        {sections.length > 1 && (
+          <button onClick={() => setExpanded((v) => !v)}
+            className="mt-3 flex items-center gap-1 text-[11px] font-medium text-ark-primary">
+            {expanded ? 'Show less' : `Read full briefing (${sections.length} sections)`}
+            <ChevronDown className={cn('h-3 w-3 transition-transform', expanded && 'rotate-180')} />
+          </button>
+        )}
+      </GlassCard>
+    </div>
+  );
+}
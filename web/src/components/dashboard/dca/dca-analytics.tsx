@@ -0,0 +1,148 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { DetailDrawer } from '@/components/ui/detail-drawer';
+import { Skeleton } from '@/components/ui';
+import { useLivePrices, usePriceHistories } from '@/lib/hooks/use-portfolio';
+import { analyzeDCA, LATE_GRACE_DAYS, type SlotStatus } from '@/lib/dca/analytics';
+import { formatCurrency } from '@/lib/utils/format';
+import type { DCAInvestment, DCAReminder } from '@/types';
+
+// CoinGecko daily history reaches back a year on our plan
+const MAX_HISTORY_DAYS = 365;
+
+const SLOT_COLOR: Record<SlotStatus, string> = {
+  on_time: 'var(--ark-success)',
+  late: 'var(--ark-warning)',
+  missed: 'var(--ark-error)',
+  due: 'var(--ark-text-disabled)',
+};
+
+interface Props {
+  reminder: DCAReminder | null;
+  investments: DCAInvestment[];
+  loading?: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Per-plan DCA analytics: cost averaging against a lump sum and today's
+ * price, schedule adherence, cadence, and where the plan ends up if it keeps
+ * going. See lib/dca/analytics for the definitions.
+ */
+export function DCAAnalyticsDrawer({ reminder, investments, loading, onClose }: Props) {
+  const [now] = useState(() => Date.now());
+  const assets = useMemo(() => (reminder ? [{ asset_type: 'crypto', symbol: reminder.symbol }] : undefined), [reminder]);
+  const historyDays = reminder
+    ? Math.min(Math.ceil((now - Date.parse(reminder.start_date)) / 86_400_000) + 2, MAX_HISTORY_DAYS)
+    : 0;
+  const { data: live } = useLivePrices(assets);
+  const { data: histories } = usePriceHistories(assets, Math.max(historyDays, 1));
+
+  const key = reminder?.symbol.toLowerCase() ?? '';
+  const currentPrice = live?.get(key)?.price ?? null;
+  const a = useMemo(
+    () => (reminder ? analyzeDCA(reminder, investments, currentPrice, histories?.get(key) ?? []) : null),
+    [reminder, investments, currentPrice, histories, key],
+  );
+
+  const money = (v: number | null | undefined) => (v == null ? '—' : formatCurrency(v, 'USD', { decimals: 2 }));
+  const signed = (v: number | null | undefined) => (v == null ? '—' : `${v >= 0 ? '+' : ''}${formatCurrency(v, 'USD', { decimals: 2 })}`);
+  const tone = (v: number | null | undefined) => (v == null ? undefined : v >= 0 ? 'var(--ark-success)' : 'var(--ark-error)');
+  const metric = (label: string, value: string, hint?: string, color?: string) => (
+    <div className="rounded-xl border border-ark-divider bg-ark-fill-secondary/40 p-3">
+      <p className="text-[10px] uppercase tracking-wider text-ark-text-tertiary">{label}</p>
+      <p className="fig mt-0.5 text-sm font-bold" style={{ color: color ?? 'var(--ark-text)' }}>{value}</p>
+      {hint && <p className="mt-0.5 text-[10px] text-ark-text-disabled">{hint}</p>}
+    </div>
+  );
+  const shortDate = (d: string) => new Date(d + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' });
+
+  return (
+    <DetailDrawer open={reminder !== null} onClose={onClose} title={reminder ? `${reminder.name} DCA` : ''}>
+      {!reminder || !a ? null : loading ? (
+        <Skeleton className="h-80 w-full" />
+      ) : (
+        <div className="space-y-5 pb-2">
+          {/* Cost averaging */}
+          <div className="grid grid-cols-2 gap-2">
+            {metric('Invested', money(a.invested), `${a.quantity.toPrecision(6)} ${reminder.symbol.toUpperCase()}`)}
+            {metric('Value', money(a.currentValue), a.pnlPct == null ? undefined : `${a.pnlPct >= 0 ? '+' : ''}${a.pnlPct.toFixed(1)}%`, tone(a.pnl))}
+            {metric('Average cost', money(a.averageCost),
+              a.averageCost && a.currentPrice ? `${((a.currentPrice / a.averageCost - 1) * 100).toFixed(1)}% vs ${money(a.currentPrice)} now` : undefined)}
+            {metric('vs lump sum', signed(a.lumpSum?.advantage),
+              a.lumpSum ? `all in at ${money(a.lumpSum.price)} on ${a.slots[0] ? shortDate(a.slots[0].scheduled) : 'start'}` : 'no purchases yet',
+              tone(a.lumpSum?.advantage))}
+          </div>
+
+          {/* Schedule adherence */}
+          <div>
+            <p className="mb-2 text-[10px] uppercase tracking-wider text-ark-text-tertiary">Schedule</p>
+            <div className="grid grid-cols-4 gap-2 text-center">
+              {([['On time', a.onTime, 'on_time'], ['Late', a.late, 'late'], ['Missed', a.missed, 'missed']] as const).map(([label, n, s]) => (
+                <div key={s} className="rounded-lg bg-ark-fill-secondary/60 py-2">
+                  <p className="fig text-lg font-bold" style={{ color: n ? SLOT_COLOR[s] : 'var(--ark-text-disabled)' }}>{n}</p>
+                  <p className="text-[10px] text-ark-text-tertiary">{label}</p>
+                </div>
+              ))}
+              <div className="rounded-lg bg-ark-fill-secondary/60 py-2">
+                <p className="fig text-lg font-bold text-ark-text-secondary">{a.unscheduled}</p>
+                <p className="text-[10px] text-ark-text-tertiary">Extra</p>
+              </div>
+            </div>
+            {a.slots.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {a.slots.map((s) => (
+                  <span key={s.scheduled} className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: SLOT_COLOR[s.status] }}
+                    title={`${shortDate(s.scheduled)} — ${s.status === 'late' ? `${s.daysLate}d late` : s.status.replace('_', ' ')}`} />
+                ))}
+              </div>
+            )}
+            <p className="mt-2 text-[11px] text-ark-text-tertiary">
+              Every <span className="fig font-semibold text-ark-text">{a.cadence.scheduledDays.toFixed(1)}</span> days scheduled,
+              {a.cadence.actualDays == null
+                ? ' not enough purchases to measure yet.'
+                : <> every <span className="fig font-semibold text-ark-text">{a.cadence.actualDays.toFixed(1)}</span> days actual.</>}
+              {' '}Up to {LATE_GRACE_DAYS} day after the date counts as on time.
+            </p>
+          </div>
+
+          {/* Projection */}
+          <div className="rounded-xl border border-ark-divider bg-ark-fill-secondary/40 p-3">
+            <p className="text-[10px] uppercase tracking-wider text-ark-text-tertiary">If the plan continues</p>
+            {a.projection.purchases === 0 ? (
+              <p className="mt-1 text-xs text-ark-text-secondary">{reminder.is_active ? 'The plan is complete.' : 'The plan is paused.'}</p>
+            ) : (
+              <>
+                <p className="mt-1 text-xs text-ark-text-secondary">
+                  <span className="fig font-semibold text-ark-text">{a.projection.purchases}</span> more buys of {money(reminder.amount)}
+                  {a.projection.endDate && <> through {shortDate(a.projection.endDate)}</>}:{' '}
+                  <span className="fig font-semibold text-ark-text">{money(a.projection.invested)}</span> invested,{' '}
+                  <span className="fig font-semibold text-ark-text">{a.projection.quantity?.toPrecision(6) ?? '—'}</span> {reminder.symbol.toUpperCase()}
+                  {a.projection.averageCost != null && <> at {money(a.projection.averageCost)} average</>}.
+                </p>
+                <p className="mt-1 text-[10px] text-ark-text-disabled">At today&apos;s price{reminder.total_purchases == null ? ', over the next year' : ''}.</p>
+              </>
+            )}
+          </div>
+
+          {/* Purchases */}
+          {investments.length > 0 && (
+            <div>
+              <p className="mb-2 text-[10px] uppercase tracking-wider text-ark-text-tertiary">Purchases</p>
+              <div className="divide-y divide-ark-divider text-xs">
+                {[...investments].reverse().map((i) => (
+                  <div key={i.id} className="flex items-center justify-between py-1.5">
+                    <span className="text-ark-text-secondary">{shortDate(i.purchase_date.slice(0, 10))}</span>
+                    <span className="fig text-ark-text">{money(i.amount)} @ {money(i.price_at_purchase)}</span>
+                    <span className="text-[10px] text-ark-text-disabled">{i.transaction_id ? 'In portfolio' : 'DCA only'}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </DetailDrawer>
+  );
+}
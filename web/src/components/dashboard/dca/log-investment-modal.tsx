@@ -0,0 +1,135 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { DetailDrawer } from '@/components/ui/detail-drawer';
+import { useLogInvestment } from '@/lib/hooks/use-dca-mutations';
+import { useLivePrices, usePortfolios } from '@/lib/hooks/use-portfolio';
+import { useCurrentRiskLevels } from '@/lib/hooks/use-dca';
+import { plannedBuy, riskBandInfo } from '@/lib/dca/risk-adjusted';
+import { slotFor } from '@/lib/dca/analytics';
+import { cn, formatCurrency, localDateISO } from '@/lib/utils/format';
+import type { DCAReminder } from '@/types';
+
+interface Props {
+  reminder: DCAReminder | null;
+  onClose: () => void;
+  onLogged?: () => void;
+}
+
+/**
+ * Log one DCA purchase at the price actually paid. With "Add to portfolio"
+ * on, the purchase is also recorded as a buy in the chosen portfolio and the
+ * two stay linked.
+ */
+export function LogInvestmentModal({ reminder, onClose, onLogged }: Props) {
+  return (
+    <DetailDrawer open={reminder !== null} onClose={onClose} title={reminder ? `Log ${reminder.symbol.toUpperCase()} purchase` : ''}>
+      {/* Keyed so every opening starts from the reminder's defaults */}
+      {reminder && <LogInvestmentForm key={reminder.id} reminder={reminder} onClose={onClose} onLogged={onLogged} />}
+    </DetailDrawer>
+  );
+}
+
+function LogInvestmentForm({ reminder, onClose, onLogged }: Props & { reminder: DCAReminder }) {
+  const log = useLogInvestment();
+  const { data: portfolios } = usePortfolios();
+  const assets = useMemo(() => [{ asset_type: 'crypto', symbol: reminder.symbol }], [reminder.symbol]);
+  const { data: live } = useLivePrices(assets);
+  const livePrice = live?.get(reminder.symbol.toLowerCase())?.price;
+  const { levels } = useCurrentRiskLevels();
+  const planned = plannedBuy(reminder, levels.get(reminder.symbol.toUpperCase()));
+
+  // null until typed over — risk-adjusted plans suggest today's sized buy
+  const [typedAmount, setTypedAmount] = useState<string | null>(null);
+  // null until typed over — shows the live price once it arrives
+  const [typedPrice, setTypedPrice] = useState<string | null>(null);
+  const [date, setDate] = useState(() => localDateISO());
+  // null = the first portfolio, '' = don't add
+  const [chosenPortfolio, setChosenPortfolio] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const amount = typedAmount ?? String(Math.round(planned.amount * 100) / 100);
+  const price = typedPrice ?? (livePrice ? String(livePrice) : '');
+  const portfolioId = chosenPortfolio ?? portfolios?.[0]?.id ?? '';
+  const amt = parseFloat(amount);
+  const px = parseFloat(price);
+  const quantity = amt > 0 && px > 0 ? amt / px : null;
+
+  const submit = async () => {
+    setError('');
+    if (!(amt > 0)) return setError('Enter a valid amount.');
+    if (!(px > 0)) return setError('Enter a valid price.');
+    // Today's buys keep their time; backdated ones land at midday local time
+    const when = date === localDateISO() ? new Date() : new Date(`${date}T12:00:00`);
+    try {
+      await log.mutateAsync({
+        reminder,
+        purchase: { amount: amt, price: px, date: when.toISOString(), portfolioId: portfolioId || undefined },
+      });
+      onLogged?.();
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong.');
+    }
+  };
+
+  const input = 'w-full rounded-xl border border-ark-divider bg-ark-fill-secondary/40 px-3 py-2.5 text-sm text-ark-text outline-none focus:border-ark-info';
+  const chip = (on: boolean) => cn('rounded-lg border px-3 py-1.5 text-sm font-medium transition-colors', on ? 'border-ark-primary bg-ark-primary/10 text-ark-primary' : 'border-ark-divider text-ark-text-secondary');
+
+  return (
+    <div className="space-y-5 pb-2">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="mb-1.5 block text-xs font-semibold text-ark-text-secondary">Amount (USD)</label>
+          <input type="number" inputMode="decimal" value={amount} onChange={(e) => setTypedAmount(e.target.value)} className={input} />
+          {planned.band && (
+            <p className="mt-1 text-[11px] text-ark-text-disabled">
+              {planned.multiplier === 0
+                ? `Today's ${riskBandInfo(planned.band).label.toLowerCase()} says skip this buy.`
+                : `${planned.multiplier}× base at today's ${riskBandInfo(planned.band).label.toLowerCase()}.`}
+            </p>
+          )}
+        </div>
+        <div>
+          <label className="mb-1.5 block text-xs font-semibold text-ark-text-secondary">Price paid</label>
+          <input type="number" inputMode="decimal" value={price} onChange={(e) => setTypedPrice(e.target.value)} placeholder="0.00" className={input} />
+        </div>
+      </div>
+
+      <div>
+        <label className="mb-1.5 block text-xs font-semibold text-ark-text-secondary">Date</label>
+        <input type="date" value={date} max={localDateISO()} onChange={(e) => setDate(e.target.value)} className={input} />
+        <p className="mt-1 text-[11px] text-ark-text-disabled">Counts toward the buy scheduled for {slotFor(reminder, date)}.</p>
+      </div>
+
+      {quantity != null && (
+        <p className="text-xs text-ark-text-tertiary">
+          ≈ <span className="fig font-semibold text-ark-text">{quantity.toPrecision(6)}</span> {reminder.symbol.toUpperCase()} at {formatCurrency(px)}
+        </p>
+      )}
+
+      {/* Portfolio link */}
+      {portfolios && portfolios.length > 0 && (
+        <div>
+          <label className="mb-1.5 block text-xs font-semibold text-ark-text-secondary">Add to portfolio</label>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => setChosenPortfolio('')} className={chip(portfolioId === '')}>Don&apos;t add</button>
+            {portfolios.map((p) => (
+              <button key={p.id} onClick={() => setChosenPortfolio(p.id)} className={chip(portfolioId === p.id)}>{p.name}</button>
+            ))}
+          </div>
+          <p className="mt-1 text-[11px] text-ark-text-disabled">Recorded as a buy; deleting that transaction removes this purchase too.</p>
+        </div>
+      )}
+
+      {error && <p className="rounded-lg bg-ark-error/10 px-3 py-2 text-sm text-ark-error">{error}</p>}
+
+      <button onClick={submit} disabled={log.isPending}
+        className="flex w-full items-center justify-center gap-2 rounded-xl bg-ark-primary py-3 text-sm font-semibold text-white transition-colors hover:brightness-110 disabled:opacity-60">
+        {log.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+        Log Purchase
+      </button>
+    </div>
+  );
+}
@@ -7,7 +7,10 @@ import { useCryptoAssets } from '@/lib/hooks/use-market';
 import { useCreateReminder, useUpdateReminder } from '@/lib/hooks/use-dca-mutations';
 import { cn, localDateISO } from '@/lib/utils/format';
 import { CoinIcon } from '@/components/dashboard/shared/coin-icon';
-import type { DCAReminder } from '@/types';
+import { RiskStrategyPanel } from '@/components/dashboard/dca/risk-strategy';
+import { advance } from '@/lib/dca/analytics';
+import { DEFAULT_RISK_MULTIPLIERS, resolveMultipliers } from '@/lib/dca/risk-adjusted';
+import type { DCAReminder, DCARiskMultipliers, DCAStrategy } from '@/types';
 
 const FREQUENCIES = [
   { value: 'daily', label: 'Daily' },
@@ -17,6 +20,11 @@ const FREQUENCIES = [
   { value: 'monthly', label: 'Monthly' },
 ];
 
+const STRATEGIES: { value: DCAStrategy; label: string; hint: string }[] = [
+  { value: 'fixed', label: 'Fixed', hint: 'Same amount every time' },
+  { value: 'risk_adjusted', label: 'Risk-adjusted', hint: 'Scaled by the regression risk band' },
+];
+
 interface Props {
   open: boolean;
   onClose: () => void;
@@ -35,6 +43,8 @@ export function ReminderModal({ open, onClose, editing }: Props) {
   const [frequency, setFrequency] = useState('weekly');
   const [time, setTime] = useState('09:00');
   const [startDate, setStartDate] = useState(() => localDateISO());
+  const [strategy, setStrategy] = useState<DCAStrategy>('fixed');
+  const [multipliers, setMultipliers] = useState<DCARiskMultipliers>(DEFAULT_RISK_MULTIPLIERS);
   const [error, setError] = useState('');
 
   useEffect(() => {
@@ -47,9 +57,13 @@ export function ReminderModal({ open, onClose, editing }: Props) {
         setFrequency(editing.frequency);
         setTime((editing.notification_time ?? '09:00:00').slice(0, 5));
         setStartDate(editing.start_date);
+        setStrategy(editing.strategy ?? 'fixed');
+        setMultipliers(resolveMultipliers(editing.risk_multipliers));
       } else {
         setSymbol(''); setName(''); setAmount(''); setFrequency('weekly'); setTime('09:00');
         setStartDate(localDateISO());
+        setStrategy('fixed');
+        setMultipliers(DEFAULT_RISK_MULTIPLIERS);
       }
       setSearch('');
     }
@@ -67,7 +81,10 @@ export function ReminderModal({ open, onClose, editing }: Props) {
     if (!symbol) return setError('Choose an asset.');
     if (!amt || amt <= 0) return setError('Enter a valid amount.');
     try {
-      const input = { symbol, name: name || symbol, amount: amt, frequency, notification_time: time, start_date: startDate };
+      const input = {
+        symbol, name: name || symbol, amount: amt, frequency, notification_time: time, start_date: startDate,
+        strategy, risk_multipliers: strategy === 'risk_adjusted' ? multipliers : undefined,
+      };
       if (editing) await update.mutateAsync({ id: editing.id, patch: input });
       else await create.mutateAsync(input);
       onClose();
@@ -111,7 +128,9 @@ export function ReminderModal({ open, onClose, editing }: Props) {
 
         {/* Amount */}
         <div>
-          <label className="mb-1.5 block text-xs font-semibold text-ark-text-secondary">Amount per purchase (USD)</label>
+          <label className="mb-1.5 block text-xs font-semibold text-ark-text-secondary">
+            {strategy === 'risk_adjusted' ? 'Base amount per purchase (USD)' : 'Amount per purchase (USD)'}
+          </label>
           <input type="number" inputMode="decimal" value={amount} onChange={(e) => setAmount(e.target.value)} placeholder="100.00"
             className="w-full rounded-xl border border-ark-divider bg-ark-fill-secondary/40 px-3 py-2.5 text-sm text-ark-text outline-none focus:border-ark-info" />
         </div>
@@ -143,6 +162,31 @@ export function ReminderModal({ open, onClose, editing }: Props) {
           </div>
         </div>
 
+        {/* Strategy */}
+        <div>
+          <label className="mb-1.5 block text-xs font-semibold text-ark-text-secondary">Strategy</label>
+          <div className="grid grid-cols-2 gap-2">
+            {STRATEGIES.map((st) => (
+              <button key={st.value} onClick={() => setStrategy(st.value)}
+                className={cn('rounded-xl border px-3 py-2 text-left transition-colors', strategy === st.value ? 'border-ark-primary bg-ark-primary/10' : 'border-ark-divider')}>
+                <p className={cn('text-sm font-medium', strategy === st.value ? 'text-ark-primary' : 'text-ark-text-secondary')}>{st.label}</p>
+                <p className="text-[11px] text-ark-text-disabled">{st.hint}</p>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {strategy === 'risk_adjusted' && (
+          <RiskStrategyPanel
+            symbol={symbol}
+            amount={parseFloat(amount) || 0}
+            frequency={frequency}
+            nextDate={editing?.next_reminder_date ?? advance(startDate, frequency)}
+            multipliers={multipliers}
+            onChange={setMultipliers}
+          />
+        )}
+
         {error && <p className="rounded-lg bg-ark-error/10 px-3 py-2 text-sm text-ark-error">{error}</p>}
 
         <button onClick={submit} disabled={pending}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Skeleton } from '@/components/ui';
+import { useAssetRiskHistory } from '@/lib/hooks/use-market';
+import { useCurrentRiskLevels } from '@/lib/hooks/use-dca';
+import {
+  DCA_RISK_BANDS, DEFAULT_RISK_MULTIPLIERS, MAX_RISK_MULTIPLIER, previewRiskBuys, riskAdjustedAmount, riskBandInfo, simulateRiskDCA,
+} from '@/lib/dca/risk-adjusted';
+import { cn, formatCurrency } from '@/lib/utils/format';
+import type { DCARiskMultipliers } from '@/types';
+
+// fetchAssetRiskHistory reads at most 1000 daily rows, oldest first
+const PERIODS: { label: string; days: number }[] = [
+  { label: '6M', days: 182 },
+  { label: '1Y', days: 365 },
+  { label: '2Y', days: 730 },
+];
+
+interface Props {
+  symbol: string;
+  amount: number;               // base buy
+  frequency: string;
+  nextDate: string;             // first buy the preview shows
+  multipliers: DCARiskMultipliers;
+  onChange: (m: DCARiskMultipliers) => void;
+}
+
+/**
+ * Risk-adjusted plan settings: per-band multipliers, the next buys at today's
+ * risk, and a backtest of the schedule against plain DCA over the asset's
+ * regression risk history.
+ */
+export function RiskStrategyPanel({ symbol, amount, frequency, nextDate, multipliers, onChange }: Props) {
+  const sym = symbol.toUpperCase();
+  const { levels, isLoading: levelsLoading } = useCurrentRiskLevels();
+  const risk = levels.get(sym) ?? null;
+  const current = riskAdjustedAmount(amount, risk, multipliers);
+  const preview = previewRiskBuys(amount, frequency, nextDate, risk, multipliers);
+
+  const money = (v: number) => formatCurrency(v, 'USD', { decimals: 2 });
+  const shortDate = (d: string) => new Date(d + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const setBand = (band: keyof DCARiskMultipliers, raw: string) => {
+    const v = parseFloat(raw);
+    onChange({ ...multipliers, [band]: Number.isFinite(v) ? Math.min(Math.max(v, 0), MAX_RISK_MULTIPLIER) : 0 });
+  };
+
+  return (
+    <div className="space-y-5">
+      {/* Today */}
+      {levelsLoading ? (
+        <Skeleton className="h-10 w-full" />
+      ) : risk == null ? (
+        <p className="rounded-lg bg-ark-fill-secondary/60 px-3 py-2 text-xs text-ark-text-secondary">
+          {sym ? `${sym} has no regression risk model` : 'Choose an asset'} — buys stay at the base amount. Risk covers BTC, ETH and SOL.
+        </p>
+      ) : (
+        <p className="text-xs text-ark-text-secondary">
+          {sym} risk is <span className="fig font-semibold" style={{ color: riskBandInfo(current.band!).color }}>{risk.toFixed(3)}</span>{' '}
+          ({riskBandInfo(current.band!).label}), so the next buy is{' '}
+          <span className="fig font-semibold text-ark-text">{money(current.amount)}</span> ({current.multiplier}× base).
+        </p>
+      )}
+
+      {/* Multipliers */}
+      <div>
+        <div className="mb-1.5 flex items-center justify-between">
+          <label className="text-xs font-semibold text-ark-text-secondary">Multiplier per risk band</label>
+          <button onClick={() => onChange({ ...DEFAULT_RISK_MULTIPLIERS })} className="text-[11px] font-semibold text-ark-info">Reset</button>
+        </div>
+        <div className="divide-y divide-ark-divider rounded-xl border border-ark-divider">
+          {DCA_RISK_BANDS.map((band) => {
+            const info = riskBandInfo(band);
+            return (
+              <div key={band} className={cn('flex items-center gap-3 px-3 py-2', current.band === band && 'bg-ark-fill-secondary/60')}>
+                <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: info.color }} />
+                <div className="min-w-0 flex-1">
+                  <p className="text-xs font-medium text-ark-text">{info.label}</p>
+                  <p className="text-[10px] text-ark-text-disabled">{info.range}</p>
+                </div>
+                <input type="number" inputMode="decimal" min={0} max={MAX_RISK_MULTIPLIER} step={0.25} value={multipliers[band]}
+                  onChange={(e) => setBand(band, e.target.value)}
+                  className="w-16 rounded-lg border border-ark-divider bg-ark-fill-secondary/40 px-2 py-1 text-right text-xs text-ark-text outline-none focus:border-ark-info" />
+                <span className="fig w-20 text-right text-xs text-ark-text-secondary">
+                  {multipliers[band] === 0 ? 'skip' : money(amount * multipliers[band])}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Next buys */}
+      {amount > 0 && (
+        <div>
+          <p className="mb-1.5 text-xs font-semibold text-ark-text-secondary">Next buys at today&apos;s risk</p>
+          <div className="grid grid-cols-4 gap-2 text-center">
+            {preview.map((b) => (
+              <div key={b.date} className="rounded-lg bg-ark-fill-secondary/60 py-2">
+                <p className="fig text-sm font-bold text-ark-text">{b.amount === 0 ? 'Skip' : money(b.amount)}</p>
+                <p className="text-[10px] text-ark-text-tertiary">{shortDate(b.date)}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {amount > 0 && sym && <RiskBacktest symbol={sym} amount={amount} frequency={frequency} multipliers={multipliers} />}
+    </div>
+  );
+}
+
+function RiskBacktest({ symbol, amount, frequency, multipliers }: { symbol: string; amount: number; frequency: string; multipliers: DCARiskMultipliers }) {
+  const [days, setDays] = useState(365);
+  const { data, isLoading } = useAssetRiskHistory(symbol, days);
+  const sim = useMemo(() => (data ? simulateRiskDCA(data, amount, frequency, multipliers) : null), [data, amount, frequency, multipliers]);
+
+  const money = (v: number | null) => (v == null ? '—' : formatCurrency(v, 'USD', { decimals: 0 }));
+  const pct = (v: number | null) => (v == null ? '—' : `${v >= 0 ? '+' : ''}${v.toFixed(1)}%`);
+  const rows: { label: string; plain: string; risk: string }[] = sim ? [
+    { label: 'Invested', plain: money(sim.plain.invested), risk: money(sim.risk.invested) },
+    { label: 'Value', plain: money(sim.plain.value), risk: money(sim.risk.value) },
+    { label: 'Return', plain: pct(sim.plain.returnPct), risk: pct(sim.risk.returnPct) },
+    { label: 'Average cost', plain: money(sim.plain.averageCost), risk: money(sim.risk.averageCost) },
+    { label: 'Buys made', plain: String(sim.plain.buys), risk: String(sim.risk.buys) },
+  ] : [];
+
+  return (
+    <div>
+      <div className="mb-2 flex items-center justify-between">
+        <p className="text-xs font-semibold text-ark-text-secondary">Backtest vs plain DCA</p>
+        <div className="flex gap-1 rounded-full bg-ark-fill-secondary/60 p-1">
+          {PERIODS.map((p) => (
+            <button key={p.label} onClick={() => setDays(p.days)}
+              className={cn('rounded-full px-2.5 py-0.5 text-[11px] font-semibold transition-colors', days === p.days ? 'bg-ark-primary text-white shadow-sm' : 'text-ark-text-tertiary hover:text-ark-text')}>
+              {p.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-44 w-full" />
+      ) : !sim ? (
+        <p className="py-6 text-center text-xs text-ark-text-tertiary">No regression risk history for {symbol}.</p>
+      ) : (
+        <>
+          <div className="h-44 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={sim.points} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+                <XAxis dataKey="date" hide />
+                <YAxis hide domain={['auto', 'auto']} />
+                <Tooltip
+                  contentStyle={{ background: 'var(--ark-card)', border: '1px solid var(--ark-divider)', borderRadius: 8, fontSize: 12 }}
+                  formatter={(v, name) => [money(Number(v)), name === 'riskValue' ? 'Risk-adjusted' : 'Plain DCA']}
+                />
+                <Line type="monotone" dataKey="plainValue" stroke="var(--ark-text-tertiary)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                <Line type="monotone" dataKey="riskValue" stroke="var(--ark-primary)" strokeWidth={2.5} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <table className="mt-2 w-full text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-wider text-ark-text-tertiary">
+                <th className="py-1 text-left font-medium" />
+                <th className="py-1 text-right font-medium">Plain</th>
+                <th className="py-1 text-right font-medium text-ark-primary">Risk-adjusted</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-ark-divider">
+              {rows.map((r) => (
+                <tr key={r.label}>
+                  <td className="py-1.5 text-ark-text-secondary">{r.label}</td>
+                  <td className="fig py-1.5 text-right text-ark-text">{r.plain}</td>
+                  <td className="fig py-1.5 text-right font-semibold text-ark-text">{r.risk}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="mt-3 flex h-2 overflow-hidden rounded-full bg-ark-fill-secondary">
+            {DCA_RISK_BANDS.map((band) => sim.byBand[band].buys > 0 && (
+              <div key={band} style={{ width: `${(sim.byBand[band].buys / sim.plain.buys) * 100}%`, backgroundColor: riskBandInfo(band).color }}
+                title={`${riskBandInfo(band).label}: ${sim.byBand[band].buys} buys, ${money(sim.byBand[band].invested)}`} />
+            ))}
+          </div>
+          <p className="mt-2 text-[10px] text-ark-text-disabled">
+            {sim.plain.buys} scheduled buys from {sim.start} to {sim.end} at the regression model&apos;s daily close, marked to the last close. Bar shows time spent in each band.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -26,7 +26,7 @@ import {
 import { useAuth } from '@/lib/hooks/use-auth';
 import { RefreshStatus } from '@/components/dashboard/shared/refresh-status';
 import { CoinIcon } from '@/components/dashboard/shared/coin-icon';
-import { usePortfolios, usePricedHoldings, usePortfolioHistory } from '@/lib/hooks/use-portfolio';
+import { usePortfolios, usePricedHoldings, usePortfolioHistory, usePortfolioRiskScore } from '@/lib/hooks/use-portfolio';
 import { useWidgetVisibility } from '@/lib/hooks/use-widget-visibility';
 import { CustomizePanel } from '@/components/dashboard/shared/customize-panel';
 import { useQuery } from '@tanstack/react-query';
@@ -39,11 +39,12 @@ import {
   SkeletonHeroTile, SkeletonGaugeTile, SkeletonSparkTile, SkeletonListTile, SkeletonMacroTile,
 } from '../shared/bento-primitives';
 import { AssetLogo } from './risk-levels-detail';
+import { PersonalBriefingSection } from './personal-briefing';
 import { useWatchlist } from '@/lib/hooks/use-watchlist';
 import { DraggableGrid, type ResponsiveLayouts } from '../shared/draggable-grid';
 
 type WidgetKey =
-  | 'portfolio' | 'briefing' | 'fearGreed' | 'arklineScore'
+  | 'portfolio' | 'briefing' | 'fearGreed' | 'arklineScore' | 'portfolioRisk'
   | 'riskChart' | 'marketMovers' | 'macro' | 'supply'
   | 'assetRisk' | 'events' | 'favorites' | 'dca' | 'news'
   | 'vix' | 'dxy' | 'm2' | 'marketBreadth' | 'signalChanges' | 'stockRisk'
@@ -55,6 +56,7 @@ const drawerTitles: Record<WidgetKey, string> = {
   briefing: 'Daily Briefing',
   fearGreed: 'Fear & Greed Index',
   arklineScore: 'ArkLine Score',
+  portfolioRisk: 'Portfolio Risk',
   riskChart: 'Risk Score',
   marketMovers: 'Core Technical Analysis',
   macro: 'Macro Dashboard',
@@ -90,6 +92,7 @@ function LazyDrawerWidget({ widgetKey, param }: { widgetKey: WidgetKey; param?:
       briefing: () => import('./briefing-card').then(m => ({ default: m.BriefingCard })),
       fearGreed: () => import('./fear-greed-gauge').then(m => ({ default: m.FearGreedGauge })),
       arklineScore: () => import('./arkline-score').then(m => ({ default: m.ArkLineScore })),
+      portfolioRisk: () => import('./portfolio-risk-detail').then(m => ({ default: m.PortfolioRiskDetail })),
       riskChart: () => import('./risk-chart').then(m => ({ default: m.RiskChart })),
       marketMovers: () => import('./market-movers').then(m => ({ default: m.MarketMovers })),
       macro: () => import('./macro-dashboard').then(m => ({ default: m.MacroDashboard })),
@@ -369,6 +372,59 @@ function ArkLineScoreTile({ onOpen }: { onOpen: () => void }) {
   );
 }
 
+/* Portfolio risk — the member's own exposure, shown beside the market-wide
+ * ArkLine Score. Score and bands are on the per-asset risk scale (0-1). */
+function PortfolioRiskTile({ onOpen }: { onOpen: () => void }) {
+  const { data: portfolios, isLoading: portfoliosLoading } = usePortfolios();
+  const { score, holdings, isLoading } = usePortfolioRiskScore(portfolios?.[0]?.id);
+  const color = score?.band ? RISK_BAND_COLOR[score.band] : 'var(--ark-text-tertiary)';
+  const top = score?.contributions[0];
+
+  return (
+    <Tile onClick={onOpen} accentColor={color}>
+      <AccentLine color={color} />
+      {portfoliosLoading || isLoading ? <SkeletonGaugeTile /> : (
+        <>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <PieChart className="h-3.5 w-3.5 text-ark-text-tertiary transition-colors duration-300 group-hover:text-ark-primary" />
+              <span className="text-[11px] font-semibold uppercase tracking-wider text-ark-text-tertiary">Portfolio Risk</span>
+            </div>
+            {score?.band && (
+              <span className="rounded-full px-2 py-0.5 text-[10px] font-bold" style={{ backgroundColor: `${color}1F`, color }}>{score.band}</span>
+            )}
+          </div>
+
+          {score?.score == null ? (
+            <p className="flex flex-1 items-center justify-center text-center text-xs text-ark-text-tertiary">
+              {holdings?.length ? 'None of your holdings has a risk model yet.' : 'Add holdings to see your portfolio risk.'}
+            </p>
+          ) : (
+            <>
+              <div className="flex justify-center">
+                <MiniGauge value={score.score} max={1} color={color} size={80} />
+              </div>
+              <div className="flex items-baseline justify-center gap-1 -mt-1">
+                <span className="fig font-[family-name:var(--font-urbanist)] text-4xl font-bold leading-none" style={{ color }}>
+                  {score.score.toFixed(3)}
+                </span>
+              </div>
+              <div className="space-y-0.5 text-center text-[10px] text-ark-text-disabled">
+                {top && <p>Most risk: <span className="font-semibold text-ark-text-tertiary">{top.symbol}</span> ({Math.round(top.share * 100)}%)</p>}
+                <p className="fig">
+                  {score.unknown.length
+                    ? `${Math.round(score.coverage * 100)}% of value covered · ${score.unknown.length} unknown`
+                    : 'All holdings covered'}
+                </p>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </Tile>
+  );
+}
+
 function BriefingTile({ onOpen }: { onOpen: () => void }) {
   const { data: briefing, isLoading } = useMarketBriefing();
   const { data: positioning } = useCryptoPositioning();
@@ -983,7 +1039,8 @@ function NewsTile({ onOpen }: { onOpen: () => void }) {
 
 // rowHeight = 80px. h:2 = 168px (compact), h:3 = 248px (hero)
 // Default order mirrors the iOS app (after the Daily Briefing hero):
-// Events, Weekly Update, US Futures, Signal Changes, ArkLine Score, Fear & Greed,
+// Events, Weekly Update, US Futures, Signal Changes, ArkLine Score (with the
+// member's own Portfolio Risk beside it), Fear & Greed,
 // Core Technical Analysis, Market Breadth, Rotation, Macro, Crypto Risk Levels, …
 const HOME_DEFAULT_LAYOUTS: ResponsiveLayouts = {
   lg: [
@@ -992,10 +1049,11 @@ const HOME_DEFAULT_LAYOUTS: ResponsiveLayouts = {
     { i: 'usFutures',     x: 2, y: 0,  w: 1, h: 3, minW: 1, minH: 2, maxW: 4, maxH: 6 },
     { i: 'signalChanges', x: 3, y: 0,  w: 1, h: 4, minW: 1, minH: 2, maxW: 4, maxH: 6 },
     { i: 'arklineScore',  x: 0, y: 3,  w: 1, h: 3, minW: 1, minH: 2, maxW: 4, maxH: 6 },
-    { i: 'fearGreed',     x: 1, y: 3,  w: 1, h: 3, minW: 1, minH: 2, maxW: 4, maxH: 6 },
-    { i: 'marketMovers',  x: 2, y: 3,  w: 1, h: 3, minW: 1, minH: 2, maxW: 4, maxH: 6 },
-    { i: 'marketBreadth', x: 3, y: 3,  w: 1, h: 3, minW: 1, minH: 2, maxW: 4, maxH: 6 },
-    { i: 'rotation',      x: 0, y: 6,  w: 1, h: 3, minW: 1, minH: 2, maxW: 4, maxH: 6 },
+    { i: 'portfolioRisk', x: 1, y: 3,  w: 1, h: 3, minW: 1, minH: 2, maxW: 4, maxH: 6 },
+    { i: 'fearGreed',     x: 2, y: 3,  w: 1, h: 3, minW: 1, minH: 2, maxW: 4, maxH: 6 },
+    { i: 'marketMovers',  x: 3, y: 3,  w: 1, h: 3, minW: 1, minH: 2, maxW: 4, maxH: 6 },
+    { i: 'marketBreadth', x: 0, y: 6,  w: 1, h: 3, minW: 1, minH: 2, maxW: 4, maxH: 6 },
+    { i: 'rotation',      x: 0, y: 9,  w: 1, h: 3, minW: 1, minH: 2, maxW: 4, maxH: 6 },
     { i: 'macro',         x: 1, y: 6,  w: 2, h: 3, minW: 2, minH: 2, maxW: 4, maxH: 6 },
     { i: 'assetRisk',     x: 3, y: 6,  w: 1, h: 3, minW: 1, minH: 2, maxW: 4, maxH: 6 },
     { i: 'supply',        x: 1, y: 9,  w: 1, h: 3, minW: 1, minH: 2, maxW: 4, maxH: 6 },
@@ -1017,10 +1075,11 @@ const HOME_DEFAULT_LAYOUTS: ResponsiveLayouts = {
     { i: 'usFutures',     x: 2, y: 0,  w: 1, h: 3, minW: 1, minH: 2, maxW: 3, maxH: 6 },
     { i: 'signalChanges', x: 0, y: 3,  w: 1, h: 4, minW: 1, minH: 2, maxW: 3, maxH: 6 },
     { i: 'arklineScore',  x: 1, y: 3,  w: 1, h: 3, minW: 1, minH: 2, maxW: 3, maxH: 6 },
-    { i: 'fearGreed',     x: 2, y: 3,  w: 1, h: 3, minW: 1, minH: 2, maxW: 3, maxH: 6 },
-    { i: 'marketMovers',  x: 0, y: 6,  w: 1, h: 3, minW: 1, minH: 2, maxW: 3, maxH: 6 },
-    { i: 'marketBreadth', x: 1, y: 6,  w: 1, h: 3, minW: 1, minH: 2, maxW: 3, maxH: 6 },
-    { i: 'rotation',      x: 2, y: 6,  w: 1, h: 3, minW: 1, minH: 2, maxW: 3, maxH: 6 },
+    { i: 'portfolioRisk', x: 2, y: 3,  w: 1, h: 3, minW: 1, minH: 2, maxW: 3, maxH: 6 },
+    { i: 'fearGreed',     x: 0, y: 6,  w: 1, h: 3, minW: 1, minH: 2, maxW: 3, maxH: 6 },
+    { i: 'marketMovers',  x: 1, y: 6,  w: 1, h: 3, minW: 1, minH: 2, maxW: 3, maxH: 6 },
+    { i: 'marketBreadth', x: 2, y: 6,  w: 1, h: 3, minW: 1, minH: 2, maxW: 3, maxH: 6 },
+    { i: 'rotation',      x: 0, y: 12, w: 1, h: 3, minW: 1, minH: 2, maxW: 3, maxH: 6 },
     { i: 'macro',         x: 0, y: 9,  w: 2, h: 3, minW: 2, minH: 2, maxW: 3, maxH: 6 },
     { i: 'assetRisk',     x: 2, y: 9,  w: 1, h: 3, minW: 1, minH: 2, maxW: 3, maxH: 6 },
     { i: 'supply',        x: 1, y: 12, w: 1, h: 3, minW: 1, minH: 2, maxW: 3, maxH: 6 },
@@ -1042,12 +1101,13 @@ const HOME_DEFAULT_LAYOUTS: ResponsiveLayouts = {
     { i: 'usFutures',     x: 0, y: 6,  w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
     { i: 'signalChanges', x: 0, y: 9,  w: 2, h: 4, minW: 1, minH: 2, maxW: 2, maxH: 6 },
     { i: 'arklineScore',  x: 0, y: 12, w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
-    { i: 'fearGreed',     x: 0, y: 15, w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
-    { i: 'marketMovers',  x: 0, y: 18, w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
-    { i: 'marketBreadth', x: 0, y: 21, w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
-    { i: 'rotation',      x: 0, y: 24, w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
-    { i: 'macro',         x: 0, y: 27, w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
-    { i: 'assetRisk',     x: 0, y: 30, w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
+    { i: 'portfolioRisk', x: 0, y: 15, w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
+    { i: 'fearGreed',     x: 0, y: 18, w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
+    { i: 'marketMovers',  x: 0, y: 21, w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
+    { i: 'marketBreadth', x: 0, y: 24, w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
+    { i: 'rotation',      x: 0, y: 27, w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
+    { i: 'macro',         x: 0, y: 30, w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
+    { i: 'assetRisk',     x: 0, y: 33, w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
     { i: 'supply',        x: 0, y: 36, w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
     { i: 'favorites',     x: 0, y: 39, w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
     { i: 'dca',           x: 0, y: 42, w: 2, h: 3, minW: 1, minH: 2, maxW: 2, maxH: 6 },
@@ -1684,7 +1744,7 @@ function FedWatchTile({ onOpen }: { onOpen: () => void }) {
 const widgetKeys: WidgetKey[] = [
   // App default order (after the Daily Briefing hero)
   'events', 'weeklyUpdate', 'usFutures', 'signalChanges',
-  'arklineScore', 'fearGreed', 'marketMovers', 'marketBreadth',
+  'arklineScore', 'portfolioRisk', 'fearGreed', 'marketMovers', 'marketBreadth',
   'rotation', 'macro', 'assetRisk',
   // Remaining widgets
   'supply', 'favorites', 'dca', 'news',
@@ -1696,6 +1756,7 @@ const tileComponents: Record<WidgetKey, React.ComponentType<{ onOpen: () => void
   portfolio: PortfolioTile,
   fearGreed: FearGreedTile,
   arklineScore: ArkLineScoreTile,
+  portfolioRisk: PortfolioRiskTile,
   briefing: BriefingTile,
   riskChart: RiskChartTile,
   marketMovers: MarketMoversTile,
@@ -2069,6 +2130,7 @@ function BriefingHero({ greetingLine, date }: { greetingLine: string; date: stri
                     </div>
                   </div>
                 ))}
+                <PersonalBriefingSection />
                 <span className="inline-block text-[11px] font-medium text-ark-primary">Show less ↑</span>
               </div>
             ) : (
@@ -4,6 +4,7 @@ import { Brain, Sparkles, Clock } from 'lucide-react';
 import { Skeleton } from '@/components/ui';
 import { useMarketBriefing, useCryptoPositioning } from '@/lib/hooks/use-market';
 import { parseBriefingSections } from '@/lib/utils/format';
+import { PersonalBriefingSection } from './personal-briefing';
 import { useState, useEffect } from 'react';
 
 /**
@@ -80,6 +81,7 @@ export function BriefingCard() {
               </div>
             </div>
           ))}
+          <PersonalBriefingSection />
         </div>
       ) : (
         <div className="flex flex-col items-center justify-center py-12 text-center">
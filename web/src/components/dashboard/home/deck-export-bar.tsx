@@ -0,0 +1,72 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, RefreshCw } from 'lucide-react';
+import { Button, useToast } from '@/components/ui';
+import { useAuth } from '@/lib/hooks/use-auth';
+import { useDeckExports, useRenderDeckExports } from '@/lib/hooks/use-deck-export';
+import { deckExportDownloadUrl, type DeckExport } from '@/lib/api/deck-export';
+import { DECK_EXPORT_FORMATS, type DeckExportFormat } from '@/lib/deck-export/render';
+import { formatRelativeTime } from '@/lib/utils/format';
+import type { WeeklyDeck } from '@/types';
+
+/** Download the deck as PDF / PPTX; admins render the files and refresh them after edits. */
+export function DeckExportBar({ deck }: { deck: WeeklyDeck }) {
+  const toast = useToast();
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === 'admin';
+  const { data: exports, isLoading } = useDeckExports(deck.id);
+  const render = useRenderDeckExports();
+  const [downloading, setDownloading] = useState<DeckExportFormat | null>(null);
+
+  const byFormat = new Map((exports ?? []).map((e) => [e.format, e]));
+  const stale = DECK_EXPORT_FORMATS.some((f) => {
+    const e = byFormat.get(f);
+    return !e || e.slide_count !== deck.slide_count || (!!deck.updated_at && Date.parse(e.rendered_at) < Date.parse(deck.updated_at));
+  });
+  const renderedAt = exports?.[0]?.rendered_at;
+
+  if (isLoading || (!isAdmin && !byFormat.size)) return null;
+
+  const download = async (exp: DeckExport) => {
+    setDownloading(exp.format);
+    try {
+      window.location.assign(await deckExportDownloadUrl(exp, deck.week_start));
+    } catch {
+      toast.error('Could not start the download. Please try again.');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const rerender = () =>
+    render.mutate(deck.id, {
+      onSuccess: () => toast.success('Deck files ready'),
+      onError: (e) => toast.error(e instanceof Error ? e.message : 'Could not render the deck files.'),
+    });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-xl border border-ark-divider bg-ark-fill-secondary/20 px-3 py-2">
+      {DECK_EXPORT_FORMATS.map((f) => {
+        const exp = byFormat.get(f);
+        return exp ? (
+          <Button key={f} size="sm" variant="secondary" loading={downloading === f} onClick={() => download(exp)}>
+            <Download className="h-3.5 w-3.5" /> {f.toUpperCase()}
+          </Button>
+        ) : null;
+      })}
+      <span className="text-[11px] text-ark-text-tertiary">
+        {!byFormat.size
+          ? 'No PDF or PPTX yet'
+          : isAdmin && stale
+            ? 'Files are out of date with this deck'
+            : renderedAt && `Rendered ${formatRelativeTime(renderedAt)}`}
+      </span>
+      {isAdmin && (
+        <Button size="sm" variant={stale ? 'primary' : 'ghost'} className="ml-auto" loading={render.isPending} onClick={rerender}>
+          <RefreshCw className="h-3.5 w-3.5" /> {byFormat.size ? 'Re-render' : 'Render files'}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { UserRound } from 'lucide-react';
+import { Skeleton } from '@/components/ui';
+import { usePersonalBriefing } from '@/lib/hooks/use-personal-briefing';
+import { personalHighlights, type HighlightTone } from '@/lib/briefing/personal';
+import { cn, formatCurrency } from '@/lib/utils/format';
+
+const TONE: Record<HighlightTone, string> = {
+  up: 'bg-ark-success/10 text-ark-success',
+  down: 'bg-ark-error/10 text-ark-error',
+  warning: 'bg-ark-warning/10 text-ark-warning',
+  info: 'bg-ark-info/10 text-ark-info',
+};
+
+/**
+ * "For You" section under the shared briefing: a short note on the member's
+ * own holdings and watchlist, with the facts it was written from as chips.
+ * Hidden when there is nothing notable for them this slot.
+ */
+export function PersonalBriefingSection() {
+  const { data, isLoading } = usePersonalBriefing();
+  const highlights = personalHighlights(data?.facts);
+
+  if (isLoading) return <Skeleton className="h-16 w-full" />;
+  if (!data?.section) return null;
+
+  return (
+    <div className="rounded-xl border border-ark-primary/15 bg-ark-primary/[0.04] p-3">
+      <p className="mb-1 flex items-center gap-1.5 text-[11px] font-bold uppercase tracking-wider text-ark-primary">
+        <UserRound className="h-3 w-3" /> For You
+      </p>
+      <p className="text-sm leading-[1.7] text-ark-text-secondary">{data.section}</p>
+      {highlights.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1.5">
+          {highlights.map((h) => (
+            <span key={h.key} className={cn('rounded-full px-2 py-0.5 text-[10px] font-semibold', TONE[h.tone])}>
+              {h.asset} {h.label}
+              {h.valueChange != null && (
+                <span className="fig ml-1 opacity-80">
+                  ({h.valueChange >= 0 ? '+' : '−'}{formatCurrency(Math.abs(h.valueChange), 'USD', { decimals: 0 })})
+                </span>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
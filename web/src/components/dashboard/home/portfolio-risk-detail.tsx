@@ -0,0 +1,163 @@
+'use client';
+
+import { useMemo } from 'react';
+import Link from 'next/link';
+import { Area, AreaChart, ReferenceArea, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ChevronRight } from 'lucide-react';
+import { Skeleton } from '@/components/ui';
+import { useRiskSeries } from '@/lib/hooks/use-market';
+import {
+  usePortfolios, usePortfolioRiskScore, usePortfolioHistory, usePriceHistories, useTransactions,
+} from '@/lib/hooks/use-portfolio';
+import { portfolioRiskHistory } from '@/lib/portfolio/risk-score';
+import { formatCurrency } from '@/lib/utils/format';
+import type { RiskBand } from '@/types';
+
+const HISTORY_DAYS = 90;
+
+const BANDS: { band: RiskBand; y1: number; y2: number; color: string }[] = [
+  { band: 'Very Low', y1: 0, y2: 0.2, color: 'var(--ark-info)' },
+  { band: 'Low', y1: 0.2, y2: 0.4, color: 'var(--ark-success)' },
+  { band: 'Neutral', y1: 0.4, y2: 0.55, color: 'var(--ark-warning)' },
+  { band: 'Elevated', y1: 0.55, y2: 0.7, color: '#F97316' },
+  { band: 'High', y1: 0.7, y2: 1, color: 'var(--ark-error)' },
+];
+const bandColor = (b: RiskBand | null) => BANDS.find((x) => x.band === b)?.color ?? 'var(--ark-text-tertiary)';
+const riskColor = (v: number) => (BANDS.find((x) => v < x.y2) ?? BANDS[BANDS.length - 1]).color;
+
+/**
+ * Portfolio Risk drawer: the value-weighted score, how it moved over the last
+ * 90 days, which holdings carry it, and which holdings it cannot see.
+ */
+export function PortfolioRiskDetail() {
+  const { data: portfolios } = usePortfolios();
+  const portfolioId = portfolios?.[0]?.id;
+  const { score, holdings, isLoading } = usePortfolioRiskScore(portfolioId);
+  const { data: history } = usePortfolioHistory(portfolioId, HISTORY_DAYS);
+  const { data: transactions } = useTransactions(portfolioId);
+  const { data: riskSeries } = useRiskSeries((holdings ?? []).map((h) => h.symbol), HISTORY_DAYS);
+  const { data: prices } = usePriceHistories(holdings, HISTORY_DAYS);
+
+  const points = useMemo(() => {
+    if (!holdings || !history || !riskSeries) return [];
+    return portfolioRiskHistory(
+      history,
+      holdings.map((h) => ({ symbol: h.symbol, quantity: h.quantity, price: h.current_price ?? h.average_buy_price ?? 0 })),
+      transactions ?? [],
+      riskSeries,
+      prices,
+    );
+  }, [holdings, history, transactions, riskSeries, prices]);
+
+  if (isLoading) return <Skeleton className="h-80 w-full" />;
+  if (!score || score.score == null) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center">
+        <p className="text-sm text-ark-text-secondary">
+          {holdings?.length ? 'None of your holdings has a risk model yet.' : 'No holdings yet.'}
+        </p>
+        <p className="mt-1 text-xs text-ark-text-disabled">Risk levels cover the majors and the tracked crypto and stock lists.</p>
+      </div>
+    );
+  }
+
+  const color = bandColor(score.band);
+  const first = points[0];
+  const change = first ? score.score - first.score : null;
+  const shortDate = (d: string) => new Date(d + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  return (
+    <div className="space-y-5">
+      {/* Headline */}
+      <div className="flex items-end justify-between">
+        <div>
+          <span className="fig font-[family-name:var(--font-urbanist)] text-5xl font-bold leading-none" style={{ color }}>
+            {score.score.toFixed(3)}
+          </span>
+          <p className="mt-1.5 text-sm font-semibold" style={{ color }}>{score.band} Risk</p>
+        </div>
+        <div className="text-right text-[11px] text-ark-text-tertiary">
+          {change != null && (
+            <p className="fig" style={{ color: change > 0 ? 'var(--ark-error)' : 'var(--ark-success)' }}>
+              {change > 0 ? '+' : ''}{change.toFixed(3)} over {HISTORY_DAYS}d
+            </p>
+          )}
+          <p className="fig">{Math.round(score.coverage * 100)}% of value covered</p>
+          {score.unknown.length > 0 && score.low != null && score.high != null && (
+            <p className="fig text-ark-text-disabled">whole portfolio {score.low.toFixed(2)} – {score.high.toFixed(2)}</p>
+          )}
+        </div>
+      </div>
+
+      {/* History */}
+      <div>
+        <p className="mb-1 text-[10px] uppercase tracking-wider text-ark-text-tertiary">Last {HISTORY_DAYS} days</p>
+        {points.length < 2 ? (
+          <p className="flex h-40 items-center justify-center text-xs text-ark-text-tertiary">Not enough portfolio history yet.</p>
+        ) : (
+          <div className="h-40">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={points} margin={{ top: 4, right: 4, bottom: 0, left: 0 }}>
+                {BANDS.map((b) => <ReferenceArea key={b.band} y1={b.y1} y2={b.y2} fill={b.color} fillOpacity={0.06} />)}
+                <XAxis dataKey="date" tickFormatter={shortDate} tickLine={false} axisLine={false}
+                  tick={{ fontSize: 10, fill: 'var(--ark-text-disabled)' }} interval="preserveStartEnd" />
+                <YAxis domain={[0, 1]} width={28} tickLine={false} axisLine={false}
+                  tick={{ fontSize: 10, fill: 'var(--ark-text-tertiary)' }} tickFormatter={(v: number) => v.toFixed(1)} />
+                <Tooltip contentStyle={{ background: 'var(--ark-card)', border: '1px solid var(--ark-divider)', borderRadius: 8, fontSize: 11 }}
+                  labelFormatter={(l) => shortDate(String(l))}
+                  formatter={(v) => [Number(v).toFixed(3), 'Risk']} />
+                <defs>
+                  <linearGradient id="portfolio-risk-grad" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="0%" stopColor={color} stopOpacity={0.3} />
+                    <stop offset="100%" stopColor={color} stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <Area type="monotone" dataKey="score" stroke={color} strokeWidth={2} fill="url(#portfolio-risk-grad)" />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      {/* Contributions */}
+      <div>
+        <p className="mb-2 text-[10px] uppercase tracking-wider text-ark-text-tertiary">Where the risk comes from</p>
+        <div className="space-y-1.5">
+          {score.contributions.map((c) => (
+            <div key={c.symbol} className="flex items-center gap-2 text-[11px]">
+              <span className="w-12 font-semibold text-ark-text">{c.symbol}</span>
+              <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-ark-fill-secondary">
+                <div className="h-full rounded-full" style={{ width: `${c.share * 100}%`, backgroundColor: riskColor(c.risk) }} />
+              </div>
+              <span className="fig w-10 text-right text-ark-text-tertiary">{Math.round(c.share * 100)}%</span>
+              <span className="fig w-20 text-right text-ark-text-disabled">
+                {Math.round(c.weight * 100)}% × <span style={{ color: riskColor(c.risk) }}>{c.risk.toFixed(2)}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Unknown */}
+      {score.unknown.length > 0 && (
+        <div className="rounded-xl border border-ark-divider bg-ark-fill-secondary/40 p-3">
+          <p className="text-[11px] font-semibold text-ark-text-secondary">Not in the score</p>
+          <p className="mt-0.5 text-[10px] text-ark-text-disabled">
+            No risk model for these holdings, so they are left out rather than guessed at.
+          </p>
+          <div className="mt-2 flex flex-wrap gap-1.5">
+            {score.unknown.map((u) => (
+              <span key={u.symbol} className="fig rounded-full bg-ark-fill-secondary px-2 py-0.5 text-[10px] text-ark-text-tertiary">
+                {u.symbol} · {formatCurrency(u.value)} ({Math.round(u.share * 100)}%)
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Link href="/dashboard/portfolio" className="flex items-center gap-0.5 text-[11px] font-semibold text-ark-primary">
+        Open portfolio<ChevronRight className="h-3 w-3" />
+      </Link>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { Badge, Skeleton } from '@/components/ui';
 import { cn, formatPercent } from '@/lib/utils/format';
 import { useTradeSignals, useRotationSignal, useModelPortfolioUpdate, useWeeklyDeck } from '@/lib/hooks/use-market';
 import { Spark } from '@/components/dashboard/shared/bento-primitives';
+import { DeckExportBar } from './deck-export-bar';
 import type { DeckSlide } from '@/types';
 
 function Stat({ label, value }: { label: string; value: string }) {
@@ -370,6 +371,7 @@ export function WeeklyUpdateDetail() {
         <span className="text-sm font-semibold text-ark-text">{fmt(data.week_start)} – {fmt(data.week_end)}</span>
         <span className="rounded-full bg-ark-violet/10 px-2.5 py-0.5 text-[10px] font-semibold capitalize text-ark-violet">{data.status}</span>
       </div>
+      <DeckExportBar deck={data} />
 
       {/* Slide */}
       <div className="flex min-h-[260px] flex-col rounded-2xl border border-ark-divider bg-ark-fill-secondary/20 p-5">
@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { DetailDrawer } from '@/components/ui/detail-drawer';
+import { useSavePaperAccount } from '@/lib/hooks/use-paper-trading';
+import { cn } from '@/lib/utils/format';
+import type { PaperAccount, PaperRiskMode, SignalTier } from '@/types';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  account: PaperAccount | null;
+}
+
+const TIERS: { key: SignalTier; label: string; hint: string }[] = [
+  { key: 'swing', label: 'Swing', hint: '4H setups, held for days' },
+  { key: 'scalp', label: 'Scalp', hint: '1H setups, held for hours' },
+];
+
+// Starting in the past replays the signals since then.
+const START_OPTIONS = [
+  { days: 0, label: 'Today' },
+  { days: 30, label: '30 days ago' },
+  { days: 90, label: '90 days ago' },
+];
+
+export function PaperAccountModal({ open, onClose, account }: Props) {
+  return (
+    <DetailDrawer open={open} onClose={onClose} title={account ? 'Paper Account Settings' : 'Start Paper Trading'}>
+      {open && <PaperAccountForm key={account?.updated_at ?? 'new'} account={account} onDone={onClose} />}
+    </DetailDrawer>
+  );
+}
+
+function PaperAccountForm({ account, onDone }: { account: PaperAccount | null; onDone: () => void }) {
+  const save = useSavePaperAccount();
+
+  const [balance, setBalance] = useState(String(account?.starting_balance ?? 10_000));
+  const [riskMode, setRiskMode] = useState<PaperRiskMode>(account?.risk_mode ?? 'signal');
+  const [riskPct, setRiskPct] = useState(String(account?.risk_pct ?? 1));
+  const [feePct, setFeePct] = useState(String(account?.fee_pct ?? 0.1));
+  const [slippagePct, setSlippagePct] = useState(String(account?.slippage_pct ?? 0.05));
+  const [maxExposure, setMaxExposure] = useState(String(account?.max_exposure ?? 1));
+  const [tiers, setTiers] = useState<SignalTier[]>(account?.tiers ?? ['swing']);
+  const [reset, setReset] = useState(!account);
+  const [startDaysAgo, setStartDaysAgo] = useState(0);
+  const [error, setError] = useState('');
+
+  const toggleTier = (t: SignalTier) => setTiers((cur) => (cur.includes(t) ? cur.filter((x) => x !== t) : [...cur, t]));
+
+  const submit = async () => {
+    setError('');
+    const input = {
+      starting_balance: parseFloat(balance),
+      risk_mode: riskMode,
+      risk_pct: parseFloat(riskPct),
+      fee_pct: parseFloat(feePct),
+      slippage_pct: parseFloat(slippagePct),
+      max_exposure: parseFloat(maxExposure),
+      tiers,
+    };
+    if (!(input.starting_balance > 0)) return setError('Enter a starting balance above zero.');
+    if (!(input.risk_pct > 0 && input.risk_pct <= 10)) return setError('Risk per trade must be between 0 and 10%.');
+    if (!(input.fee_pct >= 0 && input.fee_pct <= 2) || !(input.slippage_pct >= 0 && input.slippage_pct <= 2)) {
+      return setError('Fees and slippage must be between 0 and 2%.');
+    }
+    if (!(input.max_exposure > 0 && input.max_exposure <= 5)) return setError('Max exposure must be between 0 and 5×.');
+    if (!tiers.length) return setError('Follow at least one tier.');
+    try {
+      const startedAt = reset ? new Date(Date.now() - startDaysAgo * 86_400_000).toISOString() : undefined;
+      await save.mutateAsync({ input, startedAt });
+      onDone();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong.');
+    }
+  };
+
+  const inputClass = 'w-full rounded-lg border border-ark-divider bg-ark-fill-secondary/40 px-3 py-2 text-sm text-ark-text outline-none focus:border-ark-info';
+  const chip = (active: boolean) => cn('rounded-lg border px-3 py-1.5 text-xs font-semibold', active ? 'border-ark-info bg-ark-info/10 text-ark-info' : 'border-ark-divider text-ark-text-secondary');
+  const label = 'mb-1.5 block text-xs font-semibold text-ark-text-secondary';
+
+  return (
+    <div className="space-y-5 pb-2">
+      <div>
+        <label className={label}>Follow</label>
+        <div className="grid grid-cols-2 gap-2">
+          {TIERS.map((t) => (
+            <button key={t.key} onClick={() => toggleTier(t.key)}
+              className={cn('rounded-xl border px-3 py-2 text-left', tiers.includes(t.key) ? 'border-ark-info bg-ark-info/10' : 'border-ark-divider')}>
+              <p className={cn('text-xs font-semibold', tiers.includes(t.key) ? 'text-ark-info' : 'text-ark-text')}>{t.label}</p>
+              <p className="text-[10px] text-ark-text-tertiary">{t.hint}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className={label}>Starting balance (USD)</label>
+        <input type="number" min={0} value={balance} onChange={(e) => setBalance(e.target.value)} className={cn(inputClass, 'fig')} />
+      </div>
+
+      <div className="space-y-2">
+        <label className={label}>Risk per trade</label>
+        <div className="flex gap-2">
+          <button onClick={() => setRiskMode('signal')} className={chip(riskMode === 'signal')}>Signal&apos;s suggestion</button>
+          <button onClick={() => setRiskMode('fixed')} className={chip(riskMode === 'fixed')}>Fixed %</button>
+        </div>
+        <input type="number" min={0} step={0.1} value={riskPct} onChange={(e) => setRiskPct(e.target.value)} className={cn(inputClass, 'fig')} />
+        <p className="text-[10px] text-ark-text-tertiary">
+          {riskMode === 'signal' ? 'Used when a signal has no suggested risk.' : '% of equity lost if the stop is hit.'}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <label className={label}>Fee / fill (%)</label>
+          <input type="number" min={0} step={0.01} value={feePct} onChange={(e) => setFeePct(e.target.value)} className={cn(inputClass, 'fig')} />
+        </div>
+        <div>
+          <label className={label}>Slippage (%)</label>
+          <input type="number" min={0} step={0.01} value={slippagePct} onChange={(e) => setSlippagePct(e.target.value)} className={cn(inputClass, 'fig')} />
+        </div>
+        <div>
+          <label className={label}>Max exposure (×)</label>
+          <input type="number" min={0} step={0.5} value={maxExposure} onChange={(e) => setMaxExposure(e.target.value)} className={cn(inputClass, 'fig')} />
+        </div>
+      </div>
+
+      {account && (
+        <label className="flex items-center gap-2 text-xs text-ark-text-secondary">
+          <input type="checkbox" checked={reset} onChange={(e) => setReset(e.target.checked)} />
+          Restart the account
+        </label>
+      )}
+
+      {reset && (
+        <div>
+          <label className={label}>Start from</label>
+          <div className="flex flex-wrap gap-2">
+            {START_OPTIONS.map((o) => (
+              <button key={o.days} onClick={() => setStartDaysAgo(o.days)} className={chip(startDaysAgo === o.days)}>{o.label}</button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="rounded-lg bg-ark-error/10 px-3 py-2 text-sm text-ark-error">{error}</p>}
+
+      <button onClick={submit} disabled={save.isPending}
+        className="flex w-full items-center justify-center gap-2 rounded-xl bg-ark-primary py-3 text-sm font-semibold text-white transition-colors disabled:opacity-60">
+        {save.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+        {account ? 'Save settings' : 'Start paper account'}
+      </button>
+    </div>
+  );
+}
@@ -7,8 +7,11 @@ import { useCryptoAssets } from '@/lib/hooks/use-market';
 import { useCoinSearch } from '@/lib/hooks/use-coin-search';
 import { CoinIcon } from '@/components/dashboard/shared/coin-icon';
 import { useRecordTransaction } from '@/lib/hooks/use-portfolio-mutations';
-import { cn, formatCurrency, localDateISO } from '@/lib/utils/format';
+import { useOpenTaxLots } from '@/lib/hooks/use-portfolio';
+import { COST_BASIS_METHODS, pickLots, realizeSlices, type OpenLot } from '@/lib/portfolio/tax-lots';
+import { cn, formatCurrency, formatDate, localDateISO } from '@/lib/utils/format';
 import type { PortfolioHolding } from '@/types';
+import type { CostBasisMethod } from '@/types/transaction';
 
 interface Props {
   open: boolean;
@@ -17,10 +20,12 @@ interface Props {
   holdings: PortfolioHolding[];
   initialType?: 'buy' | 'sell';
   initialSymbol?: string;
+  costBasisMethod?: CostBasisMethod;
 }
 
-export function AddTransactionModal({ open, onClose, portfolioId, holdings, initialType = 'buy', initialSymbol }: Props) {
+export function AddTransactionModal({ open, onClose, portfolioId, holdings, initialType = 'buy', initialSymbol, costBasisMethod = 'fifo' }: Props) {
   const { data: assets } = useCryptoAssets(1);
+  const { data: taxLots } = useOpenTaxLots(portfolioId);
   const record = useRecordTransaction(portfolioId);
 
   const [type, setType] = useState<'buy' | 'sell'>(initialType);
@@ -33,6 +38,7 @@ export function AddTransactionModal({ open, onClose, portfolioId, holdings, init
   const [date, setDate] = useState(() => localDateISO());
   const [notes, setNotes] = useState('');
   const [error, setError] = useState('');
+  const [picks, setPicks] = useState<Record<string, string>>({});
 
   const priceBySymbol = useMemo(() => {
     const m = new Map<string, { price: number; name: string }>();
@@ -55,7 +61,7 @@ export function AddTransactionModal({ open, onClose, portfolioId, holdings, init
       } else {
         setSymbol(''); setName(''); setPrice('');
       }
-      setQty(''); setNotes(''); setSearch('');
+      setQty(''); setNotes(''); setSearch(''); setPicks({});
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [open]);
@@ -77,7 +83,38 @@ export function AddTransactionModal({ open, onClose, portfolioId, holdings, init
 
   const heldForSell = holdings.filter((h) => h.quantity > 0);
   const selectedHolding = holdings.find((h) => h.symbol.toLowerCase() === symbol.toLowerCase());
-  const total = (parseFloat(qty) || 0) * (parseFloat(price) || 0);
+  const specific = type === 'sell' && costBasisMethod === 'specific';
+  const methodLabel = COST_BASIS_METHODS.find((m) => m.key === costBasisMethod)?.label ?? 'FIFO';
+
+  // Open lots for the asset being sold, in the shape the lot engine replays.
+  const symbolLots = useMemo<OpenLot[]>(() => (taxLots ?? [])
+    .filter((l) => l.symbol.toLowerCase() === symbol.toLowerCase())
+    .map((l) => ({
+      id: l.transaction_id,
+      acquired_at: l.acquired_at,
+      quantity: Number(l.quantity),
+      remaining: Number(l.remaining_quantity),
+      cost_per_unit: Number(l.cost_per_unit),
+      fee_per_unit: 0,
+    })), [taxLots, symbol]);
+
+  const selections = useMemo(() => Object.entries(picks)
+    .map(([lot_id, v]) => ({ lot_id, quantity: parseFloat(v) || 0 }))
+    .filter((p) => p.quantity > 0), [picks]);
+  const sellQty = specific ? selections.reduce((s, p) => s + p.quantity, 0) : parseFloat(qty) || 0;
+  const total = sellQty * (parseFloat(price) || 0);
+
+  // Short/long-term preview of the sale as currently entered.
+  const preview = useMemo(() => {
+    const p = parseFloat(price);
+    if (type !== 'sell' || !symbolLots.length || sellQty <= 0 || !p) return null;
+    const soldAt = new Date(date + 'T12:00:00').toISOString();
+    return realizeSlices(
+      pickLots(symbolLots, sellQty, costBasisMethod, specific ? selections : null),
+      { quantity: sellQty, price_per_unit: p, transaction_date: soldAt },
+      costBasisMethod,
+    );
+  }, [type, symbolLots, sellQty, price, date, costBasisMethod, specific, selections]);
 
   const pickAsset = (sym: string, nm: string, aType: string, livePrice?: number) => {
     setSymbol(sym.toUpperCase());
@@ -86,14 +123,15 @@ export function AddTransactionModal({ open, onClose, portfolioId, holdings, init
     if (livePrice != null) setPrice(String(livePrice));
     setSearch('');
     setError('');
+    setPicks({});
   };
 
   const submit = async () => {
     setError('');
-    const q = parseFloat(qty);
+    const q = sellQty;
     const p = parseFloat(price);
     if (!symbol) return setError('Choose an asset.');
-    if (!q || q <= 0) return setError('Enter a valid quantity.');
+    if (!q || q <= 0) return setError(specific ? 'Pick the lots to sell.' : 'Enter a valid quantity.');
     if (!p || p < 0) return setError('Enter a valid price.');
     if (type === 'sell' && selectedHolding && q > selectedHolding.quantity + 1e-9) {
       return setError(`You only hold ${selectedHolding.quantity} ${symbol.toUpperCase()}.`);
@@ -102,6 +140,7 @@ export function AddTransactionModal({ open, onClose, portfolioId, holdings, init
       await record.mutateAsync({
         type, asset_type: assetType, symbol, name: name || symbol.toUpperCase(),
         quantity: q, price_per_unit: p, date: new Date(date + 'T12:00:00').toISOString(), notes: notes || undefined,
+        lots: specific ? selections : undefined,
       });
       onClose();
     } catch (e) {
@@ -197,12 +236,38 @@ export function AddTransactionModal({ open, onClose, portfolioId, holdings, init
           </div>
         )}
 
+        {/* Specific ID — pick how much of each lot to sell */}
+        {specific && symbol && (
+          <div>
+            <label className="mb-1.5 block text-xs font-semibold text-ark-text-secondary">Lots to sell</label>
+            {symbolLots.length === 0 ? (
+              <p className="text-sm text-ark-text-tertiary">No open lots for {symbol}.</p>
+            ) : (
+              <div className="divide-y divide-ark-divider/50 rounded-xl border border-ark-divider">
+                {symbolLots.map((l) => (
+                  <div key={l.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-xs font-medium text-ark-text">{formatDate(l.acquired_at)}</p>
+                      <p className="fig text-[11px] text-ark-text-tertiary">{l.remaining} left @ {formatCurrency(l.cost_per_unit)}</p>
+                    </div>
+                    <input type="number" inputMode="decimal" min={0} max={l.remaining} placeholder="0"
+                      value={picks[l.id] ?? ''}
+                      onChange={(e) => setPicks((p) => ({ ...p, [l.id]: e.target.value }))}
+                      className="fig w-24 rounded-lg border border-ark-divider bg-ark-fill-secondary/40 px-2 py-1.5 text-right text-sm text-ark-text outline-none focus:border-ark-info" />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Quantity + Price */}
         <div className="grid grid-cols-2 gap-3">
           <div>
             <label className="mb-1.5 block text-xs font-semibold text-ark-text-secondary">Quantity</label>
-            <input type="number" inputMode="decimal" value={qty} onChange={(e) => setQty(e.target.value)} placeholder="0.00"
-              className="w-full rounded-xl border border-ark-divider bg-ark-fill-secondary/40 px-3 py-2.5 text-sm text-ark-text outline-none focus:border-ark-info" />
+            <input type="number" inputMode="decimal" value={specific ? (sellQty || '') : qty} onChange={(e) => setQty(e.target.value)} placeholder="0.00"
+              disabled={specific}
+              className="w-full rounded-xl border border-ark-divider bg-ark-fill-secondary/40 px-3 py-2.5 text-sm text-ark-text outline-none focus:border-ark-info disabled:opacity-60" />
           </div>
           <div>
             <label className="mb-1.5 block text-xs font-semibold text-ark-text-secondary">Price / unit (USD)</label>
@@ -224,6 +289,24 @@ export function AddTransactionModal({ open, onClose, portfolioId, holdings, init
           <span className="fig text-lg font-bold text-ark-text">{formatCurrency(total)}</span>
         </div>
 
+        {/* Realized preview, split by holding period */}
+        {preview && (
+          <div className="rounded-xl border border-ark-divider px-4 py-3">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-semibold text-ark-text-secondary">Est. realized P/L</span>
+              <span className="text-[10px] font-semibold uppercase tracking-wider text-ark-text-tertiary">{methodLabel}</span>
+            </div>
+            <div className="mt-1.5 grid grid-cols-2 gap-3">
+              {([['Short-term', preview.shortTerm], ['Long-term', preview.longTerm]] as const).map(([label, v]) => (
+                <div key={label}>
+                  <p className="text-[10px] text-ark-text-tertiary">{label}</p>
+                  <p className={cn('fig text-sm font-semibold', v >= 0 ? 'text-ark-success' : 'text-ark-error')}>{formatCurrency(v, undefined, { sign: true })}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {error && <p className="rounded-lg bg-ark-error/10 px-3 py-2 text-sm text-ark-error">{error}</p>}
 
         <button onClick={submit} disabled={record.isPending}
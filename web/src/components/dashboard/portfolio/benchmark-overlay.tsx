@@ -0,0 +1,139 @@
+'use client';
+
+/**
+ * Benchmark overlay for the portfolio hero chart — the portfolio's
+ * time-weighted return against BTC, SPY and the Arkline model portfolios,
+ * all rebased to 0% on a common start date, with relative-performance and
+ * tracking stats. Deposits don't count as outperformance (see lib/portfolio/benchmark).
+ */
+
+import { useMemo } from 'react';
+import { Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { useBenchmarkSeries, useModelPortfolios } from '@/lib/hooks/use-model-portfolios';
+import { compareToBenchmarks } from '@/lib/portfolio/benchmark';
+import { analyzePeriod, cashFlowsFromTransactions } from '@/lib/portfolio/performance';
+import { formatPercent, cn } from '@/lib/utils/format';
+import type { PortfolioHistoryPoint } from '@/types/portfolio';
+import type { Transaction } from '@/types/transaction';
+
+const LINE_COLORS = ['#F59E0B', '#22C55E', '#8B5CF6', '#06B6D4', '#EC4899', '#F97316'];
+
+/** BTC and SPY first, then every model portfolio. */
+function useBenchmarkOptions() {
+  const { data: models } = useModelPortfolios();
+  return useMemo(() => [
+    { key: 'btc', label: 'BTC' },
+    { key: 'spy', label: 'SPY' },
+    ...(models ?? []).map((m) => ({ key: m.id, label: m.name })),
+  ], [models]);
+}
+
+export function BenchmarkPicker({ selected, onChange }: { selected: string[]; onChange: (keys: string[]) => void }) {
+  const options = useBenchmarkOptions();
+  const toggle = (key: string) => onChange(selected.includes(key) ? selected.filter((k) => k !== key) : [...selected, key]);
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-1.5">
+      <span className="mr-1 text-[10px] font-medium uppercase tracking-wider text-ark-text-disabled">Compare</span>
+      {options.map((o) => (
+        <button key={o.key} onClick={() => toggle(o.key)}
+          className={cn('rounded-full border px-2.5 py-0.5 text-[10px] font-semibold transition-colors',
+            selected.includes(o.key) ? 'border-ark-primary bg-ark-primary/10 text-ark-primary' : 'border-ark-divider text-ark-text-tertiary hover:text-ark-text')}>
+          {o.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface Props {
+  history: PortfolioHistoryPoint[];
+  transactions: Transaction[];
+  selected: string[];
+  days: number;
+}
+
+export function BenchmarkOverlay({ history, transactions, selected, days }: Props) {
+  const options = useBenchmarkOptions();
+  const { data: series, isLoading } = useBenchmarkSeries(selected, days);
+
+  const comparison = useMemo(() => {
+    const twr = analyzePeriod(history, cashFlowsFromTransactions(transactions), 'ALL');
+    if (!twr || !series) return null;
+    const labels = new Map(options.map((o) => [o.key, o.label]));
+    return compareToBenchmarks(
+      twr.curve.map((p) => ({ date: p.date, value: p.index })),
+      selected.map((key) => ({ key, label: labels.get(key) ?? key, points: series[key] ?? [] })),
+    );
+  }, [history, transactions, series, selected, options]);
+
+  if (!comparison) {
+    return (
+      <p className="mt-5 flex h-32 items-center justify-center text-xs text-ark-text-tertiary">
+        {isLoading ? 'Loading benchmarks…' : 'Not enough overlapping history to compare yet.'}
+      </p>
+    );
+  }
+
+  const color = (key: string) => LINE_COLORS[selected.indexOf(key) % LINE_COLORS.length];
+  const shortDate = (d: string) => new Date(d + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  return (
+    <>
+      <div className="mt-5 h-32">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={comparison.rows} margin={{ top: 4, right: 10, bottom: 0, left: 4 }}>
+            <XAxis dataKey="date" hide />
+            <YAxis hide domain={['dataMin', 'dataMax']} />
+            <ReferenceLine y={0} stroke="var(--ark-text-disabled)" strokeDasharray="2 4" strokeOpacity={0.5} />
+            <Tooltip
+              contentStyle={{ background: 'var(--ark-card)', border: '1px solid var(--ark-divider)', borderRadius: 8, fontSize: 11 }}
+              labelFormatter={(l) => shortDate(String(l))}
+              formatter={(v, name) => [formatPercent(Number(v)), name === 'portfolio' ? 'Portfolio' : comparison.stats.find((s) => s.key === name)?.label ?? String(name)]}
+            />
+            {comparison.stats.map((s) => (
+              <Line key={s.key} type="monotone" dataKey={s.key} stroke={color(s.key)} strokeWidth={1.25} strokeDasharray="4 3" dot={false} connectNulls />
+            ))}
+            <Line type="monotone" dataKey="portfolio" stroke="var(--ark-primary)" strokeWidth={1.75} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="mt-1 flex justify-between px-1 text-[9px] font-medium uppercase tracking-wide text-ark-text-disabled">
+        <span>{shortDate(comparison.startDate)}</span>
+        <span>{shortDate(comparison.endDate)}</span>
+      </div>
+
+      <div className="mt-3 overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] uppercase tracking-wider text-ark-text-tertiary">
+              <th className="py-1 pr-3 text-left font-semibold">Benchmark</th>
+              <th className="py-1 pl-3 text-right font-semibold">Return</th>
+              <th className="py-1 pl-3 text-right font-semibold">You</th>
+              <th className="py-1 pl-3 text-right font-semibold">Relative</th>
+              <th className="py-1 pl-3 text-right font-semibold">Tracking diff.</th>
+              <th className="py-1 pl-3 text-right font-semibold">Tracking error</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-ark-divider/50">
+            {comparison.stats.map((s) => (
+              <tr key={s.key} className="fig text-ark-text-secondary">
+                <td className="py-1.5 pr-3">
+                  <span className="mr-1.5 inline-block h-2 w-2 rounded-full" style={{ background: color(s.key) }} />
+                  <span className="text-ark-text">{s.label}</span>
+                </td>
+                <td className="py-1.5 pl-3 text-right">{formatPercent(s.benchmarkReturn)}</td>
+                <td className="py-1.5 pl-3 text-right">{formatPercent(s.portfolioReturn)}</td>
+                <td className={cn('py-1.5 pl-3 text-right font-semibold', s.relative >= 0 ? 'text-ark-success' : 'text-ark-error')}>{formatPercent(s.relative)}</td>
+                <td className="py-1.5 pl-3 text-right">{s.trackingDifference >= 0 ? '+' : ''}{s.trackingDifference.toFixed(1)} pts</td>
+                <td className="py-1.5 pl-3 text-right">{s.trackingError == null ? '—' : `${s.trackingError.toFixed(1)}%`}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="mt-2 text-[10px] text-ark-text-disabled">
+          Portfolio line is time-weighted from {shortDate(comparison.startDate)} — deposits and withdrawals are neutralized. Benchmarks are buy-and-hold.
+        </p>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+/**
+ * CSV import — Coinbase / Kraken / Binance exports are detected from their
+ * headers; anything else maps columns by hand. Parsed fills are previewed
+ * with duplicates (re-imports and hand-entered trades) flagged before writing.
+ */
+
+import { useMemo, useState } from 'react';
+import { FileUp, Loader2 } from 'lucide-react';
+import { DetailDrawer } from '@/components/ui/detail-drawer';
+import { useToast } from '@/components/ui';
+import { useImportTransactions } from '@/lib/hooks/use-portfolio-mutations';
+import {
+  IMPORT_FORMATS, findDuplicates, guessMapping, parseImport, readImportFile,
+  type ColumnMapping, type ImportFormat,
+} from '@/lib/portfolio/import';
+import { cn, formatCurrency, formatDate } from '@/lib/utils/format';
+import type { Transaction } from '@/types/transaction';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  portfolioId: string | undefined;
+  transactions: Transaction[];
+}
+
+const MAPPING_FIELDS: { key: keyof ColumnMapping; label: string; optional?: boolean }[] = [
+  { key: 'date', label: 'Date' },
+  { key: 'side', label: 'Buy / sell' },
+  { key: 'symbol', label: 'Asset' },
+  { key: 'quantity', label: 'Quantity' },
+  { key: 'price', label: 'Price (USD)' },
+  { key: 'fee', label: 'Fee (USD)', optional: true },
+];
+
+const PREVIEW_LIMIT = 100;
+
+export function ImportTransactionsModal({ open, onClose, portfolioId, transactions }: Props) {
+  const importTx = useImportTransactions(portfolioId);
+  const toast = useToast();
+
+  const [fileName, setFileName] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [format, setFormat] = useState<ImportFormat>('generic');
+  const [mapping, setMapping] = useState<Partial<ColumnMapping>>({});
+  const [skipDupes, setSkipDupes] = useState(true);
+  const [error, setError] = useState('');
+
+  const header = csvRows[0] ?? [];
+  const mappingReady = MAPPING_FIELDS.every((f) => f.optional || mapping[f.key]);
+  const parsed = useMemo(
+    () => parseImport(csvRows, format, format === 'generic' && mappingReady ? mapping as ColumnMapping : undefined),
+    [csvRows, format, mapping, mappingReady],
+  );
+  const dupes = useMemo(() => findDuplicates(parsed.rows, transactions), [parsed.rows, transactions]);
+  const toImport = parsed.rows.filter((r) => !skipDupes || !dupes.has(r.line));
+
+  const reset = () => {
+    setFileName(''); setCsvRows([]); setFormat('generic'); setMapping({}); setSkipDupes(true); setError('');
+  };
+  const close = () => { reset(); onClose(); };
+
+  const pickFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError('');
+    const { rows, format: detected } = readImportFile(await file.text());
+    if (rows.length < 2) return setError('That file has no rows to import.');
+    setFileName(file.name);
+    setCsvRows(rows);
+    setFormat(detected);
+    setMapping(guessMapping(rows[0]));
+  };
+
+  const submit = () => {
+    setError('');
+    importTx.mutate(toImport, {
+      onSuccess: (n) => { toast.success(`Imported ${n} transaction${n === 1 ? '' : 's'} — holdings recalculated`); close(); },
+      onError: (e) => setError(e instanceof Error ? e.message : 'Import failed. Please try again.'),
+    });
+  };
+
+  const selectClass = 'w-full rounded-lg border border-ark-divider bg-ark-fill-secondary/40 px-2 py-1.5 text-xs text-ark-text outline-none focus:border-ark-info';
+
+  return (
+    <DetailDrawer open={open} onClose={close} title="Import Transactions">
+      <div className="space-y-5 pb-2">
+        {/* File */}
+        <label className="flex cursor-pointer flex-col items-center gap-2 rounded-xl border border-dashed border-ark-divider px-4 py-6 text-center hover:bg-ark-fill-secondary/40">
+          <FileUp className="h-5 w-5 text-ark-text-tertiary" />
+          <span className="text-sm font-medium text-ark-text">{fileName || 'Choose a CSV export'}</span>
+          <span className="text-[11px] text-ark-text-disabled">Coinbase, Kraken, Binance, or any CSV with one trade per row</span>
+          <input type="file" accept=".csv,text/csv" className="hidden" onChange={(e) => { pickFile(e.target.files?.[0]); e.target.value = ''; }} />
+        </label>
+
+        {csvRows.length > 0 && (
+          <>
+            {/* Format */}
+            <div>
+              <label className="mb-1.5 block text-xs font-semibold text-ark-text-secondary">Format</label>
+              <div className="flex flex-wrap gap-2">
+                {IMPORT_FORMATS.map((f) => (
+                  <button key={f.key} onClick={() => setFormat(f.key)}
+                    className={cn('rounded-lg border px-3 py-1.5 text-xs font-semibold', format === f.key ? 'border-ark-info bg-ark-info/10 text-ark-info' : 'border-ark-divider text-ark-text-secondary')}>
+                    {f.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Generic column mapping */}
+            {format === 'generic' && (
+              <div className="grid grid-cols-2 gap-3">
+                {MAPPING_FIELDS.map((f) => (
+                  <div key={f.key}>
+                    <label className="mb-1 block text-[11px] font-semibold text-ark-text-secondary">{f.label}</label>
+                    <select value={mapping[f.key] ?? ''} onChange={(e) => setMapping((m) => ({ ...m, [f.key]: e.target.value || undefined }))} className={selectClass}>
+                      <option value="">{f.optional ? 'None' : 'Choose column…'}</option>
+                      {header.map((h, i) => <option key={`${h}-${i}`} value={h}>{h}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Summary */}
+            <div className="grid grid-cols-3 gap-2 text-center">
+              {[
+                { label: 'Trades', value: parsed.rows.length },
+                { label: 'Duplicates', value: dupes.size },
+                { label: 'Skipped', value: parsed.skipped.length },
+              ].map((m) => (
+                <div key={m.label} className="rounded-xl bg-ark-fill-secondary/40 px-3 py-2">
+                  <p className="fig text-lg font-bold text-ark-text">{m.value}</p>
+                  <p className="text-[10px] uppercase tracking-wider text-ark-text-tertiary">{m.label}</p>
+                </div>
+              ))}
+            </div>
+
+            {/* Preview */}
+            {parsed.rows.length > 0 && (
+              <div className="max-h-72 overflow-auto rounded-xl border border-ark-divider">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-ark-card">
+                    <tr className="text-[10px] uppercase tracking-wider text-ark-text-tertiary">
+                      <th className="px-2 py-1.5 text-left font-semibold">Date</th>
+                      <th className="px-2 py-1.5 text-left font-semibold">Trade</th>
+                      <th className="px-2 py-1.5 text-right font-semibold">Price</th>
+                      <th className="px-2 py-1.5 text-right font-semibold">Fee</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-ark-divider/50">
+                    {parsed.rows.slice(0, PREVIEW_LIMIT).map((r) => (
+                      <tr key={r.line} className={cn('fig', dupes.has(r.line) && 'opacity-50')}>
+                        <td className="px-2 py-1.5 text-ark-text-secondary">{formatDate(r.date)}</td>
+                        <td className="px-2 py-1.5">
+                          <span className={r.type === 'buy' ? 'text-ark-success' : 'text-ark-error'}>{r.type === 'buy' ? 'Buy' : 'Sell'}</span>{' '}
+                          <span className="text-ark-text">{r.quantity} {r.symbol}</span>
+                          {dupes.has(r.line) && <span className="ml-1.5 text-[10px] uppercase text-ark-warning">duplicate</span>}
+                        </td>
+                        <td className="px-2 py-1.5 text-right text-ark-text-secondary">{formatCurrency(r.price_per_unit)}</td>
+                        <td className="px-2 py-1.5 text-right text-ark-text-tertiary">{formatCurrency(r.fee, undefined, { decimals: 2 })}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {parsed.rows.length > PREVIEW_LIMIT && (
+                  <p className="px-2 py-1.5 text-[11px] text-ark-text-disabled">…and {parsed.rows.length - PREVIEW_LIMIT} more</p>
+                )}
+              </div>
+            )}
+
+            {parsed.skipped.length > 0 && (
+              <details className="text-xs text-ark-text-tertiary">
+                <summary className="cursor-pointer">{parsed.skipped.length} row{parsed.skipped.length === 1 ? '' : 's'} skipped</summary>
+                <ul className="mt-1 space-y-0.5">
+                  {parsed.skipped.slice(0, 20).map((s) => <li key={s.line}>Row {s.line}: {s.reason}</li>)}
+                </ul>
+              </details>
+            )}
+
+            {dupes.size > 0 && (
+              <label className="flex items-center gap-2 text-xs text-ark-text-secondary">
+                <input type="checkbox" checked={skipDupes} onChange={(e) => setSkipDupes(e.target.checked)} />
+                Skip {dupes.size} duplicate{dupes.size === 1 ? '' : 's'} already in this portfolio
+              </label>
+            )}
+          </>
+        )}
+
+        {error && <p className="rounded-lg bg-ark-error/10 px-3 py-2 text-sm text-ark-error">{error}</p>}
+
+        <button onClick={submit} disabled={!toImport.length || importTx.isPending}
+          className="flex w-full items-center justify-center gap-2 rounded-xl bg-ark-primary py-3 text-sm font-semibold text-white transition-colors disabled:opacity-60">
+          {importTx.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+          Import {toImport.length || ''} transaction{toImport.length === 1 ? '' : 's'}
+        </button>
+      </div>
+    </DetailDrawer>
+  );
+}
@@ -1,42 +1,15 @@
 'use client';
 
+import { useMemo, useState } from 'react';
 import { Area, AreaChart, ResponsiveContainer, XAxis, YAxis, Tooltip } from 'recharts';
 import { Download } from 'lucide-react';
 import { GlassCard } from '@/components/ui';
-import { formatCurrency, formatPercent, cn } from '@/lib/utils/format';
+import { analyzeAllPeriods, ANALYTICS_PERIODS, type AnalyticsPeriod } from '@/lib/portfolio/performance';
+import { formatCurrency, formatDate, formatPercent, cn } from '@/lib/utils/format';
+import { downloadCSV } from '@/lib/utils/export';
 import type { PortfolioHolding, PortfolioHistoryPoint } from '@/types';
 import type { Transaction } from '@/types/transaction';
 
-function computePerf(history: PortfolioHistoryPoint[]) {
-  if (history.length < 2) return null;
-  const vals = history.map((h) => h.value);
-  const first = vals[0], last = vals[vals.length - 1];
-  const totalReturn = last - first;
-  const totalReturnPct = first > 0 ? (totalReturn / first) * 100 : 0;
-
-  const rets: number[] = [];
-  for (let i = 1; i < vals.length; i++) if (vals[i - 1] > 0) rets.push(vals[i] / vals[i - 1] - 1);
-  const mean = rets.length ? rets.reduce((s, r) => s + r, 0) / rets.length : 0;
-  const variance = rets.length ? rets.reduce((s, r) => s + (r - mean) ** 2, 0) / rets.length : 0;
-  const sd = Math.sqrt(variance);
-  const volatility = sd * Math.sqrt(365) * 100;
-  const sharpe = sd > 0 ? (mean / sd) * Math.sqrt(365) : 0;
-
-  let peak = vals[0], maxDD = 0;
-  for (const v of vals) { if (v > peak) peak = v; const dd = peak > 0 ? (v - peak) / peak : 0; if (dd < maxDD) maxDD = dd; }
-
-  return { totalReturn, totalReturnPct, volatility, sharpe, maxDrawdown: maxDD * 100 };
-}
-
-function downloadCSV(filename: string, rows: (string | number)[][]) {
-  const csv = rows.map((r) => r.map((c) => `"${String(c).replace(/"/g, '""')}"`).join(',')).join('\n');
-  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url; a.download = filename; a.click();
-  URL.revokeObjectURL(url);
-}
-
 interface Props {
   history: PortfolioHistoryPoint[];
   holdings: PortfolioHolding[];
@@ -44,8 +17,17 @@ interface Props {
   portfolioName: string;
 }
 
+/**
+ * Performance by period: time-weighted return (what the holdings did),
+ * money-weighted return (what the member's timing earned), and how much of
+ * the value change was contributions vs. investment gain. `history` should
+ * reach back to the portfolio's start so ALL is complete.
+ */
 export function PerformancePanel({ history, holdings, transactions, portfolioName }: Props) {
-  const perf = computePerf(history);
+  const analytics = useMemo(() => analyzeAllPeriods(history, transactions), [history, transactions]);
+  const [period, setPeriod] = useState<AnalyticsPeriod>('ALL');
+  const [view, setView] = useState<'value' | 'growth'>('value');
+  const perf = analytics[period] ?? null;
   const realized = transactions.filter((t) => t.type === 'sell').reduce((s, t) => s + (t.realized_profit_loss ?? 0), 0);
 
   const withPnl = holdings.map((h) => {
@@ -73,33 +55,77 @@ export function PerformancePanel({ history, holdings, transactions, portfolioNam
     </div>
   );
 
-  const curve = history.map((h) => ({ date: h.date, value: h.value }));
-  const curveColor = perf && perf.totalReturn >= 0 ? 'var(--ark-success)' : 'var(--ark-error)';
+  const pctColor = (v: number | null | undefined) => (v == null ? undefined : v >= 0 ? 'var(--ark-success)' : 'var(--ark-error)');
+  // History dates are local calendar days; parse them as local midnight.
+  const day = (d: string) => formatDate(`${d}T00:00:00`);
+  const pct = (v: number | null | undefined) => (v == null ? '—' : formatPercent(v));
+  const ratio = (v: number | null | undefined) => (v == null ? '—' : v.toFixed(2));
+  const curveColor = perf && perf.twr >= 0 ? 'var(--ark-success)' : 'var(--ark-error)';
+  const dd = perf?.maxDrawdown ?? null;
+  const flowTotal = perf ? Math.abs(perf.netContributions) + Math.abs(perf.investmentGain) : 0;
 
   return (
     <GlassCard className="relative overflow-hidden">
       <div className="mb-4 flex items-center justify-between">
         <h3 className="text-sm font-semibold text-ark-text">Performance</h3>
+        <div className="flex items-center gap-2">
+        <div className="flex gap-1 rounded-full bg-ark-fill-secondary/60 p-1">
+          {ANALYTICS_PERIODS.map((p) => (
+            <button key={p} onClick={() => setPeriod(p)} disabled={!analytics[p]}
+              className={cn('rounded-full px-2.5 py-1 text-[10px] font-semibold transition-colors disabled:opacity-30',
+                period === p ? 'bg-ark-primary text-white shadow-sm' : 'text-ark-text-tertiary hover:text-ark-text')}>
+              {p}
+            </button>
+          ))}
+        </div>
         <button onClick={exportTransactions} disabled={!transactions.length}
           className="flex items-center gap-1.5 rounded-lg border border-ark-divider px-2.5 py-1.5 text-xs font-medium text-ark-text-secondary transition-colors hover:bg-ark-fill-secondary disabled:opacity-40">
           <Download className="h-3.5 w-3.5" /> Export CSV
         </button>
+        </div>
       </div>
 
       {perf ? (
         <>
           <div className="grid grid-cols-2 gap-2 sm:grid-cols-3 lg:grid-cols-6">
-            {metric('Total Return', formatPercent(perf.totalReturnPct), perf.totalReturnPct >= 0 ? 'var(--ark-success)' : 'var(--ark-error)')}
-            {metric('Realized P&L', formatCurrency(realized), realized >= 0 ? 'var(--ark-success)' : 'var(--ark-error)')}
-            {metric('Max Drawdown', `${perf.maxDrawdown.toFixed(1)}%`, 'var(--ark-error)')}
-            {metric('Volatility', `${perf.volatility.toFixed(1)}%`)}
-            {metric('Sharpe', perf.sharpe.toFixed(2), perf.sharpe >= 1 ? 'var(--ark-success)' : perf.sharpe >= 0 ? 'var(--ark-text)' : 'var(--ark-error)')}
-            {best && metric('Best / Worst', `${best.symbol} ${formatPercent(best.pnlPct)}`, 'var(--ark-success)')}
+            {metric(perf.twrAnnualized != null ? 'TWR (ann.)' : 'Time-Weighted', pct(perf.twrAnnualized ?? perf.twr), pctColor(perf.twrAnnualized ?? perf.twr))}
+            {metric(perf.mwrAnnualized != null ? 'MWR / IRR (ann.)' : 'Money-Weighted', pct(perf.mwrAnnualized ?? perf.mwr), pctColor(perf.mwrAnnualized ?? perf.mwr))}
+            {metric('Max Drawdown', dd ? `${dd.pct.toFixed(1)}%` : '—', dd ? 'var(--ark-error)' : undefined)}
+            {metric('Volatility', perf.volatility == null ? '—' : `${perf.volatility.toFixed(1)}%`)}
+            {metric('Sharpe', ratio(perf.sharpe), perf.sharpe == null ? undefined : perf.sharpe >= 1 ? 'var(--ark-success)' : perf.sharpe >= 0 ? 'var(--ark-text)' : 'var(--ark-error)')}
+            {metric('Sortino', ratio(perf.sortino), perf.sortino == null ? undefined : perf.sortino >= 1 ? 'var(--ark-success)' : perf.sortino >= 0 ? 'var(--ark-text)' : 'var(--ark-error)')}
           </div>
 
-          <div className="mt-4 h-40 w-full">
+          {/* Contributions vs. performance: how the value change splits */}
+          <div className="mt-4 rounded-xl border border-ark-divider bg-ark-fill-secondary/40 p-3">
+            <div className="flex flex-wrap items-baseline justify-between gap-2 text-xs">
+              <span className="text-ark-text-tertiary">
+                {formatCurrency(perf.startValue)} → <span className="fig font-semibold text-ark-text">{formatCurrency(perf.endValue)}</span>
+              </span>
+              <span className="text-ark-text-tertiary">
+                Contributions <span className="fig font-semibold text-ark-info">{formatCurrency(perf.netContributions, undefined, { sign: true })}</span>
+                {' · '}Investment <span className="fig font-semibold" style={{ color: pctColor(perf.investmentGain) }}>{formatCurrency(perf.investmentGain, undefined, { sign: true })}</span>
+              </span>
+            </div>
+            {flowTotal > 0 && (
+              <div className="mt-2 flex h-1.5 overflow-hidden rounded-full bg-ark-fill-secondary">
+                <div className="bg-ark-info" style={{ width: `${(Math.abs(perf.netContributions) / flowTotal) * 100}%` }} />
+                <div className={perf.investmentGain >= 0 ? 'bg-ark-success' : 'bg-ark-error'} style={{ width: `${(Math.abs(perf.investmentGain) / flowTotal) * 100}%` }} />
+              </div>
+            )}
+          </div>
+
+          <div className="mt-4 flex justify-end gap-1">
+            {(['value', 'growth'] as const).map((v) => (
+              <button key={v} onClick={() => setView(v)}
+                className={cn('rounded-md px-2 py-0.5 text-[10px] font-semibold', view === v ? 'bg-ark-fill-secondary text-ark-text' : 'text-ark-text-tertiary hover:text-ark-text')}>
+                {v === 'value' ? 'Value' : 'Growth of 100'}
+              </button>
+            ))}
+          </div>
+          <div className="mt-1 h-40 w-full">
             <ResponsiveContainer width="100%" height="100%">
-              <AreaChart data={curve} margin={{ top: 6, right: 6, bottom: 0, left: 6 }}>
+              <AreaChart data={perf.curve} margin={{ top: 6, right: 6, bottom: 0, left: 6 }}>
                 <defs>
                   <linearGradient id="perf-curve" x1="0" y1="0" x2="0" y2="1">
                     <stop offset="0%" stopColor={curveColor} stopOpacity={0.25} />
@@ -107,20 +133,26 @@ export function PerformancePanel({ history, holdings, transactions, portfolioNam
                   </linearGradient>
                 </defs>
                 <XAxis dataKey="date" tickLine={false} axisLine={false}
-                  ticks={curve.length ? [curve[0].date, curve[curve.length - 1].date] : []}
+                  ticks={[perf.startDate, perf.endDate]}
                   tickFormatter={(d) => new Date(String(d)).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
                   tick={{ fontSize: 10, fill: 'var(--ark-text-disabled)' }} interval="preserveStartEnd" />
                 <YAxis domain={['dataMin', 'dataMax']} hide />
                 <Tooltip contentStyle={{ background: 'var(--ark-card)', border: '1px solid var(--ark-divider)', borderRadius: 8, fontSize: 11 }}
                   labelFormatter={(l) => new Date(String(l)).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
-                  formatter={(v) => [formatCurrency(Number(v)), 'Value']} />
-                <Area type="monotone" dataKey="value" stroke={curveColor} strokeWidth={2} fill="url(#perf-curve)" dot={false} />
+                  formatter={(v) => (view === 'value' ? [formatCurrency(Number(v)), 'Value'] : [Number(v).toFixed(1), 'Growth of 100'])} />
+                <Area type="monotone" dataKey={view === 'value' ? 'value' : 'index'} stroke={curveColor} strokeWidth={2} fill="url(#perf-curve)" dot={false} />
               </AreaChart>
             </ResponsiveContainer>
           </div>
 
+          <p className="mt-2 text-xs text-ark-text-tertiary">
+            {dd
+              ? <>Deepest drawdown {dd.pct.toFixed(1)}%, {day(dd.peakDate)} → {day(dd.troughDate)}{dd.recoveredDate ? `, recovered ${day(dd.recoveredDate)}` : ', not yet recovered'}.</>
+              : 'No drawdown this period.'}
+            {' '}Realized P&L <span className="fig font-semibold" style={{ color: pctColor(realized) }}>{formatCurrency(realized, undefined, { sign: true })}</span>
+          </p>
           {worst && (
-            <p className={cn('mt-2 text-xs text-ark-text-tertiary')}>
+            <p className="mt-1 text-xs text-ark-text-tertiary">
               Best performer <span className="font-semibold text-ark-success">{best?.symbol} {formatPercent(best?.pnlPct ?? 0)}</span> · Worst <span className="font-semibold text-ark-error">{worst.symbol} {formatPercent(worst.pnlPct)}</span>
             </p>
           )}
@@ -0,0 +1,156 @@
+'use client';
+
+/**
+ * Rebalance planner — turns target-vs-actual drift into exact trades at live
+ * prices. Full rebalance or contribution-only (new cash, never sells), with a
+ * minimum trade size and drift band. Confirmed plans are recorded as
+ * transactions in one batch.
+ */
+
+import { useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { DetailDrawer } from '@/components/ui/detail-drawer';
+import { ConfirmDialog, useToast } from '@/components/ui';
+import { useRecordRebalance } from '@/lib/hooks/use-portfolio-mutations';
+import { DEFAULT_REBALANCE_OPTIONS, planRebalance, type RebalanceMode } from '@/lib/portfolio/rebalance';
+import { cn, formatCurrency } from '@/lib/utils/format';
+import type { PortfolioHolding } from '@/types';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  portfolioId: string | undefined;
+  holdings: PortfolioHolding[];
+}
+
+const MODES: { key: RebalanceMode; label: string; hint: string }[] = [
+  { key: 'full', label: 'Full rebalance', hint: 'Sell overweight, buy underweight' },
+  { key: 'contribution', label: 'Contribution only', hint: 'Invest new cash, never sell' },
+];
+
+export function RebalancePlanner({ open, onClose, portfolioId, holdings }: Props) {
+  const record = useRecordRebalance(portfolioId);
+  const toast = useToast();
+  const [mode, setMode] = useState<RebalanceMode>(DEFAULT_REBALANCE_OPTIONS.mode);
+  const [cash, setCash] = useState('');
+  const [minTrade, setMinTrade] = useState(String(DEFAULT_REBALANCE_OPTIONS.minTrade));
+  const [band, setBand] = useState(String(DEFAULT_REBALANCE_OPTIONS.driftBand));
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState('');
+
+  const plan = useMemo(() => planRebalance(holdings, {
+    mode,
+    cash: parseFloat(cash) || 0,
+    minTrade: Math.max(0, parseFloat(minTrade) || 0),
+    driftBand: Math.max(0, parseFloat(band) || 0),
+  }), [holdings, mode, cash, minTrade, band]);
+  const trades = plan.lines.filter((l) => l.side);
+
+  const close = () => { setConfirming(false); setError(''); onClose(); };
+
+  const submit = () => {
+    setError('');
+    record.mutate(trades.map((l) => ({ type: l.side!, symbol: l.symbol, quantity: l.tradeQuantity, price_per_unit: l.price })), {
+      onSuccess: (n) => { toast.success(`Recorded ${n} rebalance trade${n === 1 ? '' : 's'}`); close(); },
+      onError: (e) => { setConfirming(false); setError(e instanceof Error ? e.message : 'Could not record the trades. Please try again.'); },
+    });
+  };
+
+  const inputClass = 'fig w-full rounded-lg border border-ark-divider bg-ark-fill-secondary/40 px-2 py-1.5 text-xs text-ark-text outline-none focus:border-ark-info';
+
+  return (
+    <DetailDrawer open={open} onClose={close} title="Rebalance">
+      <div className="space-y-5 pb-2">
+        <div className="grid grid-cols-2 gap-2">
+          {MODES.map((m) => (
+            <button key={m.key} onClick={() => setMode(m.key)}
+              className={cn('rounded-xl border px-3 py-2 text-left', mode === m.key ? 'border-ark-info bg-ark-info/10' : 'border-ark-divider')}>
+              <p className={cn('text-xs font-semibold', mode === m.key ? 'text-ark-info' : 'text-ark-text')}>{m.label}</p>
+              <p className="text-[10px] text-ark-text-tertiary">{m.hint}</p>
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label className="mb-1 block text-[11px] font-semibold text-ark-text-secondary">New cash ($)</label>
+            <input type="number" min={0} value={cash} onChange={(e) => setCash(e.target.value)} placeholder="0" className={inputClass} />
+          </div>
+          <div>
+            <label className="mb-1 block text-[11px] font-semibold text-ark-text-secondary">Min trade ($)</label>
+            <input type="number" min={0} value={minTrade} onChange={(e) => setMinTrade(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="mb-1 block text-[11px] font-semibold text-ark-text-secondary">Drift band (±%)</label>
+            <input type="number" min={0} step={0.5} value={band} onChange={(e) => setBand(e.target.value)} disabled={mode === 'contribution'} className={cn(inputClass, 'disabled:opacity-50')} />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto rounded-xl border border-ark-divider">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-wider text-ark-text-tertiary">
+                <th className="px-2 py-1.5 text-left font-semibold">Asset</th>
+                <th className="px-2 py-1.5 text-right font-semibold">Now</th>
+                <th className="px-2 py-1.5 text-right font-semibold">Target</th>
+                <th className="px-2 py-1.5 text-right font-semibold">Trade</th>
+                <th className="px-2 py-1.5 text-right font-semibold">After</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-ark-divider/50">
+              {plan.lines.map((l) => (
+                <tr key={l.holdingId} className="fig text-ark-text-secondary">
+                  <td className="px-2 py-1.5 font-semibold text-ark-text">{l.symbol}</td>
+                  <td className="px-2 py-1.5 text-right">{l.currentPct.toFixed(1)}%</td>
+                  <td className="px-2 py-1.5 text-right">{l.targetPct != null ? `${l.targetPct.toFixed(1)}%` : '—'}</td>
+                  <td className="px-2 py-1.5 text-right">
+                    {l.side ? (
+                      <span className={l.side === 'buy' ? 'text-ark-success' : 'text-ark-error'}>
+                        {l.side === 'buy' ? 'Buy' : 'Sell'} {l.tradeQuantity} · {formatCurrency(l.tradeValue, undefined, { decimals: 2 })}
+                      </span>
+                    ) : <span className="text-ark-text-disabled">—</span>}
+                  </td>
+                  <td className="px-2 py-1.5 text-right">{l.postPct.toFixed(1)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 text-center">
+          {[
+            { label: 'Buys', value: plan.buys },
+            { label: 'Sells', value: plan.sells },
+            { label: 'Unallocated', value: plan.unallocatedCash },
+          ].map((m) => (
+            <div key={m.label} className="rounded-xl bg-ark-fill-secondary/40 px-3 py-2">
+              <p className="fig text-sm font-bold text-ark-text">{formatCurrency(m.value, undefined, { decimals: 2 })}</p>
+              <p className="text-[10px] uppercase tracking-wider text-ark-text-tertiary">{m.label}</p>
+            </div>
+          ))}
+        </div>
+
+        {plan.warnings.map((w) => <p key={w} className="text-xs text-ark-warning">{w}</p>)}
+        <p className="text-[10px] text-ark-text-disabled">Live prices, before fees. Trades are recorded at these prices as of now.</p>
+
+        {error && <p className="rounded-lg bg-ark-error/10 px-3 py-2 text-sm text-ark-error">{error}</p>}
+
+        <button onClick={() => setConfirming(true)} disabled={!trades.length || record.isPending}
+          className="flex w-full items-center justify-center gap-2 rounded-xl bg-ark-primary py-3 text-sm font-semibold text-white transition-colors disabled:opacity-60">
+          {record.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+          {trades.length ? `Record ${trades.length} trade${trades.length === 1 ? '' : 's'}` : 'Nothing to trade'}
+        </button>
+      </div>
+
+      <ConfirmDialog
+        open={confirming}
+        title="Record rebalance?"
+        message={`This adds ${trades.length} transaction${trades.length === 1 ? '' : 's'} at current prices — ${formatCurrency(plan.buys, undefined, { decimals: 2 })} of buys and ${formatCurrency(plan.sells, undefined, { decimals: 2 })} of sells. Holdings and lots are recalculated.`}
+        confirmLabel="Record trades"
+        loading={record.isPending}
+        onConfirm={submit}
+        onCancel={() => setConfirming(false)}
+      />
+    </DetailDrawer>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { AlertTriangle } from 'lucide-react';
+import { GlassCard } from '@/components/ui';
+import { useBenchmarkSeries } from '@/lib/hooks/use-model-portfolios';
+import { useHoldingsRiskScore, usePriceHistories } from '@/lib/hooks/use-portfolio';
+import { analyzePortfolioRisk, RISK_WINDOWS, type RiskWindow } from '@/lib/portfolio/risk';
+import { holdingValue } from '@/lib/portfolio/risk-score';
+import { cn } from '@/lib/utils/format';
+import type { PortfolioHolding } from '@/types';
+
+// Longest window plus the trailing 30 days the rolling correlation needs
+const HISTORY_DAYS = 210;
+const MATRIX_MAX = 8;
+
+interface Props {
+  holdings: PortfolioHolding[];
+}
+
+/**
+ * Correlation and concentration risk: how many independent bets the
+ * allocation really is, its beta to BTC and SPY, and its regression risk
+ * level against BTC's. See lib/portfolio/risk for the definitions.
+ */
+export function RiskPanel({ holdings }: Props) {
+  const [windowDays, setWindowDays] = useState<RiskWindow>(90);
+  const { data: histories, isLoading } = usePriceHistories(holdings, HISTORY_DAYS);
+  const { data: benchmarks } = useBenchmarkSeries(['btc', 'spy'], HISTORY_DAYS);
+  const { score: level, btc } = useHoldingsRiskScore(holdings);
+
+  const valued = useMemo(
+    () => holdings.map((h) => ({ symbol: h.symbol.toUpperCase(), value: holdingValue(h), key: h.symbol.toLowerCase() })),
+    [holdings],
+  );
+
+  const risk = useMemo(() => {
+    if (!histories || !benchmarks) return null;
+    return analyzePortfolioRisk(
+      valued.map((h) => ({ symbol: h.symbol, value: h.value, points: histories.get(h.key) ?? [] })),
+      { btc: benchmarks.btc ?? [], spy: benchmarks.spy ?? [] },
+      windowDays,
+    );
+  }, [valued, histories, benchmarks, windowDays]);
+
+  const metric = (label: string, value: string, hint?: string, color?: string) => (
+    <div className="rounded-xl border border-ark-divider bg-ark-fill-secondary/40 p-3">
+      <p className="text-[10px] uppercase tracking-wider text-ark-text-tertiary">{label}</p>
+      <p className="fig mt-0.5 text-sm font-bold" style={{ color: color ?? 'var(--ark-text)' }}>{value}</p>
+      {hint && <p className="mt-0.5 text-[10px] text-ark-text-disabled">{hint}</p>}
+    </div>
+  );
+  const num = (v: number | null | undefined, d = 2) => (v == null ? '—' : v.toFixed(d));
+  // Red for co-movement, blue for offsetting moves
+  const cellColor = (c: number | null) =>
+    c == null ? undefined : c >= 0 ? `rgba(220, 38, 38, ${0.1 + 0.5 * c})` : `rgba(59, 130, 246, ${0.1 + 0.5 * -c})`;
+  const shortDate = (d: string) => new Date(d + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  const matrix = risk ? risk.holdings.slice(0, MATRIX_MAX) : [];
+  const scoreColor = (s: number) => (s >= 60 ? 'var(--ark-error)' : s >= 35 ? 'var(--ark-warning)' : 'var(--ark-success)');
+
+  return (
+    <GlassCard>
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-ark-text">Correlation &amp; Concentration</h3>
+        <div className="flex gap-1 rounded-full bg-ark-fill-secondary/60 p-1">
+          {RISK_WINDOWS.map((w) => (
+            <button key={w} onClick={() => setWindowDays(w)}
+              className={cn('rounded-full px-2.5 py-1 text-[10px] font-semibold transition-colors',
+                windowDays === w ? 'bg-ark-primary text-white shadow-sm' : 'text-ark-text-tertiary hover:text-ark-text')}>
+              {w}D
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!risk ? (
+        <p className="flex h-32 items-center justify-center text-xs text-ark-text-tertiary">
+          {isLoading ? 'Loading price history…' : 'Not enough price history to measure correlation yet.'}
+        </p>
+      ) : (
+        <>
+          {risk.effectivelyOnePosition && (
+            <div className="mb-4 flex items-start gap-2 rounded-xl border border-ark-warning/30 bg-ark-warning/10 p-3 text-xs text-ark-text-secondary">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-ark-warning" />
+              <p>
+                <span className="font-semibold text-ark-text">{Math.round(risk.largestCluster.weight * 100)}% of this portfolio is effectively one position.</span>{' '}
+                {risk.largestCluster.members.join(', ')} moved together (correlation ≥ 0.7 with {risk.largestCluster.anchor}) over the last {risk.windowDays} days — a drawdown in one is a drawdown in all.
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-3 lg:grid-cols-6">
+            {metric('Independent bets', num(risk.independentBets, 1), `of ${risk.holdings.length} holdings`)}
+            {metric('Concentration', `${risk.concentrationScore}/100`, `${num(risk.effectivePositions, 1)} by weight alone`, scoreColor(risk.concentrationScore))}
+            {metric('Beta to BTC', num(risk.betaBtc))}
+            {metric('Beta to SPY', num(risk.betaSpy))}
+            {metric('Volatility', risk.volatility == null ? '—' : `${risk.volatility.toFixed(0)}%`, 'annualized')}
+            {metric(
+              'Risk level',
+              level?.score == null ? '—' : level.score.toFixed(2),
+              btc == null || !level ? undefined : `BTC ${btc.toFixed(2)} · ${Math.round(level.coverage * 100)}% covered`,
+              level?.score != null && btc != null ? (level.score > btc ? 'var(--ark-error)' : 'var(--ark-success)') : undefined,
+            )}
+          </div>
+
+          <div className="mt-4 grid gap-4 lg:grid-cols-2">
+            {/* Correlation matrix of the largest holdings */}
+            <div className="overflow-x-auto">
+              <table className="w-full border-separate border-spacing-0.5 text-[10px]">
+                <thead>
+                  <tr>
+                    <th />
+                    {matrix.map((h) => <th key={h.symbol} className="px-1 font-semibold text-ark-text-tertiary">{h.symbol}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {matrix.map((row, i) => (
+                    <tr key={row.symbol}>
+                      <th className="pr-1 text-right font-semibold text-ark-text-tertiary">{row.symbol}</th>
+                      {matrix.map((col, j) => (
+                        <td key={col.symbol} className="fig rounded px-1 py-1.5 text-center text-ark-text"
+                          style={{ background: i === j ? 'var(--ark-fill-secondary)' : cellColor(risk.correlation[i][j]) }}>
+                          {i === j ? '' : num(risk.correlation[i][j])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Rolling 30-day correlation of the current mix to BTC */}
+            <div>
+              <p className="mb-1 text-[10px] uppercase tracking-wider text-ark-text-tertiary">30-day correlation to BTC</p>
+              <div className="h-36">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={risk.rollingBtcCorrelation} margin={{ top: 4, right: 4, bottom: 0, left: 4 }}>
+                    <XAxis dataKey="date" tickFormatter={shortDate} tickLine={false} axisLine={false}
+                      tick={{ fontSize: 10, fill: 'var(--ark-text-disabled)' }} interval="preserveStartEnd" />
+                    <YAxis domain={[-1, 1]} hide />
+                    <ReferenceLine y={0} stroke="var(--ark-divider)" />
+                    <Tooltip contentStyle={{ background: 'var(--ark-card)', border: '1px solid var(--ark-divider)', borderRadius: 8, fontSize: 11 }}
+                      labelFormatter={(l) => shortDate(String(l))} formatter={(v) => [Number(v).toFixed(2), 'Correlation']} />
+                    <Line type="monotone" dataKey="value" stroke="var(--ark-warning)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+
+          <p className="mt-3 text-[10px] text-ark-text-disabled">
+            Daily returns over {risk.windowDays} days at today&apos;s weights.
+            {risk.uncovered.length > 0 && ` Not enough history for ${risk.uncovered.join(', ')} (${Math.round((1 - risk.coverage) * 100)}% of value).`}
+            {level?.score != null && ` Risk level covers ${level.contributions.map((c) => c.symbol).join(', ')}.`}
+          </p>
+        </>
+      )}
+    </GlassCard>
+  );
+}
@@ -0,0 +1,370 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Save, X } from 'lucide-react';
+import { GlassCard, Skeleton, ConfirmDialog, PromptDialog, useToast } from '@/components/ui';
+import { usePriceHistories } from '@/lib/hooks/use-portfolio';
+import { useUpdateLossLimits } from '@/lib/hooks/use-portfolio-mutations';
+import { useCreateScenario, useDeleteScenario, useFactorSeries, useScenarios } from '@/lib/hooks/use-scenarios';
+import {
+  BETA_DAYS, HISTORICAL_EPISODES, SCENARIO_FACTORS, SHOCK_PRESETS, episodeShocks, runScenario, type LimitCheck,
+} from '@/lib/portfolio/scenario';
+import { cn, formatCurrency, localDateISO } from '@/lib/utils/format';
+import type { Portfolio, PortfolioHolding, PortfolioScenario, ScenarioFactor, ScenarioKind, ScenarioShocks } from '@/types';
+
+// Fetched ahead of an episode's start so a weekend start still has a close
+const EPISODE_LEAD_DAYS = 7;
+
+const shiftDate = (date: string, days: number) => new Date(Date.parse(date) + days * 86_400_000).toISOString().slice(0, 10);
+
+/** Shock inputs' text for a set of shocks; unshocked factors are blank. */
+const shockInputs = (shocks: ScenarioShocks) =>
+  Object.fromEntries(SCENARIO_FACTORS.map(({ key }) => [key, shocks[key] != null ? String(shocks[key]) : ''])) as Record<ScenarioFactor, string>;
+
+interface Props {
+  portfolio: Portfolio | undefined;
+  holdings: PortfolioHolding[];
+}
+
+/**
+ * Stress test: apply factor shocks or a replayed historical window to the
+ * current holdings through their betas, and see where that leaves the
+ * portfolio against its loss limits. See lib/portfolio/scenario.
+ */
+export function ScenarioPanel({ portfolio, holdings }: Props) {
+  const toast = useToast();
+  const [betaFrom] = useState(() => shiftDate(localDateISO(), -BETA_DAYS));
+  const [kind, setKind] = useState<ScenarioKind>('shock');
+  const [shockText, setShockText] = useState(() => shockInputs(SHOCK_PRESETS[0].shocks));
+  const [episode, setEpisode] = useState({ start: HISTORICAL_EPISODES[0].start, end: HISTORICAL_EPISODES[0].end });
+  const [loaded, setLoaded] = useState<PortfolioScenario | null>(null);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<PortfolioScenario | null>(null);
+
+  const { data: scenarios } = useScenarios();
+  const createScenario = useCreateScenario();
+  const deleteScenario = useDeleteScenario();
+  const { data: histories, isLoading: historiesLoading } = usePriceHistories(holdings, BETA_DAYS);
+  const { data: betaFactors, isLoading: factorsLoading } = useFactorSeries(betaFrom);
+  const { data: episodeFactors, isLoading: episodeLoading } = useFactorSeries(
+    kind === 'episode' && episode.start < episode.end ? shiftDate(episode.start, -EPISODE_LEAD_DAYS) : null,
+    episode.end,
+  );
+
+  const shocks: ScenarioShocks = useMemo(() => {
+    if (kind === 'episode') return episodeFactors ? episodeShocks(episodeFactors, episode.start, episode.end) : {};
+    const out: ScenarioShocks = {};
+    for (const { key } of SCENARIO_FACTORS) {
+      const v = parseFloat(shockText[key]);
+      if (Number.isFinite(v) && v !== 0) out[key] = Math.max(v, -100);
+    }
+    return out;
+  }, [kind, shockText, episode, episodeFactors]);
+
+  const lossLimitPct = portfolio?.loss_limit_pct;
+  const lossLimitValue = portfolio?.loss_limit_value;
+  const limits = useMemo(() => ({
+    maxLossPct: lossLimitPct != null ? Number(lossLimitPct) : null,
+    floorValue: lossLimitValue != null ? Number(lossLimitValue) : null,
+  }), [lossLimitPct, lossLimitValue]);
+
+  const result = useMemo(() => {
+    if (!histories || !betaFactors) return null;
+    return runScenario(
+      holdings.map((h) => ({
+        symbol: h.symbol,
+        asset_type: h.asset_type,
+        value: (h.current_price ?? 0) * h.quantity,
+        points: histories.get(h.symbol.toLowerCase()) ?? [],
+      })),
+      betaFactors,
+      shocks,
+      limits,
+    );
+  }, [holdings, histories, betaFactors, shocks, limits]);
+
+  const loadScenario = (s: PortfolioScenario) => {
+    setLoaded(s);
+    setKind(s.kind);
+    if (s.kind === 'episode' && s.window_start && s.window_end) setEpisode({ start: s.window_start, end: s.window_end });
+    else setShockText(shockInputs(s.shocks));
+  };
+
+  const save = (name: string) => {
+    createScenario.mutate({
+      name,
+      kind,
+      shocks,
+      window_start: episode.start,
+      window_end: episode.end,
+      saved_result: result && portfolio ? {
+        portfolio_id: portfolio.id,
+        value: result.value,
+        projected: result.projected,
+        change_pct: result.changePct,
+        run_at: new Date().toISOString(),
+      } : null,
+    }, {
+      onSuccess: () => { setSaveOpen(false); toast.success(`"${name}" saved`); },
+      onError: (e) => toast.error(e instanceof Error ? e.message : 'Could not save the scenario.'),
+    });
+  };
+
+  const money = (v: number) => formatCurrency(v, 'USD', { decimals: 0 });
+  const signedPct = (v: number) => `${v >= 0 ? '+' : ''}${v.toFixed(1)}%`;
+  const tone = (v: number) => (v >= 0 ? 'var(--ark-success)' : 'var(--ark-error)');
+  const chip = (on: boolean) => cn('rounded-lg border px-2.5 py-1 text-xs font-medium transition-colors',
+    on ? 'border-ark-primary bg-ark-primary/10 text-ark-primary' : 'border-ark-divider text-ark-text-secondary hover:text-ark-text');
+  const input = 'w-full rounded-lg border border-ark-divider bg-ark-fill-secondary/40 px-2.5 py-1.5 text-sm text-ark-text outline-none focus:border-ark-info';
+  const comparable = loaded?.saved_result && loaded.saved_result.portfolio_id === portfolio?.id ? loaded.saved_result : null;
+  const loading = historiesLoading || factorsLoading || (kind === 'episode' && episodeLoading);
+
+  return (
+    <GlassCard>
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-ark-text">Stress Test</h3>
+        <div className="flex gap-1 rounded-full bg-ark-fill-secondary/60 p-1">
+          {(['shock', 'episode'] as const).map((k) => (
+            <button key={k} onClick={() => { setKind(k); setLoaded(null); }}
+              className={cn('rounded-full px-2.5 py-1 text-[10px] font-semibold transition-colors',
+                kind === k ? 'bg-ark-primary text-white shadow-sm' : 'text-ark-text-tertiary hover:text-ark-text')}>
+              {k === 'shock' ? 'Shocks' : 'Historical'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-5 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.4fr)]">
+        {/* Scenario */}
+        <div className="space-y-4">
+          {kind === 'shock' ? (
+            <>
+              <div className="flex flex-wrap gap-1.5">
+                {SHOCK_PRESETS.map((p) => (
+                  <button key={p.name} className={chip(false)} onClick={() => {
+                    setLoaded(null);
+                    setShockText(shockInputs(p.shocks));
+                  }}>{p.name}</button>
+                ))}
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {SCENARIO_FACTORS.map((f) => (
+                  <div key={f.key}>
+                    <label className="mb-1 block text-[10px] uppercase tracking-wider text-ark-text-tertiary">{f.label} %</label>
+                    <input type="number" inputMode="decimal" value={shockText[f.key]} placeholder="0"
+                      onChange={(e) => { setLoaded(null); setShockText((s) => ({ ...s, [f.key]: e.target.value })); }} className={input} />
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-1.5">
+                {HISTORICAL_EPISODES.map((e) => (
+                  <button key={e.name} className={chip(episode.start === e.start && episode.end === e.end)}
+                    onClick={() => { setLoaded(null); setEpisode({ start: e.start, end: e.end }); }}>{e.name}</button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="mb-1 block text-[10px] uppercase tracking-wider text-ark-text-tertiary">From</label>
+                  <input type="date" value={episode.start} max={episode.end} className={input}
+                    onChange={(e) => { setLoaded(null); setEpisode((w) => ({ ...w, start: e.target.value })); }} />
+                </div>
+                <div>
+                  <label className="mb-1 block text-[10px] uppercase tracking-wider text-ark-text-tertiary">To</label>
+                  <input type="date" value={episode.end} min={episode.start} className={input}
+                    onChange={(e) => { setLoaded(null); setEpisode((w) => ({ ...w, end: e.target.value })); }} />
+                </div>
+              </div>
+              <p className="text-[11px] text-ark-text-tertiary">
+                {episodeLoading ? 'Measuring the window…' : SCENARIO_FACTORS.map((f) => (
+                  `${f.label} ${shocks[f.key] != null ? signedPct(shocks[f.key]!) : 'n/a'}`
+                )).join(' · ')}
+              </p>
+            </>
+          )}
+
+          <button onClick={() => setSaveOpen(true)} disabled={!portfolio || !Object.keys(shocks).length}
+            className="flex items-center gap-1.5 rounded-lg border border-ark-divider px-3 py-1.5 text-xs font-medium text-ark-text-secondary transition-colors hover:text-ark-text disabled:opacity-50">
+            <Save className="h-3.5 w-3.5" /> Save scenario
+          </button>
+
+          {/* Saved */}
+          {!!scenarios?.length && (
+            <div>
+              <p className="mb-1.5 text-[10px] uppercase tracking-wider text-ark-text-tertiary">Saved</p>
+              <div className="flex flex-wrap gap-1.5">
+                {scenarios.map((s) => (
+                  <span key={s.id} className={cn(chip(loaded?.id === s.id), 'flex items-center gap-1 pr-1')}>
+                    <button onClick={() => loadScenario(s)}>{s.name}</button>
+                    <button onClick={() => setDeleteTarget(s)} title="Delete" className="rounded p-0.5 text-ark-text-disabled hover:text-ark-error">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {portfolio && <LossLimitsForm key={portfolio.id} portfolio={portfolio} />}
+        </div>
+
+        {/* Outcome */}
+        <div>
+          {loading || !result ? (
+            <Skeleton className="h-64 w-full" />
+          ) : !Object.keys(shocks).length ? (
+            <p className="py-10 text-center text-sm text-ark-text-tertiary">
+              {kind === 'episode' ? 'No factor data for this window.' : 'Set a move for at least one factor.'}
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-2">
+                <div className="rounded-xl border border-ark-divider bg-ark-fill-secondary/40 p-3">
+                  <p className="text-[10px] uppercase tracking-wider text-ark-text-tertiary">Projected value</p>
+                  <p className="fig mt-0.5 text-sm font-bold text-ark-text">{money(result.projected)}</p>
+                  <p className="mt-0.5 text-[10px] text-ark-text-disabled">from {money(result.value)}</p>
+                </div>
+                <div className="rounded-xl border border-ark-divider bg-ark-fill-secondary/40 p-3">
+                  <p className="text-[10px] uppercase tracking-wider text-ark-text-tertiary">Change</p>
+                  <p className="fig mt-0.5 text-sm font-bold" style={{ color: tone(result.change) }}>{money(result.change)}</p>
+                  <p className="mt-0.5 text-[10px]" style={{ color: tone(result.change) }}>{signedPct(result.changePct)}</p>
+                </div>
+                <div className="rounded-xl border border-ark-divider bg-ark-fill-secondary/40 p-3">
+                  <p className="text-[10px] uppercase tracking-wider text-ark-text-tertiary">When saved</p>
+                  {comparable ? (
+                    <>
+                      <p className="fig mt-0.5 text-sm font-bold" style={{ color: tone(comparable.change_pct) }}>{signedPct(comparable.change_pct)}</p>
+                      <p className="mt-0.5 text-[10px] text-ark-text-disabled">{new Date(comparable.run_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</p>
+                    </>
+                  ) : <p className="mt-0.5 text-sm font-bold text-ark-text-disabled">—</p>}
+                </div>
+              </div>
+
+              {/* Loss limits */}
+              {result.limits.length > 0 && (
+                <div className="space-y-2">
+                  {result.limits.map((l) => <LimitBar key={l.kind} check={l} />)}
+                </div>
+              )}
+
+              {/* Per holding */}
+              <div className="divide-y divide-ark-divider text-xs">
+                {result.holdings.map((h) => (
+                  <div key={h.symbol} className="flex items-center justify-between gap-3 py-1.5">
+                    <div className="min-w-0">
+                      <span className="font-semibold text-ark-text">{h.symbol}</span>{' '}
+                      <span className="text-ark-text-disabled">{(h.weight * 100).toFixed(1)}%</span>
+                      <p className="text-[10px] text-ark-text-disabled">
+                        {h.method === 'flat' ? 'held flat' : Object.entries(h.betas).map(([f, b]) =>
+                          `β ${b!.toFixed(2)} ${SCENARIO_FACTORS.find((x) => x.key === f)?.label}`).join(', ') + (h.method === 'proxy' ? ' (proxy)' : '')}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="fig font-semibold" style={{ color: tone(h.change) }}>{money(h.change)}</p>
+                      <p className="fig text-[10px]" style={{ color: tone(h.change) }}>{signedPct(h.changePct)}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <p className="text-[10px] text-ark-text-disabled">
+                Betas from {BETA_DAYS} days of daily returns, regressed on the shocked factors together. Holdings without enough
+                history follow BTC, SPY or gold by type; stablecoins stay flat.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <PromptDialog
+        open={saveOpen}
+        title="Save scenario"
+        message={kind === 'episode' ? 'Historical scenarios re-measure their window each time they run.' : 'Saved scenarios re-run against your current holdings.'}
+        placeholder="e.g. BTC halves"
+        confirmLabel="Save"
+        loading={createScenario.isPending}
+        onSubmit={save}
+        onCancel={() => setSaveOpen(false)}
+      />
+      <ConfirmDialog
+        open={deleteTarget !== null}
+        title={`Delete "${deleteTarget?.name ?? ''}"?`}
+        message="The saved scenario is removed. This does not change your portfolio."
+        confirmLabel="Delete"
+        destructive
+        loading={deleteScenario.isPending}
+        onConfirm={() => {
+          if (!deleteTarget) return;
+          deleteScenario.mutate(deleteTarget.id, {
+            onSuccess: () => { if (loaded?.id === deleteTarget.id) setLoaded(null); setDeleteTarget(null); },
+            onError: () => toast.error('Could not delete the scenario. Please try again.'),
+          });
+        }}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </GlassCard>
+  );
+}
+
+function LimitBar({ check }: { check: LimitCheck }) {
+  const pct = Math.min(check.usage, 1) * 100;
+  const color = check.breached ? 'var(--ark-error)' : check.usage >= 0.75 ? 'var(--ark-warning)' : 'var(--ark-success)';
+  const label = check.kind === 'pct' ? `Max loss ${check.limit}%` : `Floor ${formatCurrency(check.limit, 'USD', { decimals: 0 })}`;
+  return (
+    <div>
+      <div className="mb-1 flex items-center justify-between text-[11px]">
+        <span className="text-ark-text-secondary">{label}</span>
+        <span className="fig font-semibold" style={{ color }}>
+          {check.breached ? 'Breached' : `${Math.round(check.usage * 100)}% used`}
+          {!check.breached && check.breachScale != null && (
+            <span className="font-normal text-ark-text-disabled"> · hit at {check.breachScale.toFixed(1)}× this scenario</span>
+          )}
+        </span>
+      </div>
+      <div className="h-1.5 overflow-hidden rounded-full bg-ark-fill-secondary">
+        <div className="h-full rounded-full" style={{ width: `${pct}%`, backgroundColor: color }} />
+      </div>
+    </div>
+  );
+}
+
+/** Keyed by portfolio so switching portfolios starts from that portfolio's limits. */
+function LossLimitsForm({ portfolio }: { portfolio: Portfolio }) {
+  const toast = useToast();
+  const update = useUpdateLossLimits(portfolio.id);
+  const [pct, setPct] = useState(portfolio.loss_limit_pct != null ? String(portfolio.loss_limit_pct) : '');
+  const [floor, setFloor] = useState(portfolio.loss_limit_value != null ? String(portfolio.loss_limit_value) : '');
+  const input = 'w-full rounded-lg border border-ark-divider bg-ark-fill-secondary/40 px-2.5 py-1.5 text-sm text-ark-text outline-none focus:border-ark-info';
+
+  const submit = () => {
+    const p = pct.trim() ? parseFloat(pct) : null;
+    const f = floor.trim() ? parseFloat(floor) : null;
+    if (p != null && !(p > 0 && p <= 100)) return toast.error('Max loss must be between 0 and 100%.');
+    if (f != null && !(f >= 0)) return toast.error('Floor must be zero or more.');
+    update.mutate({ loss_limit_pct: p, loss_limit_value: f }, {
+      onSuccess: () => toast.success('Loss limits saved'),
+      onError: () => toast.error('Could not save loss limits. Please try again.'),
+    });
+  };
+
+  return (
+    <div>
+      <p className="mb-1.5 text-[10px] uppercase tracking-wider text-ark-text-tertiary">Loss limits</p>
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <label className="mb-1 block text-[10px] text-ark-text-disabled">Max loss %</label>
+          <input type="number" inputMode="decimal" value={pct} onChange={(e) => setPct(e.target.value)} placeholder="e.g. 25" className={input} />
+        </div>
+        <div className="flex-1">
+          <label className="mb-1 block text-[10px] text-ark-text-disabled">Floor (USD)</label>
+          <input type="number" inputMode="decimal" value={floor} onChange={(e) => setFloor(e.target.value)} placeholder="e.g. 50000" className={input} />
+        </div>
+        <button onClick={submit} disabled={update.isPending}
+          className="rounded-lg bg-ark-primary px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:brightness-110 disabled:opacity-60">
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+/**
+ * Realized gains by tax year (Form 8949-style): each disposal's lots with
+ * acquired / sold dates, proceeds, basis, fees and gain, grouped short- vs
+ * long-term. Exports to CSV or a print window for "Save as PDF".
+ */
+
+import { useMemo, useState } from 'react';
+import { Download, Printer } from 'lucide-react';
+import { GlassCard, useToast } from '@/components/ui';
+import { buildGainsReport, gainsReportCSV, gainsReportHTML, GAINS_REPORT_CSS, reportYears, type GainRow, type GainTotals } from '@/lib/portfolio/tax-report';
+import { downloadCSV, printDocument } from '@/lib/utils/export';
+import { formatCurrency, cn } from '@/lib/utils/format';
+import type { Transaction } from '@/types/transaction';
+
+export function TaxReportPanel({ transactions, portfolioName }: { transactions: Transaction[]; portfolioName: string }) {
+  const years = useMemo(() => reportYears(transactions), [transactions]);
+  const [picked, setPicked] = useState<number | null>(null);
+  const year = picked != null && years.includes(picked) ? picked : years[0];
+  const report = useMemo(() => (year != null ? buildGainsReport(transactions, year) : null), [transactions, year]);
+  const toast = useToast();
+
+  const slug = `${portfolioName.replace(/\s+/g, '-').toLowerCase()}-realized-gains-${year}`;
+  const exportCSV = () => report && downloadCSV(`${slug}.csv`, gainsReportCSV(report));
+  const exportPDF = () => {
+    if (report && !printDocument(slug, gainsReportHTML(report, portfolioName), GAINS_REPORT_CSS)) {
+      toast.error('Allow pop-ups to print the report.');
+    }
+  };
+
+  const section = (title: string, rows: GainRow[], totals: GainTotals) => (
+    <div>
+      <div className="mb-1 flex items-center justify-between">
+        <p className="text-[10px] font-semibold uppercase tracking-wider text-ark-text-tertiary">{title}</p>
+        <p className={cn('fig text-xs font-semibold', totals.gain >= 0 ? 'text-ark-success' : 'text-ark-error')}>
+          {formatCurrency(totals.gain, undefined, { sign: true })}
+        </p>
+      </div>
+      {rows.length === 0 ? (
+        <p className="py-2 text-xs text-ark-text-disabled">No disposals.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-wider text-ark-text-tertiary">
+                <th className="py-1 pr-3 text-left font-semibold">Asset</th>
+                <th className="py-1 pr-3 text-left font-semibold">Acquired</th>
+                <th className="py-1 pr-3 text-left font-semibold">Sold</th>
+                <th className="py-1 pl-3 text-right font-semibold">Proceeds</th>
+                <th className="py-1 pl-3 text-right font-semibold">Cost basis</th>
+                <th className="py-1 pl-3 text-right font-semibold">Fees</th>
+                <th className="py-1 pl-3 text-right font-semibold">Gain</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-ark-divider/50">
+              {rows.map((r, i) => (
+                <tr key={`${r.txId}-${i}`} className="fig text-ark-text-secondary">
+                  <td className="py-1.5 pr-3 text-ark-text">{r.quantity} {r.symbol}</td>
+                  <td className="py-1.5 pr-3">{r.acquired ?? 'Various'}</td>
+                  <td className="py-1.5 pr-3">{r.sold}</td>
+                  <td className="py-1.5 pl-3 text-right">{formatCurrency(r.proceeds, undefined, { decimals: 2 })}</td>
+                  <td className="py-1.5 pl-3 text-right">{formatCurrency(r.costBasis, undefined, { decimals: 2 })}</td>
+                  <td className="py-1.5 pl-3 text-right">{formatCurrency(r.fees, undefined, { decimals: 2 })}</td>
+                  <td className={cn('py-1.5 pl-3 text-right font-semibold', r.gain >= 0 ? 'text-ark-success' : 'text-ark-error')}>
+                    {formatCurrency(r.gain, undefined, { decimals: 2, sign: true })}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <GlassCard>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-ark-text">Realized Gains</h3>
+        <div className="flex items-center gap-2">
+          {years.length > 0 && (
+            <select
+              value={year}
+              onChange={(e) => setPicked(Number(e.target.value))}
+              className="cursor-pointer rounded-lg border border-ark-divider bg-ark-fill-secondary px-2 py-1.5 text-xs text-ark-text"
+            >
+              {years.map((y) => <option key={y} value={y}>{y}</option>)}
+            </select>
+          )}
+          <button onClick={exportCSV} disabled={!report}
+            className="flex items-center gap-1.5 rounded-lg border border-ark-divider px-2.5 py-1.5 text-xs font-medium text-ark-text-secondary transition-colors hover:bg-ark-fill-secondary disabled:opacity-40">
+            <Download className="h-3.5 w-3.5" /> CSV
+          </button>
+          <button onClick={exportPDF} disabled={!report}
+            className="flex items-center gap-1.5 rounded-lg border border-ark-divider px-2.5 py-1.5 text-xs font-medium text-ark-text-secondary transition-colors hover:bg-ark-fill-secondary disabled:opacity-40">
+            <Printer className="h-3.5 w-3.5" /> PDF
+          </button>
+        </div>
+      </div>
+
+      {!report ? (
+        <p className="py-6 text-center text-sm text-ark-text-tertiary">No sales yet — realized gains appear here by tax year.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+            {[
+              { label: 'Proceeds', value: report.totals.all.proceeds },
+              { label: 'Cost basis', value: report.totals.all.costBasis },
+              { label: 'Short-term', value: report.totals.short.gain, signed: true },
+              { label: 'Long-term', value: report.totals.long.gain, signed: true },
+            ].map((m) => (
+              <div key={m.label} className="rounded-xl border border-ark-divider bg-ark-fill-secondary/40 p-3">
+                <p className="text-[10px] uppercase tracking-wider text-ark-text-tertiary">{m.label}</p>
+                <p className={cn('fig mt-0.5 text-sm font-bold', !m.signed ? 'text-ark-text' : m.value >= 0 ? 'text-ark-success' : 'text-ark-error')}>
+                  {formatCurrency(m.value, undefined, { decimals: 2, sign: m.signed })}
+                </p>
+              </div>
+            ))}
+          </div>
+          {section('Short-term · held one year or less', report.shortTerm, report.totals.short)}
+          {section('Long-term · held more than one year', report.longTerm, report.totals.long)}
+          <p className="text-[10px] text-ark-text-disabled">
+            Proceeds are net of selling fees; cost basis includes purchase fees. Transfers are not disposals. Not tax advice.
+          </p>
+        </div>
+      )}
+    </GlassCard>
+  );
+}
@@ -3,13 +3,15 @@
 /**
  * Full transaction history — mirrors the iOS Portfolio › History tab:
  * type filter chips, date-grouped list, tap → detail drawer (realized P/L
- * for sells, notes, emotional state), delete with holdings recalculation.
+ * for sells with its short/long-term split and the tax lots relieved, notes,
+ * emotional state), delete with holdings + lots recalculation.
  */
 
 import { useState } from 'react';
 import { ArrowDownLeft, ArrowUpRight, ArrowRightLeft, Trash2, StickyNote } from 'lucide-react';
 import { GlassCard, Badge, ConfirmDialog, DetailDrawer, useToast } from '@/components/ui';
 import { useDeleteTransaction } from '@/lib/hooks/use-portfolio-mutations';
+import { COST_BASIS_METHODS } from '@/lib/portfolio/tax-lots';
 import { formatCurrency, formatDate, cn } from '@/lib/utils/format';
 import type { Transaction, TransactionType } from '@/types/transaction';
 
@@ -184,8 +186,40 @@ export function TransactionsPanel({
                   {formatCurrency(selected.realized_profit_loss, undefined, { sign: true })}
                 </p>
                 {selected.cost_basis_per_unit != null && (
-                  <p className="fig text-[11px] text-ark-text-tertiary">Cost basis {formatCurrency(selected.cost_basis_per_unit)} / unit</p>
+                  <p className="fig text-[11px] text-ark-text-tertiary">
+                    Cost basis {formatCurrency(selected.cost_basis_per_unit)} / unit
+                    {selected.lot_method && ` · ${COST_BASIS_METHODS.find((m) => m.key === selected.lot_method)?.label ?? selected.lot_method}`}
+                  </p>
                 )}
+                {(selected.short_term_gain != null || selected.long_term_gain != null) && (
+                  <div className="mt-2 grid grid-cols-2 gap-3 border-t border-ark-divider/50 pt-2">
+                    {([['Short-term', selected.short_term_gain ?? 0], ['Long-term', selected.long_term_gain ?? 0]] as const).map(([label, v]) => (
+                      <div key={label}>
+                        <p className="text-[10px] text-ark-text-tertiary">{label}</p>
+                        <p className={cn('fig text-sm font-semibold', v >= 0 ? 'text-ark-success' : 'text-ark-error')}>{formatCurrency(v, undefined, { sign: true })}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {selected.type === 'sell' && (selected.lot_allocations?.length ?? 0) > 0 && (
+              <div className="rounded-xl bg-ark-fill-secondary/40 px-3 py-2.5">
+                <p className="text-[10px] font-semibold uppercase tracking-wider text-ark-text-tertiary">Lots relieved</p>
+                <div className="mt-1 divide-y divide-ark-divider/50">
+                  {selected.lot_allocations!.map((a, i) => (
+                    <div key={`${a.lot_id ?? 'none'}-${i}`} className="flex items-center justify-between py-1.5 text-xs">
+                      <span className="text-ark-text-secondary">
+                        {a.acquired_at ? formatDate(a.acquired_at) : 'No lot (zero basis)'}
+                        <span className="ml-1.5 text-[10px] uppercase text-ark-text-disabled">{a.term}</span>
+                      </span>
+                      <span className="fig text-ark-text">
+                        {a.quantity} · <span className={a.proceeds - a.cost_basis >= 0 ? 'text-ark-success' : 'text-ark-error'}>{formatCurrency(a.proceeds - a.cost_basis, undefined, { sign: true })}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
               </div>
             )}
 
@@ -219,7 +253,7 @@ export function TransactionsPanel({
       <ConfirmDialog
         open={deleteTarget !== null}
         title={`Delete this ${deleteTarget ? TYPE_META[deleteTarget.type]?.label.toLowerCase() : 'transaction'}?`}
-        message="This removes the transaction and recalculates your holdings for this asset. This cannot be undone."
+        message="This removes the transaction and recalculates your holdings and tax lots for this asset. This cannot be undone."
         confirmLabel="Delete"
         destructive
         loading={deleteTx.isPending}
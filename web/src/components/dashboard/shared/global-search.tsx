@@ -3,7 +3,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { useRouter } from 'next/navigation';
-import { Search, Home, LineChart, Briefcase, Bell, Radio, Settings, User, CornerDownLeft } from 'lucide-react';
+import { Search, Home, LineChart, Briefcase, Bell, BellRing, FlaskConical, Radio, Settings, User, CornerDownLeft } from 'lucide-react';
 import { useCryptoAssets } from '@/lib/hooks/use-market';
 import { formatCurrency, formatPercent, cn } from '@/lib/utils/format';
 
@@ -12,6 +12,8 @@ const PAGES = [
   { label: 'Market', href: '/dashboard/market', icon: LineChart },
   { label: 'Portfolio', href: '/dashboard/portfolio', icon: Briefcase },
   { label: 'DCA Reminders', href: '/dashboard/dca', icon: Bell },
+  { label: 'Alerts', href: '/dashboard/alerts', icon: BellRing },
+  { label: 'Paper Trading', href: '/dashboard/paper-trading', icon: FlaskConical },
   { label: 'Broadcasts', href: '/dashboard/broadcasts', icon: Radio },
   { label: 'Settings', href: '/dashboard/settings', icon: Settings },
   { label: 'Profile', href: '/dashboard/profile', icon: User },
@@ -3,16 +3,17 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useQuery } from '@tanstack/react-query';
-import { Radio, Repeat, Bell, Check } from 'lucide-react';
+import { Radio, Repeat, Bell, BellRing, Check } from 'lucide-react';
 import { useSignalChanges } from '@/lib/hooks/use-market';
 import { useAuth } from '@/lib/hooks/use-auth';
 import { fetchBroadcasts } from '@/lib/api/broadcasts';
 import { fetchActiveReminders } from '@/lib/api/dca';
+import { useAlertEvents } from '@/lib/hooks/use-alerts';
 import { signalChangeHint, formatRelativeTime, cn } from '@/lib/utils/format';
 
 export interface NotifItem {
   id: string;
-  kind: 'broadcast' | 'signal' | 'dca';
+  kind: 'broadcast' | 'signal' | 'dca' | 'alert';
   title: string;
   subtitle: string;
   time: string; // ISO
@@ -23,6 +24,7 @@ export function useNotifications() {
   const { authUser } = useAuth();
   const { data: broadcasts } = useQuery({ queryKey: ['notif-broadcasts'], queryFn: fetchBroadcasts, staleTime: 120_000 });
   const { data: signals } = useSignalChanges();
+  const { data: alerts } = useAlertEvents();
   const { data: reminders } = useQuery({ queryKey: ['notif-dca', authUser?.id], queryFn: () => fetchActiveReminders(authUser!.id), enabled: !!authUser?.id, staleTime: 120_000 });
 
   const [lastSeen, setLastSeen] = useState<string>('');
@@ -37,6 +39,9 @@ export function useNotifications() {
   for (const s of (signals ?? []).slice(0, 4)) {
     items.push({ id: `s-${s.asset}`, kind: 'signal', title: `${s.asset}: ${s.prev_signal} → ${s.signal}`, subtitle: signalChangeHint(s.prev_signal, s.signal), time: today, href: '/dashboard' });
   }
+  for (const a of (alerts ?? []).slice(0, 5)) {
+    items.push({ id: `a-${a.id}`, kind: 'alert', title: a.title, subtitle: a.body ?? 'Price alert', time: a.created_at, href: '/dashboard/alerts' });
+  }
   const soon = new Date(); soon.setDate(soon.getDate() + 2);
   for (const r of (reminders ?? [])) {
     if (r.next_reminder_date && new Date(r.next_reminder_date) <= soon) {
@@ -51,7 +56,7 @@ export function useNotifications() {
   return { items, unreadCount, markSeen, lastSeen };
 }
 
-const ICONS = { broadcast: Radio, signal: Repeat, dca: Bell };
+const ICONS = { broadcast: Radio, signal: Repeat, dca: Bell, alert: BellRing };
 
 export function NotificationsPanel({ open, onClose, items, lastSeen, onMarkSeen }: { open: boolean; onClose: () => void; items: NotifItem[]; lastSeen: string; onMarkSeen: () => void }) {
   const router = useRouter();
@@ -6,9 +6,15 @@ import {
   Home,
   TrendingUp,
   Briefcase,
+  FlaskConical,
   Bell,
+  BellRing,
+  Beaker,
+  FileCheck,
+  History,
   Radio,
   Settings,
+  SlidersHorizontal,
   User,
   ChevronLeft,
   ChevronRight,
@@ -28,7 +34,16 @@ const mainNav = [
   { label: 'Market', href: '/dashboard/market', icon: TrendingUp },
   { label: 'Portfolio', href: '/dashboard/portfolio', icon: Briefcase },
   { label: 'DCA', href: '/dashboard/dca', icon: Bell },
+  { label: 'Alerts', href: '/dashboard/alerts', icon: BellRing },
+  { label: 'Paper Trading', href: '/dashboard/paper-trading', icon: FlaskConical },
   { label: 'Broadcasts', href: '/dashboard/broadcasts', icon: Radio },
+  { label: 'Briefings', href: '/dashboard/briefings', icon: History },
+];
+
+const adminNav = [
+  { label: 'Adaptive Params', href: '/dashboard/adaptive-params', icon: SlidersHorizontal },
+  { label: 'Strategy Simulator', href: '/dashboard/strategy-simulator', icon: Beaker },
+  { label: 'Briefing Quality', href: '/dashboard/briefing-quality', icon: FileCheck },
 ];
 
 const utilNav = [
@@ -99,6 +114,20 @@ export function Sidebar({ collapsed, onToggle }: SidebarProps) {
           )}
           {utilNav.map(renderNavItem)}
         </div>
+
+        {profile?.role === 'admin' && (
+          <>
+            <div className="my-4 border-t border-ark-divider" />
+            <div className="space-y-1">
+              {!collapsed && (
+                <p className="mb-2 px-3 text-[10px] font-semibold uppercase tracking-wider text-ark-text-tertiary">
+                  Admin
+                </p>
+              )}
+              {adminNav.map(renderNavItem)}
+            </div>
+          </>
+        )}
       </nav>
 
       {/* Bottom */}
@@ -14,7 +14,13 @@ const pageNames: Record<string, string> = {
   '/dashboard/market': 'Market Data',
   '/dashboard/portfolio': 'Portfolio',
   '/dashboard/dca': 'DCA Reminders',
+  '/dashboard/alerts': 'Alerts',
+  '/dashboard/paper-trading': 'Paper Trading',
+  '/dashboard/adaptive-params': 'Adaptive Parameters',
+  '/dashboard/strategy-simulator': 'Strategy Simulator',
+  '/dashboard/briefing-quality': 'Briefing Quality',
   '/dashboard/broadcasts': 'Broadcasts',
+  '/dashboard/briefings': 'Briefing Archive',
   '/dashboard/settings': 'Settings',
   '/dashboard/profile': 'Profile',
 };
@@ -0,0 +1,94 @@
+'use client';
+
+import { useState } from 'react';
+import { Play, RotateCcw } from 'lucide-react';
+import type { SimStrategy, StrategyParams } from '@/lib/api/model-portfolio-simulator';
+
+interface Props {
+  strategy: SimStrategy;
+  defaults: StrategyParams;
+  initial: StrategyParams;        // the parameters of the run on screen
+  running: boolean;
+  onRun: (params: StrategyParams) => void;
+}
+
+const inputCls =
+  'w-20 rounded-lg border border-ark-divider bg-ark-fill-secondary/40 px-2 py-1 text-right text-xs text-ark-text outline-none focus:border-ark-info';
+
+const toPct = (v: number) => Math.round(v * 1000) / 10;
+const fromPct = (raw: string) => {
+  const v = parseFloat(raw);
+  return Number.isFinite(v) ? Math.min(Math.max(v, 0), 100) / 100 : 0;
+};
+
+/**
+ * Editable copy of the strategy parameters, all in percent. Floors and the
+ * blend rate shown are the selected strategy's; caps and the stablecoin APY
+ * are shared by all three.
+ */
+export function ParamsForm({ strategy, defaults, initial, running, onRun }: Props) {
+  const [draft, setDraft] = useState<StrategyParams>(initial);
+  const floors = draft.durableFloors[strategy] ?? {};
+
+  const row = (label: string, value: number, onChange: (v: number) => void, changed: boolean, hint?: string) => (
+    <label key={label} className="flex items-center justify-between gap-3 py-1.5">
+      <span className="min-w-0">
+        <span className={changed ? 'text-xs font-semibold text-ark-primary' : 'text-xs text-ark-text'}>{label}</span>
+        {hint && <span className="block text-[10px] text-ark-text-disabled">{hint}</span>}
+      </span>
+      <span className="flex items-center gap-1">
+        <input type="number" inputMode="decimal" min={0} max={100} step={0.5} value={toPct(value)}
+          onChange={(e) => onChange(fromPct(e.target.value))} className={inputCls} />
+        <span className="text-[10px] text-ark-text-tertiary">%</span>
+      </span>
+    </label>
+  );
+
+  const setFloor = (asset: string, v: number) =>
+    setDraft((d) => ({ ...d, durableFloors: { ...d.durableFloors, [strategy]: { ...d.durableFloors[strategy], [asset]: v } } }));
+  const setCap = (asset: string, v: number) => setDraft((d) => ({ ...d, maxExposure: { ...d.maxExposure, [asset]: v } }));
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="mb-1 text-[10px] font-semibold uppercase tracking-wider text-ark-text-tertiary">Durable floors</p>
+        <div className="divide-y divide-ark-divider/50">
+          {Object.entries(floors).map(([asset, v]) =>
+            row(asset, v, (n) => setFloor(asset, n), v !== (defaults.durableFloors[strategy]?.[asset] ?? 0)))}
+        </div>
+      </div>
+
+      <div>
+        <p className="mb-1 text-[10px] font-semibold uppercase tracking-wider text-ark-text-tertiary">Sizing</p>
+        <div className="divide-y divide-ark-divider/50">
+          {strategy !== 'core' && row('Blend rate', draft.blendRates[strategy],
+            (n) => setDraft((d) => ({ ...d, blendRates: { ...d.blendRates, [strategy]: n } })),
+            draft.blendRates[strategy] !== defaults.blendRates[strategy], 'Share of the gap to target closed per day')}
+          {row('Stablecoin APY', draft.stablecoinApy, (n) => setDraft((d) => ({ ...d, stablecoinApy: n })),
+            draft.stablecoinApy !== defaults.stablecoinApy)}
+          {row('Default cap', draft.defaultMaxExposure, (n) => setDraft((d) => ({ ...d, defaultMaxExposure: n })),
+            draft.defaultMaxExposure !== defaults.defaultMaxExposure, 'Alts without their own cap')}
+        </div>
+      </div>
+
+      <div>
+        <p className="mb-1 text-[10px] font-semibold uppercase tracking-wider text-ark-text-tertiary">Exposure caps</p>
+        <div className="grid grid-cols-2 gap-x-4 divide-ark-divider/50">
+          {Object.entries(draft.maxExposure).map(([asset, v]) =>
+            row(asset, v, (n) => setCap(asset, n), v !== (defaults.maxExposure[asset] ?? defaults.defaultMaxExposure)))}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={() => onRun(draft)} disabled={running}
+          className="flex flex-1 items-center justify-center gap-1.5 rounded-lg bg-ark-primary px-3 py-2 text-sm font-semibold text-white disabled:opacity-50">
+          <Play className="h-3.5 w-3.5" /> {running ? 'Running…' : 'Run simulation'}
+        </button>
+        <button onClick={() => setDraft(defaults)} title="Reset to live parameters"
+          className="flex items-center gap-1.5 rounded-lg px-3 py-2 text-xs font-medium text-ark-text-secondary hover:bg-ark-fill-secondary">
+          <RotateCcw className="h-3.5 w-3.5" /> Live
+        </button>
+      </div>
+    </div>
+  );
+}
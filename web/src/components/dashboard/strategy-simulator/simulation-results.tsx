@@ -0,0 +1,147 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Area, AreaChart, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { GlassCard } from '@/components/ui';
+import { allocationSeries, comparisonSeries, navStats, paramChanges } from '@/lib/model-portfolios/simulator';
+import { formatCurrency } from '@/lib/utils/format';
+import type { StrategySimulation } from '@/lib/api/model-portfolio-simulator';
+
+const ALLOC_COLORS = ['var(--ark-primary)', '#8B5CF6', '#06B6D4', '#F59E0B', '#EC4899', '#22C55E', 'var(--ark-text-disabled)'];
+
+const tooltipStyle = { background: 'var(--ark-card)', border: '1px solid var(--ark-divider)', borderRadius: 8, fontSize: 12 };
+const SERIES_LABELS: Record<string, string> = {
+  variant: 'What-if',
+  baseline: 'Live rules',
+  live: 'Recorded',
+  variantDrawdown: 'What-if',
+  baselineDrawdown: 'Live rules',
+};
+
+const money = (v: number | null | undefined) => (v == null ? '—' : formatCurrency(v, 'USD', { decimals: 0 }));
+const pct = (v: number | null | undefined, signed = true) =>
+  v == null ? '—' : `${signed && v >= 0 ? '+' : ''}${(v * 100).toFixed(1)}%`;
+
+/** NAV, drawdown and allocation history of a what-if run beside the live rules and the recorded NAV. */
+export function SimulationResults({ sim }: { sim: StrategySimulation }) {
+  const series = useMemo(() => comparisonSeries(sim), [sim]);
+  const alloc = useMemo(() => allocationSeries(sim.variant), [sim]);
+  const changes = paramChanges(sim.defaults, sim.params, sim.strategy);
+  const recorded = navStats(sim.live);
+  const v = sim.variant.summary;
+  const b = sim.baseline.summary;
+
+  const rows: { label: string; variant: string; baseline: string; live: string }[] = [
+    { label: 'Total return', variant: pct(v.totalReturn), baseline: pct(b.totalReturn), live: pct(recorded?.totalReturn) },
+    { label: 'CAGR', variant: pct(v.cagr), baseline: pct(b.cagr), live: '—' },
+    { label: 'Max drawdown', variant: pct(v.maxDrawdown), baseline: pct(b.maxDrawdown), live: pct(recorded?.maxDrawdown) },
+    { label: 'End NAV', variant: money(v.endNav), baseline: money(b.endNav), live: '—' },
+    { label: 'Rebalances', variant: String(v.rebalances), baseline: String(b.rebalances), live: '—' },
+    { label: 'Turnover / yr', variant: pct(v.annualTurnover, false), baseline: pct(b.annualTurnover, false), live: '—' },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <GlassCard>
+        <p className="text-xs text-ark-text-secondary">
+          {changes.length === 0 ? 'Live parameters — the what-if run matches the live rules.' : (
+            <>
+              Changed from live:{' '}
+              {changes.map((c, i) => (
+                <span key={c.label}>
+                  {i > 0 && ', '}
+                  <span className="font-semibold text-ark-text">{c.label}</span> {pct(c.from, false)} → {pct(c.to, false)}
+                </span>
+              ))}
+            </>
+          )}
+        </p>
+
+        <table className="mt-3 w-full text-xs">
+          <thead>
+            <tr className="text-[10px] uppercase tracking-wider text-ark-text-tertiary">
+              <th className="py-1 text-left font-medium" />
+              <th className="py-1 text-right font-medium text-ark-primary">What-if</th>
+              <th className="py-1 text-right font-medium">Live rules</th>
+              <th className="py-1 text-right font-medium">Recorded</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-ark-divider">
+            {rows.map((r) => (
+              <tr key={r.label}>
+                <td className="py-1.5 text-ark-text-secondary">{r.label}</td>
+                <td className="fig py-1.5 text-right font-semibold text-ark-text">{r.variant}</td>
+                <td className="fig py-1.5 text-right text-ark-text">{r.baseline}</td>
+                <td className="fig py-1.5 text-right text-ark-text-secondary">{r.live}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </GlassCard>
+
+      <GlassCard>
+        <p className="mb-2 text-xs font-semibold text-ark-text-secondary">NAV</p>
+        <div className="h-56 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={series} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+              <XAxis dataKey="date" hide />
+              <YAxis hide domain={['auto', 'auto']} />
+              <Tooltip contentStyle={tooltipStyle} formatter={(val, name) => [money(Number(val)), SERIES_LABELS[String(name)]]} />
+              <Line type="monotone" dataKey="baseline" stroke="var(--ark-text-tertiary)" strokeWidth={1.5} strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+              <Line type="monotone" dataKey="live" stroke="var(--ark-info)" strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+              <Line type="monotone" dataKey="variant" stroke="var(--ark-primary)" strokeWidth={2.5} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <p className="mt-2 text-[10px] text-ark-text-disabled">
+          Dashed: live rules replayed on the same days. Blue: the NAV the live portfolio recorded, rebased to the run&apos;s start.
+        </p>
+      </GlassCard>
+
+      <GlassCard>
+        <p className="mb-2 text-xs font-semibold text-ark-text-secondary">Drawdown</p>
+        <div className="h-32 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={series} margin={{ top: 4, right: 8, bottom: 0, left: 0 }}>
+              <XAxis dataKey="date" hide />
+              <YAxis hide domain={['auto', 0]} />
+              <Tooltip contentStyle={tooltipStyle} formatter={(val, name) => [`${Number(val).toFixed(1)}%`, SERIES_LABELS[String(name)]]} />
+              <Area type="monotone" dataKey="baselineDrawdown" stroke="var(--ark-text-tertiary)" fill="none" strokeDasharray="4 3" isAnimationActive={false} />
+              <Area type="monotone" dataKey="variantDrawdown" stroke="var(--ark-error)" fill="var(--ark-error)" fillOpacity={0.15} isAnimationActive={false} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </GlassCard>
+
+      <GlassCard>
+        <p className="mb-2 text-xs font-semibold text-ark-text-secondary">What-if allocation</p>
+        <div className="h-44 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={alloc.rows} margin={{ top: 4, right: 8, bottom: 0, left: 0 }}>
+              <XAxis dataKey="date" hide />
+              <YAxis hide domain={[0, 100]} />
+              <Tooltip contentStyle={tooltipStyle} formatter={(val, name) => [`${Number(val).toFixed(1)}%`, String(name)]} />
+              {alloc.assets.map((asset, i) => (
+                <Area key={asset} type="stepAfter" dataKey={asset} stackId="alloc" stroke="none"
+                  fill={ALLOC_COLORS[i % ALLOC_COLORS.length]} fillOpacity={0.8} isAnimationActive={false} />
+              ))}
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1">
+          {alloc.assets.map((asset, i) => (
+            <span key={asset} className="flex items-center gap-1 text-[10px] text-ark-text-secondary">
+              <span className="h-1.5 w-1.5 rounded-full" style={{ background: ALLOC_COLORS[i % ALLOC_COLORS.length] }} />
+              {asset} {asset !== 'Other' && <span className="fig text-ark-text-tertiary">{pct(v.avgExposure[asset], false)} avg</span>}
+            </span>
+          ))}
+        </div>
+      </GlassCard>
+
+      <p className="text-[10px] text-ark-text-disabled">
+        {sim.coverage.days} signal days from {sim.from} to {sim.to}; BTC risk recorded on {sim.coverage.riskDays} of them (Neutral before the first reading).
+        Trades at the daily close with no fees or slippage; PAXG follows the gold close.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { formatCurrency } from '@/lib/utils/format';
+import type { AlertKind, AlertRiskBand, AlertRule } from '@/types';
+
+/** Rule kinds the alerts page offers; `asset` / `threshold` say which inputs apply. */
+export const ALERT_KINDS: { key: AlertKind; label: string; hint: string; asset: boolean; threshold: 'price' | 'percent' | 'score' | null }[] = [
+  { key: 'price_cross', label: 'Price crosses', hint: 'Price moves above or below a level', asset: true, threshold: 'price' },
+  { key: 'change_24h', label: '24h move', hint: '24-hour change exceeds a percentage', asset: true, threshold: 'percent' },
+  { key: 'risk_band', label: 'Risk band', hint: 'Regression risk enters a band', asset: true, threshold: null },
+  { key: 'arkline_score', label: 'ArkLine Score', hint: 'Composite score crosses a threshold', asset: false, threshold: 'score' },
+  { key: 'qps_flip', label: 'QPS flip', hint: 'Positioning signal changes', asset: true, threshold: null },
+];
+
+/** Mirrors RISK_BANDS in lib/risk/multi-factor and the evaluator's copy in _shared/alerts. */
+export const ALERT_RISK_BANDS: { key: AlertRiskBand; label: string }[] = [
+  { key: 'very_low', label: 'Very Low Risk (< 0.20)' },
+  { key: 'low', label: 'Low Risk (0.20 – 0.40)' },
+  { key: 'neutral', label: 'Neutral (0.40 – 0.55)' },
+  { key: 'elevated', label: 'Elevated Risk (0.55 – 0.70)' },
+  { key: 'high', label: 'High Risk (0.70 – 0.90)' },
+  { key: 'extreme', label: 'Extreme Risk (≥ 0.90)' },
+];
+
+export const ALERT_COOLDOWNS = [
+  { minutes: 15, label: '15 min' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 240, label: '4 hours' },
+  { minutes: 1440, label: '1 day' },
+];
+
+/** One-line summary, e.g. "BTC above $100,000". */
+export function describeAlertRule(rule: Pick<AlertRule, 'kind' | 'asset' | 'direction' | 'threshold' | 'band'>): string {
+  const asset = rule.asset?.toUpperCase() ?? '';
+  const t = rule.threshold ?? 0;
+  const dir = rule.direction === 'below' ? 'below' : 'above';
+  switch (rule.kind) {
+    case 'price_cross': return `${asset} ${dir} ${formatCurrency(t)}`;
+    case 'change_24h':
+      return rule.direction === 'either' ? `${asset} moves ±${t}% in 24h`
+        : `${asset} ${rule.direction === 'below' ? 'down' : 'up'} ${t}% in 24h`;
+    case 'risk_band': return `${asset} risk enters ${ALERT_RISK_BANDS.find((b) => b.key === rule.band)?.label.replace(/ \(.*\)$/, '') ?? rule.band}`;
+    case 'arkline_score': return `ArkLine Score ${dir} ${t}`;
+    case 'qps_flip': return `${asset} QPS signal flips`;
+  }
+}
@@ -0,0 +1,65 @@
+import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
+
+/**
+ * Versioned adaptive parameters for the signal pipeline (`adaptive_param_versions`).
+ * compute-signal-analytics appends a version nightly; fibonacci-pipeline applies
+ * the pinned version, else the newest. Admin-only — RLS and the RPCs check `is_admin()`.
+ */
+
+export interface AdaptiveParams {
+  paused_assets: string[];
+  direction_bonus: Record<string, { long: number; short: number }>;
+  min_rr: number;
+  min_score: number;
+  state: string;
+  state_label: string;
+  reasons?: string[];
+}
+
+export interface AdaptiveInputStats {
+  signal_count: number;
+  win_rate: number;
+  profit_factor: number;
+  avg_pnl: number;
+}
+
+export interface AdaptiveParamVersion {
+  version: number;
+  params: AdaptiveParams;
+  inputs: {
+    signal_count: number;
+    system: { rolling_30d: AdaptiveInputStats; all_time: AdaptiveInputStats };
+    assets: Record<string, { rolling_30d: AdaptiveInputStats; all_time: AdaptiveInputStats }>;
+  } | null;
+  source: 'computed' | 'rollback';
+  rolled_back_from: number | null;
+  is_pinned: boolean;
+  pinned_at: string | null;
+  created_at: string;
+}
+
+export async function fetchAdaptiveParamVersions(limit = 60): Promise<AdaptiveParamVersion[]> {
+  if (!isSupabaseConfigured()) return [];
+  const { data, error } = await createClient()
+    .from('adaptive_param_versions')
+    .select('version, params, inputs, source, rolled_back_from, is_pinned, pinned_at, created_at')
+    .order('version', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data ?? []) as AdaptiveParamVersion[];
+}
+
+/** Pin a version so nightly runs stop replacing it; `null` unpins. */
+export async function pinAdaptiveParams(version: number | null): Promise<void> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  const { error } = await createClient().rpc('pin_adaptive_params', { target: version });
+  if (error) throw error;
+}
+
+/** Re-issue an earlier version's params as a new version. Returns the new version number. */
+export async function rollbackAdaptiveParams(version: number): Promise<number> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  const { data, error } = await createClient().rpc('rollback_adaptive_params', { target: version });
+  if (error) throw error;
+  return data as number;
+}
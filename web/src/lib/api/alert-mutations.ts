@@ -0,0 +1,50 @@
+import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
+import type { AlertDirection, AlertKind, AlertRiskBand } from '@/types';
+
+function getSupabase() {
+  return createClient();
+}
+
+export interface AlertRuleInput {
+  kind: AlertKind;
+  asset: string | null;
+  direction: AlertDirection | null;
+  threshold: number | null;
+  band: AlertRiskBand | null;
+  cooldown_minutes: number;
+}
+
+// Editing the condition resets crossing state so the evaluator re-baselines
+// instead of comparing the new condition against the old one's history.
+const FRESH_STATE = { last_value: null, last_state: null };
+
+export async function createAlertRule(userId: string, input: AlertRuleInput): Promise<void> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  const { error } = await getSupabase().from('alert_rules').insert({
+    user_id: userId,
+    ...input,
+    asset: input.asset?.trim().toUpperCase() || null,
+    is_active: true,
+  });
+  if (error) throw error;
+}
+
+export async function updateAlertRule(id: string, patch: Partial<AlertRuleInput> & { is_active?: boolean }): Promise<void> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  const conditionChanged = Object.keys(patch).some((k) => k !== 'is_active' && k !== 'cooldown_minutes');
+  const { error } = await getSupabase()
+    .from('alert_rules')
+    .update({
+      ...patch,
+      ...(patch.asset !== undefined && { asset: patch.asset?.trim().toUpperCase() || null }),
+      ...(conditionChanged && FRESH_STATE),
+    })
+    .eq('id', id);
+  if (error) throw error;
+}
+
+export async function deleteAlertRule(id: string): Promise<void> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  const { error } = await getSupabase().from('alert_rules').delete().eq('id', id);
+  if (error) throw error;
+}
@@ -0,0 +1,30 @@
+import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
+import type { AlertEvent, AlertRule } from '@/types';
+
+function getSupabase() {
+  return createClient();
+}
+
+export async function fetchAlertRules(userId: string): Promise<AlertRule[]> {
+  if (!isSupabaseConfigured()) return [];
+  const { data, error } = await getSupabase()
+    .from('alert_rules')
+    .select('id, user_id, kind, asset, direction, threshold, band, cooldown_minutes, is_active, last_value, last_evaluated_at, last_triggered_at, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return ((data ?? []) as AlertRule[]).map((r) => ({ ...r, threshold: r.threshold != null ? Number(r.threshold) : null }));
+}
+
+/** Recent deliveries, newest first. */
+export async function fetchAlertEvents(userId: string, limit = 30): Promise<AlertEvent[]> {
+  if (!isSupabaseConfigured()) return [];
+  const { data, error } = await getSupabase()
+    .from('alert_events')
+    .select('id, rule_id, title, body, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data ?? []) as AlertEvent[];
+}
@@ -0,0 +1,107 @@
+import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
+import { cleanBriefing } from '@/lib/api/macro';
+
+/**
+ * The briefing archive: every morning, evening and weekend briefing in
+ * market_summaries (rejected ones excluded), browsed by date or searched
+ * through the search_market_summaries RPC, with the ArkLine Score and BTC
+ * price of each briefing's date for the timeline.
+ */
+
+export type BriefingSlot = 'morning' | 'evening' | 'weekend';
+
+export const BRIEFING_SEARCH_LIMIT = 50;
+
+export interface ArchivedBriefing {
+  id: string;
+  summary_date: string;
+  slot: BriefingSlot;
+  summary: string;
+  generated_at: string;
+}
+
+export interface BriefingSearchHit {
+  id: string;
+  summary_date: string;
+  slot: BriefingSlot;
+  generated_at: string;
+  rank: number;
+  excerpt: string;          // matches wrapped in <mark></mark>
+}
+
+/** Daily market readings for the timeline, oldest first. */
+export interface BriefingMarketData {
+  scores: { date: string; score: number; btcPrice: number | null }[];   // risk_snapshots
+  btc: { date: string; price: number }[];                                 // model_portfolio_risk_history
+}
+
+/** Briefings dated `from`..`to` inclusive, newest first, later slots first within a day. */
+export async function fetchBriefingArchive(from: string, to: string, slot: BriefingSlot | null = null): Promise<ArchivedBriefing[]> {
+  if (!isSupabaseConfigured()) return [];
+  let query = createClient()
+    .from('market_summaries')
+    .select('id, summary_date, slot, summary, generated_at')
+    .gte('summary_date', from)
+    .lte('summary_date', to)
+    .neq('review_status', 'rejected');
+  if (slot) query = query.eq('slot', slot);
+  const { data, error } = await query
+    .order('summary_date', { ascending: false })
+    .order('generated_at', { ascending: false });
+  if (error) throw error;
+  return ((data ?? []) as ArchivedBriefing[]).map((r) => ({ ...r, summary: cleanBriefing(r.summary ?? '') }));
+}
+
+/** Full-text search across all briefings (web search syntax), newest first. */
+export async function searchBriefings(q: string, slot: BriefingSlot | null = null, limit = BRIEFING_SEARCH_LIMIT): Promise<BriefingSearchHit[]> {
+  if (!isSupabaseConfigured() || !q.trim()) return [];
+  const { data, error } = await createClient().rpc('search_market_summaries', {
+    q: q.trim(),
+    slot_filter: slot,
+    max_rows: limit,
+  });
+  if (error) throw error;
+  return ((data ?? []) as BriefingSearchHit[]).map((r) => ({
+    ...r,
+    rank: Number(r.rank),
+    excerpt: cleanBriefing(r.excerpt ?? '').replace(/#{2,}\s*/g, ''),
+  }));
+}
+
+/**
+ * ArkLine Score and BTC closes for `from`..`to`. The BTC series is read a
+ * month past `to` so the timeline can show how price moved after a briefing.
+ */
+export async function fetchBriefingMarketData(from: string, to: string, forwardDays = 30): Promise<BriefingMarketData> {
+  if (!isSupabaseConfigured()) return { scores: [], btc: [] };
+  const supabase = createClient();
+  const until = new Date(`${to}T00:00:00Z`);
+  until.setUTCDate(until.getUTCDate() + forwardDays);
+  const [scores, btc] = await Promise.all([
+    supabase
+      .from('risk_snapshots')
+      .select('recorded_date, composite_score, btc_price')
+      .gte('recorded_date', from)
+      .lte('recorded_date', to)
+      .order('recorded_date', { ascending: true }),
+    supabase
+      .from('model_portfolio_risk_history')
+      .select('risk_date, price')
+      .eq('asset', 'BTC')
+      .gte('risk_date', from)
+      .lte('risk_date', until.toISOString().slice(0, 10))
+      .order('risk_date', { ascending: true }),
+  ]);
+  if (scores.error) throw scores.error;
+  if (btc.error) throw btc.error;
+  return {
+    scores: ((scores.data ?? []) as { recorded_date: string; composite_score: number; btc_price: number | null }[]).map((r) => ({
+      date: r.recorded_date,
+      score: Number(r.composite_score),
+      btcPrice: r.btc_price != null ? Number(r.btc_price) : null,
+    })),
+    btc: ((btc.data ?? []) as { risk_date: string; price: number | null }[])
+      .filter((r) => r.price != null)
+      .map((r) => ({ date: r.risk_date, price: Number(r.price) })),
+  };
+}
@@ -0,0 +1,66 @@
+import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
+
+/**
+ * Fact-check results for the generated briefings. market-summary checks the
+ * figures in each new briefing against the payload it was written from
+ * (supabase/functions/_shared/briefing_factcheck.ts), regenerates once if
+ * any are off, and sends what is still flagged to admin review. Rejecting a
+ * briefing stops it being served; if it is today's, the next request for its
+ * slot rewrites it.
+ */
+
+export type ReviewStatus = 'unchecked' | 'passed' | 'needs_review' | 'approved' | 'rejected';
+export type FlagIssue = 'mismatch' | 'stale' | 'wrong_direction' | 'no_source';
+
+export interface FactFlag {
+  metric: string;
+  kind: 'level' | 'change';
+  cited: number;
+  expected: number | null;
+  issue: FlagIssue;
+  snippet: string;
+}
+
+export interface BriefingFactCheck {
+  figures: number;
+  checked: number;
+  verified: number;
+  accuracy: number | null;
+  flags: FactFlag[];
+  regenerated: boolean;
+}
+
+export interface BriefingQualityRow {
+  id: string;
+  summary_date: string;
+  slot: string;
+  summary: string;
+  review_status: ReviewStatus;
+  fact_accuracy: number | null;
+  fact_check: BriefingFactCheck | null;
+  generated_at: string;
+  reviewed_at: string | null;
+}
+
+/** Briefings of the last `days` days, newest first. */
+export async function fetchBriefingQuality(days = 90): Promise<BriefingQualityRow[]> {
+  if (!isSupabaseConfigured()) return [];
+  const since = new Date(Date.now() - days * 86_400_000).toISOString().slice(0, 10);
+  const { data, error } = await createClient()
+    .from('market_summaries')
+    .select('id, summary_date, slot, summary, review_status, fact_accuracy, fact_check, generated_at, reviewed_at')
+    .gte('summary_date', since)
+    .order('summary_date', { ascending: false })
+    .order('generated_at', { ascending: false });
+  if (error) throw error;
+  return ((data ?? []) as BriefingQualityRow[]).map((r) => ({
+    ...r,
+    fact_accuracy: r.fact_accuracy != null ? Number(r.fact_accuracy) : null,
+  }));
+}
+
+export async function reviewBriefing(id: string, verdict: 'approved' | 'rejected'): Promise<void> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  const { error } = await createClient().rpc('review_market_summary', { target: id, verdict });
+  if (error) throw error;
+}
@@ -1,23 +1,12 @@
 import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
-import type { DCAReminder } from '@/types';
+import { advance, slotFor } from '@/lib/dca/analytics';
+import { deleteTransaction, recordTransaction } from '@/lib/api/portfolio-mutations';
+import type { DCAReminder, DCARiskMultipliers, DCAStrategy } from '@/types';
 
 function getSupabase() {
   return createClient();
 }
 
-function advance(fromISO: string, freq: string): string {
-  const d = new Date(fromISO + (fromISO.length <= 10 ? 'T12:00:00' : ''));
-  switch (freq) {
-    case 'daily': d.setDate(d.getDate() + 1); break;
-    case 'twice_weekly': d.setDate(d.getDate() + 3); break;
-    case 'weekly': d.setDate(d.getDate() + 7); break;
-    case 'biweekly': d.setDate(d.getDate() + 14); break;
-    case 'monthly': d.setMonth(d.getMonth() + 1); break;
-    default: d.setDate(d.getDate() + 7);
-  }
-  return d.toISOString().split('T')[0];
-}
-
 export interface DCAReminderInput {
   symbol: string;
   name: string;
@@ -27,6 +16,9 @@ export interface DCAReminderInput {
   start_date: string;        // YYYY-MM-DD
   /** Optional plan length — total number of purchases (wizard "duration"). */
   total_purchases?: number;
+  /** risk_adjusted treats amount as the base buy, scaled per risk band. */
+  strategy?: DCAStrategy;
+  risk_multipliers?: DCARiskMultipliers | null;
 }
 
 export async function createReminder(userId: string, input: DCAReminderInput): Promise<void> {
@@ -44,6 +36,8 @@ export async function createReminder(userId: string, input: DCAReminderInput): P
     is_active: true,
     completed_purchases: 0,
     total_purchases: input.total_purchases ?? null,
+    strategy: input.strategy ?? 'fixed',
+    risk_multipliers: input.risk_multipliers ?? null,
   });
   if (error) throw error;
 }
@@ -59,6 +53,8 @@ export async function updateReminder(id: string, patch: Partial<DCAReminderInput
   if (patch.notification_time != null) body.notification_time = patch.notification_time.length === 5 ? `${patch.notification_time}:00` : patch.notification_time;
   if (patch.start_date != null) body.start_date = patch.start_date;
   if (patch.is_active != null) body.is_active = patch.is_active;
+  if (patch.strategy != null) body.strategy = patch.strategy;
+  if (patch.risk_multipliers !== undefined) body.risk_multipliers = patch.risk_multipliers;
   const { error } = await supabase.from('dca_reminders').update(body).eq('id', id);
   if (error) throw error;
 }
@@ -70,14 +66,76 @@ export async function deleteReminder(id: string): Promise<void> {
   if (error) throw error;
 }
 
-// Marks one scheduled buy as done: bumps the purchase count and rolls the next date forward.
-export async function logInvestment(reminder: DCAReminder): Promise<void> {
+export interface DCAPurchaseInput {
+  amount: number;        // USD spent
+  price: number;         // per unit
+  date?: string;         // ISO, defaults to now
+  /** Also record the buy in this portfolio, linked to the purchase. */
+  portfolioId?: string;
+}
+
+/** The portfolio's asset type for a symbol — web DCA plans are crypto unless the portfolio already holds it as something else. */
+async function heldAssetType(supabase: ReturnType<typeof getSupabase>, portfolioId: string, symbol: string): Promise<string> {
+  const { data } = await supabase
+    .from('holdings')
+    .select('asset_type')
+    .eq('portfolio_id', portfolioId)
+    .eq('symbol', symbol.toUpperCase())
+    .limit(1);
+  return (data?.[0]?.asset_type as string | undefined) ?? 'crypto';
+}
+
+/**
+ * Logs one scheduled buy: stores the purchase against the schedule slot its
+ * date falls in, optionally records it as a portfolio buy (recordTransaction,
+ * so lots and holdings rebuild as for any buy), then bumps the purchase count
+ * and moves the next date to the slot after it — past any buys skipped in
+ * between. The transaction is written first so a rejected buy leaves the plan
+ * untouched, and deleted again if the purchase cannot be stored, so a retry
+ * does not buy twice.
+ */
+export async function logInvestment(reminder: DCAReminder, purchase: DCAPurchaseInput): Promise<void> {
   if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  if (!(purchase.amount > 0)) throw new Error('Enter a valid amount.');
+  if (!(purchase.price > 0)) throw new Error('Enter a valid price.');
   const supabase = getSupabase();
-  const base = reminder.next_reminder_date ?? new Date().toISOString().split('T')[0];
+  const date = purchase.date ?? new Date().toISOString();
+  const quantity = purchase.amount / purchase.price;
+  const slot = slotFor(reminder, date.slice(0, 10));
+
+  const transactionId = purchase.portfolioId
+    ? await recordTransaction({
+        portfolioId: purchase.portfolioId,
+        type: 'buy',
+        asset_type: await heldAssetType(supabase, purchase.portfolioId, reminder.symbol),
+        symbol: reminder.symbol,
+        name: reminder.name,
+        quantity,
+        price_per_unit: purchase.price,
+        date,
+        notes: `DCA: ${reminder.name}`,
+      })
+    : null;
+
+  const { error: invErr } = await supabase.from('dca_investments').insert({
+    reminder_id: reminder.id,
+    amount: purchase.amount,
+    price_at_purchase: purchase.price,
+    quantity,
+    purchase_date: date,
+    scheduled_date: slot,
+    transaction_id: transactionId,
+  });
+  if (invErr) {
+    if (transactionId) await deleteTransaction(purchase.portfolioId!, transactionId, reminder.symbol);
+    throw invErr;
+  }
+
+  // Never move the next date backwards for a backdated buy
+  const next = advance(slot, reminder.frequency);
   const { error } = await supabase.from('dca_reminders').update({
     completed_purchases: (reminder.completed_purchases ?? 0) + 1,
-    next_reminder_date: advance(base, reminder.frequency),
+    next_reminder_date: reminder.next_reminder_date && reminder.next_reminder_date > next ? reminder.next_reminder_date : next,
     updated_at: new Date().toISOString(),
   }).eq('id', reminder.id);
   if (error) throw error;
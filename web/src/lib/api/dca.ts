@@ -1,6 +1,6 @@
 import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
 import { demoReminders } from '@/lib/demo-data';
-import type { DCAReminder } from '@/types';
+import type { DCAInvestment, DCAReminder } from '@/types';
 
 function getSupabase() {
   return createClient();
@@ -30,3 +30,22 @@ export async function fetchActiveReminders(userId: string): Promise<DCAReminder[
   if (error) throw error;
   return data ?? [];
 }
+
+/** Logged purchases for the given reminders, oldest first. */
+export async function fetchDCAInvestments(reminderIds: string[]): Promise<DCAInvestment[]> {
+  if (!isSupabaseConfigured() || !reminderIds.length) return [];
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('dca_investments')
+    .select('id, reminder_id, amount, price_at_purchase, quantity, purchase_date, scheduled_date, transaction_id')
+    .in('reminder_id', reminderIds)
+    .order('purchase_date', { ascending: true })
+    .limit(5000);
+  if (error) throw error;
+  return ((data ?? []) as DCAInvestment[]).map((i) => ({
+    ...i,
+    amount: Number(i.amount),
+    price_at_purchase: Number(i.price_at_purchase),
+    quantity: Number(i.quantity),
+  }));
+}
@@ -0,0 +1,52 @@
+import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
+import { deckFileName, type DeckExportFormat } from '@/lib/deck-export/render';
+
+/**
+ * PDF and PPTX renderings of the Weekly Update deck. Admins render them via
+ * the /api/deck-export route; everyone with access to the deck downloads the
+ * stored files from the private deck-exports bucket through signed URLs.
+ */
+
+export interface DeckExport {
+  deck_id: string;
+  format: DeckExportFormat;
+  path: string;
+  bytes: number;
+  slide_count: number;
+  rendered_at: string;
+}
+
+export async function fetchDeckExports(deckId: string): Promise<DeckExport[]> {
+  if (!isSupabaseConfigured()) return [];
+  const { data, error } = await createClient()
+    .from('market_deck_exports')
+    .select('deck_id, format, path, bytes, slide_count, rendered_at')
+    .eq('deck_id', deckId);
+  if (error) throw error;
+  return (data as DeckExport[] | null) ?? [];
+}
+
+/** Short-lived URL that downloads the file under a readable name. */
+export async function deckExportDownloadUrl(exp: DeckExport, weekStart: string): Promise<string> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  const { data, error } = await createClient()
+    .storage.from('deck-exports')
+    .createSignedUrl(exp.path, 300, { download: deckFileName(weekStart, exp.format) });
+  if (error) throw error;
+  return data.signedUrl as string;
+}
+
+/** Render (or re-render) both files for a deck. Admin only. */
+export async function renderDeckExports(deckId: string): Promise<DeckExport[]> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  const { data: { session } } = await createClient().auth.getSession();
+  if (!session) throw new Error('Sign in required.');
+  const res = await fetch('/api/deck-export', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session.access_token}` },
+    body: JSON.stringify({ deckId }),
+  });
+  const body = await res.json().catch(() => ({})) as { exports?: DeckExport[]; error?: string };
+  if (!res.ok) throw new Error(body.error ?? `Export failed (${res.status})`);
+  return body.exports ?? [];
+}
@@ -7,6 +7,8 @@ import {
   demoSupplyInProfit,
   demoAssetRiskLevels,
 } from '@/lib/demo-data';
+import { riskBand } from '@/lib/portfolio/risk-score';
+import type { SeriesPoint } from '@/lib/portfolio/benchmark';
 import type {
   MacroIndicator,
   RiskHistoryPoint,
@@ -21,7 +23,6 @@ import type {
   MarketBreadthDetailData,
   MarketBreadthPoint,
   FearGreedDetailData,
-  RiskBand,
   RiskLevelItem,
   SupplyInProfitData,
   SupplyInProfitStatus,
@@ -127,10 +128,11 @@ export async function fetchRiskHistory(days = 365): Promise<RiskHistoryPoint[]>
 }
 
 /* ── AI daily briefing ──
- * Real source: market_summaries (latest by generated_at). We lightly strip
- * markdown header markers so the plain-text card reads cleanly.
+ * Real source: market_summaries (latest by generated_at, skipping any an admin
+ * rejected in fact-check review). We lightly strip markdown header markers so
+ * the plain-text card reads cleanly.
  */
-function cleanBriefing(md: string): string {
+export function cleanBriefing(md: string): string {
   // Keep the "## Section" headers so the UI can render labeled sections like the
   // iOS app; just strip inline bold/code markers.
   return md
@@ -146,6 +148,7 @@ export async function fetchMarketBriefing(): Promise<string | null> {
   const { data, error } = await supabase
     .from('market_summaries')
     .select('summary, generated_at')
+    .neq('review_status', 'rejected')
     .order('generated_at', { ascending: false })
     .limit(1);
 
@@ -270,24 +273,26 @@ export async function fetchArkLineScoreHistory(): Promise<ArkLineScoreHistoryPoi
 }
 
 /* ── Per-asset risk history ── (model_portfolio_risk_history; powers the
- * Crypto Risk Levels detail period selector: 7D/30D/90D/1Y/ALL). */
+ * Crypto Risk Levels detail period selector: 7D/30D/90D/1Y/ALL, and the
+ * risk-adjusted DCA backtest, which prices its buys off the same rows). */
 export async function fetchAssetRiskHistory(
   asset: string,
   days: number,
-): Promise<{ date: string; risk_level: number }[]> {
+): Promise<{ date: string; risk_level: number; price: number }[]> {
   if (!isSupabaseConfigured()) return [];
   const supabase = getSupabase();
   const { data, error } = await supabase
     .from('model_portfolio_risk_history')
-    .select('risk_date, risk_level')
+    .select('risk_date, risk_level, price')
     .eq('asset', asset)
     .gte('risk_date', daysAgoISO(days))
     .order('risk_date', { ascending: true })
     .limit(1000);
   if (error || !data) return [];
-  return (data as { risk_date: string; risk_level: number }[]).map((r) => ({
+  return (data as { risk_date: string; risk_level: number; price: number }[]).map((r) => ({
     date: r.risk_date,
     risk_level: Number(r.risk_level),
+    price: Number(r.price),
   }));
 }
 
@@ -420,14 +425,6 @@ const RISK_ASSET_NAMES: Record<string, string> = {
   tsla: 'Tesla', tsm: 'TSMC', uber: 'Uber', wulf: 'TeraWulf',
 };
 
-function riskBand(v: number): RiskBand {
-  if (v < 0.20) return 'Very Low';
-  if (v < 0.40) return 'Low';
-  if (v < 0.55) return 'Neutral';
-  if (v < 0.70) return 'Elevated';
-  return 'High';
-}
-
 export async function fetchRiskLevels(kind: 'crypto' | 'stock'): Promise<RiskLevelItem[]> {
   if (!isSupabaseConfigured()) return [];
   const supabase = getSupabase();
@@ -506,6 +503,68 @@ export async function fetchRiskLevels(kind: 'crypto' | 'stock'): Promise<RiskLev
   return items.sort((a, b) => a.value - b.value);
 }
 
+/* ── Per-symbol risk series for a set of holdings ──
+ * BTC / ETH / SOL come from model_portfolio_risk_history (the same source as
+ * fetchAssetRiskLevels); everything else from indicator_snapshots, where a
+ * stock_risk_* reading wins over the crypto_risk_* prefix that mixes both.
+ * Symbols with no risk model are simply absent from the result. */
+export async function fetchRiskSeries(symbols: string[], days: number): Promise<Map<string, SeriesPoint[]>> {
+  const out = new Map<string, SeriesPoint[]>();
+  if (!isSupabaseConfigured() || !symbols.length) return out;
+  const supabase = getSupabase();
+  const wanted = [...new Set(symbols.map((s) => s.toUpperCase()))];
+  const modeled = wanted.filter((s) => s in ASSET_NAMES);
+  const others = wanted.filter((s) => !(s in ASSET_NAMES)).map((s) => s.toLowerCase());
+  const since = daysAgoISO(days);
+
+  const bySym = new Map<string, { stock: Map<string, number>; crypto: Map<string, number> }>();
+  if (others.length) {
+    const indicators = others.flatMap((s) => [`stock_risk_${s}`, `crypto_risk_${s}`]);
+    const PAGE = 1000;
+    for (let offset = 0; offset < 40000; offset += PAGE) {
+      const { data, error } = await supabase
+        .from('indicator_snapshots')
+        .select('indicator, value, recorded_date')
+        .in('indicator', indicators)
+        .gte('recorded_date', since)
+        .order('recorded_date', { ascending: true })
+        .order('indicator', { ascending: true })
+        .range(offset, offset + PAGE - 1);
+      if (error || !data?.length) break;
+      for (const r of data as { indicator: string; value: number; recorded_date: string }[]) {
+        const stock = r.indicator.startsWith('stock_risk_');
+        const sym = r.indicator.replace(stock ? 'stock_risk_' : 'crypto_risk_', '').toUpperCase();
+        const entry = bySym.get(sym) ?? { stock: new Map(), crypto: new Map() };
+        (stock ? entry.stock : entry.crypto).set(r.recorded_date, Number(r.value));
+        bySym.set(sym, entry);
+      }
+      if (data.length < PAGE) break;
+    }
+  }
+  for (const [sym, { stock, crypto }] of bySym) {
+    const series = stock.size ? stock : crypto;
+    out.set(sym, [...series].map(([date, value]) => ({ date, value })).sort((a, b) => a.date.localeCompare(b.date)));
+  }
+
+  if (modeled.length) {
+    const { data, error } = await supabase
+      .from('model_portfolio_risk_history')
+      .select('asset, risk_date, risk_level')
+      .in('asset', modeled)
+      .gte('risk_date', since)
+      .order('risk_date', { ascending: true })
+      .limit(5000);
+    if (!error && data) {
+      for (const r of data as { asset: string; risk_date: string; risk_level: number }[]) {
+        const series = out.get(r.asset) ?? [];
+        series.push({ date: r.risk_date, value: Number(r.risk_level) });
+        out.set(r.asset, series);
+      }
+    }
+  }
+  return out;
+}
+
 /* ──────────────────────────────────────────────────────────────────────────
  * Per-asset Core Technical detail (BTC / ETH / SOL)
  * Source: technicals_snapshots + market_snapshots.
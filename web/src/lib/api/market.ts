@@ -1,4 +1,5 @@
 import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
+import { toDeckSlides } from '@/lib/deck-export/layout';
 import {
   demoCryptoAssets,
   demoGlobalMarket,
@@ -41,7 +42,6 @@ import type {
   WeeklyDeck,
   USFuturesItem,
   PerpPremiumItem,
-  DeckSlide,
 } from '@/types';
 
 function getSupabase() {
@@ -862,30 +862,21 @@ export async function fetchWeeklyDeck(): Promise<WeeklyDeck | null> {
   const supabase = getSupabase();
   const { data, error } = await supabase
     .from('market_update_decks')
-    .select('week_start, week_end, status, slides, published_at')
+    .select('id, week_start, week_end, status, slides, published_at, updated_at')
     .order('week_start', { ascending: false })
     .limit(1);
-  const d = data?.[0] as { week_start: string; week_end: string; status: string; slides: unknown } | undefined;
+  const d = data?.[0] as
+    | { id: string; week_start: string; week_end: string; status: string; slides: unknown; updated_at: string | null }
+    | undefined;
   if (error || !d) return null;
-  let raw = d.slides;
-  if (typeof raw === 'string') {
-    try { raw = JSON.parse(raw); } catch { raw = []; }
-  }
-  const arr = Array.isArray(raw) ? raw : [];
-  const slides: DeckSlide[] = arr.map((s: Record<string, unknown>, i) => {
-    const dataObj = (s.data as Record<string, unknown> | undefined) ?? {};
-    return {
-      id: String(s.id ?? i),
-      type: String(s.type ?? dataObj.type ?? 'slide'),
-      title: String(s.title ?? ''),
-      payload: (dataObj.payload as Record<string, unknown>) ?? {},
-    };
-  });
+  const slides = toDeckSlides(d.slides);
   return {
+    id: d.id,
     week_start: d.week_start,
     week_end: d.week_end,
     slide_count: slides.length,
     status: d.status,
+    updated_at: d.updated_at,
     slides,
   };
 }
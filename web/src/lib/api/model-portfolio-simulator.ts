@@ -0,0 +1,85 @@
+import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
+
+/**
+ * What-if simulator for the model portfolios — the `simulate-model-portfolio`
+ * edge function replays a strategy over stored QPS signal and BTC risk
+ * history with alternate parameters (supabase/functions/_shared/
+ * model_portfolio_engine.ts), next to the live rules and the recorded NAV.
+ * Admin-only; the function checks the caller's role.
+ */
+
+export type SimStrategy = 'core' | 'edge' | 'alpha';
+
+/** Mirrors StrategyParams in the engine; all weights are fractions. */
+export interface StrategyParams {
+  stablecoinApy: number;
+  maxExposure: Record<string, number>;
+  defaultMaxExposure: number;
+  durableFloors: Record<SimStrategy, Record<string, number>>;
+  blendRates: { edge: number; alpha: number };
+}
+
+export interface ParamOverrides {
+  stablecoinApy?: number;
+  maxExposure?: Record<string, number>;
+  defaultMaxExposure?: number;
+  durableFloors?: Partial<Record<SimStrategy, Record<string, number>>>;
+  blendRates?: Partial<StrategyParams['blendRates']>;
+}
+
+export interface SimPoint {
+  date: string;
+  nav: number;
+  drawdown: number;                     // ≤ 0, from the running peak
+  allocation: Record<string, number>;
+  rebalance: boolean;
+  turnover: number;                     // one-way
+  btcSignal: string;
+  macroRegime: string;
+}
+
+export interface SimSummary {
+  from: string;
+  to: string;
+  days: number;
+  startNav: number;
+  endNav: number;
+  totalReturn: number;
+  cagr: number | null;
+  maxDrawdown: number;
+  rebalances: number;
+  turnover: number;
+  annualTurnover: number | null;
+  avgExposure: Record<string, number>;
+}
+
+export interface SimResult {
+  strategy: SimStrategy;
+  points: SimPoint[];
+  summary: SimSummary;
+}
+
+export interface StrategySimulation {
+  strategy: SimStrategy;
+  from: string;
+  to: string;
+  params: StrategyParams;
+  defaults: StrategyParams;
+  variant: SimResult;
+  baseline: SimResult;                  // same days, DEFAULT_PARAMS
+  live: { date: string; nav: number }[];
+  coverage: { days: number; riskDays: number };
+}
+
+export interface SimulationRequest {
+  strategy: SimStrategy;
+  days: number;
+  params: ParamOverrides;
+}
+
+export async function runStrategySimulation(request: SimulationRequest): Promise<StrategySimulation> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  const { data, error } = await createClient().functions.invoke('simulate-model-portfolio', { body: request });
+  if (error) throw error;
+  return data as StrategySimulation;
+}
@@ -88,6 +88,21 @@ export async function fetchBenchmarkNav(limit = 365): Promise<BenchmarkNavPoint[
   return (data as BenchmarkNavPoint[]).slice().reverse();
 }
 
+/** BTC daily closes from market_snapshots, shaped like a benchmark NAV series. */
+export async function fetchBtcBenchmark(limit = 365): Promise<BenchmarkNavPoint[]> {
+  if (!isSupabaseConfigured()) return [];
+  const { data, error } = await getSupabase()
+    .from('market_snapshots')
+    .select('recorded_date, current_price')
+    .eq('coin_id', 'bitcoin')
+    .order('recorded_date', { ascending: false })
+    .limit(limit);
+  if (error || !data) return [];
+  return (data as { recorded_date: string; current_price: number }[])
+    .map((r) => ({ nav_date: r.recorded_date, nav: Number(r.current_price) }))
+    .reverse();
+}
+
 export async function fetchModelPortfolioTrades(portfolioId: string, limit = 20): Promise<ModelPortfolioTrade[]> {
   if (!isSupabaseConfigured()) return [];
   const { data, error } = await getSupabase()
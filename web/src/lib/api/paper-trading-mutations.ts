@@ -0,0 +1,34 @@
+import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
+import type { PaperAccount } from '@/types';
+
+function getSupabase() {
+  return createClient();
+}
+
+export type PaperAccountInput = Pick<
+  PaperAccount,
+  'starting_balance' | 'risk_mode' | 'risk_pct' | 'fee_pct' | 'slippage_pct' | 'max_exposure' | 'tiers'
+>;
+
+/**
+ * Create or update the user's paper account. Passing `startedAt` (re)starts
+ * it from that moment — only signals triggering afterwards are traded, so a
+ * past date replays recent signals.
+ */
+export async function savePaperAccount(userId: string, input: PaperAccountInput, startedAt?: string): Promise<void> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  const now = new Date().toISOString();
+  const { error } = await getSupabase()
+    .from('paper_accounts')
+    .upsert(
+      { user_id: userId, ...input, updated_at: now, ...(startedAt && { started_at: startedAt }) },
+      { onConflict: 'user_id' },
+    );
+  if (error) throw error;
+}
+
+export async function deletePaperAccount(userId: string): Promise<void> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  const { error } = await getSupabase().from('paper_accounts').delete().eq('user_id', userId);
+  if (error) throw error;
+}
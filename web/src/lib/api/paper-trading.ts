@@ -0,0 +1,27 @@
+import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
+import type { PaperAccount } from '@/types';
+
+function getSupabase() {
+  return createClient();
+}
+
+/** The user's paper account, or null if they haven't opened one. */
+export async function fetchPaperAccount(userId: string): Promise<PaperAccount | null> {
+  if (!isSupabaseConfigured()) return null;
+  const { data, error } = await getSupabase()
+    .from('paper_accounts')
+    .select('user_id, starting_balance, risk_mode, risk_pct, fee_pct, slippage_pct, max_exposure, tiers, started_at, updated_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  const row = data as PaperAccount;
+  return {
+    ...row,
+    starting_balance: Number(row.starting_balance),
+    risk_pct: Number(row.risk_pct),
+    fee_pct: Number(row.fee_pct),
+    slippage_pct: Number(row.slippage_pct),
+    max_exposure: Number(row.max_exposure),
+  };
+}
@@ -0,0 +1,32 @@
+import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
+
+/**
+ * The member's personalized "For You" section under the shared daily
+ * briefing — market-summary's `personal` mode matches their holdings and
+ * watchlist against the slot's market data and caches the result per member
+ * per slot (supabase/functions/_shared/personal_briefing.ts).
+ */
+
+/** Mirrors PersonalFacts in the edge function. */
+export interface PersonalFacts {
+  held: string[];
+  watched: string[];
+  movers: { asset: string; change24h: number; held: boolean; valueChange: number | null }[];
+  bandChanges: { asset: string; from: string; to: string; risk: number }[];
+  tradeSignals: { asset: string; signalType: string; status: string }[];
+  qpsFlips: { asset: string; from: string; to: string }[];
+}
+
+export interface PersonalBriefing {
+  section: string | null;               // null when nothing notable, or the slot's briefing isn't out yet
+  facts: PersonalFacts | null;
+  generatedAt: string | null;
+}
+
+export async function fetchPersonalBriefing(): Promise<PersonalBriefing | null> {
+  if (!isSupabaseConfigured()) return null;
+  const { data, error } = await createClient().functions.invoke('market-summary', { body: { personal: true } });
+  if (error) throw error;
+  if (data?.error) throw new Error(String(data.error));
+  return data as PersonalBriefing;
+}
@@ -0,0 +1,35 @@
+import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
+
+/**
+ * The member's private podcast feed of briefing audio. The briefing-podcast
+ * edge function serves it at a URL carrying the member's feed token; rotating
+ * the token cuts off every app subscribed with the old URL.
+ */
+
+export function podcastFeedUrl(token: string): string {
+  return `${process.env.NEXT_PUBLIC_SUPABASE_URL ?? ''}/functions/v1/briefing-podcast?token=${token}`;
+}
+
+export interface PodcastFeedToken {
+  token: string;
+  created_at: string;
+  last_fetched_at: string | null;
+}
+
+export async function fetchPodcastFeedToken(): Promise<PodcastFeedToken | null> {
+  if (!isSupabaseConfigured()) return null;
+  const { data, error } = await createClient()
+    .from('podcast_feed_tokens')
+    .select('token, created_at, last_fetched_at')
+    .maybeSingle();
+  if (error) throw error;
+  return (data as PodcastFeedToken | null) ?? null;
+}
+
+/** Issue a feed token, replacing the current one. */
+export async function rotatePodcastFeedToken(): Promise<string> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  const { data, error } = await createClient().rpc('rotate_podcast_feed_token');
+  if (error) throw error;
+  return data as string;
+}
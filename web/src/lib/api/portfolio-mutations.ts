@@ -1,5 +1,8 @@
 import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
-import type { PortfolioHolding } from '@/types';
+import { fetchAllPages } from '@/lib/supabase/paging';
+import { replayLots, type LedgerTx } from '@/lib/portfolio/tax-lots';
+import type { ImportRow } from '@/lib/portfolio/import';
+import type { CostBasisMethod, LotAllocation, LotSelection } from '@/types/transaction';
 
 function getSupabase() {
   return createClient();
@@ -16,83 +19,208 @@ export interface RecordTxInput {
   fee?: number;
   date?: string; // ISO
   notes?: string;
+  lots?: LotSelection[]; // sells under the 'specific' method
+}
+
+export interface RebalanceTrade {
+  type: 'buy' | 'sell';
+  symbol: string;
+  quantity: number;
+  price_per_unit: number;
+}
+
+type BatchRow = Omit<ImportRow, 'external_id'> & { external_id: string | null };
+
+type LedgerRow = LedgerTx & {
+  holding_id: string | null;
+  asset_type?: string;
+  symbol?: string;
+  lot_allocations?: LotAllocation[] | null;
+  cost_basis_per_unit?: number | null;
+  realized_profit_loss?: number | null;
+  short_term_gain?: number | null;
+  long_term_gain?: number | null;
+};
+
+// jsonb comes back with its keys reordered — compare key-sorted.
+const canonical = (v: unknown) => JSON.stringify(v, (_k, x) =>
+  x && typeof x === 'object' && !Array.isArray(x)
+    ? Object.fromEntries(Object.entries(x).sort(([a], [b]) => a.localeCompare(b)))
+    : x);
+
+async function fetchCostBasisMethod(supabase: ReturnType<typeof getSupabase>, portfolioId: string): Promise<CostBasisMethod> {
+  const { data, error } = await supabase.from('portfolios').select('cost_basis_method').eq('id', portfolioId).single();
+  if (error) throw error;
+  return (data?.cost_basis_method as CostBasisMethod | null) ?? 'fifo';
+}
+
+async function fetchLedger(supabase: ReturnType<typeof getSupabase>, portfolioId: string, symbol: string): Promise<LedgerRow[]> {
+  return fetchAllPages<LedgerRow>((from, to) => supabase
+    .from('transactions')
+    .select('id, type, quantity, price_per_unit, gas_fee, transaction_date, asset_type, symbol, holding_id, lot_method, lot_selections, lot_allocations, cost_basis_per_unit, realized_profit_loss, short_term_gain, long_term_gain')
+    .eq('portfolio_id', portfolioId)
+    .ilike('symbol', symbol)
+    .order('transaction_date', { ascending: true })
+    .order('created_at', { ascending: true })
+    .order('entry_seq', { ascending: true })
+    .range(from, to));
 }
 
 /**
- * Records a buy/sell transaction and reconciles the holding for that symbol.
- * If multiple holding rows exist for the symbol (legacy duplicates), they are
- * consolidated into a single row with a quantity-weighted average cost.
+ * Rebuild everything derived from a symbol's ledger: the consolidated holding
+ * row, its tax lots, and each sell's lot allocations and realized P/L.
+ * Both recordTransaction and deleteTransaction end here, so a backdated entry
+ * or a deletion re-prices every later sale exactly as a fresh replay would.
  */
-export async function recordTransaction(input: RecordTxInput): Promise<void> {
-  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
-  const supabase = getSupabase();
-  const q = Math.abs(input.quantity);
-  const price = Math.abs(input.price_per_unit);
-  const fee = Math.abs(input.fee ?? 0);
-  if (q <= 0) throw new Error('Quantity must be greater than 0.');
+async function rebuildSymbol(
+  supabase: ReturnType<typeof getSupabase>,
+  portfolioId: string,
+  symbol: string,
+  meta?: { name: string; asset_type: string },
+): Promise<void> {
+  const ledger = await fetchLedger(supabase, portfolioId, symbol);
+  const replay = replayLots(ledger);
 
-  // Gather existing rows for this symbol (case-insensitive) in this portfolio.
-  const { data: rows, error: fetchErr } = await supabase
-    .from('holdings')
-    .select('*')
-    .eq('portfolio_id', input.portfolioId)
-    .ilike('symbol', input.symbol);
-  if (fetchErr) throw fetchErr;
-  const existing = (rows ?? []) as PortfolioHolding[];
-
-  const oldQty = existing.reduce((s, h) => s + Number(h.quantity), 0);
-  const oldAvg = oldQty > 0
-    ? existing.reduce((s, h) => s + (Number(h.average_buy_price ?? 0) * Number(h.quantity)), 0) / oldQty
-    : 0;
-
-  let newQty = oldQty;
-  let newAvg = oldAvg;
-  let realized: number | null = null;
-  let costBasis: number | null = null;
-
-  if (input.type === 'buy') {
-    newQty = oldQty + q;
-    newAvg = newQty > 0 ? (oldAvg * oldQty + price * q) / newQty : price;
-  } else {
-    if (q > oldQty + 1e-9) throw new Error(`You only hold ${oldQty} ${input.symbol.toUpperCase()}.`);
-    realized = (price - oldAvg) * q;
-    costBasis = oldAvg;
-    newQty = oldQty - q;
-    newAvg = oldAvg; // avg cost unchanged on sells
+  let assetType = meta?.asset_type ?? 'crypto';
+  let displaySymbol = symbol.toUpperCase();
+  for (const t of ledger) {
+    if (!meta && t.asset_type) assetType = t.asset_type;
+    if (t.symbol) displaySymbol = String(t.symbol).toUpperCase();
   }
 
-  // Consolidate holding rows.
-  const keep = existing[0];
-  const extras = existing.slice(1);
-  if (extras.length) {
-    await supabase.from('holdings').delete().in('id', extras.map((h) => h.id));
-  }
+  // Consolidate the holding row (legacy duplicates collapse into one).
+  const { data: rows, error: rowsErr } = await supabase
+    .from('holdings')
+    .select('id, name')
+    .eq('portfolio_id', portfolioId)
+    .ilike('symbol', symbol);
+  if (rowsErr) throw rowsErr;
+  const existing = (rows ?? []) as { id: string; name?: string }[];
+  const [keep, ...extras] = existing;
+  if (extras.length) await supabase.from('holdings').delete().in('id', extras.map((h) => h.id));
 
-  let holdingId: string | undefined = keep?.id;
-  if (newQty <= 1e-9) {
+  let holdingId: string | null = keep?.id ?? null;
+  if (replay.quantity <= 1e-9) {
     // Fully sold out — remove the position.
     if (keep) await supabase.from('holdings').delete().eq('id', keep.id);
-    holdingId = undefined;
+    holdingId = null;
   } else if (keep) {
     const { error } = await supabase
       .from('holdings')
-      .update({ quantity: newQty, average_buy_price: newAvg, name: input.name, asset_type: input.asset_type, updated_at: new Date().toISOString() })
+      .update({
+        quantity: replay.quantity,
+        average_buy_price: replay.averageCost,
+        ...(meta ? { name: meta.name, asset_type: meta.asset_type } : {}),
+        updated_at: new Date().toISOString(),
+      })
       .eq('id', keep.id);
     if (error) throw error;
   } else {
     const { data: inserted, error } = await supabase
       .from('holdings')
-      .insert({ portfolio_id: input.portfolioId, asset_type: input.asset_type, symbol: input.symbol.toUpperCase(), name: input.name, quantity: newQty, average_buy_price: newAvg })
+      .insert({
+        portfolio_id: portfolioId,
+        asset_type: assetType,
+        symbol: displaySymbol,
+        name: meta?.name ?? displaySymbol,
+        quantity: replay.quantity,
+        average_buy_price: replay.averageCost,
+      })
       .select('id')
       .single();
     if (error) throw error;
-    holdingId = inserted?.id;
+    holdingId = inserted?.id ?? null;
+  }
+
+  // Replace the symbol's lots.
+  const { error: lotDelErr } = await supabase
+    .from('tax_lots')
+    .delete()
+    .eq('portfolio_id', portfolioId)
+    .ilike('symbol', symbol);
+  if (lotDelErr) throw lotDelErr;
+  if (replay.lots.length) {
+    const { error } = await supabase.from('tax_lots').insert(replay.lots.map((l) => ({
+      portfolio_id: portfolioId,
+      transaction_id: l.id,
+      symbol: displaySymbol,
+      acquired_at: l.acquired_at,
+      quantity: l.quantity,
+      remaining_quantity: l.remaining,
+      cost_per_unit: l.cost_per_unit,
+    })));
+    if (error) throw error;
+  }
+
+  // Write back derived columns, touching only rows that changed.
+  for (const t of ledger) {
+    const d = replay.disposals.get(t.id);
+    const patch: Record<string, unknown> = { holding_id: holdingId };
+    if (d) {
+      patch.lot_method = d.method;
+      patch.lot_allocations = d.allocations;
+      patch.cost_basis_per_unit = d.costBasisPerUnit;
+      patch.realized_profit_loss = d.realized;
+      patch.short_term_gain = d.shortTerm;
+      patch.long_term_gain = d.longTerm;
+    }
+    const stored = Object.fromEntries(Object.keys(patch).map((k) => [k, t[k as keyof LedgerRow] ?? null]));
+    if (canonical(stored) === canonical(patch)) continue;
+    const { error } = await supabase.from('transactions').update(patch).eq('id', t.id);
+    if (error) throw error;
+  }
+}
+
+/**
+ * Records a buy/sell transaction, then rebuilds the symbol's holding and tax
+ * lots from the full ledger. Buys open a lot; sells relieve lots by the
+ * portfolio's cost-basis method (or the lots picked under Specific ID), with
+ * realized P/L split short/long-term by holding period. Returns the new
+ * transaction's id.
+ */
+export async function recordTransaction(input: RecordTxInput): Promise<string> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  const supabase = getSupabase();
+  const q = Math.abs(input.quantity);
+  const price = Math.abs(input.price_per_unit);
+  const fee = Math.abs(input.fee ?? 0);
+  if (q <= 0) throw new Error('Quantity must be greater than 0.');
+
+  const tx: LedgerTx = {
+    id: crypto.randomUUID(),
+    type: input.type,
+    quantity: q,
+    price_per_unit: price,
+    gas_fee: fee,
+    transaction_date: input.date ?? new Date().toISOString(),
+  };
+
+  if (input.type === 'sell') {
+    const [ledger, method] = await Promise.all([
+      fetchLedger(supabase, input.portfolioId, input.symbol),
+      fetchCostBasisMethod(supabase, input.portfolioId),
+    ]);
+    tx.lot_method = method;
+    if (method === 'specific') {
+      const picked = (input.lots ?? []).reduce((s, l) => s + Math.abs(l.quantity), 0);
+      if (Math.abs(picked - q) > 1e-9) throw new Error('Pick lots that add up to the quantity sold.');
+      tx.lot_selections = input.lots;
+    }
+
+    // Dry-run the sale against the ledger as of its date.
+    const disposal = replayLots([...ledger, tx]).disposals.get(tx.id);
+    if (disposal && disposal.uncovered > 1e-9) {
+      throw new Error(`You only hold ${q - disposal.uncovered} ${input.symbol.toUpperCase()} on that date.`);
+    }
+    for (const sel of tx.lot_selections ?? []) {
+      const got = disposal?.allocations.filter((a) => a.lot_id === sel.lot_id).reduce((s, a) => s + a.quantity, 0) ?? 0;
+      if (got < Math.abs(sel.quantity) - 1e-9) throw new Error('A picked lot no longer has that much remaining.');
+    }
   }
 
-  // Insert the transaction record.
   const { error: txErr } = await supabase.from('transactions').insert({
+    id: tx.id,
     portfolio_id: input.portfolioId,
-    holding_id: holdingId ?? null,
     type: input.type,
     asset_type: input.asset_type,
     symbol: input.symbol.toUpperCase(),
@@ -100,19 +228,22 @@ export async function recordTransaction(input: RecordTxInput): Promise<void> {
     price_per_unit: price,
     gas_fee: fee,
     total_value: q * price + (input.type === 'buy' ? fee : -fee),
-    transaction_date: input.date ?? new Date().toISOString(),
+    transaction_date: tx.transaction_date,
     notes: input.notes ?? null,
-    cost_basis_per_unit: costBasis,
-    realized_profit_loss: realized,
+    lot_method: tx.lot_method ?? null,
+    lot_selections: tx.lot_selections ?? null,
   });
   if (txErr) throw txErr;
+
+  await rebuildSymbol(supabase, input.portfolioId, input.symbol, { name: input.name, asset_type: input.asset_type });
+  return tx.id;
 }
 
 /**
- * Delete a transaction and rebuild the symbol's holding from the remaining
- * transactions (chronological replay — matches the iOS "recalculates
- * holdings" behavior). Buys / transfers-in add at weighted-average cost;
- * sells / transfers-out reduce quantity, average cost unchanged.
+ * Delete a transaction and rebuild the symbol's holding and tax lots from the
+ * remaining transactions (chronological replay — matches the iOS
+ * "recalculates holdings" behavior). Later sells are re-relieved with their
+ * recorded method, so their realized P/L follows the edited ledger.
  */
 export async function deleteTransaction(
   portfolioId: string,
@@ -129,70 +260,91 @@ export async function deleteTransaction(
     .eq('portfolio_id', portfolioId);
   if (delErr) throw delErr;
 
-  // Replay the remaining transactions for this symbol.
-  const { data: txs, error: txErr } = await supabase
-    .from('transactions')
-    .select('type, quantity, price_per_unit, transaction_date, asset_type, symbol')
-    .eq('portfolio_id', portfolioId)
-    .ilike('symbol', symbol)
-    .order('transaction_date', { ascending: true });
-  if (txErr) throw txErr;
+  await rebuildSymbol(supabase, portfolioId, symbol);
+}
 
-  let qty = 0;
-  let avg = 0;
-  let assetType = 'crypto';
-  let displaySymbol = symbol.toUpperCase();
-  for (const t of (txs ?? []) as {
-    type: string; quantity: number; price_per_unit: number; asset_type?: string; symbol?: string;
-  }[]) {
-    const q = Math.abs(Number(t.quantity));
-    const price = Math.abs(Number(t.price_per_unit));
-    if (t.asset_type) assetType = t.asset_type;
-    if (t.symbol) displaySymbol = String(t.symbol).toUpperCase();
-    if (t.type === 'buy' || t.type === 'transfer_in') {
-      const newQty = qty + q;
-      avg = newQty > 0 ? (avg * qty + price * q) / newQty : price;
-      qty = newQty;
-    } else {
-      qty = Math.max(0, qty - q);
-      // avg cost unchanged on sells/transfers-out
-    }
-  }
+/**
+ * Write imported exchange fills, oldest first, then rebuild each touched
+ * symbol once — holdings, lots and realized P/L come out exactly as if the
+ * fills had been entered by hand in date order. Sells are dry-run against the
+ * ledger first; nothing is written if any would sell more than was held.
+ * Imported sells carry no lot picks, so under Specific ID they relieve FIFO.
+ */
+export async function importTransactions(portfolioId: string, rows: ImportRow[]): Promise<number> {
+  return insertBatch(portfolioId, rows, null);
+}
 
-  // Rebuild the consolidated holding row.
-  const { data: rows } = await supabase
-    .from('holdings')
-    .select('id, name')
-    .eq('portfolio_id', portfolioId)
-    .ilike('symbol', symbol);
-  const existing = (rows ?? []) as { id: string; name?: string }[];
+/** Rebalance trades, all at the current time — sells first so they fund the buys on replay. */
+export async function recordRebalance(portfolioId: string, trades: RebalanceTrade[]): Promise<number> {
+  const date = new Date().toISOString();
+  const ordered = [...trades].sort((a, b) => (a.type === b.type ? 0 : a.type === 'sell' ? -1 : 1));
+  return insertBatch(portfolioId, ordered.map((t, i) => ({
+    line: i + 1,
+    date,
+    type: t.type,
+    symbol: t.symbol.toUpperCase(),
+    quantity: t.quantity,
+    price_per_unit: t.price_per_unit,
+    fee: 0,
+    external_id: null,
+  })), 'Rebalance');
+}
 
-  if (qty <= 1e-9) {
-    if (existing.length) {
-      await supabase.from('holdings').delete().in('id', existing.map((h) => h.id));
-    }
-    return;
-  }
+/** Insert many trades at once (validated per symbol), then rebuild each symbol once. */
+async function insertBatch(portfolioId: string, rows: BatchRow[], notes: string | null): Promise<number> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  if (!rows.length) return 0;
+  const supabase = getSupabase();
+  const method = await fetchCostBasisMethod(supabase, portfolioId);
+  const lotMethod: CostBasisMethod = method === 'specific' ? 'fifo' : method;
 
-  if (existing.length) {
-    const [keep, ...extras] = existing;
-    if (extras.length) await supabase.from('holdings').delete().in('id', extras.map((h) => h.id));
-    const { error } = await supabase
-      .from('holdings')
-      .update({ quantity: qty, average_buy_price: avg, updated_at: new Date().toISOString() })
-      .eq('id', keep.id);
-    if (error) throw error;
-  } else {
-    const { error } = await supabase.from('holdings').insert({
+  const sorted = [...rows].sort((a, b) => a.date.localeCompare(b.date) || a.line - b.line);
+  const bySymbol = new Map<string, BatchRow[]>();
+  for (const r of sorted) bySymbol.set(r.symbol, [...(bySymbol.get(r.symbol) ?? []), r]);
+
+  const records: Record<string, unknown>[] = [];
+  for (const [symbol, symRows] of bySymbol) {
+    const ledger = await fetchLedger(supabase, portfolioId, symbol);
+    const txs: LedgerTx[] = symRows.map((r) => ({
+      id: crypto.randomUUID(),
+      type: r.type,
+      quantity: r.quantity,
+      price_per_unit: r.price_per_unit,
+      gas_fee: r.fee,
+      transaction_date: r.date,
+      lot_method: r.type === 'sell' ? lotMethod : null,
+    }));
+    const replay = replayLots([...ledger, ...txs]);
+    const short = symRows.find((_, i) => (replay.disposals.get(txs[i].id)?.uncovered ?? 0) > 1e-9);
+    if (short) throw new Error(`Row ${short.line}: sells more ${symbol} than the portfolio held on that date.`);
+
+    const assetType = ledger[ledger.length - 1]?.asset_type ?? 'crypto';
+    txs.forEach((t, i) => records.push({
+      id: t.id,
       portfolio_id: portfolioId,
+      type: t.type,
       asset_type: assetType,
-      symbol: displaySymbol,
-      name: displaySymbol,
-      quantity: qty,
-      average_buy_price: avg,
-    });
+      symbol,
+      quantity: t.quantity,
+      price_per_unit: t.price_per_unit,
+      gas_fee: t.gas_fee,
+      total_value: t.quantity * t.price_per_unit + (t.type === 'buy' ? Number(t.gas_fee) : -Number(t.gas_fee)),
+      transaction_date: t.transaction_date,
+      notes,
+      lot_method: t.lot_method,
+      external_id: symRows[i].external_id,
+    }));
+  }
+
+  // Insert in date order; entry_seq then keeps same-timestamp fills in the
+  // file's order on replay.
+  records.sort((a, b) => String(a.transaction_date).localeCompare(String(b.transaction_date)));
+  for (let i = 0; i < records.length; i += 500) {
+    const { error } = await supabase.from('transactions').insert(records.slice(i, i + 500));
     if (error) throw error;
   }
+  for (const symbol of bySymbol.keys()) await rebuildSymbol(supabase, portfolioId, symbol);
+  return records.length;
 }
 
 export async function deleteHolding(holdingId: string): Promise<void> {
@@ -222,3 +374,20 @@ export async function createPortfolio(userId: string, name: string): Promise<voi
   const { error } = await supabase.from('portfolios').insert({ user_id: userId, name, is_public: false });
   if (error) throw error;
 }
+
+export async function updateCostBasisMethod(portfolioId: string, method: CostBasisMethod): Promise<void> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  const supabase = getSupabase();
+  const { error } = await supabase.from('portfolios').update({ cost_basis_method: method }).eq('id', portfolioId);
+  if (error) throw error;
+}
+
+export async function updateLossLimits(
+  portfolioId: string,
+  limits: { loss_limit_pct: number | null; loss_limit_value: number | null },
+): Promise<void> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  const supabase = getSupabase();
+  const { error } = await supabase.from('portfolios').update(limits).eq('id', portfolioId);
+  if (error) throw error;
+}
@@ -1,6 +1,8 @@
 import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
+import { fetchAllPages } from '@/lib/supabase/paging';
 import type { Portfolio, PortfolioHolding, PortfolioHistoryPoint } from '@/types';
-import type { Transaction } from '@/types/transaction';
+import type { TaxLot, Transaction } from '@/types/transaction';
+import type { SeriesPoint } from '@/lib/portfolio/benchmark';
 
 function getSupabase() {
   return createClient();
@@ -30,14 +32,29 @@ export async function fetchHoldings(portfolioId: string): Promise<PortfolioHoldi
   return data ?? [];
 }
 
+/** Every transaction, newest first — paged, since the gains report needs all of them. */
 export async function fetchTransactions(portfolioId: string): Promise<Transaction[]> {
   if (!isSupabaseConfigured()) return [];
   const supabase = getSupabase();
-  const { data, error } = await supabase
+  return fetchAllPages<Transaction>((from, to) => supabase
     .from('transactions')
     .select('*')
     .eq('portfolio_id', portfolioId)
-    .order('transaction_date', { ascending: false });
+    .order('transaction_date', { ascending: false })
+    .order('id', { ascending: true })
+    .range(from, to));
+}
+
+/** Lots still holding quantity, oldest first (rebuilt on every transaction change). */
+export async function fetchOpenTaxLots(portfolioId: string): Promise<TaxLot[]> {
+  if (!isSupabaseConfigured()) return [];
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('tax_lots')
+    .select('*')
+    .eq('portfolio_id', portfolioId)
+    .gt('remaining_quantity', 0)
+    .order('acquired_at', { ascending: true });
   if (error) throw error;
   return data ?? [];
 }
@@ -195,7 +212,7 @@ async function fetchMetalPrices(symbols: string[]): Promise<Map<string, LivePric
  * the cached top-100 list so those never need a /search round-trip.
  */
 export async function fetchLivePrices(
-  holdings: PortfolioHolding[],
+  holdings: Pick<PortfolioHolding, 'asset_type' | 'symbol'>[],
   knownIds: Map<string, string> = new Map(),
 ): Promise<Map<string, LivePrice>> {
   if (!isSupabaseConfigured() || !holdings.length) return new Map();
@@ -229,3 +246,70 @@ export function applyLivePrices(
     };
   });
 }
+
+/* ── Price history ────────────────────────────────────────────────────────
+ * Daily closes for crypto (CoinGecko market_chart) and stocks (FMP EOD) via
+ * the same `api-proxy` path, for correlation and beta. Metals have no history
+ * endpoint on our plan and are left out.
+ */
+
+/** FMP EOD closes for one ticker, oldest first; null when FMP has none. */
+async function fetchFmpSeries(symbol: string, from: string, to?: string): Promise<SeriesPoint[] | null> {
+  type EodLight = { date: string; price: number };
+  const data = await invokeProxy<EodLight[]>({
+    service: 'fmp',
+    path: '/historical-price-eod/light',
+    queryItems: { symbol, from, ...(to && { to }) },
+  });
+  if (!Array.isArray(data) || !data.length) return null;
+  return data.map((d) => ({ date: d.date, value: Number(d.price) })).reverse();
+}
+
+/** Daily price series per holding, keyed by lowercase symbol, oldest first. */
+export async function fetchPriceHistories(
+  holdings: Pick<PortfolioHolding, 'asset_type' | 'symbol'>[],
+  days: number,
+  knownIds: Map<string, string> = new Map(),
+): Promise<Map<string, SeriesPoint[]>> {
+  const out = new Map<string, SeriesPoint[]>();
+  if (!isSupabaseConfigured() || !holdings.length) return out;
+
+  const uniq = (type: string) =>
+    [...new Set(holdings.filter((h) => h.asset_type === type).map((h) => h.symbol.toLowerCase()))];
+  const idBySymbol = await resolveCoinGeckoIds(uniq('crypto'), knownIds);
+  const from = new Date(Date.now() - days * 86_400_000).toISOString().split('T')[0];
+
+  await Promise.all([
+    ...[...idBySymbol].map(async ([sym, id]) => {
+      type MarketChart = { prices?: [number, number][] };
+      const data = await invokeProxy<MarketChart>({
+        service: 'coingecko',
+        path: `/coins/${id}/market_chart`,
+        queryItems: { vs_currency: 'usd', days: String(days), interval: 'daily' },
+      });
+      // The last point is "now" — keep one value per day, the latest.
+      const byDay = new Map((data?.prices ?? []).map(([ms, price]) => [new Date(ms).toISOString().split('T')[0], price]));
+      if (byDay.size) out.set(sym, [...byDay].map(([date, value]) => ({ date, value })));
+    }),
+    ...uniq('stock').map(async (sym) => {
+      const series = await fetchFmpSeries(sym.toUpperCase(), from);
+      if (series) out.set(sym, series);
+    }),
+  ]);
+  return out;
+}
+
+/**
+ * FMP daily closes for `symbols` (tickers as FMP spells them, e.g. BTCUSD)
+ * from `from` through `to`, oldest first, keyed by the symbol as given. Used
+ * where the history has to reach further back than CoinGecko's daily year.
+ */
+export async function fetchFmpHistories(symbols: string[], from: string, to?: string): Promise<Map<string, SeriesPoint[]>> {
+  const out = new Map<string, SeriesPoint[]>();
+  if (!isSupabaseConfigured() || !symbols.length) return out;
+  await Promise.all(symbols.map(async (sym) => {
+    const series = await fetchFmpSeries(sym, from, to);
+    if (series) out.set(sym, series);
+  }));
+  return out;
+}
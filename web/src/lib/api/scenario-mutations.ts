@@ -0,0 +1,38 @@
+import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
+import type { ScenarioKind, ScenarioShocks, ScenarioSnapshot } from '@/types';
+
+function getSupabase() {
+  return createClient();
+}
+
+export interface ScenarioInput {
+  name: string;
+  kind: ScenarioKind;
+  shocks: ScenarioShocks;
+  window_start?: string | null;
+  window_end?: string | null;
+  saved_result?: ScenarioSnapshot | null;
+}
+
+export async function createScenario(userId: string, input: ScenarioInput): Promise<void> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  if (!input.name.trim()) throw new Error('Name the scenario.');
+  const episode = input.kind === 'episode';
+  const { error } = await getSupabase().from('portfolio_scenarios').insert({
+    user_id: userId,
+    name: input.name.trim(),
+    kind: input.kind,
+    // Episodes are re-measured on every run; only shock scenarios keep shocks
+    shocks: episode ? {} : input.shocks,
+    window_start: episode ? input.window_start : null,
+    window_end: episode ? input.window_end : null,
+    saved_result: input.saved_result ?? null,
+  });
+  if (error) throw error;
+}
+
+export async function deleteScenario(id: string): Promise<void> {
+  if (!isSupabaseConfigured()) throw new Error('Not available in demo mode.');
+  const { error } = await getSupabase().from('portfolio_scenarios').delete().eq('id', id);
+  if (error) throw error;
+}
@@ -0,0 +1,17 @@
+import { createClient, isSupabaseConfigured } from '@/lib/supabase/client';
+import type { PortfolioScenario } from '@/types';
+
+function getSupabase() {
+  return createClient();
+}
+
+export async function fetchScenarios(userId: string): Promise<PortfolioScenario[]> {
+  if (!isSupabaseConfigured()) return [];
+  const { data, error } = await getSupabase()
+    .from('portfolio_scenarios')
+    .select('id, user_id, name, kind, shocks, window_start, window_end, saved_result, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as PortfolioScenario[];
+}
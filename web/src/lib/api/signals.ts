@@ -38,6 +38,7 @@ export interface TradeSignal {
   low_conviction: boolean | null;
   counter_trend: boolean | null;
   ema_trend_aligned: boolean | null;
+  adaptive_params_version: number | null;
   short_rationale: string | null;
   briefing_text: string | null;
   generated_at: string;
@@ -52,7 +53,7 @@ const COLUMNS =
   'target_1, target_2, stop_loss, risk_reward_ratio, invalidation_note, btc_risk_score, ' +
   'fear_greed_index, macro_regime, arkline_score, composite_score, suggested_risk_pct, ' +
   'outcome, outcome_pct, t1_pnl_pct, runner_pnl_pct, duration_hours, volatility_regime, ' +
-  'low_conviction, counter_trend, ema_trend_aligned, ' +
+  'low_conviction, counter_trend, ema_trend_aligned, adaptive_params_version, ' +
   'short_rationale, briefing_text, generated_at, triggered_at, t1_hit_at, closed_at, expires_at';
 
 export async function fetchTradeSignalsFull(limit = 12): Promise<TradeSignal[]> {
@@ -89,6 +90,30 @@ export async function fetchSignalHistory(days?: number, limit = 400): Promise<Tr
   return data as unknown as TradeSignal[];
 }
 
+/**
+ * Signals that triggered on or after `since`, open or closed, oldest first —
+ * the entries a paper account started at `since` would have taken.
+ */
+export async function fetchSignalsTriggeredSince(since: string): Promise<TradeSignal[]> {
+  if (!isSupabaseConfigured()) return [];
+  const supabase = createClient();
+  const PAGE = 1000;
+  const all: TradeSignal[] = [];
+  for (let offset = 0; ; offset += PAGE) {
+    const { data, error } = await supabase
+      .from('trade_signals')
+      .select(COLUMNS)
+      .gte('triggered_at', since)
+      .order('triggered_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE - 1);
+    if (error || !data?.length) break;
+    all.push(...(data as unknown as TradeSignal[]));
+    if (data.length < PAGE) break;
+  }
+  return all;
+}
+
 export const isLong = (t: SignalType) => t === 'buy' || t === 'strong_buy';
 
 /**
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { buildTimeline, excerptParts, monthBounds, pointOnOrBefore, shiftMonth, timelineSeries } from './archive';
+import type { ArchivedBriefing, BriefingMarketData } from '@/lib/api/briefing-archive';
+
+const briefing = (date: string, slot: ArchivedBriefing['slot'] = 'morning'): ArchivedBriefing => ({
+  id: `${date}-${slot}`, summary_date: date, slot, summary: '## TLDR\nQuiet tape.', generated_at: `${date}T13:00:00Z`,
+});
+
+const market: BriefingMarketData = {
+  scores: [
+    { date: '2026-07-01', score: 42, btcPrice: 60_500 },
+    { date: '2026-07-03', score: 48, btcPrice: 61_000 },
+  ],
+  btc: [
+    { date: '2026-07-01', price: 60_000 },
+    { date: '2026-07-02', price: 62_000 },
+    { date: '2026-07-08', price: 66_000 },
+    { date: '2026-07-09', price: 69_000 },
+  ],
+};
+
+describe('briefing archive', () => {
+  it('navigates months across year ends', () => {
+    expect(monthBounds('2026-02')).toEqual({ from: '2026-02-01', to: '2026-02-28' });
+    expect(shiftMonth('2026-01', -1)).toBe('2025-12');
+    expect(shiftMonth('2026-12', 1)).toBe('2027-01');
+  });
+
+  it('takes the closest reading on or shortly before a date', () => {
+    expect(pointOnOrBefore(market.btc, '2026-07-05')?.date).toBe('2026-07-02');
+    expect(pointOnOrBefore(market.btc, '2026-07-06')).toBeNull();
+    expect(pointOnOrBefore(market.btc, '2026-06-30')).toBeNull();
+  });
+
+  it('attaches score, price and the BTC move that followed', () => {
+    const [first, second, late] = buildTimeline([briefing('2026-07-01'), briefing('2026-07-02', 'evening'), briefing('2026-07-09')], market);
+    expect(first).toMatchObject({ score: 42, btcPrice: 60_000, btcAfter: 10 });
+    expect(second.score).toBe(42);
+    expect(second.btcAfter).toBeCloseTo(((69_000 - 62_000) / 62_000) * 100, 10);
+    expect(late).toMatchObject({ score: null, btcPrice: 69_000, btcAfter: null });
+  });
+
+  it('merges daily readings for the chart and splits highlighted excerpts', () => {
+    expect(timelineSeries(market, '2026-07-01', '2026-07-03')).toEqual([
+      { date: '2026-07-01', score: 42, btc: 60_000 },
+      { date: '2026-07-02', score: null, btc: 62_000 },
+      { date: '2026-07-03', score: 48, btc: 61_000 },
+    ]);
+    expect(excerptParts('BTC <mark>halving</mark> flows and <mark>ETF</mark>')).toEqual([
+      { text: 'BTC ', match: false },
+      { text: 'halving', match: true },
+      { text: ' flows and ', match: false },
+      { text: 'ETF', match: true },
+    ]);
+  });
+});
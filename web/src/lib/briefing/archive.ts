@@ -0,0 +1,79 @@
+import type { ArchivedBriefing, BriefingMarketData } from '@/lib/api/briefing-archive';
+
+/**
+ * Timeline helpers for the briefing archive: month navigation, the market
+ * readings on each briefing's date, and how BTC moved in the days after. A
+ * reading is taken from the briefing's date or the closest day before it (up
+ * to MAX_GAP_DAYS back), so weekends and missed snapshot runs still show one.
+ */
+
+const DAY_MS = 86_400_000;
+const MAX_GAP_DAYS = 3;
+
+const toMs = (date: string) => Date.parse(`${date}T00:00:00Z`);
+const isoDate = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+/** First and last day of a "YYYY-MM" month. */
+export function monthBounds(month: string): { from: string; to: string } {
+  const [y, m] = month.split('-').map(Number);
+  return { from: `${month}-01`, to: isoDate(Date.UTC(y, m, 0)) };
+}
+
+export function shiftMonth(month: string, delta: number): string {
+  const [y, m] = month.split('-').map(Number);
+  return isoDate(Date.UTC(y, m - 1 + delta, 1)).slice(0, 7);
+}
+
+/** Latest point dated on or up to `maxGap` days before `date`; `points` oldest first. */
+export function pointOnOrBefore<T extends { date: string }>(points: T[], date: string, maxGap = MAX_GAP_DAYS): T | null {
+  const target = toMs(date);
+  let found: T | null = null;
+  for (const p of points) {
+    if (p.date > date) break;
+    found = p;
+  }
+  return found && target - toMs(found.date) <= maxGap * DAY_MS ? found : null;
+}
+
+export interface TimelineEntry extends ArchivedBriefing {
+  score: number | null;         // ArkLine Score (0-100)
+  btcPrice: number | null;
+  btcAfter: number | null;      // % BTC move over the `horizon` days after the briefing
+}
+
+/** Attach the day's ArkLine Score, BTC price and the BTC move that followed. */
+export function buildTimeline(briefings: ArchivedBriefing[], market: BriefingMarketData, horizon = 7): TimelineEntry[] {
+  return briefings.map((b) => {
+    const snapshot = pointOnOrBefore(market.scores, b.summary_date);
+    const close = pointOnOrBefore(market.btc, b.summary_date);
+    const btcPrice = close?.price ?? snapshot?.btcPrice ?? null;
+    const later = pointOnOrBefore(market.btc, isoDate(toMs(b.summary_date) + horizon * DAY_MS));
+    const btcAfter = close && later && later.date > b.summary_date && close.price > 0
+      ? ((later.price - close.price) / close.price) * 100
+      : null;
+    return { ...b, score: snapshot?.score ?? null, btcPrice, btcAfter };
+  });
+}
+
+/** Daily points for the month chart, oldest first. */
+export function timelineSeries(market: BriefingMarketData, from: string, to: string): { date: string; score: number | null; btc: number | null }[] {
+  const days = new Map<string, { score: number | null; btc: number | null }>();
+  for (const s of market.scores) {
+    if (s.date >= from && s.date <= to) days.set(s.date, { score: s.score, btc: s.btcPrice });
+  }
+  for (const p of market.btc) {
+    if (p.date < from || p.date > to) continue;
+    days.set(p.date, { score: days.get(p.date)?.score ?? null, btc: p.price });
+  }
+  return [...days].sort(([a], [b]) => a.localeCompare(b)).map(([date, d]) => ({ date, ...d }));
+}
+
+/** Split a search excerpt into plain and highlighted runs (never rendered as HTML). */
+export function excerptParts(excerpt: string): { text: string; match: boolean }[] {
+  return excerpt
+    .split(/(<mark>.*?<\/mark>)/g)
+    .filter(Boolean)
+    .map((part) => part.startsWith('<mark>')
+      ? { text: part.slice(6, -7), match: true }
+      : { text: part, match: false });
+}
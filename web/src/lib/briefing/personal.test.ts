@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { personalHighlights } from './personal';
+import type { PersonalFacts } from '@/lib/api/personal-briefing';
+
+const facts: PersonalFacts = {
+  held: ['BTC', 'ETH'],
+  watched: ['SOL'],
+  movers: [
+    { asset: 'ETH', change24h: -6.5, held: true, valueChange: -550 },
+    { asset: 'SOL', change24h: 4, held: false, valueChange: null },
+  ],
+  bandChanges: [
+    { asset: 'BTC', from: 'Elevated Risk', to: 'High Risk', risk: 0.72 },
+    { asset: 'SOL', from: 'Neutral', to: 'Low Risk', risk: 0.38 },
+  ],
+  tradeSignals: [{ asset: 'ETH', signalType: 'strong_buy', status: 'triggered' }],
+  qpsFlips: [{ asset: 'SOL', from: 'neutral', to: 'bearish' }],
+};
+
+describe('personal briefing highlights', () => {
+  it('orders band changes and signals ahead of flips and movers', () => {
+    expect(personalHighlights(facts).map((h) => h.key)).toEqual([
+      'band-BTC', 'band-SOL', 'signal-ETH-strong_buy', 'qps-SOL', 'move-ETH', 'move-SOL',
+    ]);
+  });
+
+  it('flags rising risk and labels signals and moves', () => {
+    const byKey = Object.fromEntries(personalHighlights(facts).map((h) => [h.key, h]));
+    expect(byKey['band-BTC'].tone).toBe('warning');
+    expect(byKey['band-SOL'].tone).toBe('info');
+    expect(byKey['signal-ETH-strong_buy'].label).toBe('strong buy signal · triggered');
+    expect(byKey['qps-SOL'].tone).toBe('down');
+    expect(byKey['move-ETH']).toMatchObject({ label: '-6.5%', tone: 'down', valueChange: -550 });
+    expect(byKey['move-SOL'].valueChange).toBeUndefined();
+    expect(personalHighlights(null)).toEqual([]);
+  });
+});
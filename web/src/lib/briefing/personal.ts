@@ -0,0 +1,56 @@
+import type { PersonalFacts } from '@/lib/api/personal-briefing';
+
+/**
+ * Chips for the "For You" section: the facts behind the generated text, most
+ * significant first — risk band changes and trade signals, then QPS flips,
+ * then the day's biggest movers. Dollar changes appear only on held assets.
+ */
+
+export type HighlightTone = 'up' | 'down' | 'warning' | 'info';
+
+export interface PersonalHighlight {
+  key: string;
+  asset: string;
+  label: string;
+  tone: HighlightTone;
+  valueChange?: number;      // USD, held movers only
+}
+
+const pct = (v: number) => `${v >= 0 ? '+' : ''}${v.toFixed(1)}%`;
+const BAND_ORDER = ['Very Low Risk', 'Low Risk', 'Neutral', 'Elevated Risk', 'High Risk', 'Extreme Risk'];
+
+export function personalHighlights(facts: PersonalFacts | null | undefined): PersonalHighlight[] {
+  if (!facts) return [];
+  const out: PersonalHighlight[] = [];
+  for (const b of facts.bandChanges) {
+    const rising = BAND_ORDER.indexOf(b.to) > BAND_ORDER.indexOf(b.from);
+    out.push({ key: `band-${b.asset}`, asset: b.asset, label: `→ ${b.to}`, tone: rising ? 'warning' : 'info' });
+  }
+  for (const s of facts.tradeSignals) {
+    const sell = s.signalType.includes('sell');
+    out.push({
+      key: `signal-${s.asset}-${s.signalType}`,
+      asset: s.asset,
+      label: `${s.signalType.replace('_', ' ')} signal${s.status === 'triggered' ? ' · triggered' : ''}`,
+      tone: sell ? 'down' : 'up',
+    });
+  }
+  for (const q of facts.qpsFlips) {
+    out.push({
+      key: `qps-${q.asset}`,
+      asset: q.asset,
+      label: `QPS ${q.from} → ${q.to}`,
+      tone: q.to === 'bullish' ? 'up' : q.to === 'bearish' ? 'down' : 'info',
+    });
+  }
+  for (const m of facts.movers) {
+    out.push({
+      key: `move-${m.asset}`,
+      asset: m.asset,
+      label: pct(m.change24h),
+      tone: m.change24h >= 0 ? 'up' : 'down',
+      ...(m.valueChange != null ? { valueChange: m.valueChange } : {}),
+    });
+  }
+  return out;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { accuracySeries, describeFlag, qualitySummary } from './quality';
+import type { BriefingQualityRow, FactFlag } from '@/lib/api/briefing-quality';
+
+const flag = (overrides: Partial<FactFlag> = {}): FactFlag => ({
+  metric: 'BTC', kind: 'level', cited: 101_200, expected: 97_450, issue: 'mismatch', snippet: 'BTC at $101,200', ...overrides,
+});
+
+const row = (date: string, checked: number, verified: number, overrides: Partial<BriefingQualityRow> = {}): BriefingQualityRow => ({
+  id: `${date}-${checked}`,
+  summary_date: date,
+  slot: 'morning',
+  summary: '',
+  review_status: checked === verified ? 'passed' : 'needs_review',
+  fact_accuracy: checked ? verified / checked : null,
+  fact_check: {
+    figures: checked, checked, verified, accuracy: checked ? verified / checked : null,
+    flags: Array.from({ length: checked - verified }, () => flag()), regenerated: false,
+  },
+  generated_at: `${date}T14:00:00Z`,
+  reviewed_at: null,
+  ...overrides,
+});
+
+describe('briefing quality', () => {
+  it('pools accuracy over figures and skips unchecked briefings', () => {
+    const rows = [
+      row('2026-07-25', 10, 10),
+      row('2026-07-25', 2, 1, { fact_check: { figures: 2, checked: 2, verified: 1, accuracy: 0.5, flags: [flag({ metric: 'ETH', issue: 'stale' })], regenerated: true } }),
+      row('2026-07-24', 4, 2),
+      row('2026-07-20', 0, 0, { review_status: 'unchecked', fact_check: null }),
+    ];
+    const s = qualitySummary(rows);
+    expect(s.briefings).toBe(3);
+    expect(s.accuracy).toBeCloseTo(13 / 16, 10);
+    expect(s.regenerated).toBe(1);
+    expect(s.pending).toBe(2);
+    expect(s.byIssue).toEqual({ mismatch: 2, stale: 1, wrong_direction: 0, no_source: 0 });
+    expect(s.byMetric).toEqual([{ metric: 'BTC', flags: 2 }, { metric: 'ETH', flags: 1 }]);
+  });
+
+  it('builds daily and trailing accuracy oldest first', () => {
+    const series = accuracySeries([row('2026-07-26', 4, 4), row('2026-07-25', 4, 2), row('2026-07-24', 0, 0)], 2);
+    expect(series.map((p) => p.date)).toEqual(['2026-07-24', '2026-07-25', '2026-07-26']);
+    expect(series[0]).toEqual({ date: '2026-07-24', accuracy: null, rolling: null });
+    expect(series[1].accuracy).toBe(50);
+    expect(series[2].rolling).toBe(75);
+  });
+
+  it('describes a flag against the expected value', () => {
+    expect(describeFlag(flag())).toBe('101,200 vs 97,450');
+    expect(describeFlag(flag({ kind: 'change', cited: 2.1, expected: -2.14 }))).toBe('+2.10% vs -2.14%');
+    expect(describeFlag(flag({ expected: null }))).toBe('101,200 — not in the data');
+  });
+});
@@ -0,0 +1,94 @@
+import type { BriefingQualityRow, FactFlag, FlagIssue } from '@/lib/api/briefing-quality';
+
+/**
+ * Accuracy tracking for the briefing fact-check page. Accuracy is pooled over
+ * figures, not averaged per briefing, so a briefing citing twelve numbers
+ * weighs more than one citing two. Briefings from before fact-checking
+ * (status "unchecked") are left out.
+ */
+
+export const ISSUE_LABELS: Record<FlagIssue, string> = {
+  mismatch: 'Wrong value',
+  stale: 'Stale',
+  wrong_direction: 'Wrong direction',
+  no_source: 'No source',
+};
+
+export interface QualitySummary {
+  briefings: number;
+  checked: number;            // figures
+  verified: number;
+  accuracy: number | null;    // fraction
+  regenerated: number;        // briefings
+  pending: number;            // awaiting review
+  byIssue: Record<FlagIssue, number>;
+  byMetric: { metric: string; flags: number }[];
+}
+
+const checkedRows = (rows: BriefingQualityRow[]) => rows.filter((r) => r.review_status !== 'unchecked' && r.fact_check);
+
+export function qualitySummary(rows: BriefingQualityRow[]): QualitySummary {
+  const byIssue: Record<FlagIssue, number> = { mismatch: 0, stale: 0, wrong_direction: 0, no_source: 0 };
+  const byMetric = new Map<string, number>();
+  let checked = 0;
+  let verified = 0;
+  let regenerated = 0;
+  const list = checkedRows(rows);
+  for (const r of list) {
+    const fc = r.fact_check!;
+    checked += fc.checked;
+    verified += fc.verified;
+    if (fc.regenerated) regenerated++;
+    for (const f of fc.flags) {
+      byIssue[f.issue]++;
+      byMetric.set(f.metric, (byMetric.get(f.metric) ?? 0) + 1);
+    }
+  }
+  return {
+    briefings: list.length,
+    checked,
+    verified,
+    accuracy: checked ? verified / checked : null,
+    regenerated,
+    pending: list.filter((r) => r.review_status === 'needs_review').length,
+    byIssue,
+    byMetric: [...byMetric].map(([metric, flags]) => ({ metric, flags })).sort((a, b) => b.flags - a.flags),
+  };
+}
+
+export interface AccuracyPoint {
+  date: string;
+  accuracy: number | null;    // %, that day's pooled figures
+  rolling: number | null;     // %, trailing 7 days pooled
+}
+
+/** Daily accuracy, oldest first, with a trailing 7-day pooled line. */
+export function accuracySeries(rows: BriefingQualityRow[], window = 7): AccuracyPoint[] {
+  const byDate = new Map<string, { checked: number; verified: number }>();
+  for (const r of checkedRows(rows)) {
+    const d = byDate.get(r.summary_date) ?? { checked: 0, verified: 0 };
+    d.checked += r.fact_check!.checked;
+    d.verified += r.fact_check!.verified;
+    byDate.set(r.summary_date, d);
+  }
+  const days = [...byDate].sort(([a], [b]) => a.localeCompare(b));
+  return days.map(([date, d], i) => {
+    const trailing = days.slice(Math.max(0, i - window + 1), i + 1);
+    const c = trailing.reduce((s, [, t]) => s + t.checked, 0);
+    const v = trailing.reduce((s, [, t]) => s + t.verified, 0);
+    return {
+      date,
+      accuracy: d.checked ? (d.verified / d.checked) * 100 : null,
+      rolling: c ? (v / c) * 100 : null,
+    };
+  });
+}
+
+/** A flag as "cited vs expected", e.g. "101,200 vs 97,450". */
+export function describeFlag(f: FactFlag): string {
+  const fmt = (v: number) =>
+    f.kind === 'change'
+      ? `${v > 0 ? '+' : ''}${v.toFixed(2)}%`
+      : v.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  return f.expected == null ? `${fmt(f.cited)} — not in the data` : `${fmt(f.cited)} vs ${fmt(f.expected)}`;
+}
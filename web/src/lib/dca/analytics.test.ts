@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { advance, analyzeDCA, scheduledDates, slotFor } from './analytics';
+import type { DCAInvestment, DCAReminder } from '@/types';
+
+const reminder = (patch: Partial<DCAReminder> = {}): DCAReminder => ({
+  id: 'r1',
+  user_id: 'u1',
+  symbol: 'BTC',
+  name: 'Bitcoin',
+  amount: 100,
+  frequency: 'weekly',
+  completed_purchases: 0,
+  notification_time: '09:00:00',
+  start_date: '2026-03-01',
+  is_active: true,
+  created_at: '2026-03-01T09:00:00Z',
+  ...patch,
+});
+
+let n = 0;
+const buy = (date: string, price: number, patch: Partial<DCAInvestment> = {}): DCAInvestment => ({
+  id: `i${n++}`,
+  reminder_id: 'r1',
+  amount: 100,
+  price_at_purchase: price,
+  quantity: 100 / price,
+  purchase_date: date,
+  ...patch,
+});
+
+describe('DCA analytics', () => {
+  it('walks the schedule the reminder dates follow', () => {
+    expect(advance('2026-01-31', 'monthly')).toBe('2026-03-03');
+    expect(scheduledDates(reminder(), '2026-03-22')).toEqual(['2026-03-08', '2026-03-15', '2026-03-22']);
+    expect(scheduledDates(reminder({ total_purchases: 2 }), '2026-12-31')).toHaveLength(2);
+  });
+
+  it('classifies scheduled buys as on time, late, missed or still due', () => {
+    const a = analyzeDCA(reminder(), [
+      buy('2026-03-08', 50),
+      buy('2026-03-18', 40),                                 // 3 days late for the 15th
+      buy('2026-03-30', 25, { scheduled_date: '2026-03-22' }), // logged against the 22nd
+    ], 50, [], '2026-03-31');
+    expect(a.slots.map((s) => s.status)).toEqual(['on_time', 'late', 'late', 'due']);
+    expect(a.slots[2].daysLate).toBe(8);
+
+    const b = analyzeDCA(reminder(), [buy('2026-03-08', 50)], 50, [], '2026-03-31');
+    expect(b.slots.map((s) => s.status)).toEqual(['on_time', 'missed', 'missed', 'due']);
+    expect(b.missed).toBe(2);
+  });
+
+  it('compares average cost with a lump sum at the first scheduled price', () => {
+    const a = analyzeDCA(reminder(), [buy('2026-03-08', 100), buy('2026-03-15', 50)], 80, [
+      { date: '2026-03-07', value: 90 },
+      { date: '2026-03-08', value: 100 },
+    ], '2026-03-16');
+    expect(a.invested).toBe(200);
+    expect(a.quantity).toBeCloseTo(3, 10);
+    expect(a.averageCost).toBeCloseTo(200 / 3, 10);
+    expect(a.pnl).toBeCloseTo(40, 10);
+    expect(a.lumpSum!.quantity).toBeCloseTo(2, 10);
+    expect(a.lumpSum!.advantage).toBeCloseTo(240 - 160, 10);
+    expect(a.cadence).toEqual({ scheduledDays: 7, actualDays: 7 });
+  });
+
+  it('projects the rest of a fixed-length plan at today\'s price', () => {
+    const a = analyzeDCA(reminder({ total_purchases: 5 }), [buy('2026-03-08', 100), buy('2026-03-15', 100)], 50, [], '2026-03-16');
+    expect(a.projection.purchases).toBe(3);
+    expect(a.projection.endDate).toBe('2026-04-05');
+    expect(a.projection.invested).toBe(500);
+    expect(a.projection.quantity).toBeCloseTo(2 + 300 / 50, 10);
+    expect(a.projection.averageCost).toBeCloseTo(62.5, 10);
+
+    const paused = analyzeDCA(reminder({ is_active: false }), [], 50, [], '2026-03-16');
+    expect(paused.projection.purchases).toBe(0);
+  });
+
+  it('stamps purchases with the slot they fall in, so a skipped buy shows as missed', () => {
+    const r = reminder();
+    expect(slotFor(r, '2026-03-07')).toBe('2026-03-08');   // a day early counts
+    expect(slotFor(r, '2026-03-18')).toBe('2026-03-15');   // late for the 15th
+    expect(slotFor(r, '2026-03-02')).toBe('2026-03-08');   // before the first slot
+
+    // Bought on the 8th, skipped the 15th, bought again on the 22nd and 29th
+    const logged = ['2026-03-08', '2026-03-22', '2026-03-29'].map((d) => buy(d, 50, { scheduled_date: slotFor(r, d) }));
+    expect(logged.map((p) => p.scheduled_date)).toEqual(['2026-03-08', '2026-03-22', '2026-03-29']);
+    const a = analyzeDCA(r, logged, 50, [], '2026-03-30');
+    expect(a.slots.map((s) => s.status)).toEqual(['on_time', 'missed', 'on_time', 'on_time']);
+    expect(a.missed).toBe(1);
+    expect(a.late).toBe(0);
+  });
+});
@@ -0,0 +1,199 @@
+import { valueAt, type SeriesPoint } from '@/lib/portfolio/benchmark';
+import type { DCAFrequency, DCAInvestment, DCAReminder } from '@/types';
+
+/**
+ * DCA plan analytics — how a reminder's logged purchases compare with its
+ * schedule and with the alternatives.
+ *
+ * The schedule is the sequence next_reminder_date walks through: one period
+ * after start_date, then every period after that (capped at total_purchases
+ * when the plan has a length). Each scheduled buy is matched to the first
+ * unmatched purchase logged against it (scheduled_date, set by slotFor), or
+ * else made from the day before it up to the day before the next one. Within
+ * LATE_GRACE_DAYS it is on time, after that late; with no purchase it is
+ * missed once the next buy comes round, and due until then.
+ *
+ * Lump sum puts everything invested so far in at the price of the first
+ * scheduled buy. The projection continues the plan at today's price: to its
+ * last purchase when it has a length, over the next PROJECTION_DAYS if not.
+ */
+
+export const LATE_GRACE_DAYS = 1;
+export const PROJECTION_DAYS = 365;
+
+const DAY_MS = 86_400_000;
+
+/** The scheduled date one period after `fromISO` (YYYY-MM-DD). */
+export function advance(fromISO: string, freq: string): string {
+  const d = new Date(fromISO + (fromISO.length <= 10 ? 'T12:00:00' : ''));
+  switch (freq) {
+    case 'daily': d.setDate(d.getDate() + 1); break;
+    case 'twice_weekly': d.setDate(d.getDate() + 3); break;
+    case 'weekly': d.setDate(d.getDate() + 7); break;
+    case 'biweekly': d.setDate(d.getDate() + 14); break;
+    case 'monthly': d.setMonth(d.getMonth() + 1); break;
+    default: d.setDate(d.getDate() + 7);
+  }
+  return d.toISOString().split('T')[0];
+}
+
+const days = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+const shift = (date: string, n: number) => new Date(Date.parse(date) + n * DAY_MS).toISOString().slice(0, 10);
+
+/** Scheduled buy dates from the plan's start through `until`, inclusive. */
+export function scheduledDates(
+  reminder: Pick<DCAReminder, 'start_date' | 'frequency' | 'total_purchases'>,
+  until: string,
+): string[] {
+  const out: string[] = [];
+  const cap = reminder.total_purchases ?? Infinity;
+  for (let d = advance(reminder.start_date, reminder.frequency); d <= until && out.length < cap; d = advance(d, reminder.frequency)) {
+    out.push(d);
+  }
+  return out;
+}
+
+/**
+ * The scheduled buy a purchase made on `day` counts toward: the slot whose
+ * window (the day before it up to the day before the next) holds the day, or
+ * the first slot for a buy made before the plan's first date.
+ */
+export function slotFor(
+  reminder: Pick<DCAReminder, 'start_date' | 'frequency' | 'total_purchases'>,
+  day: string,
+): string {
+  const slots = scheduledDates(reminder, shift(day, 1));
+  return slots.length ? slots[slots.length - 1] : advance(reminder.start_date, reminder.frequency);
+}
+
+export type SlotStatus = 'on_time' | 'late' | 'missed' | 'due';
+
+export interface DCASlot {
+  scheduled: string;
+  status: SlotStatus;
+  purchase: DCAInvestment | null;
+  daysLate: number | null;
+}
+
+export interface DCAAnalytics {
+  invested: number;
+  quantity: number;
+  averageCost: number | null;
+  currentPrice: number | null;
+  currentValue: number | null;
+  pnl: number | null;
+  pnlPct: number | null;
+  lumpSum: {
+    price: number;
+    quantity: number;
+    value: number | null;
+    advantage: number | null;   // DCA value minus lump-sum value
+  } | null;
+  slots: DCASlot[];             // scheduled so far, oldest first
+  onTime: number;
+  late: number;
+  missed: number;
+  unscheduled: number;          // purchases no scheduled buy claimed
+  cadence: {
+    scheduledDays: number;      // mean days between scheduled buys
+    actualDays: number | null;  // mean days between logged purchases
+  };
+  projection: {
+    purchases: number;          // still to come
+    endDate: string | null;
+    invested: number;
+    quantity: number | null;    // at today's price
+    value: number | null;
+    averageCost: number | null;
+  };
+}
+
+const mean = (xs: number[]) => (xs.length ? xs.reduce((s, x) => s + x, 0) / xs.length : null);
+const gaps = (dates: string[]) => dates.slice(1).map((d, i) => days(dates[i], d));
+
+/** The nominal period, for plans with fewer than two scheduled buys. */
+const PERIOD_DAYS: Record<DCAFrequency, number> = { daily: 1, twice_weekly: 3, weekly: 7, biweekly: 14, monthly: 30 };
+
+export function analyzeDCA(
+  reminder: DCAReminder,
+  investments: DCAInvestment[],
+  currentPrice: number | null,
+  prices: SeriesPoint[] = [],
+  today: string = new Date().toISOString().slice(0, 10),
+): DCAAnalytics {
+  const purchases = [...investments].sort((a, b) => a.purchase_date.localeCompare(b.purchase_date));
+  const invested = purchases.reduce((s, p) => s + Number(p.amount), 0);
+  const quantity = purchases.reduce((s, p) => s + Number(p.quantity), 0);
+  const averageCost = quantity > 0 ? invested / quantity : null;
+  const currentValue = currentPrice != null ? quantity * currentPrice : null;
+  const pnl = currentValue != null ? currentValue - invested : null;
+
+  // Match scheduled buys to purchases
+  const schedule = scheduledDates(reminder, today);
+  const claimed = new Set<string>();
+  const slots: DCASlot[] = schedule.map((scheduled, i) => {
+    const next = schedule[i + 1] ?? advance(scheduled, reminder.frequency);
+    const day = (p: DCAInvestment) => p.purchase_date.slice(0, 10);
+    const purchase = purchases.find((p) => !claimed.has(p.id) && p.scheduled_date === scheduled)
+      ?? purchases.find((p) => !claimed.has(p.id) && !p.scheduled_date && day(p) >= shift(scheduled, -1) && day(p) < shift(next, -1))
+      ?? null;
+    if (purchase) {
+      claimed.add(purchase.id);
+      const late = Math.max(days(scheduled, day(purchase)), 0);
+      return { scheduled, purchase, daysLate: late, status: late > LATE_GRACE_DAYS ? 'late' : 'on_time' };
+    }
+    // The current period's buy can still be made
+    return { scheduled, purchase: null, daysLate: null, status: next > today ? 'due' : 'missed' };
+  });
+
+  const firstPrice = schedule.length
+    ? valueAt(prices, schedule[0]) ?? (purchases[0] ? Number(purchases[0].price_at_purchase) : null)
+    : null;
+  const lumpQuantity = firstPrice ? invested / firstPrice : 0;
+  const lumpValue = firstPrice && currentPrice != null ? lumpQuantity * currentPrice : null;
+
+  // Continue the plan from its next date
+  const cap = reminder.total_purchases ?? Infinity;
+  const horizon = reminder.total_purchases != null ? '9999-12-31' : shift(today, PROJECTION_DAYS);
+  const future: string[] = [];
+  if (reminder.is_active) {
+    let d = schedule.length ? advance(schedule[schedule.length - 1], reminder.frequency) : advance(reminder.start_date, reminder.frequency);
+    // A buy still due counts as to come
+    if (slots.length && slots[slots.length - 1].status === 'due') d = slots[slots.length - 1].scheduled;
+    const done = slots.filter((s) => s.status !== 'due').length;
+    for (; d <= horizon && done + future.length < cap; d = advance(d, reminder.frequency)) future.push(d);
+  }
+  const futureInvested = future.length * Number(reminder.amount);
+  const projectedQuantity = currentPrice ? quantity + futureInvested / currentPrice : null;
+  const scheduledDays = mean(gaps(schedule)) ?? PERIOD_DAYS[reminder.frequency] ?? 7;
+
+  return {
+    invested,
+    quantity,
+    averageCost,
+    currentPrice,
+    currentValue,
+    pnl,
+    pnlPct: pnl != null && invested > 0 ? (pnl / invested) * 100 : null,
+    lumpSum: firstPrice
+      ? { price: firstPrice, quantity: lumpQuantity, value: lumpValue, advantage: lumpValue != null && currentValue != null ? currentValue - lumpValue : null }
+      : null,
+    slots,
+    onTime: slots.filter((s) => s.status === 'on_time').length,
+    late: slots.filter((s) => s.status === 'late').length,
+    missed: slots.filter((s) => s.status === 'missed').length,
+    unscheduled: purchases.length - claimed.size,
+    cadence: {
+      scheduledDays,
+      actualDays: mean(gaps(purchases.map((p) => p.purchase_date.slice(0, 10)))),
+    },
+    projection: {
+      purchases: future.length,
+      endDate: future.length ? future[future.length - 1] : null,
+      invested: invested + futureInvested,
+      quantity: projectedQuantity,
+      value: projectedQuantity != null && currentPrice != null ? projectedQuantity * currentPrice : null,
+      averageCost: projectedQuantity ? (invested + futureInvested) / projectedQuantity : null,
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_RISK_MULTIPLIERS, previewRiskBuys, resolveMultipliers, riskAdjustedAmount, riskBandKey, simulateRiskDCA,
+} from './risk-adjusted';
+
+describe('risk-adjusted DCA', () => {
+  it('maps risk onto the RISK_BANDS thresholds', () => {
+    expect(riskBandKey(0.1)).toBe('very_low');
+    expect(riskBandKey(0.4)).toBe('neutral');
+    expect(riskBandKey(0.69)).toBe('elevated');
+    expect(riskBandKey(0.95)).toBe('extreme');
+  });
+
+  it('scales the base amount by the band multiplier and falls back without risk', () => {
+    expect(riskAdjustedAmount(100, 0.3, DEFAULT_RISK_MULTIPLIERS)).toEqual({ amount: 150, band: 'low', multiplier: 1.5 });
+    expect(riskAdjustedAmount(100, 0.92, DEFAULT_RISK_MULTIPLIERS).amount).toBe(0);
+    expect(riskAdjustedAmount(100, null, DEFAULT_RISK_MULTIPLIERS)).toEqual({ amount: 100, band: null, multiplier: 1 });
+  });
+
+  it('fills stored multipliers over the defaults and clamps them', () => {
+    const m = resolveMultipliers({ low: 3, high: -1, extreme: 99 });
+    expect(m).toEqual({ ...DEFAULT_RISK_MULTIPLIERS, low: 3, high: 0, extreme: 5 });
+  });
+
+  it('previews the next buys on the schedule', () => {
+    const p = previewRiskBuys(100, 'weekly', '2026-03-08', 0.6, DEFAULT_RISK_MULTIPLIERS, 3);
+    expect(p.map((b) => b.date)).toEqual(['2026-03-08', '2026-03-15', '2026-03-22']);
+    expect(p.every((b) => b.amount === 50 && b.band === 'elevated')).toBe(true);
+  });
+
+  it('backtests against plain DCA on the same schedule', () => {
+    const history = [
+      { date: '2026-01-01', risk_level: 0.1, price: 100 },
+      { date: '2026-01-08', risk_level: 0.1, price: 100 },   // very low: 2×
+      { date: '2026-01-15', risk_level: 0.95, price: 400 },  // extreme: skipped
+      { date: '2026-01-20', risk_level: 0.5, price: 200 },
+    ];
+    const sim = simulateRiskDCA(history, 100, 'weekly', DEFAULT_RISK_MULTIPLIERS)!;
+    expect(sim.plain.invested).toBe(200);
+    expect(sim.plain.quantity).toBeCloseTo(1.25, 10);
+    expect(sim.risk.invested).toBe(200);
+    expect(sim.risk.quantity).toBeCloseTo(2, 10);
+    expect(sim.risk.buys).toBe(1);
+    expect(sim.risk.value).toBe(400);
+    expect(sim.byBand.extreme).toEqual({ buys: 1, invested: 0 });
+    expect(sim.points.at(-1)?.date).toBe('2026-01-20');
+    expect(simulateRiskDCA(history.slice(0, 1), 100, 'weekly', DEFAULT_RISK_MULTIPLIERS)).toBeNull();
+  });
+});
@@ -0,0 +1,177 @@
+import { RISK_BANDS, riskBandFor, type RiskBandInfo } from '@/lib/risk/multi-factor';
+import { advance } from '@/lib/dca/analytics';
+import type { DCAFrequency, DCAReminder, DCARiskBand, DCARiskMultipliers } from '@/types';
+
+/**
+ * Risk-adjusted DCA — each scheduled buy is the plan's base amount times the
+ * multiplier for the band the asset's regression risk sits in on the day
+ * (RISK_BANDS thresholds). Buying more at low risk and less or nothing at high
+ * risk is the accumulation rule the risk model is built around.
+ *
+ * Without a risk reading the buy falls back to the base amount, so a plan on
+ * an asset the model does not cover behaves like a fixed one.
+ */
+
+/** Band keys in RISK_BANDS order. */
+export const DCA_RISK_BANDS: DCARiskBand[] = ['very_low', 'low', 'neutral', 'elevated', 'high', 'extreme'];
+
+export const DEFAULT_RISK_MULTIPLIERS: DCARiskMultipliers = {
+  very_low: 2,
+  low: 1.5,
+  neutral: 1,
+  elevated: 0.5,
+  high: 0.25,
+  extreme: 0,
+};
+
+export const MAX_RISK_MULTIPLIER = 5;
+
+export function riskBandKey(risk: number): DCARiskBand {
+  return DCA_RISK_BANDS[RISK_BANDS.indexOf(riskBandFor(risk))];
+}
+
+export function riskBandInfo(band: DCARiskBand): RiskBandInfo {
+  return RISK_BANDS[DCA_RISK_BANDS.indexOf(band)];
+}
+
+/** Stored multipliers over the defaults, clamped to [0, MAX_RISK_MULTIPLIER]. */
+export function resolveMultipliers(stored?: Partial<DCARiskMultipliers> | null): DCARiskMultipliers {
+  const out = { ...DEFAULT_RISK_MULTIPLIERS };
+  for (const band of DCA_RISK_BANDS) {
+    const v = Number(stored?.[band]);
+    if (stored?.[band] != null && Number.isFinite(v)) out[band] = Math.min(Math.max(v, 0), MAX_RISK_MULTIPLIER);
+  }
+  return out;
+}
+
+export interface RiskAdjustedBuy {
+  amount: number;
+  band: DCARiskBand | null;   // null without a risk reading
+  multiplier: number;
+}
+
+export function riskAdjustedAmount(base: number, risk: number | null | undefined, multipliers: DCARiskMultipliers): RiskAdjustedBuy {
+  if (risk == null || !Number.isFinite(risk)) return { amount: base, band: null, multiplier: 1 };
+  const band = riskBandKey(risk);
+  return { amount: base * multipliers[band], band, multiplier: multipliers[band] };
+}
+
+/** The buy a reminder calls for at `risk`; fixed plans always buy their amount. */
+export function plannedBuy(
+  reminder: Pick<DCAReminder, 'amount' | 'strategy' | 'risk_multipliers'>,
+  risk: number | null | undefined,
+): RiskAdjustedBuy {
+  const base = Number(reminder.amount);
+  if (reminder.strategy !== 'risk_adjusted') return { amount: base, band: null, multiplier: 1 };
+  return riskAdjustedAmount(base, risk, resolveMultipliers(reminder.risk_multipliers));
+}
+
+/** The next `count` scheduled buys from `from` (inclusive), sized at today's risk. */
+export function previewRiskBuys(
+  base: number,
+  frequency: string,
+  from: string,
+  risk: number | null | undefined,
+  multipliers: DCARiskMultipliers,
+  count = 4,
+): (RiskAdjustedBuy & { date: string })[] {
+  const buy = riskAdjustedAmount(base, risk, multipliers);
+  const out: (RiskAdjustedBuy & { date: string })[] = [];
+  for (let d = from; out.length < count; d = advance(d, frequency)) out.push({ date: d, ...buy });
+  return out;
+}
+
+/* ── Backtest ── */
+
+export interface RiskPricePoint {
+  date: string;
+  risk_level: number;
+  price: number;
+}
+
+export interface StrategyResult {
+  invested: number;
+  quantity: number;
+  value: number;
+  averageCost: number | null;
+  returnPct: number | null;
+  buys: number;               // buys that spent something
+}
+
+export interface RiskDCASimulation {
+  points: { date: string; plainInvested: number; plainValue: number; riskInvested: number; riskValue: number }[];
+  plain: StrategyResult;
+  risk: StrategyResult;
+  byBand: Record<DCARiskBand, { buys: number; invested: number }>;
+  start: string;
+  end: string;
+}
+
+function result(invested: number, quantity: number, price: number, buys: number): StrategyResult {
+  const value = quantity * price;
+  return {
+    invested,
+    quantity,
+    value,
+    averageCost: quantity > 0 ? invested / quantity : null,
+    returnPct: invested > 0 ? (value / invested - 1) * 100 : null,
+    buys,
+  };
+}
+
+/**
+ * Replays the schedule over a risk history (oldest first): plain DCA buys
+ * `base` every time, risk-adjusted buys `base × multiplier` for the band on
+ * the day. Each buy uses the latest reading at or before its date; the first
+ * buy is one period after the first reading, as with a plan started that day.
+ * Both are marked to the last reading's price.
+ */
+export function simulateRiskDCA(
+  history: RiskPricePoint[],
+  base: number,
+  frequency: DCAFrequency | string,
+  multipliers: DCARiskMultipliers,
+): RiskDCASimulation | null {
+  const rows = history.filter((h) => h.price > 0 && Number.isFinite(h.risk_level));
+  if (rows.length < 2) return null;
+  const end = rows[rows.length - 1];
+
+  const byBand = Object.fromEntries(DCA_RISK_BANDS.map((b) => [b, { buys: 0, invested: 0 }])) as RiskDCASimulation['byBand'];
+  const points: RiskDCASimulation['points'] = [];
+  let plainInvested = 0, plainQty = 0, plainBuys = 0;
+  let riskInvested = 0, riskQty = 0, riskBuys = 0;
+
+  let i = 0;
+  for (let d = advance(rows[0].date, frequency); d <= end.date; d = advance(d, frequency)) {
+    while (i + 1 < rows.length && rows[i + 1].date <= d) i++;
+    const { price, risk_level } = rows[i];
+    const buy = riskAdjustedAmount(base, risk_level, multipliers);
+
+    plainInvested += base;
+    plainQty += base / price;
+    plainBuys++;
+    if (buy.amount > 0) {
+      riskInvested += buy.amount;
+      riskQty += buy.amount / price;
+      riskBuys++;
+    }
+    if (buy.band) {
+      byBand[buy.band].buys++;
+      byBand[buy.band].invested += buy.amount;
+    }
+    points.push({ date: d, plainInvested, plainValue: plainQty * price, riskInvested, riskValue: riskQty * price });
+  }
+  if (!points.length) return null;
+  if (points[points.length - 1].date < end.date) {
+    points.push({ date: end.date, plainInvested, plainValue: plainQty * end.price, riskInvested, riskValue: riskQty * end.price });
+  }
+
+  return {
+    points,
+    plain: result(plainInvested, plainQty, end.price, plainBuys),
+    risk: result(riskInvested, riskQty, end.price, riskBuys),
+    byBand,
+    start: rows[0].date,
+    end: end.date,
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { colors } from '@/theme/tokens';
+import { PAGE_H, PAGE_W, clampLines, formatPrice, formatWeekRange, layoutDeck, textWidth, toDeckSlides, wrapText } from './layout';
+import type { DeckSlide } from '@/types';
+
+const slide = (type: string, payload: Record<string, unknown>, title = ''): DeckSlide => ({ id: type, type, title, payload });
+
+const texts = (ops: ReturnType<typeof layoutDeck>[number]['ops']) =>
+  ops.flatMap((op) => (op.kind === 'text' ? op.lines : []));
+
+describe('deck layout', () => {
+  it('wraps to Helvetica metrics and clamps with an ellipsis', () => {
+    expect(textWidth('Hello', 10)).toBeCloseTo(22.78, 2);
+    expect(textWidth('Hello', 10, true)).toBeGreaterThan(textWidth('Hello', 10));
+
+    const lines = wrapText('risk assets rallied into the close as yields eased', 12, 120);
+    expect(lines.length).toBeGreaterThan(1);
+    for (const line of lines) expect(textWidth(line, 12)).toBeLessThanOrEqual(120);
+    expect(lines.join(' ')).toBe('risk assets rallied into the close as yields eased');
+
+    const clamped = clampLines('one two three four five six seven eight nine ten', 12, 60, 2);
+    expect(clamped).toHaveLength(2);
+    expect(clamped[1].endsWith('…')).toBe(true);
+  });
+
+  it('formats figures and week ranges without locale dependence', () => {
+    expect(formatPrice(97_432.6)).toBe('$97,433');
+    expect(formatPrice(2.5)).toBe('$2.50');
+    expect(formatPrice(null)).toBe('—');
+    expect(formatWeekRange('2026-07-20', '2026-07-26')).toBe('Jul 20 – Jul 26, 2026');
+    expect(formatWeekRange('2025-12-29', '2026-01-04')).toBe('Dec 29, 2025 – Jan 4, 2026');
+  });
+
+  it('normalizes stored slide JSON', () => {
+    const slides = toDeckSlides(JSON.stringify([{ type: 'cover', title: 'Week 30', data: { type: 'cover', payload: { regime: 'Risk-On' } } }]));
+    expect(slides).toEqual([{ id: '0', type: 'cover', title: 'Week 30', payload: { regime: 'Risk-On' } }]);
+    expect(toDeckSlides('not json')).toEqual([]);
+  });
+
+  it('lays out each slide type on brand, inside the page, with a footer', () => {
+    const pages = layoutDeck({
+      week_start: '2026-07-20',
+      week_end: '2026-07-26',
+      slides: [
+        slide('cover', { regime: 'Risk-On', btc_price: 97_000, btc_weekly_change: -2.1, fear_greed_start: 55, fear_greed_end: 61 }, 'Weekly Market Update'),
+        slide('correlation', {
+          groups: [{ group: 'Equities', assets: [{ symbol: 'SPY', week_change: 1.2, signal: 'bullish', price: 612 }] }],
+          narrative: 'Stocks and crypto decoupled.',
+        }),
+        slide('marketPulse', { assets: [{ symbol: 'BTC', week_change: -2.1, week_close: 97_000, sparkline: [1, 3, 2] }] }),
+        slide('snapshot', { asset_risks: [{ symbol: 'BTC', risk_level: 0.62, risk_label: 'Elevated' }], spy_price: 612, fear_greed_end: 61 }),
+        slide('editorial', { category: 'Macro', bullets: [{ text: 'Fed held rates', detail: 'Two cuts priced by December.' }] }, 'What Moved Markets'),
+        slide('weeklyOutlook', { headline: 'CPI is the week’s pivot.', tone: 'bullish', look_ahead: ['CPI Wednesday'], risk_asset_impact: 'A soft print extends the rally.' }),
+        slide('rundown', { summary: 'Quiet week.' }),
+      ],
+    });
+
+    expect(pages).toHaveLength(7);
+    expect(pages[0].background).toBe(colors.background.dark);
+    expect(texts(pages[0].ops)).toEqual(expect.arrayContaining(['Weekly Market Update', 'Risk-On', '$97,000', '-2.10%']));
+    expect(texts(pages[1].ops)).toEqual(expect.arrayContaining(['Cross-Asset Snapshot', 'EQUITIES', 'SPY', '+1.20%', 'Stocks and crypto decoupled.']));
+    expect(pages[2].ops.some((op) => op.kind === 'polyline' && op.stroke === colors.error)).toBe(true);
+    expect(texts(pages[3].ops).some((t) => t.includes('Elevated'))).toBe(true);
+    expect(texts(pages[4].ops)).toEqual(expect.arrayContaining(['MACRO', 'What Moved Markets', 'Fed held rates']));
+    expect(texts(pages[5].ops)).toEqual(expect.arrayContaining(['Bullish', 'CPI Wednesday']));
+    expect(pages[6].title).toBe('Rundown');
+
+    // The cover carries no footer; the rest are numbered.
+    expect(texts(pages[0].ops)).not.toContain('1 / 7');
+    expect(texts(pages[6].ops)).toContain('7 / 7');
+
+    for (const page of pages) {
+      for (const op of page.ops) {
+        if (op.kind !== 'rect' && op.kind !== 'text') continue;
+        expect(op.x).toBeGreaterThanOrEqual(0);
+        expect(op.x + op.w).toBeLessThanOrEqual(PAGE_W);
+        expect(op.y).toBeGreaterThanOrEqual(0);
+        expect(op.y + (op.kind === 'rect' ? op.h : op.lines.length * op.lineHeight)).toBeLessThanOrEqual(PAGE_H);
+      }
+    }
+  });
+});
@@ -0,0 +1,521 @@
+import { colors } from '@/theme/tokens';
+import type { DeckSlide } from '@/types';
+
+/**
+ * Lays out a Weekly Update deck as pages of positioned shapes and text, the
+ * common input of the PDF and PPTX writers. Units are points on a 16:9 page
+ * with the origin at the top left; text is pre-wrapped against Helvetica
+ * metrics (Arial in the PPTX matches them) so both files break lines alike.
+ */
+
+export const PAGE_W = 960;
+export const PAGE_H = 540;
+const MARGIN = 48;
+const CONTENT_W = PAGE_W - MARGIN * 2;
+const FOOTER_Y = PAGE_H - 36;
+const CONTENT_BOTTOM = FOOTER_Y - 16;
+
+export const DECK_TITLE = 'ArkLine Weekly Market Update';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export type DrawOp =
+  | { kind: 'rect'; x: number; y: number; w: number; h: number; fill: string; radius?: number }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; stroke: string; width: number }
+  | { kind: 'polyline'; points: [number, number][]; stroke: string; width: number }
+  | {
+      kind: 'text';
+      x: number;
+      y: number;
+      w: number;
+      /** Text broken to fit `w`; the first line's box starts at `y`. */
+      lines: string[];
+      size: number;
+      lineHeight: number;
+      color: string;
+      bold?: boolean;
+      align?: TextAlign;
+    };
+
+export interface DeckPage {
+  title: string;
+  background: string;
+  ops: DrawOp[];
+}
+
+/** Document properties written into both files. */
+export interface DeckMeta {
+  title: string;
+  author?: string;
+  createdAt?: Date;
+}
+
+export interface DeckInput {
+  week_start: string;
+  week_end: string;
+  slides: DeckSlide[];
+}
+
+/* ── Palette (dark theme, the deck's look in the app) ── */
+
+const C = {
+  bg: colors.background.dark,
+  card: colors.card.dark,
+  fill: colors.fillSecondary.dark,
+  divider: colors.divider.dark,
+  text: colors.textPrimary.dark,
+  muted: colors.textTertiary.dark,
+  faint: colors.textDisabled.dark,
+  primary: colors.primary,
+  success: colors.success,
+  warning: colors.warning,
+  error: colors.error,
+  mesh: colors.meshIndigo,
+};
+
+/** Blend two #RRGGBB colors; t=0 gives `a`, t=1 gives `b`. */
+export function mix(a: string, b: string, t: number): string {
+  const pa = parseInt(a.slice(1), 16);
+  const pb = parseInt(b.slice(1), 16);
+  const ch = (shift: number) => {
+    const x = (pa >> shift) & 255;
+    const y = (pb >> shift) & 255;
+    return Math.round(x + (y - x) * t).toString(16).padStart(2, '0');
+  };
+  return `#${ch(16)}${ch(8)}${ch(0)}`.toUpperCase();
+}
+
+const tint = (color: string, t = 0.18) => mix(C.bg, color, t);
+
+const signalColor = (s: string) =>
+  s === 'bullish' ? C.success : s === 'bearish' ? C.error : C.warning;
+
+const riskColor = (lvl: number) =>
+  lvl < 0.3 ? C.success : lvl < 0.5 ? C.warning : lvl < 0.7 ? '#F97316' : C.error;
+
+/* ── Text metrics ── */
+
+// Helvetica / Helvetica-Bold advance widths (1/1000 em) for ASCII 32–126.
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const WIDE: Record<string, number> = { '—': 1000, '…': 1000, '–': 556, '•': 350, '‘': 222, '’': 222, '“': 333, '”': 333 };
+
+export function textWidth(text: string, size: number, bold = false): number {
+  const table = bold ? HELVETICA_BOLD : HELVETICA;
+  let units = 0;
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? table[code - 32] : WIDE[ch] ?? 556;
+  }
+  return (units * size) / 1000;
+}
+
+/** Greedy word wrap; words wider than the line are broken by character. */
+export function wrapText(text: string, size: number, maxWidth: number, bold = false): string[] {
+  const lines: string[] = [];
+  for (const para of text.split('\n')) {
+    let line = '';
+    for (const word of para.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (textWidth(line, size, bold) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), size, bold) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** Wrap, then cut to `maxLines` with an ellipsis on the last kept line. */
+export function clampLines(text: string, size: number, maxWidth: number, maxLines: number, bold = false): string[] {
+  const lines = wrapText(text, size, maxWidth, bold);
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, Math.max(1, maxLines));
+  let last = kept[kept.length - 1];
+  while (last && textWidth(`${last}…`, size, bold) > maxWidth) last = last.slice(0, -1);
+  kept[kept.length - 1] = `${last.trimEnd()}…`;
+  return kept;
+}
+
+/* ── Payload helpers ── */
+
+function asStr(v: unknown): string {
+  if (v == null) return '';
+  if (typeof v === 'string') return v;
+  if (typeof v === 'number' || typeof v === 'boolean') return String(v);
+  return JSON.stringify(v);
+}
+
+function num(v: unknown): number | null {
+  if (v == null || v === '') return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toArray(v: unknown): unknown[] {
+  if (Array.isArray(v)) return v;
+  if (v == null || v === '') return [];
+  return [v];
+}
+
+function bulletText(b: unknown): { text: string; detail?: string } {
+  if (b && typeof b === 'object') {
+    const o = b as Record<string, unknown>;
+    const text = asStr(o.text ?? o.point ?? o.title ?? o.headline ?? '');
+    const detail = o.detail != null ? asStr(o.detail) : undefined;
+    return { text: text || JSON.stringify(o), detail };
+  }
+  return { text: asStr(b) };
+}
+
+const titleCase = (s: string) =>
+  s.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+
+export function formatPct(v: unknown): string {
+  const n = num(v);
+  return n == null ? '—' : `${n >= 0 ? '+' : ''}${n.toFixed(2)}%`;
+}
+
+export function formatPrice(v: unknown): string {
+  const n = num(v);
+  if (n == null) return '—';
+  const digits = n < 10 ? 2 : 0;
+  const [whole, frac] = n.toFixed(digits).split('.');
+  return `$${whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',')}${frac ? `.${frac}` : ''}`;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** "Jul 20 – Jul 26, 2026" (or "Dec 29, 2025 – Jan 4, 2026" across years). */
+export function formatWeekRange(start: string, end: string): string {
+  const [sy, sm, sd] = start.split('-').map(Number);
+  const [ey, em, ed] = end.split('-').map(Number);
+  const s = `${MONTHS[sm - 1]} ${sd}`;
+  const e = `${MONTHS[em - 1]} ${ed}, ${ey}`;
+  return sy === ey ? `${s} – ${e}` : `${s}, ${sy} – ${e}`;
+}
+
+/** Normalize market_update_decks.slides (jsonb, occasionally a JSON string). */
+export function toDeckSlides(raw: unknown): DeckSlide[] {
+  let value = raw;
+  if (typeof value === 'string') {
+    try { value = JSON.parse(value); } catch { value = []; }
+  }
+  const arr = Array.isArray(value) ? value : [];
+  return arr.map((s: Record<string, unknown>, i) => {
+    const dataObj = (s.data as Record<string, unknown> | undefined) ?? {};
+    return {
+      id: String(s.id ?? i),
+      type: String(s.type ?? dataObj.type ?? 'slide'),
+      title: String(s.title ?? ''),
+      payload: (dataObj.payload as Record<string, unknown>) ?? {},
+    };
+  });
+}
+
+/* ── Page builder ── */
+
+class Page {
+  ops: DrawOp[] = [];
+
+  rect(x: number, y: number, w: number, h: number, fill: string, radius?: number) {
+    this.ops.push({ kind: 'rect', x, y, w, h, fill, radius });
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, stroke = C.divider, width = 1) {
+    this.ops.push({ kind: 'line', x1, y1, x2, y2, stroke, width });
+  }
+
+  /** Place wrapped text and return the y just below it. */
+  text(
+    text: string,
+    x: number,
+    y: number,
+    w: number,
+    opts: { size: number; color?: string; bold?: boolean; align?: TextAlign; maxLines?: number; leading?: number },
+  ): number {
+    if (!text) return y;
+    const { size, color = C.text, bold, align, maxLines = 50, leading = 1.3 } = opts;
+    const lines = clampLines(text, size, w, maxLines, bold);
+    const lineHeight = size * leading;
+    this.ops.push({ kind: 'text', x, y, w, lines, size, lineHeight, color, bold, align });
+    return y + lines.length * lineHeight;
+  }
+
+  heading(title: string, eyebrow?: string): number {
+    let y = MARGIN;
+    if (eyebrow) y = this.text(eyebrow.toUpperCase(), MARGIN, y, CONTENT_W, { size: 10, bold: true, color: C.primary }) + 4;
+    y = this.text(title, MARGIN, y, CONTENT_W, { size: 26, bold: true, maxLines: 2, leading: 1.2 });
+    return y + 20;
+  }
+
+  stat(x: number, y: number, w: number, label: string, value: string, valueColor: string = C.text) {
+    this.rect(x, y, w, 72, C.card, 10);
+    this.text(label.toUpperCase(), x + 16, y + 14, w - 32, { size: 9, bold: true, color: C.muted, maxLines: 1 });
+    this.text(value, x + 16, y + 32, w - 32, { size: 22, bold: true, color: valueColor, maxLines: 1 });
+  }
+
+  stats(y: number, items: { label: string; value: string; color?: string }[]): number {
+    if (!items.length) return y;
+    const gap = 16;
+    const w = (CONTENT_W - gap * (items.length - 1)) / items.length;
+    items.forEach((s, i) => this.stat(MARGIN + i * (w + gap), y, w, s.label, s.value, s.color));
+    return y + 72 + 24;
+  }
+
+  bullets(items: { text: string; detail?: string }[], x: number, y: number, w: number, size = 15): number {
+    for (const b of items) {
+      if (y + size * 1.3 > CONTENT_BOTTOM) break;
+      this.rect(x, y + size * 0.45, 6, 6, C.primary, 3);
+      const room = Math.max(1, Math.floor((CONTENT_BOTTOM - y) / (size * 1.3)));
+      y = this.text(b.text, x + 18, y, w - 18, { size, maxLines: Math.min(4, room) });
+      if (b.detail && y + 12 * 1.35 <= CONTENT_BOTTOM) {
+        const detailRoom = Math.floor((CONTENT_BOTTOM - y) / (12 * 1.35));
+        y = this.text(b.detail, x + 18, y + 2, w - 18, { size: 12, color: C.muted, leading: 1.35, maxLines: Math.min(3, detailRoom) });
+      }
+      y += 12;
+    }
+    return y;
+  }
+}
+
+/* ── Slides ── */
+
+type AssetRow = { symbol?: unknown; name?: unknown; price?: unknown; week_close?: unknown; week_change?: unknown; signal?: unknown; sparkline?: unknown };
+
+const ROW_H = 30;
+
+function assetRows(page: Page, rows: ({ header: string } | AssetRow)[], y: number, bottom: number) {
+  const capacity = Math.max(1, Math.floor((bottom - y) / ROW_H));
+  const columns = rows.length > capacity ? 2 : 1;
+  const gap = 24;
+  const colW = (CONTENT_W - gap * (columns - 1)) / columns;
+
+  rows.slice(0, capacity * columns).forEach((row, i) => {
+    const x = MARGIN + Math.floor(i / capacity) * (colW + gap);
+    const ry = y + (i % capacity) * ROW_H;
+    if ('header' in row) {
+      page.text(row.header.toUpperCase(), x, ry + 12, colW, { size: 9, bold: true, color: C.muted, maxLines: 1 });
+      return;
+    }
+    page.rect(x, ry, colW, ROW_H - 4, C.card, 6);
+    const mid = ry + (ROW_H - 4) / 2;
+    page.text(asStr(row.symbol ?? row.name), x + 12, mid - 6.5, 64, { size: 12, bold: true, maxLines: 1 });
+
+    const spark = toArray(row.sparkline).map(Number).filter(Number.isFinite);
+    const change = num(row.week_change);
+    const changeColor = change == null ? C.muted : change >= 0 ? C.success : C.error;
+    if (spark.length > 1) {
+      const sx = x + 84;
+      const sw = Math.min(140, colW - 320);
+      const lo = Math.min(...spark);
+      const span = Math.max(...spark) - lo || 1;
+      if (sw > 20) {
+        page.ops.push({
+          kind: 'polyline',
+          points: spark.map((v, k) => [sx + (k / (spark.length - 1)) * sw, mid + 8 - ((v - lo) / span) * 16]),
+          stroke: changeColor,
+          width: 1.5,
+        });
+      }
+    }
+
+    const right = x + colW - 12;
+    const signal = asStr(row.signal);
+    if (signal) page.rect(right - 8, mid - 4, 8, 8, signalColor(signal), 4);
+    const sigPad = signal ? 16 : 0;
+    page.text(formatPct(change), right - sigPad - 72, mid - 6, 72, { size: 11, bold: true, color: changeColor, align: 'right', maxLines: 1 });
+    page.text(formatPrice(row.price ?? row.week_close), right - sigPad - 72 - 110, mid - 6, 104, {
+      size: 11, color: C.muted, align: 'right', maxLines: 1,
+    });
+  });
+}
+
+function layoutSlide(slide: DeckSlide, deck: DeckInput): Page {
+  const page = new Page();
+  const p = slide.payload ?? {};
+
+  switch (slide.type) {
+    case 'cover': {
+      page.rect(0, 0, PAGE_W, 200, tint(C.mesh, 0.6));
+      page.rect(0, 196, PAGE_W, 4, C.primary);
+      page.text('ARKLINE', MARGIN, 56, CONTENT_W, { size: 12, bold: true, color: colors.accentLight });
+      page.text(slide.title || 'Weekly Market Update', MARGIN, 80, CONTENT_W, { size: 38, bold: true, maxLines: 1 });
+      page.text(formatWeekRange(deck.week_start, deck.week_end), MARGIN, 134, CONTENT_W, { size: 16, color: C.muted });
+      let y = 236;
+      if (p.regime != null) {
+        page.text('MARKET REGIME', MARGIN, y, CONTENT_W, { size: 10, bold: true, color: C.muted });
+        y = page.text(asStr(p.regime), MARGIN, y + 18, CONTENT_W, { size: 28, bold: true, color: C.primary, maxLines: 1 }) + 24;
+      }
+      const change = num(p.btc_weekly_change);
+      const stats = [
+        p.btc_price != null && { label: 'BTC', value: formatPrice(p.btc_price) },
+        p.btc_weekly_change != null && {
+          label: 'BTC Weekly', value: formatPct(p.btc_weekly_change), color: (change ?? 0) >= 0 ? C.success : C.error,
+        },
+        p.fear_greed_start != null && { label: 'Fear & Greed Start', value: asStr(p.fear_greed_start) },
+        p.fear_greed_end != null && { label: 'Fear & Greed End', value: asStr(p.fear_greed_end) },
+      ].filter(Boolean) as { label: string; value: string; color?: string }[];
+      page.stats(y, stats);
+      return page;
+    }
+
+    case 'sectionTitle': {
+      page.rect(MARGIN, 226, 48, 4, C.primary, 2);
+      const y = page.text(slide.title, MARGIN, 244, CONTENT_W, { size: 36, bold: true, maxLines: 2, leading: 1.15 });
+      if (p.subtitle != null) page.text(asStr(p.subtitle), MARGIN, y + 10, CONTENT_W * 0.75, { size: 16, color: C.muted, maxLines: 3 });
+      return page;
+    }
+
+    case 'editorial': {
+      const y = page.heading(slide.title, p.category != null ? asStr(p.category) : undefined);
+      page.bullets(toArray(p.bullets).map(bulletText), MARGIN, y, CONTENT_W);
+      return page;
+    }
+
+    case 'weeklyOutlook': {
+      let y = page.heading(slide.title || 'Weekly Outlook');
+      const tone = asStr(p.tone);
+      if (tone) {
+        const label = titleCase(tone);
+        const w = textWidth(label, 11, true) + 24;
+        const color = tone === 'bullish' ? C.success : tone === 'bearish' ? C.error : tone === 'neutral' ? C.warning : C.muted;
+        page.rect(PAGE_W - MARGIN - w, MARGIN + 4, w, 22, tint(color, 0.25), 11);
+        page.text(label, PAGE_W - MARGIN - w, MARGIN + 9, w, { size: 11, bold: true, color, align: 'center', maxLines: 1 });
+      }
+      if (p.headline != null) y = page.text(asStr(p.headline), MARGIN, y, CONTENT_W, { size: 18, maxLines: 3 }) + 20;
+
+      const colW = (CONTENT_W - 24) / 2;
+      const ahead = toArray(p.look_ahead).map(bulletText);
+      const hasImpact = p.risk_asset_impact != null;
+      const aheadW = hasImpact ? colW : CONTENT_W;
+      if (ahead.length) {
+        page.text('LOOK AHEAD', MARGIN, y, aheadW, { size: 10, bold: true, color: C.muted });
+        page.bullets(ahead, MARGIN, y + 22, aheadW, 13);
+      }
+      if (hasImpact) {
+        const x = ahead.length ? MARGIN + colW + 24 : MARGIN;
+        const w = ahead.length ? colW : CONTENT_W;
+        page.rect(x, y, w, CONTENT_BOTTOM - y, C.card, 12);
+        page.text('RISK ASSET IMPACT', x + 20, y + 18, w - 40, { size: 10, bold: true, color: C.primary });
+        const lines = Math.floor((CONTENT_BOTTOM - y - 60) / (13 * 1.45));
+        page.text(asStr(p.risk_asset_impact), x + 20, y + 40, w - 40, { size: 13, color: C.text, leading: 1.45, maxLines: lines });
+      }
+      return page;
+    }
+
+    case 'correlation':
+    case 'marketPulse': {
+      const fallback = slide.type === 'correlation' ? 'Cross-Asset Snapshot' : 'Market Pulse';
+      const y = page.heading(slide.title || fallback);
+      const narrative = p.narrative != null ? asStr(p.narrative) : '';
+      const bottom = narrative ? CONTENT_BOTTOM - 56 : CONTENT_BOTTOM;
+      const groups = toArray(p.groups) as { group?: unknown; assets?: unknown }[];
+      const rows: ({ header: string } | AssetRow)[] = groups.length
+        ? groups.flatMap((g) => [
+            ...(g.group ? [{ header: asStr(g.group) }] : []),
+            ...(toArray(g.assets) as AssetRow[]),
+          ])
+        : (toArray(p.assets) as AssetRow[]);
+      assetRows(page, rows, y, bottom);
+      if (narrative) {
+        page.line(MARGIN, bottom + 8, PAGE_W - MARGIN, bottom + 8);
+        page.text(narrative, MARGIN, bottom + 18, CONTENT_W, { size: 12, color: C.muted, maxLines: 3 });
+      }
+      return page;
+    }
+
+    case 'snapshot': {
+      let y = page.heading(slide.title || 'Weekly Snapshot');
+      const fg = p.fear_greed_end ?? p.fear_greed_avg;
+      y = page.stats(y, [
+        p.spy_price != null && { label: 'SPY', value: `${formatPrice(p.spy_price)}  ${formatPct(p.spy_week_change)}` },
+        p.qqq_price != null && { label: 'QQQ', value: `${formatPrice(p.qqq_price)}  ${formatPct(p.qqq_week_change)}` },
+        fg != null && { label: 'Fear & Greed', value: asStr(fg) },
+        p.sentiment_regime != null && { label: 'Sentiment', value: asStr(p.sentiment_regime) },
+      ].filter(Boolean) as { label: string; value: string }[]);
+
+      const risks = toArray(p.asset_risks) as { symbol?: unknown; risk_level?: unknown; risk_label?: unknown; days_at_level?: unknown }[];
+      if (risks.length) {
+        page.text('ASSET RISK LEVELS', MARGIN, y, CONTENT_W, { size: 10, bold: true, color: C.muted });
+        y += 24;
+        const rowH = Math.min(30, (CONTENT_BOTTOM - y) / risks.length);
+        for (const r of risks) {
+          if (y + 14 > CONTENT_BOTTOM) break;
+          const lvl = Math.min(1, Math.max(0, num(r.risk_level) ?? 0));
+          page.text(asStr(r.symbol), MARGIN, y, 64, { size: 12, bold: true, maxLines: 1 });
+          const bx = MARGIN + 72;
+          const bw = CONTENT_W - 72 - 220;
+          page.rect(bx, y + 3, bw, 8, C.fill, 4);
+          if (lvl > 0) page.rect(bx, y + 3, Math.max(8, bw * lvl), 8, riskColor(lvl), 4);
+          const days = num(r.days_at_level);
+          const label = [lvl.toFixed(2), asStr(r.risk_label), days != null ? `${days}d at level` : ''].filter(Boolean).join(' · ');
+          page.text(label, bx + bw + 16, y, 204, { size: 11, color: C.muted, maxLines: 1 });
+          y += rowH;
+        }
+      }
+      return page;
+    }
+
+    default: {
+      let y = page.heading(slide.title || titleCase(slide.type));
+      for (const [k, v] of Object.entries(p)) {
+        if (typeof v !== 'string' && typeof v !== 'number') continue;
+        if (y + 24 > CONTENT_BOTTOM) break;
+        page.text(titleCase(k), MARGIN, y, 240, { size: 12, color: C.muted, maxLines: 1 });
+        const next = page.text(asStr(v), MARGIN + 260, y, CONTENT_W - 260, {
+          size: 12, maxLines: Math.max(1, Math.floor((CONTENT_BOTTOM - y) / 15.6)),
+        });
+        page.line(MARGIN, next + 6, PAGE_W - MARGIN, next + 6);
+        y = next + 14;
+      }
+      return page;
+    }
+  }
+}
+
+function footer(page: Page, deck: DeckInput, n: number, total: number) {
+  page.line(MARGIN, FOOTER_Y, PAGE_W - MARGIN, FOOTER_Y);
+  const y = FOOTER_Y + 10;
+  page.text(DECK_TITLE, MARGIN, y, 300, { size: 9, bold: true, color: C.muted, maxLines: 1 });
+  page.text(formatWeekRange(deck.week_start, deck.week_end), PAGE_W / 2 - 150, y, 300, {
+    size: 9, color: C.faint, align: 'center', maxLines: 1,
+  });
+  page.text(`${n} / ${total}`, PAGE_W - MARGIN - 100, y, 100, { size: 9, color: C.faint, align: 'right', maxLines: 1 });
+}
+
+export function layoutDeck(deck: DeckInput): DeckPage[] {
+  const total = deck.slides.length;
+  return deck.slides.map((slide, i) => {
+    const page = layoutSlide(slide, deck);
+    if (slide.type !== 'cover') footer(page, deck, i + 1, total);
+    return {
+      title: slide.title || titleCase(slide.type),
+      background: C.bg,
+      ops: page.ops,
+    };
+  });
+}
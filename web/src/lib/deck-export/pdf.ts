@@ -0,0 +1,149 @@
+import { PAGE_H, PAGE_W, textWidth, type DeckMeta, type DeckPage, type DrawOp } from './layout';
+
+/**
+ * Writes laid-out deck pages as a PDF 1.4 file. Only the standard Helvetica
+ * faces are used, so nothing is embedded; text goes through WinAnsiEncoding,
+ * which covers Latin-1 plus the dashes, quotes and bullets briefings use.
+ */
+
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+/** Map text to WinAnsi byte values (as a binary string); unmappable characters become "?". */
+export function toWinAnsi(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) out += ch;
+    else if (WIN_ANSI_EXTRA[ch]) out += String.fromCharCode(WIN_ANSI_EXTRA[ch]);
+    else if (ch === '\t') out += ' ';
+    else out += '?';
+  }
+  return out;
+}
+
+const pdfString = (bin: string) => `(${bin.replace(/[\\()]/g, (c) => `\\${c}`)})`;
+
+/** UTF-16BE hex string with BOM, for document info entries. */
+function pdfTextString(text: string): string {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  return `<${hex}>`;
+}
+
+const n = (v: number) => (Math.round(v * 100) / 100).toString();
+
+function rgb(hex: string): string {
+  const v = parseInt(hex.slice(1), 16);
+  return [(v >> 16) & 255, (v >> 8) & 255, v & 255].map((c) => n(c / 255)).join(' ');
+}
+
+// Bezier control-point factor for quarter circles.
+const K = 0.5523;
+
+function rectPath(x: number, top: number, w: number, h: number, r = 0): string {
+  const y = PAGE_H - top - h;
+  r = Math.min(r, w / 2, h / 2);
+  if (r <= 0) return `${n(x)} ${n(y)} ${n(w)} ${n(h)} re`;
+  const k = r * K;
+  const x2 = x + w;
+  const y2 = y + h;
+  return [
+    `${n(x + r)} ${n(y)} m`,
+    `${n(x2 - r)} ${n(y)} l`,
+    `${n(x2 - r + k)} ${n(y)} ${n(x2)} ${n(y + r - k)} ${n(x2)} ${n(y + r)} c`,
+    `${n(x2)} ${n(y2 - r)} l`,
+    `${n(x2)} ${n(y2 - r + k)} ${n(x2 - r + k)} ${n(y2)} ${n(x2 - r)} ${n(y2)} c`,
+    `${n(x + r)} ${n(y2)} l`,
+    `${n(x + r - k)} ${n(y2)} ${n(x)} ${n(y2 - r + k)} ${n(x)} ${n(y2 - r)} c`,
+    `${n(x)} ${n(y + r)} l`,
+    `${n(x)} ${n(y + r - k)} ${n(x + r - k)} ${n(y)} ${n(x + r)} ${n(y)} c`,
+    'h',
+  ].join('\n');
+}
+
+function drawOp(op: DrawOp): string {
+  switch (op.kind) {
+    case 'rect':
+      return `${rgb(op.fill)} rg\n${rectPath(op.x, op.y, op.w, op.h, op.radius)}\nf`;
+    case 'line':
+      return `${rgb(op.stroke)} RG ${n(op.width)} w\n${n(op.x1)} ${n(PAGE_H - op.y1)} m ${n(op.x2)} ${n(PAGE_H - op.y2)} l S`;
+    case 'polyline': {
+      const path = op.points.map(([x, y], i) => `${n(x)} ${n(PAGE_H - y)} ${i ? 'l' : 'm'}`).join(' ');
+      return `${rgb(op.stroke)} RG ${n(op.width)} w 1 J 1 j\n${path} S`;
+    }
+    case 'text': {
+      const font = op.bold ? '/F2' : '/F1';
+      return op.lines
+        .map((line, i) => {
+          if (!line) return '';
+          const width = textWidth(line, op.size, op.bold);
+          const x = op.align === 'right' ? op.x + op.w - width : op.align === 'center' ? op.x + (op.w - width) / 2 : op.x;
+          // Baseline sits at ~0.8em below the top of a line box centred in its leading.
+          const baseline = op.y + i * op.lineHeight + (op.lineHeight - op.size) / 2 + op.size * 0.8;
+          return `BT ${font} ${n(op.size)} Tf ${rgb(op.color)} rg ${n(x)} ${n(PAGE_H - baseline)} Td ${pdfString(toWinAnsi(line))} Tj ET`;
+        })
+        .filter(Boolean)
+        .join('\n');
+    }
+  }
+}
+
+export function pageContent(page: DeckPage): string {
+  const background = `${rgb(page.background)} rg\n0 0 ${PAGE_W} ${PAGE_H} re\nf`;
+  return [background, ...page.ops.map(drawOp)].join('\n');
+}
+
+function pdfDate(d: Date): string {
+  const p = (v: number) => String(v).padStart(2, '0');
+  return `D:${d.getUTCFullYear()}${p(d.getUTCMonth() + 1)}${p(d.getUTCDate())}${p(d.getUTCHours())}${p(d.getUTCMinutes())}${p(d.getUTCSeconds())}Z`;
+}
+
+export function renderPdf(pages: DeckPage[], meta: DeckMeta): Uint8Array {
+  // Objects: 1 catalog, 2 page tree, 3–4 fonts, 5 info, then a page + content pair per page.
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = [
+    '<<',
+    `/Title ${pdfTextString(meta.title)}`,
+    `/Author ${pdfTextString(meta.author ?? 'ArkLine')}`,
+    `/Producer ${pdfTextString('ArkLine deck export')}`,
+    `/CreationDate (${pdfDate(meta.createdAt ?? new Date())})`,
+    '>>',
+  ].join(' ');
+
+  pages.forEach((page, i) => {
+    const id = pageIds[i];
+    const content = pageContent(page);
+    objects[id] = [
+      '<< /Type /Page /Parent 2 0 R',
+      `/MediaBox [0 0 ${PAGE_W} ${PAGE_H}]`,
+      '/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >>',
+      `/Contents ${id + 1} 0 R >>`,
+    ].join(' ');
+    // Content is a binary (Latin-1) string, so its length is its byte count.
+    objects[id + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  let out = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = out.length;
+    out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = out.length;
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) out += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(out.length);
+  for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i);
+  return bytes;
+}
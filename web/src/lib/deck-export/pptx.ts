@@ -0,0 +1,247 @@
+import { colors } from '@/theme/tokens';
+import { PAGE_H, PAGE_W, type DeckMeta, type DeckPage, type DrawOp } from './layout';
+import { zip, type ZipEntry } from './zip';
+
+/**
+ * Writes laid-out deck pages as a PowerPoint (PPTX) file: one blank-layout
+ * slide per page, with every shape and text box placed where the PDF draws
+ * it. The theme carries the brand palette so recolouring in PowerPoint or
+ * Keynote stays on-brand.
+ */
+
+const EMU_PER_PT = 12700;
+const emu = (pt: number) => Math.round(pt * EMU_PER_PT);
+
+const NS = [
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"',
+].join(' ');
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const CT = 'application/vnd.openxmlformats-officedocument';
+
+export function escapeXml(text: string): string {
+  return text
+    // Control characters are not allowed in XML 1.0.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const hex = (color: string) => color.replace('#', '').toUpperCase();
+const solid = (color: string) => `<a:solidFill><a:srgbClr val="${hex(color)}"/></a:solidFill>`;
+const xfrm = (x: number, y: number, w: number, h: number, attrs = '') =>
+  `<a:xfrm${attrs}><a:off x="${emu(x)}" y="${emu(y)}"/><a:ext cx="${Math.max(1, emu(w))}" cy="${Math.max(1, emu(h))}"/></a:xfrm>`;
+const GROUP_HEADER =
+  '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+
+function shapeXml(op: DrawOp, id: number): string {
+  const nv = (name: string, extra = '') => `<p:nvSpPr><p:cNvPr id="${id}" name="${name} ${id}"/><p:cNvSpPr${extra}/><p:nvPr/></p:nvSpPr>`;
+
+  switch (op.kind) {
+    case 'rect': {
+      const r = Math.min(op.radius ?? 0, op.w / 2, op.h / 2);
+      const geom = r > 0
+        ? `<a:prstGeom prst="roundRect"><a:avLst><a:gd name="adj" fmla="val ${Math.round((r / Math.min(op.w, op.h)) * 100000)}"/></a:avLst></a:prstGeom>`
+        : '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>';
+      return `<p:sp>${nv('Shape')}<p:spPr>${xfrm(op.x, op.y, op.w, op.h)}${geom}${solid(op.fill)}<a:ln><a:noFill/></a:ln></p:spPr></p:sp>`;
+    }
+
+    case 'line': {
+      const flip = `${op.x2 < op.x1 ? ' flipH="1"' : ''}${op.y2 < op.y1 ? ' flipV="1"' : ''}`;
+      const box = xfrm(Math.min(op.x1, op.x2), Math.min(op.y1, op.y2), Math.abs(op.x2 - op.x1), Math.abs(op.y2 - op.y1), flip);
+      return `<p:cxnSp><p:nvCxnSpPr><p:cNvPr id="${id}" name="Line ${id}"/><p:cNvCxnSpPr/><p:nvPr/></p:nvCxnSpPr>` +
+        `<p:spPr>${box}<a:prstGeom prst="line"><a:avLst/></a:prstGeom><a:ln w="${emu(op.width)}">${solid(op.stroke)}</a:ln></p:spPr></p:cxnSp>`;
+    }
+
+    case 'polyline': {
+      const xs = op.points.map(([x]) => x);
+      const ys = op.points.map(([, y]) => y);
+      const x0 = Math.min(...xs);
+      const y0 = Math.min(...ys);
+      const w = Math.max(...xs) - x0;
+      const h = Math.max(...ys) - y0;
+      const pt = ([x, y]: [number, number]) => `<a:pt x="${emu(x - x0)}" y="${emu(y - y0)}"/>`;
+      const path = op.points.map((p, i) => (i ? `<a:lnTo>${pt(p)}</a:lnTo>` : `<a:moveTo>${pt(p)}</a:moveTo>`)).join('');
+      const cw = Math.max(1, emu(w));
+      const ch = Math.max(1, emu(h));
+      return `<p:sp>${nv('Sparkline')}<p:spPr>${xfrm(x0, y0, w, h)}` +
+        `<a:custGeom><a:avLst/><a:gdLst/><a:ahLst/><a:cxnLst/><a:rect l="0" t="0" r="r" b="b"/>` +
+        `<a:pathLst><a:path w="${cw}" h="${ch}" fill="none">${path}</a:path></a:pathLst></a:custGeom>` +
+        `<a:noFill/><a:ln w="${emu(op.width)}" cap="rnd">${solid(op.stroke)}<a:round/></a:ln></p:spPr></p:sp>`;
+    }
+
+    case 'text': {
+      const algn = op.align === 'center' ? 'ctr' : op.align === 'right' ? 'r' : 'l';
+      const rPr = `<a:rPr lang="en-US" sz="${Math.round(op.size * 100)}"${op.bold ? ' b="1"' : ''} dirty="0">` +
+        `${solid(op.color)}<a:latin typeface="Arial"/><a:cs typeface="Arial"/></a:rPr>`;
+      // Lines arrive wrapped against Helvetica metrics; keep PowerPoint from re-wrapping them.
+      const paras = op.lines.map((line) =>
+        `<a:p><a:pPr algn="${algn}"><a:lnSpc><a:spcPts val="${Math.round(op.lineHeight * 100)}"/></a:lnSpc></a:pPr>` +
+        (line ? `<a:r>${rPr}<a:t>${escapeXml(line)}</a:t></a:r>` : `<a:endParaRPr lang="en-US" sz="${Math.round(op.size * 100)}"/>`) +
+        '</a:p>').join('');
+      return `<p:sp>${nv('Text', ' txBox="1"')}<p:spPr>${xfrm(op.x, op.y, op.w, op.lines.length * op.lineHeight)}` +
+        '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr>' +
+        '<p:txBody><a:bodyPr wrap="none" lIns="0" tIns="0" rIns="0" bIns="0" anchor="t"><a:noAutofit/></a:bodyPr><a:lstStyle/>' +
+        `${paras}</p:txBody></p:sp>`;
+    }
+  }
+}
+
+export function slideXml(page: DeckPage): string {
+  const shapes = page.ops.map((op, i) => shapeXml(op, i + 2)).join('');
+  return XML_HEAD +
+    `<p:sld ${NS}><p:cSld name="${escapeXml(page.title)}">` +
+    `<p:bg><p:bgPr>${solid(page.background)}<a:effectLst/></p:bgPr></p:bg>` +
+    `<p:spTree>${GROUP_HEADER}${shapes}</p:spTree></p:cSld>` +
+    '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>';
+}
+
+function relsXml(rels: { id: string; type: string; target: string }[]): string {
+  return XML_HEAD +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    rels.map((r) => `<Relationship Id="${r.id}" Type="${r.type}" Target="${r.target}"/>`).join('') +
+    '</Relationships>';
+}
+
+function themeXml(): string {
+  const clr = (name: string, color: string) => `<a:${name}><a:srgbClr val="${hex(color)}"/></a:${name}>`;
+  const fill = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>';
+  const ln = (w: number) => `<a:ln w="${w}">${fill}</a:ln>`;
+  const effect = '<a:effectStyle><a:effectLst/></a:effectStyle>';
+  const font = '<a:latin typeface="Arial"/><a:ea typeface=""/><a:cs typeface=""/>';
+  return XML_HEAD +
+    '<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="ArkLine"><a:themeElements>' +
+    '<a:clrScheme name="ArkLine">' +
+    clr('dk1', colors.background.dark) + clr('lt1', colors.textPrimary.dark) +
+    clr('dk2', colors.card.dark) + clr('lt2', colors.textTertiary.dark) +
+    clr('accent1', colors.primary) + clr('accent2', colors.violet) + clr('accent3', colors.cyan) +
+    clr('accent4', colors.success) + clr('accent5', colors.warning) + clr('accent6', colors.error) +
+    clr('hlink', colors.accentLight) + clr('folHlink', colors.purple) +
+    '</a:clrScheme>' +
+    `<a:fontScheme name="ArkLine"><a:majorFont>${font}</a:majorFont><a:minorFont>${font}</a:minorFont></a:fontScheme>` +
+    '<a:fmtScheme name="ArkLine">' +
+    `<a:fillStyleLst>${fill}${fill}${fill}</a:fillStyleLst>` +
+    `<a:lnStyleLst>${ln(6350)}${ln(12700)}${ln(19050)}</a:lnStyleLst>` +
+    `<a:effectStyleLst>${effect}${effect}${effect}</a:effectStyleLst>` +
+    `<a:bgFillStyleLst>${fill}${fill}${fill}</a:bgFillStyleLst>` +
+    '</a:fmtScheme></a:themeElements></a:theme>';
+}
+
+export function renderPptx(pages: DeckPage[], meta: DeckMeta): Uint8Array {
+  const slideIds = pages.map((_, i) => i + 1);
+  const created = (meta.createdAt ?? new Date()).toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  const entries: ZipEntry[] = [
+    {
+      name: '[Content_Types].xml',
+      data: XML_HEAD +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        `<Override PartName="/ppt/presentation.xml" ContentType="${CT}.presentationml.presentation.main+xml"/>` +
+        `<Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="${CT}.presentationml.slideMaster+xml"/>` +
+        `<Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="${CT}.presentationml.slideLayout+xml"/>` +
+        slideIds.map((n) => `<Override PartName="/ppt/slides/slide${n}.xml" ContentType="${CT}.presentationml.slide+xml"/>`).join('') +
+        `<Override PartName="/ppt/theme/theme1.xml" ContentType="${CT}.theme+xml"/>` +
+        `<Override PartName="/ppt/presProps.xml" ContentType="${CT}.presentationml.presProps+xml"/>` +
+        `<Override PartName="/ppt/tableStyles.xml" ContentType="${CT}.presentationml.tableStyles+xml"/>` +
+        '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+        `<Override PartName="/docProps/app.xml" ContentType="${CT}.extended-properties+xml"/>` +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      data: relsXml([
+        { id: 'rId1', type: `${REL}/officeDocument`, target: 'ppt/presentation.xml' },
+        { id: 'rId2', type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', target: 'docProps/core.xml' },
+        { id: 'rId3', type: `${REL}/extended-properties`, target: 'docProps/app.xml' },
+      ]),
+    },
+    {
+      name: 'docProps/core.xml',
+      data: XML_HEAD +
+        '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+        'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+        'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+        `<dc:title>${escapeXml(meta.title)}</dc:title><dc:creator>${escapeXml(meta.author ?? 'ArkLine')}</dc:creator>` +
+        `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>` +
+        '</cp:coreProperties>',
+    },
+    {
+      name: 'docProps/app.xml',
+      data: XML_HEAD +
+        '<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">' +
+        `<Application>ArkLine</Application><Slides>${pages.length}</Slides></Properties>`,
+    },
+    {
+      name: 'ppt/presentation.xml',
+      data: XML_HEAD +
+        `<p:presentation ${NS} saveSubsetFonts="1">` +
+        '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>' +
+        (pages.length ? `<p:sldIdLst>${slideIds.map((n) => `<p:sldId id="${255 + n}" r:id="rId${n + 4}"/>`).join('')}</p:sldIdLst>` : '') +
+        `<p:sldSz cx="${emu(PAGE_W)}" cy="${emu(PAGE_H)}"/><p:notesSz cx="6858000" cy="9144000"/>` +
+        '</p:presentation>',
+    },
+    {
+      name: 'ppt/_rels/presentation.xml.rels',
+      data: relsXml([
+        { id: 'rId1', type: `${REL}/slideMaster`, target: 'slideMasters/slideMaster1.xml' },
+        { id: 'rId2', type: `${REL}/theme`, target: 'theme/theme1.xml' },
+        { id: 'rId3', type: `${REL}/presProps`, target: 'presProps.xml' },
+        { id: 'rId4', type: `${REL}/tableStyles`, target: 'tableStyles.xml' },
+        ...slideIds.map((n) => ({ id: `rId${n + 4}`, type: `${REL}/slide`, target: `slides/slide${n}.xml` })),
+      ]),
+    },
+    { name: 'ppt/presProps.xml', data: `${XML_HEAD}<p:presentationPr ${NS}/>` },
+    {
+      name: 'ppt/tableStyles.xml',
+      data: `${XML_HEAD}<a:tblStyleLst xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>`,
+    },
+    {
+      name: 'ppt/slideMasters/slideMaster1.xml',
+      data: XML_HEAD +
+        `<p:sldMaster ${NS}><p:cSld>` +
+        '<p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>' +
+        `<p:spTree>${GROUP_HEADER}</p:spTree></p:cSld>` +
+        '<p:clrMap bg1="dk1" tx1="lt1" bg2="dk2" tx2="lt2" accent1="accent1" accent2="accent2" accent3="accent3" ' +
+        'accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>' +
+        '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>' +
+        '</p:sldMaster>',
+    },
+    {
+      name: 'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+      data: relsXml([
+        { id: 'rId1', type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+        { id: 'rId2', type: `${REL}/theme`, target: '../theme/theme1.xml' },
+      ]),
+    },
+    {
+      name: 'ppt/slideLayouts/slideLayout1.xml',
+      data: XML_HEAD +
+        `<p:sldLayout ${NS} type="blank" preserve="1"><p:cSld name="Blank"><p:spTree>${GROUP_HEADER}</p:spTree></p:cSld>` +
+        '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>',
+    },
+    {
+      name: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels',
+      data: relsXml([{ id: 'rId1', type: `${REL}/slideMaster`, target: '../slideMasters/slideMaster1.xml' }]),
+    },
+    { name: 'ppt/theme/theme1.xml', data: themeXml() },
+  ];
+
+  pages.forEach((page, i) => {
+    entries.push(
+      { name: `ppt/slides/slide${i + 1}.xml`, data: slideXml(page) },
+      {
+        name: `ppt/slides/_rels/slide${i + 1}.xml.rels`,
+        data: relsXml([{ id: 'rId1', type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' }]),
+      },
+    );
+  });
+
+  return zip(entries);
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { renderDeckFiles } from './render';
+import { escapeXml } from './pptx';
+import { toWinAnsi } from './pdf';
+import { crc32 } from './zip';
+import type { DeckSlide } from '@/types';
+
+const deck = {
+  week_start: '2026-07-20',
+  week_end: '2026-07-26',
+  slides: [
+    { id: 'a', type: 'cover', title: 'Weekly Market Update', payload: { regime: 'Risk-On' } },
+    { id: 'b', type: 'editorial', title: 'Rates & (Risk)', payload: { bullets: ['Powell — “patient”'] } },
+  ] as DeckSlide[],
+};
+
+const latin1 = (bytes: Uint8Array) => Array.from(bytes, (b) => String.fromCharCode(b)).join('');
+
+/** Read the stored entries of a zip back out via its central directory. */
+function unzip(bytes: Uint8Array): Map<string, string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const files = new Map<string, string>();
+  let at = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(at, true)).toBe(0x02014b50);
+    const crc = view.getUint32(at + 16, true);
+    const size = view.getUint32(at + 20, true);
+    const nameLen = view.getUint16(at + 28, true);
+    const local = view.getUint32(at + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(at + 46, at + 46 + nameLen));
+    const start = local + 30 + view.getUint16(local + 26, true);
+    const data = bytes.subarray(start, start + size);
+    expect(crc32(data)).toBe(crc);
+    files.set(name, new TextDecoder().decode(data));
+    at += 46 + nameLen;
+  }
+  return files;
+}
+
+describe('deck export files', () => {
+  const createdAt = new Date('2026-07-27T09:00:00Z');
+  const { pdf, pptx } = renderDeckFiles(deck, createdAt);
+
+  it('writes a PDF whose xref points at every object', () => {
+    const text = latin1(pdf);
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(text.match(/\/Type \/Page /g)).toHaveLength(2);
+
+    const xrefAt = Number(text.match(/startxref\n(\d+)/)![1]);
+    const [, first, count] = text.slice(xrefAt).match(/^xref\n(\d+) (\d+)/)!;
+    expect(first).toBe('0');
+    const entries = text.slice(xrefAt).split('\n').slice(3, 2 + Number(count));
+    entries.forEach((entry, i) => {
+      expect(text.slice(Number(entry.slice(0, 10))).startsWith(`${i + 1} 0 obj`)).toBe(true);
+    });
+
+    // Text is WinAnsi-encoded with PDF string escapes.
+    expect(text).toContain('(Rates & \\(Risk\\))');
+    expect(text).toContain(`(${toWinAnsi('Powell — “patient”')})`);
+    expect(toWinAnsi('— “x” ✓')).toBe('\x97 \x93x\x94 ?');
+  });
+
+  it('writes a PPTX package with a slide per page and the brand theme', () => {
+    const files = unzip(pptx);
+    expect([...files.keys()]).toEqual(expect.arrayContaining([
+      '[Content_Types].xml', '_rels/.rels', 'ppt/presentation.xml', 'ppt/theme/theme1.xml',
+      'ppt/slides/slide1.xml', 'ppt/slides/slide2.xml', 'ppt/slides/_rels/slide2.xml.rels',
+    ]));
+    expect(files.get('[Content_Types].xml')).toContain('/ppt/slides/slide2.xml');
+    expect(files.get('ppt/presentation.xml')).toContain('<p:sldSz cx="12192000" cy="6858000"/>');
+    expect(files.get('ppt/theme/theme1.xml')).toContain('<a:accent1><a:srgbClr val="3B82F6"/></a:accent1>');
+    expect(files.get('ppt/slides/slide2.xml')).toContain('<a:t>Rates &amp; (Risk)</a:t>');
+    expect(files.get('docProps/core.xml')).toContain('2026-07-27T09:00:00Z');
+    expect(escapeXml('a<b>"c"\u0001')).toBe('a&lt;b&gt;&quot;c&quot;');
+  });
+
+  it('is deterministic for the same deck and timestamp', () => {
+    const again = renderDeckFiles(deck, createdAt);
+    expect(again.pdf).toEqual(pdf);
+    expect(again.pptx).toEqual(pptx);
+  });
+});
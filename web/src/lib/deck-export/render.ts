@@ -0,0 +1,29 @@
+import { DECK_TITLE, formatWeekRange, layoutDeck, type DeckInput } from './layout';
+import { renderPdf } from './pdf';
+import { renderPptx } from './pptx';
+
+/** Weekly Update deck → shareable PDF and PPTX files. */
+
+export type DeckExportFormat = 'pdf' | 'pptx';
+
+export const DECK_EXPORT_FORMATS: DeckExportFormat[] = ['pdf', 'pptx'];
+
+export const DECK_EXPORT_MIME: Record<DeckExportFormat, string> = {
+  pdf: 'application/pdf',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+export function deckFileName(weekStart: string, format: DeckExportFormat): string {
+  return `arkline-weekly-${weekStart}.${format}`;
+}
+
+/** Storage path inside the deck-exports bucket; the folder is the deck id. */
+export function deckExportPath(deckId: string, weekStart: string, format: DeckExportFormat): string {
+  return `${deckId}/${deckFileName(weekStart, format)}`;
+}
+
+export function renderDeckFiles(deck: DeckInput, createdAt = new Date()): Record<DeckExportFormat, Uint8Array> {
+  const pages = layoutDeck(deck);
+  const meta = { title: `${DECK_TITLE} — ${formatWeekRange(deck.week_start, deck.week_end)}`, createdAt };
+  return { pdf: renderPdf(pages, meta), pptx: renderPptx(pages, meta) };
+}
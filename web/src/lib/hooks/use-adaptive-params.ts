@@ -0,0 +1,40 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchAdaptiveParamVersions, pinAdaptiveParams, rollbackAdaptiveParams } from '@/lib/api/adaptive-params';
+import { fetchSignalHistory } from '@/lib/api/signals';
+
+export function useAdaptiveParamVersions(enabled = true) {
+  return useQuery({
+    queryKey: ['adaptive-param-versions'],
+    queryFn: () => fetchAdaptiveParamVersions(),
+    enabled,
+    staleTime: 60_000,
+  });
+}
+
+/** Closed signals of the last 90 days, for per-version win rates. */
+export function useAdaptiveVersionOutcomes(enabled = true) {
+  return useQuery({
+    queryKey: ['signal-history', 90, 'adaptive'],
+    queryFn: () => fetchSignalHistory(90, 1000),
+    enabled,
+    staleTime: 5 * 60_000,
+  });
+}
+
+export function usePinAdaptiveParams() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (version: number | null) => pinAdaptiveParams(version),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['adaptive-param-versions'] }),
+  });
+}
+
+export function useRollbackAdaptiveParams() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (version: number) => rollbackAdaptiveParams(version),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['adaptive-param-versions'] }),
+  });
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from './use-auth';
+import { fetchAlertEvents, fetchAlertRules } from '@/lib/api/alerts';
+import { createAlertRule, deleteAlertRule, updateAlertRule, type AlertRuleInput } from '@/lib/api/alert-mutations';
+
+export function useAlertRules() {
+  const { authUser } = useAuth();
+  return useQuery({
+    queryKey: ['alert-rules', authUser?.id],
+    queryFn: () => fetchAlertRules(authUser!.id),
+    enabled: !!authUser?.id,
+    staleTime: 60_000,
+  });
+}
+
+export function useAlertEvents() {
+  const { authUser } = useAuth();
+  return useQuery({
+    queryKey: ['alert-events', authUser?.id],
+    queryFn: () => fetchAlertEvents(authUser!.id),
+    enabled: !!authUser?.id,
+    staleTime: 60_000,
+  });
+}
+
+function useInvalidate() {
+  const qc = useQueryClient();
+  const { authUser } = useAuth();
+  return () => qc.invalidateQueries({ queryKey: ['alert-rules', authUser?.id] });
+}
+
+export function useCreateAlertRule() {
+  const invalidate = useInvalidate();
+  const { authUser } = useAuth();
+  return useMutation({
+    mutationFn: (input: AlertRuleInput) => createAlertRule(authUser!.id, input),
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateAlertRule() {
+  const invalidate = useInvalidate();
+  return useMutation({
+    mutationFn: ({ id, patch }: { id: string; patch: Partial<AlertRuleInput> & { is_active?: boolean } }) => updateAlertRule(id, patch),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteAlertRule() {
+  const invalidate = useInvalidate();
+  return useMutation({ mutationFn: (id: string) => deleteAlertRule(id), onSuccess: invalidate });
+}
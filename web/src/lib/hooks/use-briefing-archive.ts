@@ -0,0 +1,36 @@
+'use client';
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import {
+  fetchBriefingArchive,
+  fetchBriefingMarketData,
+  searchBriefings,
+  type BriefingSlot,
+} from '@/lib/api/briefing-archive';
+
+export function useBriefingArchive(from: string, to: string, slot: BriefingSlot | null) {
+  return useQuery({
+    queryKey: ['briefing-archive', from, to, slot],
+    queryFn: () => fetchBriefingArchive(from, to, slot),
+    placeholderData: keepPreviousData,
+    staleTime: 5 * 60_000,
+  });
+}
+
+export function useBriefingMarketData(from: string, to: string) {
+  return useQuery({
+    queryKey: ['briefing-archive-market', from, to],
+    queryFn: () => fetchBriefingMarketData(from, to),
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 60_000,
+  });
+}
+
+export function useBriefingSearch(q: string, slot: BriefingSlot | null) {
+  return useQuery({
+    queryKey: ['briefing-search', q, slot],
+    queryFn: () => searchBriefings(q, slot),
+    enabled: q.trim().length > 0,
+    staleTime: 5 * 60_000,
+  });
+}
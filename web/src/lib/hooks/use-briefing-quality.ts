@@ -0,0 +1,24 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchBriefingQuality, reviewBriefing } from '@/lib/api/briefing-quality';
+
+export function useBriefingQuality(enabled = true) {
+  return useQuery({
+    queryKey: ['briefing-quality'],
+    queryFn: () => fetchBriefingQuality(),
+    enabled,
+    staleTime: 60_000,
+  });
+}
+
+export function useReviewBriefing() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, verdict }: { id: string; verdict: 'approved' | 'rejected' }) => reviewBriefing(id, verdict),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['briefing-quality'] });
+      qc.invalidateQueries({ queryKey: ['market-briefing'] });
+    },
+  });
+}
@@ -2,7 +2,7 @@
 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from './use-auth';
-import { createReminder, updateReminder, deleteReminder, logInvestment, type DCAReminderInput } from '@/lib/api/dca-mutations';
+import { createReminder, updateReminder, deleteReminder, logInvestment, type DCAPurchaseInput, type DCAReminderInput } from '@/lib/api/dca-mutations';
 import type { DCAReminder } from '@/types';
 
 function useInvalidate() {
@@ -35,5 +35,17 @@ export function useDeleteReminder() {
 
 export function useLogInvestment() {
   const invalidate = useInvalidate();
-  return useMutation({ mutationFn: (reminder: DCAReminder) => logInvestment(reminder), onSuccess: invalidate });
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ reminder, purchase }: { reminder: DCAReminder; purchase: DCAPurchaseInput }) => logInvestment(reminder, purchase),
+    onSuccess: (_data, { purchase }) => {
+      invalidate();
+      qc.invalidateQueries({ queryKey: ['dca-investments'] });
+      if (purchase.portfolioId) {
+        qc.invalidateQueries({ queryKey: ['holdings', purchase.portfolioId] });
+        qc.invalidateQueries({ queryKey: ['transactions', purchase.portfolioId] });
+        qc.invalidateQueries({ queryKey: ['tax-lots', purchase.portfolioId] });
+      }
+    },
+  });
 }
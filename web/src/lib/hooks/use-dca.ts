@@ -0,0 +1,27 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { fetchDCAInvestments } from '@/lib/api/dca';
+import { useAssetRiskLevels } from '@/lib/hooks/use-market';
+
+/** Logged purchases for a set of reminders. */
+export function useDCAInvestments(reminderIds: string[]) {
+  const key = [...reminderIds].sort().join(',');
+  return useQuery({
+    queryKey: ['dca-investments', key],
+    queryFn: () => fetchDCAInvestments(reminderIds),
+    enabled: reminderIds.length > 0,
+    staleTime: 300_000,
+  });
+}
+
+/** Today's regression risk by upper-case symbol, for sizing risk-adjusted buys. */
+export function useCurrentRiskLevels() {
+  const query = useAssetRiskLevels();
+  const levels = useMemo(
+    () => new Map((query.data ?? []).map((l) => [l.symbol.toUpperCase(), l.risk_value])),
+    [query.data],
+  );
+  return { ...query, levels };
+}
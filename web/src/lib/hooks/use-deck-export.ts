@@ -0,0 +1,21 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchDeckExports, renderDeckExports } from '@/lib/api/deck-export';
+
+export function useDeckExports(deckId: string | undefined) {
+  return useQuery({
+    queryKey: ['deck-exports', deckId],
+    queryFn: () => fetchDeckExports(deckId!),
+    enabled: !!deckId,
+    staleTime: 5 * 60_000,
+  });
+}
+
+export function useRenderDeckExports() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: renderDeckExports,
+    onSuccess: (_, deckId) => qc.invalidateQueries({ queryKey: ['deck-exports', deckId] }),
+  });
+}
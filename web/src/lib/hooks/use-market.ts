@@ -39,6 +39,7 @@ import {
   fetchSupplyInProfit,
   fetchAssetRiskLevels,
   fetchAssetRiskHistory,
+  fetchRiskSeries,
   fetchMacroDashboard,
   fetchAssetTechnical,
   fetchMarketBreadthDetail,
@@ -303,3 +304,14 @@ export function useAssetRiskHistory(asset: string, days: number) {
     staleTime: 300_000,
   });
 }
+
+/** Risk series for the given symbols; symbols without a risk model are absent. */
+export function useRiskSeries(symbols: string[], days: number) {
+  const key = [...new Set(symbols.map((s) => s.toUpperCase()))].sort();
+  return useQuery({
+    queryKey: ['risk-series', key.join(','), days],
+    queryFn: () => fetchRiskSeries(key, days),
+    enabled: key.length > 0,
+    staleTime: 300_000,
+  });
+}
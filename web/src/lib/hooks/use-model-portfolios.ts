@@ -6,6 +6,7 @@ import {
   fetchModelPortfolios,
   fetchModelPortfolioNav,
   fetchBenchmarkNav,
+  fetchBtcBenchmark,
   fetchModelPortfolioTrades,
   fetchFollowedModelPortfolio,
   setFollowedModelPortfolio,
@@ -36,6 +37,26 @@ export function useBenchmarkNav(days = 365) {
   });
 }
 
+/**
+ * Series for the portfolio benchmark overlay, keyed 'btc', 'spy' or a model
+ * portfolio id. One query per selection set; each series is fetched in parallel.
+ */
+export function useBenchmarkSeries(keys: string[], days = 365) {
+  return useQuery({
+    queryKey: ['benchmark-series', [...keys].sort(), days],
+    queryFn: async () => {
+      const series = await Promise.all(keys.map((key) =>
+        key === 'btc' ? fetchBtcBenchmark(days)
+          : key === 'spy' ? fetchBenchmarkNav(days)
+          : fetchModelPortfolioNav(key, days),
+      ));
+      return Object.fromEntries(keys.map((key, i) => [key, series[i].map((p) => ({ date: p.nav_date, value: Number(p.nav) }))]));
+    },
+    enabled: keys.length > 0,
+    staleTime: 900_000,
+  });
+}
+
 export function useModelPortfolioTrades(portfolioId: string | undefined) {
   return useQuery({
     queryKey: ['model-portfolio-trades', portfolioId],
@@ -0,0 +1,45 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from './use-auth';
+import { fetchPaperAccount } from '@/lib/api/paper-trading';
+import { deletePaperAccount, savePaperAccount, type PaperAccountInput } from '@/lib/api/paper-trading-mutations';
+import { fetchSignalsTriggeredSince } from '@/lib/api/signals';
+
+export function usePaperAccount() {
+  const { authUser } = useAuth();
+  return useQuery({
+    queryKey: ['paper-account', authUser?.id],
+    queryFn: () => fetchPaperAccount(authUser!.id),
+    enabled: !!authUser?.id,
+    staleTime: 60_000,
+  });
+}
+
+/** Signals the account could have followed — everything triggered since it started. */
+export function usePaperSignals(since: string | undefined) {
+  return useQuery({
+    queryKey: ['paper-signals', since],
+    queryFn: () => fetchSignalsTriggeredSince(since!),
+    enabled: !!since,
+    staleTime: 5 * 60_000,
+  });
+}
+
+export function useSavePaperAccount() {
+  const qc = useQueryClient();
+  const { authUser } = useAuth();
+  return useMutation({
+    mutationFn: ({ input, startedAt }: { input: PaperAccountInput; startedAt?: string }) => savePaperAccount(authUser!.id, input, startedAt),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['paper-account', authUser?.id] }),
+  });
+}
+
+export function useDeletePaperAccount() {
+  const qc = useQueryClient();
+  const { authUser } = useAuth();
+  return useMutation({
+    mutationFn: () => deletePaperAccount(authUser!.id),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['paper-account', authUser?.id] }),
+  });
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from './use-auth';
+import { fetchPersonalBriefing } from '@/lib/api/personal-briefing';
+
+export function usePersonalBriefing() {
+  const { authUser } = useAuth();
+  return useQuery({
+    queryKey: ['personal-briefing', authUser?.id],
+    queryFn: fetchPersonalBriefing,
+    enabled: !!authUser?.id,
+    staleTime: 900_000,
+    retry: false,
+  });
+}
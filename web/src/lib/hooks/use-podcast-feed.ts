@@ -0,0 +1,20 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchPodcastFeedToken, rotatePodcastFeedToken } from '@/lib/api/podcast-feed';
+
+export function usePodcastFeedToken() {
+  return useQuery({
+    queryKey: ['podcast-feed-token'],
+    queryFn: fetchPodcastFeedToken,
+    staleTime: 5 * 60_000,
+  });
+}
+
+export function useRotatePodcastFeedToken() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: rotatePodcastFeedToken,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['podcast-feed-token'] }),
+  });
+}
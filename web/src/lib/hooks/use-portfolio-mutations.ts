@@ -1,7 +1,9 @@
 'use client';
 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { recordTransaction, deleteTransaction, deleteHoldingsBySymbol, updateHoldingTarget, createPortfolio, type RecordTxInput } from '@/lib/api/portfolio-mutations';
+import { recordTransaction, deleteTransaction, deleteHoldingsBySymbol, updateHoldingTarget, createPortfolio, updateCostBasisMethod, updateLossLimits, importTransactions, recordRebalance, type RecordTxInput, type RebalanceTrade } from '@/lib/api/portfolio-mutations';
+import type { ImportRow } from '@/lib/portfolio/import';
+import type { CostBasisMethod } from '@/types/transaction';
 import { useAuth } from './use-auth';
 
 export function useRecordTransaction(portfolioId: string | undefined) {
@@ -11,6 +13,7 @@ export function useRecordTransaction(portfolioId: string | undefined) {
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ['holdings', portfolioId] });
       qc.invalidateQueries({ queryKey: ['transactions', portfolioId] });
+      qc.invalidateQueries({ queryKey: ['tax-lots', portfolioId] });
     },
   });
 }
@@ -23,6 +26,33 @@ export function useDeleteTransaction(portfolioId: string | undefined) {
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ['holdings', portfolioId] });
       qc.invalidateQueries({ queryKey: ['transactions', portfolioId] });
+      qc.invalidateQueries({ queryKey: ['tax-lots', portfolioId] });
+      // A DCA purchase linked to the transaction is deleted with it
+      qc.invalidateQueries({ queryKey: ['dca-investments'] });
+    },
+  });
+}
+
+export function useImportTransactions(portfolioId: string | undefined) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (rows: ImportRow[]) => importTransactions(portfolioId!, rows),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['holdings', portfolioId] });
+      qc.invalidateQueries({ queryKey: ['transactions', portfolioId] });
+      qc.invalidateQueries({ queryKey: ['tax-lots', portfolioId] });
+    },
+  });
+}
+
+export function useRecordRebalance(portfolioId: string | undefined) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (trades: RebalanceTrade[]) => recordRebalance(portfolioId!, trades),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['holdings', portfolioId] });
+      qc.invalidateQueries({ queryKey: ['transactions', portfolioId] });
+      qc.invalidateQueries({ queryKey: ['tax-lots', portfolioId] });
     },
   });
 }
@@ -57,3 +87,25 @@ export function useCreatePortfolio() {
     },
   });
 }
+
+export function useUpdateCostBasisMethod(portfolioId: string | undefined) {
+  const qc = useQueryClient();
+  const { authUser } = useAuth();
+  return useMutation({
+    mutationFn: (method: CostBasisMethod) => updateCostBasisMethod(portfolioId!, method),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['portfolios', authUser?.id] });
+    },
+  });
+}
+
+export function useUpdateLossLimits(portfolioId: string | undefined) {
+  const qc = useQueryClient();
+  const { authUser } = useAuth();
+  return useMutation({
+    mutationFn: (limits: { loss_limit_pct: number | null; loss_limit_value: number | null }) => updateLossLimits(portfolioId!, limits),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['portfolios', authUser?.id] });
+    },
+  });
+}
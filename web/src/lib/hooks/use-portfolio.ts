@@ -2,18 +2,24 @@
 
 import { useQuery } from '@tanstack/react-query';
 import { useAuth } from './use-auth';
-import { useCryptoAssets } from './use-market';
+import { useCryptoAssets, useRiskSeries } from './use-market';
 import {
   fetchPortfolios,
   fetchHoldings,
   fetchTransactions,
+  fetchOpenTaxLots,
   fetchPortfolioHistory,
   fetchLivePrices,
+  fetchPriceHistories,
   applyLivePrices,
   type LivePrice,
 } from '@/lib/api/portfolio';
+import { holdingValue, portfolioRiskScore } from '@/lib/portfolio/risk-score';
 import type { PortfolioHolding } from '@/types';
 
+/** What price lookups need from a holding (DCA plans pass bare assets). */
+type PricedAsset = Pick<PortfolioHolding, 'asset_type' | 'symbol'>;
+
 export function usePortfolios() {
   const { authUser } = useAuth();
   return useQuery({
@@ -42,6 +48,15 @@ export function useTransactions(portfolioId: string | undefined) {
   });
 }
 
+export function useOpenTaxLots(portfolioId: string | undefined) {
+  return useQuery({
+    queryKey: ['tax-lots', portfolioId],
+    queryFn: () => fetchOpenTaxLots(portfolioId!),
+    enabled: !!portfolioId,
+    staleTime: 60_000,
+  });
+}
+
 export function usePortfolioHistory(portfolioId: string | undefined, days = 30) {
   return useQuery({
     queryKey: ['portfolio-history', portfolioId, days],
@@ -57,7 +72,7 @@ export function usePortfolioHistory(portfolioId: string | undefined, days = 30)
  * Top-100 CoinGecko ids from the cached asset list are passed through so
  * common coins never need a /search round-trip.
  */
-export function useLivePrices(holdings: PortfolioHolding[] | undefined) {
+export function useLivePrices(holdings: PricedAsset[] | undefined) {
   const { data: assets } = useCryptoAssets(1);
   const symbolKey = [...new Set((holdings ?? []).map((h) => `${h.asset_type}:${h.symbol.toLowerCase()}`))]
     .sort()
@@ -99,3 +114,56 @@ export function usePricedHoldings(portfolioId: string | undefined) {
     livePricesUpdatedAt: liveQuery.dataUpdatedAt,
   };
 }
+
+/** Daily price history for every crypto and stock holding (correlation / beta). */
+export function usePriceHistories(holdings: PricedAsset[] | undefined, days: number) {
+  const { data: assets } = useCryptoAssets(1);
+  const symbolKey = [...new Set((holdings ?? []).map((h) => `${h.asset_type}:${h.symbol.toLowerCase()}`))]
+    .sort()
+    .join(',');
+
+  return useQuery({
+    queryKey: ['price-histories', symbolKey, days],
+    queryFn: () => {
+      const knownIds = new Map<string, string>();
+      for (const a of assets ?? []) knownIds.set(a.symbol.toLowerCase(), a.id);
+      return fetchPriceHistories(holdings!, days, knownIds);
+    },
+    enabled: !!holdings && holdings.length > 0,
+    staleTime: 3_600_000,
+  });
+}
+
+/** Readings older than this count as no risk model rather than a stale one. */
+const RISK_SCORE_LOOKBACK_DAYS = 14;
+
+/**
+ * Value-weighted risk of `holdings` from each asset's latest risk reading;
+ * assets without one are reported as unknown, not guessed. `btc` is BTC's own
+ * latest reading, for comparison.
+ */
+export function useHoldingsRiskScore(holdings: PortfolioHolding[] | undefined) {
+  const riskQuery = useRiskSeries([...(holdings ?? []).map((h) => h.symbol), 'BTC'], RISK_SCORE_LOOKBACK_DAYS);
+
+  const levels = new Map<string, number>();
+  for (const [sym, series] of riskQuery.data ?? []) {
+    if (series.length) levels.set(sym, series[series.length - 1].value);
+  }
+  const score = holdings && riskQuery.data
+    ? portfolioRiskScore(holdings.map((h) => ({ symbol: h.symbol, value: holdingValue(h) })), levels)
+    : null;
+
+  return {
+    score,
+    btc: levels.get('BTC') ?? null,
+    isLoading: !!holdings?.length && riskQuery.isLoading,
+  };
+}
+
+/** {@link useHoldingsRiskScore} over a portfolio's live-priced holdings. */
+export function usePortfolioRiskScore(portfolioId: string | undefined) {
+  const holdingsQuery = usePricedHoldings(portfolioId);
+  const holdings = holdingsQuery.data;
+  const { score, isLoading } = useHoldingsRiskScore(holdings);
+  return { holdings, score, isLoading: holdingsQuery.isLoading || isLoading };
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from './use-auth';
+import { fetchFmpHistories } from '@/lib/api/portfolio';
+import { fetchScenarios } from '@/lib/api/scenarios';
+import { createScenario, deleteScenario, type ScenarioInput } from '@/lib/api/scenario-mutations';
+import { SCENARIO_FACTORS, type FactorSeries } from '@/lib/portfolio/scenario';
+
+export function useScenarios() {
+  const { authUser } = useAuth();
+  return useQuery({
+    queryKey: ['portfolio-scenarios', authUser?.id],
+    queryFn: () => fetchScenarios(authUser!.id),
+    enabled: !!authUser?.id,
+    staleTime: 300_000,
+  });
+}
+
+/** BTC, SPY and gold daily closes over [from, to], keyed by scenario factor. */
+export function useFactorSeries(from: string | null, to?: string) {
+  return useQuery({
+    queryKey: ['scenario-factors', from, to ?? null],
+    queryFn: async (): Promise<FactorSeries> => {
+      const bySymbol = await fetchFmpHistories(SCENARIO_FACTORS.map((f) => f.symbol), from!, to);
+      return Object.fromEntries(SCENARIO_FACTORS.map((f) => [f.key, bySymbol.get(f.symbol) ?? []]));
+    },
+    enabled: !!from,
+    staleTime: 3_600_000,
+  });
+}
+
+function useInvalidate() {
+  const qc = useQueryClient();
+  const { authUser } = useAuth();
+  return () => qc.invalidateQueries({ queryKey: ['portfolio-scenarios', authUser?.id] });
+}
+
+export function useCreateScenario() {
+  const invalidate = useInvalidate();
+  const { authUser } = useAuth();
+  return useMutation({
+    mutationFn: (input: ScenarioInput) => createScenario(authUser!.id, input),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteScenario() {
+  const invalidate = useInvalidate();
+  return useMutation({
+    mutationFn: (id: string) => deleteScenario(id),
+    onSuccess: invalidate,
+  });
+}
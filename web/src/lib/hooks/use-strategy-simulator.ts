@@ -0,0 +1,16 @@
+'use client';
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { runStrategySimulation, type SimulationRequest } from '@/lib/api/model-portfolio-simulator';
+
+/** Re-runs whenever the request changes; the previous result stays up meanwhile. */
+export function useStrategySimulation(request: SimulationRequest, enabled = true) {
+  return useQuery({
+    queryKey: ['strategy-simulation', request],
+    queryFn: () => runStrategySimulation(request),
+    enabled,
+    placeholderData: keepPreviousData,
+    staleTime: 10 * 60_000,
+    retry: false,
+  });
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { allocationSeries, comparisonSeries, navStats, paramChanges, paramOverrides } from './simulator';
+import type { SimPoint, SimResult, StrategyParams, StrategySimulation } from '@/lib/api/model-portfolio-simulator';
+
+const defaults: StrategyParams = {
+  stablecoinApy: 0.045,
+  maxExposure: { BTC: 1, ETH: 0.2 },
+  defaultMaxExposure: 0.1,
+  durableFloors: { core: { BTC: 0.15, PAXG: 0.1 }, edge: { BTC: 0.12, PAXG: 0.08 }, alpha: { BTC: 0.1, PAXG: 0.05 } },
+  blendRates: { edge: 0.5, alpha: 0.6 },
+};
+
+const point = (date: string, nav: number, allocation: Record<string, number> = { USDC: 1 }): SimPoint =>
+  ({ date, nav, drawdown: 0, allocation, rebalance: false, turnover: 0, btcSignal: 'neutral', macroRegime: 'Mixed' });
+
+const result = (points: SimPoint[], avgExposure: Record<string, number> = {}): SimResult => ({
+  strategy: 'edge',
+  points,
+  summary: {
+    from: points[0].date, to: points[points.length - 1].date, days: points.length - 1, startNav: 50_000,
+    endNav: points[points.length - 1].nav, totalReturn: 0, cagr: null, maxDrawdown: 0, rebalances: 0,
+    turnover: 0, annualTurnover: null, avgExposure,
+  },
+});
+
+describe('strategy simulator helpers', () => {
+  it('sends only the parameters that differ from the live defaults', () => {
+    const edited: StrategyParams = {
+      ...defaults,
+      maxExposure: { ...defaults.maxExposure, ETH: 0.3 },
+      durableFloors: { ...defaults.durableFloors, edge: { BTC: 0.2, PAXG: 0.08 } },
+      blendRates: { edge: 0.5, alpha: 1 },
+    };
+    expect(paramOverrides(defaults, defaults)).toEqual({});
+    expect(paramOverrides(defaults, edited)).toEqual({
+      maxExposure: { ETH: 0.3 },
+      durableFloors: { edge: { BTC: 0.2 } },
+      blendRates: { alpha: 1 },
+    });
+    // Alpha's blend rate is not part of an Edge run
+    expect(paramChanges(defaults, edited, 'edge').map((c) => c.label)).toEqual(['BTC floor', 'ETH cap']);
+  });
+
+  it('rebases the recorded NAV onto the simulation from the first shared day', () => {
+    const sim = {
+      variant: result([point('2025-01-01', 50_000), point('2025-01-02', 55_000), point('2025-01-03', 60_000)]),
+      baseline: result([point('2025-01-01', 50_000), point('2025-01-02', 52_000), point('2025-01-03', 51_000)]),
+      live: [{ date: '2025-01-02', nav: 100_000 }, { date: '2025-01-03', nav: 110_000 }],
+    } as StrategySimulation;
+    const rows = comparisonSeries(sim);
+    expect(rows[0].live).toBeNull();
+    expect(rows[1].live).toBeCloseTo(55_000, 6);
+    expect(rows[2].live).toBeCloseTo(60_500, 6);
+    expect(rows[2].baseline).toBe(51_000);
+  });
+
+  it('measures return and drawdown of a NAV series', () => {
+    const stats = navStats([{ nav: 100 }, { nav: 120 }, { nav: 90 }, { nav: 110 }])!;
+    expect(stats.totalReturn).toBeCloseTo(0.1, 10);
+    expect(stats.maxDrawdown).toBeCloseTo(-0.25, 10);
+    expect(navStats([{ nav: 100 }])).toBeNull();
+  });
+
+  it('keeps the heaviest assets and sums the rest into Other', () => {
+    const res = result(
+      [point('2025-01-01', 1, { BTC: 0.5, ETH: 0.3, SOL: 0.2 }), point('2025-01-02', 1, { BTC: 1 })],
+      { BTC: 0.75, ETH: 0.15, SOL: 0.1 },
+    );
+    const { assets, rows } = allocationSeries(res, 2);
+    expect(assets).toEqual(['BTC', 'ETH', 'Other']);
+    expect(rows[0]).toEqual({ date: '2025-01-01', BTC: 50, ETH: 30, Other: 20 });
+    expect(rows[1]).toEqual({ date: '2025-01-02', BTC: 100, ETH: 0, Other: 0 });
+  });
+});
@@ -0,0 +1,122 @@
+import type { ParamOverrides, SimResult, SimStrategy, StrategyParams, StrategySimulation } from '@/lib/api/model-portfolio-simulator';
+
+/**
+ * Helpers for the strategy simulator page: what an edited parameter set
+ * changes against the live defaults, and the simulated, live-rules and
+ * recorded NAV series lined up for charting. The recorded NAV is rebased to
+ * the simulation's starting NAV on the first day both have, since the live
+ * portfolio started at 50k on its own launch day.
+ */
+
+export const SIM_STRATEGIES: { key: SimStrategy; label: string }[] = [
+  { key: 'core', label: 'Core' },
+  { key: 'edge', label: 'Edge' },
+  { key: 'alpha', label: 'Alpha' },
+];
+
+export interface ParamChange {
+  label: string;
+  from: number;               // fractions
+  to: number;
+}
+
+const same = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+/** The fields of `params` that differ from `defaults`, as engine overrides. */
+export function paramOverrides(defaults: StrategyParams, params: StrategyParams): ParamOverrides {
+  const out: ParamOverrides = {};
+  if (!same(params.stablecoinApy, defaults.stablecoinApy)) out.stablecoinApy = params.stablecoinApy;
+  if (!same(params.defaultMaxExposure, defaults.defaultMaxExposure)) out.defaultMaxExposure = params.defaultMaxExposure;
+
+  for (const [asset, cap] of Object.entries(params.maxExposure)) {
+    if (!same(cap, defaults.maxExposure[asset] ?? defaults.defaultMaxExposure)) (out.maxExposure ??= {})[asset] = cap;
+  }
+  for (const { key } of SIM_STRATEGIES) {
+    for (const [asset, floor] of Object.entries(params.durableFloors[key] ?? {})) {
+      if (!same(floor, defaults.durableFloors[key]?.[asset] ?? 0)) ((out.durableFloors ??= {})[key] ??= {})[asset] = floor;
+    }
+  }
+  for (const key of ['edge', 'alpha'] as const) {
+    if (!same(params.blendRates[key], defaults.blendRates[key])) (out.blendRates ??= {})[key] = params.blendRates[key];
+  }
+  return out;
+}
+
+/** Human-readable list of the differences, for the strategy being simulated. */
+export function paramChanges(defaults: StrategyParams, params: StrategyParams, strategy: SimStrategy): ParamChange[] {
+  const o = paramOverrides(defaults, params);
+  const out: ParamChange[] = [];
+  if (o.stablecoinApy != null) out.push({ label: 'Stablecoin APY', from: defaults.stablecoinApy, to: o.stablecoinApy });
+  for (const [asset, floor] of Object.entries(o.durableFloors?.[strategy] ?? {})) {
+    out.push({ label: `${asset} floor`, from: defaults.durableFloors[strategy]?.[asset] ?? 0, to: floor });
+  }
+  for (const [asset, cap] of Object.entries(o.maxExposure ?? {})) {
+    out.push({ label: `${asset} cap`, from: defaults.maxExposure[asset] ?? defaults.defaultMaxExposure, to: cap });
+  }
+  if (o.defaultMaxExposure != null) out.push({ label: 'Default cap', from: defaults.defaultMaxExposure, to: o.defaultMaxExposure });
+  if (strategy !== 'core' && o.blendRates?.[strategy] != null) {
+    out.push({ label: 'Blend rate', from: defaults.blendRates[strategy], to: o.blendRates[strategy]! });
+  }
+  return out;
+}
+
+export interface ComparisonPoint {
+  date: string;
+  variant: number;
+  baseline: number;
+  live: number | null;
+  variantDrawdown: number;    // %
+  baselineDrawdown: number;
+}
+
+export function comparisonSeries(sim: StrategySimulation): ComparisonPoint[] {
+  const live = new Map(sim.live.map((p) => [p.date, p.nav]));
+  const anchor = sim.variant.points.find((p) => live.has(p.date));
+  const scale = anchor ? anchor.nav / live.get(anchor.date)! : 1;
+  return sim.variant.points.map((p, i) => {
+    const b = sim.baseline.points[i];
+    const l = anchor && p.date >= anchor.date ? live.get(p.date) : undefined;
+    return {
+      date: p.date,
+      variant: p.nav,
+      baseline: b.nav,
+      live: l != null ? l * scale : null,
+      variantDrawdown: p.drawdown * 100,
+      baselineDrawdown: b.drawdown * 100,
+    };
+  });
+}
+
+/** Return and max drawdown of a recorded NAV series (fractions). */
+export function navStats(points: { nav: number }[]): { totalReturn: number; maxDrawdown: number } | null {
+  if (points.length < 2 || points[0].nav <= 0) return null;
+  let peak = points[0].nav;
+  let maxDrawdown = 0;
+  for (const p of points) {
+    peak = Math.max(peak, p.nav);
+    maxDrawdown = Math.min(maxDrawdown, p.nav / peak - 1);
+  }
+  return { totalReturn: points[points.length - 1].nav / points[0].nav - 1, maxDrawdown };
+}
+
+/**
+ * Daily allocation in % for a stacked chart: the `top` assets by average
+ * weight over the run, the rest summed into "Other".
+ */
+export function allocationSeries(result: SimResult, top = 6): { assets: string[]; rows: Record<string, number | string>[] } {
+  const ranked = Object.entries(result.summary.avgExposure).sort((a, b) => b[1] - a[1]).map(([a]) => a);
+  const shown = ranked.slice(0, top);
+  const hasOther = ranked.length > top;
+  const rows = result.points.map((p) => {
+    const row: Record<string, number | string> = { date: p.date };
+    let other = 0;
+    for (const [asset, w] of Object.entries(p.allocation)) {
+      if (shown.includes(asset)) row[asset] = w * 100;
+      else other += w * 100;
+    }
+    for (const a of shown) row[a] ??= 0;
+    if (hasOther) row.Other = other;
+    return row;
+  });
+  return { assets: hasOther ? [...shown, 'Other'] : shown, rows };
+}
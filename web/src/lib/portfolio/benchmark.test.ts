@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { compareToBenchmarks, valueAt } from './benchmark';
+import { analyzePeriod } from './performance';
+
+const days = (start: string, values: number[]) => values.map((value, i) => {
+  const d = new Date(`${start}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + i);
+  return { date: d.toISOString().slice(0, 10), value };
+});
+
+describe('valueAt', () => {
+  it('carries the last value forward and is null before the series starts', () => {
+    const pts = [{ date: '2026-01-02', value: 10 }, { date: '2026-01-05', value: 12 }];
+    expect(valueAt(pts, '2026-01-01')).toBeNull();
+    expect(valueAt(pts, '2026-01-04')).toBe(10);
+    expect(valueAt(pts, '2026-01-09')).toBe(12);
+  });
+});
+
+describe('compareToBenchmarks', () => {
+  it('does not count a deposit as outperformance', () => {
+    // Portfolio doubles in value only because $100 was deposited on day 2.
+    const history = days('2026-03-01', [100, 100, 200, 200]);
+    const twr = analyzePeriod(history, [{ date: '2026-03-03', amount: 100 }], 'ALL')!;
+    const flat = { key: 'spy', label: 'SPY', points: days('2026-03-01', [50, 50, 50, 50]) };
+    const c = compareToBenchmarks(twr.curve.map((p) => ({ date: p.date, value: p.index })), [flat])!;
+    expect(c.stats[0].portfolioReturn).toBeCloseTo(0, 9);
+    expect(c.stats[0].relative).toBeCloseTo(0, 9);
+  });
+
+  it('rebases everything to the latest common start date', () => {
+    const portfolio = days('2026-03-01', [100, 110, 121, 133.1]);
+    const btc = { key: 'btc', label: 'BTC', points: days('2026-03-02', [200, 220, 200]) };
+    const c = compareToBenchmarks(portfolio, [btc])!;
+    expect(c.startDate).toBe('2026-03-02');
+    expect(c.rows[0]).toMatchObject({ portfolio: 0, btc: 0 });
+    expect(c.stats[0].portfolioReturn).toBeCloseTo(21, 9);
+    expect(c.stats[0].benchmarkReturn).toBeCloseTo(0, 9);
+    expect(c.stats[0].trackingDifference).toBeCloseTo(21, 9);
+    expect(c.stats[0].relative).toBeCloseTo(21, 9);
+  });
+
+  it('forward-fills benchmarks that skip days', () => {
+    const portfolio = days('2026-03-06', [100, 100, 100, 100]); // Fri..Mon
+    const spy = { key: 'spy', label: 'SPY', points: [{ date: '2026-03-06', value: 10 }, { date: '2026-03-09', value: 11 }] };
+    const c = compareToBenchmarks(portfolio, [spy])!;
+    expect(c.rows.map((r) => r.spy)).toEqual([0, 0, 0, expect.closeTo(10, 9)]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Benchmark comparison — lines a portfolio up against BTC, SPY and the
+ * Arkline model portfolios from a common start date. The portfolio side is
+ * its time-weighted index (see analyzePeriod), so deposits and withdrawals
+ * never read as out- or under-performance; benchmarks are buy-and-hold NAV
+ * or price series. Series with gaps (SPY skips weekends) carry their last
+ * value forward onto the portfolio's daily grid.
+ */
+
+export interface SeriesPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+export interface BenchmarkSeries {
+  key: string;
+  label: string;
+  points: SeriesPoint[]; // oldest first
+}
+
+export interface BenchmarkStats {
+  key: string;
+  label: string;
+  benchmarkReturn: number;     // % since the common start
+  portfolioReturn: number;     // %
+  relative: number;            // % — (1 + p) / (1 + b) - 1
+  trackingDifference: number;  // percentage points — p - b
+  trackingError: number | null; // annualized % stdev of active returns
+}
+
+/** One chart row: % change since the common start for the portfolio and each benchmark key. */
+export type ComparisonRow = { date: string; portfolio: number } & Record<string, number | null | string>;
+
+export interface BenchmarkComparison {
+  startDate: string;
+  endDate: string;
+  rows: ComparisonRow[];
+  stats: BenchmarkStats[];
+}
+
+const DAY_MS = 86_400_000;
+
+/** Last value on or before `date`, or null when the series starts later. */
+export function valueAt(points: SeriesPoint[], date: string): number | null {
+  let lo = 0;
+  let hi = points.length - 1;
+  let found: number | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].date <= date) { found = points[mid].value; lo = mid + 1; }
+    else hi = mid - 1;
+  }
+  return found;
+}
+
+function trackingError(portfolio: SeriesPoint[], bench: SeriesPoint[], start: string, end: string): number | null {
+  // Active returns over the benchmark's own observation spans, so carried-forward
+  // weekend values don't add fake zero-return days.
+  const obs = bench.filter((p) => p.date >= start && p.date <= end);
+  if (obs.length < 3) return null;
+  const active: number[] = [];
+  for (let i = 1; i < obs.length; i++) {
+    const p0 = valueAt(portfolio, obs[i - 1].date);
+    const p1 = valueAt(portfolio, obs[i].date);
+    if (!p0 || p1 == null || !obs[i - 1].value) continue;
+    active.push((p1 / p0 - 1) - (obs[i].value / obs[i - 1].value - 1));
+  }
+  if (active.length < 2) return null;
+  const mean = active.reduce((s, a) => s + a, 0) / active.length;
+  const sd = Math.sqrt(active.reduce((s, a) => s + (a - mean) ** 2, 0) / (active.length - 1));
+  const days = (Date.parse(obs[obs.length - 1].date) - Date.parse(obs[0].date)) / DAY_MS;
+  const perYear = days > 0 ? (active.length * 365) / days : 365;
+  return sd * Math.sqrt(perYear) * 100;
+}
+
+/**
+ * Rebase the portfolio's TWR index and every benchmark to 0% at the latest of
+ * their first dates. Benchmarks with no data in the window are dropped.
+ */
+export function compareToBenchmarks(
+  portfolio: SeriesPoint[],
+  benchmarks: BenchmarkSeries[],
+): BenchmarkComparison | null {
+  if (portfolio.length < 2) return null;
+  const endDate = portfolio[portfolio.length - 1].date;
+  const usable = benchmarks.filter((b) => b.points.length > 0 && b.points[0].date < endDate);
+  const startDate = usable.reduce((d, b) => (b.points[0].date > d ? b.points[0].date : d), portfolio[0].date);
+
+  const window = portfolio.filter((p) => p.date >= startDate);
+  const pBase = valueAt(portfolio, startDate);
+  if (window.length < 2 || !pBase) return null;
+  if (window[0].date !== startDate) window.unshift({ date: startDate, value: pBase });
+
+  const bases = new Map(usable.map((b) => [b.key, valueAt(b.points, startDate)]));
+  const rows: ComparisonRow[] = window.map((p) => {
+    const row: ComparisonRow = { date: p.date, portfolio: (p.value / pBase - 1) * 100 };
+    for (const b of usable) {
+      const base = bases.get(b.key);
+      const v = valueAt(b.points, p.date);
+      row[b.key] = base && v != null ? (v / base - 1) * 100 : null;
+    }
+    return row;
+  });
+
+  const last = rows[rows.length - 1];
+  const portfolioReturn = last.portfolio;
+  const stats = usable.map((b): BenchmarkStats => {
+    const benchmarkReturn = Number(last[b.key] ?? 0);
+    return {
+      key: b.key,
+      label: b.label,
+      benchmarkReturn,
+      portfolioReturn,
+      relative: ((1 + portfolioReturn / 100) / (1 + benchmarkReturn / 100) - 1) * 100,
+      trackingDifference: portfolioReturn - benchmarkReturn,
+      trackingError: trackingError(portfolio, b.points, startDate, endDate),
+    };
+  });
+
+  return { startDate, endDate, rows, stats };
+}
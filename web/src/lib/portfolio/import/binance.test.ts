@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { isBinance, parseBinance } from './binance';
+import { fixtureRows } from './fixture';
+
+describe('parseBinance', () => {
+  it('reads the coin-suffixed trade history layout', () => {
+    const rows = fixtureRows('binance.csv');
+    expect(isBinance(rows)).toBe(true);
+    const { rows: trades, skipped } = parseBinance(rows);
+    expect(trades.map((t) => [t.type, t.symbol, t.quantity, t.price_per_unit, +t.fee.toFixed(8)])).toEqual([
+      ['buy', 'BTC', 0.005, 42800, 0.214],   // base-coin fee valued at the fill price
+      ['buy', 'ETH', 0.2, 2550, 0],          // BNB fee can't be valued
+      ['sell', 'BTC', 0.002, 66000, 0.132],
+    ]);
+    expect(trades[0].date).toBe('2024-01-12T03:14:15.000Z');
+    expect(skipped).toEqual([{ line: 4, reason: 'Priced in BTC, not USD' }]);
+  });
+
+  it('reads the Market / Fee Coin layout', () => {
+    const rows = fixtureRows('binance-spot.csv');
+    expect(isBinance(rows)).toBe(true);
+    const { rows: trades, skipped } = parseBinance(rows);
+    expect(trades.map((t) => [t.type, t.symbol, t.quantity, t.price_per_unit, +t.fee.toFixed(8)])).toEqual([
+      ['buy', 'SOL', 4, 172.5, 0.69],
+      ['sell', 'SOL', 1.5, 165, 0.2475],
+    ]);
+    expect(skipped).toEqual([{ line: 4, reason: 'deposit is not a trade' }]);
+  });
+
+  it('derives a stable id from the fill itself', () => {
+    const a = parseBinance(fixtureRows('binance.csv')).rows[0].external_id;
+    expect(a).toBe('binance:2024-01-12T03:14:15.000Z|BTC|buy|0.005|42800');
+  });
+});
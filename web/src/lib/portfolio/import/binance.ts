@@ -0,0 +1,63 @@
+import { headerIndex, parseAmount, toISO } from './csv';
+import { fillId, type ParseResult } from './types';
+
+/**
+ * Binance spot trade history, both export layouts:
+ *   Date(UTC),Pair,Side,Price,Executed,Amount,Fee          — amounts carry a coin suffix ("0.5BTC")
+ *   Date(UTC),Market,Type,Price,Amount,Total,Fee,Fee Coin  — plain numbers
+ * Fees paid in the base coin are valued at the fill price; fees paid in a
+ * third coin (usually BNB) can't be valued from the file and are left out.
+ */
+
+const USD_QUOTES = ['USDT', 'USDC', 'FDUSD', 'BUSD', 'TUSD', 'USD'];
+const QUOTES = [...USD_QUOTES, 'BTC', 'ETH', 'BNB', 'EUR', 'TRY', 'BRL'];
+
+/** "0.00100000BTC" → [0.001, "BTC"] */
+function coinAmount(s: string | undefined): [number, string] {
+  const m = (s ?? '').trim().match(/^([-\d.,]+)\s*([A-Za-z0-9]*)$/);
+  return m ? [parseAmount(m[1]), m[2].toUpperCase()] : [NaN, ''];
+}
+
+function splitMarket(market: string): { base: string; quote: string } | null {
+  const m = market.trim().toUpperCase().replace(/[/_-]/, '');
+  const quote = QUOTES.find((q) => m.endsWith(q) && m.length > q.length);
+  return quote ? { base: m.slice(0, -quote.length), quote } : null;
+}
+
+export function isBinance(rows: string[][]): boolean {
+  const col = headerIndex(rows[0] ?? []);
+  return col.has('date(utc)') && (col.has('pair') || col.has('market'));
+}
+
+export function parseBinance(rows: string[][]): ParseResult {
+  const out: ParseResult = { rows: [], skipped: [] };
+  if (!isBinance(rows)) return out;
+  const col = headerIndex(rows[0]);
+  const get = (r: string[], name: string) => r[col.get(name) ?? -1];
+  const suffixed = col.has('executed');
+
+  rows.slice(1).forEach((r, i) => {
+    const line = i + 2;
+    const kind = (get(r, 'side') ?? get(r, 'type') ?? '').trim().toLowerCase();
+    if (kind !== 'buy' && kind !== 'sell') return out.skipped.push({ line, reason: `${kind || 'Unknown'} is not a trade` });
+    const market = splitMarket(get(r, suffixed ? 'pair' : 'market') ?? '');
+    if (!market) return out.skipped.push({ line, reason: `Unrecognized pair ${get(r, suffixed ? 'pair' : 'market')}` });
+    if (!USD_QUOTES.includes(market.quote)) return out.skipped.push({ line, reason: `Priced in ${market.quote}, not USD` });
+
+    const date = toISO(get(r, 'date(utc)') ?? '');
+    const price = parseAmount(get(r, 'price'));
+    const quantity = Math.abs(suffixed ? coinAmount(get(r, 'executed'))[0] : parseAmount(get(r, 'amount')));
+    const [feeAmt, feeCoin] = suffixed
+      ? coinAmount(get(r, 'fee'))
+      : [parseAmount(get(r, 'fee')), (get(r, 'fee coin') ?? '').trim().toUpperCase()];
+    if (!date || !(quantity > 0) || !(price >= 0)) return out.skipped.push({ line, reason: 'Missing date, amount or price' });
+
+    const fee = !(feeAmt > 0) ? 0
+      : feeCoin === market.base ? feeAmt * price
+      : USD_QUOTES.includes(feeCoin) ? feeAmt
+      : 0;
+    const trade = { date, type: kind, symbol: market.base, quantity, price_per_unit: price, fee } as const;
+    out.rows.push({ line, ...trade, external_id: fillId('binance', trade) });
+  });
+  return out;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { isCoinbase, parseCoinbase } from './coinbase';
+import { fixtureRows } from './fixture';
+
+describe('parseCoinbase', () => {
+  const rows = fixtureRows('coinbase.csv');
+
+  it('finds the header below the preamble', () => {
+    expect(isCoinbase(rows)).toBe(true);
+  });
+
+  it('maps buys and sells with $-formatted amounts', () => {
+    const { rows: trades } = parseCoinbase(rows);
+    expect(trades.map((t) => [t.type, t.symbol, t.quantity, t.price_per_unit, t.fee])).toEqual([
+      ['buy', 'BTC', 0.02, 44150, 13.23],
+      ['buy', 'ETH', 1.5, 2480.5, 5.58],
+      ['sell', 'BTC', 0.01, 63210, 9.48],
+    ]);
+    expect(trades[0].date).toBe('2024-01-05T14:23:11.000Z');
+    expect(trades[0].external_id).toBe('coinbase:65a1f0c2e1');
+    expect(trades[0].line).toBe(4);
+  });
+
+  it('skips transfers, income and non-USD rows with a reason', () => {
+    const { skipped } = parseCoinbase(rows);
+    expect(skipped).toEqual([
+      { line: 6, reason: 'Send is not a trade' },
+      { line: 8, reason: 'Staking Income is not a trade' },
+      { line: 9, reason: 'Priced in EUR, not USD' },
+    ]);
+  });
+
+  it('reads the older Spot Price layout', () => {
+    const { rows: trades } = parseCoinbase([
+      ['Timestamp', 'Transaction Type', 'Asset', 'Quantity Transacted', 'Spot Price Currency', 'Spot Price at Transaction', 'Subtotal', 'Total (inclusive of fees and/or spread)', 'Fees and/or Spread', 'Notes'],
+      ['2021-05-01T10:00:00Z', 'Buy', 'ADA', '100', 'USD', '1.32', '132', '133.99', '1.99', ''],
+    ]);
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({ symbol: 'ADA', quantity: 100, price_per_unit: 1.32, fee: 1.99, date: '2021-05-01T10:00:00.000Z' });
+    expect(trades[0].external_id).toBe('coinbase:2021-05-01T10:00:00.000Z|ADA|buy|100|1.32');
+  });
+});
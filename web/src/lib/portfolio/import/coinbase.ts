@@ -0,0 +1,48 @@
+import { findHeaderRow, headerIndex, parseAmount, toISO } from './csv';
+import { fillId, USD_QUOTES, type ParseResult } from './types';
+
+/**
+ * Coinbase "Transaction history" report. The header sits below a few
+ * preamble lines; newer exports add an ID column and "$"-formatted amounts,
+ * older ones say "Spot Price at Transaction". Only buys and sells become
+ * trades — sends, receives, converts and income are listed as skipped.
+ */
+
+const BUY = new Set(['buy', 'advanced trade buy']);
+const SELL = new Set(['sell', 'advanced trade sell']);
+
+export function isCoinbase(rows: string[][]): boolean {
+  return findHeaderRow(rows, ['timestamp', 'transaction type', 'asset', 'quantity transacted']) !== -1;
+}
+
+export function parseCoinbase(rows: string[][]): ParseResult {
+  const out: ParseResult = { rows: [], skipped: [] };
+  const h = findHeaderRow(rows, ['timestamp', 'transaction type', 'asset', 'quantity transacted']);
+  if (h === -1) return out;
+  const col = headerIndex(rows[h]);
+  const get = (r: string[], ...names: string[]) => {
+    for (const n of names) { const i = col.get(n); if (i != null) return r[i]; }
+    return undefined;
+  };
+
+  rows.slice(h + 1).forEach((r, i) => {
+    const line = h + i + 2;
+    const kind = (get(r, 'transaction type') ?? '').trim().toLowerCase();
+    const type = BUY.has(kind) ? 'buy' : SELL.has(kind) ? 'sell' : null;
+    if (!type) return out.skipped.push({ line, reason: `${get(r, 'transaction type') || 'Unknown'} is not a trade` });
+
+    const currency = (get(r, 'price currency', 'spot price currency') ?? 'USD').trim().toUpperCase();
+    if (!USD_QUOTES.includes(currency)) return out.skipped.push({ line, reason: `Priced in ${currency}, not USD` });
+
+    const date = toISO(get(r, 'timestamp') ?? '');
+    const quantity = Math.abs(parseAmount(get(r, 'quantity transacted')));
+    const price = parseAmount(get(r, 'price at transaction', 'spot price at transaction'));
+    const fee = Math.abs(parseAmount(get(r, 'fees and/or spread', 'fees')) || 0);
+    const symbol = (get(r, 'asset') ?? '').trim().toUpperCase();
+    if (!date || !symbol || !(quantity > 0) || !(price >= 0)) return out.skipped.push({ line, reason: 'Missing date, asset, quantity or price' });
+
+    const trade = { date, type, symbol, quantity, price_per_unit: price, fee } as const;
+    out.rows.push({ line, ...trade, external_id: fillId('coinbase', trade, get(r, 'id')?.trim() || undefined) });
+  });
+  return out;
+}
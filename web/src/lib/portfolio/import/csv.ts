@@ -0,0 +1,68 @@
+/**
+ * Minimal RFC 4180 reader: quoted fields, escaped quotes, embedded commas /
+ * newlines, CRLF, and a leading BOM. Blank lines are dropped.
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field); field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && src[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some((f) => f.trim() !== '')) rows.push(row);
+      row = [];
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  if (row.some((f) => f.trim() !== '')) rows.push(row);
+  return rows;
+}
+
+/** Numeric cell → number. Strips currency symbols and thousands separators; "(12.5)" is negative. */
+export function parseAmount(s: string | undefined): number {
+  if (s == null) return NaN;
+  const cleaned = s.replace(/[$€£,\s]/g, '').replace(/^\((.*)\)$/, '-$1');
+  return cleaned === '' ? NaN : Number(cleaned);
+}
+
+/** Lower-cased, trimmed header → column index. */
+export function headerIndex(header: string[]): Map<string, number> {
+  return new Map(header.map((h, i) => [h.trim().toLowerCase(), i]));
+}
+
+/** Index of the first row whose cells include every `required` header (case-insensitive). */
+export function findHeaderRow(rows: string[][], required: string[]): number {
+  return rows.findIndex((r) => {
+    const cells = new Set(r.map((c) => c.trim().toLowerCase()));
+    return required.every((h) => cells.has(h));
+  });
+}
+
+/**
+ * Exchange timestamps without a zone are UTC; bare dates land at noon UTC so
+ * they keep their calendar day in every US timezone (manual entry uses noon too).
+ */
+export function toISO(s: string): string | null {
+  const t = s.trim().replace(/\s*UTC$/, 'Z');
+  if (!t) return null;
+  let d: Date;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(t)) d = new Date(`${t}T12:00:00Z`);
+  else if (/^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(t)) d = new Date(`${t.replace(' ', 'T')}Z`);
+  else d = new Date(t.replace(/^(\d{4}-\d{2}-\d{2}) /, '$1T'));
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
@@ -0,0 +1,7 @@
+import { readFileSync } from 'node:fs';
+import { parseCSV } from './csv';
+
+/** Test helper: a fixture CSV as parsed rows. */
+export function fixtureRows(name: string): string[][] {
+  return parseCSV(readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8'));
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { localDateISO } from '@/lib/utils/format';
+import { fixtureRows } from './fixture';
+import { guessMapping, parseGeneric } from './generic';
+
+describe('parseGeneric', () => {
+  const rows = fixtureRows('generic.csv');
+
+  it('guesses a mapping from common header names', () => {
+    expect(guessMapping(rows[0])).toEqual({
+      date: 'Trade Date', side: 'Action', symbol: 'Ticker', quantity: 'Qty', price: 'Unit Price', fee: 'Commission',
+    });
+  });
+
+  it('parses mapped rows and normalizes side and symbol', () => {
+    const { rows: trades, skipped } = parseGeneric(rows, {
+      date: 'Trade Date', side: 'Action', symbol: 'Ticker', quantity: 'Qty', price: 'Unit Price', fee: 'Commission',
+    });
+    expect(trades.map((t) => [t.type, t.symbol, t.quantity, t.price_per_unit, t.fee])).toEqual([
+      ['buy', 'BTC', 0.01, 43000, 4.3],
+      ['sell', 'BTC', 0.004, 45500, 1.82],
+    ]);
+    expect(trades[0].date).toBe('2024-01-03T12:00:00.000Z');
+    expect(localDateISO(new Date(trades[1].date))).toBe('2024-01-15');
+    expect(skipped).toEqual([
+      { line: 4, reason: 'Side "dividend" is not buy or sell' },
+      { line: 5, reason: 'Missing date, symbol, quantity or price' },
+    ]);
+  });
+});
@@ -0,0 +1,46 @@
+import { headerIndex, parseAmount, toISO } from './csv';
+import { fillId, type ColumnMapping, type ParseResult } from './types';
+
+/**
+ * Any other CSV: the user maps headers to fields. Prices and fees are taken
+ * as USD; the side column accepts buy/sell (and bought/sold, b/s).
+ */
+
+const SIDES: Record<string, 'buy' | 'sell'> = { buy: 'buy', bought: 'buy', b: 'buy', sell: 'sell', sold: 'sell', s: 'sell' };
+
+/** Best-guess mapping from common header names, for pre-filling the form. */
+export function guessMapping(header: string[]): Partial<ColumnMapping> {
+  const find = (...patterns: RegExp[]) => header.find((h) => patterns.some((p) => p.test(h.trim())));
+  return {
+    date: find(/date/i, /time/i),
+    side: find(/^side$/i, /^type$/i, /direction/i, /action/i),
+    symbol: find(/^symbol$/i, /^asset$/i, /^coin$/i, /ticker/i, /pair|market/i),
+    quantity: find(/^quantity$/i, /^qty$/i, /^amount$/i, /^size$/i, /volume|vol/i),
+    price: find(/price/i, /rate/i),
+    fee: find(/^fees?/i, /commission/i),
+  };
+}
+
+export function parseGeneric(rows: string[][], mapping: ColumnMapping): ParseResult {
+  const out: ParseResult = { rows: [], skipped: [] };
+  if (!rows.length) return out;
+  const col = headerIndex(rows[0]);
+  const get = (r: string[], name: string | undefined) => (name ? r[col.get(name.trim().toLowerCase()) ?? -1] : undefined);
+
+  rows.slice(1).forEach((r, i) => {
+    const line = i + 2;
+    const type = SIDES[(get(r, mapping.side) ?? '').trim().toLowerCase()];
+    if (!type) return out.skipped.push({ line, reason: `Side "${get(r, mapping.side) ?? ''}" is not buy or sell` });
+
+    const date = toISO(get(r, mapping.date) ?? '');
+    const symbol = (get(r, mapping.symbol) ?? '').trim().toUpperCase();
+    const quantity = Math.abs(parseAmount(get(r, mapping.quantity)));
+    const price = parseAmount(get(r, mapping.price));
+    const fee = Math.abs(parseAmount(get(r, mapping.fee)) || 0);
+    if (!date || !symbol || !(quantity > 0) || !(price >= 0)) return out.skipped.push({ line, reason: 'Missing date, symbol, quantity or price' });
+
+    const trade = { date, type, symbol, quantity, price_per_unit: price, fee };
+    out.rows.push({ line, ...trade, external_id: fillId('generic', trade) });
+  });
+  return out;
+}
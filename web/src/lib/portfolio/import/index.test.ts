@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { Transaction } from '@/types/transaction';
+import { fixtureRows } from './fixture';
+import { detectFormat, findDuplicates, parseImport } from './index';
+
+describe('detectFormat', () => {
+  it('recognizes each exchange export', () => {
+    expect(detectFormat(fixtureRows('coinbase.csv'))).toBe('coinbase');
+    expect(detectFormat(fixtureRows('kraken.csv'))).toBe('kraken');
+    expect(detectFormat(fixtureRows('binance.csv'))).toBe('binance');
+    expect(detectFormat(fixtureRows('binance-spot.csv'))).toBe('binance');
+    expect(detectFormat(fixtureRows('generic.csv'))).toBe('generic');
+  });
+});
+
+describe('parseImport', () => {
+  it('returns rows oldest first', () => {
+    const rows = [
+      ['Date', 'Side', 'Symbol', 'Quantity', 'Price'],
+      ['2024-03-01', 'sell', 'ETH', '1', '3400'],
+      ['2024-01-01', 'buy', 'ETH', '2', '2300'],
+    ];
+    const { rows: trades } = parseImport(rows, 'generic', { date: 'Date', side: 'Side', symbol: 'Symbol', quantity: 'Quantity', price: 'Price' });
+    expect(trades.map((t) => t.line)).toEqual([3, 2]);
+  });
+
+  it('needs a mapping in generic mode', () => {
+    expect(parseImport(fixtureRows('generic.csv'), 'generic').rows).toEqual([]);
+  });
+});
+
+describe('findDuplicates', () => {
+  const { rows } = parseImport(fixtureRows('kraken.csv'), 'kraken');
+  const tx = (t: Partial<Transaction>): Transaction => ({
+    id: 'x', portfolio_id: 'p', type: 'buy', asset_type: 'crypto', symbol: 'BTC', quantity: 0, price_per_unit: 0,
+    gas_fee: 0, total_value: 0, transaction_date: '2024-01-01T12:00:00Z', created_at: '2024-01-01T12:00:00Z', ...t,
+  });
+
+  it('matches a previous import by external id', () => {
+    const dupes = findDuplicates(rows, [tx({ external_id: 'kraken:TQ3HPQ-AAAAA-CCCCCC', symbol: 'SOL' })]);
+    expect([...dupes]).toEqual([3]);
+  });
+
+  it('matches a hand-entered trade on the same day', () => {
+    const manual = tx({ symbol: 'btc', quantity: 0.02, price_per_unit: 46250, transaction_date: rows[0].date });
+    expect([...findDuplicates(rows, [manual])]).toEqual([2]);
+    expect([...findDuplicates(rows, [{ ...manual, quantity: 0.03 }])]).toEqual([]);
+  });
+
+  it('flags a trade id repeated inside the file', () => {
+    expect([...findDuplicates([rows[0], { ...rows[0], line: 9 }], [])]).toEqual([9]);
+  });
+
+  it('matches each hand-entered trade to one line only', () => {
+    const manual = tx({ symbol: 'btc', quantity: 0.02, price_per_unit: 46250, transaction_date: rows[0].date });
+    expect([...findDuplicates([rows[0], { ...rows[0], line: 9, external_id: 'kraken:OTHER' }], [manual])]).toEqual([2]);
+  });
+});
+
+describe('identical fills without a trade id', () => {
+  const csv = [
+    ['Date', 'Side', 'Symbol', 'Quantity', 'Price'],
+    ['2024-01-12 03:14:15', 'buy', 'BTC', '0.005', '42800'],
+    ['2024-01-12 03:14:15', 'buy', 'BTC', '0.005', '42800'],
+  ];
+  const mapping = { date: 'Date', side: 'Side', symbol: 'Symbol', quantity: 'Quantity', price: 'Price' };
+  const { rows } = parseImport(csv, 'generic', mapping);
+
+  it('get numbered keys and both import', () => {
+    expect(rows.map((r) => r.external_id.replace(/^.*\|/, ''))).toEqual(['42800', '42800#2']);
+    expect([...findDuplicates(rows, [])]).toEqual([]);
+  });
+
+  it('are both recognized when the file is imported again', () => {
+    const imported = rows.map((r): Transaction => ({
+      id: r.external_id, portfolio_id: 'p', type: r.type, asset_type: 'crypto', symbol: r.symbol, quantity: r.quantity,
+      price_per_unit: r.price_per_unit, gas_fee: 0, total_value: 0, transaction_date: r.date, created_at: '', external_id: r.external_id,
+    }));
+    expect([...findDuplicates(parseImport(csv, 'generic', mapping).rows, imported)]).toEqual([2, 3]);
+  });
+});
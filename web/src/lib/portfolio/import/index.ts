@@ -0,0 +1,95 @@
+import { localDateISO } from '@/lib/utils/format';
+import type { Transaction } from '@/types/transaction';
+import { isBinance, parseBinance } from './binance';
+import { isCoinbase, parseCoinbase } from './coinbase';
+import { parseCSV } from './csv';
+import { parseGeneric } from './generic';
+import { isKraken, parseKraken } from './kraken';
+import type { ColumnMapping, ImportFormat, ImportRow, ParseResult } from './types';
+
+/**
+ * Exchange CSV import — pure parsing and duplicate detection. Parsers map a
+ * file to USD-valued buy/sell rows; writing them (oldest first, through the
+ * same lot replay as manual entry) lives in portfolio-mutations.
+ */
+
+export { parseCSV } from './csv';
+export { guessMapping } from './generic';
+export * from './types';
+
+export const IMPORT_FORMATS: { key: ImportFormat; label: string }[] = [
+  { key: 'coinbase', label: 'Coinbase' },
+  { key: 'kraken', label: 'Kraken' },
+  { key: 'binance', label: 'Binance' },
+  { key: 'generic', label: 'Other (map columns)' },
+];
+
+export function detectFormat(rows: string[][]): ImportFormat {
+  if (isCoinbase(rows)) return 'coinbase';
+  if (isKraken(rows)) return 'kraken';
+  if (isBinance(rows)) return 'binance';
+  return 'generic';
+}
+
+/** Parse file rows in the given format; rows come back oldest first. */
+export function parseImport(rows: string[][], format: ImportFormat, mapping?: ColumnMapping): ParseResult {
+  const result = format === 'coinbase' ? parseCoinbase(rows)
+    : format === 'kraken' ? parseKraken(rows)
+    : format === 'binance' ? parseBinance(rows)
+    : mapping ? parseGeneric(rows, mapping)
+    : { rows: [], skipped: [] };
+  return { ...result, rows: numberRepeats([...result.rows].sort((a, b) => a.date.localeCompare(b.date) || a.line - b.line)) };
+}
+
+/**
+ * Same-second partial fills of equal size and price share a natural key.
+ * Number the repeats ("…|42800#2") so they stay separate trades; the first
+ * keeps the bare key, so re-importing a file still matches its earlier import.
+ */
+function numberRepeats(rows: ImportRow[]): ImportRow[] {
+  const seen = new Map<string, number>();
+  return rows.map((r) => {
+    if (!r.external_id.includes('|')) return r;   // exchange trade ids are unique already
+    const n = (seen.get(r.external_id) ?? 0) + 1;
+    seen.set(r.external_id, n);
+    return n > 1 ? { ...r, external_id: `${r.external_id}#${n}` } : r;
+  });
+}
+
+const near = (a: number, b: number, tol: number) => Math.abs(a - b) <= tol * Math.max(Math.abs(a), Math.abs(b), 1e-12);
+
+/**
+ * Lines that already exist: same external id (a re-import, or the same
+ * exchange trade id twice in the file), or — for trades entered by hand —
+ * same side, asset and local day with matching quantity and price. Each
+ * existing trade matches one line at most, so real repeats still import.
+ */
+export function findDuplicates(rows: ImportRow[], existing: Transaction[]): Set<number> {
+  const ids = new Set(existing.map((t) => t.external_id).filter(Boolean));
+  const unmatched = [...existing];
+  const dupes = new Set<number>();
+  for (const r of rows) {
+    if (ids.has(r.external_id)) {
+      dupes.add(r.line);
+      continue;
+    }
+    ids.add(r.external_id);
+    const day = localDateISO(new Date(r.date));
+    const manual = unmatched.findIndex((t) =>
+      t.type === r.type
+      && t.symbol.toUpperCase() === r.symbol
+      && localDateISO(new Date(t.transaction_date)) === day
+      && near(Number(t.quantity), r.quantity, 1e-6)
+      && near(Number(t.price_per_unit), r.price_per_unit, 1e-3));
+    if (manual >= 0) {
+      dupes.add(r.line);
+      unmatched.splice(manual, 1);
+    }
+  }
+  return dupes;
+}
+
+export function readImportFile(text: string): { rows: string[][]; format: ImportFormat } {
+  const rows = parseCSV(text);
+  return { rows, format: detectFormat(rows) };
+}
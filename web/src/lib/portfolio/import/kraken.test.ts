@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { fixtureRows } from './fixture';
+import { isKraken, parseKraken, splitKrakenPair } from './kraken';
+
+describe('splitKrakenPair', () => {
+  it('translates legacy asset codes', () => {
+    expect(splitKrakenPair('XXBTZUSD')).toEqual({ base: 'BTC', quote: 'ZUSD' });
+    expect(splitKrakenPair('XXDGZUSD')).toEqual({ base: 'DOGE', quote: 'ZUSD' });
+    expect(splitKrakenPair('SOLUSD')).toEqual({ base: 'SOL', quote: 'USD' });
+    expect(splitKrakenPair('XLTCXXBT')).toEqual({ base: 'LTC', quote: 'XXBT' });
+    expect(splitKrakenPair('???')).toBeNull();
+  });
+});
+
+describe('parseKraken', () => {
+  const rows = fixtureRows('kraken.csv');
+
+  it('detects the trades export', () => {
+    expect(isKraken(rows)).toBe(true);
+  });
+
+  it('maps USD fills with quote-currency fees', () => {
+    const { rows: trades } = parseKraken(rows);
+    expect(trades.map((t) => [t.type, t.symbol, t.quantity, t.price_per_unit, t.fee])).toEqual([
+      ['buy', 'BTC', 0.02, 46250, 2.405],
+      ['buy', 'SOL', 10, 98.5, 3.94],
+      ['sell', 'BTC', 0.01, 67800, 1.7628],
+      ['buy', 'DOGE', 1000, 0.18, 0.468],
+    ]);
+    expect(trades[0].date).toBe('2024-01-08T10:15:42.123Z');
+    expect(trades[0].external_id).toBe('kraken:TQ3HPQ-AAAAA-BBBBBB');
+  });
+
+  it('skips pairs not quoted in USD', () => {
+    expect(parseKraken(rows).skipped).toEqual([{ line: 4, reason: 'Priced in EUR, not USD' }]);
+  });
+});
@@ -0,0 +1,51 @@
+import { headerIndex, parseAmount, toISO } from './csv';
+import { fillId, USD_QUOTES, type ParseResult } from './types';
+
+/**
+ * Kraken "Trades" export (History → Export → Trades). Pairs use Kraken's
+ * legacy asset codes (XXBTZUSD, XETHZUSD) or plain ones (SOLUSD); `cost`
+ * and `fee` are in the quote currency.
+ */
+
+const LEGACY: Record<string, string> = { XBT: 'BTC', XDG: 'DOGE' };
+const QUOTES = ['ZUSD', 'USDT', 'USDC', 'USD', 'ZEUR', 'EUR', 'ZGBP', 'GBP', 'ZCAD', 'CAD', 'XXBT', 'XBT', 'XETH', 'ETH'];
+
+export function splitKrakenPair(pair: string): { base: string; quote: string } | null {
+  const p = pair.trim().toUpperCase().replace('/', '');
+  const quote = QUOTES.find((q) => p.endsWith(q) && p.length > q.length);
+  if (!quote) return null;
+  let base = p.slice(0, -quote.length);
+  if (base.length === 4 && base.startsWith('X')) base = base.slice(1);
+  return { base: LEGACY[base] ?? base, quote };
+}
+
+export function isKraken(rows: string[][]): boolean {
+  const col = headerIndex(rows[0] ?? []);
+  return ['txid', 'pair', 'time', 'type', 'price', 'vol'].every((c) => col.has(c));
+}
+
+export function parseKraken(rows: string[][]): ParseResult {
+  const out: ParseResult = { rows: [], skipped: [] };
+  if (!isKraken(rows)) return out;
+  const col = headerIndex(rows[0]);
+  const get = (r: string[], name: string) => r[col.get(name) ?? -1];
+
+  rows.slice(1).forEach((r, i) => {
+    const line = i + 2;
+    const kind = (get(r, 'type') ?? '').trim().toLowerCase();
+    if (kind !== 'buy' && kind !== 'sell') return out.skipped.push({ line, reason: `${kind || 'Unknown'} is not a trade` });
+    const pair = splitKrakenPair(get(r, 'pair') ?? '');
+    if (!pair) return out.skipped.push({ line, reason: `Unrecognized pair ${get(r, 'pair')}` });
+    if (!USD_QUOTES.includes(pair.quote)) return out.skipped.push({ line, reason: `Priced in ${pair.quote.replace(/^[XZ](?=[A-Z]{3}$)/, '')}, not USD` });
+
+    const date = toISO(get(r, 'time') ?? '');
+    const quantity = Math.abs(parseAmount(get(r, 'vol')));
+    const price = parseAmount(get(r, 'price'));
+    const fee = Math.abs(parseAmount(get(r, 'fee')) || 0);
+    if (!date || !(quantity > 0) || !(price >= 0)) return out.skipped.push({ line, reason: 'Missing time, volume or price' });
+
+    const trade = { date, type: kind, symbol: pair.base, quantity, price_per_unit: price, fee } as const;
+    out.rows.push({ line, ...trade, external_id: fillId('kraken', trade, get(r, 'txid')?.trim() || undefined) });
+  });
+  return out;
+}
@@ -0,0 +1,40 @@
+export type ImportFormat = 'coinbase' | 'kraken' | 'binance' | 'generic';
+
+/** One trade ready for recordTransaction-style insertion (USD-valued). */
+export interface ImportRow {
+  line: number;               // 1-based row, blank lines not counted
+  date: string;               // ISO
+  type: 'buy' | 'sell';
+  symbol: string;             // upper-case base asset
+  quantity: number;
+  price_per_unit: number;     // USD
+  fee: number;                // USD
+  external_id: string;        // stable per fill — re-importing the same file is a no-op
+}
+
+export interface SkippedRow {
+  line: number;
+  reason: string;
+}
+
+export interface ParseResult {
+  rows: ImportRow[];
+  skipped: SkippedRow[];
+}
+
+/** Generic mode: which header holds each field. */
+export interface ColumnMapping {
+  date: string;
+  side: string;
+  symbol: string;
+  quantity: string;
+  price: string;
+  fee?: string;
+}
+
+/** Quotes valued 1:1 with USD. Other quotes (EUR, BTC pairs…) are skipped. */
+export const USD_QUOTES = ['USD', 'ZUSD', 'USDC', 'USDT'];
+
+export function fillId(format: ImportFormat, r: Omit<ImportRow, 'line' | 'external_id'>, id?: string): string {
+  return id ? `${format}:${id}` : `${format}:${r.date}|${r.symbol}|${r.type}|${r.quantity}|${r.price_per_unit}`;
+}
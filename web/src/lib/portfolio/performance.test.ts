@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { Transaction } from '@/types/transaction';
+import { analyzeAllPeriods, analyzePeriod, cashFlowsFromTransactions, periodStart, toPerformanceMetrics, xirr } from './performance';
+
+const days = (start: string, values: number[]) => values.map((value, i) => {
+  const d = new Date(`${start}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + i);
+  return { date: d.toISOString().slice(0, 10), value };
+});
+
+describe('xirr', () => {
+  it('recovers a simple annual rate', () => {
+    const r = xirr([{ date: '2023-01-01', amount: -1000 }, { date: '2024-01-01', amount: 1100 }]);
+    expect(r).toBeCloseTo(0.1, 6);
+  });
+
+  it('needs money both in and out', () => {
+    expect(xirr([{ date: '2023-01-01', amount: -1000 }])).toBeNull();
+  });
+});
+
+describe('cashFlowsFromTransactions', () => {
+  const tx = (t: Partial<Transaction>): Transaction => ({
+    id: 'x', portfolio_id: 'p', type: 'buy', asset_type: 'crypto', symbol: 'BTC', quantity: 1, price_per_unit: 100,
+    gas_fee: 0, total_value: 0, transaction_date: '2024-03-01T12:00:00Z', created_at: '', ...t,
+  });
+
+  it('signs contributions and withdrawals and nets them per day', () => {
+    expect(cashFlowsFromTransactions([
+      tx({ gas_fee: 1 }),
+      tx({ type: 'sell', quantity: 0.5, price_per_unit: 120, gas_fee: 2 }),
+      tx({ type: 'transfer_out', transaction_date: '2024-03-05T12:00:00Z', quantity: 0.1 }),
+    ])).toEqual([
+      { date: '2024-03-01', amount: 101 - 58 },
+      { date: '2024-03-05', amount: -10 },
+    ]);
+  });
+});
+
+describe('analyzePeriod', () => {
+  it('keeps a deposit out of the time-weighted return', () => {
+    // 100 → deposit 100 (flat) → +10%
+    const history = days('2024-01-01', [100, 200, 220]);
+    const a = analyzePeriod(history, [{ date: '2024-01-02', amount: 100 }], 'ALL')!;
+    expect(a.twr).toBeCloseTo(10, 9);
+    expect(a.netContributions).toBe(100);
+    expect(a.investmentGain).toBe(20);
+    // The gain landed while twice the money was in, so MWR beats TWR:
+    // 100·g² + 100·g = 220 per-day growth g, period return g² - 1.
+    const g = (-1 + Math.sqrt(9.8)) / 2;
+    expect(a.mwr).toBeCloseTo((g * g - 1) * 100, 6);
+    expect(a.twrAnnualized).toBeNull();
+  });
+
+  it('tracks the deepest drawdown with its dates', () => {
+    const history = days('2024-01-01', [100, 120, 90, 60, 100, 130]);
+    const dd = analyzePeriod(history, [], 'ALL')!.maxDrawdown!;
+    expect(dd.pct).toBeCloseTo(-50, 9);
+    expect(dd.value).toBeCloseTo(-60, 9);
+    expect(dd.peakDate).toBe('2024-01-02');
+    expect(dd.troughDate).toBe('2024-01-04');
+    expect(dd.recoveredDate).toBe('2024-01-06');
+  });
+
+  it('computes volatility, Sharpe and Sortino from daily returns', () => {
+    const a = analyzePeriod(days('2024-01-01', [100, 110, 99, 108.9]), [], 'ALL')!;
+    // returns +10%, -10%, +10%
+    const mean = 0.1 / 3;
+    const sd = Math.sqrt(((0.1 - mean) ** 2 * 2 + (-0.1 - mean) ** 2) / 2);
+    expect(a.volatility).toBeCloseTo(sd * Math.sqrt(365) * 100, 9);
+    expect(a.sharpe).toBeCloseTo((mean * 365) / (sd * Math.sqrt(365)), 9);
+    expect(a.sortino).toBeCloseTo((mean * 365) / (Math.sqrt(0.01 / 3) * Math.sqrt(365)), 9);
+  });
+
+  it('windows each period from the last close before it starts', () => {
+    expect(periodStart('1W', '2024-03-10')).toBe('2024-03-03');
+    expect(periodStart('1M', '2024-03-31')).toBe('2024-03-02');
+    expect(periodStart('YTD', '2024-03-10')).toBe('2024-01-01');
+    expect(periodStart('ALL', '2024-03-10')).toBeNull();
+
+    const history = days('2023-12-20', Array.from({ length: 30 }, (_, i) => 100 + i));
+    const all = analyzeAllPeriods(history, []);
+    expect(all['1W']!.startDate).toBe('2024-01-11');
+    expect(all.YTD!.startDate).toBe('2024-01-01');
+    expect(all['1Y']!.startDate).toBe('2023-12-20');
+    expect(all.ALL!.endValue).toBe(129);
+  });
+});
+
+describe('toPerformanceMetrics', () => {
+  it('fills the declared summary from the ALL period', () => {
+    const a = analyzePeriod(days('2024-01-01', [100, 200, 220]), [{ date: '2024-01-02', amount: 100 }], 'ALL')!;
+    const m = toPerformanceMetrics(a, 3);
+    expect(m).toMatchObject({ total_invested: 200, current_value: 220, total_return: 20, number_of_assets: 3, max_drawdown: 0 });
+    expect(m.total_return_percentage).toBeCloseTo(10, 9);
+  });
+});
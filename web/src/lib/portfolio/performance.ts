@@ -0,0 +1,247 @@
+import { localDateISO } from '@/lib/utils/format';
+import type { PerformanceMetrics, PortfolioHistoryPoint, TimePeriod } from '@/types/portfolio';
+import type { Transaction } from '@/types/transaction';
+
+/**
+ * Portfolio performance analytics — pure functions over daily
+ * portfolio_history snapshots and the transactions that moved money in or
+ * out. The portfolio holds no cash, so every buy / transfer-in is a
+ * contribution and every sell / transfer-out a withdrawal.
+ *
+ * - TWR chains daily returns with each day's net flow added to the prior
+ *   close, so contributions never read as performance.
+ * - MWR is the XIRR of the same flows (start value in, end value out).
+ * - Drawdown, volatility, Sharpe and Sortino run on the TWR series for the
+ *   same reason. Annualization uses 365 days (crypto trades every day).
+ */
+
+export type AnalyticsPeriod = Exclude<TimePeriod, '1H' | '1D'>;
+export const ANALYTICS_PERIODS: AnalyticsPeriod[] = ['1W', '1M', 'YTD', '1Y', 'ALL'];
+
+/** Enough history for ALL on any portfolio this app has seen. */
+export const HISTORY_DAYS_ALL = 3650;
+
+const DAYS_PER_YEAR = 365;
+const DAY_MS = 86_400_000;
+
+/** Net money into the portfolio on a local day (negative = withdrawn). */
+export interface CashFlow {
+  date: string; // YYYY-MM-DD
+  amount: number;
+}
+
+export interface Drawdown {
+  pct: number;              // negative %, e.g. -23.4
+  value: number;            // the same fall in currency at the peak's size (negative)
+  peakDate: string;
+  troughDate: string;
+  recoveredDate: string | null;
+}
+
+export interface PeriodAnalytics {
+  period: AnalyticsPeriod;
+  startDate: string;
+  endDate: string;
+  days: number;
+  startValue: number;
+  endValue: number;
+  netContributions: number;    // endValue - startValue = netContributions + investmentGain
+  investmentGain: number;
+  twr: number;                 // % over the period
+  twrAnnualized: number | null;  // % — only for periods of a year or more
+  mwr: number | null;          // % over the period (XIRR de-annualized)
+  mwrAnnualized: number | null;
+  maxDrawdown: Drawdown | null;
+  volatility: number | null;   // annualized %
+  sharpe: number | null;
+  sortino: number | null;
+  curve: { date: string; value: number; index: number }[]; // index: TWR growth of 100
+}
+
+/** Daily net flows, oldest first. */
+export function cashFlowsFromTransactions(transactions: Transaction[]): CashFlow[] {
+  const byDay = new Map<string, number>();
+  for (const t of transactions) {
+    const q = Math.abs(Number(t.quantity));
+    const gross = q * Math.abs(Number(t.price_per_unit));
+    const fee = Math.abs(Number(t.gas_fee ?? 0));
+    const amount = t.type === 'buy' ? gross + fee
+      : t.type === 'sell' ? -(gross - fee)
+      : t.type === 'transfer_in' ? gross
+      : -gross;
+    const day = localDateISO(new Date(t.transaction_date));
+    byDay.set(day, (byDay.get(day) ?? 0) + amount);
+  }
+  return [...byDay].map(([date, amount]) => ({ date, amount })).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+const dayNumber = (date: string) => Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+
+/** First day a period covers, or null for ALL. */
+export function periodStart(period: AnalyticsPeriod, endDate: string): string | null {
+  const d = new Date(`${endDate}T00:00:00Z`);
+  switch (period) {
+    case '1W': d.setUTCDate(d.getUTCDate() - 7); break;
+    case '1M': d.setUTCMonth(d.getUTCMonth() - 1); break;
+    case 'YTD': return `${endDate.slice(0, 4)}-01-01`;
+    case '1Y': d.setUTCFullYear(d.getUTCFullYear() - 1); break;
+    default: return null;
+  }
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Daily growth factor g solving Σ cf·g^(-days) = 0, by bisection. Solving
+ * per day rather than per year keeps short windows (a strong week annualizes
+ * to astronomical rates) in range. Flows are from the investor's side (money
+ * in negative, money out positive). Null when the flows never change sign or
+ * no root is bracketed.
+ */
+function dailyGrowth(flows: CashFlow[]): number | null {
+  const live = flows.filter((f) => Math.abs(f.amount) > 1e-9);
+  if (!live.some((f) => f.amount > 0) || !live.some((f) => f.amount < 0)) return null;
+  const t0 = dayNumber(live[0].date);
+  const npv = (g: number) => live.reduce((s, f) => s + f.amount / Math.pow(g, dayNumber(f.date) - t0), 0);
+
+  let lo = 1e-6;
+  let hi = 2;
+  while (Math.sign(npv(hi)) === Math.sign(npv(lo)) && hi < 1e3) hi *= 2;
+  if (Math.sign(npv(hi)) === Math.sign(npv(lo))) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    if (Math.sign(npv(mid)) === Math.sign(npv(lo))) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/** Annualized money-weighted return (XIRR) as a fraction. */
+export function xirr(flows: CashFlow[]): number | null {
+  const g = dailyGrowth(flows);
+  return g == null ? null : Math.pow(g, DAYS_PER_YEAR) - 1;
+}
+
+function drawdown(curve: PeriodAnalytics['curve']): Drawdown | null {
+  let peak = curve[0];
+  let worst: { pct: number; peak: typeof peak; trough: typeof peak } | null = null;
+  for (const p of curve) {
+    if (p.index > peak.index) peak = p;
+    const dd = peak.index > 0 ? p.index / peak.index - 1 : 0;
+    if (dd < (worst?.pct ?? 0)) worst = { pct: dd, peak, trough: p };
+  }
+  if (!worst) return null;
+  const { peak: pk, trough } = worst;
+  const recovered = curve.find((p) => p.date > trough.date && p.index >= pk.index);
+  return {
+    pct: worst.pct * 100,
+    value: worst.pct * pk.value,
+    peakDate: pk.date,
+    troughDate: trough.date,
+    recoveredDate: recovered?.date ?? null,
+  };
+}
+
+/** Analytics for one period; null when history has fewer than two points in it. */
+export function analyzePeriod(
+  history: PortfolioHistoryPoint[],
+  flows: CashFlow[],
+  period: AnalyticsPeriod,
+  riskFreeRate = 0, // annual, as a fraction
+): PeriodAnalytics | null {
+  if (history.length < 2) return null;
+  const endDate = history[history.length - 1].date;
+  const start = periodStart(period, endDate);
+  // Base the period on the last close at or before its first day.
+  let base = 0;
+  if (start) for (let i = 0; i < history.length && history[i].date <= start; i++) base = i;
+  const points = history.slice(base);
+  if (points.length < 2) return null;
+
+  const returns: number[] = [];
+  const curve: PeriodAnalytics['curve'] = [{ date: points[0].date, value: points[0].value, index: 100 }];
+  let netContributions = 0;
+  const xflows: CashFlow[] = [{ date: points[0].date, amount: -points[0].value }];
+  let f = flows.findIndex((x) => x.date > points[0].date);
+  if (f === -1) f = flows.length;
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const p = points[i];
+    // Flows since the previous close (gaps in history roll into the next point).
+    let flow = 0;
+    for (; f < flows.length && flows[f].date <= p.date; f++) flow += flows[f].amount;
+    netContributions += flow;
+    if (flow) xflows.push({ date: p.date, amount: -flow });
+    const basis = prev.value + flow;
+    const r = basis > 0 ? p.value / basis - 1 : 0;
+    returns.push(r);
+    curve.push({ date: p.date, value: p.value, index: curve[i - 1].index * (1 + r) });
+  }
+  const last = points[points.length - 1];
+  xflows.push({ date: last.date, amount: last.value });
+
+  const days = dayNumber(last.date) - dayNumber(points[0].date);
+  const twr = curve[curve.length - 1].index / 100 - 1;
+  const growth = dailyGrowth(xflows);
+
+  let volatility: number | null = null;
+  let sharpe: number | null = null;
+  let sortino: number | null = null;
+  if (returns.length >= 2) {
+    const mean = returns.reduce((s, r) => s + r, 0) / returns.length;
+    const sd = Math.sqrt(returns.reduce((s, r) => s + (r - mean) ** 2, 0) / (returns.length - 1));
+    const rfDaily = riskFreeRate / DAYS_PER_YEAR;
+    const downside = Math.sqrt(returns.reduce((s, r) => s + Math.min(0, r - rfDaily) ** 2, 0) / returns.length);
+    const excess = (mean - rfDaily) * DAYS_PER_YEAR;
+    volatility = sd * Math.sqrt(DAYS_PER_YEAR) * 100;
+    sharpe = sd > 0 ? excess / (sd * Math.sqrt(DAYS_PER_YEAR)) : null;
+    sortino = downside > 0 ? excess / (downside * Math.sqrt(DAYS_PER_YEAR)) : null;
+  }
+
+  return {
+    period,
+    startDate: points[0].date,
+    endDate: last.date,
+    days,
+    startValue: points[0].value,
+    endValue: last.value,
+    netContributions,
+    investmentGain: last.value - points[0].value - netContributions,
+    twr: twr * 100,
+    twrAnnualized: days >= DAYS_PER_YEAR ? (Math.pow(1 + twr, DAYS_PER_YEAR / days) - 1) * 100 : null,
+    mwr: growth != null ? (Math.pow(growth, days) - 1) * 100 : null,
+    mwrAnnualized: growth != null && days >= DAYS_PER_YEAR ? (Math.pow(growth, DAYS_PER_YEAR) - 1) * 100 : null,
+    maxDrawdown: drawdown(curve),
+    volatility,
+    sharpe,
+    sortino,
+    curve,
+  };
+}
+
+export function analyzeAllPeriods(
+  history: PortfolioHistoryPoint[],
+  transactions: Transaction[],
+): Partial<Record<AnalyticsPeriod, PeriodAnalytics>> {
+  const flows = cashFlowsFromTransactions(transactions);
+  const out: Partial<Record<AnalyticsPeriod, PeriodAnalytics>> = {};
+  for (const period of ANALYTICS_PERIODS) {
+    const a = analyzePeriod(history, flows, period);
+    if (a) out[period] = a;
+  }
+  return out;
+}
+
+/** The summary shape declared in types/portfolio, from an analyzed period. */
+export function toPerformanceMetrics(a: PeriodAnalytics, numberOfAssets: number): PerformanceMetrics {
+  return {
+    total_return: a.investmentGain,
+    total_return_percentage: a.twr,
+    total_invested: a.startValue + a.netContributions,
+    current_value: a.endValue,
+    number_of_assets: numberOfAssets,
+    max_drawdown: a.maxDrawdown?.pct ?? 0,
+    max_drawdown_value: a.maxDrawdown?.value ?? 0,
+    sharpe_ratio: a.sharpe ?? 0,
+    volatility: a.volatility ?? 0,
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { planRebalance, DEFAULT_REBALANCE_OPTIONS } from './rebalance';
+import type { PortfolioHolding } from '@/types/portfolio';
+
+const holding = (symbol: string, quantity: number, price: number, target?: number): PortfolioHolding => ({
+  id: symbol, portfolio_id: 'p', asset_type: 'crypto', symbol, name: symbol, quantity,
+  created_at: '', updated_at: '', current_price: price, target_percentage: target,
+});
+
+const line = (plan: ReturnType<typeof planRebalance>, symbol: string) => plan.lines.find((l) => l.symbol === symbol)!;
+
+describe('planRebalance', () => {
+  // BTC 70% / ETH 30% of $10,000, targets 50 / 50.
+  const drifted = [holding('BTC', 0.1, 70_000, 50), holding('ETH', 1, 3_000, 50)];
+
+  it('sells the overweight and buys the underweight back to target', () => {
+    const plan = planRebalance(drifted, DEFAULT_REBALANCE_OPTIONS);
+    expect(line(plan, 'BTC')).toMatchObject({ side: 'sell' });
+    expect(line(plan, 'BTC').tradeValue).toBeCloseTo(2_000, 2);
+    expect(line(plan, 'ETH')).toMatchObject({ side: 'buy' });
+    expect(line(plan, 'ETH').tradeQuantity).toBeCloseTo(2_000 / 3_000, 6);
+    expect(line(plan, 'BTC').postPct).toBeCloseTo(50, 2);
+    expect(plan.unallocatedCash).toBeCloseTo(0, 2);
+  });
+
+  it('never sells in contribution-only mode', () => {
+    const plan = planRebalance(drifted, { ...DEFAULT_REBALANCE_OPTIONS, mode: 'contribution', cash: 1_000 });
+    expect(line(plan, 'BTC').side).toBeNull();
+    expect(line(plan, 'ETH').tradeValue).toBeCloseTo(1_000, 2);
+    expect(plan.sells).toBe(0);
+  });
+
+  it('spreads contributions pro rata to each shortfall', () => {
+    const h = [holding('BTC', 0.1, 60_000, 40), holding('ETH', 1, 2_000, 30), holding('SOL', 10, 200, 30)];
+    // $10k now; with $2k new cash targets are 4.8k / 3.6k / 3.6k → shortfalls 0 / 1.6k / 1.6k.
+    const plan = planRebalance(h, { ...DEFAULT_REBALANCE_OPTIONS, mode: 'contribution', cash: 2_000 });
+    expect(line(plan, 'BTC').side).toBeNull();
+    expect(line(plan, 'ETH').tradeValue).toBeCloseTo(1_000, 2);
+    expect(line(plan, 'SOL').tradeValue).toBeCloseTo(1_000, 2);
+  });
+
+  it('leaves holdings inside the drift band alone', () => {
+    const h = [holding('BTC', 0.1, 51_000, 50), holding('ETH', 1, 49_000 / 10, 50)];
+    const plan = planRebalance(h, { ...DEFAULT_REBALANCE_OPTIONS, driftBand: 2 });
+    expect(plan.lines.every((l) => l.side === null)).toBe(true);
+  });
+
+  it('drops trades below the minimum size and keeps the cash unallocated', () => {
+    const plan = planRebalance(drifted, { ...DEFAULT_REBALANCE_OPTIONS, minTrade: 5_000 });
+    expect(plan.lines.every((l) => l.side === null)).toBe(true);
+    expect(plan.unallocatedCash).toBe(0);
+  });
+
+  it('does not touch holdings without a target', () => {
+    const h = [...drifted, holding('DOGE', 1_000, 0.2)];
+    const plan = planRebalance(h, DEFAULT_REBALANCE_OPTIONS);
+    expect(line(plan, 'DOGE').side).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import type { PortfolioHolding } from '@/types/portfolio';
+
+/**
+ * Rebalance planner — pure functions from priced holdings and their
+ * target_percentage to the exact buy / sell quantities that reach target.
+ *
+ * Targets are shares of the whole portfolio after any new cash is added.
+ * Holdings without a target are left alone. A full rebalance trades only
+ * holdings that drifted outside the band, funding buys from sells plus new
+ * cash; contribution-only never sells and spreads the cash across the
+ * underweight holdings in proportion to how far below target each one is.
+ * Trades under the minimum size are dropped, and whatever isn't spent is
+ * reported as unallocated cash. Fees are not modeled.
+ */
+
+export type RebalanceMode = 'full' | 'contribution';
+
+export interface RebalanceOptions {
+  mode: RebalanceMode;
+  cash: number;       // new money to invest, USD
+  minTrade: number;   // USD — smaller trades are skipped
+  driftBand: number;  // percentage points — full mode leaves holdings within ±band
+}
+
+export interface RebalanceLine {
+  holdingId: string;
+  symbol: string;
+  assetType: string;
+  price: number;
+  quantity: number;
+  value: number;
+  currentPct: number;
+  targetPct: number | null;
+  drift: number | null;       // currentPct - targetPct, percentage points
+  side: 'buy' | 'sell' | null;
+  tradeQuantity: number;      // always positive
+  tradeValue: number;         // always positive
+  postPct: number;
+}
+
+export interface RebalancePlan {
+  lines: RebalanceLine[];
+  totalValue: number;
+  postValue: number;
+  buys: number;
+  sells: number;
+  unallocatedCash: number;
+  warnings: string[];
+}
+
+export const DEFAULT_REBALANCE_OPTIONS: RebalanceOptions = { mode: 'full', cash: 0, minTrade: 10, driftBand: 1 };
+
+// Eight decimals covers satoshis and every exchange's lot size we import.
+const roundQty = (q: number) => Math.floor(q * 1e8) / 1e8;
+
+/** Spread `amount` over holdings below target, pro rata to their shortfall. Returns what's left. */
+function contribute(amount: number, deltas: Map<string, number>, values: Map<string, number>, targets: Map<string, number>): number {
+  const shortfall = new Map<string, number>();
+  for (const [id, target] of targets) {
+    const gap = target - (values.get(id) ?? 0) - (deltas.get(id) ?? 0);
+    if (gap > 1e-9) shortfall.set(id, gap);
+  }
+  const total = [...shortfall.values()].reduce((s, g) => s + g, 0);
+  if (amount <= 0 || total <= 0) return Math.max(0, amount);
+  const spend = Math.min(amount, total);
+  for (const [id, gap] of shortfall) deltas.set(id, (deltas.get(id) ?? 0) + (spend * gap) / total);
+  return amount - spend;
+}
+
+export function planRebalance(holdings: PortfolioHolding[], options: RebalanceOptions): RebalancePlan {
+  const warnings: string[] = [];
+  const cash = Math.max(0, options.cash || 0);
+  const priced = holdings.filter((h) => {
+    const ok = (h.current_price ?? 0) > 0;
+    if (!ok && h.target_percentage != null) warnings.push(`${h.symbol.toUpperCase()} has no live price and was left out.`);
+    return ok;
+  });
+
+  const value = (h: PortfolioHolding) => h.quantity * (h.current_price ?? 0);
+  const totalValue = priced.reduce((s, h) => s + value(h), 0);
+  const postTotal = totalValue + cash;
+  const targetSum = priced.reduce((s, h) => s + (h.target_percentage ?? 0), 0);
+  if (targetSum > 100.01) warnings.push(`Targets add up to ${targetSum.toFixed(1)}% — buys are scaled to the cash available.`);
+
+  const values = new Map(priced.map((h) => [h.id, value(h)]));
+  const targets = new Map(priced.filter((h) => h.target_percentage != null).map((h) => [h.id, ((h.target_percentage ?? 0) / 100) * postTotal]));
+  const deltas = new Map<string, number>();
+
+  if (options.mode === 'full') {
+    for (const h of priced) {
+      const target = targets.get(h.id);
+      if (target == null || totalValue <= 0) continue;
+      const drift = (value(h) / totalValue) * 100 - (h.target_percentage ?? 0);
+      if (Math.abs(drift) > options.driftBand) deltas.set(h.id, target - value(h));
+    }
+  }
+
+  // Funding: sells plus new cash. Never spend more than that.
+  const settle = () => {
+    const sells = -[...deltas.values()].filter((d) => d < 0).reduce((s, d) => s + d, 0);
+    const buys = [...deltas.values()].filter((d) => d > 0).reduce((s, d) => s + d, 0);
+    const budget = cash + sells;
+    if (buys > budget + 1e-9) {
+      const k = buys > 0 ? budget / buys : 0;
+      for (const [id, d] of deltas) if (d > 0) deltas.set(id, d * k);
+    }
+  };
+  const dropSmall = () => {
+    for (const [id, d] of deltas) if (Math.abs(d) < options.minTrade) deltas.delete(id);
+  };
+
+  settle();
+  const spent = () => [...deltas.values()].reduce((s, d) => s + d, 0);
+  contribute(cash - spent(), deltas, values, targets);
+  dropSmall();
+  settle();
+  dropSmall();
+
+  const lines = priced.map((h): RebalanceLine => {
+    const price = h.current_price ?? 0;
+    const delta = deltas.get(h.id) ?? 0;
+    // Selling a whole position should clear it, not leave float dust behind.
+    const tradeQuantity = delta < 0 && -delta >= value(h) - 1e-6 ? h.quantity : roundQty(Math.abs(delta) / price);
+    const side = tradeQuantity > 0 ? (delta > 0 ? 'buy' : 'sell') : null;
+    const tradeValue = tradeQuantity * price;
+    const currentPct = totalValue > 0 ? (value(h) / totalValue) * 100 : 0;
+    return {
+      holdingId: h.id,
+      symbol: h.symbol.toUpperCase(),
+      assetType: h.asset_type,
+      price,
+      quantity: h.quantity,
+      value: value(h),
+      currentPct,
+      targetPct: h.target_percentage ?? null,
+      drift: h.target_percentage != null ? currentPct - h.target_percentage : null,
+      side,
+      tradeQuantity,
+      tradeValue,
+      postPct: 0,
+    };
+  });
+
+  const buys = lines.filter((l) => l.side === 'buy').reduce((s, l) => s + l.tradeValue, 0);
+  const sells = lines.filter((l) => l.side === 'sell').reduce((s, l) => s + l.tradeValue, 0);
+  const postValue = totalValue + buys - sells;
+  for (const l of lines) {
+    const post = l.value + (l.side === 'buy' ? l.tradeValue : l.side === 'sell' ? -l.tradeValue : 0);
+    l.postPct = postValue > 0 ? (post / postValue) * 100 : 0;
+  }
+  if (!targets.size) warnings.push('Set a target % on at least one holding to plan a rebalance.');
+
+  return { lines, totalValue, postValue, buys, sells, unallocatedCash: cash + sells - buys, warnings };
+}
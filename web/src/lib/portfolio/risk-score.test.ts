@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { holdingValue, portfolioRiskHistory, portfolioRiskScore, riskBand } from './risk-score';
+import type { Transaction } from '@/types/transaction';
+
+const levels = new Map([['BTC', 0.4], ['ETH', 0.8]]);
+
+const tx = (symbol: string, type: Transaction['type'], quantity: number, date: string): Transaction => ({
+  id: `${symbol}-${date}`,
+  portfolio_id: 'p',
+  type,
+  asset_type: 'crypto',
+  symbol,
+  quantity,
+  price_per_unit: 1,
+  gas_fee: 0,
+  total_value: quantity,
+  transaction_date: `${date}T12:00:00`,
+  created_at: `${date}T12:00:00`,
+});
+
+describe('portfolio risk score', () => {
+  it('weights asset risk by value and lists unknown assets explicitly', () => {
+    const s = portfolioRiskScore(
+      [{ symbol: 'btc', value: 6_000 }, { symbol: 'ETH', value: 2_000 }, { symbol: 'PEPE', value: 2_000 }],
+      levels,
+    );
+    expect(s.score).toBeCloseTo(0.5, 10);
+    expect(s.band).toBe('Neutral');
+    expect(s.coverage).toBeCloseTo(0.8, 10);
+    expect(s.unknown).toEqual([{ symbol: 'PEPE', value: 2_000, share: 0.2 }]);
+    // Unknown at risk 0 or 1 bounds the whole portfolio
+    expect(s.low).toBeCloseTo(0.4, 10);
+    expect(s.high).toBeCloseTo(0.6, 10);
+  });
+
+  it('breaks the score down by contribution', () => {
+    const s = portfolioRiskScore([{ symbol: 'BTC', value: 6_000 }, { symbol: 'ETH', value: 4_000 }], levels);
+    expect(s.contributions.map((c) => c.symbol)).toEqual(['ETH', 'BTC']);
+    expect(s.contributions[0].contribution).toBeCloseTo(0.32, 10);
+    expect(s.contributions.reduce((t, c) => t + c.contribution, 0)).toBeCloseTo(s.score!, 10);
+    expect(s.contributions.reduce((t, c) => t + c.share, 0)).toBeCloseTo(1, 10);
+  });
+
+  it('has no score when no holding has a risk model', () => {
+    const s = portfolioRiskScore([{ symbol: 'GOLD', value: 1_000 }], levels);
+    expect(s.score).toBeNull();
+    expect(s.band).toBeNull();
+    expect(s.coverage).toBe(0);
+    expect(riskBand(0.7)).toBe('High');
+  });
+
+  it('values a holding without a live price at cost', () => {
+    expect(holdingValue({ quantity: 2, current_price: 150, average_buy_price: 100 })).toBe(300);
+    expect(holdingValue({ quantity: 2, average_buy_price: 100 })).toBe(200);
+    expect(holdingValue({ quantity: 2 })).toBe(0);
+  });
+
+  it('replays transactions and carries risk forward over the history dates', () => {
+    const history = ['2026-03-01', '2026-03-02', '2026-03-03', '2026-03-04'].map((date) => ({ date, value: 1 }));
+    const points = portfolioRiskHistory(
+      history,
+      [{ symbol: 'BTC', quantity: 1, price: 100 }, { symbol: 'ETH', quantity: 1, price: 100 }],
+      [tx('ETH', 'buy', 1, '2026-03-03')],
+      new Map([
+        ['btc', [{ date: '2026-03-02', value: 0.2 }, { date: '2026-03-04', value: 0.4 }]],
+        ['eth', [{ date: '2026-03-01', value: 0.8 }]],
+      ]),
+      new Map([['BTC', [{ date: '2026-03-01', value: 300 }]]]),
+    );
+    expect(points.map((p) => p.date)).toEqual(['2026-03-02', '2026-03-03', '2026-03-04']);
+    // Before the ETH buy the portfolio is BTC only
+    expect(points[0].score).toBeCloseTo(0.2, 10);
+    // BTC at 300 (its last price), ETH at 100 (today's, no history)
+    expect(points[1].score).toBeCloseTo(0.75 * 0.2 + 0.25 * 0.8, 10);
+    expect(points[2].score).toBeCloseTo(0.75 * 0.4 + 0.25 * 0.8, 10);
+  });
+});
@@ -0,0 +1,172 @@
+import { localDateISO } from '@/lib/utils/format';
+import type { PortfolioHolding } from '@/types';
+import type { RiskBand } from '@/types/macro';
+import type { Transaction } from '@/types/transaction';
+import { valueAt, type SeriesPoint } from './benchmark';
+
+/**
+ * Portfolio risk score — the value-weighted 0-1 regression risk of the
+ * holdings, on the same scale and bands as the per-asset risk levels.
+ *
+ * Assets with no risk model (small caps, metals, anything not in
+ * indicator_snapshots) are never guessed at. The score is taken over the
+ * holdings that have one, and the rest are reported as `unknown` with their
+ * share of value. `low`/`high` bound the whole-portfolio score if every
+ * unknown asset sat at risk 0 or 1, so a half-covered portfolio reads as
+ * uncertain rather than precise.
+ *
+ * History replays transactions backwards from today's quantities (holdings
+ * with no transactions keep their current quantity), values each holding at
+ * its price on the day when there is one (today's otherwise), and weights the
+ * asset risk carried forward to that day. The dates are portfolio_history's;
+ * series maps are keyed by symbol in any case.
+ */
+
+export interface RiskScoreHolding {
+  symbol: string;
+  value: number;
+}
+
+export interface RiskContribution {
+  symbol: string;
+  value: number;
+  weight: number;        // of covered value, 0-1
+  risk: number;          // asset risk, 0-1
+  contribution: number;  // weight × risk, sums to the score
+  share: number;         // of the score, 0-1
+}
+
+export interface UnknownRiskHolding {
+  symbol: string;
+  value: number;
+  share: number;         // of total value, 0-1
+}
+
+export interface PortfolioRiskScore {
+  score: number | null;  // 0-1 over the covered holdings
+  band: RiskBand | null;
+  coverage: number;      // covered share of total value, 0-1
+  low: number | null;    // whole portfolio if every unknown were risk 0
+  high: number | null;   // … or risk 1
+  contributions: RiskContribution[];  // by contribution desc
+  unknown: UnknownRiskHolding[];      // by value desc
+}
+
+export interface RiskScorePoint {
+  date: string;
+  score: number;
+  coverage: number;
+  value: number;         // portfolio_history value that day
+}
+
+/**
+ * What a holding counts for in the risk score: quantity at the live price, or
+ * at cost when there is none, so an unpriced holding still carries weight.
+ */
+export function holdingValue(h: Pick<PortfolioHolding, 'quantity' | 'current_price' | 'average_buy_price'>): number {
+  return h.quantity * (h.current_price ?? h.average_buy_price ?? 0);
+}
+
+export function riskBand(v: number): RiskBand {
+  if (v < 0.20) return 'Very Low';
+  if (v < 0.40) return 'Low';
+  if (v < 0.55) return 'Neutral';
+  if (v < 0.70) return 'Elevated';
+  return 'High';
+}
+
+export function portfolioRiskScore(
+  holdings: RiskScoreHolding[],
+  levels: Map<string, number>,
+): PortfolioRiskScore {
+  const bySymbol = new Map<string, number>();
+  for (const h of holdings) {
+    if (!(h.value > 0)) continue;
+    const sym = h.symbol.toUpperCase();
+    bySymbol.set(sym, (bySymbol.get(sym) ?? 0) + h.value);
+  }
+  const total = [...bySymbol.values()].reduce((s, v) => s + v, 0);
+  const covered = [...bySymbol].filter(([sym]) => levels.has(sym));
+  const coveredValue = covered.reduce((s, [, v]) => s + v, 0);
+
+  const score = coveredValue > 0
+    ? covered.reduce((s, [sym, v]) => s + v * levels.get(sym)!, 0) / coveredValue
+    : null;
+  const contributions: RiskContribution[] = covered
+    .map(([symbol, value]) => {
+      const risk = levels.get(symbol)!;
+      const weight = value / coveredValue;
+      return { symbol, value, weight, risk, contribution: weight * risk, share: score ? (weight * risk) / score : 0 };
+    })
+    .sort((a, b) => b.contribution - a.contribution);
+  const unknown = [...bySymbol]
+    .filter(([sym]) => !levels.has(sym))
+    .map(([symbol, value]) => ({ symbol, value, share: value / total }))
+    .sort((a, b) => b.value - a.value);
+
+  const coverage = total > 0 ? coveredValue / total : 0;
+  return {
+    score,
+    band: score == null ? null : riskBand(score),
+    coverage,
+    low: score == null ? null : score * coverage,
+    high: score == null ? null : score * coverage + (1 - coverage),
+    contributions,
+    unknown,
+  };
+}
+
+/** Signed quantity a transaction adds to its holding. */
+function quantityDelta(t: Transaction): number {
+  const q = Math.abs(Number(t.quantity));
+  return t.type === 'buy' || t.type === 'transfer_in' ? q : -q;
+}
+
+const upperKeys = <T>(m: Map<string, T>) => new Map([...m].map(([k, v]) => [k.toUpperCase(), v]));
+
+/**
+ * Daily risk score over the portfolio_history dates. Days where no held asset
+ * has a risk reading yet are left out rather than drawn as zero.
+ */
+export function portfolioRiskHistory(
+  history: { date: string; value: number }[],
+  holdings: { symbol: string; quantity: number; price: number }[],
+  transactions: Transaction[],
+  riskSeries: Map<string, SeriesPoint[]>,
+  prices: Map<string, SeriesPoint[]> = new Map(),
+): RiskScorePoint[] {
+  const risks = upperKeys(riskSeries);
+  const pricesBySymbol = upperKeys(prices);
+  const current = new Map<string, { quantity: number; price: number }>();
+  for (const h of holdings) {
+    const sym = h.symbol.toUpperCase();
+    const prev = current.get(sym);
+    current.set(sym, { quantity: (prev?.quantity ?? 0) + h.quantity, price: h.price || prev?.price || 0 });
+  }
+  // Newest first, so each day's quantities are today's minus everything after it
+  const txs = transactions
+    .map((t) => ({ symbol: t.symbol.toUpperCase(), date: localDateISO(new Date(t.transaction_date)), delta: quantityDelta(t) }))
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const quantities = new Map([...current].map(([sym, c]) => [sym, c.quantity]));
+  let next = 0;
+
+  const points: RiskScorePoint[] = [];
+  for (const day of [...history].sort((a, b) => b.date.localeCompare(a.date))) {
+    for (; next < txs.length && txs[next].date > day.date; next++) {
+      const t = txs[next];
+      quantities.set(t.symbol, (quantities.get(t.symbol) ?? 0) - t.delta);
+    }
+    const holdingsOn: RiskScoreHolding[] = [];
+    const levels = new Map<string, number>();
+    for (const [symbol, quantity] of quantities) {
+      if (quantity <= 1e-12) continue;
+      const price = valueAt(pricesBySymbol.get(symbol) ?? [], day.date) ?? current.get(symbol)?.price ?? 0;
+      holdingsOn.push({ symbol, value: quantity * price });
+      const risk = valueAt(risks.get(symbol) ?? [], day.date);
+      if (risk != null) levels.set(symbol, risk);
+    }
+    const s = portfolioRiskScore(holdingsOn, levels);
+    if (s.score != null) points.push({ date: day.date, score: s.score, coverage: s.coverage, value: day.value });
+  }
+  return points.reverse();
+}
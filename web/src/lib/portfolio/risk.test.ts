@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePortfolioRisk, beta, correlation, pairedReturns, portfolioIndex } from './risk';
+import type { SeriesPoint } from './benchmark';
+
+const day = (i: number) => new Date(Date.UTC(2026, 0, 1) + i * 86_400_000).toISOString().slice(0, 10);
+
+/** A price series from daily returns, starting at 100. */
+const series = (returns: number[], skip: (i: number) => boolean = () => false): SeriesPoint[] => {
+  let v = 100;
+  const out: SeriesPoint[] = [{ date: day(0), value: v }];
+  returns.forEach((r, i) => {
+    v *= 1 + r;
+    if (!skip(i + 1)) out.push({ date: day(i + 1), value: v });
+  });
+  return out;
+};
+
+// Deterministic, uncorrelated-looking return streams
+const wave = (n: number, f: number, amp = 0.02) => Array.from({ length: n }, (_, i) => amp * Math.sin(i * f));
+const btcR = wave(60, 1.3);
+const otherR = wave(60, 2.9);
+
+describe('portfolio risk', () => {
+  it('compares series only on the dates both have', () => {
+    const weekdays = series(btcR, (i) => i % 7 === 5 || i % 7 === 6);
+    const [a, b] = pairedReturns(weekdays, series(btcR));
+    expect(a.length).toBe(weekdays.length - 1);
+    a.forEach((r, i) => expect(r).toBeCloseTo(b[i], 12));
+    expect(correlation(weekdays, series(btcR))).toBeCloseTo(1, 10);
+  });
+
+  it('measures beta as sensitivity to the benchmark', () => {
+    const btc = series(btcR);
+    expect(beta(series(btcR.map((r) => 2 * r)), btc)).toBeCloseTo(2, 10);
+    expect(correlation(series(btcR.map((r) => -r)), btc)).toBeCloseTo(-1, 10);
+  });
+
+  it('builds a constant-weight index from the holdings observed each day', () => {
+    const idx = portfolioIndex([series([0.1, 0]), series([0, 0.1])], [0.5, 0.5]);
+    expect(idx.map((p) => p.value)).toEqual([1, 1.05, 1.05 * 1.05]);
+  });
+
+  it('flags alts that all move with BTC as one position', () => {
+    const btc = series(btcR);
+    const risk = analyzePortfolioRisk([
+      { symbol: 'BTC', value: 4_000, points: btc },
+      { symbol: 'ETH', value: 3_000, points: series(btcR.map((r) => 1.2 * r + 0.001)) },
+      { symbol: 'SOL', value: 3_000, points: series(btcR.map((r) => 1.5 * r)) },
+    ], { btc, spy: [] }, 90)!;
+    expect(risk.effectivePositions).toBeGreaterThan(2.5);
+    expect(risk.independentBets).toBeCloseTo(1, 6);
+    expect(risk.concentrationScore).toBe(100);
+    expect(risk.largestCluster.weight).toBeCloseTo(1, 10);
+    expect(risk.effectivelyOnePosition).toBe(true);
+    expect(risk.betaBtc).toBeCloseTo(0.4 + 0.36 + 0.45, 6);
+    expect(risk.betaSpy).toBeNull();
+  });
+
+  it('counts uncorrelated holdings as separate bets', () => {
+    const btc = series(btcR);
+    const risk = analyzePortfolioRisk([
+      { symbol: 'BTC', value: 5_000, points: btc },
+      { symbol: 'GLD', value: 5_000, points: series(otherR) },
+    ], { btc, spy: [] }, 90)!;
+    expect(risk.independentBets!).toBeGreaterThan(1.8);
+    expect(risk.effectivelyOnePosition).toBe(false);
+    expect(risk.correlation[0][0]).toBe(1);
+    expect(Math.abs(risk.correlation[0][1]!)).toBeLessThan(0.2);
+  });
+
+  it('reports holdings without enough history as uncovered', () => {
+    const btc = series(btcR);
+    const risk = analyzePortfolioRisk([
+      { symbol: 'BTC', value: 9_000, points: btc },
+      { symbol: 'NEW', value: 1_000, points: btc.slice(-3) },
+    ], { btc, spy: [] }, 90)!;
+    expect(risk.uncovered).toEqual(['NEW']);
+    expect(risk.coverage).toBeCloseTo(0.9, 10);
+    expect(risk.holdings.map((h) => h.symbol)).toEqual(['BTC']);
+  });
+});
@@ -0,0 +1,223 @@
+import type { SeriesPoint } from './benchmark';
+
+/**
+ * Correlation and concentration risk — how diversified a portfolio really is
+ * once co-movement is counted, not just how many slices the allocation has.
+ *
+ * Everything works on daily price series. Returns are taken between the dates
+ * two series share, so an asset that skips weekends (stocks) is compared on
+ * its own trading days instead of against carried-forward zero returns. The
+ * portfolio itself is a constant-weight index at today's weights: what the
+ * current mix would have done over the window.
+ *
+ * Independent bets is the squared diversification ratio, (Σ wᵢσᵢ / σₚ)²:
+ * 1 when every holding moves in lockstep, n for n uncorrelated equal-risk
+ * holdings. A cluster is a holding plus everything correlated with it at
+ * CLUSTER_CORRELATION or more; when the largest cluster is most of the
+ * portfolio, the portfolio is effectively one position.
+ */
+
+export const RISK_WINDOWS = [30, 90, 180] as const;
+export type RiskWindow = (typeof RISK_WINDOWS)[number];
+
+export const CLUSTER_CORRELATION = 0.7;
+export const ONE_POSITION_WEIGHT = 0.6;
+
+/** Fewest shared returns a correlation or beta is computed from. */
+const MIN_RETURNS = 10;
+const DAY_MS = 86_400_000;
+
+export interface RiskHolding {
+  symbol: string;
+  value: number;         // current market value
+  points: SeriesPoint[]; // daily prices, oldest first
+}
+
+export interface HoldingRisk {
+  symbol: string;
+  weight: number;              // of the analyzed value, 0-1
+  volatility: number | null;   // annualized %
+  betaBtc: number | null;
+  betaSpy: number | null;
+}
+
+export interface RiskCluster {
+  anchor: string;
+  members: string[];
+  weight: number;              // 0-1
+}
+
+export interface PortfolioRisk {
+  windowDays: number;
+  holdings: HoldingRisk[];                 // analyzed, by weight desc
+  correlation: (number | null)[][];        // holdings × holdings
+  uncovered: string[];                     // not enough price history
+  coverage: number;                        // analyzed share of total value, 0-1
+  volatility: number | null;               // portfolio, annualized %
+  betaBtc: number | null;
+  betaSpy: number | null;
+  effectivePositions: number;              // 1 / Σ w²
+  independentBets: number | null;
+  concentrationScore: number;              // 0-100, 100 = one position
+  largestCluster: RiskCluster;
+  effectivelyOnePosition: boolean;
+  rollingBtcCorrelation: SeriesPoint[];    // portfolio vs BTC over the trailing window
+}
+
+function windowOf(points: SeriesPoint[], start: string): SeriesPoint[] {
+  return points.filter((p) => p.date >= start && p.value > 0);
+}
+
+/** Simple returns of a and b between the dates both have. */
+export function pairedReturns(a: SeriesPoint[], b: SeriesPoint[]): [number[], number[]] {
+  const bByDate = new Map(b.map((p) => [p.date, p.value]));
+  const shared = a.filter((p) => bByDate.has(p.date));
+  const ra: number[] = [];
+  const rb: number[] = [];
+  for (let i = 1; i < shared.length; i++) {
+    ra.push(shared[i].value / shared[i - 1].value - 1);
+    rb.push(bByDate.get(shared[i].date)! / bByDate.get(shared[i - 1].date)! - 1);
+  }
+  return [ra, rb];
+}
+
+const mean = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length;
+
+function covariance(xs: number[], ys: number[]): number {
+  const mx = mean(xs);
+  const my = mean(ys);
+  return xs.reduce((s, x, i) => s + (x - mx) * (ys[i] - my), 0) / (xs.length - 1);
+}
+
+export function correlation(a: SeriesPoint[], b: SeriesPoint[]): number | null {
+  const [ra, rb] = pairedReturns(a, b);
+  if (ra.length < MIN_RETURNS) return null;
+  const denom = Math.sqrt(covariance(ra, ra) * covariance(rb, rb));
+  return denom > 0 ? covariance(ra, rb) / denom : null;
+}
+
+export function beta(asset: SeriesPoint[], benchmark: SeriesPoint[]): number | null {
+  const [ra, rb] = pairedReturns(asset, benchmark);
+  if (ra.length < MIN_RETURNS) return null;
+  const v = covariance(rb, rb);
+  return v > 0 ? covariance(ra, rb) / v : null;
+}
+
+/** Annualized % volatility, scaled by how often the series is observed. */
+function volatility(points: SeriesPoint[]): number | null {
+  const [r] = pairedReturns(points, points);
+  if (r.length < MIN_RETURNS) return null;
+  const days = (Date.parse(points[points.length - 1].date) - Date.parse(points[0].date)) / DAY_MS;
+  return Math.sqrt(covariance(r, r) * (r.length * 365) / days) * 100;
+}
+
+/**
+ * Constant-weight index of the holdings: each day adds the weighted return of
+ * the holdings observed that day (a Monday stock return covers its weekend).
+ */
+export function portfolioIndex(series: SeriesPoint[][], weights: number[]): SeriesPoint[] {
+  const dates = [...new Set(series.flatMap((s) => s.map((p) => p.date)))].sort();
+  const lookups = series.map((s) => new Map(s.map((p) => [p.date, p.value])));
+  const last: (number | null)[] = series.map(() => null);
+  let level = 1;
+  return dates.map((date) => {
+    let r = 0;
+    lookups.forEach((byDate, i) => {
+      const v = byDate.get(date);
+      if (v == null) return;
+      if (last[i] != null) r += weights[i] * (v / last[i]! - 1);
+      last[i] = v;
+    });
+    level *= 1 + r;
+    return { date, value: level };
+  });
+}
+
+/** Correlation of a and b over each trailing `window` days, one point per date of a. */
+export function rollingCorrelation(a: SeriesPoint[], b: SeriesPoint[], window: number): SeriesPoint[] {
+  const out: SeriesPoint[] = [];
+  for (const p of a) {
+    const start = new Date(Date.parse(p.date) - window * DAY_MS).toISOString().slice(0, 10);
+    if (start < a[0].date) continue;
+    const c = correlation(a.filter((x) => x.date >= start && x.date <= p.date), b);
+    if (c != null) out.push({ date: p.date, value: c });
+  }
+  return out;
+}
+
+export function analyzePortfolioRisk(
+  holdings: RiskHolding[],
+  benchmarks: { btc: SeriesPoint[]; spy: SeriesPoint[] },
+  windowDays: number,
+  rollingDays = 30,
+): PortfolioRisk | null {
+  const total = holdings.reduce((s, h) => s + Math.max(h.value, 0), 0);
+  if (total <= 0) return null;
+
+  const ends = [...holdings.flatMap((h) => h.points.slice(-1)), ...benchmarks.btc.slice(-1)].map((p) => p.date).sort();
+  if (!ends.length) return null;
+  const end = ends[ends.length - 1];
+  const start = new Date(Date.parse(end) - windowDays * DAY_MS).toISOString().slice(0, 10);
+  // Rolling correlation needs one extra trailing window of history
+  const rollingStart = new Date(Date.parse(start) - rollingDays * DAY_MS).toISOString().slice(0, 10);
+
+  const btc = windowOf(benchmarks.btc, start);
+  const spy = windowOf(benchmarks.spy, start);
+  const analyzed: { symbol: string; value: number; points: SeriesPoint[]; full: SeriesPoint[] }[] = [];
+  const uncovered: string[] = [];
+  for (const h of holdings.filter((x) => x.value > 0)) {
+    const points = windowOf(h.points, start);
+    if (points.length > MIN_RETURNS) analyzed.push({ ...h, points, full: windowOf(h.points, rollingStart) });
+    else uncovered.push(h.symbol);
+  }
+  analyzed.sort((a, b) => b.value - a.value);
+  const covered = analyzed.reduce((s, h) => s + h.value, 0);
+  if (!analyzed.length) return null;
+
+  const weights = analyzed.map((h) => h.value / covered);
+  const correlationMatrix = analyzed.map((a, i) => analyzed.map((b, j) => (i === j ? 1 : correlation(a.points, b.points))));
+  const rows: HoldingRisk[] = analyzed.map((h, i) => ({
+    symbol: h.symbol,
+    weight: weights[i],
+    volatility: volatility(h.points),
+    betaBtc: beta(h.points, btc),
+    betaSpy: beta(h.points, spy),
+  }));
+
+  const index = portfolioIndex(analyzed.map((h) => h.points), weights);
+  const portfolioVol = volatility(index);
+  const weightedVol = rows.every((r) => r.volatility != null)
+    ? rows.reduce((s, r) => s + r.weight * r.volatility!, 0)
+    : null;
+  const independentBets = portfolioVol && weightedVol != null
+    ? Math.min(Math.max((weightedVol / portfolioVol) ** 2, 1), analyzed.length)
+    : null;
+  const effectivePositions = 1 / weights.reduce((s, w) => s + w * w, 0);
+
+  const clusters = analyzed.map((a, i): RiskCluster => {
+    const members = analyzed.filter((_, j) => i === j || (correlationMatrix[i][j] ?? 0) >= CLUSTER_CORRELATION);
+    return { anchor: a.symbol, members: members.map((m) => m.symbol), weight: members.reduce((s, m) => s + m.value / covered, 0) };
+  });
+  const largestCluster = clusters.reduce((a, b) => (b.weight > a.weight ? b : a));
+
+  const fullIndex = portfolioIndex(analyzed.map((h) => h.full), weights);
+  const rolling = rollingCorrelation(fullIndex, windowOf(benchmarks.btc, rollingStart), rollingDays)
+    .filter((p) => p.date >= start);
+
+  return {
+    windowDays,
+    holdings: rows,
+    correlation: correlationMatrix,
+    uncovered,
+    coverage: covered / total,
+    volatility: portfolioVol,
+    betaBtc: beta(index, btc),
+    betaSpy: beta(index, spy),
+    effectivePositions,
+    independentBets,
+    concentrationScore: Math.round(100 / (independentBets ?? effectivePositions)),
+    largestCluster,
+    effectivelyOnePosition: largestCluster.weight >= ONE_POSITION_WEIGHT,
+    rollingBtcCorrelation: rolling,
+  };
+}
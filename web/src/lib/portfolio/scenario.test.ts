@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { checkLimits, episodeShocks, factorBetas, runScenario } from './scenario';
+import type { SeriesPoint } from './benchmark';
+
+const day = (i: number) => new Date(Date.UTC(2026, 0, 1) + i * 86_400_000).toISOString().slice(0, 10);
+
+/** A price series from daily returns, starting at 100. */
+const series = (returns: number[]): SeriesPoint[] => {
+  let v = 100;
+  const out: SeriesPoint[] = [{ date: day(0), value: v }];
+  returns.forEach((r, i) => {
+    v *= 1 + r;
+    out.push({ date: day(i + 1), value: v });
+  });
+  return out;
+};
+
+const wave = (n: number, f: number, amp = 0.02) => Array.from({ length: n }, (_, i) => amp * Math.sin(i * f));
+const btcR = wave(90, 1.3);
+const spyR = wave(90, 2.9, 0.01);
+const factors = { btc: series(btcR), spy: series(spyR) };
+
+describe('scenario testing', () => {
+  it('separates betas to factors in one regression', () => {
+    const mixed = series(btcR.map((r, i) => 1.5 * r + 0.5 * spyR[i]));
+    const b = factorBetas(mixed, factors, ['btc', 'spy'])!;
+    expect(b.btc).toBeCloseTo(1.5, 8);
+    expect(b.spy).toBeCloseTo(0.5, 8);
+    expect(factorBetas(series(btcR.slice(0, 10)), factors, ['btc'])).toBeNull();
+  });
+
+  it('moves holdings by beta-weighted shocks and falls back to proxies', () => {
+    const result = runScenario([
+      { symbol: 'alt', asset_type: 'crypto', value: 1_000, points: series(btcR.map((r) => 2 * r)) },
+      { symbol: 'NEW', asset_type: 'crypto', value: 1_000, points: [] },
+      { symbol: 'USDC', asset_type: 'crypto', value: 2_000, points: [] },
+    ], factors, { btc: -40 });
+    const by = Object.fromEntries(result.holdings.map((h) => [h.symbol, h]));
+    expect(by.ALT.changePct).toBeCloseTo(-80, 8);
+    expect(by.ALT.method).toBe('regression');
+    expect(by.NEW).toMatchObject({ changePct: -40, method: 'proxy' });
+    expect(by.USDC).toMatchObject({ changePct: 0, method: 'flat' });
+    expect(result.change).toBeCloseTo(-1_200, 6);
+    expect(result.changePct).toBeCloseTo(-30, 6);
+    expect(result.holdings[0].symbol).toBe('ALT');
+
+    // No holding loses more than its value
+    expect(runScenario([{ symbol: 'alt', asset_type: 'crypto', value: 100, points: series(btcR.map((r) => 3 * r)) }], factors, { btc: -50 }).projected)
+      .toBeCloseTo(0, 8);
+  });
+
+  it('measures an episode as each factor\'s move over the window', () => {
+    expect(episodeShocks({ btc: [{ date: '2026-01-01', value: 100 }, { date: '2026-01-10', value: 60 }] }, '2026-01-01', '2026-01-10'))
+      .toEqual({ btc: -40 });
+    expect(episodeShocks({ btc: [{ date: '2026-01-05', value: 100 }] }, '2026-01-01', '2026-01-10')).toEqual({});
+  });
+
+  it('reports how much of each loss limit a scenario uses', () => {
+    const [pct, floor] = checkLimits(10_000, -1_500, { maxLossPct: 20, floorValue: 9_000 });
+    expect(pct).toMatchObject({ allowedLoss: 2_000, usage: 0.75, breached: false });
+    expect(pct.breachScale).toBeCloseTo(4 / 3, 10);
+    expect(floor).toMatchObject({ allowedLoss: 1_000, usage: 1.5, breached: true });
+    expect(checkLimits(10_000, 500, { maxLossPct: 20 })[0]).toMatchObject({ usage: 0, breached: false, breachScale: null });
+  });
+});
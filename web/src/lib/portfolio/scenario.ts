@@ -0,0 +1,233 @@
+import { valueAt, type SeriesPoint } from './benchmark';
+import type { ScenarioFactor, ScenarioShocks } from '@/types';
+
+/**
+ * Scenario and stress testing — what a set of market moves does to the
+ * current holdings.
+ *
+ * A scenario is a shock to one or more factors (BTC, SPY, gold), in percent.
+ * A historical episode is the same thing with the shocks measured: each
+ * factor's move from the first to the last day of the window.
+ *
+ * Each holding moves by Σ βₖ·shockₖ, with the betas from one regression of
+ * its daily returns on the returns of the shocked factors together, so a coin
+ * that tracks BTC is not counted again through SPY's correlation with BTC.
+ * A holding without enough price history falls back to a proxy: stablecoins
+ * stay flat, other crypto follows BTC, stocks follow SPY, metals follow gold.
+ * No holding can lose more than all of it.
+ *
+ * Loss limits are a maximum loss in percent and a floor value; usage is the
+ * scenario's loss as a share of the loss the limit allows, and breachScale
+ * how many times the scenario it would take to hit it (moves scale linearly).
+ */
+
+export const SCENARIO_FACTORS: { key: ScenarioFactor; label: string; symbol: string }[] = [
+  { key: 'btc', label: 'BTC', symbol: 'BTCUSD' },
+  { key: 'spy', label: 'SPY', symbol: 'SPY' },
+  { key: 'gold', label: 'Gold', symbol: 'GLD' },
+];
+
+export const SHOCK_PRESETS: { name: string; shocks: ScenarioShocks }[] = [
+  { name: 'BTC −40%', shocks: { btc: -40 } },
+  { name: 'Crypto winter', shocks: { btc: -70, spy: -15 } },
+  { name: 'Equity selloff', shocks: { btc: -30, spy: -20, gold: 5 } },
+  { name: 'Risk-on rally', shocks: { btc: 50, spy: 15, gold: -5 } },
+];
+
+export const HISTORICAL_EPISODES: { name: string; start: string; end: string }[] = [
+  { name: 'COVID crash', start: '2020-02-19', end: '2020-03-23' },
+  { name: 'May 2021 crash', start: '2021-05-10', end: '2021-05-23' },
+  { name: '2022 bear market', start: '2021-11-10', end: '2022-11-21' },
+  { name: 'FTX collapse', start: '2022-11-06', end: '2022-11-21' },
+  { name: 'Aug 2024 unwind', start: '2024-07-29', end: '2024-08-05' },
+];
+
+/** Days of history the betas are estimated from. */
+export const BETA_DAYS = 365;
+
+/** Fewest shared returns a regression is run on. */
+const MIN_RETURNS = 30;
+
+const STABLECOINS = new Set(['USDT', 'USDC', 'DAI', 'FDUSD', 'TUSD', 'BUSD', 'USDE', 'PYUSD', 'USD']);
+
+export type FactorSeries = Partial<Record<ScenarioFactor, SeriesPoint[]>>;
+
+export interface ScenarioHolding {
+  symbol: string;
+  asset_type: string;
+  value: number;            // current market value
+  points: SeriesPoint[];    // daily prices, oldest first
+}
+
+export type ImpactMethod = 'regression' | 'proxy' | 'flat';
+
+export interface HoldingImpact {
+  symbol: string;
+  value: number;
+  weight: number;           // of total value, 0-1
+  betas: Partial<Record<ScenarioFactor, number>>;
+  method: ImpactMethod;
+  changePct: number;
+  change: number;           // USD
+  projected: number;
+}
+
+export interface LossLimits {
+  maxLossPct?: number | null;   // e.g. 25 = may lose up to 25%
+  floorValue?: number | null;   // value the portfolio must stay above
+}
+
+export interface LimitCheck {
+  kind: 'pct' | 'floor';
+  limit: number;            // the % or the floor value
+  allowedLoss: number;      // USD
+  usage: number;            // scenario loss / allowed loss; ≥ 1 is a breach
+  breached: boolean;
+  breachScale: number | null;   // multiple of the scenario that reaches the limit
+}
+
+export interface ScenarioResult {
+  value: number;
+  projected: number;
+  change: number;
+  changePct: number;
+  holdings: HoldingImpact[];    // by USD impact, worst first
+  limits: LimitCheck[];
+}
+
+/** Shocked factors, in SCENARIO_FACTORS order. */
+export function activeFactors(shocks: ScenarioShocks): ScenarioFactor[] {
+  return SCENARIO_FACTORS.map((f) => f.key).filter((k) => (shocks[k] ?? 0) !== 0);
+}
+
+/** Each factor's % move over [start, end]; factors without data in the window are left out. */
+export function episodeShocks(series: FactorSeries, start: string, end: string): ScenarioShocks {
+  const out: ScenarioShocks = {};
+  for (const { key } of SCENARIO_FACTORS) {
+    const pts = series[key];
+    if (!pts?.length || pts[0].date > start) continue;
+    const a = valueAt(pts, start);
+    const b = valueAt(pts, end);
+    if (a && b) out[key] = Math.round((b / a - 1) * 1000) / 10;
+  }
+  return out;
+}
+
+/** Solves A·x = b by Gaussian elimination with partial pivoting; null when singular. */
+function solve(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+  for (let c = 0; c < n; c++) {
+    let p = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(m[r][c]) > Math.abs(m[p][c])) p = r;
+    if (Math.abs(m[p][c]) < 1e-12) return null;
+    [m[c], m[p]] = [m[p], m[c]];
+    for (let r = c + 1; r < n; r++) {
+      const f = m[r][c] / m[c][c];
+      for (let k = c; k <= n; k++) m[r][k] -= f * m[c][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let s = m[r][n];
+    for (let k = r + 1; k < n; k++) s -= m[r][k] * x[k];
+    x[r] = s / m[r][r];
+  }
+  return x;
+}
+
+/**
+ * Betas of `asset` on the given factors from one least-squares regression of
+ * simple returns (with intercept) between the dates every series shares.
+ */
+export function factorBetas(
+  asset: SeriesPoint[],
+  series: FactorSeries,
+  factors: ScenarioFactor[],
+): Partial<Record<ScenarioFactor, number>> | null {
+  if (!factors.length) return {};
+  const lookups = factors.map((f) => new Map((series[f] ?? []).map((p) => [p.date, p.value])));
+  const shared = asset.filter((p) => p.value > 0 && lookups.every((l) => (l.get(p.date) ?? 0) > 0));
+  if (shared.length - 1 < MIN_RETURNS) return null;
+
+  // Normal equations for y = α + Σ βₖ xₖ
+  const n = factors.length + 1;
+  const XtX = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  const Xty = new Array<number>(n).fill(0);
+  for (let i = 1; i < shared.length; i++) {
+    const x = [1, ...lookups.map((l) => l.get(shared[i].date)! / l.get(shared[i - 1].date)! - 1)];
+    const y = shared[i].value / shared[i - 1].value - 1;
+    for (let r = 0; r < n; r++) {
+      Xty[r] += x[r] * y;
+      for (let c = 0; c < n; c++) XtX[r][c] += x[r] * x[c];
+    }
+  }
+  const coef = solve(XtX, Xty);
+  if (!coef) return null;
+  return Object.fromEntries(factors.map((f, i) => [f, coef[i + 1]]));
+}
+
+function proxyBetas(h: ScenarioHolding): { betas: Partial<Record<ScenarioFactor, number>>; method: ImpactMethod } {
+  const sym = h.symbol.toUpperCase();
+  if (STABLECOINS.has(sym) || h.asset_type === 'cash') return { betas: {}, method: 'flat' };
+  if (h.asset_type === 'crypto') return { betas: { btc: 1 }, method: 'proxy' };
+  if (h.asset_type === 'stock') return { betas: { spy: 1 }, method: 'proxy' };
+  if (h.asset_type === 'metal') return { betas: { gold: 1 }, method: 'proxy' };
+  return { betas: {}, method: 'flat' };
+}
+
+export function checkLimits(value: number, change: number, limits: LossLimits): LimitCheck[] {
+  const loss = Math.max(-change, 0);
+  const out: LimitCheck[] = [];
+  const push = (kind: LimitCheck['kind'], limit: number, allowedLoss: number) => {
+    out.push({
+      kind,
+      limit,
+      allowedLoss,
+      usage: allowedLoss > 0 ? loss / allowedLoss : loss > 0 ? Infinity : 0,
+      breached: loss >= allowedLoss && loss > 0,
+      breachScale: loss > 0 ? allowedLoss / loss : null,
+    });
+  };
+  if (limits.maxLossPct != null && limits.maxLossPct > 0) push('pct', limits.maxLossPct, value * limits.maxLossPct / 100);
+  if (limits.floorValue != null && limits.floorValue > 0) push('floor', limits.floorValue, Math.max(value - limits.floorValue, 0));
+  return out;
+}
+
+export function runScenario(
+  holdings: ScenarioHolding[],
+  series: FactorSeries,
+  shocks: ScenarioShocks,
+  limits: LossLimits = {},
+): ScenarioResult {
+  const factors = activeFactors(shocks);
+  const value = holdings.reduce((s, h) => s + h.value, 0);
+
+  const impacts = holdings.map((h): HoldingImpact => {
+    const regressed = h.points.length ? factorBetas(h.points, series, factors) : null;
+    const { betas, method } = regressed ? { betas: regressed, method: 'regression' as const } : proxyBetas(h);
+    const move = factors.reduce((s, f) => s + (betas[f] ?? 0) * (shocks[f] ?? 0), 0);
+    const changePct = Math.max(move, -100);
+    const change = h.value * changePct / 100;
+    return {
+      symbol: h.symbol.toUpperCase(),
+      value: h.value,
+      weight: value > 0 ? h.value / value : 0,
+      betas,
+      method,
+      changePct,
+      change,
+      projected: h.value + change,
+    };
+  }).sort((a, b) => a.change - b.change);
+
+  const change = impacts.reduce((s, h) => s + h.change, 0);
+  return {
+    value,
+    projected: value + change,
+    change,
+    changePct: value > 0 ? (change / value) * 100 : 0,
+    holdings: impacts,
+    limits: checkLimits(value, change, limits),
+  };
+}
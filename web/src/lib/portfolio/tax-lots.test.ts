@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { isLongTerm, replayLots, type LedgerTx } from './tax-lots';
+import type { CostBasisMethod } from '@/types/transaction';
+
+const buy = (id: string, date: string, quantity: number, price: number, fee = 0): LedgerTx => ({
+  id, type: 'buy', quantity, price_per_unit: price, gas_fee: fee, transaction_date: date,
+});
+const sell = (id: string, date: string, quantity: number, price: number, method?: CostBasisMethod | null): LedgerTx => ({
+  id, type: 'sell', quantity, price_per_unit: price, transaction_date: date, lot_method: method,
+});
+
+// Three lots: 1 @ 100 (Jan), 1 @ 300 (Mar), 1 @ 200 (May).
+const lots = [
+  buy('a', '2024-01-10T00:00:00Z', 1, 100),
+  buy('b', '2024-03-10T00:00:00Z', 1, 300),
+  buy('c', '2024-05-10T00:00:00Z', 1, 200),
+];
+const relieved = (txs: LedgerTx[], sellId = 's') =>
+  replayLots(txs).disposals.get(sellId)!.allocations.map((a) => [a.lot_id, a.quantity]);
+
+describe('replayLots', () => {
+  it('relieves the oldest lot first under FIFO', () => {
+    const txs = [...lots, sell('s', '2024-06-01T00:00:00Z', 1, 250, 'fifo')];
+    expect(relieved(txs)).toEqual([['a', 1]]);
+    expect(replayLots(txs).disposals.get('s')!.realized).toBeCloseTo(150, 6);
+  });
+
+  it('relieves the newest lot first under LIFO', () => {
+    expect(relieved([...lots, sell('s', '2024-06-01T00:00:00Z', 1, 250, 'lifo')])).toEqual([['c', 1]]);
+  });
+
+  it('relieves the highest-cost lot first under HIFO', () => {
+    const txs = [...lots, sell('s', '2024-06-01T00:00:00Z', 1, 250, 'hifo')];
+    expect(relieved(txs)).toEqual([['b', 1]]);
+    expect(replayLots(txs).disposals.get('s')!.realized).toBeCloseTo(-50, 6);
+  });
+
+  it('takes picked lots under Specific ID and falls back to FIFO for the rest', () => {
+    const s: LedgerTx = {
+      ...sell('s', '2024-06-01T00:00:00Z', 1.5, 250, 'specific'),
+      lot_selections: [{ lot_id: 'c', quantity: 1 }, { lot_id: 'gone', quantity: 0.5 }],
+    };
+    expect(relieved([...lots, s])).toEqual([['c', 1], ['a', 0.5]]);
+  });
+
+  it('carries a partly used lot into later sales', () => {
+    const txs = [
+      ...lots,
+      sell('s1', '2024-06-01T00:00:00Z', 0.4, 250, 'fifo'),
+      sell('s2', '2024-07-01T00:00:00Z', 1, 250, 'fifo'),
+    ];
+    const r = replayLots(txs);
+    expect(relieved(txs, 's2')).toEqual([['a', 0.6], ['b', 0.4]]);
+    expect(r.lots.find((l) => l.id === 'a')!.remaining).toBeCloseTo(0, 9);
+    expect(r.lots.find((l) => l.id === 'b')!.remaining).toBeCloseTo(0.6, 9);
+    expect(r.quantity).toBeCloseTo(1.6, 9);
+  });
+
+  it('folds buy fees into the lot cost', () => {
+    const r = replayLots([buy('a', '2024-01-10T00:00:00Z', 2, 100, 10)]);
+    expect(r.lots[0].cost_per_unit).toBeCloseTo(105, 9);
+    expect(r.averageCost).toBeCloseTo(105, 9);
+  });
+
+  it('splits gains into short- and long-term by each lot\'s holding period', () => {
+    const txs = [
+      buy('old', '2023-01-10T00:00:00Z', 1, 100),
+      buy('new', '2024-01-10T00:00:00Z', 1, 200),
+      sell('s', '2024-02-01T00:00:00Z', 2, 300, 'fifo'),
+    ];
+    const d = replayLots(txs).disposals.get('s')!;
+    expect(d.allocations.map((a) => a.term)).toEqual(['long', 'short']);
+    expect(d.longTerm).toBeCloseTo(200, 6);
+    expect(d.shortTerm).toBeCloseTo(100, 6);
+  });
+
+  it('relieves sells with no recorded method FIFO', () => {
+    expect(relieved([...lots, sell('s', '2024-06-01T00:00:00Z', 1, 250, null)])).toEqual([['a', 1]]);
+  });
+
+  it('reports quantity no lot covers as uncovered', () => {
+    const d = replayLots([buy('a', '2024-01-10T00:00:00Z', 1, 100), sell('s', '2024-02-01T00:00:00Z', 1.5, 100, 'fifo')])
+      .disposals.get('s')!;
+    expect(d.uncovered).toBeCloseTo(0.5, 9);
+  });
+});
+
+describe('isLongTerm', () => {
+  it('is long-term only after the first anniversary', () => {
+    expect(isLongTerm('2023-03-01T00:00:00Z', '2024-03-01T00:00:00Z')).toBe(false);
+    expect(isLongTerm('2023-03-01T00:00:00Z', '2024-03-02T00:00:00Z')).toBe(true);
+  });
+});
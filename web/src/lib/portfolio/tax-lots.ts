@@ -0,0 +1,224 @@
+import type {
+  CostBasisMethod,
+  HoldingTerm,
+  LotAllocation,
+  LotSelection,
+  TransactionType,
+} from '@/types/transaction';
+
+/**
+ * Tax-lot accounting — a pure chronological replay of one symbol's
+ * transactions. Buys and transfers-in open a lot (fee-inclusive cost);
+ * sells and transfers-out relieve lots by the sell's own method, so changing
+ * the portfolio default never rewrites past sales. Only sells are disposals:
+ * transfers-out move lots away without realizing anything.
+ */
+
+const EPS = 1e-9;
+
+export const COST_BASIS_METHODS: { key: CostBasisMethod; label: string; hint: string }[] = [
+  { key: 'fifo', label: 'FIFO', hint: 'Oldest lots first' },
+  { key: 'lifo', label: 'LIFO', hint: 'Newest lots first' },
+  { key: 'hifo', label: 'HIFO', hint: 'Highest-cost lots first' },
+  { key: 'specific', label: 'Specific ID', hint: 'Pick lots on each sale' },
+];
+
+export interface LedgerTx {
+  id: string;
+  type: TransactionType;
+  quantity: number;
+  price_per_unit: number;
+  gas_fee?: number | null;
+  transaction_date: string;
+  lot_method?: CostBasisMethod | null;
+  lot_selections?: LotSelection[] | null;
+}
+
+export interface OpenLot {
+  id: string;               // source transaction id
+  acquired_at: string;
+  quantity: number;
+  remaining: number;
+  cost_per_unit: number;    // fee-inclusive
+  fee_per_unit: number;
+}
+
+export interface LotSlice {
+  lot: OpenLot | null;      // null = uncovered quantity
+  quantity: number;
+}
+
+export interface Disposal {
+  method: CostBasisMethod;
+  allocations: LotAllocation[];
+  costBasisPerUnit: number;
+  realized: number;
+  shortTerm: number;
+  longTerm: number;
+  uncovered: number;
+}
+
+export interface LotReplay {
+  lots: OpenLot[];                    // every lot opened, in acquisition order
+  disposals: Map<string, Disposal>;   // keyed by sell transaction id
+  quantity: number;
+  averageCost: number;                // remaining-weighted cost of open lots
+}
+
+/** Long-term once held more than one year (sold after the first anniversary). */
+export function isLongTerm(acquiredAt: string, soldAt: string): boolean {
+  const a = new Date(acquiredAt);
+  const s = new Date(soldAt);
+  const anniversary = Date.UTC(a.getUTCFullYear() + 1, a.getUTCMonth(), a.getUTCDate());
+  return Date.UTC(s.getUTCFullYear(), s.getUTCMonth(), s.getUTCDate()) > anniversary;
+}
+
+export function holdingTerm(acquiredAt: string, soldAt: string): HoldingTerm {
+  return isLongTerm(acquiredAt, soldAt) ? 'long' : 'short';
+}
+
+/** Open lots in the order a method relieves them. */
+export function orderLots(lots: OpenLot[], method: CostBasisMethod): OpenLot[] {
+  const open = lots.filter((l) => l.remaining > EPS);
+  const time = (l: OpenLot) => Date.parse(l.acquired_at);
+  switch (method) {
+    case 'lifo':
+      return open.sort((a, b) => time(b) - time(a));
+    case 'hifo':
+      return open.sort((a, b) => b.cost_per_unit - a.cost_per_unit || time(a) - time(b));
+    default:
+      return open.sort((a, b) => time(a) - time(b));
+  }
+}
+
+/**
+ * Which lots a disposal of `quantity` relieves. Specific-ID takes the picked
+ * lots first (capped at what each has left) and falls back to FIFO for the
+ * rest — e.g. after the buy behind a picked lot was deleted. Anything no lot
+ * can cover comes back as an uncovered slice. Does not mutate `lots`.
+ */
+export function pickLots(
+  lots: OpenLot[],
+  quantity: number,
+  method: CostBasisMethod,
+  selections?: LotSelection[] | null,
+): LotSlice[] {
+  const slices: LotSlice[] = [];
+  const taken = new Map<string, number>();
+  let left = quantity;
+
+  const take = (lot: OpenLot, want: number) => {
+    const avail = lot.remaining - (taken.get(lot.id) ?? 0);
+    const q = Math.min(want, avail, left);
+    if (q <= EPS) return;
+    taken.set(lot.id, (taken.get(lot.id) ?? 0) + q);
+    slices.push({ lot, quantity: q });
+    left -= q;
+  };
+
+  if (method === 'specific') {
+    const byId = new Map(lots.map((l) => [l.id, l]));
+    for (const sel of selections ?? []) {
+      const lot = byId.get(sel.lot_id);
+      if (lot) take(lot, Math.abs(Number(sel.quantity)));
+    }
+  }
+  for (const lot of orderLots(lots, method === 'specific' ? 'fifo' : method)) {
+    if (left <= EPS) break;
+    take(lot, left);
+  }
+  if (left > EPS) slices.push({ lot: null, quantity: left });
+  return slices;
+}
+
+/** Price a sell's slices into allocations and short/long-term gains. */
+export function realizeSlices(
+  slices: LotSlice[],
+  sell: { quantity: number; price_per_unit: number; gas_fee?: number | null; transaction_date: string },
+  method: CostBasisMethod,
+): Disposal {
+  const q = Math.abs(Number(sell.quantity));
+  const price = Math.abs(Number(sell.price_per_unit));
+  const fee = Math.abs(Number(sell.gas_fee ?? 0));
+
+  let cost = 0;
+  let shortTerm = 0;
+  let longTerm = 0;
+  let uncovered = 0;
+  const allocations = slices.map((s): LotAllocation => {
+    const sellFee = q > 0 ? fee * (s.quantity / q) : 0;
+    const basis = s.lot ? s.quantity * s.lot.cost_per_unit : 0;
+    const proceeds = s.quantity * price - sellFee;
+    const term = s.lot ? holdingTerm(s.lot.acquired_at, sell.transaction_date) : 'short';
+    if (!s.lot) uncovered += s.quantity;
+    cost += basis;
+    if (term === 'long') longTerm += proceeds - basis;
+    else shortTerm += proceeds - basis;
+    return {
+      lot_id: s.lot?.id ?? null,
+      acquired_at: s.lot?.acquired_at ?? null,
+      quantity: s.quantity,
+      cost_basis: basis,
+      proceeds,
+      fees: sellFee + (s.lot ? s.quantity * s.lot.fee_per_unit : 0),
+      term,
+    };
+  });
+
+  return {
+    method,
+    allocations,
+    costBasisPerUnit: q > 0 ? cost / q : 0,
+    realized: shortTerm + longTerm,
+    shortTerm,
+    longTerm,
+    uncovered,
+  };
+}
+
+/**
+ * Replay a symbol's ledger into lots and per-sell disposals. Input order
+ * breaks ties between same-timestamp transactions, so pass it oldest-first
+ * as stored (transaction_date, created_at, entry_seq). Sells recorded before
+ * lot tracking carry no method and relieve FIFO, whatever the portfolio
+ * default.
+ */
+export function replayLots(txs: LedgerTx[]): LotReplay {
+  const ordered = txs
+    .map((t, i) => ({ t, i }))
+    .sort((a, b) => Date.parse(a.t.transaction_date) - Date.parse(b.t.transaction_date) || a.i - b.i)
+    .map(({ t }) => t);
+
+  const lots: OpenLot[] = [];
+  const disposals = new Map<string, Disposal>();
+
+  for (const t of ordered) {
+    const q = Math.abs(Number(t.quantity));
+    if (q <= EPS) continue;
+    const price = Math.abs(Number(t.price_per_unit));
+    const fee = Math.abs(Number(t.gas_fee ?? 0));
+
+    if (t.type === 'buy' || t.type === 'transfer_in') {
+      lots.push({
+        id: t.id,
+        acquired_at: t.transaction_date,
+        quantity: q,
+        remaining: q,
+        cost_per_unit: price + fee / q,
+        fee_per_unit: fee / q,
+      });
+      continue;
+    }
+
+    const method = t.lot_method ?? 'fifo';
+    const slices = pickLots(lots, q, method, t.lot_selections);
+    for (const s of slices) if (s.lot) s.lot.remaining = Math.max(0, s.lot.remaining - s.quantity);
+    if (t.type === 'sell') disposals.set(t.id, realizeSlices(slices, t, method));
+  }
+
+  const quantity = lots.reduce((s, l) => s + l.remaining, 0);
+  const averageCost = quantity > EPS
+    ? lots.reduce((s, l) => s + l.remaining * l.cost_per_unit, 0) / quantity
+    : 0;
+  return { lots, disposals, quantity, averageCost };
+}
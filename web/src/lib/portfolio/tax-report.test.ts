@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { buildGainsReport, gainsReportCSV, reportYears } from './tax-report';
+import type { LotAllocation, Transaction } from '@/types/transaction';
+
+// Midday UTC keeps every date on the same calendar day in any test timezone.
+const tx = (id: string, date: string, over: Partial<Transaction> = {}): Transaction => ({
+  id, portfolio_id: 'p', type: 'sell', asset_type: 'crypto', symbol: 'btc', quantity: 1, price_per_unit: 0,
+  gas_fee: 0, total_value: 0, transaction_date: `${date}T12:00:00Z`, created_at: '', ...over,
+});
+const alloc = (acquired: string, quantity: number, proceeds: number, cost: number, term: 'short' | 'long', fees = 0): LotAllocation => ({
+  lot_id: `lot-${acquired}`, acquired_at: `${acquired}T12:00:00Z`, quantity, proceeds, cost_basis: cost, fees, term,
+});
+
+const ledger: Transaction[] = [
+  tx('b1', '2023-01-10', { type: 'buy', quantity: 1, price_per_unit: 100 }),
+  tx('s1', '2024-03-01', {
+    quantity: 2,
+    lot_allocations: [alloc('2023-01-10', 1, 400, 100, 'long', 5), alloc('2024-01-05', 1, 400, 300, 'short', 5)],
+  }),
+  // Predates lot tracking: average-cost basis, no allocations.
+  tx('s0', '2024-02-01', { symbol: 'eth', quantity: 2, price_per_unit: 50, gas_fee: 4, cost_basis_per_unit: 30 }),
+  tx('s2', '2023-06-01', { lot_allocations: [alloc('2023-01-10', 1, 150, 100, 'short')] }),
+];
+
+describe('buildGainsReport', () => {
+  const report = buildGainsReport(ledger, 2024);
+
+  it('keeps only that year\'s sells, one row per relieved lot', () => {
+    expect(report.shortTerm.map((r) => [r.txId, r.acquired])).toEqual([['s0', null], ['s1', '2024-01-05']]);
+    expect(report.longTerm.map((r) => [r.txId, r.acquired])).toEqual([['s1', '2023-01-10']]);
+  });
+
+  it('reports older sells as short-term at average cost with a "Various" acquired date', () => {
+    const row = report.shortTerm[0];
+    expect(row).toMatchObject({ symbol: 'ETH', quantity: 2, acquired: null, sold: '2024-02-01', fees: 4, term: 'short' });
+    expect(row.proceeds).toBeCloseTo(96, 6);
+    expect(row.costBasis).toBeCloseTo(60, 6);
+    expect(row.gain).toBeCloseTo(36, 6);
+  });
+
+  it('totals each term and the year', () => {
+    expect(report.totals.short).toEqual({ proceeds: 496, costBasis: 360, fees: 9, gain: 136 });
+    expect(report.totals.long).toEqual({ proceeds: 400, costBasis: 100, fees: 5, gain: 300 });
+    expect(report.totals.all.gain).toBeCloseTo(436, 6);
+  });
+});
+
+describe('gainsReportCSV', () => {
+  it('writes the short-term section then the long-term one, each with a total', () => {
+    expect(gainsReportCSV(buildGainsReport(ledger, 2024))).toEqual([
+      ['Term', 'Description', 'Date acquired', 'Date sold', 'Proceeds', 'Cost basis', 'Fees', 'Gain or (loss)'],
+      ['Short-term', '2 ETH', 'Various', '2024-02-01', '96.00', '60.00', '4.00', '36.00'],
+      ['Short-term', '1 BTC', '2024-01-05', '2024-03-01', '400.00', '300.00', '5.00', '100.00'],
+      ['Short-term', 'Total', '', '', '496.00', '360.00', '9.00', '136.00'],
+      ['Long-term', '1 BTC', '2023-01-10', '2024-03-01', '400.00', '100.00', '5.00', '300.00'],
+      ['Long-term', 'Total', '', '', '400.00', '100.00', '5.00', '300.00'],
+    ]);
+  });
+});
+
+describe('reportYears', () => {
+  it('lists years with a sale, newest first', () => {
+    expect(reportYears(ledger)).toEqual([2024, 2023]);
+  });
+});
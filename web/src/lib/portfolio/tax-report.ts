@@ -0,0 +1,142 @@
+import { escapeHTML } from '@/lib/utils/export';
+import { localDateISO } from '@/lib/utils/format';
+import type { HoldingTerm, Transaction } from '@/types/transaction';
+
+/**
+ * Realized-gains report (Form 8949-style) — pure functions over a
+ * portfolio's transactions. One row per lot a sale relieved, from the sell's
+ * lot_allocations; proceeds are net of the selling fee and cost basis
+ * includes the purchase fee, so `gain = proceeds - costBasis` and the fees
+ * column shows what was already applied. Only sells are disposals —
+ * transfers in/out move lots without realizing anything.
+ */
+
+export interface GainRow {
+  txId: string;
+  symbol: string;
+  quantity: number;
+  acquired: string | null;  // YYYY-MM-DD; null = "Various" (sale predates lot tracking)
+  sold: string;             // YYYY-MM-DD
+  proceeds: number;
+  costBasis: number;
+  fees: number;
+  gain: number;
+  term: HoldingTerm;
+}
+
+export interface GainTotals {
+  proceeds: number;
+  costBasis: number;
+  fees: number;
+  gain: number;
+}
+
+export interface GainsReport {
+  year: number;
+  shortTerm: GainRow[];
+  longTerm: GainRow[];
+  totals: Record<HoldingTerm | 'all', GainTotals>;
+}
+
+const taxDate = (iso: string) => localDateISO(new Date(iso));
+
+/** Tax years with at least one sale, newest first. */
+export function reportYears(transactions: Transaction[]): number[] {
+  const years = new Set(transactions.filter((t) => t.type === 'sell').map((t) => Number(taxDate(t.transaction_date).slice(0, 4))));
+  return [...years].sort((a, b) => b - a);
+}
+
+function sellRows(t: Transaction): GainRow[] {
+  const sold = taxDate(t.transaction_date);
+  const symbol = t.symbol.toUpperCase();
+  if (t.lot_allocations?.length) {
+    return t.lot_allocations.map((a) => ({
+      txId: t.id,
+      symbol,
+      quantity: Number(a.quantity),
+      acquired: a.acquired_at ? taxDate(a.acquired_at) : null,
+      sold,
+      proceeds: Number(a.proceeds),
+      costBasis: Number(a.cost_basis),
+      fees: Number(a.fees),
+      gain: Number(a.proceeds) - Number(a.cost_basis),
+      term: a.term,
+    }));
+  }
+  // Sales recorded before lot tracking: average-cost basis, holding period unknown.
+  const q = Number(t.quantity);
+  const fee = Number(t.gas_fee ?? 0);
+  const proceeds = q * Number(t.price_per_unit) - fee;
+  const costBasis = q * Number(t.cost_basis_per_unit ?? 0);
+  return [{ txId: t.id, symbol, quantity: q, acquired: null, sold, proceeds, costBasis, fees: fee, gain: proceeds - costBasis, term: 'short' }];
+}
+
+function sum(rows: GainRow[]): GainTotals {
+  return rows.reduce(
+    (s, r) => ({ proceeds: s.proceeds + r.proceeds, costBasis: s.costBasis + r.costBasis, fees: s.fees + r.fees, gain: s.gain + r.gain }),
+    { proceeds: 0, costBasis: 0, fees: 0, gain: 0 },
+  );
+}
+
+export function buildGainsReport(transactions: Transaction[], year: number): GainsReport {
+  const rows = transactions
+    .filter((t) => t.type === 'sell' && taxDate(t.transaction_date).startsWith(`${year}-`))
+    .flatMap(sellRows)
+    .sort((a, b) => a.sold.localeCompare(b.sold) || a.symbol.localeCompare(b.symbol));
+  const shortTerm = rows.filter((r) => r.term === 'short');
+  const longTerm = rows.filter((r) => r.term === 'long');
+  return {
+    year,
+    shortTerm,
+    longTerm,
+    totals: { short: sum(shortTerm), long: sum(longTerm), all: sum(rows) },
+  };
+}
+
+const money = (n: number) => n.toFixed(2);
+
+/** CSV rows (header included), short-term section then long-term. */
+export function gainsReportCSV(report: GainsReport): (string | number)[][] {
+  const header = ['Term', 'Description', 'Date acquired', 'Date sold', 'Proceeds', 'Cost basis', 'Fees', 'Gain or (loss)'];
+  const out: (string | number)[][] = [header];
+  for (const [term, rows] of [['Short-term', report.shortTerm], ['Long-term', report.longTerm]] as const) {
+    for (const r of rows) {
+      out.push([term, `${r.quantity} ${r.symbol}`, r.acquired ?? 'Various', r.sold, money(r.proceeds), money(r.costBasis), money(r.fees), money(r.gain)]);
+    }
+    const t = report.totals[term === 'Short-term' ? 'short' : 'long'];
+    out.push([term, 'Total', '', '', money(t.proceeds), money(t.costBasis), money(t.fees), money(t.gain)]);
+  }
+  return out;
+}
+
+export const GAINS_REPORT_CSS = `
+  body { font: 11px/1.4 -apple-system, system-ui, sans-serif; color: #111; margin: 32px; }
+  h1 { font-size: 18px; margin: 0 0 2px; } h2 { font-size: 13px; margin: 20px 0 6px; }
+  p.meta { color: #555; margin: 0 0 12px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 4px 6px; border-bottom: 1px solid #ddd; text-align: right; }
+  th:first-child, td:first-child, th:nth-child(2), td:nth-child(2), th:nth-child(3), td:nth-child(3) { text-align: left; }
+  tr.total td { font-weight: 600; border-top: 1px solid #111; }
+  p.note { color: #555; margin-top: 16px; }
+  @page { margin: 16mm; }
+`;
+
+/** Printable document body for {@link printDocument}. */
+export function gainsReportHTML(report: GainsReport, portfolioName: string): string {
+  const section = (title: string, rows: GainRow[], t: GainTotals) => {
+    const body = rows.length
+      ? rows.map((r) => `<tr><td>${escapeHTML(`${r.quantity} ${r.symbol}`)}</td><td>${r.acquired ?? 'Various'}</td><td>${r.sold}</td>`
+        + `<td>${money(r.proceeds)}</td><td>${money(r.costBasis)}</td><td>${money(r.fees)}</td><td>${money(r.gain)}</td></tr>`).join('')
+      : '<tr><td colspan="7">No disposals.</td></tr>';
+    return `<h2>${title}</h2><table><thead><tr><th>(a) Description</th><th>(b) Acquired</th><th>(c) Sold</th>`
+      + '<th>(d) Proceeds</th><th>(e) Cost basis</th><th>Fees</th><th>(h) Gain or (loss)</th></tr></thead>'
+      + `<tbody>${body}<tr class="total"><td colspan="3">Total</td><td>${money(t.proceeds)}</td><td>${money(t.costBasis)}</td>`
+      + `<td>${money(t.fees)}</td><td>${money(t.gain)}</td></tr></tbody></table>`;
+  };
+  return `<h1>Realized gains — ${report.year}</h1>`
+    + `<p class="meta">${escapeHTML(portfolioName)} · generated ${localDateISO()}</p>`
+    + section('Part I — Short-term (held one year or less)', report.shortTerm, report.totals.short)
+    + section('Part II — Long-term (held more than one year)', report.longTerm, report.totals.long)
+    + '<p class="note">Proceeds are net of selling fees and cost basis includes purchase fees; the Fees column shows amounts already applied. '
+    + 'Transfers are not disposals. "Various" marks sales recorded before lot tracking. Not tax advice — review with your accountant.</p>';
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { activeVersion, diffAdaptiveParams, outcomesByVersion } from './adaptive-params';
+import type { AdaptiveParams, AdaptiveParamVersion } from '@/lib/api/adaptive-params';
+import type { TradeSignal } from '@/lib/api/signals';
+
+const params = (p: Partial<AdaptiveParams> = {}): AdaptiveParams => ({
+  paused_assets: [], direction_bonus: {}, min_rr: 1.0, min_score: 60, state: 'normal', state_label: '', ...p,
+});
+
+const version = (n: number, pinned = false): AdaptiveParamVersion => ({
+  version: n, params: params(), inputs: null, source: 'computed', rolled_back_from: null,
+  is_pinned: pinned, pinned_at: null, created_at: '',
+});
+
+const signal = (v: number | null, outcome: TradeSignal['outcome'], pct: number) =>
+  ({ adaptive_params_version: v, outcome, outcome_pct: pct }) as TradeSignal;
+
+describe('activeVersion', () => {
+  it('prefers the pinned version over newer ones', () => {
+    expect(activeVersion([version(3), version(2, true), version(1)])?.version).toBe(2);
+  });
+
+  it('falls back to the newest version', () => {
+    expect(activeVersion([version(1), version(3), version(2)])?.version).toBe(3);
+    expect(activeVersion([])).toBeNull();
+  });
+});
+
+describe('diffAdaptiveParams', () => {
+  it('reports nothing for identical params', () => {
+    expect(diffAdaptiveParams(params(), params())).toEqual([]);
+  });
+
+  it('lists thresholds, pauses and direction bonuses that changed', () => {
+    const before = params({ paused_assets: ['AVAX'], direction_bonus: { ETH: { long: 3, short: -3 } } });
+    const after = params({
+      state: 'cold', min_rr: 1.5, min_score: 65,
+      paused_assets: ['SOL'], direction_bonus: { ETH: { long: 3, short: -3 }, BTC: { long: -5, short: 5 } },
+    });
+    expect(diffAdaptiveParams(before, after)).toEqual([
+      { field: 'State', from: 'normal', to: 'cold' },
+      { field: 'Min R:R', from: '1', to: '1.5' },
+      { field: 'Min score', from: '60', to: '65' },
+      { field: 'AVAX paused', from: 'yes', to: 'no' },
+      { field: 'SOL paused', from: 'no', to: 'yes' },
+      { field: 'BTC direction bonus', from: 'none', to: 'long -5 / short +5' },
+    ]);
+  });
+});
+
+describe('outcomesByVersion', () => {
+  it('groups closed signals by version, counting partials as wins', () => {
+    const rows = outcomesByVersion([
+      signal(2, 'win', 4), signal(2, 'loss', -2), signal(1, 'partial', 1), signal(null, 'loss', -3),
+      signal(2, null, 0),
+    ]);
+    expect(rows.map((r) => r.version)).toEqual([2, 1, null]);
+    expect(rows[0]).toMatchObject({ total: 2, wins: 1, losses: 1, winRate: 50, avgPnl: 1 });
+    expect(rows[1]).toMatchObject({ total: 1, winRate: 100 });
+  });
+});
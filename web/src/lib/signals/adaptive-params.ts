@@ -0,0 +1,92 @@
+import type { AdaptiveParams, AdaptiveParamVersion } from '@/lib/api/adaptive-params';
+import type { TradeSignal } from '@/lib/api/signals';
+
+/**
+ * Adaptive parameter audit helpers — pure functions behind the admin
+ * versions view: which version is in effect, what changed between two
+ * versions, and how the signals generated under each version resolved.
+ */
+
+/** The version fibonacci-pipeline applies: the pinned one, else the newest. */
+export function activeVersion(versions: AdaptiveParamVersion[]): AdaptiveParamVersion | null {
+  const pinned = versions.find((v) => v.is_pinned);
+  if (pinned) return pinned;
+  return versions.reduce<AdaptiveParamVersion | null>((best, v) => (!best || v.version > best.version ? v : best), null);
+}
+
+export interface AdaptiveParamChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+const fmtBonus = (b: { long: number; short: number } | undefined) =>
+  b ? `long ${b.long >= 0 ? '+' : ''}${b.long} / short ${b.short >= 0 ? '+' : ''}${b.short}` : 'none';
+
+/** Field-level changes going from `from` to `to`, in display order. */
+export function diffAdaptiveParams(from: AdaptiveParams, to: AdaptiveParams): AdaptiveParamChange[] {
+  const changes: AdaptiveParamChange[] = [];
+
+  if (from.state !== to.state) changes.push({ field: 'State', from: from.state, to: to.state });
+  if (from.min_rr !== to.min_rr) changes.push({ field: 'Min R:R', from: String(from.min_rr), to: String(to.min_rr) });
+  if (from.min_score !== to.min_score) {
+    changes.push({ field: 'Min score', from: String(from.min_score), to: String(to.min_score) });
+  }
+
+  const wasPaused = new Set(from.paused_assets);
+  const isPaused = new Set(to.paused_assets);
+  for (const asset of [...new Set([...from.paused_assets, ...to.paused_assets])].sort()) {
+    if (wasPaused.has(asset) !== isPaused.has(asset)) {
+      changes.push({
+        field: `${asset} paused`,
+        from: wasPaused.has(asset) ? 'yes' : 'no',
+        to: isPaused.has(asset) ? 'yes' : 'no',
+      });
+    }
+  }
+
+  const bonusAssets = [...new Set([...Object.keys(from.direction_bonus), ...Object.keys(to.direction_bonus)])].sort();
+  for (const asset of bonusAssets) {
+    const a = fmtBonus(from.direction_bonus[asset]);
+    const b = fmtBonus(to.direction_bonus[asset]);
+    if (a !== b) changes.push({ field: `${asset} direction bonus`, from: a, to: b });
+  }
+
+  return changes;
+}
+
+export interface VersionOutcome {
+  version: number | null;
+  total: number;
+  wins: number;
+  losses: number;
+  winRate: number;       // (wins + partials) / total, 0-100 — compute-signal-analytics' definition
+  avgPnl: number;
+}
+
+/**
+ * Closed-signal results grouped by the adaptive version they were generated
+ * under, newest version first (unversioned signals last).
+ */
+export function outcomesByVersion(signals: TradeSignal[]): VersionOutcome[] {
+  const groups = new Map<number | null, TradeSignal[]>();
+  for (const s of signals) {
+    if (s.outcome == null) continue;
+    const key = s.adaptive_params_version ?? null;
+    groups.set(key, [...(groups.get(key) ?? []), s]);
+  }
+
+  return [...groups.entries()]
+    .map(([version, list]) => {
+      const wins = list.filter((s) => s.outcome === 'win' || s.outcome === 'partial').length;
+      return {
+        version,
+        total: list.length,
+        wins,
+        losses: list.length - wins,
+        winRate: (wins / list.length) * 100,
+        avgPnl: list.reduce((a, s) => a + (s.outcome_pct ?? 0), 0) / list.length,
+      };
+    })
+    .sort((a, b) => (b.version ?? -1) - (a.version ?? -1));
+}
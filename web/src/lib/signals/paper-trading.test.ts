@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { simulatePaperAccount } from './paper-trading';
+import type { TradeSignal } from '@/lib/api/signals';
+import type { PaperAccount } from '@/types/paper-trading';
+
+const account = (a: Partial<PaperAccount> = {}): PaperAccount => ({
+  user_id: 'u', starting_balance: 10_000, risk_mode: 'fixed', risk_pct: 1, fee_pct: 0, slippage_pct: 0,
+  max_exposure: 1, tiers: ['swing'], started_at: '2026-06-01T00:00:00Z', updated_at: '', ...a,
+});
+
+// Long from 100, stop 95 (5 per unit at risk).
+const signal = (s: Partial<TradeSignal>): TradeSignal => ({
+  id: 's1', asset: 'BTC', signal_type: 'buy', timeframe: '4h', entry_price_mid: 100, stop_loss: 95,
+  triggered_at: '2026-06-02T00:00:00Z', suggested_risk_pct: 2,
+  t1_hit_at: null, t1_pnl_pct: null, runner_pnl_pct: null, closed_at: null, outcome_pct: null, ...s,
+}) as TradeSignal;
+
+const stopped = (s: Partial<TradeSignal> = {}) => signal({ closed_at: '2026-06-03T00:00:00Z', outcome: 'loss', outcome_pct: -5, ...s });
+
+describe('simulatePaperAccount', () => {
+  it('loses exactly the risk % on a stop-out', () => {
+    const r = simulatePaperAccount(account(), [stopped()]);
+    expect(r.trades[0].quantity).toBeCloseTo(20, 6); // $100 risk / $5 stop distance
+    expect(r.balance).toBeCloseTo(9_900, 6);
+    expect(r.maxDrawdownPct).toBeCloseTo(1, 6);
+  });
+
+  it("sizes by each signal's suggested risk in signal mode", () => {
+    const r = simulatePaperAccount(account({ risk_mode: 'signal' }), [stopped()]);
+    expect(r.balance).toBeCloseTo(9_800, 6);
+  });
+
+  it('closes half at T1 and the runner at its own exit', () => {
+    const r = simulatePaperAccount(account(), [signal({
+      t1_hit_at: '2026-06-02T12:00:00Z', t1_pnl_pct: 10, runner_pnl_pct: 0,
+      closed_at: '2026-06-04T00:00:00Z', outcome: 'win', outcome_pct: 5,
+    })]);
+    // 10 units × $10 at T1, 10 units at breakeven.
+    expect(r.balance).toBeCloseTo(10_100, 6);
+    expect(r.curve.map((p) => p.equity)).toEqual([10_000, 10_000, 10_100, 10_100]);
+    expect(r.curve[2].exposurePct).toBeCloseTo((1_000 / 10_100) * 100, 6);
+  });
+
+  it('charges fees and slippage on every fill', () => {
+    const r = simulatePaperAccount(account({ fee_pct: 0.1, slippage_pct: 0.1 }), [stopped()]);
+    expect(r.balance).toBeLessThan(9_900);
+    expect(r.fees).toBeGreaterThan(0);
+    expect(r.trades[0].entryPrice).toBeCloseTo(100.1, 6);
+  });
+
+  it('scales down or skips overlapping entries at the exposure cap', () => {
+    // Each entry wants $2,000 notional against a $3,000 cap.
+    const cap = account({ max_exposure: 0.3 });
+    const r = simulatePaperAccount(cap, [
+      signal({ id: 'a' }),
+      signal({ id: 'b', triggered_at: '2026-06-02T01:00:00Z' }),
+      signal({ id: 'c', triggered_at: '2026-06-02T02:00:00Z' }),
+    ]);
+    expect(r.trades.map((t) => t.scaled)).toEqual([false, true]);
+    expect(r.trades[1].notional).toBeCloseTo(1_000, 6);
+    expect(r.skipped).toEqual([{ signalId: 'c', asset: 'BTC', reason: 'Exposure cap reached' }]);
+    expect(r.currentExposurePct).toBeCloseTo(30, 6);
+  });
+
+  it('only follows subscribed tiers triggered after the account started', () => {
+    const r = simulatePaperAccount(account(), [
+      stopped({ id: 'scalp', timeframe: '1h' }),
+      stopped({ id: 'early', triggered_at: '2026-05-30T00:00:00Z' }),
+      signal({ id: 'pending', triggered_at: null }),
+    ]);
+    expect(r.trades).toEqual([]);
+    expect(r.balance).toBe(10_000);
+  });
+
+  it('marks open positions to market', () => {
+    const r = simulatePaperAccount(account(), [signal({})], { BTC: 110 });
+    expect(r.trades[0].unrealizedPnl).toBeCloseTo(200, 6);
+    expect(r.equity).toBeCloseTo(10_200, 6);
+    expect(r.totalReturnPct).toBeCloseTo(2, 6);
+  });
+});
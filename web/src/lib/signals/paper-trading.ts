@@ -0,0 +1,189 @@
+import type { TradeSignal } from '@/lib/api/signals';
+import type { PaperAccount, SignalTier } from '@/types/paper-trading';
+
+/**
+ * Paper-trading simulator — replays the signals a user follows through a
+ * sized account instead of compounding outcome_pct at equal size.
+ *
+ * Each signal that triggers after the account started is entered at its
+ * entry mid with the configured risk % of realized equity at the stop, so a
+ * stop-out loses that much (plus costs). Every fill pays fee_pct of notional
+ * and slips slippage_pct against the trade. Open notional is capped at
+ * max_exposure × equity: overlapping entries are scaled down to fit, or
+ * skipped when nothing is left. Exits follow resolveOpenSignals: half the
+ * position closes at T1 (t1_pnl_pct) and the runner at runner_pnl_pct;
+ * signals that never reach T1 close in full at outcome_pct.
+ */
+
+const isLong = (t: TradeSignal['signal_type']) => t === 'buy' || t === 'strong_buy';
+
+export const tierOf = (timeframe: string | null): SignalTier => (timeframe === '1h' ? 'scalp' : 'swing');
+
+export interface PaperTrade {
+  signalId: string;
+  asset: string;
+  tier: SignalTier;
+  long: boolean;
+  entryAt: string;
+  exitAt: string | null;       // null while any part is still open
+  entryPrice: number;          // fill, after slippage
+  quantity: number;
+  openQuantity: number;
+  notional: number;            // at entry
+  riskPct: number;
+  scaled: boolean;             // cut down by the exposure cap
+  fees: number;
+  realizedPnl: number;         // net of fees
+  unrealizedPnl: number;       // open part at `marks`, 0 without a mark
+}
+
+export interface PaperPoint {
+  time: string;
+  equity: number;              // realized balance
+  exposurePct: number;         // open notional / equity × 100
+}
+
+export interface PaperResult {
+  trades: PaperTrade[];
+  skipped: { signalId: string; asset: string; reason: string }[];
+  curve: PaperPoint[];
+  balance: number;             // realized
+  equity: number;              // balance + unrealized at `marks`
+  totalReturnPct: number;
+  fees: number;
+  winRate: number;             // closed trades with positive net P&L, 0-100
+  maxDrawdownPct: number;      // on the realized curve, positive number
+  maxExposurePct: number;
+  currentExposurePct: number;
+}
+
+type Event = { time: string; order: number; signal: TradeSignal; kind: 'close' | 't1' | 'open' };
+
+// Same-instant events: free up capital before taking on new exposure.
+const ORDER = { close: 0, t1: 1, open: 2 } as const;
+
+/** The price a resolver P&L % (measured from entry mid) corresponds to. */
+const priceAt = (s: TradeSignal, pct: number) => s.entry_price_mid * (isLong(s.signal_type) ? 1 + pct / 100 : 1 - pct / 100);
+
+export function simulatePaperAccount(
+  account: PaperAccount,
+  signals: TradeSignal[],
+  marks: Record<string, number> = {},
+): PaperResult {
+  const start = new Date(account.started_at).getTime();
+  const followed = signals.filter(
+    (s) => s.triggered_at && new Date(s.triggered_at).getTime() >= start && account.tiers.includes(tierOf(s.timeframe)),
+  );
+
+  const events: Event[] = [];
+  for (const s of followed) {
+    events.push({ time: s.triggered_at!, order: ORDER.open, signal: s, kind: 'open' });
+    if (s.t1_hit_at && s.t1_pnl_pct != null) events.push({ time: s.t1_hit_at, order: ORDER.t1, signal: s, kind: 't1' });
+    if (s.closed_at) events.push({ time: s.closed_at, order: ORDER.close, signal: s, kind: 'close' });
+  }
+  events.sort((a, b) => a.time.localeCompare(b.time) || a.order - b.order);
+
+  const slip = account.slippage_pct / 100;
+  const fee = account.fee_pct / 100;
+  let balance = account.starting_balance;
+  const open = new Map<string, PaperTrade>();
+  const trades: PaperTrade[] = [];
+  const skipped: PaperResult['skipped'] = [];
+  const curve: PaperPoint[] = [{ time: account.started_at, equity: balance, exposurePct: 0 }];
+
+  const openNotional = () => [...open.values()].reduce((a, t) => a + t.openQuantity * t.entryPrice, 0);
+
+  const fill = (t: PaperTrade, quantity: number, price: number, time: string) => {
+    const exit = price * (t.long ? 1 - slip : 1 + slip);
+    const cost = exit * quantity * fee;
+    const pnl = (t.long ? exit - t.entryPrice : t.entryPrice - exit) * quantity - cost;
+    balance += pnl;
+    t.fees += cost;
+    t.realizedPnl += pnl;
+    t.openQuantity -= quantity;
+    if (t.openQuantity <= 1e-12) {
+      t.openQuantity = 0;
+      t.exitAt = time;
+      open.delete(t.signalId);
+    }
+  };
+
+  for (const e of events) {
+    const s = e.signal;
+    if (e.kind === 'open') {
+      const long = isLong(s.signal_type);
+      const entry = s.entry_price_mid * (long ? 1 + slip : 1 - slip);
+      const riskPct = account.risk_mode === 'signal' ? (s.suggested_risk_pct ?? account.risk_pct) : account.risk_pct;
+      const stopDistance = Math.abs(entry - s.stop_loss);
+      const capacity = balance * account.max_exposure - openNotional();
+      if (balance <= 0 || !stopDistance) {
+        skipped.push({ signalId: s.id, asset: s.asset, reason: balance <= 0 ? 'Account depleted' : 'No stop distance' });
+        continue;
+      }
+      let quantity = (balance * riskPct) / 100 / stopDistance;
+      let scaled = false;
+      if (quantity * entry > capacity) {
+        if (capacity < balance * 0.01) {
+          skipped.push({ signalId: s.id, asset: s.asset, reason: 'Exposure cap reached' });
+          continue;
+        }
+        quantity = capacity / entry;
+        scaled = true;
+      }
+      const cost = quantity * entry * fee;
+      balance -= cost;
+      const trade: PaperTrade = {
+        signalId: s.id, asset: s.asset, tier: tierOf(s.timeframe), long, entryAt: e.time, exitAt: null,
+        entryPrice: entry, quantity, openQuantity: quantity, notional: quantity * entry, riskPct, scaled,
+        fees: cost, realizedPnl: -cost, unrealizedPnl: 0,
+      };
+      trades.push(trade);
+      open.set(s.id, trade);
+    } else {
+      const t = open.get(s.id);
+      if (!t) continue;
+      if (e.kind === 't1') {
+        fill(t, t.quantity / 2, priceAt(s, s.t1_pnl_pct!), e.time);
+      } else {
+        // Runner leg after T1; a manual close may leave runner_pnl_pct unset,
+        // so back it out of outcome_pct = (t1 + runner) / 2.
+        const pct = t.openQuantity < t.quantity
+          ? (s.runner_pnl_pct ?? 2 * (s.outcome_pct ?? 0) - (s.t1_pnl_pct ?? 0))
+          : (s.outcome_pct ?? 0);
+        fill(t, t.openQuantity, priceAt(s, pct), e.time);
+      }
+    }
+    curve.push({ time: e.time, equity: balance, exposurePct: balance > 0 ? (openNotional() / balance) * 100 : 0 });
+  }
+
+  let unrealized = 0;
+  for (const t of open.values()) {
+    const mark = marks[t.asset.toUpperCase()];
+    if (mark == null) continue;
+    t.unrealizedPnl = (t.long ? mark - t.entryPrice : t.entryPrice - mark) * t.openQuantity;
+    unrealized += t.unrealizedPnl;
+  }
+
+  let peak = account.starting_balance;
+  let maxDrawdownPct = 0;
+  for (const p of curve) {
+    peak = Math.max(peak, p.equity);
+    maxDrawdownPct = Math.max(maxDrawdownPct, ((peak - p.equity) / peak) * 100);
+  }
+
+  const closed = trades.filter((t) => t.exitAt);
+  const equity = balance + unrealized;
+  return {
+    trades,
+    skipped,
+    curve,
+    balance,
+    equity,
+    totalReturnPct: ((equity - account.starting_balance) / account.starting_balance) * 100,
+    fees: trades.reduce((a, t) => a + t.fees, 0),
+    winRate: closed.length ? (closed.filter((t) => t.realizedPnl > 0).length / closed.length) * 100 : 0,
+    maxDrawdownPct,
+    maxExposurePct: Math.max(...curve.map((p) => p.exposurePct)),
+    currentExposurePct: equity > 0 ? (openNotional() / equity) * 100 : 0,
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { fetchAllPages, PAGE_SIZE } from './paging';
+
+const table = (n: number) => Array.from({ length: n }, (_, i) => ({ id: i }));
+
+describe('fetchAllPages', () => {
+  it('keeps reading pages until a short one comes back', async () => {
+    const rows = table(PAGE_SIZE * 2 + 345);
+    const ranges: [number, number][] = [];
+    const all = await fetchAllPages(async (from, to) => {
+      ranges.push([from, to]);
+      return { data: rows.slice(from, to + 1), error: null };
+    });
+    expect(all).toEqual(rows);
+    expect(ranges).toEqual([[0, 999], [1000, 1999], [2000, 2999]]);
+  });
+
+  it('asks for one more page when the last one is exactly full', async () => {
+    const rows = table(4);
+    let calls = 0;
+    const all = await fetchAllPages(async (from, to) => {
+      calls++;
+      return { data: rows.slice(from, to + 1), error: null };
+    }, 2);
+    expect(all).toHaveLength(4);
+    expect(calls).toBe(3);
+  });
+
+  it('throws the first error instead of returning a partial result', async () => {
+    const failure = new Error('timeout');
+    await expect(fetchAllPages(async (from) => (
+      from === 0 ? { data: table(2), error: null } : { data: null, error: failure }
+    ), 2)).rejects.toBe(failure);
+  });
+});
@@ -0,0 +1,20 @@
+/** Supabase caps every response at `max_rows` (supabase/config.toml). */
+export const PAGE_SIZE = 1000;
+
+/**
+ * Every row of a query, a page at a time, until a short page comes back.
+ * `page` runs the query with `.range(from, to)`; order it on something unique
+ * so rows don't shift between pages.
+ */
+export async function fetchAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+  pageSize = PAGE_SIZE,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await page(from, from + pageSize - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < pageSize) return rows;
+  }
+}
@@ -0,0 +1,29 @@
+/* Client-side file exports — no server round-trip, no extra dependencies. */
+
+export function downloadCSV(filename: string, rows: (string | number)[][]) {
+  const csv = rows.map((r) => r.map((c) => `"${String(c).replace(/"/g, '""')}"`).join(',')).join('\n');
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = filename; a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function escapeHTML(s: string): string {
+  return s.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+}
+
+/**
+ * Open a standalone document in a new window and bring up the print dialog,
+ * where "Save as PDF" gives a PDF. `body` must already be escaped.
+ * Returns false when a popup blocker stopped the window.
+ */
+export function printDocument(title: string, body: string, css = ''): boolean {
+  const w = window.open('', '_blank');
+  if (!w) return false;
+  w.document.write(`<!doctype html><html><head><meta charset="utf-8"><title>${escapeHTML(title)}</title><style>${css}</style></head><body>${body}</body></html>`);
+  w.document.close();
+  w.focus();
+  w.print();
+  return true;
+}
@@ -0,0 +1,28 @@
+export type AlertKind = 'price_cross' | 'change_24h' | 'risk_band' | 'arkline_score' | 'qps_flip';
+export type AlertDirection = 'above' | 'below' | 'either';
+export type AlertRiskBand = 'very_low' | 'low' | 'neutral' | 'elevated' | 'high' | 'extreme';
+
+/** A user alert rule — evaluated every 5 minutes by the evaluate-alerts edge function. */
+export interface AlertRule {
+  id: string;
+  user_id: string;
+  kind: AlertKind;
+  asset: string | null;
+  direction: AlertDirection | null;
+  threshold: number | null;
+  band: AlertRiskBand | null;
+  cooldown_minutes: number;
+  is_active: boolean;
+  last_value: number | string | null;
+  last_evaluated_at: string | null;
+  last_triggered_at: string | null;
+  created_at: string;
+}
+
+export interface AlertEvent {
+  id: string;
+  rule_id: string;
+  title: string;
+  body: string | null;
+  created_at: string;
+}
@@ -1,5 +1,13 @@
 export type DCAFrequency = 'daily' | 'twice_weekly' | 'weekly' | 'biweekly' | 'monthly';
 
+/** fixed buys `amount` every time; risk_adjusted scales it by the asset's regression risk band. */
+export type DCAStrategy = 'fixed' | 'risk_adjusted';
+
+export type DCARiskBand = 'very_low' | 'low' | 'neutral' | 'elevated' | 'high' | 'extreme';
+
+/** Multiple of the base amount bought in each band (0 skips the buy). */
+export type DCARiskMultipliers = Record<DCARiskBand, number>;
+
 export interface DCAReminder {
   id: string;
   user_id: string;
@@ -13,6 +21,8 @@ export interface DCAReminder {
   start_date: string;
   next_reminder_date?: string;
   is_active: boolean;
+  strategy?: DCAStrategy;
+  risk_multipliers?: Partial<DCARiskMultipliers> | null;
   created_at: string;
 }
 
@@ -23,4 +33,6 @@ export interface DCAInvestment {
   price_at_purchase: number;
   quantity: number;
   purchase_date: string;
+  scheduled_date?: string | null;   // the scheduled buy it was logged against
+  transaction_id?: string | null;   // portfolio transaction it created, if any
 }
@@ -4,3 +4,6 @@ export * from './transaction';
 export * from './market';
 export * from './macro';
 export * from './dca';
+export * from './alert';
+export * from './paper-trading';
+export * from './scenario';
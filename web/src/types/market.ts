@@ -325,10 +325,12 @@ export interface DeckSlide {
   payload: Record<string, unknown>;
 }
 export interface WeeklyDeck {
+  id: string;
   week_start: string;
   week_end: string;
   slide_count: number;
   status: string;
+  updated_at: string | null;
   slides: DeckSlide[];
 }
 
@@ -0,0 +1,19 @@
+export type SignalTier = 'swing' | 'scalp';
+export type PaperRiskMode = 'signal' | 'fixed';
+
+/**
+ * A user's simulated account — one per user. Signals in the subscribed tiers
+ * that trigger after `started_at` are paper-traded (see lib/signals/paper-trading).
+ */
+export interface PaperAccount {
+  user_id: string;
+  starting_balance: number;
+  risk_mode: PaperRiskMode;   // 'signal' = each signal's suggested_risk_pct, 'fixed' = risk_pct
+  risk_pct: number;           // % of equity lost if the stop is hit
+  fee_pct: number;            // per fill, % of notional
+  slippage_pct: number;       // per fill, adverse, % of price
+  max_exposure: number;       // open notional cap as a multiple of equity (1 = no leverage)
+  tiers: SignalTier[];
+  started_at: string;
+  updated_at: string;
+}
@@ -1,3 +1,5 @@
+import type { CostBasisMethod } from './transaction';
+
 export type TimePeriod = '1H' | '1D' | '1W' | '1M' | 'YTD' | '1Y' | 'ALL';
 
 export interface Portfolio {
@@ -5,6 +7,9 @@ export interface Portfolio {
   user_id: string;
   name: string;
   is_public: boolean;
+  cost_basis_method?: CostBasisMethod;
+  loss_limit_pct?: number | null;     // stress-test limit: max loss, %
+  loss_limit_value?: number | null;   // stress-test limit: floor value, USD
   created_at: string;
   holdings?: PortfolioHolding[];
 }
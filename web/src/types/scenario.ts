@@ -0,0 +1,28 @@
+export type ScenarioFactor = 'btc' | 'spy' | 'gold';
+
+/** Percent move per factor, e.g. { btc: -40, gold: 10 }. */
+export type ScenarioShocks = Partial<Record<ScenarioFactor, number>>;
+
+export type ScenarioKind = 'shock' | 'episode';
+
+/** A saved stress scenario — re-run against the current holdings whenever it is opened. */
+export interface PortfolioScenario {
+  id: string;
+  user_id: string;
+  name: string;
+  kind: ScenarioKind;
+  shocks: ScenarioShocks;                // kind 'shock'
+  window_start: string | null;           // kind 'episode'
+  window_end: string | null;
+  saved_result: ScenarioSnapshot | null;
+  created_at: string;
+}
+
+/** Outcome recorded when the scenario was saved, to compare later runs with. */
+export interface ScenarioSnapshot {
+  portfolio_id: string;
+  value: number;
+  projected: number;
+  change_pct: number;
+  run_at: string;
+}
@@ -1,5 +1,10 @@
 export type TransactionType = 'buy' | 'sell' | 'transfer_in' | 'transfer_out';
 
+/** Which lots a sell relieves first. `specific` uses the lots picked on the sell. */
+export type CostBasisMethod = 'fifo' | 'lifo' | 'hifo' | 'specific';
+
+export type HoldingTerm = 'short' | 'long';
+
 export type EmotionalState =
   | 'confident'
   | 'fearful'
@@ -27,4 +32,41 @@ export interface Transaction {
   created_at: string;
   cost_basis_per_unit?: number;
   realized_profit_loss?: number;
+  external_id?: string;       // set by CSV import, e.g. "kraken:<txid>"
+  // Tax lots (sells only)
+  lot_method?: CostBasisMethod;
+  lot_selections?: LotSelection[];
+  lot_allocations?: LotAllocation[];
+  short_term_gain?: number;
+  long_term_gain?: number;
+}
+
+/** A user-picked slice of one lot, keyed by the lot's source transaction. */
+export interface LotSelection {
+  lot_id: string;
+  quantity: number;
+}
+
+/** How much of one lot a sell relieved, and what it realized. */
+export interface LotAllocation {
+  lot_id: string | null;      // null = quantity no lot covered (zero basis)
+  acquired_at: string | null;
+  quantity: number;
+  cost_basis: number;         // includes the lot's share of its buy fee
+  proceeds: number;           // net of this slice's share of the sell fee
+  fees: number;               // buy + sell fee shares folded into the two above
+  term: HoldingTerm;
+}
+
+/** One acquisition (buy / transfer in). Rebuilt from the ledger on every change. */
+export interface TaxLot {
+  id: string;
+  portfolio_id: string;
+  transaction_id: string;
+  symbol: string;
+  acquired_at: string;
+  quantity: number;
+  remaining_quantity: number;
+  cost_per_unit: number;      // fee-inclusive
+  created_at: string;
 }